@@ -46,6 +46,24 @@ const BurnDonationPage = lazy(() => import('./pages/BurnDonationPage'));
 // Escrow View
 const EscrowViewPage = lazy(() => import('./pages/EscrowViewPage'));
 
+// Treasury Analytics
+const TreasuryAnalyticsPage = lazy(() => import('./pages/TreasuryAnalyticsPage'));
+
+// Payout Approvals
+const PayoutQueuePage = lazy(() => import('./pages/PayoutQueuePage'));
+
+// Treasury Transactions
+const TreasuryTransactionsPage = lazy(() => import('./pages/TreasuryTransactionsPage'));
+
+// Wallet Activity
+const WalletActivityPage = lazy(() => import('./pages/WalletActivityPage'));
+
+// Token Approvals
+const AllowancesPage = lazy(() => import('./pages/AllowancesPage'));
+
+// Staking
+const StakingPage = lazy(() => import('./pages/StakingPage'));
+
 // Member Directory
 const MemberDirectoryPage = lazy(() => import('./pages/MemberDirectoryPage'));
 
@@ -58,6 +76,9 @@ const EventsPage = lazy(() => import('./pages/EventsPage'));
 // Unsubscribe (public page - no auth required)
 const Unsubscribe = lazy(() => import('./pages/Unsubscribe'));
 
+// Vote receipt verifier (public page - no auth required)
+const VerifyReceiptPage = lazy(() => import('./pages/VerifyReceiptPage'));
+
 // Loading fallback for lazy-loaded routes
 function PageLoader() {
   return (
@@ -77,6 +98,7 @@ export default function App() {
             {/* Public routes - no authentication required */}
             <Route path="/privacy-policy" element={<PrivacyPolicy />} />
             <Route path="/unsubscribe" element={<Unsubscribe />} />
+            <Route path="/votes/verify" element={<VerifyReceiptPage />} />
             <Route path="/login" element={
               <LoginRedirect
                 loginUrl={`${import.meta.env.VITE_FOUNDERY_OS_URL || 'http://127.0.0.1:5174'}/login`}
@@ -117,6 +139,18 @@ export default function App() {
               <Route path="/burn-donation" element={<BurnDonationPage />} />
               {/* Escrow View */}
               <Route path="/escrow" element={<EscrowViewPage />} />
+              {/* Treasury Analytics */}
+              <Route path="/treasury/analytics" element={<TreasuryAnalyticsPage />} />
+              {/* Payout Approvals (admin) */}
+              <Route path="/treasury/payouts" element={<PayoutQueuePage />} />
+              {/* Treasury Transactions */}
+              <Route path="/treasury/transactions" element={<TreasuryTransactionsPage />} />
+              {/* Wallet Activity */}
+              <Route path="/wallet/activity" element={<WalletActivityPage />} />
+              {/* Token Approvals */}
+              <Route path="/wallet/allowances" element={<AllowancesPage />} />
+              {/* Staking */}
+              <Route path="/wallet/staking" element={<StakingPage />} />
               {/* Member Directory */}
               <Route path="/members" element={<MemberDirectoryPage />} />
               <Route path="/members/:principal" element={<MemberProfilePage />} />
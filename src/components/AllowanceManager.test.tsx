@@ -0,0 +1,121 @@
+/**
+ * AllowanceManager Component Tests
+ *
+ * Tests for listing ICRC-2 approvals, approving a spender with an expiry
+ * and revoking an approval.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { AllowanceManager } from '@/components/AllowanceManager';
+import { clearTokenBalance, setTokenBalance, type TokenAllowance } from '@/stores';
+
+// Mock allowanceService
+vi.mock('@/services/allowanceService', () => ({
+  useAllowances: vi.fn(),
+}));
+
+import { useAllowances } from '@/services/allowanceService';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const TREASURY = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+const OTHER = 'ryjl3-tyaaa-aaaaa-aaaba-cai';
+
+const approve = vi.fn();
+const revoke = vi.fn();
+
+function mockHook(allowances: TokenAllowance[] = []) {
+  vi.mocked(useAllowances).mockReturnValue({
+    state: {
+      principal: SELF,
+      allowances,
+      lastUpdated: Date.now(),
+      isLoading: false,
+      error: null,
+    },
+    allowances,
+    spenders: [{ principal: TREASURY, label: 'Treasury (escrow funding)', source: 'dao' }],
+    actionState: { pendingSpender: null, error: null },
+    fee: BigInt(10_000),
+    approve,
+    revoke,
+    refresh: vi.fn(),
+  });
+}
+
+describe('AllowanceManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearTokenBalance();
+    setTokenBalance(BigInt(1_000_000_000), SELF); // 10 DOM
+  });
+
+  it('should list outstanding approvals with their expiry', () => {
+    mockHook([{ spender: TREASURY, allowance: BigInt(250_000_000), expiresAt: null }]);
+
+    render(<AllowanceManager principal={SELF} />);
+
+    const list = screen.getByRole('list', { name: 'Approvals' });
+    expect(list).toHaveTextContent('Treasury (escrow funding)');
+    expect(list).toHaveTextContent('2.50 DOM');
+    expect(list).toHaveTextContent('No expiry');
+  });
+
+  it('should show the empty state', () => {
+    mockHook();
+
+    render(<AllowanceManager principal={SELF} />);
+
+    expect(screen.getByText('No outstanding approvals')).toBeInTheDocument();
+  });
+
+  it('should approve a custom spender with an expiry', async () => {
+    const user = userEvent.setup();
+    approve.mockResolvedValue({ success: true, txIndex: '3' });
+    mockHook();
+
+    render(<AllowanceManager principal={SELF} />);
+
+    await user.selectOptions(screen.getByLabelText('Spender'), 'other');
+    await user.type(screen.getByLabelText('Spender principal'), OTHER);
+    await user.type(screen.getByLabelText('Amount'), '12');
+    fireEvent.change(screen.getByLabelText('Expires (optional)'), {
+      target: { value: '2099-01-31' },
+    });
+    await user.click(screen.getByRole('button', { name: 'Approve' }));
+
+    expect(approve).toHaveBeenCalledWith({
+      spender: OTHER,
+      amount: BigInt(1_200_000_000),
+      expiresAt: new Date('2099-01-31T23:59:59.999').getTime(),
+    });
+  });
+
+  it('should reject an expiry in the past', async () => {
+    mockHook();
+
+    render(<AllowanceManager principal={SELF} />);
+
+    fireEvent.change(screen.getByLabelText('Expires (optional)'), {
+      target: { value: '2000-01-01' },
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Expiry must be in the future');
+    expect(screen.getByRole('button', { name: 'Approve' })).toBeDisabled();
+  });
+
+  it('should revoke an approval after confirmation', async () => {
+    const user = userEvent.setup();
+    revoke.mockResolvedValue({ success: true, txIndex: '4' });
+    mockHook([{ spender: TREASURY, allowance: BigInt(100_000_000), expiresAt: null }]);
+
+    render(<AllowanceManager principal={SELF} />);
+
+    await user.click(screen.getByRole('button', { name: 'Revoke' }));
+    expect(revoke).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Confirm revoke' }));
+    expect(revoke).toHaveBeenCalledWith(TREASURY);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Allowance Manager Component
+ *
+ * Lists the ICRC-2 approvals the member has granted on the DOM ledger and
+ * lets them approve a spender (with an optional expiry) or revoke an
+ * approval by setting it to zero.
+ */
+
+import React, { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { AlertCircle, KeyRound, RefreshCw, ShieldCheck } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  $tokenBalance,
+  formatExactTokenAmount,
+  formatTokenAmount,
+  isAllowanceExpired,
+  parseTokenAmount,
+  showError,
+  showSuccess,
+  validateAllowanceAmount,
+  validateAllowanceExpiry,
+  validateAllowanceSpender,
+  TOKEN_DECIMALS,
+  type TokenAllowance,
+} from '@/stores';
+import { useAllowances } from '../services/allowanceService';
+
+/** Select value for entering a spender principal by hand */
+const OTHER_SPENDER = 'other';
+
+const inputClasses =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500';
+
+function truncatePrincipal(principal: string): string {
+  return principal.length > 20 ? `${principal.slice(0, 11)}...${principal.slice(-5)}` : principal;
+}
+
+/**
+ * Format an allowance expiry (nanoseconds) for display
+ */
+function formatExpiry(allowance: TokenAllowance): string {
+  if (allowance.expiresAt === null) return 'No expiry';
+  const date = new Date(Number(allowance.expiresAt / BigInt(1_000_000)));
+  const formatted = date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return isAllowanceExpired(allowance) ? `Expired ${formatted}` : `Expires ${formatted}`;
+}
+
+export interface AllowanceManagerProps {
+  /** Account to manage approvals for (null when II is not linked) */
+  principal: string | null;
+  /** Optional className for container */
+  className?: string;
+}
+
+export function AllowanceManager({
+  principal,
+  className = '',
+}: AllowanceManagerProps): React.ReactElement {
+  const { state, allowances, spenders, actionState, fee, approve, revoke, refresh } =
+    useAllowances(principal);
+  const { balance } = useStore($tokenBalance);
+
+  const [spenderChoice, setSpenderChoice] = useState(spenders[0]?.principal ?? OTHER_SPENDER);
+  const [customSpender, setCustomSpender] = useState('');
+  const [amountInput, setAmountInput] = useState('');
+  const [expiryInput, setExpiryInput] = useState('');
+  const [confirmingRevoke, setConfirmingRevoke] = useState<string | null>(null);
+
+  const labels = new Map(spenders.map((s) => [s.principal, s.label]));
+  const spender = spenderChoice === OTHER_SPENDER ? customSpender : spenderChoice;
+  const amount = /^\d*\.?\d{0,8}$/.test(amountInput)
+    ? parseTokenAmount(amountInput || '0', TOKEN_DECIMALS)
+    : BigInt(0);
+  // The allowance lasts until the end of the chosen day
+  const expiresAt = expiryInput ? new Date(`${expiryInput}T23:59:59.999`).getTime() : null;
+
+  const spenderError = spender ? validateAllowanceSpender(spender, principal) : null;
+  const amountError = amountInput ? validateAllowanceAmount(amount, balance, fee) : null;
+  const expiryError = validateAllowanceExpiry(expiresAt);
+  const validationError = spenderError ?? amountError ?? expiryError;
+  const canApprove = !!spender && amount > BigInt(0) && !validationError;
+  // A pending action with no revoke being confirmed is an approval
+  const isApproving = actionState.pendingSpender !== null && confirmingRevoke === null;
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow empty, digits, single decimal, and up to 8 decimal places
+    if (value === '' || /^\d*\.?\d{0,8}$/.test(value)) {
+      setAmountInput(value);
+    }
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canApprove) return;
+
+    const result = await approve({ spender, amount, expiresAt });
+    if (result.success) {
+      showSuccess(`Approved ${formatTokenAmount(amount, TOKEN_DECIMALS)} DOM`);
+      setAmountInput('');
+      setExpiryInput('');
+      setCustomSpender('');
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleRevoke = async (target: string) => {
+    const result = await revoke(target);
+    setConfirmingRevoke(null);
+    if (result.success) {
+      showSuccess('Approval revoked');
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  if (!principal) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 text-center ${className}`}>
+        <p className="text-gray-600">Link Internet Identity to manage your approvals.</p>
+      </div>
+    );
+  }
+
+  const isInitialLoad = state.isLoading && !state.lastUpdated;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Outstanding approvals */}
+      <section className="bg-white rounded-lg border border-gray-200">
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">Outstanding approvals</h2>
+          <button
+            onClick={refresh}
+            disabled={state.isLoading}
+            className="p-1.5 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+            aria-label="Refresh approvals"
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${state.isLoading ? 'animate-spin' : ''}`}
+              aria-hidden="true"
+            />
+          </button>
+        </div>
+
+        <div className="p-4">
+          {state.error && (
+            <div className="mb-4 flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+              <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" aria-hidden="true" />
+              <div className="text-sm">
+                <p className="font-medium text-red-700">Failed to load approvals</p>
+                <p className="text-red-600">{state.error}</p>
+              </div>
+            </div>
+          )}
+
+          {isInitialLoad && (
+            <div className="animate-pulse space-y-3" aria-label="Loading approvals">
+              {[1, 2].map((i) => (
+                <div key={i} className="h-12 rounded bg-gray-100" />
+              ))}
+            </div>
+          )}
+
+          {!isInitialLoad && !state.error && allowances.length === 0 && (
+            <div className="py-8 text-center">
+              <ShieldCheck className="h-8 w-8 text-gray-300 mx-auto mb-2" aria-hidden="true" />
+              <p className="text-gray-500">No outstanding approvals</p>
+            </div>
+          )}
+
+          {allowances.length > 0 && (
+            <ul className="divide-y divide-gray-100" aria-label="Approvals">
+              {allowances.map((a) => {
+                const label = labels.get(a.spender);
+                const isPending = actionState.pendingSpender === a.spender;
+                return (
+                  <li key={a.spender} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {label && label !== a.spender ? label : truncatePrincipal(a.spender)}
+                      </p>
+                      <p className="font-mono text-xs text-gray-500 truncate" title={a.spender}>
+                        {a.spender}
+                      </p>
+                      <p
+                        className={`text-xs ${isAllowanceExpired(a) ? 'text-amber-600' : 'text-gray-400'}`}
+                      >
+                        {formatExpiry(a)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 text-right">
+                      <p className="font-semibold tabular-nums text-gray-900">
+                        {formatTokenAmount(a.allowance, TOKEN_DECIMALS)} DOM
+                      </p>
+                      {confirmingRevoke === a.spender ? (
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            onClick={() => setConfirmingRevoke(null)}
+                            disabled={isPending}
+                            className="min-h-[44px]"
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            onClick={() => handleRevoke(a.spender)}
+                            disabled={isPending}
+                            className="min-h-[44px] text-white bg-red-600 hover:bg-red-700"
+                          >
+                            {isPending ? 'Revoking...' : 'Confirm revoke'}
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          onClick={() => setConfirmingRevoke(a.spender)}
+                          disabled={actionState.pendingSpender !== null}
+                          className="min-h-[44px]"
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </section>
+
+      {/* New approval */}
+      <section className="bg-white rounded-lg border border-gray-200 p-4">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-teal-600" aria-hidden="true" />
+          New approval
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          An approval lets the spender transfer up to the approved amount from your account. A
+          new approval for the same spender replaces the previous one.
+        </p>
+
+        <form onSubmit={handleApprove} className="space-y-4">
+          <div>
+            <label htmlFor="allowance-spender" className="block text-sm font-medium text-gray-900 mb-1">
+              Spender
+            </label>
+            <select
+              id="allowance-spender"
+              value={spenderChoice}
+              onChange={(e) => setSpenderChoice(e.target.value)}
+              className={inputClasses}
+            >
+              {spenders.map((s) => (
+                <option key={s.principal} value={s.principal}>
+                  {s.source === 'dao' ? s.label : truncatePrincipal(s.principal)}
+                </option>
+              ))}
+              <option value={OTHER_SPENDER}>Other principal...</option>
+            </select>
+          </div>
+
+          {spenderChoice === OTHER_SPENDER && (
+            <div>
+              <label
+                htmlFor="allowance-custom-spender"
+                className="block text-sm font-medium text-gray-900 mb-1"
+              >
+                Spender principal
+              </label>
+              <input
+                id="allowance-custom-spender"
+                type="text"
+                value={customSpender}
+                onChange={(e) => setCustomSpender(e.target.value)}
+                className={`${inputClasses} font-mono`}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="allowance-amount"
+                className="block text-sm font-medium text-gray-900 mb-1"
+              >
+                Amount
+              </label>
+              <input
+                id="allowance-amount"
+                type="text"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={amountInput}
+                onChange={handleAmountChange}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="allowance-expiry"
+                className="block text-sm font-medium text-gray-900 mb-1"
+              >
+                Expires (optional)
+              </label>
+              <input
+                id="allowance-expiry"
+                type="date"
+                value={expiryInput}
+                onChange={(e) => setExpiryInput(e.target.value)}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Network fee: {formatExactTokenAmount(fee)} DOM per approval or revocation
+          </p>
+
+          {validationError && (
+            <p className="text-sm text-red-600" role="alert">
+              {validationError}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={!canApprove || isApproving}
+              className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+            >
+              {isApproving ? 'Approving...' : 'Approve'}
+            </Button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+}
+
+export default AllowanceManager;
@@ -19,6 +19,7 @@ import {
   setBurnPoolData,
   setTokenBalance,
   addBurnRecord,
+  type BurnPledge,
 } from '@/stores';
 
 // Mock analytics
@@ -29,6 +30,7 @@ vi.mock('@/utils/analytics', () => ({
 // Mock burnService
 const mockExecuteBurn = vi.fn();
 const mockRefresh = vi.fn();
+const mockFulfill = vi.fn();
 
 vi.mock('@/services/burnService', () => ({
   useBurnDonation: vi.fn(() => ({
@@ -42,9 +44,37 @@ vi.mock('@/services/burnService', () => ({
     resetExecution: vi.fn(),
     clear: vi.fn(),
   })),
+  useBurnPledges: vi.fn(),
 }));
 
-import { useBurnDonation } from '@/services/burnService';
+import { useBurnDonation, useBurnPledges } from '@/services/burnService';
+
+function mockPledges(pledges: BurnPledge[] = [], duePledges: BurnPledge[] = []) {
+  vi.mocked(useBurnPledges).mockReturnValue({
+    pledges,
+    duePledges,
+    create: vi.fn(),
+    fulfill: mockFulfill,
+    pause: vi.fn(),
+    resume: vi.fn(),
+    cancel: vi.fn(),
+  });
+}
+
+function createPledge(overrides: Partial<BurnPledge> = {}): BurnPledge {
+  return {
+    id: 'pledge-1',
+    principal: 'test-principal',
+    amount: BigInt(200_000_000), // 2 DOM
+    cadence: 'monthly',
+    status: 'active',
+    startsAt: Date.now(),
+    periodIndex: 0,
+    createdAt: Date.now(),
+    periods: [],
+    ...overrides,
+  };
+}
 
 function renderWithRouter(component: React.ReactElement) {
   return render(<BrowserRouter>{component}</BrowserRouter>);
@@ -75,6 +105,7 @@ describe('BurnDonation', () => {
       resetExecution: vi.fn(),
       clear: vi.fn(),
     }));
+    mockPledges();
   });
 
   afterEach(() => {
@@ -343,6 +374,43 @@ describe('BurnDonation', () => {
     });
   });
 
+  describe('Burn pledges', () => {
+    it('should burn a due pledge with one click', async () => {
+      const user = userEvent.setup();
+      const pledge = createPledge();
+      mockFulfill.mockResolvedValue({ success: true, txIndex: '42' });
+      mockPledges([pledge], [pledge]);
+
+      renderWithRouter(<BurnDonation />);
+
+      expect(screen.getByText(/Your monthly pledge of 2.00 DOM/)).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Burn 2.00 DOM' }));
+
+      expect(mockFulfill).toHaveBeenCalledWith('pledge-1');
+      expect(mockExecuteBurn).not.toHaveBeenCalled();
+    });
+
+    it('should show pledge adherence and missed periods in history', () => {
+      const dueAt = new Date('2026-03-01T00:00:00Z').getTime();
+      mockPledges([
+        createPledge({
+          periodIndex: 2,
+          periods: [
+            { dueAt: dueAt + 1, outcome: 'missed', resolvedAt: dueAt + 5 },
+            { dueAt, outcome: 'fulfilled', resolvedAt: dueAt, txIndex: '7' },
+          ],
+        }),
+      ]);
+
+      renderWithRouter(<BurnDonation />);
+
+      expect(screen.getByRole('list', { name: 'Pledge adherence' })).toHaveTextContent(
+        '1 of 2 kept (50%)'
+      );
+      expect(screen.getByText('Missed pledge')).toBeInTheDocument();
+    });
+  });
+
   describe('Custom className', () => {
     it('should apply custom className', () => {
       const { container } = renderWithRouter(<BurnDonation className="custom-class" />);
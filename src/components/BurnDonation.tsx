@@ -4,6 +4,7 @@
  * Allows verified DAO members to donate DOM tokens to the burn pool.
  * Standard burns only (1:1) - users cannot select ecological burn type.
  * Burn history stored in localStorage (on-chain history is global only).
+ * Due burn pledges are prompted here and confirmed with one click.
  *
  * Story: 9-2-3-burn-donation
  * ACs: 1, 2, 3, 4, 5
@@ -23,6 +24,7 @@ import {
   AlertTriangle,
   ExternalLink,
   Clock,
+  Repeat,
 } from 'lucide-react';
 import {
   $tokenBalance,
@@ -41,9 +43,15 @@ import {
   resetBurnExecution,
   TOKEN_DECIMALS,
   MIN_BURN_AMOUNT,
+  BURN_PLEDGE_CADENCE_LABELS,
+  BURN_PLEDGE_GRACE_PERIOD_MS,
+  getBurnPledgeAdherence,
+  getBurnPledgeNextDueAt,
   type LocalBurnRecord,
+  type BurnPledge,
+  type BurnPledgePeriod,
 } from '@/stores';
-import { useBurnDonation } from '../services/burnService';
+import { useBurnDonation, useBurnPledges } from '../services/burnService';
 import { trackEvent } from '../utils/analytics';
 
 // ============================================================================
@@ -358,7 +366,14 @@ function BurnHistoryItem({ record }: BurnHistoryItemProps): React.ReactElement {
           <Flame className="h-4 w-4 text-orange-600" />
         </div>
         <div>
-          <p className="font-medium text-gray-900">{formattedAmount} DOM</p>
+          <p className="font-medium text-gray-900">
+            {formattedAmount} DOM
+            {record.pledgeId && (
+              <span className="ml-2 text-xs font-medium px-1.5 py-0.5 rounded bg-orange-50 text-orange-700">
+                Pledge
+              </span>
+            )}
+          </p>
           <div className="flex items-center gap-1 text-xs text-gray-400">
             <Clock className="h-3 w-3" />
             {formattedDate}
@@ -377,17 +392,99 @@ function BurnHistoryItem({ record }: BurnHistoryItemProps): React.ReactElement {
   );
 }
 
+interface MissedPledgeItemProps {
+  pledge: BurnPledge;
+  period: BurnPledgePeriod;
+}
+
+function MissedPledgeItem({ pledge, period }: MissedPledgeItemProps): React.ReactElement {
+  const formattedDate = new Date(period.dueAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  return (
+    <div className="flex items-center justify-between py-3 border-b border-gray-100 last:border-b-0">
+      <div className="flex items-center gap-3">
+        <div className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center">
+          <Repeat className="h-4 w-4 text-gray-400" />
+        </div>
+        <div>
+          <p className="font-medium text-gray-500">
+            {formatTokenAmount(pledge.amount, TOKEN_DECIMALS)} DOM
+          </p>
+          <div className="flex items-center gap-1 text-xs text-gray-400">
+            <Clock className="h-3 w-3" />
+            Due {formattedDate}
+          </div>
+        </div>
+      </div>
+      <span className="text-xs font-medium px-2 py-1 rounded-full text-red-600 bg-red-100">
+        Missed pledge
+      </span>
+    </div>
+  );
+}
+
+/**
+ * One line per pledge summarizing how many due periods were fulfilled
+ */
+function PledgeAdherenceSummary({ pledges }: { pledges: BurnPledge[] }): React.ReactElement | null {
+  const settled = pledges.filter((pledge) => pledge.periods.length > 0);
+  if (settled.length === 0) return null;
+
+  return (
+    <ul className="mb-3 space-y-1 text-sm" aria-label="Pledge adherence">
+      {settled.map((pledge) => {
+        const { fulfilled, missed, rate } = getBurnPledgeAdherence(pledge);
+        return (
+          <li key={pledge.id} className="flex items-center justify-between gap-3 text-gray-600">
+            <span>
+              {BURN_PLEDGE_CADENCE_LABELS[pledge.cadence]} pledge ·{' '}
+              {formatTokenAmount(pledge.amount, TOKEN_DECIMALS)} DOM
+            </span>
+            <span className={missed > 0 ? 'text-orange-700' : 'text-green-700'}>
+              {fulfilled} of {fulfilled + missed} kept ({rate}%)
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 // ============================================================================
 // Burn History
 // ============================================================================
 
+type BurnHistoryEntry =
+  | { kind: 'burn'; timestamp: number; record: LocalBurnRecord }
+  | { kind: 'missed'; timestamp: number; pledge: BurnPledge; period: BurnPledgePeriod };
+
 interface BurnHistoryProps {
   records: LocalBurnRecord[];
+  pledges: BurnPledge[];
   onExport: () => void;
 }
 
-function BurnHistory({ records, onExport }: BurnHistoryProps): React.ReactElement {
-  if (records.length === 0) {
+function BurnHistory({ records, pledges, onExport }: BurnHistoryProps): React.ReactElement {
+  // Missed pledge periods are shown alongside the burns that kept them
+  const entries = useMemo(() => {
+    const burns: BurnHistoryEntry[] = records.map((record) => ({
+      kind: 'burn',
+      timestamp: record.timestamp,
+      record,
+    }));
+    const missed: BurnHistoryEntry[] = pledges.flatMap((pledge) =>
+      pledge.periods
+        .filter((period) => period.outcome === 'missed')
+        .map((period) => ({ kind: 'missed', timestamp: period.dueAt, pledge, period }))
+    );
+    return [...burns, ...missed].sort((a, b) => b.timestamp - a.timestamp);
+  }, [records, pledges]);
+
+  if (entries.length === 0) {
     return (
       <div className="py-6 text-center">
         <Flame className="h-8 w-8 text-gray-300 mx-auto mb-2" />
@@ -415,20 +512,81 @@ function BurnHistory({ records, onExport }: BurnHistoryProps): React.ReactElemen
         </button>
       </div>
       <div className="text-xs text-gray-400 mb-3">Note: History stored locally in your browser</div>
+      <PledgeAdherenceSummary pledges={pledges} />
       <div className="max-h-64 overflow-y-auto">
-        {records.slice(0, 20).map((record) => (
-          <BurnHistoryItem key={record.id} record={record} />
-        ))}
+        {entries.slice(0, 20).map((entry) =>
+          entry.kind === 'burn' ? (
+            <BurnHistoryItem key={entry.record.id} record={entry.record} />
+          ) : (
+            <MissedPledgeItem
+              key={`${entry.pledge.id}-${entry.period.dueAt}`}
+              pledge={entry.pledge}
+              period={entry.period}
+            />
+          )
+        )}
       </div>
-      {records.length > 20 && (
+      {entries.length > 20 && (
         <p className="text-xs text-gray-400 mt-2 text-center">
-          Showing 20 of {records.length} burns
+          Showing 20 of {entries.length} entries
         </p>
       )}
     </div>
   );
 }
 
+// ============================================================================
+// Pledge Due Prompt
+// ============================================================================
+
+interface PledgeDuePromptProps {
+  pledge: BurnPledge;
+  onConfirm: (pledge: BurnPledge) => void;
+  isExecuting: boolean;
+}
+
+function PledgeDuePrompt({
+  pledge,
+  onConfirm,
+  isExecuting,
+}: PledgeDuePromptProps): React.ReactElement {
+  const amount = formatTokenAmount(pledge.amount, TOKEN_DECIMALS);
+  const missedAfter = new Date(
+    getBurnPledgeNextDueAt(pledge) + BURN_PLEDGE_GRACE_PERIOD_MS
+  ).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div
+      id={`pledge-due-${pledge.id}`}
+      className="bg-orange-50 border border-orange-200 rounded-lg p-3 flex items-start gap-3"
+    >
+      <Repeat className="h-5 w-5 text-orange-600 flex-shrink-0 mt-0.5" aria-hidden="true" />
+      <div className="flex-1">
+        <p className="text-sm font-medium text-orange-900">
+          Your {BURN_PLEDGE_CADENCE_LABELS[pledge.cadence].toLowerCase()} pledge of {amount} DOM
+          is due
+        </p>
+        <p className="text-xs text-orange-800 mt-0.5">Counted as missed after {missedAfter}</p>
+      </div>
+      <button
+        onClick={() => onConfirm(pledge)}
+        disabled={isExecuting}
+        className="
+          flex-shrink-0 px-3 py-1.5
+          text-sm font-medium text-white
+          bg-orange-600 hover:bg-orange-700
+          rounded-md
+          disabled:opacity-50 disabled:cursor-not-allowed
+          focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2
+          transition-colors duration-150
+        "
+      >
+        Burn {amount} DOM
+      </button>
+    </div>
+  );
+}
+
 // ============================================================================
 // Main Component
 // ============================================================================
@@ -467,6 +625,8 @@ export function BurnDonation({ className = '' }: BurnDonationProps): React.React
     autoFetch: true,
     refetchIfStale: true,
   });
+  const { pledges, duePledges, fulfill } = useBurnPledges(tokenBalance.principal);
+  const [pledgeError, setPledgeError] = useState<string | null>(null);
 
   // User balance
   const userBalance = tokenBalance.balance;
@@ -535,6 +695,16 @@ export function BurnDonation({ className = '' }: BurnDonationProps): React.React
     }
   };
 
+  // Handle one-click pledge burn
+  const handleConfirmPledge = async (pledge: BurnPledge) => {
+    setPledgeError(null);
+    setLastBurnAmount(formatTokenAmount(pledge.amount, TOKEN_DECIMALS));
+    const result = await fulfill(pledge.id);
+    if (!result.success && result.error) {
+      setPledgeError(result.error);
+    }
+  };
+
   // Handle cancel confirmation
   const handleCancelConfirm = () => {
     setShowConfirmModal(false);
@@ -623,6 +793,22 @@ export function BurnDonation({ className = '' }: BurnDonationProps): React.React
               </div>
             </div>
 
+            {/* Due burn pledges */}
+            {duePledges.map((pledge) => (
+              <PledgeDuePrompt
+                key={pledge.id}
+                pledge={pledge}
+                onConfirm={handleConfirmPledge}
+                isExecuting={isBurnPending}
+              />
+            ))}
+            {pledgeError && (
+              <p className="text-sm text-red-600 flex items-center gap-1" role="alert">
+                <AlertCircle className="h-4 w-4" />
+                {pledgeError}
+              </p>
+            )}
+
             {/* Burn Pool Display (AC-2) */}
             <div className="bg-gradient-to-br from-orange-50 to-red-50 rounded-lg p-4">
               <p className="text-sm text-gray-600 mb-1">Total Tokens Burned</p>
@@ -808,7 +994,11 @@ export function BurnDonation({ className = '' }: BurnDonationProps): React.React
             <FAQSection onExpand={handleFaqExpand} />
 
             {/* Burn History (AC-5) */}
-            <BurnHistory records={burnHistory} onExport={handleExportHistory} />
+            <BurnHistory
+              records={burnHistory}
+              pledges={pledges}
+              onExport={handleExportHistory}
+            />
           </div>
         )}
       </div>
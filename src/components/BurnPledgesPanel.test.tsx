@@ -0,0 +1,126 @@
+/**
+ * BurnPledgesPanel Component Tests
+ *
+ * Tests for creating pledges with burn amount validation, and pausing,
+ * resuming and cancelling pledges.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BurnPledgesPanel } from '@/components/BurnPledgesPanel';
+import { clearTokenBalance, setTokenBalance, type BurnPledge } from '@/stores';
+
+// Mock burnService
+vi.mock('@/services/burnService', () => ({
+  useBurnPledges: vi.fn(),
+}));
+
+import { useBurnPledges } from '@/services/burnService';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const DOM = BigInt(100_000_000);
+
+const create = vi.fn();
+const pause = vi.fn();
+const resume = vi.fn();
+const cancel = vi.fn();
+
+function createPledge(overrides: Partial<BurnPledge> = {}): BurnPledge {
+  return {
+    id: 'pledge-1',
+    principal: SELF,
+    amount: DOM * BigInt(5),
+    cadence: 'monthly',
+    status: 'active',
+    startsAt: Date.now(),
+    periodIndex: 0,
+    createdAt: Date.now(),
+    periods: [],
+    ...overrides,
+  };
+}
+
+function mockHook(pledges: BurnPledge[] = []) {
+  vi.mocked(useBurnPledges).mockReturnValue({
+    pledges,
+    duePledges: [],
+    create,
+    fulfill: vi.fn(),
+    pause,
+    resume,
+    cancel,
+  });
+}
+
+describe('BurnPledgesPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearTokenBalance();
+    setTokenBalance(DOM * BigInt(10), SELF);
+  });
+
+  it('should create a pledge with the chosen cadence', async () => {
+    const user = userEvent.setup();
+    create.mockReturnValue({ success: true });
+    mockHook();
+
+    render(<BurnPledgesPanel />);
+
+    expect(screen.getByText('No pledges yet')).toBeInTheDocument();
+    await user.type(screen.getByLabelText('Amount per period'), '2.5');
+    await user.selectOptions(screen.getByLabelText('Cadence'), 'weekly');
+    await user.click(screen.getByRole('button', { name: 'Create pledge' }));
+
+    expect(create).toHaveBeenCalledWith({ amount: BigInt(250_000_000), cadence: 'weekly' });
+  });
+
+  it('should validate the pledged amount like a burn', async () => {
+    const user = userEvent.setup();
+    mockHook();
+
+    render(<BurnPledgesPanel />);
+
+    await user.type(screen.getByLabelText('Amount per period'), '0.5');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Minimum burn is 1.00 DOM');
+    expect(screen.getByRole('button', { name: 'Create pledge' })).toBeDisabled();
+  });
+
+  it('should pause an active pledge and cancel after confirmation', async () => {
+    const user = userEvent.setup();
+    mockHook([createPledge()]);
+
+    render(<BurnPledgesPanel />);
+
+    const list = screen.getByRole('list', { name: 'Burn pledges' });
+    expect(list).toHaveTextContent('5.00 DOM · Monthly');
+    expect(list).toHaveTextContent('No periods settled yet');
+
+    await user.click(screen.getByRole('button', { name: 'Pause' }));
+    expect(pause).toHaveBeenCalledWith('pledge-1');
+
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    await user.click(screen.getByRole('button', { name: 'Confirm cancel' }));
+    expect(cancel).toHaveBeenCalledWith('pledge-1');
+  });
+
+  it('should resume a paused pledge and show its adherence', async () => {
+    const user = userEvent.setup();
+    mockHook([
+      createPledge({
+        status: 'paused',
+        periodIndex: 1,
+        periods: [{ dueAt: 1, outcome: 'fulfilled', resolvedAt: 1, txIndex: '3' }],
+      }),
+    ]);
+
+    render(<BurnPledgesPanel />);
+
+    expect(screen.getByText('Paused')).toBeInTheDocument();
+    expect(screen.getByText('1 kept, 0 missed (100% adherence)')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Resume' }));
+    expect(resume).toHaveBeenCalledWith('pledge-1');
+  });
+});
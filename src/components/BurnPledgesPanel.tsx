@@ -0,0 +1,272 @@
+/**
+ * Burn Pledges Panel Component
+ *
+ * Create, pause, resume and cancel recurring burn pledges. Due pledges are
+ * confirmed from the burn donation form; this panel manages the pledges and
+ * shows how well each one has been kept.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { AlertCircle, Pause, Play, Repeat, X } from 'lucide-react';
+import {
+  $tokenBalance,
+  formatTokenAmount,
+  parseTokenAmount,
+  validateBurnAmount,
+  getBurnPledgeAdherence,
+  getBurnPledgeNextDueAt,
+  showSuccess,
+  TOKEN_DECIMALS,
+  MIN_BURN_AMOUNT,
+  BURN_PLEDGE_CADENCE_LABELS,
+  BURN_PLEDGE_GRACE_PERIOD_MS,
+  type BurnPledge,
+  type BurnPledgeCadence,
+  type BurnPledgeStatus,
+} from '@/stores';
+import { useBurnPledges } from '../services/burnService';
+
+const STATUS_STYLES: Record<BurnPledgeStatus, string> = {
+  active: 'text-green-700 bg-green-100',
+  paused: 'text-yellow-700 bg-yellow-100',
+  cancelled: 'text-gray-600 bg-gray-100',
+};
+
+const STATUS_LABELS: Record<BurnPledgeStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+};
+
+const GRACE_PERIOD_DAYS = BURN_PLEDGE_GRACE_PERIOD_MS / (24 * 60 * 60 * 1000);
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+interface PledgeItemProps {
+  pledge: BurnPledge;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+function PledgeItem({ pledge, onPause, onResume, onCancel }: PledgeItemProps): React.ReactElement {
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const { fulfilled, missed, rate } = getBurnPledgeAdherence(pledge);
+
+  return (
+    <li id={`pledge-${pledge.id}`} className="py-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium text-gray-900">
+            {formatTokenAmount(pledge.amount, TOKEN_DECIMALS)} DOM ·{' '}
+            {BURN_PLEDGE_CADENCE_LABELS[pledge.cadence]}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {pledge.status === 'cancelled'
+              ? `Created ${formatDate(pledge.createdAt)}`
+              : `Next due ${formatDate(getBurnPledgeNextDueAt(pledge))}`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {rate === null
+              ? 'No periods settled yet'
+              : `${fulfilled} kept, ${missed} missed (${rate}% adherence)`}
+          </p>
+        </div>
+        <span
+          className={`text-xs font-medium px-2 py-1 rounded-full ${STATUS_STYLES[pledge.status]}`}
+        >
+          {STATUS_LABELS[pledge.status]}
+        </span>
+      </div>
+
+      {pledge.status !== 'cancelled' && (
+        <div className="flex items-center gap-2 mt-2">
+          {pledge.status === 'active' ? (
+            <button
+              onClick={() => onPause(pledge.id)}
+              className="inline-flex items-center gap-1 px-2.5 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              <Pause className="h-3.5 w-3.5" aria-hidden="true" />
+              Pause
+            </button>
+          ) : (
+            <button
+              onClick={() => onResume(pledge.id)}
+              className="inline-flex items-center gap-1 px-2.5 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              <Play className="h-3.5 w-3.5" aria-hidden="true" />
+              Resume
+            </button>
+          )}
+          {confirmCancel ? (
+            <>
+              <button
+                onClick={() => onCancel(pledge.id)}
+                className="px-2.5 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+              >
+                Confirm cancel
+              </button>
+              <button
+                onClick={() => setConfirmCancel(false)}
+                className="px-2.5 py-1 text-sm text-gray-600 hover:text-gray-900 focus:outline-none focus:underline"
+              >
+                Keep pledge
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setConfirmCancel(true)}
+              className="inline-flex items-center gap-1 px-2.5 py-1 text-sm text-red-600 hover:text-red-800 focus:outline-none focus:underline"
+            >
+              <X className="h-3.5 w-3.5" aria-hidden="true" />
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export interface BurnPledgesPanelProps {
+  /** Optional className for container */
+  className?: string;
+}
+
+export function BurnPledgesPanel({ className = '' }: BurnPledgesPanelProps): React.ReactElement {
+  const { principal, balance } = useStore($tokenBalance);
+  const { pledges, create, pause, resume, cancel } = useBurnPledges(principal);
+  const [inputValue, setInputValue] = useState('');
+  const [cadence, setCadence] = useState<BurnPledgeCadence>('monthly');
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const parsedAmount = useMemo(() => {
+    if (!inputValue.trim()) return BigInt(0);
+    try {
+      return parseTokenAmount(inputValue, TOKEN_DECIMALS);
+    } catch {
+      return BigInt(0);
+    }
+  }, [inputValue]);
+
+  const inputError = inputValue.trim() ? validateBurnAmount(parsedAmount, balance) : null;
+  const canSubmit = !!principal && parsedAmount > BigInt(0) && !inputError;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (value === '' || /^\d*\.?\d{0,8}$/.test(value)) {
+      setInputValue(value);
+      setSubmitError(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const result = create({ amount: parsedAmount, cadence });
+    if (result.success) {
+      showSuccess(
+        `${BURN_PLEDGE_CADENCE_LABELS[cadence]} pledge of ` +
+          `${formatTokenAmount(parsedAmount, TOKEN_DECIMALS)} DOM created`
+      );
+      setInputValue('');
+    } else {
+      setSubmitError(result.error ?? 'Failed to create pledge');
+    }
+  };
+
+  const error = inputError ?? submitError;
+
+  return (
+    <section className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      <div className="flex items-center gap-2 p-4 border-b border-gray-100">
+        <Repeat className="h-5 w-5 text-orange-600" aria-hidden="true" />
+        <h2 className="text-lg font-semibold text-gray-900">Burn Pledges</h2>
+      </div>
+
+      <div className="p-4 space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Commit to burning a fixed amount on a schedule. When a pledge comes due you confirm
+            the burn with one click; pledges not kept within {GRACE_PERIOD_DAYS} days count as
+            missed.
+          </p>
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <div className="flex-1">
+              <label htmlFor="pledge-amount" className="block text-sm font-medium text-gray-700 mb-1">
+                Amount per period
+              </label>
+              <input
+                id="pledge-amount"
+                type="text"
+                inputMode="decimal"
+                placeholder={formatTokenAmount(MIN_BURN_AMOUNT, TOKEN_DECIMALS)}
+                value={inputValue}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="pledge-cadence" className="block text-sm font-medium text-gray-700 mb-1">
+                Cadence
+              </label>
+              <select
+                id="pledge-cadence"
+                value={cadence}
+                onChange={(e) => setCadence(e.target.value as BurnPledgeCadence)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                {Object.entries(BURN_PLEDGE_CADENCE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center gap-1" role="alert">
+              <AlertCircle className="h-4 w-4" aria-hidden="true" />
+              {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="w-full px-4 py-2.5 text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2"
+          >
+            Create pledge
+          </button>
+        </form>
+
+        {pledges.length === 0 ? (
+          <p className="py-4 text-center text-sm text-gray-500">No pledges yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-100" aria-label="Burn pledges">
+            {pledges.map((pledge) => (
+              <PledgeItem
+                key={pledge.id}
+                pledge={pledge}
+                onPause={pause}
+                onResume={resume}
+                onCancel={cancel}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default BurnPledgesPanel;
@@ -0,0 +1,127 @@
+/**
+ * BurnStatsPanel Component Tests
+ *
+ * Tests for burn impact statistics: summary cards, the history chart and
+ * table, the opted-in donor leaderboard and the member's rank.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { BurnStatsPanel } from '@/components/BurnStatsPanel';
+import type { BurnHistoryPoint, BurnLeaderboardEntry, BurnRank } from '@/stores';
+
+// Mock burnService
+vi.mock('@/services/burnService', () => ({
+  useBurnStats: vi.fn(),
+}));
+
+import { useBurnStats } from '@/services/burnService';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const OTHER = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+const DOM = BigInt(100_000_000);
+
+function renderWithRouter(component: React.ReactElement) {
+  return render(<BrowserRouter>{component}</BrowserRouter>);
+}
+
+function mockHook({
+  history = [],
+  leaderboard = [],
+  percentSupplyBurned = null,
+  userRank = null,
+}: {
+  history?: BurnHistoryPoint[];
+  leaderboard?: BurnLeaderboardEntry[];
+  percentSupplyBurned?: number | null;
+  userRank?: BurnRank | null;
+} = {}) {
+  vi.mocked(useBurnStats).mockReturnValue({
+    state: { stats: null, lastUpdated: Date.now(), isLoading: false, error: null },
+    history,
+    leaderboard,
+    percentSupplyBurned,
+    userRank,
+    refresh: vi.fn(),
+  });
+}
+
+describe('BurnStatsPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show total burned, supply share and the member rank', () => {
+    mockHook({
+      history: [
+        { timestamp: Date.UTC(2026, 0, 1), totalBurned: DOM * BigInt(100) },
+        { timestamp: Date.UTC(2026, 0, 2), totalBurned: DOM * BigInt(250) },
+      ],
+      percentSupplyBurned: 2.5,
+      userRank: { rank: 3, totalBurned: DOM * BigInt(40), donorCount: 17 },
+    });
+
+    renderWithRouter(<BurnStatsPanel principal={SELF} />);
+
+    expect(screen.getByText('250.00 DOM')).toBeInTheDocument();
+    expect(screen.getByText('2.50%')).toBeInTheDocument();
+    expect(screen.getByText('#3')).toBeInTheDocument();
+    expect(screen.getByText('of 17 donors · 40.00 DOM')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: /Total burned from/ })).toBeInTheDocument();
+  });
+
+  it('should switch the history chart to a table', async () => {
+    const user = userEvent.setup();
+    mockHook({
+      history: [{ timestamp: Date.UTC(2026, 0, 1), totalBurned: DOM * BigInt(100) }],
+    });
+
+    renderWithRouter(<BurnStatsPanel principal={SELF} />);
+
+    await user.click(screen.getByRole('button', { name: 'View as table' }));
+
+    expect(screen.getByRole('table', { name: 'Total burned over time' })).toHaveTextContent(
+      '100.00 DOM'
+    );
+  });
+
+  it('should list opted-in donors and mark the member', () => {
+    mockHook({
+      leaderboard: [
+        {
+          rank: 1,
+          principal: OTHER,
+          displayName: 'Alice',
+          totalBurned: DOM * BigInt(90),
+          burnCount: 4,
+        },
+        {
+          rank: 3,
+          principal: SELF,
+          displayName: 'Me',
+          totalBurned: DOM * BigInt(40),
+          burnCount: 1,
+        },
+      ],
+    });
+
+    renderWithRouter(<BurnStatsPanel principal={SELF} />);
+
+    const list = screen.getByRole('list', { name: 'Top donors' });
+    expect(list).toHaveTextContent('#1Alice');
+    expect(list).toHaveTextContent('4 burns');
+    expect(list).toHaveTextContent('#3Me(you)');
+  });
+
+  it('should show empty states before anyone has burned', () => {
+    mockHook();
+
+    renderWithRouter(<BurnStatsPanel principal={SELF} />);
+
+    expect(screen.getByText('No burns yet')).toBeInTheDocument();
+    expect(screen.getByText('No donors listed yet')).toBeInTheDocument();
+    expect(screen.getByText('Not ranked')).toBeInTheDocument();
+  });
+});
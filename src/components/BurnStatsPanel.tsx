@@ -0,0 +1,290 @@
+/**
+ * Burn Stats Panel Component
+ *
+ * Impact statistics for the burn pool: total burned over time, the share of
+ * all minted DOM that has been burned, the member's rank, and a leaderboard
+ * of top donors who have opted in through their profile visibility.
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, BarChart3, RefreshCw, Table, Trophy } from 'lucide-react';
+import {
+  formatTokenAmount,
+  TOKEN_DECIMALS,
+  BURN_STATS_HISTORY_DAYS,
+  type BurnHistoryPoint,
+  type BurnLeaderboardEntry,
+} from '@/stores';
+import { useBurnStats } from '../services/burnService';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Convert e8s to a plain number for chart scaling
+ */
+function toChartValue(e8s: bigint): number {
+  return Number(e8s) / 10 ** TOKEN_DECIMALS;
+}
+
+function BurnHistoryChart({ history }: { history: BurnHistoryPoint[] }): React.ReactElement {
+  const values = history.map((p) => toChartValue(p.totalBurned));
+  const max = Math.max(...values, 0) || 1;
+  const step = history.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (history.length - 1) : 0;
+  const y = (v: number) => CHART_PADDING + (1 - v / max) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const points = values.map((v, i) => `${CHART_PADDING + i * step},${y(v)}`).join(' ');
+  const first = history[0];
+  const last = history[history.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-40 w-full"
+        role="img"
+        aria-label={`Total burned from ${formatDate(first.timestamp)} to ${formatDate(
+          last.timestamp
+        )}, reaching ${formatTokenAmount(last.totalBurned, TOKEN_DECIMALS)} DOM`}
+      >
+        <polyline points={points} fill="none" className="stroke-orange-500" strokeWidth={2} />
+        {values.map((v, i) => (
+          <circle
+            key={i}
+            cx={CHART_PADDING + i * step}
+            cy={y(v)}
+            r={history.length > 30 ? 0 : 3}
+            className="fill-orange-500"
+          />
+        ))}
+      </svg>
+      <div className="mt-1 flex justify-between text-xs text-gray-500" aria-hidden="true">
+        <span>{formatDate(first.timestamp)}</span>
+        <span>{formatDate(last.timestamp)}</span>
+      </div>
+    </div>
+  );
+}
+
+function BurnHistoryTable({ history }: { history: BurnHistoryPoint[] }): React.ReactElement {
+  return (
+    <table className="w-full text-sm">
+      <caption className="sr-only">Total burned over time</caption>
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-gray-600">
+          <th scope="col" className="py-2 font-medium">
+            Date
+          </th>
+          <th scope="col" className="py-2 font-medium text-right">
+            Total burned
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {[...history].reverse().map((point) => (
+          <tr key={point.timestamp} className="border-b border-gray-100 last:border-b-0">
+            <th scope="row" className="py-2 text-left font-normal text-gray-900">
+              {formatDate(point.timestamp)}
+            </th>
+            <td className="py-2 text-right tabular-nums text-gray-700">
+              {formatTokenAmount(point.totalBurned, TOKEN_DECIMALS)} DOM
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface LeaderboardProps {
+  entries: BurnLeaderboardEntry[];
+  principal: string | null;
+}
+
+function Leaderboard({ entries, principal }: LeaderboardProps): React.ReactElement {
+  if (entries.length === 0) {
+    return <p className="py-4 text-center text-sm text-gray-500">No donors listed yet</p>;
+  }
+
+  return (
+    <ol className="divide-y divide-gray-100" aria-label="Top donors">
+      {entries.map((entry) => {
+        const isSelf = entry.principal === principal;
+        return (
+          <li
+            key={entry.principal}
+            className={`flex items-center justify-between gap-3 py-2 ${isSelf ? 'bg-orange-50' : ''}`}
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="w-8 text-right text-sm font-semibold tabular-nums text-gray-500">
+                #{entry.rank}
+              </span>
+              <Link
+                to={`/members/${entry.principal}`}
+                className="truncate font-medium text-gray-900 hover:underline"
+              >
+                {entry.displayName}
+                {isSelf && <span className="ml-1 text-xs text-orange-700">(you)</span>}
+              </Link>
+            </div>
+            <div className="text-right">
+              <p className="font-semibold tabular-nums text-gray-900">
+                {formatTokenAmount(entry.totalBurned, TOKEN_DECIMALS)} DOM
+              </p>
+              <p className="text-xs text-gray-400">
+                {entry.burnCount} {entry.burnCount === 1 ? 'burn' : 'burns'}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export interface BurnStatsPanelProps {
+  /** Member to rank (null when II is not linked) */
+  principal: string | null;
+  /** Optional className for container */
+  className?: string;
+}
+
+export function BurnStatsPanel({
+  principal,
+  className = '',
+}: BurnStatsPanelProps): React.ReactElement {
+  const { state, history, leaderboard, percentSupplyBurned, userRank, refresh } =
+    useBurnStats(principal);
+  const [showTable, setShowTable] = useState(false);
+
+  const totalBurned = history.length > 0 ? history[history.length - 1].totalBurned : null;
+  const isInitialLoad = state.isLoading && !state.lastUpdated;
+
+  const cards = [
+    {
+      label: 'Total burned',
+      value: totalBurned === null ? '—' : `${formatTokenAmount(totalBurned, TOKEN_DECIMALS)} DOM`,
+    },
+    {
+      label: 'Supply burned',
+      value: percentSupplyBurned === null ? '—' : `${percentSupplyBurned.toFixed(2)}%`,
+      hint: 'Share of all DOM ever minted',
+    },
+    {
+      label: 'Your rank',
+      value: userRank ? `#${userRank.rank}` : 'Not ranked',
+      hint: userRank
+        ? `of ${userRank.donorCount} donors · ` +
+          `${formatTokenAmount(userRank.totalBurned, TOKEN_DECIMALS)} DOM`
+        : 'Burn DOM to join the ranking',
+    },
+  ];
+
+  return (
+    <section className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      <div className="flex items-center justify-between gap-3 p-4 border-b border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-900">Burn Impact</h2>
+        <button
+          onClick={refresh}
+          disabled={state.isLoading}
+          className="p-1.5 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+          aria-label="Refresh burn stats"
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${state.isLoading ? 'animate-spin' : ''}`}
+            aria-hidden="true"
+          />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {state.error && (
+          <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+            <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" aria-hidden="true" />
+            <div className="text-sm">
+              <p className="font-medium text-red-700">Failed to load burn stats</p>
+              <p className="text-red-600">{state.error}</p>
+            </div>
+          </div>
+        )}
+
+        {isInitialLoad ? (
+          <div className="animate-pulse space-y-3" aria-label="Loading burn stats">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 rounded bg-gray-100" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <dl className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              {cards.map((card) => (
+                <div key={card.label} className="rounded-lg border border-gray-200 p-3">
+                  <dt className="text-sm text-gray-500">{card.label}</dt>
+                  <dd className="mt-1 text-lg font-semibold tabular-nums text-gray-900">
+                    {card.value}
+                  </dd>
+                  {card.hint && <dd className="mt-1 text-xs text-gray-400">{card.hint}</dd>}
+                </div>
+              ))}
+            </dl>
+
+            <div>
+              <div className="mb-2 flex items-start justify-between gap-3">
+                <div>
+                  <h3 className="font-medium text-gray-900">Total burned over time</h3>
+                  <p className="text-sm text-gray-500">Last {BURN_STATS_HISTORY_DAYS} days</p>
+                </div>
+                {history.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setShowTable(!showTable)}
+                    className="inline-flex items-center gap-1.5 whitespace-nowrap rounded-md border border-gray-300 px-2.5 py-1 text-sm text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  >
+                    {showTable ? (
+                      <BarChart3 className="h-4 w-4" aria-hidden="true" />
+                    ) : (
+                      <Table className="h-4 w-4" aria-hidden="true" />
+                    )}
+                    {showTable ? 'View as chart' : 'View as table'}
+                  </button>
+                )}
+              </div>
+              {history.length === 0 ? (
+                <p className="py-4 text-center text-sm text-gray-500">No burns yet</p>
+              ) : showTable ? (
+                <div className="max-h-64 overflow-y-auto">
+                  <BurnHistoryTable history={history} />
+                </div>
+              ) : (
+                <BurnHistoryChart history={history} />
+              )}
+            </div>
+
+            <div>
+              <h3 className="mb-1 flex items-center gap-2 font-medium text-gray-900">
+                <Trophy className="h-4 w-4 text-orange-500" aria-hidden="true" />
+                Top donors
+              </h3>
+              <p className="mb-2 text-sm text-gray-500">
+                Only members whose profile is visible to other members are listed. Change this in
+                your{' '}
+                <Link to="/settings" className="text-teal-700 hover:underline">
+                  visibility settings
+                </Link>
+                .
+              </p>
+              <Leaderboard entries={leaderboard} principal={principal} />
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default BurnStatsPanel;
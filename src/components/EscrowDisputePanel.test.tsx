@@ -0,0 +1,225 @@
+/**
+ * EscrowDisputePanel Component Tests
+ *
+ * Tests for the milestone dispute thread: timeline, opening a dispute,
+ * responding and resolution by the release authority.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EscrowDisputePanel } from '@/components/EscrowDisputePanel';
+import type { Escrow, MilestoneDispute } from '@/stores';
+
+// Mock escrowService
+vi.mock('@/services/escrowService', () => ({
+  useMilestoneDispute: vi.fn(),
+  openMilestoneDispute: vi.fn(),
+  respondToDispute: vi.fn(),
+  resolveMilestoneDispute: vi.fn(),
+}));
+
+import {
+  useMilestoneDispute,
+  openMilestoneDispute,
+  respondToDispute,
+  resolveMilestoneDispute,
+} from '@/services/escrowService';
+
+const RECIPIENT = 'recipient-principal';
+const AUTHORITY = 'authority-principal';
+
+function createMockEscrow(overrides: Partial<Escrow> = {}): Escrow {
+  return {
+    id: BigInt(7),
+    recipient: RECIPIENT,
+    amount: BigInt(20000000000),
+    released_amount: BigInt(0),
+    token_type: 'DOM',
+    conditions: 'Website redesign',
+    release_authority: { SpecificPrincipal: AUTHORITY },
+    status: 'Active',
+    created_at: BigInt(Date.now() * 1_000_000),
+    expiry: BigInt((Date.now() + 30 * 24 * 60 * 60 * 1000) * 1_000_000),
+    milestones: [
+      {
+        name: 'Design',
+        description: 'Design mockups',
+        amount: BigInt(10000000000),
+        deadline: BigInt(Date.now() * 1_000_000),
+        status: 'Disputed',
+        dispute_reason: 'Mockups missing',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function createOpenDispute(): MilestoneDispute {
+  return {
+    escrow_id: BigInt(7),
+    milestone_index: 0,
+    status: 'Open',
+    opened_by: AUTHORITY,
+    opened_at: BigInt(Date.now() * 1_000_000),
+    events: [
+      {
+        kind: 'Opened',
+        author: AUTHORITY,
+        message: 'Mockups missing',
+        links: ['https://example.com/review'],
+        created_at: BigInt(Date.now() * 1_000_000),
+      },
+      {
+        kind: 'Response',
+        author: RECIPIENT,
+        message: 'Uploaded to the shared drive',
+        links: [],
+        created_at: BigInt(Date.now() * 1_000_000),
+      },
+    ],
+  };
+}
+
+function mockDispute(dispute: MilestoneDispute | undefined) {
+  vi.mocked(useMilestoneDispute).mockReturnValue({
+    dispute,
+    isLoading: false,
+    error: null,
+    refresh: vi.fn(),
+  });
+}
+
+describe('EscrowDisputePanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the dispute timeline with authors and links', () => {
+    mockDispute(createOpenDispute());
+
+    render(
+      <EscrowDisputePanel
+        escrow={createMockEscrow()}
+        milestoneIndex={0}
+        userPrincipal={RECIPIENT}
+      />
+    );
+
+    const timeline = screen.getByRole('list', { name: 'Dispute timeline' });
+    expect(timeline).toHaveTextContent('Dispute opened');
+    expect(timeline).toHaveTextContent('Release authority');
+    expect(timeline).toHaveTextContent('You');
+    expect(screen.getByRole('link', { name: /example.com\/review/ })).toHaveAttribute(
+      'href',
+      'https://example.com/review'
+    );
+  });
+
+  it('should let a participant respond to an open dispute', async () => {
+    const user = userEvent.setup();
+    mockDispute(createOpenDispute());
+    vi.mocked(respondToDispute).mockResolvedValue({ success: true });
+
+    render(
+      <EscrowDisputePanel
+        escrow={createMockEscrow()}
+        milestoneIndex={0}
+        userPrincipal={RECIPIENT}
+      />
+    );
+
+    await user.type(screen.getByLabelText('Your response'), 'See the updated files');
+    await user.click(screen.getByRole('button', { name: 'Post response' }));
+
+    expect(respondToDispute).toHaveBeenCalledWith(BigInt(7), 0, 'See the updated files', []);
+    expect(screen.queryByRole('button', { name: 'Resolve dispute' })).not.toBeInTheDocument();
+  });
+
+  it('should let the release authority resolve an open dispute', async () => {
+    const user = userEvent.setup();
+    mockDispute(createOpenDispute());
+    vi.mocked(resolveMilestoneDispute).mockResolvedValue({ success: true });
+
+    render(
+      <EscrowDisputePanel
+        escrow={createMockEscrow()}
+        milestoneIndex={0}
+        userPrincipal={AUTHORITY}
+      />
+    );
+
+    const resolve = screen.getByRole('button', { name: 'Resolve dispute' });
+    expect(resolve).toBeDisabled();
+
+    await user.click(screen.getByLabelText('Reopen milestone for rework'));
+    await user.type(screen.getByLabelText('Resolution note'), 'Please finish the mobile views');
+    await user.click(resolve);
+
+    expect(resolveMilestoneDispute).toHaveBeenCalledWith(
+      BigInt(7),
+      0,
+      'Reopen',
+      'Please finish the mobile views'
+    );
+  });
+
+  it('should open a dispute with a rationale and links', async () => {
+    const user = userEvent.setup();
+    mockDispute(undefined);
+    vi.mocked(openMilestoneDispute).mockResolvedValue({ success: true });
+    const escrow = createMockEscrow();
+    escrow.milestones[0] = {
+      ...escrow.milestones[0],
+      status: 'Approved',
+      dispute_reason: undefined,
+    };
+
+    render(<EscrowDisputePanel escrow={escrow} milestoneIndex={0} userPrincipal={RECIPIENT} />);
+
+    expect(screen.getByText('This milestone has not been disputed.')).toBeInTheDocument();
+    await user.type(
+      screen.getByLabelText('Why are you disputing this milestone?'),
+      'Approved work was later reverted'
+    );
+    await user.type(screen.getByLabelText(/Supporting links/), 'https://example.com/pr/9');
+    await user.click(screen.getByRole('button', { name: 'Open dispute' }));
+
+    expect(openMilestoneDispute).toHaveBeenCalledWith(
+      BigInt(7),
+      0,
+      'Approved work was later reverted',
+      ['https://example.com/pr/9']
+    );
+  });
+
+  it('should block invalid links', async () => {
+    const user = userEvent.setup();
+    mockDispute(undefined);
+    const escrow = createMockEscrow();
+    escrow.milestones[0] = { ...escrow.milestones[0], status: 'Pending' };
+
+    render(<EscrowDisputePanel escrow={escrow} milestoneIndex={0} userPrincipal={RECIPIENT} />);
+
+    await user.type(screen.getByLabelText('Why are you disputing this milestone?'), 'Reason');
+    await user.type(screen.getByLabelText(/Supporting links/), 'ftp://files');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('http:// or https://');
+    expect(screen.getByRole('button', { name: 'Open dispute' })).toBeDisabled();
+  });
+
+  it('should not offer actions to non-participants', () => {
+    mockDispute(createOpenDispute());
+
+    render(
+      <EscrowDisputePanel
+        escrow={createMockEscrow()}
+        milestoneIndex={0}
+        userPrincipal="observer"
+      />
+    );
+
+    expect(screen.queryByLabelText('Your response')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Resolve dispute' })).not.toBeInTheDocument();
+  });
+});
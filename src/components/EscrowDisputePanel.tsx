@@ -0,0 +1,411 @@
+/**
+ * Escrow Dispute Panel Component
+ *
+ * Dispute thread for one escrow milestone: the timeline of every step,
+ * a form to open a dispute with a rationale and supporting links, replies
+ * between the recipient and release authority, and resolution by the
+ * release authority.
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, ExternalLink, MessageSquare, RefreshCw, Scale } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  canDisputeMilestone,
+  formatEscrowDateTime,
+  isEscrowParticipant,
+  isEscrowReleaseAuthority,
+  showError,
+  showSuccess,
+  validateDisputeLinks,
+  MAX_DISPUTE_LINKS,
+  MAX_DISPUTE_MESSAGE_LENGTH,
+  type DisputeEvent,
+  type DisputeOutcome,
+  type Escrow,
+} from '@/stores';
+import {
+  useMilestoneDispute,
+  openMilestoneDispute,
+  respondToDispute,
+  resolveMilestoneDispute,
+} from '../services/escrowService';
+
+const OUTCOME_LABELS: Record<DisputeOutcome, string> = {
+  Approve: 'Approve milestone for release',
+  Cancel: 'Cancel milestone (funds stay in treasury)',
+  Reopen: 'Reopen milestone for rework',
+};
+
+const EVENT_LABELS: Record<DisputeEvent['kind'], string> = {
+  Opened: 'Dispute opened',
+  Response: 'Response',
+  Resolved: 'Resolved',
+};
+
+/**
+ * Split the links textarea into trimmed, non-empty lines
+ */
+function parseLinks(value: string): string[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Shorten a principal for display, e.g. "abcde-...-xyz"
+ */
+function shortPrincipal(principal: string): string {
+  return principal.length > 20 ? `${principal.slice(0, 11)}...${principal.slice(-5)}` : principal;
+}
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+interface DisputeTimelineProps {
+  events: DisputeEvent[];
+  escrow: Escrow;
+  userPrincipal?: string;
+}
+
+function DisputeTimeline({
+  events,
+  escrow,
+  userPrincipal,
+}: DisputeTimelineProps): React.ReactElement {
+  const authorLabel = (author: string): string => {
+    if (author === userPrincipal) return 'You';
+    if (author === escrow.recipient) return 'Recipient';
+    if (isEscrowReleaseAuthority(escrow, author)) return 'Release authority';
+    return shortPrincipal(author);
+  };
+
+  return (
+    <ol className="space-y-3 border-l-2 border-orange-200 pl-4" aria-label="Dispute timeline">
+      {events.map((event, index) => (
+        <li key={index} className="relative">
+          <span
+            className="absolute -left-[1.4rem] top-1.5 h-2.5 w-2.5 rounded-full bg-orange-400"
+            aria-hidden="true"
+          />
+          <p className="text-sm">
+            <span className="font-medium text-gray-900">
+              {EVENT_LABELS[event.kind]}
+              {event.outcome && `: ${OUTCOME_LABELS[event.outcome]}`}
+            </span>
+            <span className="text-gray-500">
+              {' '}
+              · {authorLabel(event.author)} · {formatEscrowDateTime(event.created_at)}
+            </span>
+          </p>
+          {event.message && (
+            <p className="mt-1 whitespace-pre-wrap text-sm text-gray-700">{event.message}</p>
+          )}
+          {event.links.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {event.links.map((link) => (
+                <li key={link}>
+                  <a
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 break-all text-sm text-teal-700 hover:underline"
+                  >
+                    <ExternalLink className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+                    {link}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// ============================================================================
+// Entry Form
+// ============================================================================
+
+interface DisputeEntryFormProps {
+  id: string;
+  messageLabel: string;
+  submitLabel: string;
+  onSubmit: (message: string, links: string[]) => Promise<boolean>;
+}
+
+function DisputeEntryForm({
+  id,
+  messageLabel,
+  submitLabel,
+  onSubmit,
+}: DisputeEntryFormProps): React.ReactElement {
+  const [message, setMessage] = useState('');
+  const [links, setLinks] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsedLinks = parseLinks(links);
+  const linkError = validateDisputeLinks(parsedLinks);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim() || linkError) return;
+
+    setIsSubmitting(true);
+    const ok = await onSubmit(message.trim(), parsedLinks);
+    setIsSubmitting(false);
+    if (ok) {
+      setMessage('');
+      setLinks('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label htmlFor={`${id}-message`} className="block text-sm font-medium text-gray-900 mb-1">
+          {messageLabel}
+        </label>
+        <textarea
+          id={`${id}-message`}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={3}
+          maxLength={MAX_DISPUTE_MESSAGE_LENGTH}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+        />
+      </div>
+      <div>
+        <label htmlFor={`${id}-links`} className="block text-sm font-medium text-gray-900 mb-1">
+          Supporting links (one per line, up to {MAX_DISPUTE_LINKS})
+        </label>
+        <textarea
+          id={`${id}-links`}
+          value={links}
+          onChange={(e) => setLinks(e.target.value)}
+          rows={2}
+          placeholder="https://"
+          aria-invalid={!!linkError}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+        />
+        {linkError && (
+          <p className="mt-1 text-sm text-red-600" role="alert">
+            {linkError}
+          </p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        disabled={isSubmitting || !message.trim() || !!linkError}
+        className="min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+      >
+        {isSubmitting ? 'Submitting...' : submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+// ============================================================================
+// Resolve Form
+// ============================================================================
+
+interface ResolveFormProps {
+  onResolve: (outcome: DisputeOutcome, note: string) => Promise<boolean>;
+}
+
+function ResolveForm({ onResolve }: ResolveFormProps): React.ReactElement {
+  const [outcome, setOutcome] = useState<DisputeOutcome | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!outcome || !note.trim()) return;
+
+    setIsSubmitting(true);
+    await onResolve(outcome, note.trim());
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <fieldset>
+        <legend className="text-sm font-medium text-gray-900 mb-1">Resolution</legend>
+        {(Object.keys(OUTCOME_LABELS) as DisputeOutcome[]).map((value) => (
+          <label key={value} className="flex items-center gap-2 py-1 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="dispute-outcome"
+              value={value}
+              checked={outcome === value}
+              onChange={() => setOutcome(value)}
+            />
+            {OUTCOME_LABELS[value]}
+          </label>
+        ))}
+      </fieldset>
+      <div>
+        <label
+          htmlFor="dispute-resolve-note"
+          className="block text-sm font-medium text-gray-900 mb-1"
+        >
+          Resolution note
+        </label>
+        <textarea
+          id="dispute-resolve-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          maxLength={MAX_DISPUTE_MESSAGE_LENGTH}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+        />
+      </div>
+      <Button
+        type="submit"
+        disabled={isSubmitting || !outcome || !note.trim()}
+        className="min-h-[44px] bg-orange-600 hover:bg-orange-700 text-white"
+      >
+        {isSubmitting ? 'Resolving...' : 'Resolve dispute'}
+      </Button>
+    </form>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export interface EscrowDisputePanelProps {
+  /** Escrow the milestone belongs to */
+  escrow: Escrow;
+  /** Index of the milestone in escrow.milestones */
+  milestoneIndex: number;
+  /** Current user's principal */
+  userPrincipal?: string;
+}
+
+export function EscrowDisputePanel({
+  escrow,
+  milestoneIndex,
+  userPrincipal,
+}: EscrowDisputePanelProps): React.ReactElement {
+  const milestone = escrow.milestones[milestoneIndex];
+  const { dispute, isLoading, error, refresh } = useMilestoneDispute(
+    escrow.id,
+    milestoneIndex,
+    userPrincipal
+  );
+
+  const isParticipant = isEscrowParticipant(escrow, userPrincipal);
+  const isAuthority = isEscrowReleaseAuthority(escrow, userPrincipal);
+  const isOpen = dispute?.status === 'Open';
+  const canOpen = isParticipant && !isOpen && canDisputeMilestone(escrow, milestone);
+
+  const handleResult = (result: { success: boolean; error?: string }, success: string) => {
+    if (result.success) {
+      showSuccess(success);
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+    return result.success;
+  };
+
+  return (
+    <section
+      className="mt-3 rounded-lg border border-orange-200 bg-white p-4"
+      aria-label={`Dispute for ${milestone.name}`}
+    >
+      <div className="mb-3 flex items-center justify-between">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+          <Scale className="h-4 w-4 text-orange-600" aria-hidden="true" />
+          Dispute
+          {dispute && (
+            <span
+              className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                isOpen ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {dispute.status}
+            </span>
+          )}
+        </h4>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={isLoading}
+          className="p-1 rounded-full text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          aria-label="Refresh dispute"
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} aria-hidden="true" />
+        </button>
+      </div>
+
+      {error && (
+        <p className="mb-3 flex items-center gap-1 text-sm text-red-600" role="alert">
+          <AlertCircle className="h-4 w-4" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+
+      {dispute ? (
+        <DisputeTimeline events={dispute.events} escrow={escrow} userPrincipal={userPrincipal} />
+      ) : (
+        !isLoading && <p className="text-sm text-gray-500">This milestone has not been disputed.</p>
+      )}
+
+      {isOpen && isParticipant && (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <h5 className="mb-2 flex items-center gap-1.5 text-sm font-medium text-gray-900">
+            <MessageSquare className="h-4 w-4" aria-hidden="true" />
+            Respond
+          </h5>
+          <DisputeEntryForm
+            id={`dispute-${escrow.id}-${milestoneIndex}-response`}
+            messageLabel="Your response"
+            submitLabel="Post response"
+            onSubmit={async (message, links) =>
+              handleResult(
+                await respondToDispute(escrow.id, milestoneIndex, message, links),
+                'Response posted'
+              )
+            }
+          />
+        </div>
+      )}
+
+      {isOpen && isAuthority && (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <ResolveForm
+            onResolve={async (outcome, note) =>
+              handleResult(
+                await resolveMilestoneDispute(escrow.id, milestoneIndex, outcome, note),
+                'Dispute resolved'
+              )
+            }
+          />
+        </div>
+      )}
+
+      {canOpen && (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <DisputeEntryForm
+            id={`dispute-${escrow.id}-${milestoneIndex}-open`}
+            messageLabel="Why are you disputing this milestone?"
+            submitLabel="Open dispute"
+            onSubmit={async (rationale, links) =>
+              handleResult(
+                await openMilestoneDispute(escrow.id, milestoneIndex, rationale, links),
+                'Dispute opened'
+              )
+            }
+          />
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default EscrowDisputePanel;
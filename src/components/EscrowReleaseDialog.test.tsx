@@ -0,0 +1,134 @@
+/**
+ * EscrowReleaseDialog Component Tests
+ *
+ * Tests for the release authority confirmation: amount, token and remaining
+ * balance, and the approve/release calls.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EscrowReleaseDialog } from '@/components/EscrowReleaseDialog';
+import type { Escrow } from '@/stores';
+
+// Mock escrowService
+vi.mock('@/services/escrowService', () => ({
+  approveMilestone: vi.fn(),
+  releaseMilestone: vi.fn(),
+  releaseEscrow: vi.fn(),
+}));
+
+import { approveMilestone, releaseMilestone, releaseEscrow } from '@/services/escrowService';
+
+function createMockEscrow(overrides: Partial<Escrow> = {}): Escrow {
+  return {
+    id: BigInt(4),
+    recipient: 'recipient-principal',
+    amount: BigInt(30000000000), // 300 DOM
+    released_amount: BigInt(10000000000), // 100 DOM
+    token_type: 'DOM',
+    conditions: 'Community app',
+    release_authority: { Governance: null },
+    status: 'Active',
+    created_at: BigInt(Date.now() * 1_000_000),
+    expiry: BigInt((Date.now() + 30 * 24 * 60 * 60 * 1000) * 1_000_000),
+    milestones: [
+      {
+        name: 'Alpha',
+        description: 'Alpha build',
+        amount: BigInt(10000000000),
+        deadline: BigInt(Date.now() * 1_000_000),
+        status: 'Released',
+      },
+      {
+        name: 'Beta',
+        description: 'Beta build',
+        amount: BigInt(20000000000),
+        deadline: BigInt(Date.now() * 1_000_000),
+        status: 'Approved',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('EscrowReleaseDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the amount, token and remaining balance after release', () => {
+    render(
+      <EscrowReleaseDialog
+        escrow={createMockEscrow()}
+        milestoneIndex={1}
+        action="release"
+        onClose={vi.fn()}
+      />
+    );
+
+    const dialog = screen.getByRole('dialog');
+    expect(dialog).toHaveTextContent('Release funds');
+    expect(dialog).toHaveTextContent('Beta');
+    expect(screen.getByText('Amount').nextSibling).toHaveTextContent('200');
+    expect(screen.getByText('Token').nextSibling).toHaveTextContent('DOM');
+    expect(screen.getByText('Remaining in escrow').nextSibling).toHaveTextContent('0');
+  });
+
+  it('should release a milestone and close on success', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    vi.mocked(releaseMilestone).mockResolvedValue({ success: true });
+
+    render(
+      <EscrowReleaseDialog
+        escrow={createMockEscrow()}
+        milestoneIndex={1}
+        action="release"
+        onClose={onClose}
+      />
+    );
+    await user.click(screen.getByRole('button', { name: 'Release' }));
+
+    expect(releaseMilestone).toHaveBeenCalledWith(BigInt(4), 1);
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should approve a milestone and keep the remaining balance', async () => {
+    const user = userEvent.setup();
+    vi.mocked(approveMilestone).mockResolvedValue({ success: true });
+    const escrow = createMockEscrow();
+    escrow.milestones[1] = { ...escrow.milestones[1], status: 'Pending' };
+
+    render(
+      <EscrowReleaseDialog escrow={escrow} milestoneIndex={1} action="approve" onClose={vi.fn()} />
+    );
+
+    expect(screen.getByText('Remaining in escrow').nextSibling).toHaveTextContent('200');
+    await user.click(screen.getByRole('button', { name: 'Approve' }));
+
+    expect(approveMilestone).toHaveBeenCalledWith(BigInt(4), 1);
+  });
+
+  it('should release a simple escrow and stay open on failure', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    vi.mocked(releaseEscrow).mockResolvedValue({ success: false, error: 'Not authorized' });
+
+    render(
+      <EscrowReleaseDialog
+        escrow={createMockEscrow({ milestones: [], released_amount: BigInt(0) })}
+        milestoneIndex={null}
+        action="release"
+        onClose={onClose}
+      />
+    );
+
+    expect(screen.getByText('Amount').nextSibling).toHaveTextContent('300');
+    await user.click(screen.getByRole('button', { name: 'Release' }));
+
+    expect(releaseEscrow).toHaveBeenCalledWith(BigInt(4));
+    expect(onClose).not.toHaveBeenCalled();
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Escrow Release Dialog
+ *
+ * Confirmation step for a release authority approving a milestone or
+ * releasing funds (a single milestone, or the whole amount of a simple
+ * escrow). Shows the amount, token type and the escrow balance left
+ * after the action.
+ */
+
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import {
+  formatEscrowAmount,
+  getRemainingAmount,
+  showError,
+  showSuccess,
+  type Escrow,
+  type EscrowReleaseAction,
+} from '@/stores';
+import { approveMilestone, releaseMilestone, releaseEscrow } from '../services/escrowService';
+
+const ACTION_COPY: Record<
+  EscrowReleaseAction,
+  { title: string; confirm: string; success: string; warning: string }
+> = {
+  approve: {
+    title: 'Approve milestone',
+    confirm: 'Approve',
+    success: 'Milestone approved',
+    warning: 'Approving marks the work as accepted. Funds stay in escrow until released.',
+  },
+  release: {
+    title: 'Release funds',
+    confirm: 'Release',
+    success: 'Funds released',
+    warning: 'Funds are transferred to the recipient immediately. This cannot be undone.',
+  },
+};
+
+export interface EscrowReleaseDialogProps {
+  escrow: Escrow;
+  /** Milestone to act on, or null to release a simple escrow in full */
+  milestoneIndex: number | null;
+  action: EscrowReleaseAction;
+  onClose: () => void;
+}
+
+export function EscrowReleaseDialog({
+  escrow,
+  milestoneIndex,
+  action,
+  onClose,
+}: EscrowReleaseDialogProps): React.ReactElement {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const copy = ACTION_COPY[action];
+  const milestone = milestoneIndex === null ? null : escrow.milestones[milestoneIndex];
+  const remaining = getRemainingAmount(escrow);
+  const amount = milestone ? milestone.amount : remaining;
+  const remainingAfter = action === 'release' ? remaining - amount : remaining;
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    const result =
+      milestoneIndex === null
+        ? await releaseEscrow(escrow.id)
+        : action === 'approve'
+          ? await approveMilestone(escrow.id, milestoneIndex)
+          : await releaseMilestone(escrow.id, milestoneIndex);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      showSuccess(copy.success);
+      onClose();
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="escrow-release-title"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full mx-4 p-6">
+        <h2 id="escrow-release-title" className="text-xl font-bold text-gray-900 mb-4">
+          {copy.title}
+        </h2>
+
+        <p className="text-gray-900 mb-4">
+          {milestone ? milestone.name : escrow.conditions}
+          <span className="block text-sm text-gray-500">Escrow #{escrow.id.toString()}</span>
+        </p>
+
+        <dl className="grid grid-cols-2 gap-2 text-sm mb-4">
+          <dt className="text-gray-500">Amount</dt>
+          <dd className="text-right font-semibold text-gray-900">
+            {formatEscrowAmount(amount, escrow.token_type)}
+          </dd>
+          <dt className="text-gray-500">Token</dt>
+          <dd className="text-right text-gray-900">{escrow.token_type}</dd>
+          <dt className="text-gray-500">Remaining in escrow</dt>
+          <dd className="text-right text-gray-900">
+            {formatEscrowAmount(remainingAfter, escrow.token_type)}
+          </dd>
+        </dl>
+
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+          <p className="text-amber-800 text-sm">{copy.warning}</p>
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="min-h-[44px]"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+            className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+          >
+            {isSubmitting ? 'Submitting...' : copy.confirm}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EscrowReleaseDialog;
@@ -15,6 +15,7 @@ import {
   setUserEscrows,
   type Escrow,
   type EscrowStatusFilter,
+  type EscrowViewTab,
 } from '@/stores';
 
 // Mock analytics
@@ -26,15 +27,18 @@ vi.mock('@/utils/analytics', () => ({
 vi.mock('@/services/escrowService', () => ({
   useEscrowView: vi.fn(() => ({
     escrowState: $escrow.get(),
+    tabEscrows: $escrow.get().escrows,
     filteredEscrows: $escrow.get().escrows,
     statusCounts: { All: 0, Active: 0, Released: 0, Cancelled: 0, Expired: 0 },
     statusFilter: 'All' as EscrowStatusFilter,
+    tab: 'mine' as EscrowViewTab,
     selectedEscrow: null,
     isLoading: false,
     isRefreshing: false,
     refresh: vi.fn(),
     selectEscrow: vi.fn(),
     setFilter: vi.fn(),
+    setTab: vi.fn(),
     clear: vi.fn(),
   })),
 }));
@@ -109,15 +113,18 @@ describe('EscrowView', () => {
     // Reset mock to default implementation
     vi.mocked(useEscrowView).mockImplementation(() => ({
       escrowState: $escrow.get(),
+      tabEscrows: $escrow.get().escrows,
       filteredEscrows: $escrow.get().escrows,
       statusCounts: calculateStatusCounts($escrow.get().escrows),
       statusFilter: 'All' as EscrowStatusFilter,
+      tab: 'mine' as EscrowViewTab,
       selectedEscrow: null,
       isLoading: false,
       isRefreshing: false,
       refresh: vi.fn(),
       selectEscrow: vi.fn(),
       setFilter: vi.fn(),
+      setTab: vi.fn(),
       clear: vi.fn(),
     }));
   });
@@ -133,15 +140,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -156,15 +166,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -182,15 +195,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -215,15 +231,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -245,15 +264,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -271,15 +293,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -298,15 +323,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -323,15 +351,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: mockSetFilter,
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -350,19 +381,23 @@ describe('EscrowView', () => {
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: {
           escrows: [],
+          controlledEscrows: [],
           lastUpdated: null,
           isLoading: true,
           error: null,
         },
+        tabEscrows: [],
         filteredEscrows: [],
         statusCounts: { All: 0, Active: 0, Released: 0, Cancelled: 0, Expired: 0 },
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: true,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -377,6 +412,7 @@ describe('EscrowView', () => {
     it('should show error message when fetch fails', () => {
       const errorState = {
         escrows: [],
+        controlledEscrows: [],
         lastUpdated: null,
         isLoading: false,
         error: 'Network error',
@@ -384,15 +420,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: errorState,
+        tabEscrows: [],
         filteredEscrows: [],
         statusCounts: { All: 0, Active: 0, Released: 0, Cancelled: 0, Expired: 0 },
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -409,6 +448,7 @@ describe('EscrowView', () => {
       const mockRefresh = vi.fn();
       const errorState = {
         escrows: [],
+        controlledEscrows: [],
         lastUpdated: null,
         isLoading: false,
         error: 'Network error',
@@ -416,15 +456,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: errorState,
+        tabEscrows: [],
         filteredEscrows: [],
         statusCounts: { All: 0, Active: 0, Released: 0, Cancelled: 0, Expired: 0 },
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: mockRefresh,
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -444,19 +487,23 @@ describe('EscrowView', () => {
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: {
           escrows: [],
+          controlledEscrows: [],
           lastUpdated: Date.now(),
           isLoading: false,
           error: null,
         },
+        tabEscrows: [],
         filteredEscrows: [],
         statusCounts: { All: 0, Active: 0, Released: 0, Cancelled: 0, Expired: 0 },
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -471,15 +518,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: $escrow.get().escrows,
         filteredEscrows: [], // Empty because filter doesn't match
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'Released' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -496,15 +546,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -520,15 +573,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: mockRefresh,
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -546,15 +602,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: true,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -570,15 +629,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: true,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -616,15 +678,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -647,15 +712,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -672,15 +740,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -695,15 +766,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -722,15 +796,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -743,6 +820,84 @@ describe('EscrowView', () => {
     });
   });
 
+  describe('Release authority', () => {
+    function mockControlledTab(escrows: Escrow[], setTab = vi.fn()) {
+      setUserEscrows([], escrows);
+      vi.mocked(useEscrowView).mockImplementation(() => ({
+        escrowState: $escrow.get(),
+        tabEscrows: escrows,
+        filteredEscrows: escrows,
+        statusCounts: calculateStatusCounts(escrows),
+        statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'controlled' as EscrowViewTab,
+        selectedEscrow: null,
+        isLoading: false,
+        isRefreshing: false,
+        refresh: vi.fn(),
+        selectEscrow: vi.fn(),
+        setFilter: vi.fn(),
+        setTab,
+        clear: vi.fn(),
+      }));
+    }
+
+    it('should switch to the escrows the user controls', async () => {
+      const setTab = vi.fn();
+      mockControlledTab([], setTab);
+
+      render(<EscrowView userPrincipal="authority-principal" />);
+
+      expect(screen.getByRole('tab', { name: 'Escrows I control' })).toHaveAttribute(
+        'aria-selected',
+        'true'
+      );
+      expect(screen.getByText(/not the release authority for any escrows/)).toBeInTheDocument();
+
+      await userEvent.click(screen.getByRole('tab', { name: 'My escrows' }));
+      expect(setTab).toHaveBeenCalledWith('mine');
+    });
+
+    it('should offer approve and release actions per milestone status', async () => {
+      mockControlledTab([
+        createMockEscrow({
+          release_authority: { SpecificPrincipal: 'authority-principal' },
+          milestones: [
+            {
+              name: 'Phase 1',
+              description: 'Initial development',
+              amount: BigInt(50000000000),
+              deadline: BigInt(Date.now() * 1_000_000),
+              status: 'Approved',
+            },
+            {
+              name: 'Phase 2',
+              description: 'Testing phase',
+              amount: BigInt(50000000000),
+              deadline: BigInt(Date.now() * 1_000_000),
+              status: 'Pending',
+            },
+          ],
+        }),
+      ]);
+
+      render(<EscrowView userPrincipal="authority-principal" />);
+
+      expect(screen.getByRole('button', { name: 'Approve milestone' })).toBeInTheDocument();
+      await userEvent.click(screen.getByRole('button', { name: 'Release funds' }));
+      expect(screen.getByRole('dialog')).toHaveTextContent('Phase 1');
+    });
+
+    it('should not offer actions to other principals', () => {
+      mockControlledTab([
+        createMockEscrow({ release_authority: { SpecificPrincipal: 'authority-principal' } }),
+      ]);
+
+      render(<EscrowView userPrincipal="someone-else" />);
+
+      expect(screen.queryByRole('button', { name: 'Release funds' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Custom className', () => {
     it('should apply custom className', () => {
       const escrows = createMockEscrows();
@@ -750,15 +905,18 @@ describe('EscrowView', () => {
 
       vi.mocked(useEscrowView).mockImplementation(() => ({
         escrowState: $escrow.get(),
+        tabEscrows: escrows,
         filteredEscrows: escrows,
         statusCounts: calculateStatusCounts(escrows),
         statusFilter: 'All' as EscrowStatusFilter,
+        tab: 'mine' as EscrowViewTab,
         selectedEscrow: null,
         isLoading: false,
         isRefreshing: false,
         refresh: vi.fn(),
         selectEscrow: vi.fn(),
         setFilter: vi.fn(),
+        setTab: vi.fn(),
         clear: vi.fn(),
       }));
 
@@ -2,13 +2,16 @@
  * Escrow View Component
  *
  * Displays user's escrows with status, milestones, and progress.
- * Read-only view for verified DAO members to track their escrow allocations.
+ * Recipients track their escrow allocations and can dispute milestones
+ * (see EscrowDisputePanel). Release authorities get an "Escrows I control"
+ * tab with approve/release actions (see EscrowReleaseDialog).
  *
  * Story: 9-2-4-escrow-view
  * ACs: 1, 2, 3, 4
  */
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { useStore } from '@nanostores/react';
 import {
   RefreshCw,
   Briefcase,
@@ -22,6 +25,8 @@ import {
   Calendar,
   Target,
   Filter,
+  Scale,
+  Unlock,
 } from 'lucide-react';
 import {
   formatTokenAmount,
@@ -32,12 +37,21 @@ import {
   isExpiringSoon,
   getEscrowStatusColor,
   getMilestoneStatusColor,
+  canDisputeMilestone,
+  isEscrowParticipant,
+  canActAsReleaseAuthority,
+  getReleaseActionKey,
+  $pendingEscrowActions,
   TOKEN_DECIMALS,
   type Escrow,
   type Milestone,
   type EscrowStatusFilter,
+  type EscrowViewTab,
+  type EscrowReleaseAction,
 } from '@/stores';
 import { useEscrowView } from '../services/escrowService';
+import { EscrowDisputePanel } from './EscrowDisputePanel';
+import { EscrowReleaseDialog } from './EscrowReleaseDialog';
 import { trackEvent } from '../utils/analytics';
 
 // ============================================================================
@@ -126,19 +140,124 @@ function ErrorState({ error, onRetry, isRetrying }: ErrorStateProps): React.Reac
 // Empty State
 // ============================================================================
 
-function EmptyState(): React.ReactElement {
+interface EmptyStateProps {
+  tab: EscrowViewTab;
+}
+
+function EmptyState({ tab }: EmptyStateProps): React.ReactElement {
   return (
     <div className="flex flex-col items-center justify-center py-12 text-center">
       <Briefcase className="h-12 w-12 text-gray-300 mb-4" aria-hidden="true" />
       <h3 className="text-lg font-medium text-gray-900 mb-2">No escrows found</h3>
       <p className="text-gray-500 text-sm max-w-md">
-        You don't have any escrows where you are the recipient. Escrows are created when the DAO
-        allocates funds for projects, bounties, or other conditional payments.
+        {tab === 'controlled' ? (
+          <>
+            You are not the release authority for any escrows. Escrows released by governance
+            appear here for all members.
+          </>
+        ) : (
+          <>
+            You don't have any escrows where you are the recipient. Escrows are created when the
+            DAO allocates funds for projects, bounties, or other conditional payments.
+          </>
+        )}
       </p>
     </div>
   );
 }
 
+// ============================================================================
+// Tabs
+// ============================================================================
+
+const TABS: { id: EscrowViewTab; label: string }[] = [
+  { id: 'mine', label: 'My escrows' },
+  { id: 'controlled', label: 'Escrows I control' },
+];
+
+interface EscrowTabsProps {
+  currentTab: EscrowViewTab;
+  onTabChange: (tab: EscrowViewTab) => void;
+}
+
+function EscrowTabs({ currentTab, onTabChange }: EscrowTabsProps): React.ReactElement {
+  return (
+    <div role="tablist" aria-label="Escrow lists" className="flex gap-4 border-b border-gray-200">
+      {TABS.map((tab) => (
+        <button
+          key={tab.id}
+          type="button"
+          role="tab"
+          aria-selected={currentTab === tab.id}
+          onClick={() => onTabChange(tab.id)}
+          className={`
+            -mb-px px-1 pb-2 text-sm font-medium border-b-2
+            focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2
+            transition-colors duration-150
+            ${
+              currentTab === tab.id
+                ? 'border-teal-600 text-teal-700'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }
+          `}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Release Action
+// ============================================================================
+
+interface ReleaseActionButtonProps {
+  escrow: Escrow;
+  /** Milestone to act on, or null for a simple escrow */
+  milestoneIndex: number | null;
+  action: EscrowReleaseAction;
+}
+
+function ReleaseActionButton({
+  escrow,
+  milestoneIndex,
+  action,
+}: ReleaseActionButtonProps): React.ReactElement {
+  const [isOpen, setIsOpen] = useState(false);
+  const pendingActions = useStore($pendingEscrowActions);
+  const isPending = !!pendingActions[getReleaseActionKey(escrow.id, milestoneIndex)];
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(true);
+        }}
+        disabled={isPending}
+        className="mt-1 inline-flex items-center gap-1 text-xs font-medium text-teal-700 hover:text-teal-800 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:underline"
+      >
+        {action === 'approve' ? (
+          <CheckCircle className="h-3 w-3" aria-hidden="true" />
+        ) : (
+          <Unlock className="h-3 w-3" aria-hidden="true" />
+        )}
+        {isPending ? 'Submitting...' : action === 'approve' ? 'Approve milestone' : 'Release funds'}
+      </button>
+      {isOpen && (
+        <EscrowReleaseDialog
+          escrow={escrow}
+          milestoneIndex={milestoneIndex}
+          action={action}
+          onClose={() => setIsOpen(false)}
+        />
+      )}
+    </>
+  );
+}
+
 // ============================================================================
 // Status Filter
 // ============================================================================
@@ -246,44 +365,96 @@ function MilestoneProgressBar({
 interface MilestoneItemProps {
   milestone: Milestone;
   tokenType: 'ICP' | 'DOM';
+  escrow: Escrow;
+  index: number;
+  userPrincipal?: string;
 }
 
-function MilestoneItem({ milestone, tokenType }: MilestoneItemProps): React.ReactElement {
+function MilestoneItem({
+  milestone,
+  tokenType,
+  escrow,
+  index,
+  userPrincipal,
+}: MilestoneItemProps): React.ReactElement {
+  const [showDispute, setShowDispute] = useState(false);
   const statusColor = getMilestoneStatusColor(milestone.status);
   const formattedAmount = formatEscrowAmount(milestone.amount, tokenType);
+  const hasDispute = milestone.status === 'Disputed' || !!milestone.dispute_reason;
+  const canDispute =
+    isEscrowParticipant(escrow, userPrincipal) && canDisputeMilestone(escrow, milestone);
+  const releaseAction: EscrowReleaseAction | null =
+    escrow.status !== 'Active' || !canActAsReleaseAuthority(escrow, userPrincipal)
+      ? null
+      : milestone.status === 'Pending'
+        ? 'approve'
+        : milestone.status === 'Approved'
+          ? 'release'
+          : null;
 
   return (
-    <div className="flex items-start justify-between py-3 border-b border-gray-100 last:border-b-0">
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <p className="font-medium text-gray-900 truncate">{milestone.name}</p>
-          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusColor}`}>
-            {milestone.status}
-          </span>
-        </div>
-        <p className="text-sm text-gray-500 mt-0.5 truncate">{milestone.description}</p>
-        {milestone.dispute_reason && (
-          <p className="text-sm text-orange-600 mt-1 flex items-center gap-1">
-            <AlertTriangle className="h-3 w-3" />
-            {milestone.dispute_reason}
-          </p>
-        )}
-        <div className="flex items-center gap-3 mt-1 text-xs text-gray-400">
-          <span className="flex items-center gap-1">
-            <Calendar className="h-3 w-3" />
-            Due: {formatEscrowDate(milestone.deadline)}
-          </span>
-          {milestone.released_at !== undefined && milestone.released_at > BigInt(0) && (
-            <span className="flex items-center gap-1 text-green-600">
-              <CheckCircle className="h-3 w-3" />
-              Released: {formatEscrowDate(milestone.released_at)}
+    <div className="py-3 border-b border-gray-100 last:border-b-0">
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-medium text-gray-900 truncate">{milestone.name}</p>
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusColor}`}>
+              {milestone.status}
             </span>
+          </div>
+          <p className="text-sm text-gray-500 mt-0.5 truncate">{milestone.description}</p>
+          {milestone.dispute_reason && (
+            <p className="text-sm text-orange-600 mt-1 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {milestone.dispute_reason}
+            </p>
+          )}
+          <div className="flex items-center gap-3 mt-1 text-xs text-gray-400">
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              Due: {formatEscrowDate(milestone.deadline)}
+            </span>
+            {milestone.released_at !== undefined && milestone.released_at > BigInt(0) && (
+              <span className="flex items-center gap-1 text-green-600">
+                <CheckCircle className="h-3 w-3" />
+                Released: {formatEscrowDate(milestone.released_at)}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="ml-4 text-right">
+          <p className="font-medium text-gray-900">{formattedAmount}</p>
+          {releaseAction && (
+            <div>
+              <ReleaseActionButton escrow={escrow} milestoneIndex={index} action={releaseAction} />
+            </div>
+          )}
+          {(hasDispute || canDispute) && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowDispute(!showDispute);
+              }}
+              aria-expanded={showDispute}
+              className="mt-1 inline-flex items-center gap-1 text-xs font-medium text-orange-700 hover:text-orange-800 focus:outline-none focus:underline"
+            >
+              <Scale className="h-3 w-3" aria-hidden="true" />
+              {showDispute ? 'Hide dispute' : hasDispute ? 'View dispute' : 'Dispute'}
+            </button>
           )}
         </div>
       </div>
-      <div className="ml-4 text-right">
-        <p className="font-medium text-gray-900">{formattedAmount}</p>
-      </div>
+      {showDispute && (
+        // Keep clicks inside the thread from selecting the escrow card
+        <div onClick={(e) => e.stopPropagation()}>
+          <EscrowDisputePanel
+            escrow={escrow}
+            milestoneIndex={index}
+            userPrincipal={userPrincipal}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -295,9 +466,16 @@ function MilestoneItem({ milestone, tokenType }: MilestoneItemProps): React.Reac
 interface MilestoneListProps {
   milestones: Milestone[];
   tokenType: 'ICP' | 'DOM';
+  escrow: Escrow;
+  userPrincipal?: string;
 }
 
-function MilestoneList({ milestones, tokenType }: MilestoneListProps): React.ReactElement {
+function MilestoneList({
+  milestones,
+  tokenType,
+  escrow,
+  userPrincipal,
+}: MilestoneListProps): React.ReactElement {
   const [isExpanded, setIsExpanded] = useState(true);
 
   if (milestones.length === 0) {
@@ -324,7 +502,14 @@ function MilestoneList({ milestones, tokenType }: MilestoneListProps): React.Rea
       {isExpanded && (
         <div className="mt-2 bg-gray-50 rounded-lg px-4 py-2">
           {milestones.map((milestone, index) => (
-            <MilestoneItem key={index} milestone={milestone} tokenType={tokenType} />
+            <MilestoneItem
+              key={index}
+              milestone={milestone}
+              tokenType={tokenType}
+              escrow={escrow}
+              index={index}
+              userPrincipal={userPrincipal}
+            />
           ))}
         </div>
       )}
@@ -339,16 +524,22 @@ function MilestoneList({ milestones, tokenType }: MilestoneListProps): React.Rea
 interface EscrowCardProps {
   escrow: Escrow;
   onSelect?: (escrow: Escrow) => void;
+  userPrincipal?: string;
 }
 
-function EscrowCard({ escrow, onSelect }: EscrowCardProps): React.ReactElement {
+function EscrowCard({ escrow, onSelect, userPrincipal }: EscrowCardProps): React.ReactElement {
   const statusColor = getEscrowStatusColor(escrow.status);
   const progress = getMilestoneProgress(escrow);
   const remaining = getRemainingAmount(escrow);
   const expiringSoon = isExpiringSoon(escrow);
+  const canReleaseSimple =
+    escrow.milestones.length === 0 &&
+    escrow.status === 'Active' &&
+    canActAsReleaseAuthority(escrow, userPrincipal);
 
   return (
     <div
+      id={`escrow-${escrow.id.toString()}`}
       className={`
         bg-white rounded-lg border border-gray-200 p-4
         hover:border-teal-300 hover:shadow-sm
@@ -377,6 +568,9 @@ function EscrowCard({ escrow, onSelect }: EscrowCardProps): React.ReactElement {
           </div>
           <p className="mt-1 font-medium text-gray-900">{escrow.conditions}</p>
         </div>
+        {canReleaseSimple && (
+          <ReleaseActionButton escrow={escrow} milestoneIndex={null} action="release" />
+        )}
       </div>
 
       {/* Amount Summary (AC-4) */}
@@ -425,7 +619,12 @@ function EscrowCard({ escrow, onSelect }: EscrowCardProps): React.ReactElement {
       </div>
 
       {/* Milestones */}
-      <MilestoneList milestones={escrow.milestones} tokenType={escrow.token_type} />
+      <MilestoneList
+        milestones={escrow.milestones}
+        tokenType={escrow.token_type}
+        escrow={escrow}
+        userPrincipal={userPrincipal}
+      />
     </div>
   );
 }
@@ -568,14 +767,17 @@ export interface EscrowViewProps {
 export function EscrowView({ className = '', userPrincipal }: EscrowViewProps): React.ReactElement {
   const {
     escrowState,
+    tabEscrows,
     filteredEscrows,
     statusCounts,
     statusFilter,
+    tab,
     isLoading,
     isRefreshing,
     refresh,
     selectEscrow,
     setFilter,
+    setTab,
   } = useEscrowView({
     userPrincipal,
     autoFetch: true,
@@ -599,11 +801,11 @@ export function EscrowView({ className = '', userPrincipal }: EscrowViewProps):
     (filter: EscrowStatusFilter) => {
       trackEvent('escrow_filter_changed', {
         filter_value: filter,
-        result_count: filter === 'All' ? escrowState.escrows.length : statusCounts[filter] || 0,
+        result_count: filter === 'All' ? tabEscrows.length : statusCounts[filter] || 0,
       });
       setFilter(filter);
     },
-    [escrowState.escrows.length, statusCounts, setFilter]
+    [tabEscrows.length, statusCounts, setFilter]
   );
 
   // Track escrow detail views
@@ -627,10 +829,10 @@ export function EscrowView({ className = '', userPrincipal }: EscrowViewProps):
   const activeCount = statusCounts.Active || 0;
 
   // Format totals - in real implementation, get from computed atoms
-  const formattedTotalEscrowed = escrowState.escrows
+  const formattedTotalEscrowed = tabEscrows
     .filter((e) => e.status === 'Active')
     .reduce((sum, e) => sum + e.amount, BigInt(0));
-  const formattedTotalReleased = escrowState.escrows.reduce(
+  const formattedTotalReleased = tabEscrows.reduce(
     (sum, e) => sum + e.released_amount,
     BigInt(0)
   );
@@ -676,9 +878,12 @@ export function EscrowView({ className = '', userPrincipal }: EscrowViewProps):
         {/* Main content */}
         {!isLoading && !escrowState.error && (
           <div className="space-y-6">
+            {/* Tabs: escrows received vs. escrows the user can release */}
+            {userPrincipal && <EscrowTabs currentTab={tab} onTabChange={setTab} />}
+
             {/* Empty state */}
-            {escrowState.escrows.length === 0 ? (
-              <EmptyState />
+            {tabEscrows.length === 0 ? (
+              <EmptyState tab={tab} />
             ) : (
               <>
                 {/* Summary Stats */}
@@ -707,6 +912,7 @@ export function EscrowView({ className = '', userPrincipal }: EscrowViewProps):
                         key={escrow.id.toString()}
                         escrow={escrow}
                         onSelect={handleEscrowSelect}
+                        userPrincipal={userPrincipal}
                       />
                     ))
                   )}
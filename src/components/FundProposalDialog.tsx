@@ -0,0 +1,214 @@
+/**
+ * Fund Proposal Dialog
+ *
+ * Creates the escrow that funds a passed proposal. The escrow is pre-filled
+ * from the proposal: one milestone per timeline phase, amounts from the
+ * budget breakdown and governance as release authority. The recipient,
+ * token and milestone deadlines can be edited before creation.
+ */
+
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import {
+  buildProposalEscrowDraft,
+  validateProposalEscrowDraft,
+  formatEscrowAmount,
+  showError,
+  showSuccess,
+  type ProposalEscrowDraft,
+  type ThinkTankOutput,
+  type TokenType,
+} from '@/stores';
+import { createProposalEscrow } from '../services/escrowService';
+
+/**
+ * Nanosecond timestamp to a date input value (yyyy-mm-dd, local time)
+ */
+function toDateInputValue(nanos: bigint): string {
+  const date = new Date(Number(nanos / BigInt(1_000_000)));
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Date input value to a nanosecond timestamp at the end of that local day
+ */
+function fromDateInputValue(value: string): bigint {
+  return BigInt(new Date(`${value}T23:59:59`).getTime()) * BigInt(1_000_000);
+}
+
+export interface FundProposalDialogProps {
+  proposalId: string;
+  proposalTitle: string;
+  content: Pick<ThinkTankOutput, 'budgetBreakdown' | 'timeline'>;
+  /** Pre-filled recipient principal */
+  defaultRecipient?: string;
+  onClose: () => void;
+}
+
+export function FundProposalDialog({
+  proposalId,
+  proposalTitle,
+  content,
+  defaultRecipient = '',
+  onClose,
+}: FundProposalDialogProps): React.ReactElement {
+  const [draft, setDraft] = useState<ProposalEscrowDraft>(() =>
+    buildProposalEscrowDraft(proposalId, proposalTitle, content, defaultRecipient)
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validationError = validateProposalEscrowDraft(draft);
+  const total = draft.milestones.reduce((sum, m) => sum + m.amount, BigInt(0));
+
+  const setDeadline = (index: number, value: string) => {
+    if (!value) return;
+    setDraft({
+      ...draft,
+      milestones: draft.milestones.map((m, i) =>
+        i === index ? { ...m, deadline: fromDateInputValue(value) } : m
+      ),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    setIsSubmitting(true);
+    const result = await createProposalEscrow(draft);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      showSuccess('Escrow created. Funds are released by governance as milestones complete.');
+      onClose();
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="fund-proposal-title"
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-xl max-w-2xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto"
+      >
+        <h2 id="fund-proposal-title" className="text-xl font-bold text-gray-900 mb-1">
+          Fund this proposal
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">{proposalTitle}</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label
+              htmlFor="fund-recipient"
+              className="block text-sm font-medium text-gray-900 mb-1"
+            >
+              Recipient principal
+            </label>
+            <input
+              id="fund-recipient"
+              type="text"
+              value={draft.recipient}
+              onChange={(e) => setDraft({ ...draft, recipient: e.target.value })}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="fund-token" className="block text-sm font-medium text-gray-900 mb-1">
+              Token
+            </label>
+            <select
+              id="fund-token"
+              value={draft.token_type}
+              onChange={(e) => setDraft({ ...draft, token_type: e.target.value as TokenType })}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            >
+              <option value="DOM">DOM</option>
+              <option value="ICP">ICP</option>
+            </select>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-2">
+          Release authority: <span className="font-medium text-gray-900">DAO governance</span>
+        </p>
+
+        <table className="w-full text-sm mb-4">
+          <caption className="sr-only">Milestones</caption>
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-500">
+              <th className="py-2 font-medium">Milestone</th>
+              <th className="py-2 font-medium text-right">Amount</th>
+              <th className="py-2 pl-4 font-medium">Deadline</th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.milestones.map((milestone, i) => (
+              <tr key={i} className="border-b border-gray-100 align-top">
+                <td className="py-2">
+                  <p className="font-medium text-gray-900">{milestone.name}</p>
+                  <p className="text-xs text-gray-500">{milestone.description}</p>
+                </td>
+                <td className="py-2 text-right whitespace-nowrap text-gray-900">
+                  {formatEscrowAmount(milestone.amount, draft.token_type)}
+                </td>
+                <td className="py-2 pl-4">
+                  <input
+                    type="date"
+                    aria-label={`${milestone.name} deadline`}
+                    value={toDateInputValue(milestone.deadline)}
+                    onChange={(e) => setDeadline(i, e.target.value)}
+                    className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td className="py-2 font-medium text-gray-900">Total</td>
+              <td className="py-2 text-right font-semibold text-gray-900 whitespace-nowrap">
+                {formatEscrowAmount(total, draft.token_type)}
+              </td>
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+
+        {validationError && (
+          <p className="text-sm text-red-600 mb-4" role="alert">
+            {validationError}
+          </p>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="min-h-[44px]"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting || !!validationError}
+            className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+          >
+            {isSubmitting ? 'Creating...' : 'Create escrow'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default FundProposalDialog;
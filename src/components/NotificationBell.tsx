@@ -12,7 +12,21 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useStore } from '@nanostores/react';
 import { Popover } from '@headlessui/react';
-import { Bell, CheckCircle, AlertCircle, Clock, FileText, Check, ExternalLink } from 'lucide-react';
+import {
+  Bell,
+  CheckCircle,
+  AlertCircle,
+  Clock,
+  FileText,
+  AtSign,
+  Scale,
+  Flame,
+  RefreshCw,
+  Users,
+  MessageSquare,
+  Check,
+  ExternalLink,
+} from 'lucide-react';
 import {
   $recentNotifications,
   $unreadCount,
@@ -56,6 +70,19 @@ function formatTimeAgo(timestamp: number): string {
   return `${days} days ago`;
 }
 
+/**
+ * Get the route a notification links to. Mentions and new comments jump to
+ * the comment, escrow disputes to the escrow, missed burn pledges to the pledge.
+ */
+function getNotificationPath(notification: Notification): string {
+  const { proposalId, commentId, escrowId, pledgeId } = notification.metadata;
+  if (notification.type === 'escrow_dispute') return `/escrow#escrow-${escrowId}`;
+  if (notification.type === 'burn_pledge_missed') return `/burn-donation#pledge-${pledgeId}`;
+  const linksToComment = notification.type === 'mention' || notification.type === 'new_comment';
+  const hash = linksToComment && commentId ? `#comment-${commentId}` : '';
+  return `/proposals/${proposalId}${hash}`;
+}
+
 /**
  * Get icon for notification type
  */
@@ -68,6 +95,18 @@ function getNotificationIcon(type: NotificationType): React.ComponentType<{ clas
     case 'voting_ending_24h':
     case 'voting_ending_1h':
       return Clock;
+    case 'mention':
+      return AtSign;
+    case 'escrow_dispute':
+      return Scale;
+    case 'burn_pledge_missed':
+      return Flame;
+    case 'proposal_status_changed':
+      return RefreshCw;
+    case 'quorum_reached':
+      return Users;
+    case 'new_comment':
+      return MessageSquare;
     default:
       return AlertCircle;
   }
@@ -86,6 +125,18 @@ function getNotificationColor(type: NotificationType): string {
       return 'text-yellow-500';
     case 'voting_ending_1h':
       return 'text-orange-500';
+    case 'mention':
+      return 'text-purple-500';
+    case 'escrow_dispute':
+      return 'text-orange-600';
+    case 'burn_pledge_missed':
+      return 'text-red-500';
+    case 'proposal_status_changed':
+      return 'text-teal-500';
+    case 'quorum_reached':
+      return 'text-green-600';
+    case 'new_comment':
+      return 'text-indigo-500';
     default:
       return 'text-gray-500';
   }
@@ -197,12 +248,14 @@ export function NotificationBell({ className = '' }: NotificationBellProps): Rea
               title: 'Proposal Expired',
             });
           } else {
-            navigate(`/proposals/${notification.metadata.proposalId}`);
+            navigate(getNotificationPath(notification));
           }
         } catch {
           // On error, navigate anyway
-          navigate(`/proposals/${notification.metadata.proposalId}`);
+          navigate(getNotificationPath(notification));
         }
+      } else if (notification.metadata.escrowId || notification.metadata.pledgeId) {
+        navigate(getNotificationPath(notification));
       }
 
       close();
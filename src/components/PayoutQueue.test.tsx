@@ -0,0 +1,150 @@
+/**
+ * PayoutQueue Component Tests
+ *
+ * Tests for the signer payout queue: approval progress, signer gating and
+ * the approve/reject/execute confirmation flow.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PayoutQueue } from '@/components/PayoutQueue';
+import {
+  $payouts,
+  $proposedPayouts,
+  $approvedPayouts,
+  clearPayouts,
+  setPayoutsData,
+  type Payout,
+} from '@/stores';
+
+// Mock treasuryService
+vi.mock('@/services/treasuryService', () => ({
+  usePayoutQueue: vi.fn(),
+  approvePayout: vi.fn(),
+  rejectPayout: vi.fn(),
+  executePayout: vi.fn(),
+}));
+
+import {
+  usePayoutQueue,
+  approvePayout,
+  rejectPayout,
+  executePayout,
+} from '@/services/treasuryService';
+
+const SIGNER = 'signer-aaaaa-aaaaa-aaaaa-aaaaa-aaa';
+const OTHER_SIGNER = 'signer-bbbbb-bbbbb-bbbbb-bbbbb-bbb';
+
+function createMockPayout(overrides: Partial<Payout> = {}): Payout {
+  return {
+    id: BigInt(1),
+    to: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+    amount: BigInt(10000000000), // 100 DOM
+    reason: 'Contributor grant',
+    tokenType: 'DOM',
+    status: 'Proposed',
+    approvedBy: [],
+    proposedAt: BigInt(Date.now() * 1_000_000),
+    ...overrides,
+  };
+}
+
+function mockQueue() {
+  vi.mocked(usePayoutQueue).mockImplementation(() => ({
+    state: $payouts.get(),
+    proposed: $proposedPayouts.get(),
+    approved: $approvedPayouts.get(),
+    refresh: vi.fn(),
+  }));
+}
+
+function loadQueue(payouts: Payout[]) {
+  setPayoutsData(payouts, { requiredApprovals: 2, signers: [SIGNER, OTHER_SIGNER] });
+  mockQueue();
+}
+
+describe('PayoutQueue', () => {
+  beforeEach(() => {
+    clearPayouts();
+    vi.clearAllMocks();
+    mockQueue();
+  });
+
+  it('should show approvals received and remaining', () => {
+    loadQueue([createMockPayout({ approvedBy: [OTHER_SIGNER] })]);
+
+    render(<PayoutQueue userPrincipal={SIGNER} />);
+
+    expect(screen.getByText('Contributor grant')).toBeInTheDocument();
+    expect(screen.getByText('1 of 2 approvals')).toBeInTheDocument();
+    expect(screen.getByText('1 more approval needed')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Approved by' })).toBeInTheDocument();
+  });
+
+  it('should hide actions from non-signers', () => {
+    loadQueue([createMockPayout()]);
+
+    render(<PayoutQueue userPrincipal="member-ccccc" />);
+
+    expect(screen.getByText(/You are not a treasury signer/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Approve' })).not.toBeInTheDocument();
+  });
+
+  it('should disable Approve once the signer has approved', () => {
+    loadQueue([createMockPayout({ approvedBy: [SIGNER] })]);
+
+    render(<PayoutQueue userPrincipal={SIGNER} />);
+
+    expect(screen.getByRole('button', { name: 'You approved' })).toBeDisabled();
+  });
+
+  it('should approve a payout after confirmation', async () => {
+    const user = userEvent.setup();
+    vi.mocked(approvePayout).mockResolvedValue({ success: true });
+    loadQueue([createMockPayout()]);
+
+    render(<PayoutQueue userPrincipal={SIGNER} />);
+    await user.click(screen.getByRole('button', { name: 'Approve' }));
+
+    const dialog = screen.getByRole('dialog');
+    expect(within(dialog).getByText('Approve Payout')).toBeInTheDocument();
+    await user.click(within(dialog).getByRole('button', { name: 'Approve' }));
+
+    expect(approvePayout).toHaveBeenCalledWith(BigInt(1));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should require a reason to reject a payout', async () => {
+    const user = userEvent.setup();
+    vi.mocked(rejectPayout).mockResolvedValue({ success: true });
+    loadQueue([createMockPayout()]);
+
+    render(<PayoutQueue userPrincipal={SIGNER} />);
+    await user.click(screen.getByRole('button', { name: 'Reject' }));
+
+    const dialog = screen.getByRole('dialog');
+    const confirm = within(dialog).getByRole('button', { name: 'Reject' });
+    expect(confirm).toBeDisabled();
+
+    await user.type(within(dialog).getByLabelText('Reason for rejecting'), 'Duplicate request');
+    await user.click(confirm);
+
+    expect(rejectPayout).toHaveBeenCalledWith(BigInt(1), 'Duplicate request');
+  });
+
+  it('should execute an approved payout', async () => {
+    const user = userEvent.setup();
+    vi.mocked(executePayout).mockResolvedValue({ success: true });
+    loadQueue([createMockPayout({ status: 'Approved', approvedBy: [SIGNER, OTHER_SIGNER] })]);
+
+    render(<PayoutQueue userPrincipal={SIGNER} />);
+
+    expect(screen.getByText('Ready to execute (1)')).toBeInTheDocument();
+    expect(screen.getByText('Fully approved')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Execute' }));
+    await user.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Execute' }));
+
+    expect(executePayout).toHaveBeenCalledWith(BigInt(1));
+  });
+});
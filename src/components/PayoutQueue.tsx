@@ -0,0 +1,366 @@
+/**
+ * Payout Queue Component
+ *
+ * Treasury signers' queue of payouts: proposed payouts awaiting approval
+ * (with who has approved and how many approvals remain) and approved
+ * payouts awaiting execution. Every action goes through a confirmation
+ * step; rejecting requires a reason.
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, Clock, RefreshCw, ShieldAlert } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  formatEscrowAmount,
+  formatEscrowDateTime,
+  getRemainingApprovals,
+  hasApprovedPayout,
+  isPayoutSigner,
+  showError,
+  showSuccess,
+  type Payout,
+} from '@/stores';
+import {
+  usePayoutQueue,
+  approvePayout,
+  rejectPayout,
+  executePayout,
+} from '../services/treasuryService';
+
+type PayoutAction = 'approve' | 'reject' | 'execute';
+
+interface PendingAction {
+  action: PayoutAction;
+  payout: Payout;
+}
+
+const ACTION_COPY: Record<
+  PayoutAction,
+  { title: string; confirm: string; success: string; warning: string }
+> = {
+  approve: {
+    title: 'Approve Payout',
+    confirm: 'Approve',
+    success: 'Payout approved',
+    warning: 'Your approval is recorded on-chain and cannot be withdrawn.',
+  },
+  reject: {
+    title: 'Reject Payout',
+    confirm: 'Reject',
+    success: 'Payout rejected',
+    warning: 'A rejected payout is closed and must be proposed again.',
+  },
+  execute: {
+    title: 'Execute Payout',
+    confirm: 'Execute',
+    success: 'Payout executed',
+    warning: 'Funds are transferred from the treasury immediately. This cannot be undone.',
+  },
+};
+
+/**
+ * Shorten a principal for display, e.g. "abcde-...-xyz"
+ */
+function shortPrincipal(principal: string): string {
+  return principal.length > 20 ? `${principal.slice(0, 11)}...${principal.slice(-5)}` : principal;
+}
+
+// ============================================================================
+// Payout Card
+// ============================================================================
+
+interface PayoutCardProps {
+  payout: Payout;
+  requiredApprovals: number;
+  userPrincipal?: string;
+  canAct: boolean;
+  onAction: (action: PayoutAction, payout: Payout) => void;
+}
+
+function PayoutCard({
+  payout,
+  requiredApprovals,
+  userPrincipal,
+  canAct,
+  onAction,
+}: PayoutCardProps): React.ReactElement {
+  const remaining = getRemainingApprovals(payout, requiredApprovals);
+  const alreadyApproved = hasApprovedPayout(payout, userPrincipal);
+  const isProposed = payout.status === 'Proposed';
+
+  return (
+    <li className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-lg font-semibold tabular-nums text-gray-900">
+            {formatEscrowAmount(payout.amount, payout.tokenType)}
+          </p>
+          <p className="text-sm text-gray-700">{payout.reason}</p>
+          <p className="mt-1 text-xs text-gray-500">
+            Payout #{payout.id.toString()} to{' '}
+            <span className="font-mono" title={payout.to}>
+              {shortPrincipal(payout.to)}
+            </span>{' '}
+            · proposed {formatEscrowDateTime(payout.proposedAt)}
+          </p>
+        </div>
+        <p
+          className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${
+            remaining === 0 ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+          }`}
+        >
+          {payout.approvedBy.length} of {requiredApprovals} approvals
+        </p>
+      </div>
+
+      <div className="mt-3 text-sm">
+        <p className="text-gray-600">
+          {remaining === 0
+            ? 'Fully approved'
+            : `${remaining} more approval${remaining === 1 ? '' : 's'} needed`}
+        </p>
+        {payout.approvedBy.length > 0 && (
+          <ul className="mt-1 flex flex-wrap gap-2" aria-label="Approved by">
+            {payout.approvedBy.map((principal) => (
+              <li
+                key={principal}
+                className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 font-mono text-xs text-gray-700"
+                title={principal}
+              >
+                <CheckCircle2 className="h-3 w-3 text-green-600" aria-hidden="true" />
+                {principal === userPrincipal ? 'You' : shortPrincipal(principal)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {canAct && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {isProposed ? (
+            <>
+              <Button
+                onClick={() => onAction('approve', payout)}
+                disabled={alreadyApproved}
+                className="min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+              >
+                {alreadyApproved ? 'You approved' : 'Approve'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => onAction('reject', payout)}
+                className="min-h-[44px] text-red-700"
+              >
+                Reject
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={() => onAction('execute', payout)}
+              className="min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+            >
+              Execute
+            </Button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export interface PayoutQueueProps {
+  /** Current user's principal (used to check signer status) */
+  userPrincipal?: string;
+  /** Optional className for container */
+  className?: string;
+}
+
+export function PayoutQueue({ userPrincipal, className = '' }: PayoutQueueProps) {
+  const { state, proposed, approved, refresh } = usePayoutQueue();
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canAct = isPayoutSigner(state.config, userPrincipal);
+
+  const openConfirm = (action: PayoutAction, payout: Payout) => {
+    setReason('');
+    setPending({ action, payout });
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    const { action, payout } = pending;
+
+    setIsSubmitting(true);
+    const result =
+      action === 'approve'
+        ? await approvePayout(payout.id)
+        : action === 'reject'
+          ? await rejectPayout(payout.id, reason.trim())
+          : await executePayout(payout.id);
+    setIsSubmitting(false);
+    setPending(null);
+
+    if (result.success) {
+      showSuccess(ACTION_COPY[action].success);
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  const sections = [
+    { title: 'Awaiting approval', payouts: proposed, empty: 'No payouts awaiting approval' },
+    { title: 'Ready to execute', payouts: approved, empty: 'No approved payouts to execute' },
+  ];
+  const copy = pending ? ACTION_COPY[pending.action] : null;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {state.config.requiredApprovals > 0 &&
+            `Each payout needs ${state.config.requiredApprovals} signer approvals.`}
+        </p>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={state.isLoading}
+          className="inline-flex items-center gap-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${state.isLoading ? 'animate-spin' : ''}`}
+            aria-hidden="true"
+          />
+          {state.isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {!canAct && state.lastUpdated !== null && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <ShieldAlert className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          <p>You are not a treasury signer. You can review the queue but cannot act on payouts.</p>
+        </div>
+      )}
+
+      {state.error && (
+        <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+          <AlertCircle className="h-5 w-5 flex-shrink-0 text-red-500" aria-hidden="true" />
+          <div className="text-sm">
+            <p className="font-medium text-red-700">Failed to load payouts</p>
+            <p className="text-red-600">{state.error}</p>
+          </div>
+        </div>
+      )}
+
+      {state.isLoading && state.lastUpdated === null ? (
+        <div className="animate-pulse space-y-3" aria-label="Loading payouts">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-28 rounded-lg bg-gray-200" />
+          ))}
+        </div>
+      ) : (
+        sections.map((section) => (
+          <section key={section.title} aria-label={section.title}>
+            <h2 className="mb-3 text-lg font-semibold text-gray-900">
+              {section.title} ({section.payouts.length})
+            </h2>
+            {section.payouts.length === 0 ? (
+              <div className="rounded-lg border border-gray-200 bg-white py-6 text-center">
+                <Clock className="mx-auto mb-2 h-6 w-6 text-gray-300" aria-hidden="true" />
+                <p className="text-sm text-gray-500">{section.empty}</p>
+              </div>
+            ) : (
+              <ul className="space-y-3">
+                {section.payouts.map((payout) => (
+                  <PayoutCard
+                    key={payout.id.toString()}
+                    payout={payout}
+                    requiredApprovals={state.config.requiredApprovals}
+                    userPrincipal={userPrincipal}
+                    canAct={canAct}
+                    onAction={openConfirm}
+                  />
+                ))}
+              </ul>
+            )}
+          </section>
+        ))
+      )}
+
+      {/* Confirmation Dialog */}
+      {pending && copy && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="payout-confirm-title"
+        >
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full mx-4 p-6">
+            <h2 id="payout-confirm-title" className="text-xl font-bold text-gray-900 mb-4">
+              {copy.title}
+            </h2>
+
+            <p className="text-gray-700 mb-1">
+              <span className="font-semibold">
+                {formatEscrowAmount(pending.payout.amount, pending.payout.tokenType)}
+              </span>{' '}
+              to <span className="font-mono text-sm">{shortPrincipal(pending.payout.to)}</span>
+            </p>
+            <p className="text-gray-900 mb-4">"{pending.payout.reason}"</p>
+
+            {pending.action === 'reject' && (
+              <div className="mb-4">
+                <label
+                  htmlFor="payout-reject-reason"
+                  className="block text-sm font-medium text-gray-900 mb-1"
+                >
+                  Reason for rejecting
+                </label>
+                <textarea
+                  id="payout-reject-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+                />
+              </div>
+            )}
+
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+              <p className="text-amber-800 text-sm">{copy.warning}</p>
+            </div>
+
+            <div className="flex gap-3 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setPending(null)}
+                disabled={isSubmitting}
+                className="min-h-[44px]"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleConfirm}
+                disabled={isSubmitting || (pending.action === 'reject' && !reason.trim())}
+                className={`min-h-[44px] text-white ${
+                  pending.action === 'reject'
+                    ? 'bg-red-600 hover:bg-red-700'
+                    : 'bg-teal-600 hover:bg-teal-700'
+                }`}
+              >
+                {isSubmitting ? 'Submitting...' : copy.confirm}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PayoutQueue;
@@ -0,0 +1,178 @@
+/**
+ * ProposalFundingPanel Component Tests
+ *
+ * Tests for linked escrow progress on a passed proposal and the
+ * "Fund this proposal" flow pre-filled from the proposal's timeline and budget.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, within, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { ProposalFundingPanel } from '@/components/ProposalFundingPanel';
+import type { Escrow } from '@/stores';
+
+// Mock escrowService
+vi.mock('@/services/escrowService', () => ({
+  useProposalEscrows: vi.fn(),
+  createProposalEscrow: vi.fn(),
+}));
+
+import { useProposalEscrows, createProposalEscrow } from '@/services/escrowService';
+
+const RECIPIENT = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+
+const content = {
+  budgetBreakdown: [
+    { category: 'Research', amount: 1500, description: 'Interviews' },
+    { category: 'Build', amount: 3500, description: 'Implementation' },
+  ],
+  timeline: [
+    { phase: 'Discovery', duration: '2 weeks', deliverables: ['Requirements'] },
+    { phase: 'Development', duration: '8 weeks', deliverables: ['App'] },
+  ],
+};
+
+function createMockEscrow(overrides: Partial<Escrow> = {}): Escrow {
+  return {
+    id: BigInt(12),
+    recipient: RECIPIENT,
+    amount: BigInt(500000000000), // 5,000 DOM
+    released_amount: BigInt(150000000000), // 1,500 DOM
+    token_type: 'DOM',
+    conditions: 'Community clinic',
+    release_authority: { Governance: null },
+    status: 'Active',
+    created_at: BigInt(Date.now() * 1_000_000),
+    expiry: BigInt((Date.now() + 90 * 24 * 60 * 60 * 1000) * 1_000_000),
+    milestones: [
+      {
+        name: 'Discovery',
+        description: 'Research: Requirements',
+        amount: BigInt(150000000000),
+        deadline: BigInt(Date.now() * 1_000_000),
+        status: 'Released',
+      },
+      {
+        name: 'Development',
+        description: 'Build: App',
+        amount: BigInt(350000000000),
+        deadline: BigInt((Date.now() + 60 * 24 * 60 * 60 * 1000) * 1_000_000),
+        status: 'Pending',
+      },
+    ],
+    proposal_id: 'proposal-1',
+    ...overrides,
+  };
+}
+
+function mockEscrows(escrows: Escrow[]) {
+  vi.mocked(useProposalEscrows).mockReturnValue({
+    escrows,
+    isLoading: false,
+    error: null,
+    refresh: vi.fn(),
+  });
+}
+
+function renderPanel(canFund = true) {
+  return render(
+    <MemoryRouter>
+      <ProposalFundingPanel
+        proposalId="proposal-1"
+        proposalTitle="Community clinic"
+        content={content}
+        canFund={canFund}
+        defaultRecipient={RECIPIENT}
+      />
+    </MemoryRouter>
+  );
+}
+
+describe('ProposalFundingPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show funding and milestone progress of linked escrows', () => {
+    mockEscrows([createMockEscrow()]);
+
+    renderPanel();
+
+    expect(screen.getByText('1,500.00 of 5,000.00 DOM')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'Funds released' })).toHaveAttribute(
+      'aria-valuenow',
+      '30'
+    );
+    expect(screen.getByText('1 of 2 milestones released')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /Escrow #12/ })).toHaveAttribute(
+      'href',
+      '/escrow#escrow-12'
+    );
+    expect(screen.queryByRole('button', { name: 'Fund this proposal' })).not.toBeInTheDocument();
+  });
+
+  it('should only offer funding to members', () => {
+    mockEscrows([]);
+
+    renderPanel(false);
+
+    expect(screen.getByText('No escrow funds this proposal yet.')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Fund this proposal' })).not.toBeInTheDocument();
+  });
+
+  it('should pre-fill the escrow from the timeline and budget', async () => {
+    const user = userEvent.setup();
+    mockEscrows([]);
+
+    renderPanel();
+    await user.click(screen.getByRole('button', { name: 'Fund this proposal' }));
+
+    const dialog = screen.getByRole('dialog');
+    expect(within(dialog).getByLabelText('Recipient principal')).toHaveValue(RECIPIENT);
+    expect(dialog).toHaveTextContent('DAO governance');
+    const rows = within(dialog).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('Discovery');
+    expect(rows[1]).toHaveTextContent('1,500.00 DOM');
+    expect(rows[2]).toHaveTextContent('Development');
+    expect(rows[2]).toHaveTextContent('3,500.00 DOM');
+    expect(rows[3]).toHaveTextContent('5,000.00 DOM');
+  });
+
+  it('should create the escrow with edited deadlines', async () => {
+    const user = userEvent.setup();
+    mockEscrows([]);
+    vi.mocked(createProposalEscrow).mockResolvedValue({ success: true });
+    const nextYear = new Date().getFullYear() + 1;
+
+    renderPanel();
+    await user.click(screen.getByRole('button', { name: 'Fund this proposal' }));
+
+    const dialog = screen.getByRole('dialog');
+    fireEvent.change(within(dialog).getByLabelText('Development deadline'), {
+      target: { value: `${nextYear}-06-30` },
+    });
+    await user.click(within(dialog).getByRole('button', { name: 'Create escrow' }));
+
+    const draft = vi.mocked(createProposalEscrow).mock.calls[0][0];
+    expect(draft.proposal_id).toBe('proposal-1');
+    expect(draft.recipient).toBe(RECIPIENT);
+    expect(draft.release_authority).toEqual({ Governance: null });
+    const deadlineMs = Number(draft.milestones[1].deadline / BigInt(1_000_000));
+    expect(new Date(deadlineMs).getFullYear()).toBe(nextYear);
+    expect(new Date(deadlineMs).getMonth()).toBe(5);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should block creation without a recipient', async () => {
+    const user = userEvent.setup();
+    mockEscrows([]);
+
+    renderPanel();
+    await user.click(screen.getByRole('button', { name: 'Fund this proposal' }));
+    await user.clear(screen.getByLabelText('Recipient principal'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter the recipient principal');
+    expect(screen.getByRole('button', { name: 'Create escrow' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Proposal Funding Panel
+ *
+ * Funding and milestone progress of the escrows linked to a passed
+ * proposal, with a "Fund this proposal" action while it has no escrow.
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Briefcase, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  getProposalFundingProgress,
+  getMilestoneProgress,
+  formatEscrowAmount,
+  formatTokenAmount,
+  getEscrowStatusColor,
+  TOKEN_DECIMALS,
+  type ThinkTankOutput,
+} from '@/stores';
+import { useProposalEscrows } from '../services/escrowService';
+import { FundProposalDialog } from './FundProposalDialog';
+
+export interface ProposalFundingPanelProps {
+  proposalId: string;
+  proposalTitle: string;
+  /** Proposal content used to pre-fill the escrow */
+  content?: Pick<ThinkTankOutput, 'budgetBreakdown' | 'timeline'>;
+  /** Whether the user may start funding (active member) */
+  canFund: boolean;
+  /** Pre-filled recipient principal */
+  defaultRecipient?: string;
+}
+
+export function ProposalFundingPanel({
+  proposalId,
+  proposalTitle,
+  content,
+  canFund,
+  defaultRecipient,
+}: ProposalFundingPanelProps): React.ReactElement {
+  const { escrows, isLoading, error, refresh } = useProposalEscrows(proposalId);
+  const [isFunding, setIsFunding] = useState(false);
+  const progress = getProposalFundingProgress(escrows);
+  // Mixed-token proposals show the raw sum without a token suffix
+  const tokenTypes = new Set(escrows.map((e) => e.token_type));
+  const tokenLabel = tokenTypes.size === 1 ? ` ${escrows[0].token_type}` : '';
+
+  return (
+    <section
+      className="rounded-lg border border-gray-200 p-4"
+      aria-labelledby="proposal-funding-title"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3
+          id="proposal-funding-title"
+          className="font-medium text-gray-900 flex items-center gap-2"
+        >
+          <Briefcase className="h-4 w-4 text-teal-600" aria-hidden="true" />
+          Funding
+        </h3>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={isLoading}
+          className="p-1 rounded-full text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          aria-label="Refresh funding"
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`}
+            aria-hidden="true"
+          />
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3" role="alert">
+          {error}
+        </p>
+      )}
+
+      {escrows.length === 0 ? (
+        !isLoading && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">No escrow funds this proposal yet.</p>
+            {canFund && content && (
+              <Button className="w-full" onClick={() => setIsFunding(true)}>
+                Fund this proposal
+              </Button>
+            )}
+          </div>
+        )
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Released</span>
+              <span className="font-medium text-gray-900">
+                {formatTokenAmount(progress.released, TOKEN_DECIMALS)} of{' '}
+                {formatTokenAmount(progress.funded, TOKEN_DECIMALS)}
+                {tokenLabel}
+              </span>
+            </div>
+            <div
+              className="mt-1 h-2 bg-gray-200 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-label="Funds released"
+              aria-valuenow={progress.percentage}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div
+                className="h-full bg-teal-500 rounded-full transition-all duration-300"
+                style={{ width: `${progress.percentage}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {progress.milestonesReleased} of {progress.milestonesTotal} milestones released
+            </p>
+          </div>
+
+          <ul className="space-y-2">
+            {escrows.map((escrow) => {
+              const milestones = getMilestoneProgress(escrow);
+              return (
+                <li key={escrow.id.toString()} className="text-sm">
+                  <Link
+                    to={`/escrow#escrow-${escrow.id.toString()}`}
+                    className="flex items-center justify-between gap-2 hover:text-teal-700"
+                  >
+                    <span>
+                      Escrow #{escrow.id.toString()}{' '}
+                      <span className="text-gray-500">
+                        · {formatEscrowAmount(escrow.amount, escrow.token_type)}
+                      </span>
+                    </span>
+                    <span
+                      className={`text-xs font-medium px-2 py-0.5 rounded-full ${getEscrowStatusColor(escrow.status)}`}
+                    >
+                      {escrow.status}
+                    </span>
+                  </Link>
+                  {milestones.total > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {milestones.released}/{milestones.total} milestones released
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {isFunding && content && (
+        <FundProposalDialog
+          proposalId={proposalId}
+          proposalTitle={proposalTitle}
+          content={content}
+          defaultRecipient={defaultRecipient}
+          onClose={() => setIsFunding(false)}
+        />
+      )}
+    </section>
+  );
+}
+
+export default ProposalFundingPanel;
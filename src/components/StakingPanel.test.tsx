@@ -0,0 +1,163 @@
+/**
+ * StakingPanel Component Tests
+ *
+ * Tests for listing stakes, staking with a dissolve delay and projected
+ * voting power, and unstaking, extending and withdrawing stakes.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { StakingPanel } from '@/components/StakingPanel';
+import {
+  clearTokenBalance,
+  setTokenBalance,
+  MAX_DISSOLVE_DELAY_DAYS,
+  MIN_DISSOLVE_DELAY_DAYS,
+  type Stake,
+} from '@/stores';
+
+// Mock stakingService
+vi.mock('@/services/stakingService', () => ({
+  useStaking: vi.fn(),
+}));
+
+import { useStaking } from '@/services/stakingService';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DOM = BigInt(100_000_000);
+
+const stake = vi.fn();
+const dissolve = vi.fn();
+const extend = vi.fn();
+const withdraw = vi.fn();
+
+function createStake(overrides: Partial<Stake> = {}): Stake {
+  return {
+    id: '1',
+    amount: DOM * BigInt(10),
+    dissolveDelayDays: 365,
+    dissolveStartedAt: null,
+    agingSince: Date.now(),
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+function mockHook(stakes: Stake[] = []) {
+  vi.mocked(useStaking).mockReturnValue({
+    state: {
+      principal: SELF,
+      stakes,
+      lastUpdated: Date.now(),
+      isLoading: false,
+      error: null,
+    },
+    actionState: { pendingAction: null, stakeId: null, error: null },
+    totalStaked: stakes.reduce((sum, s) => sum + s.amount, BigInt(0)),
+    votingPower: BigInt(0),
+    fee: BigInt(10_000),
+    stake,
+    dissolve,
+    extend,
+    withdraw,
+    refresh: vi.fn(),
+  });
+}
+
+describe('StakingPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearTokenBalance();
+    setTokenBalance(DOM * BigInt(100), SELF);
+  });
+
+  it('should show the empty state', () => {
+    mockHook();
+
+    render(<StakingPanel principal={SELF} />);
+
+    expect(screen.getByText('No stakes yet')).toBeInTheDocument();
+  });
+
+  it('should stake with the chosen dissolve delay and show projected voting power', async () => {
+    const user = userEvent.setup();
+    stake.mockResolvedValue({ success: true });
+    mockHook();
+
+    render(<StakingPanel principal={SELF} />);
+
+    await user.type(screen.getByLabelText('Amount'), '10');
+    fireEvent.change(screen.getByLabelText('Dissolve delay'), {
+      target: { value: String(MAX_DISSOLVE_DELAY_DAYS) },
+    });
+
+    expect(screen.getByTestId('projected-voting-power')).toHaveTextContent('20.00');
+
+    await user.click(screen.getByRole('button', { name: 'Stake' }));
+
+    expect(stake).toHaveBeenCalledWith({
+      amount: DOM * BigInt(10),
+      dissolveDelayDays: MAX_DISSOLVE_DELAY_DAYS,
+    });
+  });
+
+  it('should reject stakes below the minimum', async () => {
+    const user = userEvent.setup();
+    mockHook();
+
+    render(<StakingPanel principal={SELF} />);
+
+    await user.type(screen.getByLabelText('Amount'), '0.5');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Minimum stake is 1.00 DOM');
+    expect(screen.getByRole('button', { name: 'Stake' })).toBeDisabled();
+  });
+
+  it('should unstake after confirmation', async () => {
+    const user = userEvent.setup();
+    dissolve.mockResolvedValue({ success: true });
+    mockHook([createStake()]);
+
+    render(<StakingPanel principal={SELF} />);
+
+    const list = screen.getByRole('list', { name: 'Stakes' });
+    expect(list).toHaveTextContent('10.00 DOM');
+    expect(list).toHaveTextContent('Locked');
+
+    await user.click(screen.getByRole('button', { name: 'Unstake' }));
+    await user.click(screen.getByRole('button', { name: 'Confirm unstake' }));
+
+    expect(dissolve).toHaveBeenCalledWith('1');
+  });
+
+  it('should extend the dissolve delay', async () => {
+    const user = userEvent.setup();
+    extend.mockResolvedValue({ success: true });
+    mockHook([createStake({ dissolveDelayDays: MIN_DISSOLVE_DELAY_DAYS })]);
+
+    render(<StakingPanel principal={SELF} />);
+
+    await user.click(screen.getByRole('button', { name: 'Extend' }));
+    fireEvent.change(screen.getByLabelText('New dissolve delay'), { target: { value: '730' } });
+    await user.click(screen.getByRole('button', { name: 'Extend delay' }));
+
+    expect(extend).toHaveBeenCalledWith('1', 730);
+  });
+
+  it('should withdraw a dissolved stake', async () => {
+    const user = userEvent.setup();
+    withdraw.mockResolvedValue({ success: true });
+    mockHook([
+      createStake({ dissolveDelayDays: 200, dissolveStartedAt: Date.now() - 300 * DAY_MS }),
+    ]);
+
+    render(<StakingPanel principal={SELF} />);
+
+    expect(screen.getByText('Ready to withdraw')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Withdraw' }));
+
+    expect(withdraw).toHaveBeenCalledWith('1');
+  });
+});
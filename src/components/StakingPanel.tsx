@@ -0,0 +1,486 @@
+/**
+ * Staking Panel Component
+ *
+ * Lets the member lock DOM with a dissolve delay for boosted voting power,
+ * and manage existing stakes: unstake (start dissolving), extend the
+ * dissolve delay, and withdraw once a stake has fully dissolved.
+ */
+
+import React, { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { AlertCircle, Lock, RefreshCw, Timer } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  $tokenBalance,
+  computeStakeVotingPower,
+  formatDissolveDelay,
+  formatExactTokenAmount,
+  formatMultiplier,
+  formatTokenAmount,
+  getStakeStatus,
+  parseTokenAmount,
+  projectVotingPower,
+  showError,
+  showSuccess,
+  validateDissolveDelay,
+  validateStakeAmount,
+  MAX_DISSOLVE_DELAY_DAYS,
+  MIN_DISSOLVE_DELAY_DAYS,
+  TOKEN_DECIMALS,
+  type Stake,
+  type StakeStatus,
+} from '@/stores';
+import { useStaking } from '../services/stakingService';
+
+const inputClasses =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500';
+
+const STATUS_LABELS: Record<StakeStatus, string> = {
+  locked: 'Locked',
+  dissolving: 'Dissolving',
+  dissolved: 'Dissolved',
+};
+
+const STATUS_CLASSES: Record<StakeStatus, string> = {
+  locked: 'bg-teal-100 text-teal-800',
+  dissolving: 'bg-amber-100 text-amber-800',
+  dissolved: 'bg-gray-100 text-gray-700',
+};
+
+interface DissolveDelaySliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  onChange: (days: number) => void;
+}
+
+function DissolveDelaySlider({
+  id,
+  label,
+  value,
+  min,
+  onChange,
+}: DissolveDelaySliderProps): React.ReactElement {
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <label htmlFor={id} className="block text-sm font-medium text-gray-900">
+          {label}
+        </label>
+        <span className="text-sm text-gray-700 tabular-nums">{formatDissolveDelay(value)}</span>
+      </div>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={MAX_DISSOLVE_DELAY_DAYS}
+        value={value}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+        aria-valuetext={formatDissolveDelay(value)}
+        className="w-full accent-teal-600"
+      />
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{formatDissolveDelay(min)}</span>
+        <span>{formatDissolveDelay(MAX_DISSOLVE_DELAY_DAYS)}</span>
+      </div>
+    </div>
+  );
+}
+
+interface StakeItemProps {
+  stake: Stake;
+  isPending: boolean;
+  disabled: boolean;
+  onDissolve: (stakeId: string) => Promise<void>;
+  onExtend: (stakeId: string, days: number) => Promise<void>;
+  onWithdraw: (stakeId: string) => Promise<void>;
+}
+
+function StakeItem({
+  stake,
+  isPending,
+  disabled,
+  onDissolve,
+  onExtend,
+  onWithdraw,
+}: StakeItemProps): React.ReactElement {
+  const [mode, setMode] = useState<'idle' | 'confirmUnstake' | 'extend'>('idle');
+  const status = getStakeStatus(stake);
+  const power = computeStakeVotingPower(stake);
+  // Extending only lengthens the delay, so the slider starts one day past it
+  const minExtendDays = Math.min(Math.ceil(power.dissolveDelayDays) + 1, MAX_DISSOLVE_DELAY_DAYS);
+  const [extendDays, setExtendDays] = useState(minExtendDays);
+  const canExtend = status === 'locked' && stake.dissolveDelayDays < MAX_DISSOLVE_DELAY_DAYS;
+  const extendError = validateDissolveDelay(extendDays, stake.dissolveDelayDays);
+
+  return (
+    <li className="py-3 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-semibold tabular-nums text-gray-900">
+              {formatTokenAmount(stake.amount, TOKEN_DECIMALS)} DOM
+            </p>
+            <span
+              className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[status]}`}
+            >
+              {STATUS_LABELS[status]}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500">
+            {status === 'locked' &&
+              `Dissolve delay ${formatDissolveDelay(power.dissolveDelayDays)}`}
+            {status === 'dissolving' &&
+              `Unlocks in ${formatDissolveDelay(power.dissolveDelayDays)}`}
+            {status === 'dissolved' && 'Ready to withdraw'}
+          </p>
+          <p className="text-xs text-gray-400">
+            {power.eligible
+              ? `Voting power ${formatTokenAmount(power.votingPower, TOKEN_DECIMALS)} ` +
+                `(delay ${formatMultiplier(power.delayMultiplier)}, ` +
+                `age ${formatMultiplier(power.ageMultiplier)})`
+              : 'No voting power (dissolve delay below minimum)'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {mode === 'confirmUnstake' ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setMode('idle')}
+                disabled={isPending}
+                className="min-h-[44px]"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={async () => {
+                  await onDissolve(stake.id);
+                  setMode('idle');
+                }}
+                disabled={isPending}
+                className="min-h-[44px] text-white bg-red-600 hover:bg-red-700"
+              >
+                {isPending ? 'Unstaking...' : 'Confirm unstake'}
+              </Button>
+            </>
+          ) : (
+            mode === 'idle' && (
+              <>
+                {canExtend && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setMode('extend')}
+                    disabled={disabled}
+                    className="min-h-[44px]"
+                  >
+                    Extend
+                  </Button>
+                )}
+                {status === 'locked' && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setMode('confirmUnstake')}
+                    disabled={disabled}
+                    className="min-h-[44px]"
+                  >
+                    Unstake
+                  </Button>
+                )}
+                {status === 'dissolved' && (
+                  <Button
+                    onClick={() => onWithdraw(stake.id)}
+                    disabled={disabled}
+                    className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+                  >
+                    {isPending ? 'Withdrawing...' : 'Withdraw'}
+                  </Button>
+                )}
+              </>
+            )
+          )}
+        </div>
+      </div>
+
+      {mode === 'confirmUnstake' && (
+        <p className="text-sm text-amber-700">
+          Unstaking starts the {formatDissolveDelay(stake.dissolveDelayDays)} dissolve timer. The
+          stake stops aging and loses its voting power once less than{' '}
+          {formatDissolveDelay(MIN_DISSOLVE_DELAY_DAYS)} remain.
+        </p>
+      )}
+
+      {mode === 'extend' && (
+        <div className="rounded-md border border-gray-200 bg-gray-50 p-3 space-y-3">
+          <DissolveDelaySlider
+            id={`extend-delay-${stake.id}`}
+            label="New dissolve delay"
+            value={extendDays}
+            min={minExtendDays}
+            onChange={setExtendDays}
+          />
+          <p className="text-sm text-gray-600">
+            Voting power at this delay:{' '}
+            {formatTokenAmount(projectVotingPower(stake.amount, extendDays), TOKEN_DECIMALS)}
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setMode('idle')}
+              disabled={isPending}
+              className="min-h-[44px]"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={async () => {
+                await onExtend(stake.id, extendDays);
+                setMode('idle');
+              }}
+              disabled={isPending || !!extendError}
+              className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+            >
+              {isPending ? 'Extending...' : 'Extend delay'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export interface StakingPanelProps {
+  /** Account to manage stakes for (null when II is not linked) */
+  principal: string | null;
+  /** Optional className for container */
+  className?: string;
+}
+
+export function StakingPanel({ principal, className = '' }: StakingPanelProps): React.ReactElement {
+  const {
+    state,
+    actionState,
+    totalStaked,
+    votingPower,
+    fee,
+    stake,
+    dissolve,
+    extend,
+    withdraw,
+    refresh,
+  } = useStaking(principal);
+  const { balance } = useStore($tokenBalance);
+
+  const [amountInput, setAmountInput] = useState('');
+  const [delayDays, setDelayDays] = useState(MIN_DISSOLVE_DELAY_DAYS);
+
+  const amount = /^\d*\.?\d{0,8}$/.test(amountInput)
+    ? parseTokenAmount(amountInput || '0', TOKEN_DECIMALS)
+    : BigInt(0);
+  const amountError = amountInput ? validateStakeAmount(amount, balance, fee) : null;
+  const canStake = amount > BigInt(0) && !amountError;
+  const isStaking = actionState.pendingAction === 'stake';
+  const isBusy = actionState.pendingAction !== null;
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow empty, digits, single decimal, and up to 8 decimal places
+    if (value === '' || /^\d*\.?\d{0,8}$/.test(value)) {
+      setAmountInput(value);
+    }
+  };
+
+  const handleStake = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canStake) return;
+
+    const result = await stake({ amount, dissolveDelayDays: delayDays });
+    if (result.success) {
+      showSuccess(`Staked ${formatTokenAmount(amount, TOKEN_DECIMALS)} DOM`);
+      setAmountInput('');
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleDissolve = async (stakeId: string) => {
+    const result = await dissolve(stakeId);
+    if (result.success) {
+      showSuccess('Stake is now dissolving');
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleExtend = async (stakeId: string, days: number) => {
+    const result = await extend(stakeId, days);
+    if (result.success) {
+      showSuccess(`Dissolve delay extended to ${formatDissolveDelay(days)}`);
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleWithdraw = async (stakeId: string) => {
+    const result = await withdraw(stakeId);
+    if (result.success) {
+      showSuccess('Stake withdrawn to your wallet');
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  if (!principal) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 text-center ${className}`}>
+        <p className="text-gray-600">Link Internet Identity to stake DOM.</p>
+      </div>
+    );
+  }
+
+  const isInitialLoad = state.isLoading && !state.lastUpdated;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Existing stakes */}
+      <section className="bg-white rounded-lg border border-gray-200">
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Your stakes</h2>
+            <p className="text-sm text-gray-600">
+              {formatTokenAmount(totalStaked, TOKEN_DECIMALS)} DOM staked · Voting power{' '}
+              <span className="font-semibold text-gray-900">
+                {formatTokenAmount(votingPower, TOKEN_DECIMALS)}
+              </span>
+            </p>
+          </div>
+          <button
+            onClick={refresh}
+            disabled={state.isLoading}
+            className="p-1.5 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+            aria-label="Refresh stakes"
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${state.isLoading ? 'animate-spin' : ''}`}
+              aria-hidden="true"
+            />
+          </button>
+        </div>
+
+        <div className="p-4">
+          {state.error && (
+            <div className="mb-4 flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+              <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" aria-hidden="true" />
+              <div className="text-sm">
+                <p className="font-medium text-red-700">Failed to load stakes</p>
+                <p className="text-red-600">{state.error}</p>
+              </div>
+            </div>
+          )}
+
+          {isInitialLoad && (
+            <div className="animate-pulse space-y-3" aria-label="Loading stakes">
+              {[1, 2].map((i) => (
+                <div key={i} className="h-12 rounded bg-gray-100" />
+              ))}
+            </div>
+          )}
+
+          {!isInitialLoad && !state.error && state.stakes.length === 0 && (
+            <div className="py-8 text-center">
+              <Timer className="h-8 w-8 text-gray-300 mx-auto mb-2" aria-hidden="true" />
+              <p className="text-gray-500">No stakes yet</p>
+            </div>
+          )}
+
+          {state.stakes.length > 0 && (
+            <ul className="divide-y divide-gray-100" aria-label="Stakes">
+              {state.stakes.map((s) => (
+                <StakeItem
+                  key={s.id}
+                  stake={s}
+                  isPending={actionState.stakeId === s.id}
+                  disabled={isBusy}
+                  onDissolve={handleDissolve}
+                  onExtend={handleExtend}
+                  onWithdraw={handleWithdraw}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+
+      {/* New stake */}
+      <section className="bg-white rounded-lg border border-gray-200 p-4">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          <Lock className="h-5 w-5 text-teal-600" aria-hidden="true" />
+          New stake
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Locked DOM earns voting power. A longer dissolve delay earns up to twice as much, and
+          locked stakes gain up to 25% more as they age. Stakes need at least{' '}
+          {formatDissolveDelay(MIN_DISSOLVE_DELAY_DAYS)} of dissolve delay remaining to vote.
+        </p>
+
+        <form onSubmit={handleStake} className="space-y-4">
+          <div>
+            <label htmlFor="stake-amount" className="block text-sm font-medium text-gray-900 mb-1">
+              Amount
+            </label>
+            <input
+              id="stake-amount"
+              type="text"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={amountInput}
+              onChange={handleAmountChange}
+              className={inputClasses}
+            />
+          </div>
+
+          <DissolveDelaySlider
+            id="stake-delay"
+            label="Dissolve delay"
+            value={delayDays}
+            min={MIN_DISSOLVE_DELAY_DAYS}
+            onChange={setDelayDays}
+          />
+
+          <div className="rounded-md bg-teal-50 p-3 text-sm">
+            <p className="text-gray-700">
+              Projected voting power:{' '}
+              <span className="font-semibold text-gray-900" data-testid="projected-voting-power">
+                {formatTokenAmount(projectVotingPower(amount, delayDays), TOKEN_DECIMALS)}
+              </span>
+            </p>
+            <p className="text-xs text-gray-500">
+              Network fee: {formatExactTokenAmount(fee)} DOM for the approval and{' '}
+              {formatExactTokenAmount(fee)} DOM for the transfer
+            </p>
+          </div>
+
+          {amountError && (
+            <p className="text-sm text-red-600" role="alert">
+              {amountError}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={!canStake || isStaking}
+              className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+            >
+              {isStaking ? 'Staking...' : 'Stake'}
+            </Button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+}
+
+export default StakingPanel;
@@ -15,6 +15,8 @@ import {
   $tokenMetadata,
   clearTokenBalance,
   setTokenBalance,
+  addTransferRecord,
+  clearTransferHistory,
   DEFAULT_TOKEN_METADATA,
 } from '@/stores';
 
@@ -32,9 +34,15 @@ vi.mock('@/services/tokenService', () => ({
     refresh: vi.fn(),
     clear: vi.fn(),
   })),
+  reconcilePendingTransfers: vi.fn(),
+  dismissPendingTransfer: vi.fn(),
 }));
 
-import { useTokenBalance } from '@/services/tokenService';
+import {
+  useTokenBalance,
+  reconcilePendingTransfers,
+  dismissPendingTransfer,
+} from '@/services/tokenService';
 import { trackEvent } from '@/utils/analytics';
 
 // Wrapper component
@@ -45,6 +53,7 @@ function TestWrapper({ children }: { children: React.ReactNode }) {
 describe('TokenBalance', () => {
   beforeEach(() => {
     clearTokenBalance();
+    clearTransferHistory();
     $tokenMetadata.set({ ...DEFAULT_TOKEN_METADATA });
     vi.clearAllMocks();
 
@@ -430,6 +439,27 @@ describe('TokenBalance', () => {
       expect(link).toHaveAttribute('href', '/burn-donation');
     });
 
+    it('should link to wallet activity', () => {
+      setTokenBalance(BigInt(100000000), 'test-principal');
+
+      vi.mocked(useTokenBalance).mockImplementation(() => ({
+        state: $tokenBalance.get(),
+        isLoading: false,
+        isRefreshing: false,
+        refresh: vi.fn(),
+        clear: vi.fn(),
+      }));
+
+      render(
+        <TestWrapper>
+          <TokenBalance principal="test-principal" />
+        </TestWrapper>
+      );
+
+      const link = screen.getByRole('link', { name: /activity/i });
+      expect(link).toHaveAttribute('href', '/wallet/activity');
+    });
+
     it('should track analytics on click', async () => {
       setTokenBalance(BigInt(100000000), 'test-principal');
 
@@ -519,4 +549,75 @@ describe('TokenBalance', () => {
       expect(container.firstChild).toHaveClass('custom-class');
     });
   });
+
+  describe('Transfers', () => {
+    it('should offer Send only with a non-zero balance', () => {
+      setTokenBalance(BigInt(0), 'test-principal');
+
+      const { rerender } = render(
+        <TestWrapper>
+          <TokenBalance principal="test-principal" />
+        </TestWrapper>
+      );
+      expect(screen.queryByRole('button', { name: 'Send' })).not.toBeInTheDocument();
+
+      setTokenBalance(BigInt(100000000), 'test-principal');
+      rerender(
+        <TestWrapper>
+          <TokenBalance principal="test-principal" />
+        </TestWrapper>
+      );
+      expect(screen.getByRole('button', { name: 'Send' })).toBeInTheDocument();
+    });
+
+    it('should list recent transfers and check pending ones', async () => {
+      const user = userEvent.setup();
+      setTokenBalance(BigInt(100000000), 'test-principal');
+      addTransferRecord({
+        id: 'transfer-1',
+        principal: 'test-principal',
+        to: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+        amount: BigInt(250000000),
+        fee: BigInt(10000),
+        createdAtTime: BigInt(1),
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      render(
+        <TestWrapper>
+          <TokenBalance principal="test-principal" />
+        </TestWrapper>
+      );
+
+      expect(screen.getByText('2.50 DOM')).toBeInTheDocument();
+      expect(screen.getByText('Pending')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Check status' }));
+      expect(reconcilePendingTransfers).toHaveBeenCalled();
+      await user.click(screen.getByRole('button', { name: 'Dismiss' }));
+      expect(dismissPendingTransfer).toHaveBeenCalledWith('transfer-1');
+    });
+
+    it("should not list another account's transfers", () => {
+      setTokenBalance(BigInt(100000000), 'test-principal');
+      addTransferRecord({
+        id: 'transfer-1',
+        principal: 'other-principal',
+        to: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+        amount: BigInt(250000000),
+        fee: BigInt(10000),
+        createdAtTime: BigInt(1),
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      render(
+        <TestWrapper>
+          <TokenBalance principal="test-principal" />
+        </TestWrapper>
+      );
+
+      expect(screen.queryByText('Recent transfers')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -1,20 +1,47 @@
 /**
  * Token Balance Component
  *
- * Displays DOM token balance with refresh capability and burn donation link.
+ * Displays DOM token balance with refresh capability and burn donation link,
+ * a Send action for member-to-member transfers and recent transfers.
  * Integrates with token balance state management and service.
  *
  * Story: 9-2-1-token-balance-display
  * ACs: 1, 3, 4
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useStore } from '@nanostores/react';
-import { RefreshCw, Flame, Wallet, AlertCircle, LinkIcon } from 'lucide-react';
-import { $formattedBalance, $tokenBalance, $tokenMetadata } from '@/stores';
-import { useTokenBalance } from '../services/tokenService';
+import {
+  RefreshCw,
+  Flame,
+  Wallet,
+  AlertCircle,
+  LinkIcon,
+  Send,
+  History,
+  KeyRound,
+  Lock,
+} from 'lucide-react';
+import {
+  $formattedBalance,
+  $tokenBalance,
+  $tokenMetadata,
+  $transferHistory,
+  formatTokenAmount,
+  TOKEN_DECIMALS,
+  type LocalTransferRecord,
+} from '@/stores';
+import {
+  useTokenBalance,
+  reconcilePendingTransfers,
+  dismissPendingTransfer,
+} from '../services/tokenService';
 import { trackEvent } from '../utils/analytics';
+import { TransferDialog } from './TransferDialog';
+
+/** Transfers listed on the card */
+const RECENT_TRANSFER_COUNT = 3;
 
 // ============================================================================
 // Loading Skeleton
@@ -147,6 +174,88 @@ function ZeroBalance({ symbol, isRefreshing, onRefresh }: ZeroBalanceProps): Rea
   );
 }
 
+// ============================================================================
+// Recent Transfers
+// ============================================================================
+
+interface RecentTransfersProps {
+  records: LocalTransferRecord[];
+}
+
+function RecentTransfers({ records }: RecentTransfersProps): React.ReactElement {
+  const [isChecking, setIsChecking] = useState(false);
+
+  const statusColors: Record<LocalTransferRecord['status'], string> = {
+    pending: 'text-yellow-600 bg-yellow-100',
+    confirmed: 'text-green-600 bg-green-100',
+    failed: 'text-red-600 bg-red-100',
+  };
+
+  const statusLabels: Record<LocalTransferRecord['status'], string> = {
+    pending: 'Pending',
+    confirmed: 'Confirmed',
+    failed: 'Failed',
+  };
+
+  const handleCheckStatus = async () => {
+    setIsChecking(true);
+    try {
+      await reconcilePendingTransfers();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100">
+      <h4 className="text-xs font-medium text-gray-500 mb-2">Recent transfers</h4>
+      <ul className="space-y-2">
+        {records.map((record) => (
+          <li key={record.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="min-w-0">
+              <p className="text-gray-900">
+                {formatTokenAmount(record.amount, TOKEN_DECIMALS)} DOM
+              </p>
+              <p className="text-xs text-gray-500 font-mono truncate" title={record.to}>
+                to {record.to}
+              </p>
+              {record.status === 'failed' && record.error && (
+                <p className="text-xs text-red-600">{record.error}</p>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-1 flex-shrink-0">
+              <span
+                className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusColors[record.status]}`}
+              >
+                {statusLabels[record.status]}
+              </span>
+              {record.status === 'pending' && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleCheckStatus}
+                    disabled={isChecking}
+                    className="text-xs text-teal-600 hover:text-teal-800 disabled:opacity-50 focus:outline-none focus:underline"
+                  >
+                    {isChecking ? 'Checking...' : 'Check status'}
+                  </button>
+                  <button
+                    onClick={() => dismissPendingTransfer(record.id)}
+                    disabled={isChecking}
+                    title="Stop waiting for this transfer so you can send again"
+                    className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50 focus:outline-none focus:underline"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 // ============================================================================
 // Link Identity Prompt (BL-027.3 AC2)
 // ============================================================================
@@ -241,6 +350,8 @@ export function TokenBalance({
   const formattedBalance = useStore($formattedBalance);
   const balanceState = useStore($tokenBalance);
   const metadata = useStore($tokenMetadata);
+  const transferHistory = useStore($transferHistory);
+  const [isSending, setIsSending] = useState(false);
 
   const { isLoading, isRefreshing, refresh } = useTokenBalance({
     principal,
@@ -262,6 +373,12 @@ export function TokenBalance({
 
   // Determine if balance is zero
   const isZeroBalance = balanceState.balance === BigInt(0);
+  const canSend = !compact && !isZeroBalance && !balanceState.error && !!balanceState.lastUpdated;
+  const recentTransfers = compact
+    ? []
+    : transferHistory
+        .filter((record) => record.principal === principal)
+        .slice(0, RECENT_TRANSFER_COUNT);
 
   // Card/compact mode styling
   const containerClasses = compact
@@ -309,6 +426,70 @@ export function TokenBalance({
         )}
       </div>
 
+      {/* Send DOM, wallet activity and approvals */}
+      {!compact && (
+        <div className="mt-3 flex items-center gap-4">
+          {canSend && (
+            <button
+              onClick={() => setIsSending(true)}
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-teal-600 hover:text-teal-800
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <Send className="h-4 w-4" aria-hidden="true" />
+              Send
+            </button>
+          )}
+          <Link
+            to="/wallet/activity"
+            className="
+              inline-flex items-center gap-1.5
+              text-sm text-teal-600 hover:text-teal-800
+              font-medium
+              focus:outline-none focus:underline
+              transition-colors duration-150
+            "
+          >
+            <History className="h-4 w-4" aria-hidden="true" />
+            Activity
+          </Link>
+          <Link
+            to="/wallet/allowances"
+            className="
+              inline-flex items-center gap-1.5
+              text-sm text-teal-600 hover:text-teal-800
+              font-medium
+              focus:outline-none focus:underline
+              transition-colors duration-150
+            "
+          >
+            <KeyRound className="h-4 w-4" aria-hidden="true" />
+            Approvals
+          </Link>
+          <Link
+            to="/wallet/staking"
+            className="
+              inline-flex items-center gap-1.5
+              text-sm text-teal-600 hover:text-teal-800
+              font-medium
+              focus:outline-none focus:underline
+              transition-colors duration-150
+            "
+          >
+            <Lock className="h-4 w-4" aria-hidden="true" />
+            Stake
+          </Link>
+        </div>
+      )}
+
+      {recentTransfers.length > 0 && <RecentTransfers records={recentTransfers} />}
+
+      {isSending && <TransferDialog onClose={() => setIsSending(false)} />}
+
       {/* Burn Donation Link */}
       {showBurnLink && !compact && (
         <div className="mt-3 pt-3 border-t border-gray-100">
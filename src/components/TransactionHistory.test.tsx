@@ -0,0 +1,161 @@
+/**
+ * TransactionHistory Component Tests
+ *
+ * Tests for the paged treasury ledger: filters, search, paging and export.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TransactionHistory } from '@/components/TransactionHistory';
+import {
+  $transactionHistory,
+  $transactionFilters,
+  clearTreasury,
+  setTransactionFilters,
+  setTransactionHistoryPage,
+  type Transaction,
+} from '@/stores';
+
+// Mock treasuryService
+vi.mock('@/services/treasuryService', () => ({
+  useTransactionHistory: vi.fn(),
+  exportTransactionHistory: vi.fn(),
+}));
+
+import { useTransactionHistory, exportTransactionHistory } from '@/services/treasuryService';
+
+const setFilters = vi.fn();
+const resetFilters = vi.fn();
+const loadMore = vi.fn();
+const refresh = vi.fn();
+
+function createMockTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-001',
+    type: 'payout',
+    amount: BigInt(5000000000), // 50 DOM
+    timestamp: BigInt(Date.now() * 1_000_000),
+    description: 'Community grant payout',
+    tokenType: 'DOM',
+    ...overrides,
+  };
+}
+
+function mockHistory() {
+  vi.mocked(useTransactionHistory).mockImplementation(() => ({
+    state: $transactionHistory.get(),
+    filters: $transactionFilters.get(),
+    hasMore: $transactionHistory.get().nextCursor !== null,
+    setFilters,
+    resetFilters,
+    loadMore,
+    refresh,
+  }));
+}
+
+describe('TransactionHistory', () => {
+  beforeEach(() => {
+    clearTreasury();
+    vi.clearAllMocks();
+    mockHistory();
+  });
+
+  it('should list transactions and load the next page', async () => {
+    const user = userEvent.setup();
+    setTransactionHistoryPage([createMockTransaction()], 'cursor-1', false);
+
+    render(<TransactionHistory />);
+
+    expect(screen.getByText('Community grant payout')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Load more' }));
+    expect(loadMore).toHaveBeenCalled();
+  });
+
+  it('should hide Load more on the last page', () => {
+    setTransactionHistoryPage([createMockTransaction()], null, false);
+
+    render(<TransactionHistory />);
+
+    expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+  });
+
+  it('should filter by transaction type and token', async () => {
+    const user = userEvent.setup();
+    render(<TransactionHistory />);
+
+    await user.click(screen.getByRole('button', { name: 'Burn' }));
+    expect(setFilters).toHaveBeenCalledWith({ types: ['burn'] });
+
+    await user.selectOptions(screen.getByLabelText('Token'), 'ICP');
+    expect(setFilters).toHaveBeenCalledWith({ tokenType: 'ICP' });
+  });
+
+  it('should apply search and amount range after debouncing', async () => {
+    const user = userEvent.setup();
+    render(<TransactionHistory debounceMs={0} />);
+
+    await user.type(screen.getByLabelText('Search transaction descriptions'), 'grant');
+    await user.type(screen.getByLabelText('Min amount'), '12.5');
+
+    await waitFor(() =>
+      expect(setFilters).toHaveBeenLastCalledWith({
+        search: 'grant',
+        minAmount: BigInt(1250000000),
+        maxAmount: null,
+      })
+    );
+  });
+
+  it('should not apply an invalid amount range', async () => {
+    const user = userEvent.setup();
+    render(<TransactionHistory debounceMs={0} />);
+
+    await user.type(screen.getByLabelText('Min amount'), '100');
+    await user.type(screen.getByLabelText('Max amount'), '10');
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Minimum amount must not exceed maximum amount'
+    );
+    await waitFor(() =>
+      expect(setFilters).not.toHaveBeenCalledWith(
+        expect.objectContaining({ maxAmount: BigInt(1000000000) })
+      )
+    );
+  });
+
+  it('should show an empty state for filters with no matches', () => {
+    setTransactionFilters({ search: 'refund' });
+    mockHistory();
+
+    render(<TransactionHistory />);
+
+    expect(screen.getByText('No transactions match these filters')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Clear filters/ })).toBeInTheDocument();
+  });
+
+  it('should export the filtered history as CSV', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn(() => 'blob:transactions');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    vi.mocked(exportTransactionHistory).mockResolvedValue({
+      success: true,
+      content: 'Date,Type\n',
+      filename: 'treasury-transactions-2026-03-15.csv',
+      mimeType: 'text/csv;charset=utf-8;',
+      count: 0,
+      truncated: false,
+    });
+
+    render(<TransactionHistory />);
+    await user.click(screen.getByRole('button', { name: /Export CSV/ }));
+
+    expect(exportTransactionHistory).toHaveBeenCalledWith('csv');
+    await waitFor(() => expect(createObjectURL).toHaveBeenCalled());
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:transactions');
+    click.mockRestore();
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Transaction History Component
+ *
+ * Full, cursor-paged treasury ledger for finance volunteers. Filters by
+ * transaction type, token, date range and amount range, searches
+ * descriptions, and exports the filtered history as CSV or JSON.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useStore } from '@nanostores/react';
+import { AlertCircle, Clock, Download, RefreshCw, Search, X } from 'lucide-react';
+import {
+  $hasActiveTransactionFilters,
+  getTransactionTypeLabel,
+  formatTokenAmount,
+  parseTokenAmount,
+  showError,
+  showWarning,
+  TOKEN_DECIMALS,
+  type TransactionType,
+  type TransactionTokenFilter,
+} from '@/stores';
+import {
+  useTransactionHistory,
+  exportTransactionHistory,
+  type TransactionExportFormat,
+} from '../services/treasuryService';
+import { TransactionItem } from './TreasuryView';
+
+const TRANSACTION_TYPES: TransactionType[] = [
+  'deposit',
+  'withdrawal',
+  'transfer',
+  'burn',
+  'payout',
+  'escrow_release',
+];
+
+/** Accepts whole or decimal token amounts, e.g. "100" or "12.5" */
+const AMOUNT_PATTERN = /^\d+(\.\d{0,8})?$/;
+
+/**
+ * Format a ms timestamp as a local yyyy-mm-dd date input value
+ */
+function toDateInputValue(ms: number | null): string {
+  if (ms === null) return '';
+  const date = new Date(ms);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse an amount input into e8s (null when empty, undefined when invalid)
+ */
+function parseAmountInput(value: string): bigint | null | undefined {
+  const trimmed = value.trim().replace(/,/g, '');
+  if (!trimmed) return null;
+  if (!AMOUNT_PATTERN.test(trimmed)) return undefined;
+  return parseTokenAmount(trimmed, TOKEN_DECIMALS);
+}
+
+export interface TransactionHistoryProps {
+  /** Optional className for container */
+  className?: string;
+  /** Debounce delay for search and amount inputs */
+  debounceMs?: number;
+}
+
+export function TransactionHistory({
+  className = '',
+  debounceMs = 300,
+}: TransactionHistoryProps): React.ReactElement {
+  const { state, filters, hasMore, setFilters, resetFilters, loadMore, refresh } =
+    useTransactionHistory();
+  const hasActiveFilters = useStore($hasActiveTransactionFilters);
+
+  const [search, setSearch] = useState(filters.search);
+  const [minAmount, setMinAmount] = useState(
+    filters.minAmount === null ? '' : formatTokenAmount(filters.minAmount)
+  );
+  const [maxAmount, setMaxAmount] = useState(
+    filters.maxAmount === null ? '' : formatTokenAmount(filters.maxAmount)
+  );
+  const [exporting, setExporting] = useState<TransactionExportFormat | null>(null);
+  const debounceRef = useRef<NodeJS.Timeout | null>(null);
+
+  const parsedMin = parseAmountInput(minAmount);
+  const parsedMax = parseAmountInput(maxAmount);
+  const amountError =
+    parsedMin === undefined || parsedMax === undefined
+      ? 'Enter amounts as numbers, e.g. 100 or 12.5'
+      : parsedMin !== null && parsedMax !== null && parsedMin > parsedMax
+        ? 'Minimum amount must not exceed maximum amount'
+        : null;
+
+  // Debounce text inputs into the store; invalid amounts are not applied
+  useEffect(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (amountError) return;
+
+    debounceRef.current = setTimeout(() => {
+      const current = { search: filters.search, min: filters.minAmount, max: filters.maxAmount };
+      if (current.search !== search || current.min !== parsedMin || current.max !== parsedMax) {
+        setFilters({
+          search,
+          minAmount: parsedMin ?? null,
+          maxAmount: parsedMax ?? null,
+        });
+      }
+    }, debounceMs);
+
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only re-run when the inputs change
+  }, [search, minAmount, maxAmount, debounceMs]);
+
+  const toggleType = (type: TransactionType) => {
+    setFilters({
+      types: filters.types.includes(type)
+        ? filters.types.filter((t) => t !== type)
+        : [...filters.types, type],
+    });
+  };
+
+  const handleClearFilters = () => {
+    setSearch('');
+    setMinAmount('');
+    setMaxAmount('');
+    resetFilters();
+  };
+
+  const handleExport = async (format: TransactionExportFormat) => {
+    setExporting(format);
+    const result = await exportTransactionHistory(format);
+    setExporting(null);
+
+    if (!result.success || !result.content || !result.filename) {
+      showError(result.error ?? 'Failed to export transactions. Please try again.');
+      return;
+    }
+    if (result.truncated) {
+      showWarning(`Export limited to the ${result.count} most recent matching transactions.`);
+    }
+
+    // Create blob and trigger download
+    const blob = new Blob([result.content], { type: result.mimeType });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', result.filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClasses =
+    'block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500';
+  const isInitialLoad = state.isLoading && state.transactions.length === 0;
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-900">Transaction History</h2>
+        <div className="flex items-center gap-2">
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="inline-flex items-center gap-1.5 rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              <Download className="h-4 w-4" aria-hidden="true" />
+              {exporting === format ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+            </button>
+          ))}
+          <button
+            onClick={refresh}
+            disabled={state.isLoading}
+            className="p-1.5 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+            aria-label="Refresh transactions"
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${state.isLoading ? 'animate-spin' : ''}`}
+              aria-hidden="true"
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-4 p-4 border-b border-gray-100">
+        <div className="relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-4 w-4 text-gray-400" aria-hidden="true" />
+          </div>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search descriptions..."
+            aria-label="Search transaction descriptions"
+            className={`${inputClasses} pl-9`}
+          />
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 mb-2">Type</legend>
+          <div className="flex flex-wrap gap-2">
+            {TRANSACTION_TYPES.map((type) => {
+              const selected = filters.types.includes(type);
+              return (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggleType(type)}
+                  aria-pressed={selected}
+                  className={`rounded-full border px-3 py-1 text-sm transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                    selected
+                      ? 'border-teal-600 bg-teal-50 text-teal-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {getTransactionTypeLabel(type)}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+          <div>
+            <label htmlFor="tx-token" className="block text-sm font-medium text-gray-700 mb-1">
+              Token
+            </label>
+            <select
+              id="tx-token"
+              value={filters.tokenType}
+              onChange={(e) =>
+                setFilters({ tokenType: e.target.value as TransactionTokenFilter })
+              }
+              className={inputClasses}
+            >
+              <option value="all">All tokens</option>
+              <option value="DOM">DOM</option>
+              <option value="ICP">ICP</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="tx-date-from" className="block text-sm font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              id="tx-date-from"
+              type="date"
+              value={toDateInputValue(filters.dateFrom)}
+              onChange={(e) =>
+                setFilters({
+                  dateFrom: e.target.value
+                    ? new Date(`${e.target.value}T00:00:00`).getTime()
+                    : null,
+                })
+              }
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="tx-date-to" className="block text-sm font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              id="tx-date-to"
+              type="date"
+              value={toDateInputValue(filters.dateTo)}
+              onChange={(e) =>
+                setFilters({
+                  dateTo: e.target.value
+                    ? new Date(`${e.target.value}T23:59:59.999`).getTime()
+                    : null,
+                })
+              }
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="tx-min-amount" className="block text-sm font-medium text-gray-700 mb-1">
+              Min amount
+            </label>
+            <input
+              id="tx-min-amount"
+              type="text"
+              inputMode="decimal"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+              aria-invalid={parsedMin === undefined}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="tx-max-amount" className="block text-sm font-medium text-gray-700 mb-1">
+              Max amount
+            </label>
+            <input
+              id="tx-max-amount"
+              type="text"
+              inputMode="decimal"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              aria-invalid={parsedMax === undefined}
+              className={inputClasses}
+            />
+          </div>
+        </div>
+
+        {amountError && (
+          <p className="text-sm text-red-600" role="alert">
+            {amountError}
+          </p>
+        )}
+
+        {hasActiveFilters && (
+          <button
+            type="button"
+            onClick={handleClearFilters}
+            className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 hover:underline"
+          >
+            <X className="h-4 w-4" aria-hidden="true" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Transactions */}
+      <div className="p-4">
+        {state.error && (
+          <div className="mb-4 flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+            <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" aria-hidden="true" />
+            <div className="text-sm">
+              <p className="font-medium text-red-700">Failed to load transactions</p>
+              <p className="text-red-600">{state.error}</p>
+            </div>
+          </div>
+        )}
+
+        {isInitialLoad && (
+          <div className="animate-pulse space-y-3" aria-label="Loading transactions">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 rounded bg-gray-100" />
+            ))}
+          </div>
+        )}
+
+        {!isInitialLoad && !state.error && state.transactions.length === 0 && (
+          <div className="py-8 text-center">
+            <Clock className="h-8 w-8 text-gray-300 mx-auto mb-2" aria-hidden="true" />
+            <p className="text-gray-500">
+              {hasActiveFilters ? 'No transactions match these filters' : 'No transactions yet'}
+            </p>
+          </div>
+        )}
+
+        {state.transactions.length > 0 && (
+          <div className="divide-y divide-gray-100">
+            {state.transactions.map((tx) => (
+              <TransactionItem key={tx.id} transaction={tx} />
+            ))}
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={loadMore}
+              disabled={state.isLoading}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              {state.isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TransactionHistory;
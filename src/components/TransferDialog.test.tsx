@@ -0,0 +1,157 @@
+/**
+ * TransferDialog Component Tests
+ *
+ * Tests for the DOM transfer flow: recipient picker, validation, fee
+ * display and the review step.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TransferDialog } from '@/components/TransferDialog';
+import { clearContacts, clearTokenBalance, setContacts, setTokenBalance } from '@/stores';
+
+// Mock tokenService
+vi.mock('@/services/tokenService', () => ({
+  useTokenTransfer: vi.fn(),
+}));
+
+// Mock memberService
+vi.mock('@/services/memberService', () => ({
+  useMemberDirectory: vi.fn(),
+}));
+
+import { useTokenTransfer } from '@/services/tokenService';
+import { useMemberDirectory } from '@/services/memberService';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const ALICE = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+const BOB = 'ryjl3-tyaaa-aaaaa-aaaba-cai';
+
+const executeTransfer = vi.fn();
+
+function mockHooks() {
+  vi.mocked(useTokenTransfer).mockReturnValue({
+    fee: BigInt(10_000),
+    executionState: { isPending: false, isSuccess: false, lastTxIndex: null, error: null },
+    transferHistory: [],
+    pendingTransfers: [],
+    isReconciling: false,
+    executeTransfer,
+    reconcile: vi.fn(),
+    dismiss: vi.fn(),
+    resetExecution: vi.fn(),
+  });
+  vi.mocked(useMemberDirectory).mockReturnValue({
+    filteredMembers: [
+      {
+        principal: ALICE,
+        displayName: 'Alice',
+        joinDate: '2025-01-01',
+        archetype: 'Builder',
+        isActive: true,
+      },
+      {
+        principal: BOB,
+        displayName: 'Bob',
+        joinDate: '2025-02-01',
+        archetype: 'Steward',
+        isActive: true,
+      },
+    ],
+  } as unknown as ReturnType<typeof useMemberDirectory>);
+}
+
+describe('TransferDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearTokenBalance();
+    clearContacts();
+    setTokenBalance(BigInt(1_000_000_000), SELF); // 10 DOM
+    mockHooks();
+  });
+
+  it('should list approved contacts before directory members', () => {
+    setContacts(
+      [
+        {
+          id: 'c1',
+          from: SELF,
+          to: BOB,
+          message: 'Hi',
+          status: 'approved',
+          createdAt: BigInt(0),
+        },
+      ],
+      []
+    );
+
+    render(<TransferDialog onClose={vi.fn()} />);
+
+    const options = screen.getAllByRole('button', { pressed: false });
+    expect(options[0]).toHaveTextContent('Bob');
+    expect(options[1]).toHaveTextContent('Alice');
+  });
+
+  it('should show the fee and validate the amount against balance plus fee', async () => {
+    const user = userEvent.setup();
+    render(<TransferDialog onClose={vi.fn()} />);
+
+    expect(screen.getByText('Network fee: 0.0001 DOM')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /Alice/ }));
+    await user.type(screen.getByLabelText('Amount'), '10');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Maximum transfer is 9.99 DOM');
+    expect(screen.getByRole('button', { name: 'Review' })).toBeDisabled();
+  });
+
+  it('should reject an invalid principal', async () => {
+    const user = userEvent.setup();
+    render(<TransferDialog onClose={vi.fn()} />);
+
+    await user.type(screen.getByLabelText('Recipient principal'), 'not-a-principal');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid principal');
+  });
+
+  it('should review and send the transfer with memo', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    executeTransfer.mockResolvedValue({ success: true, txIndex: '12' });
+    render(<TransferDialog onClose={onClose} />);
+
+    await user.click(screen.getByRole('button', { name: /Alice/ }));
+    await user.type(screen.getByLabelText('Amount'), '2.5');
+    await user.type(screen.getByLabelText('Memo (optional)'), 'Lunch');
+    await user.click(screen.getByRole('button', { name: 'Review' }));
+
+    expect(screen.getByText('Review transfer')).toBeInTheDocument();
+    expect(screen.getByText('Total').nextSibling).toHaveTextContent('2.5001 DOM');
+    expect(screen.getByText('Recipient').nextSibling).toHaveTextContent('Alice');
+
+    await user.click(screen.getByRole('button', { name: 'Send DOM' }));
+
+    expect(executeTransfer).toHaveBeenCalledWith({
+      to: ALICE,
+      toSubaccount: '',
+      amount: BigInt(250_000_000),
+      memo: 'Lunch',
+    });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('should stay open when the transfer fails', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    executeTransfer.mockResolvedValue({ success: false, error: 'InsufficientFunds' });
+    render(<TransferDialog onClose={onClose} />);
+
+    await user.click(screen.getByRole('button', { name: /Alice/ }));
+    await user.type(screen.getByLabelText('Amount'), '1');
+    await user.click(screen.getByRole('button', { name: 'Review' }));
+    await user.click(screen.getByRole('button', { name: 'Send DOM' }));
+
+    expect(onClose).not.toHaveBeenCalled();
+    expect(screen.getByText('Review transfer')).toBeInTheDocument();
+  });
+});
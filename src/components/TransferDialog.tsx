@@ -0,0 +1,343 @@
+/**
+ * Transfer Dialog
+ *
+ * Sends DOM to another member. The recipient is picked from approved
+ * contacts and the member directory, or entered as a principal with an
+ * optional subaccount. A review step shows the ledger fee and total before
+ * the transfer is submitted.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { Send, UserCheck, Users } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  $approvedContacts,
+  $tokenBalance,
+  buildTransferRecipients,
+  formatExactTokenAmount,
+  formatTokenAmount,
+  getMaxTransferAmount,
+  parseTokenAmount,
+  showError,
+  showSuccess,
+  validateTransferAmount,
+  validateTransferMemo,
+  validateTransferRecipient,
+  MAX_TRANSFER_MEMO_BYTES,
+  TOKEN_DECIMALS,
+} from '@/stores';
+import { useTokenTransfer } from '../services/tokenService';
+import { useMemberDirectory } from '../services/memberService';
+
+/** Recipients shown in the picker at once */
+const MAX_PICKER_RECIPIENTS = 6;
+
+const inputClasses =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500';
+
+function truncatePrincipal(principal: string): string {
+  return principal.length > 20 ? `${principal.slice(0, 11)}...${principal.slice(-5)}` : principal;
+}
+
+export interface TransferDialogProps {
+  onClose: () => void;
+}
+
+export function TransferDialog({ onClose }: TransferDialogProps): React.ReactElement {
+  const [step, setStep] = useState<'details' | 'review'>('details');
+  const [search, setSearch] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [subaccount, setSubaccount] = useState('');
+  const [amountInput, setAmountInput] = useState('');
+  const [memo, setMemo] = useState('');
+
+  const { balance, principal: selfPrincipal } = useStore($tokenBalance);
+  const approvedContacts = useStore($approvedContacts);
+  const { filteredMembers } = useMemberDirectory({ autoFetch: true });
+  const { fee, executionState, executeTransfer } = useTokenTransfer();
+
+  const recipients = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return buildTransferRecipients(approvedContacts, filteredMembers, selfPrincipal).filter(
+      (r) =>
+        !query ||
+        r.displayName.toLowerCase().includes(query) ||
+        r.principal.toLowerCase().includes(query)
+    );
+  }, [approvedContacts, filteredMembers, selfPrincipal, search]);
+  const selectedName = recipients.find((r) => r.principal === recipient.trim())?.displayName;
+
+  const amount = /^\d*\.?\d{0,8}$/.test(amountInput)
+    ? parseTokenAmount(amountInput || '0', TOKEN_DECIMALS)
+    : BigInt(0);
+  const maxAmount = getMaxTransferAmount(balance, fee);
+  const recipientError = recipient
+    ? validateTransferRecipient(recipient, subaccount, selfPrincipal)
+    : null;
+  const amountError = amountInput ? validateTransferAmount(amount, balance, fee) : null;
+  const memoError = validateTransferMemo(memo);
+  const validationError = recipientError ?? amountError ?? memoError;
+  const canReview = !!recipient && amount > BigInt(0) && !validationError;
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow empty, digits, single decimal, and up to 8 decimal places
+    if (value === '' || /^\d*\.?\d{0,8}$/.test(value)) {
+      setAmountInput(value);
+    }
+  };
+
+  const handleMaxClick = () => {
+    if (maxAmount > BigInt(0)) {
+      setAmountInput(formatExactTokenAmount(maxAmount).replace(/,/g, ''));
+    }
+  };
+
+  const handleSend = async () => {
+    const result = await executeTransfer({
+      to: recipient,
+      toSubaccount: subaccount,
+      amount,
+      memo,
+    });
+
+    if (result.success) {
+      showSuccess(`Sent ${formatTokenAmount(amount, TOKEN_DECIMALS)} DOM`);
+      onClose();
+    } else {
+      showError(result.error ?? 'Something went wrong. Please try again.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="transfer-dialog-title"
+    >
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full mx-4 p-6 max-h-[90vh] overflow-y-auto">
+        <h2
+          id="transfer-dialog-title"
+          className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2"
+        >
+          <Send className="h-5 w-5 text-teal-600" aria-hidden="true" />
+          {step === 'details' ? 'Send DOM' : 'Review transfer'}
+        </h2>
+
+        {step === 'details' ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canReview) setStep('review');
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <label htmlFor="transfer-search" className="block text-sm font-medium text-gray-900 mb-1">
+                Search members
+              </label>
+              <input
+                id="transfer-search"
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Name or principal"
+                className={inputClasses}
+              />
+              {recipients.length > 0 ? (
+                <ul className="mt-2 space-y-1" aria-label="Recipients">
+                  {recipients.slice(0, MAX_PICKER_RECIPIENTS).map((r) => (
+                    <li key={r.principal}>
+                      <button
+                        type="button"
+                        onClick={() => setRecipient(r.principal)}
+                        aria-pressed={recipient.trim() === r.principal}
+                        className="w-full flex items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-gray-50 aria-pressed:bg-teal-50 aria-pressed:ring-1 aria-pressed:ring-teal-500"
+                      >
+                        <span className="flex items-center gap-2 min-w-0">
+                          {r.source === 'contact' ? (
+                            <UserCheck className="h-4 w-4 text-teal-600" aria-hidden="true" />
+                          ) : (
+                            <Users className="h-4 w-4 text-gray-400" aria-hidden="true" />
+                          )}
+                          <span className="truncate text-gray-900">{r.displayName}</span>
+                        </span>
+                        <span className="font-mono text-xs text-gray-500">
+                          {truncatePrincipal(r.principal)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-2 text-sm text-gray-500">No matching members.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 gap-4">
+              <div>
+                <label
+                  htmlFor="transfer-recipient"
+                  className="block text-sm font-medium text-gray-900 mb-1"
+                >
+                  Recipient principal
+                </label>
+                <input
+                  id="transfer-recipient"
+                  type="text"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  className={`${inputClasses} font-mono`}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="transfer-subaccount"
+                  className="block text-sm font-medium text-gray-900 mb-1"
+                >
+                  Subaccount (optional)
+                </label>
+                <input
+                  id="transfer-subaccount"
+                  type="text"
+                  value={subaccount}
+                  onChange={(e) => setSubaccount(e.target.value)}
+                  placeholder="64 hexadecimal characters"
+                  className={`${inputClasses} font-mono`}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="transfer-amount"
+                  className="block text-sm font-medium text-gray-900 mb-1"
+                >
+                  Amount
+                </label>
+                <div className="relative">
+                  <input
+                    id="transfer-amount"
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="0.00"
+                    value={amountInput}
+                    onChange={handleAmountChange}
+                    className={`${inputClasses} pr-20`}
+                  />
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-2">
+                    <span className="text-sm text-gray-500">DOM</span>
+                    <button
+                      type="button"
+                      onClick={handleMaxClick}
+                      disabled={maxAmount <= BigInt(0)}
+                      className="text-xs font-medium text-teal-600 hover:text-teal-800 disabled:opacity-50"
+                    >
+                      MAX
+                    </button>
+                  </div>
+                </div>
+                <div className="flex justify-between mt-1 text-xs text-gray-500">
+                  <span>Balance: {formatTokenAmount(balance, TOKEN_DECIMALS)} DOM</span>
+                  <span>Network fee: {formatExactTokenAmount(fee)} DOM</span>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="transfer-memo" className="block text-sm font-medium text-gray-900 mb-1">
+                  Memo (optional)
+                </label>
+                <input
+                  id="transfer-memo"
+                  type="text"
+                  value={memo}
+                  onChange={(e) => setMemo(e.target.value)}
+                  placeholder={`Up to ${MAX_TRANSFER_MEMO_BYTES} bytes`}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+
+            {validationError && (
+              <p className="text-sm text-red-600" role="alert">
+                {validationError}
+              </p>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <Button type="button" variant="outline" onClick={onClose} className="min-h-[44px]">
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!canReview}
+                className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+              >
+                Review
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm mb-4">
+              <dt className="text-gray-500">Recipient</dt>
+              <dd className="text-right text-gray-900 break-all">
+                {selectedName && <span className="block font-medium">{selectedName}</span>}
+                <span className="font-mono text-xs">{recipient.trim()}</span>
+              </dd>
+              {subaccount.trim() && (
+                <>
+                  <dt className="text-gray-500">Subaccount</dt>
+                  <dd className="text-right font-mono text-xs text-gray-900 break-all">
+                    {subaccount.trim()}
+                  </dd>
+                </>
+              )}
+              <dt className="text-gray-500">Amount</dt>
+              <dd className="text-right font-semibold text-gray-900">
+                {formatExactTokenAmount(amount)} DOM
+              </dd>
+              <dt className="text-gray-500">Fee</dt>
+              <dd className="text-right text-gray-900">{formatExactTokenAmount(fee)} DOM</dd>
+              <dt className="text-gray-500">Total</dt>
+              <dd className="text-right font-semibold text-gray-900">
+                {formatExactTokenAmount(amount + fee)} DOM
+              </dd>
+              {memo && (
+                <>
+                  <dt className="text-gray-500">Memo</dt>
+                  <dd className="text-right text-gray-900 break-all">{memo}</dd>
+                </>
+              )}
+            </dl>
+
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+              <p className="text-amber-800 text-sm">
+                Transfers are final. Check the recipient before sending.
+              </p>
+            </div>
+
+            <div className="flex gap-3 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setStep('details')}
+                disabled={executionState.isPending}
+                className="min-h-[44px]"
+              >
+                Back
+              </Button>
+              <Button
+                onClick={handleSend}
+                disabled={executionState.isPending}
+                className="min-h-[44px] text-white bg-teal-600 hover:bg-teal-700"
+              >
+                {executionState.isPending ? 'Sending...' : 'Send DOM'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TransferDialog;
@@ -0,0 +1,146 @@
+/**
+ * TreasuryAnalytics Component Tests
+ *
+ * Tests for the treasury analytics charts and their table fallbacks.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TreasuryAnalytics } from '@/components/TreasuryAnalytics';
+import {
+  $treasuryLedger,
+  $treasuryAnalytics,
+  clearTreasury,
+  clearTreasuryLedger,
+  setTreasuryData,
+  setTreasuryLedger,
+  setTreasuryLedgerError,
+  type Transaction,
+} from '@/stores';
+
+// Mock treasuryService
+vi.mock('@/services/treasuryService', () => ({
+  useTreasuryAnalytics: vi.fn(),
+}));
+
+import { useTreasuryAnalytics } from '@/services/treasuryService';
+
+const DOM = BigInt(100_000_000);
+const refresh = vi.fn();
+
+function monthsAgo(months: number): bigint {
+  const date = new Date();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() - months);
+  return BigInt(date.getTime()) * BigInt(1_000_000);
+}
+
+function tx(id: string, type: Transaction['type'], dom: number, months: number): Transaction {
+  return { id, type, amount: BigInt(dom) * DOM, timestamp: monthsAgo(months), tokenType: 'DOM' };
+}
+
+function mockAnalytics() {
+  vi.mocked(useTreasuryAnalytics).mockImplementation(() => ({
+    ledger: $treasuryLedger.get(),
+    analytics: $treasuryAnalytics.get(),
+    refresh,
+  }));
+}
+
+describe('TreasuryAnalytics', () => {
+  beforeEach(() => {
+    clearTreasury();
+    clearTreasuryLedger();
+    vi.clearAllMocks();
+    setTreasuryData(
+      {
+        icpBalance: BigInt(0),
+        domBalance: BigInt(600) * DOM,
+        pendingPayoutsIcp: BigInt(0),
+        pendingPayoutsDom: BigInt(0),
+        activeEscrowsIcp: BigInt(0),
+        activeEscrowsDom: BigInt(0),
+      },
+      []
+    );
+    setTreasuryLedger(
+      [
+        tx('1', 'deposit', 1200, 3),
+        tx('2', 'payout', 200, 2),
+        tx('3', 'payout', 200, 1),
+        tx('4', 'burn', 200, 0),
+      ],
+      false
+    );
+    mockAnalytics();
+  });
+
+  it('should show balance, burn rate and runway', () => {
+    render(<TreasuryAnalytics />);
+
+    expect(screen.getByText('600.00 DOM')).toBeInTheDocument();
+    // Last three complete months: +1200, -200, -200 — the treasury is growing
+    expect(screen.getByText('Not burning')).toBeInTheDocument();
+    expect(screen.getByText('No projected end')).toBeInTheDocument();
+    expect(screen.getByText('-200.00 DOM')).toBeInTheDocument();
+  });
+
+  it('should label each chart for screen readers', () => {
+    render(<TreasuryAnalytics />);
+
+    expect(
+      screen.getByRole('img', { name: /DOM balance from .* ending at 600.00 DOM/ })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('img', { name: /Total inflow 1,200.00 DOM, total outflow 600.00 DOM/ })
+    ).toBeInTheDocument();
+  });
+
+  it('should switch a chart to its data table', async () => {
+    const user = userEvent.setup();
+    render(<TreasuryAnalytics />);
+
+    const balanceFigure = screen.getByRole('figure', { name: 'Balance over time' });
+    await user.click(within(balanceFigure).getByRole('button', { name: 'View as table' }));
+
+    const table = within(balanceFigure).getByRole('table', { name: 'Month-end DOM balance' });
+    const rows = within(table).getAllByRole('row');
+    expect(rows).toHaveLength(5); // header + 4 months
+    expect(within(rows[1]).getByRole('cell')).toHaveTextContent('1,200.00');
+    expect(within(rows[4]).getByRole('cell')).toHaveTextContent('600.00');
+    expect(within(balanceFigure).queryByRole('img')).not.toBeInTheDocument();
+  });
+
+  it('should break down volume by transaction type', async () => {
+    const user = userEvent.setup();
+    render(<TreasuryAnalytics />);
+
+    const figure = screen.getByRole('figure', { name: 'Volume by transaction type' });
+    await user.click(within(figure).getByRole('button', { name: 'View as table' }));
+
+    const payoutRow = within(figure).getByRole('row', { name: /Payout/ });
+    expect(payoutRow).toHaveTextContent('2');
+    expect(payoutRow).toHaveTextContent('400.00');
+  });
+
+  it('should show an empty state for a token without activity', async () => {
+    const user = userEvent.setup();
+    render(<TreasuryAnalytics />);
+
+    await user.click(screen.getByRole('button', { name: 'ICP' }));
+
+    expect(
+      screen.getByText('No ICP transactions in the treasury ledger yet')
+    ).toBeInTheDocument();
+  });
+
+  it('should show ledger errors', () => {
+    setTreasuryLedgerError('Request timeout');
+    mockAnalytics();
+
+    render(<TreasuryAnalytics />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Request timeout');
+  });
+});
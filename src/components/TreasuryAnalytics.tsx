@@ -0,0 +1,474 @@
+/**
+ * Treasury Analytics Component
+ *
+ * Charts reconstructed from the treasury ledger: balance over time,
+ * monthly inflow/outflow, burn rate and runway, and volume by transaction
+ * type. Every chart can be switched to a data table for screen reader and
+ * keyboard users.
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, BarChart3, RefreshCw, Table } from 'lucide-react';
+import {
+  formatTokenAmount,
+  getTransactionTypeLabel,
+  TOKEN_DECIMALS,
+  BURN_RATE_WINDOW_MONTHS,
+  type MonthlyTreasuryFlow,
+  type TokenAnalytics,
+  type TransactionType,
+  type TransactionTypeBreakdown,
+  type TreasuryToken,
+} from '@/stores';
+import { useTreasuryAnalytics } from '../services/treasuryService';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 8;
+
+const TYPE_BAR_COLORS: Record<TransactionType, string> = {
+  deposit: 'bg-green-500',
+  withdrawal: 'bg-red-500',
+  transfer: 'bg-blue-500',
+  burn: 'bg-orange-500',
+  payout: 'bg-purple-500',
+  escrow_release: 'bg-teal-500',
+};
+
+/**
+ * Format a month key (e.g. "2026-03") as "Mar 2026"
+ */
+function formatMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Convert e8s to a plain number for chart scaling
+ */
+function toChartValue(e8s: bigint): number {
+  return Number(e8s) / 10 ** TOKEN_DECIMALS;
+}
+
+/**
+ * Format a signed e8s amount with an explicit sign
+ */
+function formatSigned(e8s: bigint): string {
+  const zero = BigInt(0);
+  return e8s < zero ? `-${formatTokenAmount(-e8s)}` : `+${formatTokenAmount(e8s)}`;
+}
+
+// ============================================================================
+// Chart Figure (chart with table fallback)
+// ============================================================================
+
+interface ChartFigureProps {
+  id: string;
+  title: string;
+  description: string;
+  chart: React.ReactNode;
+  table: React.ReactNode;
+}
+
+function ChartFigure({ id, title, description, chart, table }: ChartFigureProps) {
+  const [showTable, setShowTable] = useState(false);
+
+  return (
+    <figure className="rounded-lg border border-gray-200 bg-white p-4" aria-labelledby={id}>
+      <div className="mb-3 flex items-start justify-between gap-3">
+        <div>
+          <figcaption id={id} className="font-medium text-gray-900">
+            {title}
+          </figcaption>
+          <p className="text-sm text-gray-500">{description}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowTable(!showTable)}
+          className="inline-flex items-center gap-1.5 whitespace-nowrap rounded-md border border-gray-300 px-2.5 py-1 text-sm text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        >
+          {showTable ? (
+            <BarChart3 className="h-4 w-4" aria-hidden="true" />
+          ) : (
+            <Table className="h-4 w-4" aria-hidden="true" />
+          )}
+          {showTable ? 'View as chart' : 'View as table'}
+        </button>
+      </div>
+      {showTable ? <div className="overflow-x-auto">{table}</div> : chart}
+    </figure>
+  );
+}
+
+interface DataTableProps {
+  caption: string;
+  headers: string[];
+  rows: React.ReactNode[][];
+}
+
+function DataTable({ caption, headers, rows }: DataTableProps) {
+  return (
+    <table className="w-full text-sm">
+      <caption className="sr-only">{caption}</caption>
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-gray-600">
+          {headers.map((header, i) => (
+            <th
+              key={header}
+              scope="col"
+              className={`py-2 font-medium ${i > 0 ? 'text-right' : ''}`}
+            >
+              {header}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((cells, r) => (
+          <tr key={r} className="border-b border-gray-100 last:border-b-0">
+            {cells.map((cell, i) =>
+              i === 0 ? (
+                <th key={i} scope="row" className="py-2 text-left font-normal text-gray-900">
+                  {cell}
+                </th>
+              ) : (
+                <td key={i} className="py-2 text-right tabular-nums text-gray-700">
+                  {cell}
+                </td>
+              )
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ============================================================================
+// Charts
+// ============================================================================
+
+interface MonthlyChartProps {
+  monthly: MonthlyTreasuryFlow[];
+  token: string;
+}
+
+function BalanceChart({ monthly, token }: MonthlyChartProps) {
+  const values = monthly.map((m) => toChartValue(m.closingBalance));
+  const max = Math.max(...values, 0);
+  const min = Math.min(...values, 0);
+  const range = max - min || 1;
+  const step = monthly.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (monthly.length - 1) : 0;
+  const y = (v: number) =>
+    CHART_PADDING + (1 - (v - min) / range) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const points = values.map((v, i) => `${CHART_PADDING + i * step},${y(v)}`).join(' ');
+  const last = monthly[monthly.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-48 w-full"
+        role="img"
+        aria-label={`${token} balance from ${formatMonth(monthly[0].month)} to ${formatMonth(
+          last.month
+        )}, ending at ${formatTokenAmount(last.closingBalance)} ${token}`}
+      >
+        <line
+          x1={CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-gray-200"
+        />
+        <polyline points={points} fill="none" className="stroke-teal-600" strokeWidth={2} />
+        {values.map((v, i) => (
+          <circle key={i} cx={CHART_PADDING + i * step} cy={y(v)} r={3} className="fill-teal-600" />
+        ))}
+      </svg>
+      <div className="mt-1 flex justify-between text-xs text-gray-500" aria-hidden="true">
+        <span>{formatMonth(monthly[0].month)}</span>
+        <span>{formatMonth(last.month)}</span>
+      </div>
+    </div>
+  );
+}
+
+function FlowChart({ monthly, token }: MonthlyChartProps) {
+  const max = Math.max(
+    ...monthly.flatMap((m) => [toChartValue(m.inflow), toChartValue(m.outflow)])
+  );
+  const scale = max > 0 ? (CHART_HEIGHT - CHART_PADDING) / max : 0;
+  const slot = CHART_WIDTH / monthly.length;
+  const barWidth = Math.max(2, slot / 2 - 4);
+  const totalIn = monthly.reduce((sum, m) => sum + m.inflow, BigInt(0));
+  const totalOut = monthly.reduce((sum, m) => sum + m.outflow, BigInt(0));
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-48 w-full"
+        role="img"
+        aria-label={`Monthly ${token} inflow and outflow. Total inflow ${formatTokenAmount(
+          totalIn
+        )} ${token}, total outflow ${formatTokenAmount(totalOut)} ${token}`}
+      >
+        {monthly.map((m, i) => {
+          const inflow = toChartValue(m.inflow) * scale;
+          const outflow = toChartValue(m.outflow) * scale;
+          const x = i * slot + 2;
+          return (
+            <g key={m.month}>
+              <rect
+                x={x}
+                y={CHART_HEIGHT - inflow}
+                width={barWidth}
+                height={inflow}
+                className="fill-green-500"
+              />
+              <rect
+                x={x + barWidth + 2}
+                y={CHART_HEIGHT - outflow}
+                width={barWidth}
+                height={outflow}
+                className="fill-red-500"
+              />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="mt-2 flex gap-4 text-xs text-gray-600" aria-hidden="true">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full bg-green-500" /> Inflow
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full bg-red-500" /> Outflow
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface BreakdownChartProps {
+  breakdown: TransactionTypeBreakdown[];
+  token: string;
+}
+
+function BreakdownChart({ breakdown, token }: BreakdownChartProps) {
+  return (
+    <ul className="space-y-3">
+      {breakdown.map((entry) => (
+        <li key={entry.type}>
+          <div className="mb-1 flex justify-between text-sm">
+            <span className="text-gray-700">{getTransactionTypeLabel(entry.type)}</span>
+            <span className="tabular-nums text-gray-600">
+              {formatTokenAmount(entry.amount)} {token} ({entry.percentage.toFixed(1)}%)
+            </span>
+          </div>
+          <div className="h-2.5 w-full overflow-hidden rounded-full bg-gray-100" aria-hidden="true">
+            <div
+              className={`h-full ${TYPE_BAR_COLORS[entry.type]}`}
+              style={{ width: `${entry.percentage}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+interface SummaryCardsProps {
+  analytics: TokenAnalytics;
+}
+
+function SummaryCards({ analytics }: SummaryCardsProps) {
+  const token = analytics.tokenType;
+  const currentMonth = analytics.monthly[analytics.monthly.length - 1];
+
+  const cards = [
+    { label: 'Current balance', value: `${formatTokenAmount(analytics.currentBalance)} ${token}` },
+    {
+      label: 'Net this month',
+      value: currentMonth ? `${formatSigned(currentMonth.net)} ${token}` : '—',
+    },
+    {
+      label: 'Burn rate',
+      value:
+        analytics.burnRate > BigInt(0)
+          ? `${formatTokenAmount(analytics.burnRate)} ${token}/month`
+          : 'Not burning',
+      hint: `Average net outflow over the last ${BURN_RATE_WINDOW_MONTHS} complete months`,
+    },
+    {
+      label: 'Runway',
+      value:
+        analytics.runwayMonths === null
+          ? 'No projected end'
+          : `${analytics.runwayMonths.toFixed(1)} months`,
+      hint: 'Current balance divided by the burn rate',
+    },
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+      {cards.map((card) => (
+        <div key={card.label} className="rounded-lg border border-gray-200 bg-white p-4">
+          <dt className="text-sm text-gray-500">{card.label}</dt>
+          <dd className="mt-1 text-lg font-semibold tabular-nums text-gray-900">{card.value}</dd>
+          {card.hint && <dd className="mt-1 text-xs text-gray-400">{card.hint}</dd>}
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export interface TreasuryAnalyticsProps {
+  /** Optional className for container */
+  className?: string;
+}
+
+export function TreasuryAnalytics({ className = '' }: TreasuryAnalyticsProps): React.ReactElement {
+  const { ledger, analytics, refresh } = useTreasuryAnalytics();
+  const [token, setToken] = useState<TreasuryToken>('DOM');
+  const tokenAnalytics = analytics[token];
+  const hasActivity = tokenAnalytics.breakdown.length > 0 && tokenAnalytics.monthly.length > 0;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex rounded-md border border-gray-300 bg-white p-0.5" role="group">
+          {(['DOM', 'ICP'] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setToken(t)}
+              aria-pressed={token === t}
+              className={`rounded px-4 py-1.5 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                token === t ? 'bg-teal-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={ledger.isLoading}
+          className="inline-flex items-center gap-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${ledger.isLoading ? 'animate-spin' : ''}`}
+            aria-hidden="true"
+          />
+          {ledger.isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {ledger.error && (
+        <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+          <AlertCircle className="h-5 w-5 flex-shrink-0 text-red-500" aria-hidden="true" />
+          <div className="text-sm">
+            <p className="font-medium text-red-700">Failed to load the treasury ledger</p>
+            <p className="text-red-600">{ledger.error}</p>
+          </div>
+        </div>
+      )}
+
+      {ledger.truncated && (
+        <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          The ledger is longer than the analytics limit; older transactions are not included.
+        </p>
+      )}
+
+      {ledger.isLoading && ledger.lastUpdated === null ? (
+        <div className="animate-pulse space-y-4" aria-label="Loading treasury analytics">
+          <div className="h-24 rounded-lg bg-gray-200" />
+          <div className="h-56 rounded-lg bg-gray-200" />
+        </div>
+      ) : (
+        <>
+          <SummaryCards analytics={tokenAnalytics} />
+
+          {!hasActivity ? (
+            <p className="rounded-lg border border-gray-200 bg-white py-8 text-center text-gray-500">
+              No {token} transactions in the treasury ledger yet
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <ChartFigure
+                id="treasury-balance-chart"
+                title="Balance over time"
+                description={`Month-end ${token} balance, reconstructed from the ledger`}
+                chart={<BalanceChart monthly={tokenAnalytics.monthly} token={token} />}
+                table={
+                  <DataTable
+                    caption={`Month-end ${token} balance`}
+                    headers={['Month', `Balance (${token})`]}
+                    rows={tokenAnalytics.monthly.map((m) => [
+                      formatMonth(m.month),
+                      formatTokenAmount(m.closingBalance),
+                    ])}
+                  />
+                }
+              />
+
+              <ChartFigure
+                id="treasury-flow-chart"
+                title="Monthly inflow and outflow"
+                description={`${token} received and spent each month`}
+                chart={<FlowChart monthly={tokenAnalytics.monthly} token={token} />}
+                table={
+                  <DataTable
+                    caption={`Monthly ${token} inflow and outflow`}
+                    headers={['Month', 'Inflow', 'Outflow', 'Net']}
+                    rows={tokenAnalytics.monthly.map((m) => [
+                      formatMonth(m.month),
+                      formatTokenAmount(m.inflow),
+                      formatTokenAmount(m.outflow),
+                      formatSigned(m.net),
+                    ])}
+                  />
+                }
+              />
+
+              <ChartFigure
+                id="treasury-breakdown-chart"
+                title="Volume by transaction type"
+                description={`Share of all ${token} moved through the treasury`}
+                chart={<BreakdownChart breakdown={tokenAnalytics.breakdown} token={token} />}
+                table={
+                  <DataTable
+                    caption={`${token} volume by transaction type`}
+                    headers={['Type', 'Transactions', `Amount (${token})`, 'Share']}
+                    rows={tokenAnalytics.breakdown.map((entry) => [
+                      getTransactionTypeLabel(entry.type),
+                      entry.count,
+                      formatTokenAmount(entry.amount),
+                      `${entry.percentage.toFixed(1)}%`,
+                    ])}
+                  />
+                }
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TreasuryAnalytics;
@@ -9,6 +9,7 @@
  */
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { useStore } from '@nanostores/react';
 import {
   RefreshCw,
@@ -193,11 +194,11 @@ function TransactionIcon({ type }: TransactionIconProps): React.ReactElement {
 // Transaction List Item
 // ============================================================================
 
-interface TransactionItemProps {
+export interface TransactionItemProps {
   transaction: Transaction;
 }
 
-function TransactionItem({ transaction }: TransactionItemProps): React.ReactElement {
+export function TransactionItem({ transaction }: TransactionItemProps): React.ReactElement {
   const formattedAmount = formatTokenAmount(transaction.amount, TOKEN_DECIMALS);
   const formattedTime = formatTimestamp(transaction.timestamp);
   const typeLabel = getTransactionTypeLabel(transaction.type);
@@ -279,6 +280,8 @@ export interface TreasuryViewProps {
   showTransactions?: boolean;
   /** Compact mode for smaller display */
   compact?: boolean;
+  /** Show links to the full transaction history and analytics (requires a router) */
+  showHistoryLink?: boolean;
 }
 
 export function TreasuryView({
@@ -287,6 +290,7 @@ export function TreasuryView({
   showIcpBreakdown = true,
   showTransactions = true,
   compact = false,
+  showHistoryLink = false,
 }: TreasuryViewProps): React.ReactElement {
   const transactions = useStore($treasuryTransactions);
   const formattedDomBalance = useStore($formattedDomBalance);
@@ -392,7 +396,25 @@ export function TreasuryView({
             {/* Recent Transactions */}
             {showTransactions && (
               <div>
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Transactions</h4>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium text-gray-700">Recent Transactions</h4>
+                  {showHistoryLink && (
+                    <div className="flex items-center gap-3">
+                      <Link
+                        to="/treasury/analytics"
+                        className="text-sm font-medium text-teal-600 hover:text-teal-700 hover:underline"
+                      >
+                        Analytics
+                      </Link>
+                      <Link
+                        to="/treasury/transactions"
+                        className="text-sm font-medium text-teal-600 hover:text-teal-700 hover:underline"
+                      >
+                        View all
+                      </Link>
+                    </div>
+                  )}
+                </div>
                 <TransactionList transactions={transactions} />
               </div>
             )}
@@ -0,0 +1,144 @@
+/**
+ * WalletActivity Component Tests
+ *
+ * Tests for the member's ledger transaction list, filters and CSV export.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { WalletActivity } from '@/components/WalletActivity';
+import {
+  $hasActiveWalletActivityFilters,
+  clearWalletActivity,
+  setWalletActivityFilters,
+  type WalletTransaction,
+} from '@/stores';
+
+// Mock walletActivityService
+vi.mock('@/services/walletActivityService', () => ({
+  useWalletActivity: vi.fn(),
+  exportWalletActivity: vi.fn(),
+}));
+
+import { useWalletActivity, exportWalletActivity } from '@/services/walletActivityService';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const ALICE = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+
+const setFilters = vi.fn();
+const loadMore = vi.fn();
+
+function createTransaction(overrides: Partial<WalletTransaction> = {}): WalletTransaction {
+  return {
+    id: '1',
+    type: 'transfer',
+    direction: 'outgoing',
+    amount: BigInt(150_000_000), // 1.5 DOM
+    fee: BigInt(10_000),
+    counterparty: ALICE,
+    timestamp: BigInt(Date.now()) * BigInt(1_000_000),
+    ...overrides,
+  };
+}
+
+function mockHook(transactions: WalletTransaction[], nextCursor: string | null = null) {
+  vi.mocked(useWalletActivity).mockReturnValue({
+    state: {
+      principal: SELF,
+      transactions,
+      nextCursor,
+      lastUpdated: Date.now(),
+      isLoading: false,
+      error: null,
+    },
+    transactions,
+    filters: { direction: 'all', types: [] },
+    hasMore: nextCursor !== null,
+    setFilters,
+    resetFilters: vi.fn(),
+    loadMore,
+    refresh: vi.fn(),
+  });
+}
+
+describe('WalletActivity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearWalletActivity();
+  });
+
+  it('should show signed amounts and counterparties', () => {
+    mockHook([
+      createTransaction({ id: '5' }),
+      createTransaction({ id: '4', direction: 'incoming', fee: undefined }),
+      createTransaction({ id: '3', type: 'mint', direction: 'incoming', fee: undefined }),
+    ]);
+
+    render(<WalletActivity principal={SELF} />);
+
+    expect(screen.getByText('-1.50 DOM')).toBeInTheDocument();
+    expect(screen.getAllByText('+1.50 DOM')).toHaveLength(2);
+    expect(screen.getByText('To rrkah-fqaaa...q-cai')).toBeInTheDocument();
+    expect(screen.getByText('From rrkah-fqaaa...q-cai')).toBeInTheDocument();
+    expect(screen.getByText('Minted to you')).toBeInTheDocument();
+  });
+
+  it('should update direction and type filters', async () => {
+    const user = userEvent.setup();
+    mockHook([createTransaction()]);
+
+    render(<WalletActivity principal={SELF} />);
+
+    await user.selectOptions(screen.getByLabelText('Direction'), 'incoming');
+    expect(setFilters).toHaveBeenCalledWith({ direction: 'incoming' });
+
+    await user.click(screen.getByRole('button', { name: 'Burn' }));
+    expect(setFilters).toHaveBeenCalledWith({ types: ['burn'] });
+  });
+
+  it('should show the filtered empty state and load more pages', async () => {
+    const user = userEvent.setup();
+    setWalletActivityFilters({ types: ['approve'] });
+    expect($hasActiveWalletActivityFilters.get()).toBe(true);
+    mockHook([], '20');
+
+    render(<WalletActivity principal={SELF} />);
+
+    expect(screen.getByText('No transactions match these filters')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Load more' }));
+    expect(loadMore).toHaveBeenCalled();
+  });
+
+  it('should export the activity as CSV', async () => {
+    const user = userEvent.setup();
+    mockHook([createTransaction()]);
+    vi.mocked(exportWalletActivity).mockResolvedValue({
+      success: true,
+      content: 'Date,Type\n',
+      filename: 'wallet-activity-2026-01-01.csv',
+      count: 1,
+      truncated: false,
+    });
+    const createObjectURL = vi.fn(() => 'blob:wallet');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+
+    render(<WalletActivity principal={SELF} />);
+    await user.click(screen.getByRole('button', { name: 'Export CSV' }));
+
+    expect(exportWalletActivity).toHaveBeenCalledWith(SELF);
+    expect(createObjectURL).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:wallet');
+  });
+
+  it('should ask to link Internet Identity without a principal', () => {
+    mockHook([]);
+
+    render(<WalletActivity principal={null} />);
+
+    expect(
+      screen.getByText('Link Internet Identity to view your wallet activity.')
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Wallet Activity Component
+ *
+ * The member's own DOM transactions as recorded by the ledger: transfers in
+ * and out, mints, burns and approvals. Cursor-paged, filterable by direction
+ * and type, and exportable as CSV.
+ */
+
+import React, { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  AlertCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Clock,
+  Download,
+  Flame,
+  KeyRound,
+  RefreshCw,
+  Repeat,
+  Sparkles,
+  X,
+} from 'lucide-react';
+import {
+  $hasActiveWalletActivityFilters,
+  formatExactTokenAmount,
+  formatTimestamp,
+  formatTokenAmount,
+  getWalletActivityTypeLabel,
+  getWalletBalanceChange,
+  showError,
+  showWarning,
+  TOKEN_DECIMALS,
+  type WalletActivityType,
+  type WalletDirectionFilter,
+  type WalletTransaction,
+} from '@/stores';
+import { useWalletActivity, exportWalletActivity } from '../services/walletActivityService';
+
+const ACTIVITY_TYPES: WalletActivityType[] = ['transfer', 'mint', 'burn', 'approve'];
+
+function truncatePrincipal(principal: string): string {
+  return principal.length > 20 ? `${principal.slice(0, 11)}...${principal.slice(-5)}` : principal;
+}
+
+/**
+ * Describe the other side of a transaction
+ */
+function getCounterpartyLabel(transaction: WalletTransaction): string | null {
+  if (transaction.type === 'mint') return 'Minted to you';
+  if (transaction.type === 'burn') return 'Burned from your balance';
+  if (transaction.direction === 'self') return 'To yourself';
+  if (!transaction.counterparty) return null;
+
+  const principal = truncatePrincipal(transaction.counterparty);
+  if (transaction.type === 'approve') return `Spender ${principal}`;
+  return transaction.direction === 'incoming' ? `From ${principal}` : `To ${principal}`;
+}
+
+function ActivityIcon({ transaction }: { transaction: WalletTransaction }): React.ReactElement {
+  const iconClass = 'h-5 w-5';
+  let icon: React.ReactElement;
+  let bgClass: string;
+
+  if (transaction.type === 'mint') {
+    icon = <Sparkles className={`${iconClass} text-green-600`} />;
+    bgClass = 'bg-green-100';
+  } else if (transaction.type === 'burn') {
+    icon = <Flame className={`${iconClass} text-orange-600`} />;
+    bgClass = 'bg-orange-100';
+  } else if (transaction.type === 'approve') {
+    icon = <KeyRound className={`${iconClass} text-gray-600`} />;
+    bgClass = 'bg-gray-100';
+  } else if (transaction.direction === 'incoming') {
+    icon = <ArrowDownLeft className={`${iconClass} text-green-600`} />;
+    bgClass = 'bg-green-100';
+  } else if (transaction.direction === 'self') {
+    icon = <Repeat className={`${iconClass} text-gray-600`} />;
+    bgClass = 'bg-gray-100';
+  } else {
+    icon = <ArrowUpRight className={`${iconClass} text-blue-600`} />;
+    bgClass = 'bg-blue-100';
+  }
+
+  return (
+    <div className={`p-2 rounded-full ${bgClass}`} aria-hidden="true">
+      {icon}
+    </div>
+  );
+}
+
+function ActivityItem({ transaction }: { transaction: WalletTransaction }): React.ReactElement {
+  const counterparty = getCounterpartyLabel(transaction);
+  const change = getWalletBalanceChange(transaction);
+  const amountClass = change > BigInt(0) ? 'text-green-600' : 'text-gray-900';
+  // Approvals and self-transfers only cost the fee, so show the amount unsigned
+  const isFeeOnly = transaction.type === 'approve' || transaction.direction === 'self';
+  const displayAmount = isFeeOnly ? transaction.amount : change < BigInt(0) ? -change : change;
+  const prefix = isFeeOnly ? '' : change > BigInt(0) ? '+' : '-';
+
+  return (
+    <div className="flex items-center justify-between gap-3 py-3">
+      <div className="flex items-center gap-3 min-w-0">
+        <ActivityIcon transaction={transaction} />
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900">
+            {getWalletActivityTypeLabel(transaction.type)}
+          </p>
+          {counterparty && (
+            <p className="text-sm text-gray-500 truncate" title={transaction.counterparty}>
+              {counterparty}
+            </p>
+          )}
+          {transaction.memo && (
+            <p className="text-sm text-gray-500 truncate max-w-[200px]" title={transaction.memo}>
+              {transaction.memo}
+            </p>
+          )}
+          <div className="flex items-center gap-1 text-xs text-gray-400">
+            <Clock className="h-3 w-3" aria-hidden="true" />
+            {formatTimestamp(transaction.timestamp)}
+            <span>· Block {transaction.id}</span>
+          </div>
+        </div>
+      </div>
+      <div className="text-right">
+        <p className={`font-semibold tabular-nums ${amountClass}`}>
+          {prefix}
+          {formatTokenAmount(displayAmount, TOKEN_DECIMALS)} DOM
+        </p>
+        {transaction.fee !== undefined && transaction.fee > BigInt(0) && (
+          <p className="text-xs text-gray-400">
+            Fee {formatExactTokenAmount(transaction.fee)} DOM
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export interface WalletActivityProps {
+  /** Account to show activity for (null when II is not linked) */
+  principal: string | null;
+  /** Optional className for container */
+  className?: string;
+}
+
+export function WalletActivity({
+  principal,
+  className = '',
+}: WalletActivityProps): React.ReactElement {
+  const { state, transactions, filters, hasMore, setFilters, resetFilters, loadMore, refresh } =
+    useWalletActivity(principal);
+  const hasActiveFilters = useStore($hasActiveWalletActivityFilters);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleType = (type: WalletActivityType) => {
+    setFilters({
+      types: filters.types.includes(type)
+        ? filters.types.filter((t) => t !== type)
+        : [...filters.types, type],
+    });
+  };
+
+  const handleExport = async () => {
+    if (!principal) return;
+
+    setIsExporting(true);
+    const result = await exportWalletActivity(principal);
+    setIsExporting(false);
+
+    if (!result.success || result.content === undefined || !result.filename) {
+      showError(result.error ?? 'Failed to export wallet activity. Please try again.');
+      return;
+    }
+    if (result.truncated) {
+      showWarning(`Export limited to the ${result.count} most recent matching transactions.`);
+    }
+
+    // Create blob and trigger download
+    const blob = new Blob([result.content], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', result.filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!principal) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 text-center ${className}`}>
+        <p className="text-gray-600">Link Internet Identity to view your wallet activity.</p>
+      </div>
+    );
+  }
+
+  const isInitialLoad = state.isLoading && state.transactions.length === 0;
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-900">Transactions</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="inline-flex items-center gap-1.5 rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            <Download className="h-4 w-4" aria-hidden="true" />
+            {isExporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+          <button
+            onClick={refresh}
+            disabled={state.isLoading}
+            className="p-1.5 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+            aria-label="Refresh wallet activity"
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${state.isLoading ? 'animate-spin' : ''}`}
+              aria-hidden="true"
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4 p-4 border-b border-gray-100">
+        <div>
+          <label htmlFor="wallet-direction" className="block text-sm font-medium text-gray-700 mb-1">
+            Direction
+          </label>
+          <select
+            id="wallet-direction"
+            value={filters.direction}
+            onChange={(e) => setFilters({ direction: e.target.value as WalletDirectionFilter })}
+            className="block rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            <option value="all">All</option>
+            <option value="incoming">Incoming</option>
+            <option value="outgoing">Outgoing</option>
+          </select>
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 mb-2">Type</legend>
+          <div className="flex flex-wrap gap-2">
+            {ACTIVITY_TYPES.map((type) => {
+              const selected = filters.types.includes(type);
+              return (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggleType(type)}
+                  aria-pressed={selected}
+                  className={`rounded-full border px-3 py-1 text-sm transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                    selected
+                      ? 'border-teal-600 bg-teal-50 text-teal-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {getWalletActivityTypeLabel(type)}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+
+        {hasActiveFilters && (
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 hover:underline"
+          >
+            <X className="h-4 w-4" aria-hidden="true" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Transactions */}
+      <div className="p-4">
+        {state.error && (
+          <div className="mb-4 flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+            <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" aria-hidden="true" />
+            <div className="text-sm">
+              <p className="font-medium text-red-700">Failed to load wallet activity</p>
+              <p className="text-red-600">{state.error}</p>
+            </div>
+          </div>
+        )}
+
+        {isInitialLoad && (
+          <div className="animate-pulse space-y-3" aria-label="Loading wallet activity">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 rounded bg-gray-100" />
+            ))}
+          </div>
+        )}
+
+        {!isInitialLoad && !state.error && transactions.length === 0 && (
+          <div className="py-8 text-center">
+            <Clock className="h-8 w-8 text-gray-300 mx-auto mb-2" aria-hidden="true" />
+            <p className="text-gray-500">
+              {hasActiveFilters ? 'No transactions match these filters' : 'No transactions yet'}
+            </p>
+          </div>
+        )}
+
+        {transactions.length > 0 && (
+          <div className="divide-y divide-gray-100">
+            {transactions.map((tx) => (
+              <ActivityItem key={tx.id} transaction={tx} />
+            ))}
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={loadMore}
+              disabled={state.isLoading}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              {state.isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default WalletActivity;
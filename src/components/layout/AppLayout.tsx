@@ -1,14 +1,17 @@
 /**
  * AppLayout - Wrapper layout for all authenticated pages.
- * Renders PageHeader at the top and an Outlet for child route content.
+ * Renders PageHeader at the top, the offline vote queue (which replays
+ * queued votes on reconnect) and an Outlet for child route content.
  */
 import { Outlet } from 'react-router-dom';
 import { PageHeader } from './PageHeader';
+import { VoteQueueStatus } from '@/features/voting/components/VoteQueueStatus';
 
 export function AppLayout() {
   return (
     <>
       <PageHeader />
+      <VoteQueueStatus />
       <Outlet />
     </>
   );
@@ -25,8 +25,17 @@ vi.mock('@/services/authCookieClient', () => ({
 vi.mock('@/stores', () => ({
   clearTokenBalance: vi.fn(),
   clearTreasury: vi.fn(),
+  clearTreasuryLedger: vi.fn(),
+  clearPayouts: vi.fn(),
   clearBurnPool: vi.fn(),
   clearEscrow: vi.fn(),
+  clearVoteQueue: vi.fn(),
+  clearWalletActivity: vi.fn(),
+  clearAllowances: vi.fn(),
+  clearStaking: vi.fn(),
+  clearDelegations: vi.fn(),
+  clearWatchlist: vi.fn(),
+  clearTransferHistory: vi.fn(),
 }));
 
 const renderWithRouter = (ui: React.ReactElement) => {
@@ -56,7 +65,15 @@ describe('PageHeader', () => {
 
   it('clears stores and navigates to login on logout', async () => {
     const user = userEvent.setup();
-    const { clearTokenBalance, clearTreasury, clearBurnPool, clearEscrow } = await import('@/stores');
+    const {
+      clearTokenBalance,
+      clearTreasury,
+      clearBurnPool,
+      clearEscrow,
+      clearDelegations,
+      clearWatchlist,
+      clearTransferHistory,
+    } = await import('@/stores');
 
     renderWithRouter(<PageHeader />);
     const logoutButton = screen.getByText('Logout');
@@ -66,5 +83,8 @@ describe('PageHeader', () => {
     expect(clearTreasury).toHaveBeenCalled();
     expect(clearBurnPool).toHaveBeenCalled();
     expect(clearEscrow).toHaveBeenCalled();
+    expect(clearDelegations).toHaveBeenCalled();
+    expect(clearWatchlist).toHaveBeenCalled();
+    expect(clearTransferHistory).toHaveBeenCalled();
   });
 });
@@ -6,7 +6,21 @@ import { Button } from '@/components/ui/button';
 import { SuiteSwitcher } from '@hello-world-co-op/ui';
 import { NotificationBell } from '@/components/NotificationBell';
 import { LogOut } from 'lucide-react';
-import { clearTokenBalance, clearTreasury, clearBurnPool, clearEscrow } from '@/stores';
+import {
+  clearTokenBalance,
+  clearTreasury,
+  clearTreasuryLedger,
+  clearPayouts,
+  clearBurnPool,
+  clearEscrow,
+  clearVoteQueue,
+  clearWalletActivity,
+  clearAllowances,
+  clearStaking,
+  clearDelegations,
+  clearWatchlist,
+  clearTransferHistory,
+} from '@/stores';
 import { logout as cookieLogout } from '@/services/authCookieClient';
 
 export function PageHeader() {
@@ -17,8 +31,17 @@ export function PageHeader() {
     localStorage.removeItem('user_data');
     clearTokenBalance();
     clearTreasury();
+    clearTreasuryLedger();
+    clearPayouts();
     clearBurnPool();
     clearEscrow();
+    clearVoteQueue();
+    clearWalletActivity();
+    clearAllowances();
+    clearStaking();
+    clearDelegations();
+    clearWatchlist();
+    clearTransferHistory();
     // Redirect to foundery-os login (dao-suite has no login page)
     const founderyOsUrl = import.meta.env.VITE_FOUNDERY_OS_URL || 'https://staging-foundery.helloworlddao.com';
     window.location.href = `${founderyOsUrl}/login`;
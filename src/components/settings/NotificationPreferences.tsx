@@ -62,6 +62,7 @@ interface LocalStorageGovernancePrefs {
   vote_result: boolean;
   new_proposal: boolean;
   voting_ending: boolean;
+  mentions?: boolean;
   hideProposalTitles: boolean;
   schemaVersion: number;
 }
@@ -199,7 +200,8 @@ export function NotificationPreferences(): React.ReactElement {
             localPrefs.enabled !== true ||
             localPrefs.vote_result !== true ||
             localPrefs.new_proposal !== true ||
-            localPrefs.voting_ending !== true;
+            localPrefs.voting_ending !== true ||
+            localPrefs.mentions === false;
 
           if (localDiffers) {
             setMigrationBannerVisible(true);
@@ -264,6 +266,7 @@ export function NotificationPreferences(): React.ReactElement {
         ...preferences.categories,
         proposals: localPrefs.new_proposal,
         votes: votesEnabled,
+        mentions: localPrefs.mentions ?? preferences.categories.mentions,
       },
     };
 
@@ -0,0 +1,182 @@
+/**
+ * CommentThread Tests
+ *
+ * Covers reply threading, markdown/mention rendering and author-only
+ * edit/delete actions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import type { ProposalComment } from '@/services/commentService';
+
+const mocks = vi.hoisted(() => ({
+  listComments: vi.fn(),
+  createComment: vi.fn(),
+  updateComment: vi.fn(),
+  deleteComment: vi.fn(),
+  fetchMembers: vi.fn(),
+}));
+
+vi.mock('@/services/commentService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/commentService')>()),
+  listComments: mocks.listComments,
+  createComment: mocks.createComment,
+  updateComment: mocks.updateComment,
+  deleteComment: mocks.deleteComment,
+}));
+
+vi.mock('@/services/memberService', () => ({
+  fetchMembers: mocks.fetchMembers,
+}));
+
+import { CommentThread, buildCommentTree } from '../index';
+
+function makeComment(overrides: Partial<ProposalComment> = {}): ProposalComment {
+  return {
+    id: 'c1',
+    proposal_id: '42',
+    parent_id: null,
+    author_principal: 'alice-principal',
+    author_name: 'Alice',
+    body: 'First comment',
+    mentions: [],
+    created_at: '2026-03-01T10:00:00Z',
+    updated_at: '2026-03-01T10:00:00Z',
+    edited: false,
+    deleted: false,
+    ...overrides,
+  };
+}
+
+function renderThread(currentPrincipal: string | null = 'alice-principal', canComment = true) {
+  return render(
+    <MemoryRouter>
+      <CommentThread proposalId="42" currentPrincipal={currentPrincipal} canComment={canComment} />
+    </MemoryRouter>
+  );
+}
+
+describe('buildCommentTree', () => {
+  it('nests replies under their parent in chronological order', () => {
+    const tree = buildCommentTree([
+      makeComment({ id: 'r2', parent_id: 'c1', created_at: '2026-03-01T12:00:00Z' }),
+      makeComment(),
+      makeComment({ id: 'r1', parent_id: 'c1', created_at: '2026-03-01T11:00:00Z' }),
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].replies.map((r) => r.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('promotes orphaned replies to the top level', () => {
+    const tree = buildCommentTree([makeComment({ id: 'r1', parent_id: 'missing' })]);
+
+    expect(tree.map((c) => c.id)).toEqual(['r1']);
+  });
+});
+
+describe('CommentThread', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.fetchMembers.mockResolvedValue({ success: true, members: [] });
+  });
+
+  it('renders markdown and mentions as profile links', async () => {
+    mocks.listComments.mockResolvedValue({
+      comments: [makeComment({ body: '**Agree** with @[Bob](bob-principal)' })],
+      total: 1,
+    });
+
+    renderThread();
+
+    const body = await screen.findByTestId('comment-body');
+    expect(within(body).getByText('Agree').tagName).toBe('STRONG');
+    expect(within(body).getByRole('link', { name: '@Bob' })).toHaveAttribute(
+      'href',
+      '/members/bob-principal'
+    );
+    expect(screen.getByRole('heading', { name: 'Discussion (1)' })).toBeInTheDocument();
+  });
+
+  it('shows edit and delete only on comments by the viewer', async () => {
+    mocks.listComments.mockResolvedValue({
+      comments: [
+        makeComment(),
+        makeComment({ id: 'c2', author_principal: 'bob-principal', author_name: 'Bob' }),
+      ],
+      total: 2,
+    });
+
+    renderThread();
+
+    const own = await screen.findByRole('article', { name: 'Comment by Alice' });
+    const other = screen.getByRole('article', { name: 'Comment by Bob' });
+    expect(within(own).getByRole('button', { name: 'Edit' })).toBeInTheDocument();
+    expect(within(other).queryByRole('button', { name: 'Edit' })).not.toBeInTheDocument();
+    expect(within(other).queryByRole('button', { name: 'Delete' })).not.toBeInTheDocument();
+  });
+
+  it('posts a reply under the parent comment', async () => {
+    mocks.listComments.mockResolvedValue({ comments: [makeComment()], total: 1 });
+    mocks.createComment.mockResolvedValue(
+      makeComment({
+        id: 'r1',
+        parent_id: 'c1',
+        author_name: 'Bob',
+        body: 'A reply',
+        created_at: '2026-03-01T11:00:00Z',
+      })
+    );
+
+    renderThread();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Reply' }));
+    const textareas = screen.getAllByRole('textbox', { name: 'Write a comment' });
+    fireEvent.change(textareas[textareas.length - 1], { target: { value: 'A reply' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Reply' }));
+
+    await waitFor(() => {
+      expect(mocks.createComment).toHaveBeenCalledWith('42', 'A reply', 'c1');
+    });
+    const replies = await screen.findByRole('list', { name: 'Replies to Alice' });
+    expect(within(replies).getByText('A reply')).toBeInTheDocument();
+  });
+
+  it('keeps a placeholder for deleted comments', async () => {
+    mocks.listComments.mockResolvedValue({ comments: [makeComment()], total: 1 });
+    mocks.deleteComment.mockResolvedValue(undefined);
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+
+    renderThread();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete' }));
+
+    expect(await screen.findByText('This comment was deleted.')).toBeInTheDocument();
+    expect(mocks.deleteComment).toHaveBeenCalledWith('c1');
+  });
+
+  it('hides the composer for non-members', async () => {
+    mocks.listComments.mockResolvedValue({ comments: [], total: 0 });
+
+    renderThread(null, false);
+
+    expect(
+      await screen.findByText('Only active members can join the discussion.')
+    ).toBeInTheDocument();
+    expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+  });
+
+  it('shows an error with retry when loading fails', async () => {
+    mocks.listComments.mockRejectedValueOnce(new Error('Network down'));
+
+    renderThread();
+
+    expect(await screen.findByText('Network down')).toBeInTheDocument();
+
+    mocks.listComments.mockResolvedValue({ comments: [], total: 0 });
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+    expect(await screen.findByText('No comments yet. Start the discussion.')).toBeInTheDocument();
+  });
+});
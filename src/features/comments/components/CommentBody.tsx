@@ -0,0 +1,31 @@
+/**
+ * CommentBody Component
+ *
+ * Renders a comment's markdown through the same sanitized pipeline used
+ * for event descriptions. Mention tokens become links to member profiles.
+ */
+
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { renderMentions } from '@/services/commentService';
+
+export interface CommentBodyProps {
+  body: string;
+}
+
+export function CommentBody({ body }: CommentBodyProps): React.ReactElement {
+  return (
+    <div
+      className="text-sm text-gray-700 leading-relaxed break-words [&_p]:mb-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_code]:rounded [&_code]:bg-gray-100 [&_code]:px-1 [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-gray-500 [&_a]:text-teal-600 [&_a]:underline"
+      data-testid="comment-body"
+    >
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]}>
+        {renderMentions(body)}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export default CommentBody;
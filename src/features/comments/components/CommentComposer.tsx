@@ -0,0 +1,206 @@
+/**
+ * CommentComposer Component
+ *
+ * Markdown textarea for new comments, replies and edits. Typing `@` and
+ * part of a name suggests members from the directory; picking one inserts
+ * a mention token that notifies them when the comment is posted.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '../../../components/ui/button';
+import { fetchMembers } from '@/services/memberService';
+import { formatMention } from '@/services/commentService';
+import type { MemberProfile } from '@/stores';
+
+export interface CommentComposerProps {
+  /** Initial text (used when editing) */
+  initialValue?: string;
+  submitLabel?: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/** Maximum comment length accepted by oracle-bridge */
+export const MAX_COMMENT_LENGTH = 5000;
+
+/** Delay before querying the member directory for mention suggestions */
+const MENTION_SEARCH_DEBOUNCE_MS = 250;
+
+/** Matches an in-progress `@name` immediately before the caret */
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([\w.-]{2,})$/;
+
+export function CommentComposer({
+  initialValue = '',
+  submitLabel = 'Comment',
+  placeholder = 'Share your thoughts. Markdown is supported; type @ to mention a member.',
+  autoFocus = false,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps): React.ReactElement {
+  const [value, setValue] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<MemberProfile[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const trimmed = value.trim();
+  const tooLong = value.length > MAX_COMMENT_LENGTH;
+  const showSuggestions = mentionQuery !== null && suggestions.length > 0;
+
+  useEffect(() => {
+    if (autoFocus) textareaRef.current?.focus();
+  }, [autoFocus]);
+
+  // Look up members matching the in-progress mention
+  useEffect(() => {
+    if (mentionQuery === null) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await fetchMembers(1, 5, mentionQuery);
+      if (!cancelled) {
+        setSuggestions(result.success ? (result.members ?? []) : []);
+        setActiveIndex(0);
+      }
+    }, MENTION_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mentionQuery]);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setValue(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const insertMention = (member: MemberProfile) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[\w.-]*$/, '');
+    const after = value.slice(caret);
+    const token = `${formatMention(member.displayName, member.principal)} `;
+
+    setValue(before + token + after);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      const position = before.length + token.length;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showSuggestions) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || tooLong || isSubmitting) return;
+
+    setIsSubmitting(true);
+    const success = await onSubmit(trimmed);
+    setIsSubmitting(false);
+
+    if (success && !initialValue) {
+      setValue('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+          placeholder={placeholder}
+          rows={3}
+          aria-label={submitLabel === 'Save' ? 'Edit comment' : 'Write a comment'}
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={showSuggestions ? 'mention-suggestions' : undefined}
+          className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+
+        {showSuggestions && (
+          <ul
+            id="mention-suggestions"
+            role="listbox"
+            aria-label="Mention a member"
+            className="absolute left-0 z-10 mt-1 w-64 rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+          >
+            {suggestions.map((member, index) => (
+              <li
+                key={member.principal}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the textarea so onBlur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+                className={`cursor-pointer px-3 py-2 text-sm ${
+                  index === activeIndex ? 'bg-teal-50 text-teal-800' : 'text-gray-700'
+                }`}
+              >
+                {member.displayName}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className={`text-xs ${tooLong ? 'text-red-600' : 'text-gray-400'}`}>
+          {value.length}/{MAX_COMMENT_LENGTH}
+        </span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!trimmed || tooLong || isSubmitting}
+            className="bg-teal-600 hover:bg-teal-700 text-white"
+          >
+            {isSubmitting ? 'Posting...' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default CommentComposer;
@@ -0,0 +1,164 @@
+/**
+ * CommentItem Component
+ *
+ * A single comment with its replies. Authors can edit or delete their own
+ * comments; deleted comments stay as a placeholder so replies keep their
+ * context.
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CommentBody } from './CommentBody';
+import { CommentComposer } from './CommentComposer';
+import type { CommentNode } from '../hooks/useProposalComments';
+
+export interface CommentItemProps {
+  comment: CommentNode;
+  depth?: number;
+  currentPrincipal: string | null;
+  canComment: boolean;
+  onReply: (body: string, parentId: string) => Promise<boolean>;
+  onEdit: (commentId: string, body: string) => Promise<boolean>;
+  onDelete: (commentId: string) => Promise<boolean>;
+}
+
+/** Replies deeper than this are not indented further */
+const MAX_INDENT_DEPTH = 4;
+
+function formatCommentTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function CommentItem({
+  comment,
+  depth = 0,
+  currentPrincipal,
+  canComment,
+  onReply,
+  onEdit,
+  onDelete,
+}: CommentItemProps): React.ReactElement {
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+
+  const isAuthor = !!currentPrincipal && comment.author_principal === currentPrincipal;
+
+  const handleDelete = async () => {
+    if (window.confirm('Delete this comment? This cannot be undone.')) {
+      await onDelete(comment.id);
+    }
+  };
+
+  const handleReply = async (body: string) => {
+    const success = await onReply(body, comment.id);
+    if (success) setMode('view');
+    return success;
+  };
+
+  const handleEdit = async (body: string) => {
+    const success = await onEdit(comment.id, body);
+    if (success) setMode('view');
+    return success;
+  };
+
+  return (
+    <li id={`comment-${comment.id}`} className="scroll-mt-24">
+      <article className="rounded-lg bg-gray-50 p-3" aria-label={`Comment by ${comment.author_name}`}>
+        {comment.deleted ? (
+          <p className="text-sm italic text-gray-400">This comment was deleted.</p>
+        ) : (
+          <>
+            <header className="mb-1 flex flex-wrap items-baseline gap-x-2 text-xs text-gray-500">
+              <Link
+                to={`/members/${comment.author_principal}`}
+                className="text-sm font-medium text-gray-900 hover:text-teal-700"
+              >
+                {comment.author_name}
+              </Link>
+              <time dateTime={comment.created_at}>{formatCommentTime(comment.created_at)}</time>
+              {comment.edited && <span>(edited)</span>}
+            </header>
+
+            {mode === 'edit' ? (
+              <CommentComposer
+                initialValue={comment.body}
+                submitLabel="Save"
+                autoFocus
+                onSubmit={handleEdit}
+                onCancel={() => setMode('view')}
+              />
+            ) : (
+              <CommentBody body={comment.body} />
+            )}
+
+            {mode === 'view' && (canComment || isAuthor) && (
+              <div className="mt-1 flex gap-3 text-xs font-medium">
+                {canComment && (
+                  <button
+                    onClick={() => setMode('reply')}
+                    className="text-teal-700 hover:text-teal-800"
+                  >
+                    Reply
+                  </button>
+                )}
+                {isAuthor && (
+                  <>
+                    <button
+                      onClick={() => setMode('edit')}
+                      className="text-gray-600 hover:text-gray-800"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={handleDelete} className="text-red-600 hover:text-red-700">
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </article>
+
+      {mode === 'reply' && (
+        <div className="mt-2 ml-4">
+          <CommentComposer
+            submitLabel="Reply"
+            placeholder={`Reply to ${comment.author_name}`}
+            autoFocus
+            onSubmit={handleReply}
+            onCancel={() => setMode('view')}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul
+          className={`mt-2 space-y-2 ${
+            depth < MAX_INDENT_DEPTH ? 'ml-4 border-l-2 border-gray-100 pl-3' : ''
+          }`}
+          aria-label={`Replies to ${comment.author_name}`}
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              currentPrincipal={currentPrincipal}
+              canComment={canComment}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default CommentItem;
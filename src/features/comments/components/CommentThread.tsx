@@ -0,0 +1,93 @@
+/**
+ * CommentThread Component
+ *
+ * Threaded discussion shown on the proposal detail page. Active members
+ * can comment and reply; everyone else can read.
+ */
+
+import React, { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { CommentComposer } from './CommentComposer';
+import { CommentItem } from './CommentItem';
+import { useProposalComments } from '../hooks/useProposalComments';
+
+export interface CommentThreadProps {
+  proposalId: string;
+  /** Principal of the signed-in member, used to show edit/delete */
+  currentPrincipal: string | null;
+  /** Whether the viewer may post comments (active members only) */
+  canComment: boolean;
+}
+
+export function CommentThread({
+  proposalId,
+  currentPrincipal,
+  canComment,
+}: CommentThreadProps): React.ReactElement {
+  const { hash } = useLocation();
+  const { thread, count, isLoading, error, post, edit, remove, refresh } =
+    useProposalComments(proposalId);
+
+  // Scroll to a linked comment (e.g. from a mention notification) once loaded
+  useEffect(() => {
+    if (!hash.startsWith('#comment-') || thread.length === 0) return;
+    document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+  }, [hash, thread.length]);
+
+  return (
+    <section
+      className="rounded-xl bg-white p-6 shadow-sm ring-1 ring-gray-100"
+      aria-labelledby="discussion-heading"
+    >
+      <h2 id="discussion-heading" className="text-lg font-semibold text-gray-900 mb-4">
+        Discussion{count > 0 && ` (${count})`}
+      </h2>
+
+      {canComment ? (
+        <div className="mb-6">
+          <CommentComposer onSubmit={(body) => post(body)} />
+        </div>
+      ) : (
+        <p className="mb-6 text-sm text-gray-500">Only active members can join the discussion.</p>
+      )}
+
+      {error && (
+        <div className="mb-4 flex items-center justify-between rounded-lg border border-red-200 bg-red-50 p-3">
+          <p className="text-sm text-red-700">{error}</p>
+          <button
+            onClick={() => refresh()}
+            className="text-sm font-medium text-red-700 hover:text-red-800"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {isLoading && thread.length === 0 ? (
+        <p className="py-4 text-center text-sm text-gray-500">Loading comments...</p>
+      ) : thread.length === 0 ? (
+        !error && (
+          <p className="py-4 text-center text-sm text-gray-500">
+            No comments yet. Start the discussion.
+          </p>
+        )
+      ) : (
+        <ul className="space-y-3" aria-label="Comments">
+          {thread.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              currentPrincipal={currentPrincipal}
+              canComment={canComment}
+              onReply={post}
+              onEdit={edit}
+              onDelete={remove}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default CommentThread;
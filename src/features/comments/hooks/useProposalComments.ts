@@ -0,0 +1,189 @@
+/**
+ * useProposalComments Hook
+ *
+ * Loads the discussion for a proposal and exposes post, edit and delete
+ * actions. Comments are returned flat from oracle-bridge and assembled
+ * into a reply tree here.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  listComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  CommentApiError,
+  type ProposalComment,
+} from '@/services/commentService';
+
+export interface CommentNode extends ProposalComment {
+  replies: CommentNode[];
+}
+
+export interface UseProposalCommentsOptions {
+  /** Fetch comments on mount (default: true) */
+  enabled?: boolean;
+}
+
+export interface UseProposalCommentsResult {
+  comments: ProposalComment[];
+  thread: CommentNode[];
+  /** Number of comments that have not been deleted */
+  count: number;
+  isLoading: boolean;
+  error: string | null;
+  post: (body: string, parentId?: string) => Promise<boolean>;
+  edit: (commentId: string, body: string) => Promise<boolean>;
+  remove: (commentId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Assemble flat comments into a reply tree, oldest first at each level.
+ * Replies whose parent is missing are promoted to the top level.
+ */
+export function buildCommentTree(comments: ProposalComment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  for (const comment of comments) {
+    nodes.set(comment.id, { ...comment, replies: [] });
+  }
+
+  const roots: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const byCreated = (a: CommentNode, b: CommentNode) => a.created_at.localeCompare(b.created_at);
+  const sortTree = (list: CommentNode[]) => {
+    list.sort(byCreated);
+    list.forEach((n) => sortTree(n.replies));
+  };
+  sortTree(roots);
+
+  return roots;
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof CommentApiError && error.status === 401) {
+    return 'Please sign in to join the discussion.';
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+export function useProposalComments(
+  proposalId: string,
+  { enabled = true }: UseProposalCommentsOptions = {}
+): UseProposalCommentsResult {
+  const [comments, setComments] = useState<ProposalComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!proposalId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await listComments(proposalId);
+      if (mountedRef.current) setComments(response.comments);
+    } catch (err) {
+      if (mountedRef.current) setError(getErrorMessage(err, 'Failed to load comments.'));
+    } finally {
+      if (mountedRef.current) setIsLoading(false);
+    }
+  }, [proposalId]);
+
+  // Fetch comments on mount
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  const replaceComment = (updated: ProposalComment) => {
+    setComments((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+  };
+
+  /**
+   * Post a top-level comment or a reply. Returns true on success.
+   */
+  const post = useCallback(
+    async (body: string, parentId?: string) => {
+      setError(null);
+      try {
+        const created = await createComment(proposalId, body, parentId);
+        if (mountedRef.current) setComments((prev) => [...prev, created]);
+        return true;
+      } catch (err) {
+        if (mountedRef.current) setError(getErrorMessage(err, 'Failed to post comment.'));
+        return false;
+      }
+    },
+    [proposalId]
+  );
+
+  /**
+   * Edit one of the member's own comments. Returns true on success.
+   */
+  const edit = useCallback(async (commentId: string, body: string) => {
+    setError(null);
+    try {
+      const updated = await updateComment(commentId, body);
+      if (mountedRef.current) replaceComment(updated);
+      return true;
+    } catch (err) {
+      if (mountedRef.current) setError(getErrorMessage(err, 'Failed to edit comment.'));
+      return false;
+    }
+  }, []);
+
+  /**
+   * Delete one of the member's own comments. The comment is kept as a
+   * tombstone so its replies stay in place. Returns true on success.
+   */
+  const remove = useCallback(async (commentId: string) => {
+    setError(null);
+    try {
+      await deleteComment(commentId);
+      if (mountedRef.current) {
+        setComments((prev) =>
+          prev.map((c) => (c.id === commentId ? { ...c, body: '', deleted: true } : c))
+        );
+      }
+      return true;
+    } catch (err) {
+      if (mountedRef.current) setError(getErrorMessage(err, 'Failed to delete comment.'));
+      return false;
+    }
+  }, []);
+
+  const thread = useMemo(() => buildCommentTree(comments), [comments]);
+  const count = useMemo(() => comments.filter((c) => !c.deleted).length, [comments]);
+
+  return {
+    comments,
+    thread,
+    count,
+    isLoading,
+    error,
+    post,
+    edit,
+    remove,
+    refresh,
+  };
+}
+
+export default useProposalComments;
@@ -0,0 +1,24 @@
+/**
+ * Comments Feature
+ *
+ * Public exports for threaded proposal discussion.
+ */
+
+// Components
+export { CommentThread, type CommentThreadProps } from './components/CommentThread';
+export { CommentItem, type CommentItemProps } from './components/CommentItem';
+export {
+  CommentComposer,
+  MAX_COMMENT_LENGTH,
+  type CommentComposerProps,
+} from './components/CommentComposer';
+export { CommentBody, type CommentBodyProps } from './components/CommentBody';
+
+// Hooks
+export {
+  useProposalComments,
+  buildCommentTree,
+  type CommentNode,
+  type UseProposalCommentsOptions,
+  type UseProposalCommentsResult,
+} from './hooks/useProposalComments';
@@ -0,0 +1,104 @@
+/**
+ * Ballot Options Editor
+ *
+ * Turns a proposal into a ranked-choice vote between several options
+ * (e.g. competing vendors) instead of a yes/no vote, and edits the
+ * options members will rank.
+ */
+
+import React from 'react';
+import { Button } from '../../../components/ui/button';
+import type { BallotOption } from '@/stores';
+
+export const MIN_BALLOT_OPTIONS = 2;
+export const MAX_BALLOT_OPTIONS = 10;
+
+interface BallotOptionsEditorProps {
+  /** Options for a ranked-choice proposal; undefined for a yes/no proposal */
+  options?: BallotOption[];
+  onChange: (options: BallotOption[] | undefined) => void;
+}
+
+const INPUT_CLASSES =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500';
+
+function createOption(): BallotOption {
+  return { id: `option-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`, label: '' };
+}
+
+export function BallotOptionsEditor({ options, onChange }: BallotOptionsEditorProps) {
+  const isRanked = !!options;
+
+  const updateOption = (index: number, patch: Partial<BallotOption>) => {
+    if (!options) return;
+    onChange(options.map((option, i) => (i === index ? { ...option, ...patch } : option)));
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isRanked}
+          onChange={(e) =>
+            onChange(e.target.checked ? [createOption(), createOption()] : undefined)
+          }
+          className="mt-1 accent-teal-600"
+        />
+        <span>
+          <span className="block font-medium text-gray-900">Vote between several options</span>
+          <span className="block text-sm text-gray-600">
+            Members rank the options instead of voting yes or no. The winner is found by
+            instant runoff: the least popular option is eliminated each round until one has a
+            majority.
+          </span>
+        </span>
+      </label>
+
+      {options && (
+        <fieldset className="mt-4 space-y-2">
+          <legend className="text-sm font-medium text-gray-900">Ballot Options</legend>
+          {options.map((option, i) => (
+            <div key={option.id} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+              <input
+                aria-label={`Option ${i + 1} name`}
+                value={option.label}
+                onChange={(e) => updateOption(i, { label: e.target.value })}
+                placeholder="Name"
+                className={INPUT_CLASSES}
+              />
+              <input
+                aria-label={`Option ${i + 1} description`}
+                value={option.description ?? ''}
+                onChange={(e) => updateOption(i, { description: e.target.value || undefined })}
+                placeholder="Description (optional)"
+                className={INPUT_CLASSES}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(options.filter((_, index) => index !== i))}
+                disabled={options.length <= MIN_BALLOT_OPTIONS}
+                aria-label={`Remove option ${i + 1}`}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...options, createOption()])}
+            disabled={options.length >= MAX_BALLOT_OPTIONS}
+          >
+            Add option
+          </Button>
+        </fieldset>
+      )}
+    </div>
+  );
+}
+
+export default BallotOptionsEditor;
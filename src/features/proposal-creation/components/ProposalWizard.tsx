@@ -29,7 +29,7 @@ import {
   showSuccess,
   showError,
 } from '@/stores';
-import type { ThinkTankOutput, ProposalScale, ProposalVertical } from '@/stores';
+import type { ThinkTankOutput, ProposalScale, ProposalVertical, BallotOption } from '@/stores';
 import { useThinkTank } from '../hooks/useThinkTank';
 import { useNetworkStatus } from '../../../hooks/useNetworkStatus';
 import {
@@ -398,6 +398,17 @@ export function ProposalWizard({
     [localDraft, currentDraft]
   );
 
+  const handleBallotOptionsChange = useCallback(
+    (ballotOptions: BallotOption[] | undefined) => {
+      const draft = localDraft ?? currentDraft;
+      if (draft) {
+        // Saved immediately: the options editor renders straight from the draft
+        updateDraft(draft.id, { ballotOptions });
+      }
+    },
+    [localDraft, currentDraft]
+  );
+
   const handleSubmit = useCallback(() => {
     const draft = localDraft ?? currentDraft;
     if (draft) {
@@ -661,6 +672,8 @@ export function ProposalWizard({
             onSubmit={handleSubmit}
             onBack={() => setCurrentStep('vertical')}
             editedSections={activeDraft.editedSections}
+            ballotOptions={activeDraft.ballotOptions}
+            onBallotOptionsChange={handleBallotOptionsChange}
           />
         )}
       </div>
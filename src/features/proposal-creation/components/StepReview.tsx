@@ -3,6 +3,7 @@
  *
  * Displays all generated sections in accordion format.
  * Allows inline editing and section refinement.
+ * Optionally defines the options for a ranked-choice vote.
  *
  * Story: 9-1-1-think-tank-proposal-creation
  * AC: 6, 7, 8
@@ -10,7 +11,8 @@
 
 import React, { useState } from 'react';
 import { Button } from '../../../components/ui/button';
-import type { ThinkTankOutput, BudgetItem, TimelineItem, RiskItem } from '@/stores';
+import type { ThinkTankOutput, BudgetItem, TimelineItem, RiskItem, BallotOption } from '@/stores';
+import { BallotOptionsEditor, MIN_BALLOT_OPTIONS } from './BallotOptionsEditor';
 
 interface StepReviewProps {
   output: ThinkTankOutput;
@@ -20,6 +22,9 @@ interface StepReviewProps {
   onSubmit: () => void;
   onBack: () => void;
   editedSections: (keyof ThinkTankOutput)[];
+  /** Ranked-choice options; undefined for a yes/no proposal */
+  ballotOptions?: BallotOption[];
+  onBallotOptionsChange: (options: BallotOption[] | undefined) => void;
 }
 
 interface SectionProps {
@@ -233,6 +238,27 @@ function RiskMatrix({ items }: { items: RiskItem[] }) {
   );
 }
 
+/**
+ * Check ranked-choice options before submission
+ *
+ * @returns An error message, or null if the options are valid (or the proposal is yes/no)
+ */
+function validateBallotOptions(options?: BallotOption[]): string | null {
+  if (!options) return null;
+
+  const labels = options.map((o) => o.label.trim().toLowerCase());
+  if (labels.some((label) => !label)) {
+    return 'Give every option a name.';
+  }
+  if (labels.length < MIN_BALLOT_OPTIONS) {
+    return `Ranked-choice proposals need at least ${MIN_BALLOT_OPTIONS} options.`;
+  }
+  if (new Set(labels).size !== labels.length) {
+    return 'Each option needs a different name.';
+  }
+  return null;
+}
+
 export function StepReview({
   output,
   isRefining,
@@ -241,7 +267,19 @@ export function StepReview({
   onSubmit,
   onBack,
   editedSections,
+  ballotOptions,
+  onBallotOptionsChange,
 }: StepReviewProps) {
+  const [optionsError, setOptionsError] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    const error = validateBallotOptions(ballotOptions);
+    setOptionsError(error);
+    if (!error) {
+      onSubmit();
+    }
+  };
+
   const handleRefine = (section: keyof ThinkTankOutput) => async (feedback: string) => {
     await onRefine(section, feedback);
   };
@@ -338,11 +376,21 @@ export function StepReview({
         </Section>
       </div>
 
+      <div className="space-y-2">
+        <h3 className="text-lg font-semibold text-gray-900">Voting</h3>
+        <BallotOptionsEditor options={ballotOptions} onChange={onBallotOptionsChange} />
+        {optionsError && (
+          <p role="alert" className="text-sm text-red-600">
+            {optionsError}
+          </p>
+        )}
+      </div>
+
       <div className="flex justify-between pt-4">
         <Button type="button" variant="outline" onClick={onBack}>
           Back to Edit
         </Button>
-        <Button type="button" onClick={onSubmit}>
+        <Button type="button" onClick={handleSubmit}>
           Submit Proposal
         </Button>
       </div>
@@ -6,17 +6,27 @@
  *
  * Story: 9-1-1-think-tank-proposal-creation
  * AC: 9, 10, 11
+ * Voting modes: the proposer picks how votes are counted
+ * Ranked choice: multi-option proposals list their ballot options instead
  */
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useStore } from '@nanostores/react';
-import { $drafts, deleteDraft } from '@/stores';
+import { $drafts, deleteDraft, type VotingMode } from '@/stores';
 import { Button } from '../../../components/ui/button';
 import { GovernanceCanisterService } from '../../../services/governanceCanister';
+import { VOTING_MODE_LABELS } from '../../../utils/votingPower';
 
 type SubmissionState = 'idle' | 'submitting' | 'success' | 'error';
 
+const VOTING_MODE_DESCRIPTIONS: Record<VotingMode, string> = {
+  simple: 'Every member casts one equal vote.',
+  weighted: 'Votes are weighted by the DOM each member holds when the proposal is created.',
+  quadratic:
+    'Members spend DOM-based voice credits; each extra vote costs more, favoring broad support.',
+};
+
 export function SubmitConfirmation() {
   const navigate = useNavigate();
   const { draftId } = useParams<{ draftId: string }>();
@@ -27,6 +37,7 @@ export function SubmitConfirmation() {
   const [proposalId, setProposalId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
+  const [votingMode, setVotingMode] = useState<VotingMode>('simple');
 
   // Use ref to prevent redirect race condition when draft is deleted after success
   const submissionSucceededRef = useRef(false);
@@ -114,6 +125,11 @@ export function SubmitConfirmation() {
     (sum: number, item: { amount: number }) => sum + item.amount,
     0
   );
+  const ballotOptions = draft.ballotOptions?.map((option) => ({
+    id: option.id,
+    label: option.label.trim(),
+    ...(option.description?.trim() && { description: option.description.trim() }),
+  }));
 
   const handleSubmit = async () => {
     if (!draft.thinkTankOutput || !draft.thinkTankRequestId) return;
@@ -128,6 +144,7 @@ export function SubmitConfirmation() {
       vertical: draft.vertical,
       thinkTankOutput: draft.thinkTankOutput,
       thinkTankRequestId: draft.thinkTankRequestId,
+      ...(ballotOptions ? { ballotOptions } : { votingMode }),
     });
 
     if (response.success && response.proposalId) {
@@ -207,6 +224,62 @@ export function SubmitConfirmation() {
           </div>
         </div>
 
+        {/* Voting method: ranked-choice proposals are one member, one ballot */}
+        {ballotOptions ? (
+          <div className="mt-6 rounded-lg border border-gray-200 p-4">
+            <span className="text-xs text-gray-500 uppercase tracking-wide">
+              Ranked-Choice Options
+            </span>
+            <ol className="mt-2 list-decimal list-inside space-y-1 text-sm text-gray-900">
+              {ballotOptions.map((option) => (
+                <li key={option.id}>
+                  <span className="font-medium">{option.label}</span>
+                  {option.description && (
+                    <span className="text-gray-600"> — {option.description}</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+            <p className="mt-3 text-xs text-gray-500">
+              Members rank these options; the winner is decided by instant runoff.
+            </p>
+          </div>
+        ) : (
+          <fieldset className="mt-6 rounded-lg border border-gray-200 p-4">
+            <legend className="px-1 text-xs text-gray-500 uppercase tracking-wide">
+              Voting Method
+            </legend>
+            <div className="space-y-3">
+              {(Object.keys(VOTING_MODE_LABELS) as VotingMode[]).map((mode) => (
+                <label key={mode} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="voting-mode"
+                    value={mode}
+                    checked={votingMode === mode}
+                    onChange={() => setVotingMode(mode)}
+                    disabled={submissionState === 'submitting'}
+                    className="mt-1 accent-teal-600"
+                  />
+                  <span>
+                    <span className="block font-medium text-gray-900">
+                      {VOTING_MODE_LABELS[mode]}
+                    </span>
+                    <span className="block text-sm text-gray-600">
+                      {VOTING_MODE_DESCRIPTIONS[mode]}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {votingMode !== 'simple' && (
+              <p className="mt-3 text-xs text-gray-500">
+                Member balances are snapshotted when the proposal is created.
+              </p>
+            )}
+          </fieldset>
+        )}
+
         {/* Error message */}
         {submissionState === 'error' && error && (
           <div className="mt-6 rounded-lg bg-red-50 p-4">
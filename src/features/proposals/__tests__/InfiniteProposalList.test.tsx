@@ -0,0 +1,180 @@
+/**
+ * InfiniteProposalList Component Tests
+ *
+ * Tests for windowed rendering, loading more and scroll restoration, and
+ * for the paged/infinite mode toggle.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InfiniteProposalList } from '../components/InfiniteProposalList';
+import { ProposalListModeToggle } from '../components/ProposalListModeToggle';
+import {
+  $proposalListMode,
+  $proposalListScroll,
+  saveProposalListScroll,
+  type ProposalListItem,
+} from '@/stores';
+
+function makeProposals(count: number): ProposalListItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `prop-${i}`,
+    title: `Proposal ${i}`,
+    proposer: 'member',
+    status: 'Active' as const,
+    votesFor: 0,
+    votesAgainst: 0,
+    votesAbstain: 0,
+    votingEndsAt: Date.now() + 86400000,
+    createdAt: Date.now() - i,
+  }));
+}
+
+function renderList(props: Partial<React.ComponentProps<typeof InfiniteProposalList>> = {}) {
+  const onLoadMore = vi.fn();
+  const result = render(
+    <MemoryRouter>
+      <InfiniteProposalList
+        proposals={makeProposals(3)}
+        votedProposalIds={new Set()}
+        hasMore={false}
+        isLoadingMore={false}
+        onLoadMore={onLoadMore}
+        listKey="list"
+        {...props}
+      />
+    </MemoryRouter>
+  );
+  return { ...result, onLoadMore };
+}
+
+describe('InfiniteProposalList', () => {
+  const scrollTo = vi.fn();
+
+  beforeEach(() => {
+    $proposalListScroll.set(null);
+    scrollTo.mockClear();
+    vi.stubGlobal('scrollTo', scrollTo);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should render only the cards near the viewport', () => {
+    renderList({ proposals: makeProposals(2000) });
+
+    const cards = screen.getAllByRole('article');
+    expect(cards.length).toBeGreaterThan(0);
+    expect(cards.length).toBeLessThan(20);
+    expect(screen.getByRole('feed')).toHaveStyle({ paddingTop: '0px' });
+  });
+
+  it('should forget measured card heights when the list changes', () => {
+    const rect = vi
+      .spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+      .mockReturnValue({ top: 0, height: 400 } as DOMRect);
+    const proposals = makeProposals(100);
+    const { rerender } = renderList({ proposals, listKey: 'a' });
+
+    // Unlaid-out cards keep the estimate, so only the earlier measurements could remain
+    rect.mockReturnValue({ top: 0, height: 0 } as DOMRect);
+    rerender(
+      <MemoryRouter>
+        <InfiniteProposalList
+          proposals={proposals}
+          votedProposalIds={new Set()}
+          hasMore={false}
+          isLoadingMore={false}
+          onLoadMore={vi.fn()}
+          listKey="b"
+        />
+      </MemoryRouter>
+    );
+
+    // Ten estimated 160px cards cover the 768px viewport plus overscan
+    expect(screen.getByRole('feed')).toHaveStyle({ paddingBottom: `${90 * 160}px` });
+    rect.mockRestore();
+  });
+
+  it('should load more when the end of the list is in view', () => {
+    const { onLoadMore } = renderList({ hasMore: true });
+
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+  });
+
+  it('should offer a button to load more far from the end', () => {
+    const { onLoadMore } = renderList({ proposals: makeProposals(200), hasMore: true });
+    expect(onLoadMore).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Load more proposals' }));
+
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show progress while loading and the end once everything is loaded', () => {
+    const { rerender } = renderList({ hasMore: true, isLoadingMore: true });
+    expect(screen.getByRole('status')).toHaveTextContent('Loading more proposals...');
+    expect(screen.getByRole('feed')).toHaveAttribute('aria-busy', 'true');
+
+    rerender(
+      <MemoryRouter>
+        <InfiniteProposalList
+          proposals={makeProposals(3)}
+          votedProposalIds={new Set()}
+          hasMore={false}
+          isLoadingMore={false}
+          onLoadMore={vi.fn()}
+          listKey="list"
+        />
+      </MemoryRouter>
+    );
+    expect(screen.getByText('All 3 proposals loaded')).toBeInTheDocument();
+  });
+
+  it('should restore the saved scroll position for the same list', () => {
+    saveProposalListScroll('list', 900);
+
+    renderList();
+
+    expect(scrollTo).toHaveBeenCalledWith(0, 900);
+  });
+
+  it('should not restore a position saved for another list', () => {
+    saveProposalListScroll('other', 900);
+
+    renderList();
+
+    expect(scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should save the scroll position when leaving', () => {
+    vi.stubGlobal('scrollY', 640);
+    const { unmount } = renderList();
+
+    unmount();
+
+    expect($proposalListScroll.get()).toEqual({ listKey: 'list', offset: 640 });
+  });
+});
+
+describe('ProposalListModeToggle', () => {
+  beforeEach(() => {
+    $proposalListMode.set('paged');
+  });
+
+  it('should switch to infinite scroll and back', () => {
+    render(<ProposalListModeToggle />);
+    const infinite = screen.getByRole('button', { name: 'Infinite scroll' });
+    expect(screen.getByRole('button', { name: 'Pages' })).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(infinite);
+    expect($proposalListMode.get()).toBe('infinite');
+    expect(infinite).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pages' }));
+    expect($proposalListMode.get()).toBe('paged');
+  });
+});
@@ -12,7 +12,7 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ProposalCard } from '../components/ProposalCard';
-import type { ProposalListItem } from '@/stores';
+import { $watchlist, type ProposalListItem } from '@/stores';
 
 // Mock useNavigate
 const mockNavigate = vi.fn();
@@ -203,4 +203,67 @@ describe('ProposalCard', () => {
       expect(card).toHaveAttribute('aria-label', expect.stringContaining('Test Proposal Title'));
     });
   });
+
+  describe('Watch toggle', () => {
+    beforeEach(() => {
+      $watchlist.set([]);
+    });
+
+    it('should watch and unwatch without opening the proposal', () => {
+      renderWithRouter(<ProposalCard proposal={baseProposal} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Watch proposal' }));
+      expect($watchlist.get()).toEqual([
+        expect.objectContaining({ proposalId: 'prop-123', title: 'Test Proposal Title' }),
+      ]);
+
+      const unwatch = screen.getByRole('button', { name: 'Stop watching proposal' });
+      expect(unwatch).toHaveAttribute('aria-pressed', 'true');
+      fireEvent.keyDown(unwatch, { key: 'Enter' });
+      fireEvent.click(unwatch);
+
+      expect($watchlist.get()).toEqual([]);
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Search highlights', () => {
+    it('should mark matched words in the title', () => {
+      renderWithRouter(
+        <ProposalCard
+          proposal={baseProposal}
+          highlights={[{ field: 'title', text: 'Test Proposal Title', ranges: [[5, 13]] }]}
+        />
+      );
+
+      const marks = screen.getAllByText('Proposal', { selector: 'mark' });
+      expect(marks).toHaveLength(1);
+      expect(screen.getByRole('heading')).toHaveTextContent('Test Proposal Title');
+    });
+
+    it('should show a labelled snippet of the best-matching text', () => {
+      renderWithRouter(
+        <ProposalCard
+          proposal={baseProposal}
+          highlights={[
+            {
+              field: 'proposedSolution',
+              text: '…install solar panels on the hall',
+              ranges: [[9, 14]],
+            },
+          ]}
+        />
+      );
+
+      const snippet = screen.getByTestId('search-snippet');
+      expect(snippet).toHaveTextContent('Solution: …install solar panels on the hall');
+      expect(screen.getByText('solar', { selector: 'mark' })).toBeInTheDocument();
+    });
+
+    it('should show no snippet without highlights', () => {
+      renderWithRouter(<ProposalCard proposal={baseProposal} />);
+
+      expect(screen.queryByTestId('search-snippet')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -1,7 +1,8 @@
 /**
  * ProposalFilters Component Tests
  *
- * Tests for status filters, My Proposals, and Not Voted toggles.
+ * Tests for status filters, My Proposals, and Not Voted toggles, and
+ * vertical, scale and budget filters.
  *
  * Story: 9-1-3-proposal-listing
  * AC: 2, 8, 9
@@ -11,7 +12,12 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ProposalFilters } from '../components/ProposalFilters';
-import { $proposalFilters, $proposalStatusCounts } from '@/stores';
+import {
+  $proposalFilters,
+  $proposalStatusCounts,
+  $proposalVerticalCounts,
+  $watchlist,
+} from '@/stores';
 
 // Reset atoms before each test
 beforeEach(() => {
@@ -20,6 +26,11 @@ beforeEach(() => {
     search: '',
     myProposals: false,
     notVoted: false,
+    watching: false,
+    verticals: [],
+    scales: [],
+    budgetMin: null,
+    budgetMax: null,
   });
   $proposalStatusCounts.set({
     Active: 10,
@@ -79,6 +90,11 @@ describe('ProposalFilters', () => {
         search: '',
         myProposals: false,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       render(<ProposalFilters isAuthenticated={false} />);
@@ -154,6 +170,69 @@ describe('ProposalFilters', () => {
     });
   });
 
+  describe('Filter by Watching', () => {
+    it('should show the watchlist size and toggle the filter, signed out too', () => {
+      $watchlist.set([{ proposalId: 'prop-1', title: 'Garden', watchedAt: 0 }]);
+      render(<ProposalFilters isAuthenticated={false} />);
+
+      const watching = screen.getByRole('checkbox', { name: /Watching/ });
+      expect(watching).toBeEnabled();
+      expect(screen.getByText('(1)')).toBeInTheDocument();
+      fireEvent.click(watching);
+
+      expect($proposalFilters.get().watching).toBe(true);
+      $watchlist.set([]);
+    });
+  });
+
+  describe('Vertical, scale and budget filters', () => {
+    it('should show counts per vertical and toggle a vertical', () => {
+      $proposalVerticalCounts.set({
+        Housing: 0,
+        Food: 7,
+        Energy: 0,
+        Education: 0,
+        Community: 0,
+        Infrastructure: 0,
+        Other: 0,
+      });
+
+      render(<ProposalFilters isAuthenticated={false} />);
+
+      expect(screen.getByText('(7)')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('checkbox', { name: /Food/ }));
+
+      expect($proposalFilters.get().verticals).toEqual(['Food']);
+    });
+
+    it('should toggle a scale filter', () => {
+      render(<ProposalFilters isAuthenticated={false} />);
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Large' }));
+
+      expect($proposalFilters.get().scales).toEqual(['large']);
+    });
+
+    it('should set and clear budget bounds', () => {
+      render(<ProposalFilters isAuthenticated={false} />);
+
+      fireEvent.change(screen.getByLabelText('Minimum budget'), { target: { value: '1000' } });
+      fireEvent.change(screen.getByLabelText('Maximum budget'), { target: { value: '5000' } });
+      expect($proposalFilters.get()).toMatchObject({ budgetMin: 1000, budgetMax: 5000 });
+
+      fireEvent.change(screen.getByLabelText('Minimum budget'), { target: { value: '' } });
+      expect($proposalFilters.get().budgetMin).toBeNull();
+    });
+
+    it('should warn when the minimum budget is above the maximum', () => {
+      $proposalFilters.set({ ...$proposalFilters.get(), budgetMin: 9000, budgetMax: 100 });
+
+      render(<ProposalFilters isAuthenticated={false} />);
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Minimum budget is above the maximum');
+    });
+  });
+
   describe('Clear All button', () => {
     it('should show Clear All when filters are active', () => {
       $proposalFilters.set({
@@ -161,6 +240,11 @@ describe('ProposalFilters', () => {
         search: '',
         myProposals: false,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       render(<ProposalFilters isAuthenticated={false} />);
@@ -174,6 +258,11 @@ describe('ProposalFilters', () => {
         search: 'test',
         myProposals: true,
         notVoted: true,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       render(<ProposalFilters isAuthenticated={true} />);
@@ -207,8 +296,8 @@ describe('ProposalFilters', () => {
       render(<ProposalFilters isAuthenticated={true} />);
 
       const checkboxes = screen.getAllByRole('checkbox');
-      // 4 status + 2 member filters = 6 total
-      expect(checkboxes.length).toBe(6);
+      // 4 status + 3 member + 7 vertical + 3 scale filters = 17 total
+      expect(checkboxes.length).toBe(17);
     });
   });
 });
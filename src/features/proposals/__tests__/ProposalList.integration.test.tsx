@@ -55,6 +55,11 @@ describe('Task 10.9: Accessibility Audit', () => {
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     });
     $proposalSort.set('newest');
     $proposalPage.set(1);
@@ -132,6 +137,11 @@ describe('Task 10.9: Accessibility Audit', () => {
         search: '',
         myProposals: false,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       render(<ProposalFilters isAuthenticated={true} />);
@@ -193,6 +203,11 @@ describe('Task 10.11: Edge Cases', () => {
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     });
     $proposalSort.set('newest');
     $proposalPage.set(1);
@@ -279,6 +294,11 @@ describe('Task 10.12: Filter Edge Cases', () => {
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     });
     $proposalStatusCounts.set({ Active: 5, Passed: 10, Failed: 3, Pending: 2 });
   });
@@ -331,6 +351,11 @@ describe('Task 10.13: URL State Sync', () => {
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     });
     $proposalSort.set('newest');
     $proposalPage.set(1);
@@ -388,6 +413,11 @@ describe('Task 10.13: URL State Sync', () => {
         search: '',
         myProposals: false,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       const params = getUrlParams();
@@ -400,6 +430,11 @@ describe('Task 10.13: URL State Sync', () => {
         search: 'test query',
         myProposals: false,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       const params = getUrlParams();
@@ -427,6 +462,11 @@ describe('Task 10.13: URL State Sync', () => {
         search: '',
         myProposals: false,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
       $proposalSort.set('newest');
       $proposalPage.set(1);
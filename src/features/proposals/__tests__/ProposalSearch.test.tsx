@@ -20,6 +20,11 @@ beforeEach(() => {
     search: '',
     myProposals: false,
     notVoted: false,
+    watching: false,
+    verticals: [],
+    scales: [],
+    budgetMin: null,
+    budgetMax: null,
   });
   vi.useFakeTimers();
 });
@@ -0,0 +1,150 @@
+/**
+ * RevisionHistory and AmendProposalForm Tests
+ *
+ * Covers the revision list, section diff between revisions and the amendment
+ * form's validation and output.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
+import { RevisionHistory } from '../components/RevisionHistory';
+import { AmendProposalForm, type AmendProposalFormProps } from '../components/AmendProposalForm';
+import type { ProposalRevision, ThinkTankOutput } from '@/stores';
+
+const OUTPUT: ThinkTankOutput = {
+  problemStatement: 'The garden lacks water.',
+  proposedSolution: 'Install a rain barrel.',
+  budgetBreakdown: [{ category: 'Materials', amount: 500, description: 'Barrels' }],
+  timeline: [{ phase: 'Build', duration: '2 weeks', deliverables: ['Barrels installed'] }],
+  successMetrics: ['Garden watered weekly'],
+  riskAssessment: [],
+  agentContributions: [],
+};
+
+function makeRevision(
+  revision: number,
+  overrides: Partial<ThinkTankOutput> = {},
+  summary = ''
+): ProposalRevision {
+  return {
+    revision,
+    title: 'Garden Water',
+    thinkTankOutput: { ...OUTPUT, ...overrides },
+    summary,
+    createdAt: Date.UTC(2026, 2, revision),
+  };
+}
+
+const REVISIONS = [
+  makeRevision(1),
+  makeRevision(
+    2,
+    {
+      proposedSolution: 'Install two rain barrels.',
+      budgetBreakdown: [{ category: 'Materials', amount: 800, description: 'Barrels' }],
+    },
+    'Doubled barrels'
+  ),
+];
+
+describe('RevisionHistory', () => {
+  it('renders nothing for a proposal with a single revision', () => {
+    const { container } = render(<RevisionHistory revisions={[makeRevision(1)]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists revisions newest first and marks the voted revision', () => {
+    render(<RevisionHistory revisions={REVISIONS} votedRevision={1} />);
+
+    const list = screen.getByRole('list', { name: 'Revisions' });
+    const items = within(list).getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('Revision 2');
+    expect(items[0]).toHaveTextContent('Current');
+    expect(items[0]).toHaveTextContent('Doubled barrels');
+    expect(items[1]).toHaveTextContent('Original submission');
+    expect(items[1]).toHaveTextContent('Your vote');
+  });
+
+  it('diffs the previous revision against the current one by default', () => {
+    render(<RevisionHistory revisions={REVISIONS} />);
+
+    const solution = screen.getByRole('region', { name: 'Proposed Solution' });
+    expect(within(solution).getByText('a').tagName).toBe('DEL');
+    expect(within(solution).getByText('two').tagName).toBe('INS');
+
+    const problem = screen.getByRole('region', { name: 'Problem Statement' });
+    expect(within(problem).getByText('No changes')).toBeInTheDocument();
+
+    expect(screen.getByText('Budget +300 DOM')).toBeInTheDocument();
+  });
+
+  it('shows no changes when comparing a revision with itself', () => {
+    render(<RevisionHistory revisions={REVISIONS} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Compare' }), {
+      target: { value: '2' },
+    });
+
+    expect(screen.getByText('Budget unchanged')).toBeInTheDocument();
+    expect(screen.getAllByText('No changes')).toHaveLength(8);
+  });
+});
+
+function renderForm(onSubmit: AmendProposalFormProps['onSubmit']) {
+  return render(
+    <AmendProposalForm revision={makeRevision(1)} onSubmit={onSubmit} onCancel={vi.fn()} />
+  );
+}
+
+describe('AmendProposalForm', () => {
+  it('requires a summary of changes', async () => {
+    const onSubmit = vi.fn();
+    renderForm(onSubmit);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Publish Revision' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Describe what changed in this revision.'
+    );
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('rejects an amendment with no changes', async () => {
+    const onSubmit = vi.fn();
+    renderForm(onSubmit);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Summary of changes' }), {
+      target: { value: 'Nothing really' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Publish Revision' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('No changes to publish.');
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('submits the edited budget and timeline', async () => {
+    const onSubmit = vi.fn().mockResolvedValue(true);
+    renderForm(onSubmit);
+
+    fireEvent.change(screen.getByRole('spinbutton', { name: 'Budget item 1 amount' }), {
+      target: { value: '650' },
+    });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Phase 1 deliverables' }), {
+      target: { value: 'Barrels installed, Gutters connected' },
+    });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Summary of changes' }), {
+      target: { value: 'Added gutters' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Publish Revision' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    const values = onSubmit.mock.calls[0][0];
+    expect(values.summary).toBe('Added gutters');
+    expect(values.thinkTankOutput.budgetBreakdown[0].amount).toBe(650);
+    expect(values.thinkTankOutput.timeline[0].deliverables).toEqual([
+      'Barrels installed',
+      'Gutters connected',
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * SavedViews Component Tests
+ *
+ * Tests for saving, applying, managing and sharing saved proposal views.
+ */
+
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SavedViews } from '../components/SavedViews';
+import {
+  $savedProposalViews,
+  $proposalFilters,
+  $proposalSort,
+  createSavedProposalView,
+  type ProposalFilters,
+} from '@/stores';
+
+const DEFAULT_FILTERS: ProposalFilters = {
+  status: [],
+  search: '',
+  myProposals: false,
+  notVoted: false,
+  watching: false,
+  verticals: [],
+  scales: [],
+  budgetMin: null,
+  budgetMax: null,
+};
+
+beforeEach(() => {
+  $savedProposalViews.set([]);
+  $proposalFilters.set({ ...DEFAULT_FILTERS, status: [] });
+  $proposalSort.set('newest');
+});
+
+describe('SavedViews', () => {
+  it('should save the current filters as a named view', async () => {
+    const user = userEvent.setup();
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: ['Active'] });
+
+    render(<SavedViews />);
+
+    await user.click(screen.getByRole('button', { name: 'Save current view' }));
+    await user.type(screen.getByLabelText('New view name'), 'Open now');
+    await user.click(screen.getByRole('button', { name: 'Save view' }));
+
+    const chips = screen.getByRole('group', { name: 'Saved views' });
+    expect(within(chips).getByRole('button', { name: 'Open now' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+  });
+
+  it('should show a validation error for duplicate names', async () => {
+    const user = userEvent.setup();
+    createSavedProposalView('Mine');
+
+    render(<SavedViews />);
+
+    await user.click(screen.getByRole('button', { name: 'Save current view' }));
+    await user.type(screen.getByLabelText('New view name'), 'mine');
+    await user.click(screen.getByRole('button', { name: 'Save view' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('A view with this name already exists');
+    expect($savedProposalViews.get()).toHaveLength(1);
+  });
+
+  it('should apply a view when its chip is clicked', async () => {
+    const user = userEvent.setup();
+    $proposalSort.set('oldest');
+    createSavedProposalView('Oldest first');
+    $proposalSort.set('newest');
+
+    render(<SavedViews />);
+
+    const chip = screen.getByRole('button', { name: 'Oldest first' });
+    expect(chip).toHaveAttribute('aria-pressed', 'false');
+
+    await user.click(chip);
+
+    expect($proposalSort.get()).toBe('oldest');
+    expect(chip).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should reorder, rename and delete views from the manage list', async () => {
+    const user = userEvent.setup();
+    createSavedProposalView('A');
+    createSavedProposalView('B');
+
+    render(<SavedViews />);
+
+    await user.click(screen.getByRole('button', { name: 'Manage' }));
+    await user.click(screen.getByRole('button', { name: 'Move B up' }));
+    expect($savedProposalViews.get().map((v) => v.name)).toEqual(['B', 'A']);
+
+    await user.click(screen.getByRole('button', { name: 'Rename A' }));
+    const input = screen.getByLabelText('New name for A');
+    await user.clear(input);
+    await user.type(input, 'Renamed');
+    await user.click(screen.getByRole('button', { name: 'Rename' }));
+
+    await user.click(screen.getByRole('button', { name: 'Delete B' }));
+
+    expect($savedProposalViews.get().map((v) => v.name)).toEqual(['Renamed']);
+  });
+
+  it('should copy a share link for a view', async () => {
+    const user = userEvent.setup();
+    const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockResolvedValue();
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: ['Active'] });
+    createSavedProposalView('Open');
+
+    render(<SavedViews />);
+
+    await user.click(screen.getByRole('button', { name: 'Manage' }));
+    await user.click(screen.getByRole('button', { name: 'Copy link to Open' }));
+
+    expect(writeText).toHaveBeenCalledWith(
+      `${window.location.origin}/proposals?status=Active&view=Open`
+    );
+  });
+
+  it('should offer to save a view opened from a shared link', async () => {
+    const user = userEvent.setup();
+
+    render(<SavedViews sharedViewName="Team picks" />);
+
+    await user.click(screen.getByRole('button', { name: /Save “Team picks”/ }));
+
+    expect(screen.getByLabelText('New view name')).toHaveValue('Team picks');
+  });
+});
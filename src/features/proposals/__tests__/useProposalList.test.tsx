@@ -21,15 +21,25 @@ import {
   $proposalListLoading,
   $proposalListError,
   $proposalStatusCounts,
+  $proposalVerticalCounts,
+  $proposalListMode,
+  $proposalListCursor,
 } from '@/stores';
+import {
+  clearProposalSearchIndex,
+  resetProposalSearchService,
+} from '../../../services/proposalSearchService';
 
 // Mock the governance canister service
 const mockGetProposals = vi.fn();
 const mockGetProposalCountsByStatus = vi.fn();
+const mockGetProposalCountsByVertical = vi.fn();
 
 vi.mock('../../../services/governanceCanister', () => ({
   getProposals: (...args: unknown[]) => mockGetProposals(...args),
   getProposalCountsByStatus: () => mockGetProposalCountsByStatus(),
+  getProposalCountsByVertical: () => mockGetProposalCountsByVertical(),
+  getCurrentProposerPrincipal: () => 'user-1',
   TimeoutError: class TimeoutError extends Error {
     constructor(message: string) {
       super(message);
@@ -76,6 +86,16 @@ const mockStatusCounts = {
   Pending: 2,
 };
 
+const mockVerticalCounts = {
+  Housing: 1,
+  Food: 4,
+  Energy: 0,
+  Education: 2,
+  Community: 3,
+  Infrastructure: 0,
+  Other: 0,
+};
+
 describe('useProposalList', () => {
   beforeEach(() => {
     // Reset all atoms
@@ -85,9 +105,16 @@ describe('useProposalList', () => {
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     });
     $proposalSort.set('newest');
     $proposalPage.set(1);
+    $proposalListMode.set('paged');
+    $proposalListCursor.set(null);
     $proposalTotalCount.set(0);
     $proposalListLoading.set(false);
     $proposalListError.set(null);
@@ -109,10 +136,13 @@ describe('useProposalList', () => {
       pageSize: 20,
     });
     mockGetProposalCountsByStatus.mockResolvedValue(mockStatusCounts);
+    mockGetProposalCountsByVertical.mockResolvedValue(mockVerticalCounts);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     vi.clearAllTimers();
+    await clearProposalSearchIndex();
+    resetProposalSearchService();
   });
 
   describe('Task 10.7: Basic hook functionality', () => {
@@ -184,12 +214,25 @@ describe('useProposalList', () => {
       });
     });
 
+    it('should store vertical counts for filter badges', async () => {
+      renderHook(() => useProposalList());
+
+      await waitFor(() => {
+        expect($proposalVerticalCounts.get()).toEqual(mockVerticalCounts);
+      });
+    });
+
     it('should pass filters to getProposals', async () => {
       $proposalFilters.set({
         status: ['Active', 'Pending'],
         search: 'test',
         myProposals: true,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       renderHook(() => useProposalList());
@@ -203,7 +246,9 @@ describe('useProposalList', () => {
           }),
           expect.any(String),
           expect.any(Number),
-          expect.any(Object)
+          expect.any(Object),
+          undefined,
+          []
         );
       });
     });
@@ -218,7 +263,9 @@ describe('useProposalList', () => {
           expect.any(Object),
           'oldest',
           expect.any(Number),
-          expect.any(Object)
+          expect.any(Object),
+          undefined,
+          []
         );
       });
     });
@@ -233,12 +280,166 @@ describe('useProposalList', () => {
           expect.any(Object),
           expect.any(String),
           3,
-          expect.any(Object)
+          expect.any(Object),
+          undefined,
+          []
         );
       });
     });
   });
 
+  describe('Infinite scroll', () => {
+    const nextProposal = { ...mockProposals[0], id: 'prop-3', title: 'Test Proposal 3' };
+
+    beforeEach(() => {
+      $proposalListMode.set('infinite');
+      mockGetProposals.mockResolvedValueOnce({
+        items: mockProposals,
+        total: 3,
+        page: 1,
+        pageSize: 20,
+        nextCursor: 'cursor-1',
+      });
+    });
+
+    it('should fetch the first page by cursor', async () => {
+      const { result } = renderHook(() => useProposalList());
+
+      await waitFor(() => {
+        expect(result.current.hasMore).toBe(true);
+      });
+      expect(mockGetProposals).toHaveBeenCalledWith(
+        expect.any(Object),
+        'newest',
+        1,
+        expect.any(Object),
+        null,
+        []
+      );
+      expect(result.current.proposals).toHaveLength(2);
+    });
+
+    it('should append the next page on loadMore', async () => {
+      const { result } = renderHook(() => useProposalList());
+      await waitFor(() => {
+        expect(result.current.hasMore).toBe(true);
+      });
+
+      mockGetProposals.mockResolvedValueOnce({
+        items: [nextProposal],
+        total: 3,
+        page: 1,
+        pageSize: 20,
+        nextCursor: null,
+      });
+      act(() => {
+        result.current.loadMore();
+      });
+
+      await waitFor(() => {
+        expect(result.current.proposals.map((p) => p.id)).toEqual(['prop-1', 'prop-2', 'prop-3']);
+      });
+      expect(mockGetProposals).toHaveBeenLastCalledWith(
+        expect.any(Object),
+        'newest',
+        1,
+        expect.any(Object),
+        'cursor-1',
+        []
+      );
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('should keep a loaded list when remounted', async () => {
+      const first = renderHook(() => useProposalList());
+      await waitFor(() => {
+        expect(first.result.current.hasMore).toBe(true);
+      });
+      first.unmount();
+      const callCount = mockGetProposals.mock.calls.length;
+
+      const { result } = renderHook(() => useProposalList());
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(mockGetProposals).toHaveBeenCalledTimes(callCount);
+      expect(result.current.proposals).toHaveLength(2);
+      expect(result.current.hasMore).toBe(true);
+    });
+  });
+
+  describe('Full-text search', () => {
+    const searchable = [
+      {
+        ...mockProposals[0],
+        title: 'Rooftop solar for the co-op',
+        problemStatement: 'Our electricity bills keep rising every winter.',
+      },
+      {
+        ...mockProposals[1],
+        title: 'Community garden',
+        proposedSolution: 'Install solar lighting along the garden paths.',
+      },
+    ];
+
+    it('should search loaded proposals beyond their titles, with highlights', async () => {
+      mockGetProposals.mockResolvedValue({ items: searchable, total: 0, page: 1, pageSize: 20 });
+      $proposalFilters.set({ ...$proposalFilters.get(), search: 'electrcity' });
+
+      const { result } = renderHook(() => useProposalList());
+
+      await waitFor(() => {
+        expect(result.current.proposals.map((p) => p.id)).toEqual(['prop-1']);
+      });
+      expect(result.current.totalCount).toBe(1);
+      expect(result.current.searchHighlights['prop-1']).toEqual([
+        expect.objectContaining({ field: 'problemStatement', ranges: [[4, 15]] }),
+      ]);
+    });
+
+    it('should rank title matches first and apply the other filters', async () => {
+      mockGetProposals.mockResolvedValue({ items: searchable, total: 0, page: 1, pageSize: 20 });
+      $proposalFilters.set({ ...$proposalFilters.get(), search: 'solar' });
+
+      const { result } = renderHook(() => useProposalList());
+
+      await waitFor(() => {
+        expect(result.current.proposals.map((p) => p.id)).toEqual(['prop-1', 'prop-2']);
+      });
+
+      act(() => {
+        $proposalFilters.set({ ...$proposalFilters.get(), status: ['Passed'] });
+      });
+
+      await waitFor(() => {
+        expect(result.current.proposals.map((p) => p.id)).toEqual(['prop-2']);
+      });
+    });
+
+    it('should keep the server results when it finds more than the index', async () => {
+      mockGetProposals.mockResolvedValue({ items: searchable, total: 5, page: 1, pageSize: 20 });
+      $proposalFilters.set({ ...$proposalFilters.get(), search: 'electrcity' });
+
+      const { result } = renderHook(() => useProposalList());
+
+      await waitFor(() => {
+        expect(result.current.totalCount).toBe(5);
+      });
+      expect(result.current.proposals.map((p) => p.id)).toEqual(['prop-1', 'prop-2']);
+      expect(Object.keys(result.current.searchHighlights)).toEqual(['prop-1']);
+    });
+
+    it('should keep the server results when the index finds nothing', async () => {
+      $proposalFilters.set({ ...$proposalFilters.get(), search: 'zzzz' });
+
+      const { result } = renderHook(() => useProposalList());
+
+      await waitFor(() => {
+        expect(result.current.totalCount).toBe(20);
+      });
+      expect(result.current.searchHighlights).toEqual({});
+    });
+  });
+
   describe('Task 10.10: Error handling', () => {
     it('should set error on fetch failure', async () => {
       mockGetProposals.mockRejectedValue(new Error('Network error'));
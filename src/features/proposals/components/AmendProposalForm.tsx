@@ -0,0 +1,302 @@
+/**
+ * AmendProposalForm Component
+ *
+ * Lets the proposer edit a pending proposal's content and publish it as a
+ * new revision with a short summary of what changed.
+ */
+
+import React, { useState } from 'react';
+import { Button } from '../../../components/ui/button';
+import type { BudgetItem, ProposalRevision, ThinkTankOutput, TimelineItem } from '@/stores';
+
+export interface AmendProposalValues {
+  title: string;
+  thinkTankOutput: ThinkTankOutput;
+  summary: string;
+}
+
+export interface AmendProposalFormProps {
+  /** Revision being amended (normally the current one) */
+  revision: ProposalRevision;
+  isSubmitting?: boolean;
+  /** Publish the amendment; resolve to true to close the form */
+  onSubmit: (values: AmendProposalValues) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+/** Maximum length of the change summary */
+export const MAX_AMENDMENT_SUMMARY_LENGTH = 280;
+
+interface TimelineRow {
+  phase: string;
+  duration: string;
+  deliverables: string;
+}
+
+const INPUT_CLASSES =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500';
+
+function toTimelineRows(timeline: TimelineItem[]): TimelineRow[] {
+  return timeline.map((t) => ({ ...t, deliverables: t.deliverables.join(', ') }));
+}
+
+function fromTimelineRows(rows: TimelineRow[]): TimelineItem[] {
+  return rows
+    .filter((row) => row.phase.trim())
+    .map((row) => ({
+      phase: row.phase.trim(),
+      duration: row.duration.trim(),
+      deliverables: row.deliverables
+        .split(',')
+        .map((d) => d.trim())
+        .filter(Boolean),
+    }));
+}
+
+export function AmendProposalForm({
+  revision,
+  isSubmitting = false,
+  onSubmit,
+  onCancel,
+}: AmendProposalFormProps) {
+  const original = revision.thinkTankOutput;
+
+  const [title, setTitle] = useState(revision.title);
+  const [problemStatement, setProblemStatement] = useState(original.problemStatement);
+  const [proposedSolution, setProposedSolution] = useState(original.proposedSolution);
+  const [successMetrics, setSuccessMetrics] = useState(original.successMetrics.join('\n'));
+  const [budget, setBudget] = useState<BudgetItem[]>(original.budgetBreakdown);
+  const [timeline, setTimeline] = useState<TimelineRow[]>(toTimelineRows(original.timeline));
+  const [summary, setSummary] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateBudget = (index: number, patch: Partial<BudgetItem>) => {
+    setBudget((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const updateTimeline = (index: number, patch: Partial<TimelineRow>) => {
+    setTimeline((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!title.trim() || !problemStatement.trim() || !proposedSolution.trim()) {
+      setError('Title, problem statement and proposed solution are required.');
+      return;
+    }
+    if (!summary.trim()) {
+      setError('Describe what changed in this revision.');
+      return;
+    }
+    if (budget.some((item) => !Number.isFinite(item.amount) || item.amount < 0)) {
+      setError('Budget amounts must be zero or more.');
+      return;
+    }
+
+    const thinkTankOutput: ThinkTankOutput = {
+      ...original,
+      problemStatement: problemStatement.trim(),
+      proposedSolution: proposedSolution.trim(),
+      successMetrics: successMetrics
+        .split('\n')
+        .map((m) => m.trim())
+        .filter(Boolean),
+      budgetBreakdown: budget
+        .filter((item) => item.category.trim())
+        .map((item) => ({ ...item, category: item.category.trim() })),
+      timeline: fromTimelineRows(timeline),
+    };
+
+    if (
+      title.trim() === revision.title &&
+      JSON.stringify(thinkTankOutput) === JSON.stringify(original)
+    ) {
+      setError('No changes to publish.');
+      return;
+    }
+
+    await onSubmit({ title: title.trim(), thinkTankOutput, summary: summary.trim() });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-label="Amend proposal"
+      className="space-y-6 rounded-xl bg-white p-6 shadow-sm ring-1 ring-gray-100"
+    >
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Amend Proposal</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Amendments are published as revision {revision.revision + 1}. Members can compare it with
+          earlier revisions before voting.
+        </p>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-900">Title</span>
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className={INPUT_CLASSES}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-900">Problem Statement</span>
+        <textarea
+          value={problemStatement}
+          onChange={(e) => setProblemStatement(e.target.value)}
+          rows={4}
+          className={INPUT_CLASSES}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-900">Proposed Solution</span>
+        <textarea
+          value={proposedSolution}
+          onChange={(e) => setProposedSolution(e.target.value)}
+          rows={4}
+          className={INPUT_CLASSES}
+        />
+      </label>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-gray-900">Budget Breakdown</legend>
+        {budget.map((item, i) => (
+          <div key={i} className="grid grid-cols-[1fr_8rem_2fr_auto] gap-2">
+            <input
+              aria-label={`Budget item ${i + 1} category`}
+              value={item.category}
+              onChange={(e) => updateBudget(i, { category: e.target.value })}
+              placeholder="Category"
+              className={INPUT_CLASSES}
+            />
+            <input
+              aria-label={`Budget item ${i + 1} amount`}
+              type="number"
+              min={0}
+              value={item.amount}
+              onChange={(e) => updateBudget(i, { amount: e.target.valueAsNumber })}
+              className={INPUT_CLASSES}
+            />
+            <input
+              aria-label={`Budget item ${i + 1} description`}
+              value={item.description}
+              onChange={(e) => updateBudget(i, { description: e.target.value })}
+              placeholder="Description"
+              className={INPUT_CLASSES}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setBudget((rows) => rows.filter((_, index) => index !== i))}
+              aria-label={`Remove budget item ${i + 1}`}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setBudget((rows) => [...rows, { category: '', amount: 0, description: '' }])
+          }
+        >
+          Add budget item
+        </Button>
+      </fieldset>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-gray-900">Timeline</legend>
+        {timeline.map((row, i) => (
+          <div key={i} className="grid grid-cols-[1fr_8rem_2fr_auto] gap-2">
+            <input
+              aria-label={`Phase ${i + 1} name`}
+              value={row.phase}
+              onChange={(e) => updateTimeline(i, { phase: e.target.value })}
+              placeholder="Phase"
+              className={INPUT_CLASSES}
+            />
+            <input
+              aria-label={`Phase ${i + 1} duration`}
+              value={row.duration}
+              onChange={(e) => updateTimeline(i, { duration: e.target.value })}
+              placeholder="Duration"
+              className={INPUT_CLASSES}
+            />
+            <input
+              aria-label={`Phase ${i + 1} deliverables`}
+              value={row.deliverables}
+              onChange={(e) => updateTimeline(i, { deliverables: e.target.value })}
+              placeholder="Deliverables, comma separated"
+              className={INPUT_CLASSES}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setTimeline((rows) => rows.filter((_, index) => index !== i))}
+              aria-label={`Remove phase ${i + 1}`}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setTimeline((rows) => [...rows, { phase: '', duration: '', deliverables: '' }])
+          }
+        >
+          Add phase
+        </Button>
+      </fieldset>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-900">Success Metrics (one per line)</span>
+        <textarea
+          value={successMetrics}
+          onChange={(e) => setSuccessMetrics(e.target.value)}
+          rows={3}
+          className={INPUT_CLASSES}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-900">Summary of changes</span>
+        <input
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+          maxLength={MAX_AMENDMENT_SUMMARY_LENGTH}
+          placeholder="e.g. Reduced materials budget after community feedback"
+          className={INPUT_CLASSES}
+        />
+      </label>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Publishing...' : 'Publish Revision'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default AmendProposalForm;
@@ -0,0 +1,105 @@
+/**
+ * InfiniteProposalList Component
+ *
+ * Infinite-scroll proposal list. Only the cards near the viewport are
+ * rendered, so thousands of proposals stay responsive; the next page loads
+ * as the member nears the end. The scroll position is saved on leaving and
+ * restored when coming back to the same list.
+ */
+
+import React, { useEffect, useLayoutEffect, useRef } from 'react';
+import { saveProposalListScroll, takeProposalListScroll, type ProposalListItem } from '@/stores';
+import type { ProposalSearchHighlight } from '../../../utils/proposalSearch';
+import { useWindowedList } from '../hooks/useWindowedList';
+import { ProposalCard } from './ProposalCard';
+
+export interface InfiniteProposalListProps {
+  proposals: ProposalListItem[];
+  votedProposalIds: Set<string>;
+  highlights?: Record<string, ProposalSearchHighlight[]>;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  /** Identifies the list (filters and sort) for scroll restoration */
+  listKey: string;
+}
+
+/** Card height plus gap, assumed until a card is measured */
+const ESTIMATED_ROW_HEIGHT = 160;
+/** Start loading the next page this many cards before the end */
+const LOAD_MORE_THRESHOLD = 5;
+
+export function InfiniteProposalList({
+  proposals,
+  votedProposalIds,
+  highlights = {},
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  listKey,
+}: InfiniteProposalListProps) {
+  const { containerRef, start, end, paddingTop, paddingBottom, measureRow } = useWindowedList({
+    keys: proposals.map((p) => p.id),
+    listKey,
+    estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+  });
+
+  // Restore the position saved when the member left this list
+  const listKeyRef = useRef(listKey);
+  useEffect(() => {
+    listKeyRef.current = listKey;
+  }, [listKey]);
+  useLayoutEffect(() => {
+    const offset = takeProposalListScroll(listKeyRef.current);
+    if (offset !== null) {
+      window.scrollTo(0, offset);
+    }
+    return () => saveProposalListScroll(listKeyRef.current, window.scrollY);
+  }, []);
+
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && end >= proposals.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore();
+    }
+  }, [hasMore, isLoadingMore, end, proposals.length, onLoadMore]);
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        role="feed"
+        aria-busy={isLoadingMore}
+        aria-label="Proposals"
+        style={{ paddingTop, paddingBottom }}
+      >
+        {proposals.slice(start, end).map((proposal) => (
+          <div key={proposal.id} ref={measureRow(proposal.id)} className="pb-4">
+            <ProposalCard
+              proposal={proposal}
+              hasVoted={votedProposalIds.has(proposal.id)}
+              highlights={highlights[proposal.id]}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-center py-2 text-sm text-gray-500">
+        {isLoadingMore ? (
+          <span role="status">Loading more proposals...</span>
+        ) : hasMore ? (
+          <button
+            type="button"
+            onClick={onLoadMore}
+            className="rounded-md border border-gray-300 px-4 py-2 text-gray-700 hover:bg-gray-50"
+          >
+            Load more proposals
+          </button>
+        ) : (
+          proposals.length > 0 && <span>All {proposals.length} proposals loaded</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default InfiniteProposalList;
@@ -2,7 +2,9 @@
  * ProposalCard Component
  *
  * Displays a proposal summary card with title, status badge, vote counts,
- * deadline countdown, and voted indicator.
+ * deadline countdown, voted indicator and watch toggle. While searching,
+ * matched words are highlighted in the title and a snippet of the
+ * best-matching text.
  *
  * Story: 9-1-3-proposal-listing
  * ACs: 1, 6, 7
@@ -11,11 +13,43 @@
 import React, { useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import type { ProposalListItem, ProposalStatus } from '@/stores';
+import { VOTING_MODE_LABELS } from '../../../utils/votingPower';
+import type { ProposalSearchField, ProposalSearchHighlight } from '../../../utils/proposalSearch';
+import { WatchProposalButton } from './WatchProposalButton';
 
 export interface ProposalCardProps {
   proposal: ProposalListItem;
   hasVoted?: boolean;
   onNavigate?: (proposalId: string) => void;
+  /** Search matches to highlight */
+  highlights?: ProposalSearchHighlight[];
+}
+
+const SNIPPET_LABELS: Record<Exclude<ProposalSearchField, 'title'>, string> = {
+  problemStatement: 'Problem',
+  proposedSolution: 'Solution',
+  budget: 'Budget',
+};
+
+/**
+ * Text with the given [start, end) ranges wrapped in <mark>
+ */
+function HighlightedText({ text, ranges }: Pick<ProposalSearchHighlight, 'text' | 'ranges'>) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark key={start} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
 }
 
 /**
@@ -64,7 +98,12 @@ function formatDeadline(votingEndsAt: number | undefined | null): string {
   }
 }
 
-export function ProposalCard({ proposal, hasVoted = false, onNavigate }: ProposalCardProps) {
+export function ProposalCard({
+  proposal,
+  hasVoted = false,
+  onNavigate,
+  highlights = [],
+}: ProposalCardProps) {
   const navigate = useNavigate();
 
   // Defensive defaults for proposal fields
@@ -75,6 +114,9 @@ export function ProposalCard({ proposal, hasVoted = false, onNavigate }: Proposa
   const votesAbstain = proposal?.votesAbstain ?? 0;
   const votingEndsAt = proposal?.votingEndsAt;
   const proposalId = proposal?.id || '';
+  const votingMode = proposal?.votingMode ?? 'simple';
+  const titleHighlight = highlights.find((h) => h.field === 'title');
+  const snippet = highlights.find((h) => h.field !== 'title');
 
   const statusBadge = useMemo(() => getStatusBadge(status), [status]);
   const deadline = useMemo(() => formatDeadline(votingEndsAt), [votingEndsAt]);
@@ -118,7 +160,7 @@ export function ProposalCard({ proposal, hasVoted = false, onNavigate }: Proposa
       {/* Header: Title and Status Badge */}
       <div className="flex items-start justify-between gap-3 mb-3">
         <h3 className="text-base font-medium text-gray-900 line-clamp-2 flex-1" title={title}>
-          {title}
+          {titleHighlight ? <HighlightedText {...titleHighlight} /> : title}
         </h3>
         <span
           className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusBadge.bgColor} ${statusBadge.color} whitespace-nowrap`}
@@ -127,6 +169,14 @@ export function ProposalCard({ proposal, hasVoted = false, onNavigate }: Proposa
         </span>
       </div>
 
+      {/* Search snippet */}
+      {snippet && snippet.field !== 'title' && (
+        <p className="text-sm text-gray-600 mb-3 line-clamp-2" data-testid="search-snippet">
+          <span className="font-medium text-gray-700">{SNIPPET_LABELS[snippet.field]}: </span>
+          <HighlightedText {...snippet} />
+        </p>
+      )}
+
       {/* Vote Summary */}
       <div className="flex items-center gap-4 text-sm text-gray-600 mb-3">
         <span className="flex items-center gap-1">
@@ -141,6 +191,11 @@ export function ProposalCard({ proposal, hasVoted = false, onNavigate }: Proposa
           <span className="text-gray-500 font-medium">{votesAbstain}</span>
           <span>Abstain</span>
         </span>
+        {votingMode !== 'simple' && (
+          <span className="ml-auto rounded bg-indigo-50 px-2 py-0.5 text-xs text-indigo-700">
+            {VOTING_MODE_LABELS[votingMode]}
+          </span>
+        )}
       </div>
 
       {/* Footer: Deadline and Voted Indicator */}
@@ -149,21 +204,24 @@ export function ProposalCard({ proposal, hasVoted = false, onNavigate }: Proposa
           {deadline}
         </span>
 
-        {hasVoted && (
-          <span
-            className="inline-flex items-center gap-1 text-green-600 font-medium"
-            aria-label="You have voted on this proposal"
-          >
-            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
-              <path
-                fillRule="evenodd"
-                d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
-                clipRule="evenodd"
-              />
-            </svg>
-            You voted
-          </span>
-        )}
+        <div className="flex items-center gap-3">
+          {hasVoted && (
+            <span
+              className="inline-flex items-center gap-1 text-green-600 font-medium"
+              aria-label="You have voted on this proposal"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
+                <path
+                  fillRule="evenodd"
+                  d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                  clipRule="evenodd"
+                />
+              </svg>
+              You voted
+            </span>
+          )}
+          {proposalId && <WatchProposalButton proposalId={proposalId} title={title} compact />}
+        </div>
       </div>
     </article>
   );
@@ -1,8 +1,9 @@
 /**
  * ProposalFilters Component
  *
- * Multi-select status filters with My Proposals and Not Voted toggles.
- * Collapsible on mobile viewports.
+ * Multi-select status filters with My Proposals, Not Voted and Watching
+ * toggles, vertical and scale filters, and a budget range. Collapsible on
+ * mobile viewports.
  *
  * Story: 9-1-3-proposal-listing
  * ACs: 2, 8, 9
@@ -13,10 +14,17 @@ import { useStore } from '@nanostores/react';
 import {
   $proposalFilters,
   $proposalStatusCounts,
+  $proposalVerticalCounts,
+  $watchlist,
   toggleStatusFilter,
+  toggleVerticalFilter,
+  toggleScaleFilter,
+  setBudgetRange,
   updateFilters,
   clearAllFilters,
   type ProposalStatus,
+  type ProposalVertical,
+  type ProposalScale,
 } from '@/stores';
 import { ChevronDown, ChevronUp, X } from 'lucide-react';
 
@@ -32,9 +40,36 @@ const STATUS_OPTIONS: { value: ProposalStatus; label: string }[] = [
   { value: 'Pending', label: 'Pending' },
 ];
 
+const VERTICAL_OPTIONS: ProposalVertical[] = [
+  'Housing',
+  'Food',
+  'Energy',
+  'Education',
+  'Community',
+  'Infrastructure',
+  'Other',
+];
+
+const SCALE_OPTIONS: { value: ProposalScale; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+];
+
+/**
+ * Parse a budget input value; empty or invalid input clears the bound
+ */
+function parseBudgetInput(value: string): number | null {
+  if (value.trim() === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : null;
+}
+
 export function ProposalFilters({ isAuthenticated, className = '' }: ProposalFiltersProps) {
   const filters = useStore($proposalFilters);
   const statusCounts = useStore($proposalStatusCounts);
+  const verticalCounts = useStore($proposalVerticalCounts);
+  const watchlist = useStore($watchlist);
   const [isCollapsed, setIsCollapsed] = useState(false);
 
   const handleStatusToggle = useCallback((status: ProposalStatus) => {
@@ -51,6 +86,24 @@ export function ProposalFilters({ isAuthenticated, className = '' }: ProposalFil
     updateFilters({ notVoted: !filters.notVoted });
   }, [filters.notVoted, isAuthenticated]);
 
+  const handleWatchingToggle = useCallback(() => {
+    updateFilters({ watching: !filters.watching });
+  }, [filters.watching]);
+
+  const handleBudgetMinChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setBudgetRange(parseBudgetInput(event.target.value), filters.budgetMax);
+    },
+    [filters.budgetMax]
+  );
+
+  const handleBudgetMaxChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setBudgetRange(filters.budgetMin, parseBudgetInput(event.target.value));
+    },
+    [filters.budgetMin]
+  );
+
   const handleClearAll = useCallback(() => {
     clearAllFilters();
   }, []);
@@ -59,7 +112,17 @@ export function ProposalFilters({ isAuthenticated, className = '' }: ProposalFil
     filters.status.length > 0 ||
     filters.myProposals ||
     filters.notVoted ||
-    filters.search.length > 0;
+    filters.watching ||
+    filters.search.length > 0 ||
+    filters.verticals.length > 0 ||
+    filters.scales.length > 0 ||
+    filters.budgetMin !== null ||
+    filters.budgetMax !== null;
+
+  const isBudgetRangeInvalid =
+    filters.budgetMin !== null &&
+    filters.budgetMax !== null &&
+    filters.budgetMin > filters.budgetMax;
 
   return (
     <div className={`bg-white border border-gray-200 rounded-lg ${className}`}>
@@ -161,9 +224,103 @@ export function ProposalFilters({ isAuthenticated, className = '' }: ProposalFil
                 </span>
               )}
             </div>
+
+            {/* Watching */}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.watching}
+                onChange={handleWatchingToggle}
+                className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+              />
+              <span className="text-sm text-gray-700">
+                Watching
+                <span className="text-gray-400 ml-1">({watchlist.length})</span>
+              </span>
+            </label>
+          </div>
+        </div>
+
+        {/* Vertical Filters */}
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Vertical</h3>
+          <div className="space-y-2">
+            {VERTICAL_OPTIONS.map((vertical) => (
+              <label key={vertical} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.verticals.includes(vertical)}
+                  onChange={() => toggleVerticalFilter(vertical)}
+                  className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                />
+                <span className="text-sm text-gray-700">
+                  {vertical}
+                  <span className="text-gray-400 ml-1">({verticalCounts[vertical] || 0})</span>
+                </span>
+              </label>
+            ))}
           </div>
         </div>
 
+        {/* Scale Filters */}
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Scale</h3>
+          <div className="space-y-2">
+            {SCALE_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.scales.includes(option.value)}
+                  onChange={() => toggleScaleFilter(option.value)}
+                  className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                />
+                <span className="text-sm text-gray-700">{option.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Budget Range */}
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Budget (DOM)</h3>
+          <div className="flex items-center gap-2">
+            <label htmlFor="budget-min" className="sr-only">
+              Minimum budget
+            </label>
+            <input
+              id="budget-min"
+              type="number"
+              min={0}
+              inputMode="numeric"
+              placeholder="Min"
+              value={filters.budgetMin ?? ''}
+              onChange={handleBudgetMinChange}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-green-500"
+            />
+            <span className="text-gray-400" aria-hidden="true">
+              –
+            </span>
+            <label htmlFor="budget-max" className="sr-only">
+              Maximum budget
+            </label>
+            <input
+              id="budget-max"
+              type="number"
+              min={0}
+              inputMode="numeric"
+              placeholder="Max"
+              value={filters.budgetMax ?? ''}
+              onChange={handleBudgetMaxChange}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-green-500"
+            />
+          </div>
+          {isBudgetRangeInvalid && (
+            <p className="mt-1 text-xs text-red-600" role="alert">
+              Minimum budget is above the maximum
+            </p>
+          )}
+        </div>
+
         {/* Clear All Button */}
         {hasActiveFilters && (
           <div className="border-t border-gray-200 pt-4">
@@ -0,0 +1,50 @@
+/**
+ * ProposalListModeToggle Component
+ *
+ * Switches the proposal list between page numbers and infinite scroll.
+ * The choice is remembered across visits.
+ */
+
+import React from 'react';
+import { useStore } from '@nanostores/react';
+import { List, Rows3 } from 'lucide-react';
+import { $proposalListMode, setProposalListMode, type ProposalListMode } from '@/stores';
+
+export interface ProposalListModeToggleProps {
+  className?: string;
+}
+
+const MODE_OPTIONS: { value: ProposalListMode; label: string; icon: typeof List }[] = [
+  { value: 'paged', label: 'Pages', icon: List },
+  { value: 'infinite', label: 'Infinite scroll', icon: Rows3 },
+];
+
+export function ProposalListModeToggle({ className = '' }: ProposalListModeToggleProps) {
+  const mode = useStore($proposalListMode);
+
+  return (
+    <div
+      role="group"
+      aria-label="List layout"
+      className={`inline-flex rounded-md border border-gray-300 bg-white p-0.5 ${className}`}
+    >
+      {MODE_OPTIONS.map(({ value, label, icon: Icon }) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => setProposalListMode(value)}
+          aria-pressed={mode === value}
+          title={label}
+          className={`flex items-center gap-1 rounded px-2 py-1.5 text-sm transition-colors ${
+            mode === value ? 'bg-green-50 text-green-800' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          <Icon className="h-4 w-4" aria-hidden="true" />
+          <span className="sr-only sm:not-sr-only">{label}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default ProposalListModeToggle;
@@ -24,6 +24,7 @@ const SORT_OPTIONS: { value: ProposalSortType; label: string }[] = [
   { value: 'oldest', label: 'Oldest First' },
   { value: 'mostVotes', label: 'Most Votes' },
   { value: 'endingSoon', label: 'Ending Soon' },
+  { value: 'largestBudget', label: 'Largest Budget' },
 ];
 
 export function ProposalSort({ className = '' }: ProposalSortProps) {
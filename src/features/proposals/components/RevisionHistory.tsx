@@ -0,0 +1,202 @@
+/**
+ * RevisionHistory Component
+ *
+ * Lists a proposal's revisions with their change summaries and shows a
+ * section-by-section diff between any two of them. Defaults to comparing
+ * the previous revision with the current one.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { ProposalRevision } from '@/stores';
+import {
+  diffRevisions,
+  getBudgetDelta,
+  type DiffSegment,
+  type SectionDiff,
+} from '../../../utils/proposalDiff';
+
+export interface RevisionHistoryProps {
+  /** Revisions, oldest first */
+  revisions: ProposalRevision[];
+  /** Revision the member voted on, if any */
+  votedRevision?: number;
+}
+
+const SEGMENT_CLASSES: Record<DiffSegment['change'], string> = {
+  same: 'text-gray-700',
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800 line-through',
+};
+
+function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="whitespace-pre-wrap">
+      {segments.map((segment, i) => {
+        if (segment.change === 'added') {
+          return (
+            <ins key={i} className={`no-underline ${SEGMENT_CLASSES.added}`}>
+              {segment.text}
+            </ins>
+          );
+        }
+        if (segment.change === 'removed') {
+          return (
+            <del key={i} className={SEGMENT_CLASSES.removed}>
+              {segment.text}
+            </del>
+          );
+        }
+        return (
+          <span key={i} className={SEGMENT_CLASSES.same}>
+            {segment.text}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+function DiffList({ segments }: { segments: DiffSegment[] }) {
+  if (segments.length === 0) {
+    return <p className="text-sm text-gray-400">None</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {segments.map((segment, i) => (
+        <li key={i} className={`rounded px-2 py-0.5 ${SEGMENT_CLASSES[segment.change]}`}>
+          <span aria-hidden="true" className="mr-2 font-mono">
+            {segment.change === 'added' ? '+' : segment.change === 'removed' ? '-' : ' '}
+          </span>
+          {segment.change !== 'same' && (
+            <span className="sr-only">{segment.change === 'added' ? 'Added: ' : 'Removed: '}</span>
+          )}
+          {segment.text}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SectionDiffView({ section }: { section: SectionDiff }) {
+  return (
+    <section aria-label={section.label}>
+      <h4 className="mb-1 text-sm font-semibold text-gray-900">
+        {section.label}
+        {!section.changed && (
+          <span className="ml-2 text-xs font-normal text-gray-400">No changes</span>
+        )}
+      </h4>
+      {section.changed &&
+        (section.kind === 'text' ? (
+          <DiffText segments={section.segments} />
+        ) : (
+          <DiffList segments={section.segments} />
+        ))}
+    </section>
+  );
+}
+
+function formatBudgetDelta(delta: number): string {
+  if (delta === 0) return 'Budget unchanged';
+  const sign = delta > 0 ? '+' : '-';
+  return `Budget ${sign}${Math.abs(delta).toLocaleString()} DOM`;
+}
+
+export function RevisionHistory({ revisions, votedRevision }: RevisionHistoryProps) {
+  const latest = revisions[revisions.length - 1]?.revision ?? 1;
+  const [fromRevision, setFromRevision] = useState(Math.max(1, latest - 1));
+  const [toRevision, setToRevision] = useState(latest);
+
+  const before = revisions.find((r) => r.revision === fromRevision);
+  const after = revisions.find((r) => r.revision === toRevision);
+
+  const sections = useMemo(
+    () => (before && after ? diffRevisions(before, after) : []),
+    [before, after]
+  );
+  const budgetDelta = before && after ? getBudgetDelta(before, after) : 0;
+
+  if (revisions.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-xl bg-white p-6 shadow-sm ring-1 ring-gray-100">
+      <h2 className="text-lg font-semibold text-gray-900">Revision History</h2>
+
+      <ol className="mt-4 space-y-3" aria-label="Revisions">
+        {[...revisions].reverse().map((revision) => (
+          <li key={revision.revision} className="flex items-start justify-between gap-4 text-sm">
+            <div>
+              <span className="font-medium text-gray-900">Revision {revision.revision}</span>
+              {revision.revision === latest && (
+                <span className="ml-2 rounded-full bg-teal-100 px-2 py-0.5 text-xs text-teal-700">
+                  Current
+                </span>
+              )}
+              {revision.revision === votedRevision && (
+                <span className="ml-2 rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
+                  Your vote
+                </span>
+              )}
+              <p className="text-gray-600">{revision.summary || 'Original submission'}</p>
+            </div>
+            <time
+              className="shrink-0 text-gray-500"
+              dateTime={new Date(revision.createdAt).toISOString()}
+            >
+              {new Date(revision.createdAt).toLocaleDateString()}
+            </time>
+          </li>
+        ))}
+      </ol>
+
+      <div className="mt-6 flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-gray-600">Compare</span>
+          <select
+            value={fromRevision}
+            onChange={(e) => setFromRevision(Number(e.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1"
+          >
+            {revisions.map((r) => (
+              <option key={r.revision} value={r.revision}>
+                Revision {r.revision}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-gray-600">with</span>
+          <select
+            value={toRevision}
+            onChange={(e) => setToRevision(Number(e.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1"
+          >
+            {revisions.map((r) => (
+              <option key={r.revision} value={r.revision}>
+                Revision {r.revision}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span
+          className={
+            budgetDelta > 0 ? 'text-red-700' : budgetDelta < 0 ? 'text-green-700' : 'text-gray-500'
+          }
+        >
+          {formatBudgetDelta(budgetDelta)}
+        </span>
+      </div>
+
+      <div className="mt-4 space-y-4">
+        {sections.map((section) => (
+          <SectionDiffView key={section.key} section={section} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default RevisionHistory;
@@ -0,0 +1,281 @@
+/**
+ * SavedViews Component
+ *
+ * Saved proposal views pinned as chips above the filters. Members can save
+ * the current filters, search and sort under a name, then rename, reorder,
+ * delete and share views as links. Views sync across tabs.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { Bookmark, ChevronDown, ChevronUp, Link2, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  $savedProposalViews,
+  $activeSavedProposalViewId,
+  validateSavedProposalViewName,
+  createSavedProposalView,
+  renameSavedProposalView,
+  moveSavedProposalView,
+  deleteSavedProposalView,
+  applySavedProposalView,
+  getSavedProposalViewParams,
+  setupSavedProposalViewsCrossTabSync,
+  showSuccess,
+  showError,
+  MAX_SAVED_PROPOSAL_VIEWS,
+  type SavedProposalView,
+} from '@/stores';
+
+export interface SavedViewsProps {
+  /** Name from a shared view link, offered for saving when not saved yet */
+  sharedViewName?: string | null;
+  className?: string;
+}
+
+function getShareUrl(view: SavedProposalView): string {
+  return `${window.location.origin}/proposals?${getSavedProposalViewParams(view).toString()}`;
+}
+
+interface ViewNameFormProps {
+  label: string;
+  initialName: string;
+  submitLabel: string;
+  excludeId?: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+function ViewNameForm({
+  label,
+  initialName,
+  submitLabel,
+  excludeId,
+  onSubmit,
+  onCancel,
+}: ViewNameFormProps) {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const validationError = validateSavedProposalViewName(name, excludeId);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSubmit(name);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-start gap-2">
+      <div>
+        <label className="sr-only" htmlFor={`view-name-${excludeId ?? 'new'}`}>
+          {label}
+        </label>
+        <input
+          id={`view-name-${excludeId ?? 'new'}`}
+          type="text"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          placeholder="View name"
+          autoFocus
+          className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+        />
+        {error && (
+          <p className="mt-1 text-xs text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+      <button
+        type="submit"
+        className="rounded-md bg-green-600 px-2.5 py-1 text-sm font-medium text-white hover:bg-green-700"
+      >
+        {submitLabel}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+}
+
+export function SavedViews({ sharedViewName = null, className = '' }: SavedViewsProps) {
+  const views = useStore($savedProposalViews);
+  const activeViewId = useStore($activeSavedProposalViewId);
+  const [newViewName, setNewViewName] = useState<string | null>(null);
+  const [isManaging, setIsManaging] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  useEffect(() => setupSavedProposalViewsCrossTabSync(), []);
+
+  const isFull = views.length >= MAX_SAVED_PROPOSAL_VIEWS;
+  const canSaveShared = !!sharedViewName && !activeViewId && !isFull && newViewName === null;
+
+  const handleCreate = (name: string) => {
+    const view = createSavedProposalView(name);
+    if (view) {
+      showSuccess(`Saved view "${view.name}"`);
+    }
+    setNewViewName(null);
+  };
+
+  const handleRename = (id: string, name: string) => {
+    renameSavedProposalView(id, name);
+    setRenamingId(null);
+  };
+
+  const handleCopyLink = async (view: SavedProposalView) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(view));
+      showSuccess(`Link to "${view.name}" copied`);
+    } catch {
+      showError('Could not copy the link');
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1 text-sm font-medium text-gray-700">
+          <Bookmark className="h-4 w-4" aria-hidden="true" />
+          Views
+        </span>
+        <div role="group" aria-label="Saved views" className="flex flex-wrap gap-2">
+          {views.map((view) => (
+            <button
+              key={view.id}
+              type="button"
+              onClick={() => applySavedProposalView(view.id)}
+              aria-pressed={view.id === activeViewId}
+              className={`rounded-full border px-3 py-1 text-sm transition-colors ${
+                view.id === activeViewId
+                  ? 'border-green-600 bg-green-50 text-green-800'
+                  : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {view.name}
+            </button>
+          ))}
+        </div>
+        {canSaveShared && (
+          <button
+            type="button"
+            onClick={() => setNewViewName(sharedViewName)}
+            className="flex items-center gap-1 rounded-full border border-dashed border-green-600 px-3 py-1 text-sm text-green-700 hover:bg-green-50"
+          >
+            <Plus className="h-3.5 w-3.5" aria-hidden="true" />
+            Save &ldquo;{sharedViewName}&rdquo;
+          </button>
+        )}
+        {newViewName === null && !isFull && (
+          <button
+            type="button"
+            onClick={() => setNewViewName('')}
+            className="flex items-center gap-1 px-2 py-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <Plus className="h-3.5 w-3.5" aria-hidden="true" />
+            Save current view
+          </button>
+        )}
+        {views.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setIsManaging(!isManaging)}
+            aria-expanded={isManaging}
+            className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            {isManaging ? 'Done' : 'Manage'}
+          </button>
+        )}
+      </div>
+
+      {newViewName !== null && (
+        <ViewNameForm
+          label="New view name"
+          initialName={newViewName}
+          submitLabel="Save view"
+          onSubmit={handleCreate}
+          onCancel={() => setNewViewName(null)}
+        />
+      )}
+
+      {isManaging && (
+        <ul
+          aria-label="Manage saved views"
+          className="divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white"
+        >
+          {views.map((view, index) => (
+            <li key={view.id} className="flex flex-wrap items-center justify-between gap-2 p-2">
+              {renamingId === view.id ? (
+                <ViewNameForm
+                  label={`New name for ${view.name}`}
+                  initialName={view.name}
+                  submitLabel="Rename"
+                  excludeId={view.id}
+                  onSubmit={(name) => handleRename(view.id, name)}
+                  onCancel={() => setRenamingId(null)}
+                />
+              ) : (
+                <span className="text-sm text-gray-900">{view.name}</span>
+              )}
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveSavedProposalView(view.id, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${view.name} up`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                >
+                  <ChevronUp className="h-4 w-4" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveSavedProposalView(view.id, index + 1)}
+                  disabled={index === views.length - 1}
+                  aria-label={`Move ${view.name} down`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                >
+                  <ChevronDown className="h-4 w-4" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRenamingId(view.id)}
+                  aria-label={`Rename ${view.name}`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                >
+                  <Pencil className="h-4 w-4" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleCopyLink(view)}
+                  aria-label={`Copy link to ${view.name}`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                >
+                  <Link2 className="h-4 w-4" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteSavedProposalView(view.id)}
+                  aria-label={`Delete ${view.name}`}
+                  className="rounded p-1 text-red-500 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" aria-hidden="true" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SavedViews;
@@ -0,0 +1,71 @@
+/**
+ * WatchProposalButton Component
+ *
+ * Adds a proposal to, or removes it from, the member's watchlist. Watched
+ * proposals send notifications for status changes, deadlines, quorum and
+ * new comments. Compact (icon only) on proposal cards.
+ */
+
+import React, { useCallback } from 'react';
+import { useStore } from '@nanostores/react';
+import { Eye, EyeOff } from 'lucide-react';
+import {
+  $watchedProposalIds,
+  toggleWatchProposal,
+  showWarning,
+  MAX_WATCHED_PROPOSALS,
+} from '@/stores';
+
+export interface WatchProposalButtonProps {
+  proposalId: string;
+  /** Remembered for notifications */
+  title: string;
+  /** Icon-only button for proposal cards */
+  compact?: boolean;
+  className?: string;
+}
+
+export function WatchProposalButton({
+  proposalId,
+  title,
+  compact = false,
+  className = '',
+}: WatchProposalButtonProps) {
+  const watchedIds = useStore($watchedProposalIds);
+  const isWatching = watchedIds.has(proposalId);
+  const label = isWatching ? 'Stop watching proposal' : 'Watch proposal';
+
+  const handleClick = useCallback(
+    (event: React.MouseEvent) => {
+      // Cards navigate on click; watching shouldn't
+      event.stopPropagation();
+      if (!toggleWatchProposal(proposalId, title) && !isWatching) {
+        showWarning(`You can watch up to ${MAX_WATCHED_PROPOSALS} proposals`);
+      }
+    },
+    [proposalId, title, isWatching]
+  );
+
+  const Icon = isWatching ? EyeOff : Eye;
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      onKeyDown={(event) => event.stopPropagation()}
+      aria-pressed={isWatching}
+      aria-label={label}
+      title={label}
+      className={`inline-flex items-center gap-1.5 rounded-md text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 ${
+        compact ? 'p-1' : 'border border-gray-300 px-3 py-1.5 font-medium'
+      } ${
+        isWatching ? 'text-green-700 hover:text-green-800' : 'text-gray-500 hover:text-gray-700'
+      } ${className}`}
+    >
+      <Icon className="h-4 w-4" aria-hidden="true" />
+      {!compact && <span>{isWatching ? 'Watching' : 'Watch'}</span>}
+    </button>
+  );
+}
+
+export default WatchProposalButton;
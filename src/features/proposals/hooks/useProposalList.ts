@@ -3,6 +3,8 @@
  *
  * Manages proposal list fetching, polling, and state synchronization.
  * Implements 30s polling, visibility API pause, debouncing, and retry logic.
+ * In infinite mode pages are fetched by cursor and appended as the member
+ * scrolls; returning to an already-loaded list keeps it as it was.
  *
  * Story: 9-1-3-proposal-listing
  * ACs: 1, 2, 3, 4, 5, 8, 9
@@ -18,19 +20,34 @@ import {
   $proposalTotalCount,
   $proposalListLoading,
   $proposalListError,
+  $proposalListMode,
+  $proposalListCursor,
+  $userVotedProposalIds,
+  $watchedProposalIds,
   setProposalList,
+  appendProposalList,
+  setProposalListCursor,
+  getProposalListKey,
   setProposalTotalCount,
   setProposalListLoading,
   setProposalListError,
   setProposalStatusCounts,
+  setProposalVerticalCounts,
   type ProposalListItem,
 } from '@/stores';
 import {
   getProposals,
   getProposalCountsByStatus,
+  getProposalCountsByVertical,
+  getCurrentProposerPrincipal,
   TimeoutError,
   SchemaValidationError,
 } from '../../../services/governanceCanister';
+import { indexProposals, searchProposalPage } from '../../../services/proposalSearchService';
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  type ProposalSearchHighlight,
+} from '../../../utils/proposalSearch';
 
 // Configuration
 const POLLING_INTERVAL_MS = 30000; // 30 seconds
@@ -38,6 +55,8 @@ const FILTER_DEBOUNCE_MS = 100;
 const MAX_CONSECUTIVE_FAILURES = 3;
 const INITIAL_RETRY_DELAY_MS = 1000;
 const MAX_RETRY_DELAY_MS = 30000;
+// Infinite mode shows every search match at once; they're already in memory
+const ALL_SEARCH_MATCHES = Number.MAX_SAFE_INTEGER;
 
 export interface UseProposalListResult {
   proposals: ProposalListItem[];
@@ -47,6 +66,27 @@ export interface UseProposalListResult {
   refetch: () => void;
   isPollingPaused: boolean;
   consecutiveFailures: number;
+  /** Matched text per proposal ID while a search is active */
+  searchHighlights: Record<string, ProposalSearchHighlight[]>;
+  /** Infinite mode: more proposals can be loaded */
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  /** Infinite mode: fetch and append the next page */
+  loadMore: () => void;
+}
+
+/**
+ * Highlights for the proposals shown, when the server's results are shown
+ */
+function pickHighlights(
+  highlights: Record<string, ProposalSearchHighlight[]>,
+  items: ProposalListItem[]
+): Record<string, ProposalSearchHighlight[]> {
+  const picked: Record<string, ProposalSearchHighlight[]> = {};
+  for (const item of items) {
+    if (highlights[item.id]) picked[item.id] = highlights[item.id];
+  }
+  return picked;
 }
 
 export function useProposalList(): UseProposalListResult {
@@ -57,10 +97,20 @@ export function useProposalList(): UseProposalListResult {
   const totalCount = useStore($proposalTotalCount);
   const isLoading = useStore($proposalListLoading);
   const error = useStore($proposalListError);
+  const mode = useStore($proposalListMode);
+  const listCursor = useStore($proposalListCursor);
+  // Re-keys the "Watching" list when the watchlist changes
+  useStore($watchedProposalIds);
+  const isInfinite = mode === 'infinite';
+  const listKey = getProposalListKey(filters, sort);
 
   // Local state for polling control
   const [isPollingPaused, setIsPollingPaused] = useState(false);
   const [consecutiveFailures, setConsecutiveFailures] = useState(0);
+  const [searchHighlights, setSearchHighlights] = useState<
+    Record<string, ProposalSearchHighlight[]>
+  >({});
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
 
   // Refs for cleanup and debouncing
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -69,6 +119,7 @@ export function useProposalList(): UseProposalListResult {
   const retryDelayRef = useRef(INITIAL_RETRY_DELAY_MS);
   const lastFetchParamsRef = useRef<string>('');
   const cachedProposalsRef = useRef<ProposalListItem[]>([]);
+  const isLoadingMoreRef = useRef(false);
 
   /**
    * Fetch proposals from the service
@@ -84,34 +135,83 @@ export function useProposalList(): UseProposalListResult {
       const signal = abortControllerRef.current.signal;
 
       // Generate params key for comparison
-      const paramsKey = JSON.stringify({ filters, sort, page });
+      const paramsKey = JSON.stringify({ listKey, page, mode });
 
       // Skip if params haven't changed and we're not retrying
       if (!isRetry && paramsKey === lastFetchParamsRef.current && proposals.length > 0) {
         return;
       }
 
+      // Keep an infinite list already loaded for these params (e.g. on back navigation)
+      if (
+        !isRetry &&
+        isInfinite &&
+        $proposalListCursor.get()?.listKey === listKey &&
+        proposals.length > 0
+      ) {
+        lastFetchParamsRef.current = paramsKey;
+        return;
+      }
+
       lastFetchParamsRef.current = paramsKey;
       setProposalListLoading(true);
       setProposalListError(null);
 
+      // The Watching filter is applied by the canister, which needs the watchlist
+      const watchedIds = [...$watchedProposalIds.get()];
+
       try {
-        const [proposalsResponse, statusCounts] = await Promise.all([
-          getProposals(filters, sort, page, signal),
+        const [proposalsResponse, statusCounts, verticalCounts] = await Promise.all([
+          isInfinite
+            ? getProposals(filters, sort, 1, signal, null, watchedIds)
+            : getProposals(filters, sort, page, signal, undefined, watchedIds),
           getProposalCountsByStatus(),
+          getProposalCountsByVertical(),
         ]);
 
+        // Every loaded page grows the full-text search index
+        await indexProposals(proposalsResponse.items);
+
+        // Search the index, keeping the server's results while the index has fewer
+        // matches (it only holds the proposals loaded so far)
+        let listResponse = proposalsResponse;
+        let highlights: Record<string, ProposalSearchHighlight[]> = {};
+        if (filters.search.trim().length >= MIN_SEARCH_QUERY_LENGTH) {
+          const searchPage = await searchProposalPage(
+            filters,
+            sort,
+            isInfinite ? 1 : page,
+            isInfinite ? ALL_SEARCH_MATCHES : proposalsResponse.pageSize,
+            {
+              currentUserPrincipal: getCurrentProposerPrincipal() ?? undefined,
+              votedProposalIds: $userVotedProposalIds.get(),
+              watchedProposalIds: $watchedProposalIds.get(),
+            }
+          );
+          if (searchPage.total > 0 && searchPage.total >= proposalsResponse.total) {
+            listResponse = searchPage;
+            highlights = searchPage.highlights;
+          } else {
+            highlights = pickHighlights(searchPage.highlights, proposalsResponse.items);
+          }
+        }
+
         // Check if request was aborted
         if (signal.aborted) {
           return;
         }
 
-        setProposalList(proposalsResponse.items);
-        setProposalTotalCount(proposalsResponse.total);
+        setProposalList(listResponse.items);
+        setProposalTotalCount(listResponse.total);
+        setProposalListCursor(
+          isInfinite ? { listKey, nextCursor: listResponse.nextCursor ?? null } : null
+        );
+        setSearchHighlights(highlights);
         setProposalStatusCounts(statusCounts);
+        setProposalVerticalCounts(verticalCounts);
 
         // Cache successful response
-        cachedProposalsRef.current = proposalsResponse.items;
+        cachedProposalsRef.current = listResponse.items;
 
         // Reset failure tracking on success
         setConsecutiveFailures(0);
@@ -156,9 +256,58 @@ export function useProposalList(): UseProposalListResult {
         setProposalListLoading(false);
       }
     },
-    [filters, sort, page, proposals.length, consecutiveFailures]
+    [filters, sort, page, mode, isInfinite, listKey, proposals.length, consecutiveFailures]
   );
 
+  /**
+   * Fetch the next infinite-scroll page and append it
+   */
+  const loadMore = useCallback(async () => {
+    const cursor = $proposalListCursor.get();
+    if (!isInfinite || !cursor?.nextCursor || cursor.listKey !== listKey) return;
+    if (isLoadingMoreRef.current) return;
+
+    // A filter change aborts this via the shared controller
+    if (!abortControllerRef.current) {
+      abortControllerRef.current = new AbortController();
+    }
+    const signal = abortControllerRef.current.signal;
+
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      const response = await getProposals(
+        filters,
+        sort,
+        1,
+        signal,
+        cursor.nextCursor,
+        [...$watchedProposalIds.get()]
+      );
+      await indexProposals(response.items);
+
+      if (signal.aborted) {
+        return;
+      }
+
+      appendProposalList(response.items);
+      setProposalTotalCount(response.total);
+      setProposalListCursor({ listKey, nextCursor: response.nextCursor ?? null });
+    } catch (err) {
+      if (!signal.aborted) {
+        setProposalListError(
+          err instanceof TimeoutError
+            ? 'Failed to load more proposals. Request timed out.'
+            : 'Failed to load more proposals. Please try again.'
+        );
+      }
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [filters, sort, isInfinite, listKey]);
+
   /**
    * Manual refetch (for retry button)
    */
@@ -191,7 +340,7 @@ export function useProposalList(): UseProposalListResult {
         clearTimeout(debounceTimeoutRef.current);
       }
     };
-  }, [filters, sort, page, debouncedFetch]);
+  }, [listKey, page, mode, debouncedFetch]);
 
   // Setup polling
   useEffect(() => {
@@ -257,6 +406,10 @@ export function useProposalList(): UseProposalListResult {
     refetch,
     isPollingPaused,
     consecutiveFailures,
+    searchHighlights,
+    hasMore: isInfinite && listCursor?.listKey === listKey && !!listCursor.nextCursor,
+    isLoadingMore,
+    loadMore,
   };
 }
 
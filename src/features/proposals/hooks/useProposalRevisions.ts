@@ -0,0 +1,87 @@
+/**
+ * useProposalRevisions Hook
+ *
+ * Loads a proposal's revision history and publishes amendments while the
+ * proposal is still pending.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ProposalRevision } from '@/stores';
+import {
+  amendProposal,
+  getProposalRevisions,
+  type AmendProposalRequest,
+  type AmendProposalResponse,
+} from '../../../services/governanceCanister';
+
+export interface UseProposalRevisionsResult {
+  /** Revisions, oldest first */
+  revisions: ProposalRevision[];
+  /** Latest revision, or null before any have loaded */
+  currentRevision: ProposalRevision | null;
+  isLoading: boolean;
+  isAmending: boolean;
+  amend: (request: Omit<AmendProposalRequest, 'proposalId'>) => Promise<AmendProposalResponse>;
+  refresh: () => Promise<void>;
+}
+
+export function useProposalRevisions(proposalId: string): UseProposalRevisionsResult {
+  const [revisions, setRevisions] = useState<ProposalRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAmending, setIsAmending] = useState(false);
+
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    if (!proposalId) return;
+
+    setIsLoading(true);
+    const result = await getProposalRevisions(proposalId);
+    if (mountedRef.current) {
+      setRevisions(result);
+      setIsLoading(false);
+    }
+  }, [proposalId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const amend = useCallback(
+    async (
+      request: Omit<AmendProposalRequest, 'proposalId'>
+    ): Promise<AmendProposalResponse> => {
+      setIsAmending(true);
+      try {
+        const result = await amendProposal({ ...request, proposalId });
+        if (result.success) {
+          await refresh();
+        }
+        return result;
+      } finally {
+        if (mountedRef.current) {
+          setIsAmending(false);
+        }
+      }
+    },
+    [proposalId, refresh]
+  );
+
+  return {
+    revisions,
+    currentRevision: revisions[revisions.length - 1] ?? null,
+    isLoading,
+    isAmending,
+    amend,
+    refresh,
+  };
+}
+
+export default useProposalRevisions;
@@ -0,0 +1,138 @@
+/**
+ * useWindowedList Hook
+ *
+ * Windowed rendering for long lists scrolled with the page. Only the rows
+ * near the viewport are rendered; spacers stand in for the rest. Row
+ * heights are measured as rows render (estimated until then) and kept
+ * until the list changes.
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+
+export interface UseWindowedListOptions {
+  /** Stable key per row, used to remember measured heights */
+  keys: string[];
+  /** Identifies the list; measured heights are dropped when it changes */
+  listKey?: string;
+  /** Height assumed for rows not yet measured, in pixels */
+  estimatedRowHeight: number;
+  /** Extra rows rendered above and below the viewport */
+  overscan?: number;
+}
+
+export interface UseWindowedListResult {
+  /** Attach to the element wrapping the rows */
+  containerRef: RefObject<HTMLDivElement | null>;
+  /** First rendered row (inclusive) */
+  start: number;
+  /** Last rendered row (exclusive) */
+  end: number;
+  /** Space above the first rendered row */
+  paddingTop: number;
+  /** Space below the last rendered row */
+  paddingBottom: number;
+  /** Attach to each rendered row to measure it */
+  measureRow: (key: string) => (element: HTMLElement | null) => void;
+}
+
+const DEFAULT_OVERSCAN = 5;
+
+/**
+ * Index of the row containing the given offset
+ */
+function findRow(offsets: number[], target: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= target) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+export function useWindowedList({
+  keys,
+  listKey,
+  estimatedRowHeight,
+  overscan = DEFAULT_OVERSCAN,
+}: UseWindowedListOptions): UseWindowedListResult {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  // Measured row heights by key
+  const rowHeightsRef = useRef(new Map<string, number>());
+  const measuredListKeyRef = useRef(listKey);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  // Bumped when a measurement changes, to re-render with the new offsets
+  const [, setMeasureVersion] = useState(0);
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = -container.getBoundingClientRect().top;
+    const height = window.innerHeight;
+    setViewport((current) =>
+      current.top === top && current.height === height ? current : { top, height }
+    );
+  }, []);
+
+  useLayoutEffect(() => {
+    updateViewport();
+  }, [updateViewport, keys.length]);
+
+  // Another list (e.g. other filters) may lay out the same rows differently
+  useLayoutEffect(() => {
+    if (measuredListKeyRef.current === listKey) return;
+    measuredListKeyRef.current = listKey;
+    rowHeightsRef.current.clear();
+    setMeasureVersion((version) => version + 1);
+  }, [listKey]);
+
+  useEffect(() => {
+    window.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      window.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [updateViewport]);
+
+  // Top offset of each row, plus the total height at the end
+  const offsets = [0];
+  for (const key of keys) {
+    const height = rowHeightsRef.current.get(key) ?? estimatedRowHeight;
+    offsets.push(offsets[offsets.length - 1] + height);
+  }
+
+  const visibleStart = findRow(offsets, viewport.top);
+  const visibleEnd = findRow(offsets, viewport.top + viewport.height) + 1;
+  const start = Math.max(0, visibleStart - overscan);
+  const end = Math.min(keys.length, visibleEnd + overscan);
+
+  const measureRow = useCallback(
+    (key: string) => (element: HTMLElement | null) => {
+      if (!element) return;
+      const height = element.getBoundingClientRect().height;
+      // Unlaid-out rows (hidden, or in tests) report zero; keep the estimate
+      if (height > 0 && rowHeightsRef.current.get(key) !== height) {
+        rowHeightsRef.current.set(key, height);
+        setMeasureVersion((version) => version + 1);
+      }
+    },
+    []
+  );
+
+  const total = offsets[offsets.length - 1];
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: total - offsets[end],
+    measureRow,
+  };
+}
+
+export default useWindowedList;
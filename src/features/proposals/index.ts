@@ -5,23 +5,42 @@
  *
  * Story: 9-1-3-proposal-listing
  * Story: 9-1-6-draft-proposal-management (DraftsList)
+ * Proposal amendments (RevisionHistory, AmendProposalForm)
+ * Infinite scroll (InfiniteProposalList, ProposalListModeToggle)
+ * Watchlist (WatchProposalButton)
  */
 
 // Components
 export { ProposalCard } from './components/ProposalCard';
 export { ProposalFilters } from './components/ProposalFilters';
+export { SavedViews } from './components/SavedViews';
 export { ProposalSort } from './components/ProposalSort';
 export { ProposalSearch } from './components/ProposalSearch';
 export { Pagination } from './components/Pagination';
+export { InfiniteProposalList } from './components/InfiniteProposalList';
+export { ProposalListModeToggle } from './components/ProposalListModeToggle';
+export { WatchProposalButton } from './components/WatchProposalButton';
 export { DraftsList } from './components/DraftsList';
+export { RevisionHistory } from './components/RevisionHistory';
+export { AmendProposalForm } from './components/AmendProposalForm';
 
 // Hooks
 export { useProposalList } from './hooks/useProposalList';
+export { useProposalRevisions } from './hooks/useProposalRevisions';
+export { useWindowedList } from './hooks/useWindowedList';
 
 // Re-export types
 export type { ProposalCardProps } from './components/ProposalCard';
 export type { ProposalFiltersProps } from './components/ProposalFilters';
+export type { SavedViewsProps } from './components/SavedViews';
 export type { ProposalSortProps } from './components/ProposalSort';
 export type { ProposalSearchProps } from './components/ProposalSearch';
 export type { PaginationProps } from './components/Pagination';
+export type { InfiniteProposalListProps } from './components/InfiniteProposalList';
+export type { ProposalListModeToggleProps } from './components/ProposalListModeToggle';
+export type { WatchProposalButtonProps } from './components/WatchProposalButton';
 export type { DraftsListProps } from './components/DraftsList';
+export type { RevisionHistoryProps } from './components/RevisionHistory';
+export type { AmendProposalFormProps, AmendProposalValues } from './components/AmendProposalForm';
+export type { UseProposalRevisionsResult } from './hooks/useProposalRevisions';
+export type { UseWindowedListOptions, UseWindowedListResult } from './hooks/useWindowedList';
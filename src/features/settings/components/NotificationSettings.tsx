@@ -198,6 +198,42 @@ export function NotificationSettings({
             onChange={handlePreferenceToggle('voting_ending')}
             disabled={!preferences.enabled}
           />
+
+          <ToggleSwitch
+            id="mentions"
+            label="Mentions"
+            description="Get notified when someone mentions you in a proposal discussion"
+            checked={preferences.mentions}
+            onChange={handlePreferenceToggle('mentions')}
+            disabled={!preferences.enabled}
+          />
+
+          <ToggleSwitch
+            id="escrow-disputes"
+            label="Escrow Disputes"
+            description="Get notified when a dispute on one of your escrow milestones changes"
+            checked={preferences.escrow_disputes}
+            onChange={handlePreferenceToggle('escrow_disputes')}
+            disabled={!preferences.enabled}
+          />
+
+          <ToggleSwitch
+            id="burn-pledges"
+            label="Burn Pledges"
+            description="Get notified when you miss a recurring burn pledge"
+            checked={preferences.burn_pledges}
+            onChange={handlePreferenceToggle('burn_pledges')}
+            disabled={!preferences.enabled}
+          />
+
+          <ToggleSwitch
+            id="watchlist"
+            label="Watched Proposals"
+            description="Get notified of status, quorum and comment updates on proposals you watch"
+            checked={preferences.watchlist}
+            onChange={handlePreferenceToggle('watchlist')}
+            disabled={!preferences.enabled}
+          />
         </div>
 
         {/* Privacy Options */}
@@ -0,0 +1,118 @@
+/**
+ * RankedBallot and RunoffTally Component Tests
+ *
+ * Covers ordering and submitting a ranked ballot, and the round-by-round
+ * instant-runoff display.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RankedBallot } from '../components/RankedBallot';
+import { RunoffTally } from '../components/RunoffTally';
+import { computeInstantRunoff } from '../../../utils/instantRunoff';
+import type { BallotOption } from '@/stores';
+
+const OPTIONS: BallotOption[] = [
+  { id: 'v1', label: 'Vendor One' },
+  { id: 'v2', label: 'Vendor Two', description: 'Local builder' },
+  { id: 'v3', label: 'Vendor Three' },
+];
+
+const renderWithRouter = (ui: React.ReactElement) => {
+  return render(<BrowserRouter>{ui}</BrowserRouter>);
+};
+
+function getRankedLabels(): string[] {
+  const list = screen.getByRole('list', { name: 'Your ranking' });
+  return within(list)
+    .getAllByRole('listitem')
+    .map((item) => item.querySelector('p')?.textContent ?? '');
+}
+
+describe('RankedBallot', () => {
+  const defaultProps = {
+    proposalTitle: 'Housing Vendor',
+    options: OPTIONS,
+    votingEndsAt: Date.now() + 7 * 24 * 60 * 60 * 1000,
+    isActive: true,
+    isMember: true,
+    onSubmit: vi.fn().mockResolvedValue(undefined),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reorders options with the move buttons', () => {
+    renderWithRouter(<RankedBallot {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move Vendor Three up' }));
+
+    expect(getRankedLabels()).toEqual(['Vendor One', 'Vendor Three', 'Vendor Two']);
+    expect(screen.getByText('Vendor Three moved to position 2.')).toBeInTheDocument();
+  });
+
+  it('reorders options by dragging', () => {
+    renderWithRouter(<RankedBallot {...defaultProps} />);
+
+    const items = within(screen.getByRole('list', { name: 'Your ranking' })).getAllByRole(
+      'listitem'
+    );
+    fireEvent.dragStart(items[2], { dataTransfer: { setData: vi.fn() } });
+    fireEvent.drop(items[0]);
+
+    expect(getRankedLabels()).toEqual(['Vendor Three', 'Vendor One', 'Vendor Two']);
+  });
+
+  it('submits a partial ranking after confirmation', async () => {
+    renderWithRouter(<RankedBallot {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Leave Vendor One unranked' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Ranking' }));
+
+    const dialog = screen.getByRole('dialog');
+    expect(within(dialog).getAllByRole('listitem').map((li) => li.textContent)).toEqual([
+      'Vendor Two',
+      'Vendor Three',
+    ]);
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Confirm Ranking' }));
+
+    await waitFor(() => expect(defaultProps.onSubmit).toHaveBeenCalledWith(['v2', 'v3']));
+  });
+
+  it('shows the recorded ranking once the member has voted', () => {
+    renderWithRouter(<RankedBallot {...defaultProps} myRanking={['v3', 'v1']} />);
+
+    expect(screen.getByText('Your ranking has been recorded')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Submit Ranking' })).not.toBeInTheDocument();
+  });
+});
+
+describe('RunoffTally', () => {
+  // v3 is eliminated in round 1 and its ballot transfers to v2, which then has a majority
+  const result = computeInstantRunoff(
+    ['v1', 'v2', 'v3'],
+    [['v1'], ['v1'], ['v2'], ['v2'], ['v3', 'v2']]
+  );
+
+  it('shows the final round and the winner by default', () => {
+    render(<RunoffTally options={OPTIONS} result={result} isLoading={false} />);
+
+    expect(screen.getByText('Vendor Two leads with a majority after 2 rounds')).toBeInTheDocument();
+    const counts = screen.getByRole('list', { name: 'Round 2 counts' });
+    expect(within(counts).getByText('3 (60%)')).toBeInTheDocument();
+    expect(within(counts).getByText('Out in round 1')).toBeInTheDocument();
+  });
+
+  it('steps back to earlier rounds', () => {
+    render(<RunoffTally options={OPTIONS} result={result} isLoading={false} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Round 1' }));
+
+    const counts = screen.getByRole('list', { name: 'Round 1 counts' });
+    expect(within(counts).getByText('Eliminated')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Round 1' })).toHaveAttribute('aria-pressed', 'true');
+  });
+});
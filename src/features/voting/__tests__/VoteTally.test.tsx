@@ -116,6 +116,21 @@ describe('VoteTally', () => {
     });
   });
 
+  describe('Delegated votes', () => {
+    it('should show how much of the total came through delegation', () => {
+      render(<VoteTally tally={{ ...baseTally, delegatedVotes: 25 }} isLoading={false} />);
+
+      expect(screen.getByText('Via delegation')).toBeInTheDocument();
+      expect(screen.getByText('25 of 100 (25%)')).toBeInTheDocument();
+    });
+
+    it('should hide the delegation row when no votes were delegated', () => {
+      render(<VoteTally tally={{ ...baseTally, delegatedVotes: 0 }} isLoading={false} />);
+
+      expect(screen.queryByText('Via delegation')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Loading state', () => {
     it('should show skeleton when loading', () => {
       render(<VoteTally tally={null} isLoading={true} />);
@@ -148,6 +163,47 @@ describe('VoteTally', () => {
     });
   });
 
+  describe('Weighted totals', () => {
+    it('should chart weighted totals and keep the headcount for quorum', () => {
+      render(
+        <VoteTally
+          tally={{
+            ...baseTally,
+            yes: 2,
+            no: 1,
+            abstain: 0,
+            totalVotes: 3,
+            votingMode: 'weighted',
+            weighted: { yes: 1500, no: 500, abstain: 0 },
+          }}
+          isLoading={false}
+        />
+      );
+
+      expect(screen.getByText('1,500 DOM')).toBeInTheDocument();
+      expect(screen.getByText('500 DOM')).toBeInTheDocument();
+      expect(screen.getAllByText('75%').length).toBeGreaterThan(0);
+      expect(screen.getByText('DOM-weighted · 3 voters')).toBeInTheDocument();
+      expect(screen.getByText('3 / 10')).toBeInTheDocument();
+    });
+
+    it('should label quadratic totals in votes', () => {
+      render(
+        <VoteTally
+          tally={{
+            ...baseTally,
+            votingMode: 'quadratic',
+            weighted: { yes: 12, no: 4, abstain: 0 },
+          }}
+          isLoading={false}
+        />
+      );
+
+      expect(screen.getByText('12 votes')).toBeInTheDocument();
+      expect(screen.getByText('Quadratic · 100 voters')).toBeInTheDocument();
+    });
+  });
+
   describe('Accessibility', () => {
     it('should have aria-live region for screen readers', () => {
       render(<VoteTally tally={baseTally} isLoading={false} />);
@@ -12,7 +12,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { VotingPanel } from '../components/VotingPanel';
-import type { UserVote } from '@/stores';
+import type { UserVote, Delegation, QueuedVote } from '@/stores';
 
 // Wrapper with router
 const renderWithRouter = (ui: React.ReactElement) => {
@@ -213,4 +213,215 @@ describe('VotingPanel', () => {
       });
     });
   });
+
+  describe('Vote delegation', () => {
+    const delegation: Delegation = {
+      delegator: 'member-1',
+      delegate: 'delegate-principal-abc',
+      delegateName: 'Dana Delegate',
+      scope: 'global',
+      createdAt: Date.now(),
+    };
+
+    const delegatedVote: UserVote = {
+      proposalId: 'prop-123',
+      vote: 'yes',
+      votedAt: Date.now(),
+      transactionId: 'tx-delegated',
+      delegate: 'delegate-principal-abc',
+    };
+
+    it('should note an active delegation before anyone has voted', () => {
+      renderWithRouter(<VotingPanel {...defaultProps} delegation={delegation} />);
+
+      expect(screen.getByText(/your vote is delegated to dana delegate/i)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /vote yes/i })).toBeEnabled();
+    });
+
+    it('should show when a delegate voted on the member\'s behalf', () => {
+      renderWithRouter(
+        <VotingPanel {...defaultProps} delegation={delegation} userVote={delegatedVote} />
+      );
+
+      expect(
+        screen.getByText(/your delegate dana delegate voted yes for you/i)
+      ).toBeInTheDocument();
+      expect(screen.queryByText(/votes are final/i)).not.toBeInTheDocument();
+    });
+
+    it('should let the member override the delegate vote before the deadline', async () => {
+      const onVote = vi.fn().mockResolvedValue(undefined);
+      renderWithRouter(
+        <VotingPanel
+          {...defaultProps}
+          delegation={delegation}
+          userVote={delegatedVote}
+          onVote={onVote}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /override vote/i }));
+      expect(screen.getByText(/override your delegate's vote/i)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /vote no/i }));
+      fireEvent.click(screen.getByRole('button', { name: /confirm vote/i }));
+
+      await waitFor(() => {
+        expect(onVote).toHaveBeenCalledWith('no');
+      });
+    });
+
+    it('should not offer an override after voting closes', () => {
+      renderWithRouter(
+        <VotingPanel
+          {...defaultProps}
+          votingEndsAt={Date.now() - 1000}
+          delegation={delegation}
+          userVote={delegatedVote}
+        />
+      );
+
+      expect(screen.getByText(/your delegate dana delegate voted yes/i)).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /override vote/i })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Weighted and quadratic voting', () => {
+    it('should default a weighted vote to the full snapshot balance', async () => {
+      const onVote = vi.fn().mockResolvedValue(undefined);
+      renderWithRouter(
+        <VotingPanel {...defaultProps} votingMode="weighted" votingPower={400} onVote={onVote} />
+      );
+
+      expect(screen.getByTestId('allocation-preview')).toHaveTextContent(
+        'Your vote counts for 400 DOM, 100% of the 400 DOM'
+      );
+
+      fireEvent.change(screen.getByLabelText(/vote weight/i), { target: { value: '100' } });
+      expect(screen.getByTestId('allocation-preview')).toHaveTextContent('100 DOM, 25%');
+
+      fireEvent.click(screen.getByRole('button', { name: /vote yes/i }));
+      expect(screen.getByRole('dialog')).toHaveTextContent('Your vote will count for 100 DOM.');
+      fireEvent.click(screen.getByRole('button', { name: /confirm vote/i }));
+
+      await waitFor(() => {
+        expect(onVote).toHaveBeenCalledWith('yes', 100);
+      });
+    });
+
+    it('should preview quadratic cost and send the credits spent', async () => {
+      const onVote = vi.fn().mockResolvedValue(undefined);
+      renderWithRouter(
+        <VotingPanel {...defaultProps} votingMode="quadratic" votingPower={50} onVote={onVote} />
+      );
+
+      fireEvent.change(screen.getByLabelText(/number of votes/i), { target: { value: '4' } });
+      expect(screen.getByTestId('allocation-preview')).toHaveTextContent(
+        '4 votes cost 16 credits. 34 of 50 credits left. One more vote would cost 9 credits.'
+      );
+
+      // Capped at the most votes the credits can buy
+      fireEvent.change(screen.getByLabelText(/number of votes/i), { target: { value: '9' } });
+      expect(screen.getByLabelText(/number of votes/i)).toHaveValue(7);
+
+      fireEvent.click(screen.getByRole('button', { name: /vote no/i }));
+      fireEvent.click(screen.getByRole('button', { name: /confirm vote/i }));
+
+      await waitFor(() => {
+        expect(onVote).toHaveBeenCalledWith('no', 49);
+      });
+    });
+
+    it('should disable voting without a snapshot balance', () => {
+      renderWithRouter(<VotingPanel {...defaultProps} votingMode="weighted" votingPower={0} />);
+
+      expect(
+        screen.getByText(/you held no dom when this proposal was created/i)
+      ).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /vote yes/i })).toBeDisabled();
+    });
+
+    it('should show the counted weight after voting', () => {
+      const userVote: UserVote = {
+        proposalId: 'prop-123',
+        vote: 'yes',
+        votedAt: Date.now(),
+        weight: 5,
+        credits: 25,
+      };
+      renderWithRouter(
+        <VotingPanel
+          {...defaultProps}
+          votingMode="quadratic"
+          votingPower={50}
+          userVote={userVote}
+        />
+      );
+
+      expect(screen.getByText('Counted with 5 votes (25 credits)')).toBeInTheDocument();
+    });
+  });
+
+  describe('Offline vote queue', () => {
+    const queuedVote: QueuedVote = {
+      proposalId: 'prop-123',
+      vote: 'no',
+      votingEndsAt: defaultProps.votingEndsAt,
+      queuedAt: Date.now(),
+      status: 'queued',
+      attempts: 0,
+    };
+
+    it('should show a queued vote instead of the vote buttons', () => {
+      const onDiscardQueued = vi.fn();
+      renderWithRouter(
+        <VotingPanel {...defaultProps} queuedVote={queuedVote} onDiscardQueued={onDiscardQueued} />
+      );
+
+      expect(screen.getByText('Your No vote is queued')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /vote yes/i })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel Queued Vote' }));
+      expect(onDiscardQueued).toHaveBeenCalled();
+    });
+
+    it('should show when a queued vote is being submitted', () => {
+      renderWithRouter(
+        <VotingPanel {...defaultProps} queuedVote={{ ...queuedVote, status: 'replaying' }} />
+      );
+
+      expect(screen.getByText('Submitting your queued No vote...')).toBeInTheDocument();
+    });
+
+    it('should show why a queued vote was rejected', () => {
+      renderWithRouter(
+        <VotingPanel
+          {...defaultProps}
+          queuedVote={{ ...queuedVote, status: 'failed', error: 'Voting has ended.' }}
+          onDiscardQueued={vi.fn()}
+        />
+      );
+
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'Your queued No vote could not be submitted'
+      );
+      expect(screen.getByText('Voting has ended.')).toBeInTheDocument();
+    });
+  });
+
+  describe('Staked voting power', () => {
+    it('should show the voting power from staked DOM', () => {
+      renderWithRouter(
+        <VotingPanel {...defaultProps} stakedVotingPower={BigInt(25_000_000_000)} />
+      );
+
+      expect(screen.getByTestId('staked-voting-power')).toHaveTextContent('250.00');
+    });
+
+    it('should not show staked voting power before stakes are loaded', () => {
+      renderWithRouter(<VotingPanel {...defaultProps} />);
+
+      expect(screen.queryByTestId('staked-voting-power')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,61 @@
+/**
+ * VotingPowerBreakdown Component Tests
+ *
+ * Tests for the per-stake breakdown of the member's voting power at the
+ * time of their vote.
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { describe, it, expect } from 'vitest';
+import { VotingPowerBreakdown } from '../components/VotingPowerBreakdown';
+import { MAX_DISSOLVE_DELAY_DAYS, type Stake } from '@/stores';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VOTED_AT = Date.UTC(2026, 5, 1);
+
+// Wrapper with router
+const renderWithRouter = (ui: React.ReactElement) => {
+  return render(<BrowserRouter>{ui}</BrowserRouter>);
+};
+
+function createStake(overrides: Partial<Stake> = {}): Stake {
+  return {
+    id: '1',
+    amount: BigInt(10_000_000_000), // 100 DOM
+    dissolveDelayDays: MAX_DISSOLVE_DELAY_DAYS,
+    dissolveStartedAt: null,
+    agingSince: VOTED_AT,
+    createdAt: VOTED_AT - DAY_MS,
+    ...overrides,
+  };
+}
+
+describe('VotingPowerBreakdown', () => {
+  it('should show each stake and the total voting power at the time of the vote', () => {
+    renderWithRouter(
+      <VotingPowerBreakdown
+        stakes={[
+          createStake(),
+          createStake({ id: '2', dissolveDelayDays: 30 }),
+          createStake({ id: '3', createdAt: VOTED_AT + DAY_MS }),
+        ]}
+        asOf={VOTED_AT}
+      />
+    );
+
+    const rows = screen.getAllByRole('row');
+    // Header, two stakes that existed at the vote, total
+    expect(rows).toHaveLength(4);
+    expect(rows[1]).toHaveTextContent('2.00x × 1.00x');
+    expect(rows[2]).toHaveTextContent('Below minimum');
+    expect(screen.getByTestId('voting-power-total')).toHaveTextContent('200.00');
+  });
+
+  it('should explain when the member had no stakes', () => {
+    renderWithRouter(<VotingPowerBreakdown stakes={[]} asOf={VOTED_AT} />);
+
+    expect(screen.getByText(/You had no staked DOM when you voted/)).toBeInTheDocument();
+  });
+});
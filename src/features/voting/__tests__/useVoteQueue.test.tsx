@@ -0,0 +1,166 @@
+/**
+ * useVoteQueue Hook Tests
+ *
+ * Tests for replaying votes cast while offline: re-verification before
+ * casting, requeueing on network failure, expiry and cross-tab claims.
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+
+vi.mock('../../../services/governanceCanister', () => ({
+  castVote: vi.fn(),
+  verifyVoteStatus: vi.fn(),
+}));
+
+import { useVoteQueue } from '../hooks/useVoteQueue';
+import * as governanceService from '../../../services/governanceCanister';
+import { $voteQueue, $userVotes, queueVote, getQueuedVote, type QueuedVote } from '@/stores';
+
+describe('useVoteQueue', () => {
+  const proposalId = 'prop-queued';
+  const votingEndsAt = Date.now() + 24 * 60 * 60 * 1000;
+  let onLine: MockInstance<[], boolean>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    $voteQueue.set({});
+    $userVotes.set({});
+    onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    vi.mocked(governanceService.verifyVoteStatus).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    onLine.mockRestore();
+  });
+
+  it('should replay queued votes and record them', async () => {
+    queueVote({ proposalId, vote: 'yes', revision: 2, votingEndsAt });
+    vi.mocked(governanceService.castVote).mockResolvedValue({
+      success: true,
+      transactionId: 'tx-replayed',
+    });
+
+    renderHook(() => useVoteQueue());
+
+    await waitFor(() => expect(getQueuedVote(proposalId)).toBeNull());
+    expect(governanceService.castVote).toHaveBeenCalledWith(proposalId, 'yes', 2, undefined);
+    expect($userVotes.get()[proposalId]).toEqual(
+      expect.objectContaining({ vote: 'yes', transactionId: 'tx-replayed', revision: 2 })
+    );
+  });
+
+  it('should not cast a vote that is already recorded on-chain', async () => {
+    queueVote({ proposalId, vote: 'no', votingEndsAt });
+    vi.mocked(governanceService.verifyVoteStatus).mockResolvedValue({
+      proposalId,
+      vote: 'no',
+      votedAt: Date.now(),
+      transactionId: 'tx-original',
+    });
+
+    renderHook(() => useVoteQueue());
+
+    await waitFor(() => expect(getQueuedVote(proposalId)).toBeNull());
+    expect(governanceService.castVote).not.toHaveBeenCalled();
+    expect($userVotes.get()[proposalId]?.transactionId).toBe('tx-original');
+  });
+
+  it('should keep the vote queued when the canister is still unreachable', async () => {
+    queueVote({ proposalId, vote: 'yes', votingEndsAt });
+    vi.mocked(governanceService.castVote).mockResolvedValue({
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Failed to cast vote. Please try again.' },
+    });
+
+    const { result } = renderHook(() => useVoteQueue());
+
+    await waitFor(() => expect(result.current.isReplaying).toBe(false));
+    await waitFor(() => expect(getQueuedVote(proposalId)?.attempts).toBe(1));
+    expect(getQueuedVote(proposalId)).toEqual(
+      expect.objectContaining({ status: 'queued', error: 'Failed to cast vote. Please try again.' })
+    );
+  });
+
+  it('should keep the vote queued when its status cannot be verified', async () => {
+    queueVote({ proposalId, vote: 'yes', votingEndsAt });
+    vi.mocked(governanceService.verifyVoteStatus).mockRejectedValue(new Error('unreachable'));
+
+    const { result } = renderHook(() => useVoteQueue());
+
+    await waitFor(() => expect(getQueuedVote(proposalId)?.attempts).toBe(1));
+    await waitFor(() => expect(result.current.isReplaying).toBe(false));
+    expect(governanceService.castVote).not.toHaveBeenCalled();
+    expect(getQueuedVote(proposalId)).toEqual(
+      expect.objectContaining({
+        status: 'queued',
+        error: 'Could not verify your vote. It will be retried.',
+      })
+    );
+  });
+
+  it('should mark the vote failed when the canister rejects it', async () => {
+    queueVote({ proposalId, vote: 'yes', votingEndsAt });
+    vi.mocked(governanceService.castVote).mockResolvedValue({
+      success: false,
+      error: { code: 'MEMBERSHIP_EXPIRED', message: 'Your membership has expired.' },
+    });
+
+    renderHook(() => useVoteQueue());
+
+    await waitFor(() => expect(getQueuedVote(proposalId)?.status).toBe('failed'));
+    expect(getQueuedVote(proposalId)?.error).toBe('Your membership has expired.');
+  });
+
+  it('should drop votes whose voting period has ended', async () => {
+    queueVote({ proposalId, vote: 'yes', votingEndsAt: Date.now() - 1000 });
+
+    renderHook(() => useVoteQueue());
+
+    await waitFor(() => expect(getQueuedVote(proposalId)).toBeNull());
+    expect(governanceService.castVote).not.toHaveBeenCalled();
+  });
+
+  it('should leave votes another tab is replaying alone', async () => {
+    const claimed: QueuedVote = {
+      proposalId,
+      vote: 'yes',
+      votingEndsAt,
+      queuedAt: Date.now(),
+      status: 'replaying',
+      attempts: 1,
+      claimedBy: 'tab-other',
+      lastAttemptAt: Date.now(),
+    };
+    $voteQueue.set({ [proposalId]: claimed });
+
+    const { result } = renderHook(() => useVoteQueue());
+
+    await act(async () => {
+      await result.current.replay();
+    });
+
+    expect(governanceService.verifyVoteStatus).not.toHaveBeenCalled();
+    expect(getQueuedVote(proposalId)).toEqual(claimed);
+  });
+
+  it('should wait for the connection before replaying', async () => {
+    onLine.mockReturnValue(false);
+    queueVote({ proposalId, vote: 'abstain', votingEndsAt });
+    vi.mocked(governanceService.castVote).mockResolvedValue({
+      success: true,
+      transactionId: 'tx-online',
+    });
+
+    renderHook(() => useVoteQueue());
+    expect(governanceService.castVote).not.toHaveBeenCalled();
+
+    onLine.mockReturnValue(true);
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(getQueuedVote(proposalId)).toBeNull());
+    expect(governanceService.castVote).toHaveBeenCalledTimes(1);
+  });
+});
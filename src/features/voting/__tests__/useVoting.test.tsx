@@ -1,19 +1,20 @@
 /**
  * useVoting Hook Tests
  *
- * Tests for vote casting, pending vote recovery, and cross-tab sync.
+ * Tests for vote casting, pending vote recovery, offline queueing and cross-tab sync.
  *
  * Story: 9-1-2-voting-interface
  * AC: 2, 5, 6, 7
  */
 
 import { renderHook, act } from '@testing-library/react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
 
 // Create mock functions using vi.hoisted
 const mocks = vi.hoisted(() => {
   let userVotes: Record<string, unknown> = {};
   let pendingVotes: Record<string, unknown> = {};
+  let voteQueue: Record<string, unknown> = {};
   const listeners: Set<() => void> = new Set();
 
   return {
@@ -49,13 +50,37 @@ const mocks = vi.hoisted(() => {
         return () => listeners.delete(fn);
       },
     },
+    mockVoteQueue: {
+      get: () => voteQueue,
+      set: (v: Record<string, unknown>) => {
+        voteQueue = v;
+        listeners.forEach((l) => l());
+      },
+      listen: (fn: () => void) => {
+        listeners.add(fn);
+        return () => listeners.delete(fn);
+      },
+      subscribe: (fn: () => void) => {
+        listeners.add(fn);
+        fn();
+        return () => listeners.delete(fn);
+      },
+    },
     mockSetUserVote: vi.fn(),
+    mockQueueVote: vi.fn((entry: Record<string, unknown>) => ({
+      ...entry,
+      queuedAt: Date.now(),
+      status: 'queued',
+      attempts: 0,
+    })),
+    mockRemoveQueuedVote: vi.fn(),
     mockSetPendingVote: vi.fn(),
     mockClearPendingVote: vi.fn(),
     mockSetupCrossTabSync: vi.fn(() => () => {}),
     resetStores: () => {
       userVotes = {};
       pendingVotes = {};
+      voteQueue = {};
     },
     setPendingVotes: (v: Record<string, unknown>) => {
       pendingVotes = v;
@@ -74,6 +99,9 @@ vi.mock('../../../services/governanceCanister', () => ({
 vi.mock('@/stores', () => ({
   $userVotes: mocks.mockUserVotes,
   $pendingVotes: mocks.mockPendingVotes,
+  $voteQueue: mocks.mockVoteQueue,
+  queueVote: (entry: Record<string, unknown>) => mocks.mockQueueVote(entry),
+  removeQueuedVote: (proposalId: string) => mocks.mockRemoveQueuedVote(proposalId),
   setUserVote: (proposalId: string, vote: unknown) => mocks.mockSetUserVote(proposalId, vote),
   setPendingVote: (proposalId: string, vote: unknown) => mocks.mockSetPendingVote(proposalId, vote),
   clearPendingVote: (proposalId: string) => mocks.mockClearPendingVote(proposalId),
@@ -224,6 +252,139 @@ describe('useVoting', () => {
     });
   });
 
+  describe('Proposal revisions', () => {
+    it('should cast and record the vote against the viewed revision', async () => {
+      vi.mocked(governanceService.castVote).mockResolvedValue({
+        success: true,
+        transactionId: 'tx-rev',
+      });
+      const onVoteSuccess = vi.fn();
+
+      const { result } = renderHook(() => useVoting({ proposalId, revision: 3, onVoteSuccess }));
+
+      await act(async () => {
+        await result.current.castVote('yes');
+      });
+
+      expect(governanceService.castVote).toHaveBeenCalledWith(proposalId, 'yes', 3, undefined);
+      expect(onVoteSuccess).toHaveBeenCalledWith(expect.objectContaining({ revision: 3 }));
+    });
+  });
+
+  describe('Delegated votes', () => {
+    it('should allow overriding a vote cast by a delegate', async () => {
+      mocks.mockUserVotes.set({
+        [proposalId]: { proposalId, vote: 'yes', votedAt: Date.now(), delegate: 'delegate-abc' },
+      });
+      vi.mocked(governanceService.castVote).mockResolvedValue({
+        success: true,
+        transactionId: 'tx-override',
+      });
+
+      const { result } = renderHook(() => useVoting({ proposalId }));
+
+      let success = false;
+      await act(async () => {
+        success = await result.current.castVote('no');
+      });
+
+      expect(success).toBe(true);
+      expect(governanceService.castVote).toHaveBeenCalledWith(
+        proposalId,
+        'no',
+        undefined,
+        undefined
+      );
+    });
+
+    it('should not re-submit when the member already voted themselves', async () => {
+      mocks.mockUserVotes.set({
+        [proposalId]: { proposalId, vote: 'yes', votedAt: Date.now() },
+      });
+
+      const { result } = renderHook(() => useVoting({ proposalId }));
+
+      let success = true;
+      await act(async () => {
+        success = await result.current.castVote('no');
+      });
+
+      expect(success).toBe(false);
+      expect(governanceService.castVote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Offline queue', () => {
+    const votingEndsAt = Date.now() + 24 * 60 * 60 * 1000;
+    let onLine: MockInstance<[], boolean>;
+
+    beforeEach(() => {
+      onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      onLine.mockRestore();
+    });
+
+    it('should queue the vote instead of casting it while offline', async () => {
+      onLine.mockReturnValue(false);
+      const onVoteQueued = vi.fn();
+
+      const { result } = renderHook(() =>
+        useVoting({ proposalId, revision: 2, votingEndsAt, proposalTitle: 'Roof', onVoteQueued })
+      );
+
+      let success = true;
+      await act(async () => {
+        success = await result.current.castVote('yes');
+      });
+
+      expect(success).toBe(false);
+      expect(governanceService.castVote).not.toHaveBeenCalled();
+      expect(mocks.mockQueueVote).toHaveBeenCalledWith(
+        expect.objectContaining({ proposalId, vote: 'yes', revision: 2, votingEndsAt })
+      );
+      expect(onVoteQueued).toHaveBeenCalledWith(expect.objectContaining({ status: 'queued' }));
+      expect(result.current.error).toBeNull();
+    });
+
+    it('should queue the vote when the connection drops mid-submission', async () => {
+      vi.mocked(governanceService.castVote).mockImplementation(async () => {
+        onLine.mockReturnValue(false);
+        return { success: false, error: { code: 'NETWORK_ERROR', message: 'Failed' } };
+      });
+
+      const { result } = renderHook(() => useVoting({ proposalId, votingEndsAt }));
+
+      await act(async () => {
+        await result.current.castVote('no');
+      });
+
+      expect(mocks.mockQueueVote).toHaveBeenCalledWith(
+        expect.objectContaining({ proposalId, vote: 'no' })
+      );
+      expect(result.current.error).toBeNull();
+    });
+
+    it('should not cast again while a vote is queued', async () => {
+      mocks.mockVoteQueue.set({
+        [proposalId]: { proposalId, vote: 'yes', votingEndsAt, status: 'queued', attempts: 0 },
+      });
+
+      const { result } = renderHook(() => useVoting({ proposalId, votingEndsAt }));
+
+      expect(result.current.queuedVote).toEqual(expect.objectContaining({ vote: 'yes' }));
+
+      let success = true;
+      await act(async () => {
+        success = await result.current.castVote('no');
+      });
+
+      expect(success).toBe(false);
+      expect(governanceService.castVote).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Cross-tab sync', () => {
     it('should setup cross-tab sync on mount', () => {
       vi.mocked(governanceService.getUserVote).mockResolvedValue(null);
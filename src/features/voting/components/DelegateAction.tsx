@@ -0,0 +1,199 @@
+/**
+ * DelegateAction Component
+ *
+ * "Delegate" action shown on another member's profile. Lets the viewer
+ * delegate their vote to that member for all proposals or a single
+ * vertical, and lists/revokes delegations already made to them.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import { Button } from '../../../components/ui/button';
+import {
+  $delegations,
+  getDelegationScopeLabel,
+  showSuccess,
+  showError,
+  type DelegationScope,
+} from '@/stores';
+import { useDelegations } from '../hooks/useDelegations';
+
+export interface DelegateActionProps {
+  delegatePrincipal: string;
+  delegateName: string | null;
+}
+
+const SCOPE_OPTIONS: DelegationScope[] = [
+  'global',
+  'Housing',
+  'Food',
+  'Energy',
+  'Education',
+  'Community',
+  'Infrastructure',
+  'Other',
+];
+
+export function DelegateAction({ delegatePrincipal, delegateName }: DelegateActionProps) {
+  const allDelegations = useStore($delegations);
+  const { delegate, revoke, isSubmitting } = useDelegations();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [scope, setScope] = useState<DelegationScope>('global');
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const selectRef = useRef<HTMLSelectElement>(null);
+
+  const displayName = delegateName || `${delegatePrincipal.substring(0, 12)}...`;
+  const delegationsToMember = allDelegations.filter((d) => d.delegate === delegatePrincipal);
+  const replacedDelegation = allDelegations.find(
+    (d) => d.scope === scope && d.delegate !== delegatePrincipal
+  );
+  const alreadyDelegated = delegationsToMember.some((d) => d.scope === scope);
+
+  // Move focus into the dialog when it opens
+  useEffect(() => {
+    if (isDialogOpen) {
+      selectRef.current?.focus();
+    }
+  }, [isDialogOpen]);
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    triggerRef.current?.focus();
+  };
+
+  const handleConfirm = async () => {
+    const success = await delegate(delegatePrincipal, scope, delegateName ?? undefined);
+    if (success) {
+      const scopeLabel = getDelegationScopeLabel(scope).toLowerCase();
+      showSuccess(`You delegated your vote to ${displayName} for ${scopeLabel}.`);
+      closeDialog();
+    } else {
+      showError('Failed to delegate your vote. Please try again.');
+    }
+  };
+
+  const handleRevoke = async (revokeScope: DelegationScope) => {
+    const success = await revoke(revokeScope);
+    if (success) {
+      showSuccess(`Delegation to ${displayName} revoked.`);
+    } else {
+      showError('Failed to revoke delegation. Please try again.');
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200 bg-white p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-medium text-gray-900">Vote Delegation</h3>
+          <p className="text-sm text-gray-600">
+            Let {displayName} vote on your behalf when you don&apos;t vote yourself.
+          </p>
+        </div>
+        <Button
+          ref={triggerRef}
+          onClick={() => setIsDialogOpen(true)}
+          disabled={isSubmitting}
+          className="min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+        >
+          Delegate
+        </Button>
+      </div>
+
+      {delegationsToMember.length > 0 && (
+        <ul className="mt-4 space-y-2" aria-label={`Your delegations to ${displayName}`}>
+          {delegationsToMember.map((d) => (
+            <li
+              key={d.scope}
+              className="flex items-center justify-between rounded-md bg-teal-50 px-3 py-2 text-sm"
+            >
+              <span className="text-teal-800">
+                Delegated: {getDelegationScopeLabel(d.scope)}
+              </span>
+              <button
+                onClick={() => handleRevoke(d.scope)}
+                disabled={isSubmitting}
+                className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                aria-label={`Revoke ${getDelegationScopeLabel(d.scope)} delegation`}
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Delegation Dialog */}
+      {isDialogOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="delegate-dialog-title"
+        >
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full mx-4 p-6">
+            <h2 id="delegate-dialog-title" className="text-xl font-bold text-gray-900 mb-4">
+              Delegate Your Vote
+            </h2>
+
+            <p className="text-gray-700 mb-4">
+              {displayName} will vote for you on proposals you haven&apos;t voted on. You can
+              override their vote any time before voting ends.
+            </p>
+
+            <label htmlFor="delegation-scope" className="block text-sm font-medium text-gray-700">
+              Delegate for
+            </label>
+            <select
+              id="delegation-scope"
+              ref={selectRef}
+              value={scope}
+              onChange={(e) => setScope(e.target.value as DelegationScope)}
+              className="mt-1 mb-4 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            >
+              {SCOPE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {getDelegationScopeLabel(option)}
+                </option>
+              ))}
+            </select>
+
+            {scope !== 'global' && (
+              <p className="text-sm text-gray-500 mb-4">
+                A category delegation takes precedence over your &quot;All proposals&quot;
+                delegation.
+              </p>
+            )}
+
+            {replacedDelegation && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+                <p className="text-amber-800 text-sm">
+                  This replaces your current delegation to{' '}
+                  {replacedDelegation.delegateName ||
+                    `${replacedDelegation.delegate.substring(0, 12)}...`}
+                  .
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <Button variant="outline" onClick={closeDialog} className="min-h-[44px]">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleConfirm}
+                disabled={isSubmitting || alreadyDelegated}
+                className="min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+              >
+                {isSubmitting ? 'Delegating...' : 'Confirm Delegation'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DelegateAction;
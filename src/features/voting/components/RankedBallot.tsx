@@ -0,0 +1,312 @@
+/**
+ * RankedBallot Component
+ *
+ * Drag-to-rank ballot for ranked-choice proposals. Members order the
+ * options by preference, either by dragging or with the move buttons,
+ * and can leave options they don't support unranked. The ballot is
+ * confirmed before it is cast, as with yes/no votes.
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '../../../components/ui/button';
+import type { BallotOption } from '@/stores';
+
+export interface RankedBallotProps {
+  proposalTitle: string;
+  options: BallotOption[];
+  votingEndsAt: number;
+  isActive: boolean;
+  isMember: boolean;
+  isSubmitting?: boolean;
+  /** The member's cast ballot, if they have voted */
+  myRanking?: string[];
+  /** Cast the ballot: option IDs, most preferred first */
+  onSubmit: (ranking: string[]) => Promise<void>;
+}
+
+/**
+ * Move an item within a list
+ */
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export function RankedBallot({
+  proposalTitle,
+  options,
+  votingEndsAt,
+  isActive,
+  isMember,
+  isSubmitting = false,
+  myRanking,
+  onSubmit,
+}: RankedBallotProps) {
+  const navigate = useNavigate();
+  const [ranking, setRanking] = useState<string[]>(() => options.map((o) => o.id));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const optionsById = new Map(options.map((o) => [o.id, o]));
+  const labelFor = (id: string) => optionsById.get(id)?.label ?? id;
+  const unranked = options.filter((o) => !ranking.includes(o.id));
+  const isVotingClosed = Date.now() > votingEndsAt;
+  const canVote = isMember && isActive && !isVotingClosed && !myRanking;
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= ranking.length || from === to) return;
+    setRanking((current) => moveItem(current, from, to));
+    setAnnouncement(`${labelFor(ranking[from])} moved to position ${to + 1}.`);
+  };
+
+  const handleDrop = (index: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragIndex !== null) {
+      move(dragIndex, index);
+    }
+    setDragIndex(null);
+  };
+
+  const handleRemove = (id: string) => {
+    setRanking((current) => current.filter((rankedId) => rankedId !== id));
+    setAnnouncement(`${labelFor(id)} left unranked.`);
+  };
+
+  const handleAdd = (id: string) => {
+    setRanking((current) => [...current, id]);
+    setAnnouncement(`${labelFor(id)} ranked at position ${ranking.length + 1}.`);
+  };
+
+  const handleConfirm = async () => {
+    setIsConfirming(false);
+    await onSubmit(ranking);
+  };
+
+  // Non-member state
+  if (!isMember) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-gray-50 p-6 text-center">
+        <p className="text-gray-600 mb-4">Membership required to vote on proposals.</p>
+        <Button onClick={() => navigate('/membership')} className="min-h-[44px] min-w-[120px]">
+          Join to Vote
+        </Button>
+      </div>
+    );
+  }
+
+  // Already voted state
+  if (myRanking) {
+    return (
+      <div className="rounded-lg border border-teal-200 bg-teal-50 p-6">
+        <div className="flex items-center gap-2 text-teal-700">
+          <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+          <span className="font-medium">Your ranking has been recorded</span>
+        </div>
+        <ol className="mt-3 list-decimal list-inside space-y-1 text-sm text-teal-800">
+          {myRanking.map((id) => (
+            <li key={id}>{labelFor(id)}</li>
+          ))}
+        </ol>
+        <p className="mt-2 text-sm text-teal-600">Votes are final and cannot be changed.</p>
+      </div>
+    );
+  }
+
+  // Voting closed state
+  if (isVotingClosed || !isActive) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-gray-50 p-6 text-center">
+        <p className="text-gray-600">
+          {isVotingClosed ? 'Voting has ended for this proposal.' : 'Voting has not opened yet.'}
+        </p>
+      </div>
+    );
+  }
+
+  // Submitting state
+  if (isSubmitting) {
+    return (
+      <div className="rounded-lg border border-blue-200 bg-blue-50 p-6">
+        <div className="flex items-center justify-center gap-3">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          <span className="text-blue-700 font-medium">Submitting your ranking...</span>
+        </div>
+        <p className="mt-2 text-sm text-blue-600 text-center">
+          Please wait while your vote is being recorded on-chain.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border border-gray-200 p-6">
+        <h3 className="font-medium text-gray-900">Rank the Options</h3>
+        <p className="mt-1 mb-4 text-sm text-gray-600">
+          Drag options into your order of preference. If your first choice is eliminated, your
+          vote moves to your next choice. Leave out any option you don&apos;t support.
+        </p>
+
+        <div className="sr-only" aria-live="polite" aria-atomic="true">
+          {announcement}
+        </div>
+
+        {ranking.length === 0 ? (
+          <p className="rounded-md border border-dashed border-gray-300 px-4 py-6 text-center text-sm text-gray-500">
+            Rank at least one option to vote.
+          </p>
+        ) : (
+          <ol className="space-y-2" aria-label="Your ranking">
+            {ranking.map((id, index) => {
+              const option = optionsById.get(id);
+              return (
+                <li
+                  key={id}
+                  draggable={canVote}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', id);
+                    setDragIndex(index);
+                  }}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={handleDrop(index)}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={`flex items-center gap-3 rounded-md border bg-white px-3 py-2 ${
+                    dragIndex === index ? 'border-teal-400 opacity-50' : 'border-gray-200'
+                  } ${canVote ? 'cursor-grab' : ''}`}
+                >
+                  <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-teal-100 text-sm font-semibold text-teal-700">
+                    {index + 1}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900">{option?.label ?? id}</p>
+                    {option?.description && (
+                      <p className="text-sm text-gray-600">{option.description}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => move(index, index - 1)}
+                      disabled={!canVote || index === 0}
+                      aria-label={`Move ${labelFor(id)} up`}
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => move(index, index + 1)}
+                      disabled={!canVote || index === ranking.length - 1}
+                      aria-label={`Move ${labelFor(id)} down`}
+                    >
+                      ↓
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(id)}
+                      disabled={!canVote}
+                      aria-label={`Leave ${labelFor(id)} unranked`}
+                    >
+                      ✕
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {unranked.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-medium text-gray-700">Not ranked</h4>
+            <ul className="mt-2 flex flex-wrap gap-2">
+              {unranked.map((option) => (
+                <li key={option.id}>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAdd(option.id)}
+                    disabled={!canVote}
+                    aria-label={`Rank ${option.label}`}
+                  >
+                    + {option.label}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <Button
+          onClick={() => setIsConfirming(true)}
+          disabled={!canVote || ranking.length === 0}
+          className="mt-6 min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+        >
+          Submit Ranking
+        </Button>
+      </div>
+
+      {/* Confirmation Dialog */}
+      {isConfirming && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="confirm-ranking-title"
+        >
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full mx-4 p-6">
+            <h2 id="confirm-ranking-title" className="text-xl font-bold text-gray-900 mb-4">
+              Confirm Your Ranking
+            </h2>
+
+            <p className="text-gray-700 mb-2">Your ranking on:</p>
+            <p className="text-gray-900 font-medium mb-3">"{proposalTitle}"</p>
+            <ol className="mb-4 list-decimal list-inside space-y-1 text-gray-800">
+              {ranking.map((id) => (
+                <li key={id}>{labelFor(id)}</li>
+              ))}
+            </ol>
+
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+              <p className="text-amber-800 text-sm font-medium">This action cannot be undone.</p>
+              <p className="text-amber-700 text-sm mt-1">
+                Votes are final and cannot be changed once submitted.
+              </p>
+            </div>
+
+            <div className="flex gap-3 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setIsConfirming(false)}
+                className="min-h-[44px]"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleConfirm}
+                className="min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+              >
+                Confirm Ranking
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default RankedBallot;
@@ -0,0 +1,185 @@
+/**
+ * RunoffTally Component
+ *
+ * Shows an instant-runoff count round by round: each option's share of the
+ * ballots still in play, which option was eliminated at the end of the
+ * round, and how many ballots ran out of ranked options. Defaults to the
+ * final round, with earlier rounds a click away.
+ */
+
+import React, { useState } from 'react';
+import type { BallotOption } from '@/stores';
+import type { RunoffResult } from '../../../utils/instantRunoff';
+import { VoteTallySkeleton } from './VoteTally';
+
+export interface RunoffTallyProps {
+  options: BallotOption[];
+  result: RunoffResult | null;
+  isLoading: boolean;
+  error?: string;
+}
+
+/**
+ * Join labels as "A", "A and B" or "A, B and C"
+ */
+function joinLabels(labels: string[]): string {
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+export function RunoffTally({ options, result, isLoading, error }: RunoffTallyProps) {
+  // null follows the latest round as new ballots arrive
+  const [selectedRound, setSelectedRound] = useState<number | null>(null);
+
+  if (isLoading) {
+    return <VoteTallySkeleton />;
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-6">
+        <p className="text-red-700">{error}</p>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="rounded-lg border border-gray-200 p-6 text-center">
+        <p className="text-gray-500">Vote tally unavailable</p>
+      </div>
+    );
+  }
+
+  const labelFor = (id: string) => options.find((o) => o.id === id)?.label ?? id;
+  const finalRound = result.rounds.length;
+  const roundNumber = Math.min(selectedRound ?? finalRound, finalRound);
+  const round = result.rounds[roundNumber - 1];
+  const activeBallots = result.totalBallots - round.exhausted;
+
+  // Round in which each option was knocked out
+  const eliminatedIn = new Map<string, number>();
+  for (const r of result.rounds) {
+    for (const id of r.eliminated) eliminatedIn.set(id, r.round);
+  }
+
+  const rows = options
+    .map((option) => ({
+      option,
+      count: round.counts[option.id],
+      outInRound: eliminatedIn.get(option.id),
+    }))
+    .sort((a, b) => (b.count ?? -1) - (a.count ?? -1));
+
+  let outcome: string;
+  if (result.totalBallots === 0) {
+    outcome = 'No ballots yet';
+  } else if (result.winner) {
+    outcome = `${labelFor(result.winner)} leads with a majority after ${finalRound} ${
+      finalRound === 1 ? 'round' : 'rounds'
+    }`;
+  } else {
+    outcome = `Tied between ${joinLabels(result.tied.map(labelFor))}`;
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-900">Ranked-Choice Results</h3>
+        <span className="text-xs text-gray-500">
+          {result.totalBallots} {result.totalBallots === 1 ? 'ballot' : 'ballots'}
+        </span>
+      </div>
+
+      <p className="mb-4 text-sm font-medium text-teal-700" aria-live="polite">
+        {outcome}
+      </p>
+
+      {finalRound > 1 && (
+        <div className="mb-4 flex flex-wrap gap-2" role="group" aria-label="Runoff rounds">
+          {result.rounds.map((r) => (
+            <button
+              key={r.round}
+              type="button"
+              onClick={() => setSelectedRound(r.round)}
+              aria-pressed={r.round === roundNumber}
+              className={`rounded-full px-3 py-1 text-xs font-medium ${
+                r.round === roundNumber
+                  ? 'bg-teal-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Round {r.round}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-3" aria-label={`Round ${roundNumber} counts`}>
+        {rows.map(({ option, count, outInRound }) => {
+          // Options knocked out in an earlier round no longer hold ballots
+          if (count === undefined) {
+            return (
+              <li key={option.id} className="flex justify-between text-sm text-gray-400">
+                <span className="line-through">{option.label}</span>
+                <span>Out in round {outInRound}</span>
+              </li>
+            );
+          }
+
+          const pct = activeBallots > 0 ? Math.round((count / activeBallots) * 100) : 0;
+          const isEliminated = round.eliminated.includes(option.id);
+          const isWinner = roundNumber === finalRound && result.winner === option.id;
+
+          return (
+            <li key={option.id}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">
+                  {option.label}
+                  {isWinner && (
+                    <span className="ml-2 rounded bg-teal-100 px-2 py-0.5 text-xs text-teal-700">
+                      Majority
+                    </span>
+                  )}
+                  {isEliminated && (
+                    <span className="ml-2 rounded bg-red-100 px-2 py-0.5 text-xs text-red-700">
+                      Eliminated
+                    </span>
+                  )}
+                </span>
+                <span className="text-gray-600">
+                  {count} ({pct}%)
+                </span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-gray-100" aria-hidden="true">
+                <div
+                  className={`h-2 rounded-full transition-all duration-500 ${
+                    isEliminated ? 'bg-red-400' : 'bg-teal-500'
+                  }`}
+                  style={{ width: `${pct}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-4 border-t border-gray-200 pt-4 space-y-2">
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-600">Majority needed</span>
+          <span className="text-gray-900">
+            {Math.floor(activeBallots / 2) + 1} of {activeBallots}
+          </span>
+        </div>
+        {round.exhausted > 0 && (
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-gray-600">Exhausted ballots</span>
+            <span className="text-gray-900">{round.exhausted}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RunoffTally;
@@ -0,0 +1,92 @@
+/**
+ * VoteAllocation Component
+ *
+ * Lets a member choose how much voting power to put behind their vote on
+ * a weighted or quadratic proposal, with a live preview of what it costs.
+ * Weighted: allocate DOM up to the snapshot balance.
+ * Quadratic: choose a number of votes; n votes cost n² voice credits.
+ */
+
+import React from 'react';
+import { getMaxQuadraticVotes, getQuadraticCost } from '../../../utils/votingPower';
+
+export interface VoteAllocationProps {
+  votingMode: 'weighted' | 'quadratic';
+  /** Snapshot balance: DOM (weighted) or voice credits (quadratic) */
+  balance: number;
+  /** DOM weight (weighted) or number of votes (quadratic) */
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+export function VoteAllocation({
+  votingMode,
+  balance,
+  value,
+  onChange,
+  disabled = false,
+}: VoteAllocationProps) {
+  const isQuadratic = votingMode === 'quadratic';
+  const max = isQuadratic ? getMaxQuadraticVotes(balance) : balance;
+  const label = isQuadratic ? 'Number of votes' : 'Vote weight (DOM)';
+
+  const handleChange = (next: number) => {
+    if (Number.isNaN(next)) return;
+    onChange(Math.min(max, Math.max(1, Math.floor(next))));
+  };
+
+  const cost = getQuadraticCost(value);
+  const nextVoteCost = getQuadraticCost(value + 1) - cost;
+  const share = balance > 0 ? Math.round((value / balance) * 100) : 0;
+
+  return (
+    <div className="mb-4 rounded-md bg-gray-50 p-4">
+      <label htmlFor="vote-allocation" className="text-sm font-medium text-gray-900">
+        {label}
+      </label>
+      <div className="mt-2 flex items-center gap-3">
+        <input
+          type="range"
+          min={1}
+          max={max}
+          value={value}
+          onChange={(e) => handleChange(e.target.valueAsNumber)}
+          disabled={disabled}
+          aria-hidden="true"
+          tabIndex={-1}
+          className="flex-1 accent-teal-600"
+        />
+        <input
+          id="vote-allocation"
+          type="number"
+          min={1}
+          max={max}
+          value={value}
+          onChange={(e) => handleChange(e.target.valueAsNumber)}
+          disabled={disabled}
+          className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+        />
+      </div>
+
+      <p className="mt-2 text-sm text-gray-600" aria-live="polite" data-testid="allocation-preview">
+        {isQuadratic ? (
+          <>
+            {value} {value === 1 ? 'vote costs' : 'votes cost'}{' '}
+            <span className="font-medium text-gray-900">{cost.toLocaleString()} credits</span>.{' '}
+            {(balance - cost).toLocaleString()} of {balance.toLocaleString()} credits left.
+            {value < max && ` One more vote would cost ${nextVoteCost.toLocaleString()} credits.`}
+          </>
+        ) : (
+          <>
+            Your vote counts for{' '}
+            <span className="font-medium text-gray-900">{value.toLocaleString()} DOM</span>,{' '}
+            {share}% of the {balance.toLocaleString()} DOM you held when this proposal was created.
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
+
+export default VoteAllocation;
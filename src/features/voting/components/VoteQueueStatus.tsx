@@ -0,0 +1,98 @@
+/**
+ * VoteQueueStatus Component
+ *
+ * Lists votes cast while offline with the status of each one: waiting for
+ * the connection, being submitted, or rejected when replayed. Owns the
+ * replay of the queue, so it is mounted once for all authenticated pages.
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '../../../components/ui/button';
+import type { QueuedVote, QueuedVoteStatus, VoteChoice } from '@/stores';
+import { useVoteQueue } from '../hooks/useVoteQueue';
+
+const VOTE_LABELS: Record<VoteChoice, string> = {
+  yes: 'Yes',
+  no: 'No',
+  abstain: 'Abstain',
+};
+
+const STATUS_BADGES: Record<QueuedVoteStatus, { text: string; className: string }> = {
+  queued: { text: 'Waiting for connection', className: 'bg-amber-100 text-amber-800' },
+  replaying: { text: 'Submitting...', className: 'bg-blue-100 text-blue-700' },
+  failed: { text: 'Not submitted', className: 'bg-red-100 text-red-700' },
+};
+
+export function VoteQueueStatus(): React.ReactElement | null {
+  const { queue, isReplaying, retry, discard } = useVoteQueue();
+
+  if (queue.length === 0) {
+    return null;
+  }
+
+  const renderEntry = (entry: QueuedVote) => {
+    const badge = STATUS_BADGES[entry.status];
+    const title = entry.proposalTitle ?? `Proposal #${entry.proposalId.substring(0, 8)}`;
+
+    return (
+      <li key={entry.proposalId} className="flex flex-wrap items-center gap-x-3 gap-y-1 py-2">
+        <div className="min-w-0 flex-1">
+          <Link
+            to={`/proposals/${entry.proposalId}`}
+            className="font-medium text-gray-900 hover:text-teal-700 hover:underline"
+          >
+            {title}
+          </Link>
+          <p className="text-sm text-gray-600">
+            Voted {VOTE_LABELS[entry.vote]} · voting ends{' '}
+            {new Date(entry.votingEndsAt).toLocaleString()}
+          </p>
+          {entry.error && <p className="text-sm text-red-600">{entry.error}</p>}
+        </div>
+        <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}>
+          {badge.text}
+        </span>
+        {entry.status === 'failed' && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => retry(entry.proposalId)}
+            disabled={isReplaying}
+            aria-label={`Retry vote on ${title}`}
+          >
+            Retry
+          </Button>
+        )}
+        {entry.status !== 'replaying' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => discard(entry.proposalId)}
+            aria-label={`Discard vote on ${title}`}
+          >
+            Discard
+          </Button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section aria-label="Queued votes" className="container mx-auto px-4 pt-4">
+      <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+        <h2 className="font-medium text-amber-900">
+          {queue.length === 1 ? '1 queued vote' : `${queue.length} queued votes`}
+        </h2>
+        <p className="text-sm text-amber-800">
+          Votes cast while offline are submitted automatically once you&apos;re back online.
+        </p>
+        <ul className="mt-2 divide-y divide-amber-200" aria-live="polite">
+          {queue.map(renderEntry)}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+export default VoteQueueStatus;
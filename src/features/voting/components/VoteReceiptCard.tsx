@@ -0,0 +1,109 @@
+/**
+ * VoteReceiptCard Component
+ *
+ * Shows a vote receipt: the proposal, the choice, when it was cast and the
+ * on-chain transaction ID, with the canister's signature. Members can
+ * download the receipt as signed JSON and check it on the verifier page.
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Download, ShieldCheck } from 'lucide-react';
+import { Button } from '../../../components/ui/button';
+import type { VoteReceipt } from '@/stores';
+import {
+  buildReceiptDocument,
+  serializeReceiptDocument,
+  getReceiptFilename,
+} from '../../../utils/voteReceipt';
+
+export interface VoteReceiptCardProps {
+  receipt: VoteReceipt;
+  proposalTitle?: string;
+  /** Show the download button and verifier link (default: true) */
+  showActions?: boolean;
+}
+
+const VOTE_LABELS: Record<VoteReceipt['vote'], string> = {
+  yes: 'Yes',
+  no: 'No',
+  abstain: 'Abstain',
+};
+
+export function VoteReceiptCard({
+  receipt,
+  proposalTitle,
+  showActions = true,
+}: VoteReceiptCardProps) {
+  const handleDownload = () => {
+    const json = serializeReceiptDocument(buildReceiptDocument(receipt, proposalTitle));
+
+    // Create blob and trigger download
+    const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', getReceiptFilename(receipt));
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const rows: { label: string; value: React.ReactNode; mono?: boolean }[] = [
+    {
+      label: 'Proposal',
+      value: proposalTitle ? `${proposalTitle} (#${receipt.proposalId})` : `#${receipt.proposalId}`,
+    },
+    { label: 'Choice', value: VOTE_LABELS[receipt.vote] },
+    ...(receipt.weight !== 1 ? [{ label: 'Weight', value: receipt.weight.toLocaleString() }] : []),
+    { label: 'Revision', value: receipt.revision },
+    { label: 'Cast at', value: new Date(receipt.votedAt).toLocaleString() },
+    { label: 'Transaction', value: receipt.transactionId, mono: true },
+    { label: 'Voter', value: receipt.voter, mono: true },
+    { label: 'Canister', value: receipt.canisterId, mono: true },
+    { label: 'Signature', value: receipt.signature, mono: true },
+  ];
+
+  return (
+    <section className="rounded-lg border border-gray-200 p-6" aria-labelledby="vote-receipt-title">
+      <h3 id="vote-receipt-title" className="font-medium text-gray-900">
+        Vote Receipt
+      </h3>
+      <p className="mt-1 text-sm text-gray-600">
+        Signed by the governance canister. Keep a copy as proof of how you voted.
+      </p>
+
+      <dl className="mt-4 space-y-2 text-sm">
+        {rows.map(({ label, value, mono }) => (
+          <div key={label} className="grid grid-cols-[7rem_1fr] gap-2">
+            <dt className="text-gray-600">{label}</dt>
+            <dd className={`text-gray-900 break-all ${mono ? 'font-mono text-xs' : ''}`}>
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {showActions && (
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <Button variant="outline" onClick={handleDownload} className="min-h-[44px]">
+            <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+            Download Receipt
+          </Button>
+          <Link
+            to="/votes/verify"
+            className="inline-flex items-center gap-1 text-sm text-teal-700 hover:underline"
+          >
+            <ShieldCheck className="h-4 w-4" aria-hidden="true" />
+            Verify a receipt
+          </Link>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default VoteReceiptCard;
@@ -2,7 +2,9 @@
  * VoteTally Component
  *
  * Displays vote distribution as a horizontal bar chart with
- * quorum and passing threshold indicators.
+ * quorum and passing threshold indicators, and how much of the total
+ * was cast by delegates. Weighted and quadratic proposals show weighted
+ * totals, with the voter headcount still used for quorum.
  *
  * Story: 9-1-2-voting-interface
  * ACs: 3, 4
@@ -10,6 +12,7 @@
 
 import React, { useMemo } from 'react';
 import type { VoteTally as VoteTallyType } from '@/stores';
+import { VOTING_MODE_LABELS } from '../../../utils/votingPower';
 
 export interface VoteTallyProps {
   tally: VoteTallyType | null;
@@ -51,17 +54,27 @@ export function VoteTallySkeleton() {
   );
 }
 
+/**
+ * Unit for weighted totals, e.g. "DOM" or "votes"
+ */
+function getWeightUnit(tally: VoteTallyType): string {
+  return tally.votingMode === 'quadratic' ? 'votes' : 'DOM';
+}
+
 export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
+  // Totals the bar chart is drawn from: weighted on weighted/quadratic proposals
+  const totals = tally?.weighted ?? tally;
+
   // Calculate percentages
   const percentages = useMemo(() => {
-    if (!tally || tally.totalVotes === 0) {
+    if (!tally || !totals || tally.totalVotes === 0) {
       return { yes: 0, no: 0, abstain: 0 };
     }
 
     // Clamp to non-negative values
-    const yes = Math.max(0, tally.yes);
-    const no = Math.max(0, tally.no);
-    const abstain = Math.max(0, tally.abstain);
+    const yes = Math.max(0, totals.yes);
+    const no = Math.max(0, totals.no);
+    const abstain = Math.max(0, totals.abstain);
     const total = yes + no + abstain;
 
     if (total === 0) {
@@ -92,7 +105,7 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
     }
 
     return { yes: yesPct, no: noPct, abstain: abstainPct };
-  }, [tally]);
+  }, [tally, totals]);
 
   // Screen reader announcement text
   const srAnnouncement = useMemo(() => {
@@ -114,7 +127,7 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
     );
   }
 
-  if (!tally) {
+  if (!tally || !totals) {
     return (
       <div className="rounded-lg border border-gray-200 p-6 text-center">
         <p className="text-gray-500">Vote tally unavailable</p>
@@ -123,6 +136,9 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
   }
 
   const hasVotes = tally.totalVotes > 0;
+  const delegatedVotes = Math.max(0, tally.delegatedVotes ?? 0);
+  const delegatedPct = hasVotes ? Math.round((delegatedVotes / tally.totalVotes) * 100) : 0;
+  const weightUnit = tally.weighted ? ` ${getWeightUnit(tally)}` : '';
 
   return (
     <div className="rounded-lg border border-gray-200 p-6">
@@ -201,7 +217,10 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
                 <div className="w-3 h-3 rounded-full bg-green-500" />
                 <span className="text-sm text-gray-600">Yes</span>
               </div>
-              <p className="text-lg font-semibold text-gray-900">{Math.max(0, tally.yes)}</p>
+              <p className="text-lg font-semibold text-gray-900">
+                {Math.max(0, totals.yes).toLocaleString()}
+                {weightUnit}
+              </p>
               <p className="text-xs text-gray-500">{percentages.yes}%</p>
             </div>
             <div className="text-center">
@@ -209,7 +228,10 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
                 <div className="w-3 h-3 rounded-full bg-red-500" />
                 <span className="text-sm text-gray-600">No</span>
               </div>
-              <p className="text-lg font-semibold text-gray-900">{Math.max(0, tally.no)}</p>
+              <p className="text-lg font-semibold text-gray-900">
+                {Math.max(0, totals.no).toLocaleString()}
+                {weightUnit}
+              </p>
               <p className="text-xs text-gray-500">{percentages.no}%</p>
             </div>
             <div className="text-center">
@@ -217,7 +239,10 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
                 <div className="w-3 h-3 rounded-full bg-gray-400" />
                 <span className="text-sm text-gray-600">Abstain</span>
               </div>
-              <p className="text-lg font-semibold text-gray-900">{Math.max(0, tally.abstain)}</p>
+              <p className="text-lg font-semibold text-gray-900">
+                {Math.max(0, totals.abstain).toLocaleString()}
+                {weightUnit}
+              </p>
               <p className="text-xs text-gray-500">{percentages.abstain}%</p>
             </div>
           </div>
@@ -226,6 +251,15 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
 
       {/* Quorum and threshold indicators */}
       <div className="border-t border-gray-200 pt-4 space-y-2">
+        {tally.weighted && (
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-gray-600">Counting</span>
+            <span className="text-gray-900">
+              {VOTING_MODE_LABELS[tally.votingMode ?? 'weighted']} ·{' '}
+              {tally.totalVotes} {tally.totalVotes === 1 ? 'voter' : 'voters'}
+            </span>
+          </div>
+        )}
         <div className="flex justify-between items-center text-sm">
           <span className="text-gray-600">Quorum</span>
           <div className="flex items-center gap-2">
@@ -249,6 +283,14 @@ export function VoteTally({ tally, isLoading, error }: VoteTallyProps) {
             )}
           </div>
         </div>
+        {delegatedVotes > 0 && (
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-gray-600">Via delegation</span>
+            <span className="text-gray-900">
+              {delegatedVotes} of {tally.totalVotes} ({delegatedPct}%)
+            </span>
+          </div>
+        )}
         <div className="flex justify-between items-center text-sm">
           <span className="text-gray-600">Passing threshold</span>
           <span className="text-gray-900">{tally.passingThreshold}%</span>
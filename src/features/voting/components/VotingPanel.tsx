@@ -3,6 +3,12 @@
  *
  * Displays vote buttons (Yes/No/Abstain) with confirmation dialog.
  * Handles member verification and vote submission states.
+ * Shows when a delegate voted on the member's behalf and lets the member
+ * override that vote before the deadline.
+ * On weighted and quadratic proposals the member allocates DOM or voice
+ * credits to their vote before confirming.
+ * Votes cast while offline show their queue status until they are replayed.
+ * Members with stakes see the voting power their locked DOM currently carries.
  *
  * Story: 9-1-2-voting-interface
  * ACs: 2, 5, 6, 7, 8
@@ -11,7 +17,17 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '../../../components/ui/button';
-import type { VoteChoice, UserVote } from '@/stores';
+import {
+  formatTokenAmount,
+  getDelegationScopeLabel,
+  type VoteChoice,
+  type UserVote,
+  type Delegation,
+  type VotingMode,
+  type QueuedVote,
+} from '@/stores';
+import { getQuadraticCost } from '../../../utils/votingPower';
+import { VoteAllocation } from './VoteAllocation';
 
 export interface VotingPanelProps {
   proposalId: string;
@@ -21,7 +37,20 @@ export interface VotingPanelProps {
   userVote?: UserVote | null;
   isMember: boolean;
   isSubmitting?: boolean;
-  onVote: (vote: VoteChoice) => Promise<void>;
+  /** Delegation that applies to this proposal, if the member has one */
+  delegation?: Delegation | null;
+  /** How the proposal counts votes (default: one member, one vote) */
+  votingMode?: VotingMode;
+  /** Snapshot balance for weighted/quadratic proposals: DOM or voice credits */
+  votingPower?: number;
+  /** allocation is DOM weight (weighted) or voice credits (quadratic) */
+  onVote: (vote: VoteChoice, allocation?: number) => Promise<void>;
+  /** Vote cast while offline and waiting to be submitted */
+  queuedVote?: QueuedVote | null;
+  /** Discard the queued vote */
+  onDiscardQueued?: () => void;
+  /** Member's current voting power from staked DOM (in e8s) */
+  stakedVotingPower?: bigint | null;
 }
 
 interface ConfirmDialogState {
@@ -37,7 +66,13 @@ export function VotingPanel({
   userVote,
   isMember,
   isSubmitting = false,
+  delegation = null,
+  votingMode = 'simple',
+  votingPower = 0,
   onVote,
+  queuedVote = null,
+  onDiscardQueued,
+  stakedVotingPower = null,
 }: VotingPanelProps) {
   const navigate = useNavigate();
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>({
@@ -45,11 +80,22 @@ export function VotingPanel({
     selectedVote: null,
   });
   const [localSubmitting, setLocalSubmitting] = useState(false);
+  const [isOverriding, setIsOverriding] = useState(false);
+  // DOM weight (weighted) or number of votes (quadratic); defaults to full weight / one vote
+  const [chosenAllocation, setChosenAllocation] = useState<number | null>(null);
   const lastFocusedButtonRef = useRef<HTMLButtonElement | null>(null);
 
-  const hasVoted = !!userVote;
+  // A vote cast by a delegate doesn't count as the member having voted themselves
+  const delegatedVote = userVote?.delegate ? userVote : null;
+  const hasVoted = !!userVote && !delegatedVote;
   const isVotingClosed = Date.now() > votingEndsAt;
-  const canVote = isMember && isActive && !hasVoted && !isVotingClosed;
+  const isWeightedMode = votingMode !== 'simple';
+  const hasVotingPower = !isWeightedMode || votingPower >= 1;
+  const canVote = isMember && isActive && !hasVoted && !isVotingClosed && hasVotingPower;
+  const allocationValue = chosenAllocation ?? (votingMode === 'weighted' ? votingPower : 1);
+  // Allocation sent with the vote: DOM weight, or credits spent on quadratic votes
+  const allocation =
+    votingMode === 'quadratic' ? getQuadraticCost(allocationValue) : allocationValue;
   const submitting = isSubmitting || localSubmitting;
 
   // Calculate time remaining for deadline warning
@@ -73,7 +119,11 @@ export function VotingPanel({
     setConfirmDialog({ isOpen: false, selectedVote: null });
 
     try {
-      await onVote(confirmDialog.selectedVote);
+      if (isWeightedMode) {
+        await onVote(confirmDialog.selectedVote, allocation);
+      } else {
+        await onVote(confirmDialog.selectedVote);
+      }
     } finally {
       setLocalSubmitting(false);
       // Return focus to the button that was clicked
@@ -81,7 +131,7 @@ export function VotingPanel({
         lastFocusedButtonRef.current.focus();
       }
     }
-  }, [confirmDialog.selectedVote, onVote]);
+  }, [confirmDialog.selectedVote, onVote, isWeightedMode, allocation]);
 
   const handleCancel = useCallback(() => {
     setConfirmDialog({ isOpen: false, selectedVote: null });
@@ -102,6 +152,22 @@ export function VotingPanel({
     }
   };
 
+  /** How much a vote counts for, e.g. "250 DOM" or "5 votes (25 credits)" */
+  const getWeightLabel = (weight: number, credits?: number): string => {
+    if (votingMode === 'quadratic') {
+      const votes = `${weight} ${weight === 1 ? 'vote' : 'votes'}`;
+      return credits === undefined ? votes : `${votes} (${credits.toLocaleString()} credits)`;
+    }
+    return `${weight.toLocaleString()} DOM`;
+  };
+
+  const getDelegateLabel = (principal: string): string => {
+    if (delegation?.delegate === principal && delegation.delegateName) {
+      return delegation.delegateName;
+    }
+    return `${principal.substring(0, 12)}...`;
+  };
+
   // Refs for each button
   const yesButtonRef = useRef<HTMLButtonElement>(null);
   const noButtonRef = useRef<HTMLButtonElement>(null);
@@ -129,6 +195,11 @@ export function VotingPanel({
           </svg>
           <span className="font-medium">You voted {getVoteLabel(userVote.vote)}</span>
         </div>
+        {isWeightedMode && userVote.weight !== undefined && (
+          <p className="mt-2 text-sm text-teal-700">
+            Counted with {getWeightLabel(userVote.weight, userVote.credits)}
+          </p>
+        )}
         <p className="mt-2 text-sm text-teal-600">Votes are final and cannot be changed.</p>
         {userVote.transactionId && (
           <p className="mt-1 text-xs text-teal-500 font-mono">
@@ -139,6 +210,101 @@ export function VotingPanel({
     );
   }
 
+  // Vote queued while offline
+  if (queuedVote && queuedVote.status !== 'failed') {
+    const isReplaying = queuedVote.status === 'replaying';
+    return (
+      <div
+        className={`rounded-lg border p-6 ${
+          isReplaying ? 'border-blue-200 bg-blue-50' : 'border-amber-200 bg-amber-50'
+        }`}
+        role="status"
+      >
+        <div className="flex items-center gap-3">
+          {isReplaying && (
+            <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          )}
+          <span className={`font-medium ${isReplaying ? 'text-blue-700' : 'text-amber-800'}`}>
+            {isReplaying
+              ? `Submitting your queued ${getVoteLabel(queuedVote.vote)} vote...`
+              : `Your ${getVoteLabel(queuedVote.vote)} vote is queued`}
+          </span>
+        </div>
+        {!isReplaying && (
+          <>
+            <p className="mt-2 text-sm text-amber-700">
+              It will be submitted automatically when you&apos;re back online, as long as
+              voting is still open.
+            </p>
+            {queuedVote.error && (
+              <p className="mt-1 text-sm text-amber-700">Last attempt: {queuedVote.error}</p>
+            )}
+            {onDiscardQueued && (
+              <Button variant="outline" onClick={onDiscardQueued} className="mt-4 min-h-[44px]">
+                Cancel Queued Vote
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // Queued vote was rejected when it was replayed
+  if (queuedVote?.status === 'failed') {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-6" role="alert">
+        <p className="font-medium text-red-700">
+          Your queued {getVoteLabel(queuedVote.vote)} vote could not be submitted
+        </p>
+        {queuedVote.error && <p className="mt-2 text-sm text-red-600">{queuedVote.error}</p>}
+        {onDiscardQueued && (
+          <Button variant="outline" onClick={onDiscardQueued} className="mt-4 min-h-[44px]">
+            Dismiss
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  // Delegate voted on the member's behalf
+  if (delegatedVote?.delegate && !submitting && (!isOverriding || !canVote)) {
+    return (
+      <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-6">
+        <div className="flex items-center gap-2 text-indigo-700">
+          <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+            />
+          </svg>
+          <span className="font-medium">
+            Your delegate {getDelegateLabel(delegatedVote.delegate)} voted{' '}
+            {getVoteLabel(delegatedVote.vote)} for you
+          </span>
+        </div>
+        {canVote ? (
+          <>
+            <p className="mt-2 text-sm text-indigo-600">
+              You can override this vote with your own until voting ends.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => setIsOverriding(true)}
+              className="mt-4 min-h-[44px]"
+            >
+              Override Vote
+            </Button>
+          </>
+        ) : (
+          <p className="mt-2 text-sm text-indigo-600">Voting has ended for this proposal.</p>
+        )}
+      </div>
+    );
+  }
+
   // Voting closed state
   if (isVotingClosed) {
     return (
@@ -167,7 +333,41 @@ export function VotingPanel({
     <>
       {/* Vote Buttons */}
       <div className="rounded-lg border border-gray-200 p-6">
-        <h3 className="font-medium text-gray-900 mb-4">Cast Your Vote</h3>
+        <h3 className="font-medium text-gray-900 mb-4">
+          {delegatedVote ? "Override Your Delegate's Vote" : 'Cast Your Vote'}
+        </h3>
+
+        {delegation && !delegatedVote && (
+          <p className="text-sm text-indigo-700 bg-indigo-50 rounded-md px-3 py-2 mb-4">
+            Your vote is delegated to {getDelegateLabel(delegation.delegate)} (
+            {getDelegationScopeLabel(delegation.scope)}). Voting yourself takes precedence over
+            your delegate.
+          </p>
+        )}
+
+        {stakedVotingPower !== null && (
+          <p className="text-sm text-gray-700 mb-4" data-testid="staked-voting-power">
+            Your voting power from staked DOM:{' '}
+            <span className="font-semibold text-gray-900">
+              {formatTokenAmount(stakedVotingPower)}
+            </span>
+          </p>
+        )}
+
+        {isWeightedMode &&
+          (hasVotingPower ? (
+            <VoteAllocation
+              votingMode={votingMode}
+              balance={votingPower}
+              value={allocationValue}
+              onChange={setChosenAllocation}
+              disabled={!canVote}
+            />
+          ) : (
+            <p className="text-sm text-gray-700 bg-gray-50 rounded-md px-3 py-2 mb-4">
+              You held no DOM when this proposal was created, so you have no voting power on it.
+            </p>
+          ))}
 
         <div className="flex flex-wrap gap-3" role="group" aria-label="Vote options">
           <Button
@@ -213,6 +413,15 @@ export function VotingPanel({
             </div>
           </div>
         </div>
+
+        {delegatedVote && (
+          <button
+            onClick={() => setIsOverriding(false)}
+            className="mt-4 text-sm text-gray-600 hover:text-gray-800 underline"
+          >
+            Keep my delegate&apos;s vote
+          </button>
+        )}
       </div>
 
       {/* Confirmation Dialog */}
@@ -234,6 +443,19 @@ export function VotingPanel({
             </p>
             <p className="text-gray-900 font-medium mb-4">"{proposalTitle}"</p>
 
+            {isWeightedMode && (
+              <p className="text-gray-700 mb-4">
+                Your vote will count for{' '}
+                <span className="font-semibold">
+                  {getWeightLabel(
+                    allocationValue,
+                    votingMode === 'quadratic' ? allocation : undefined
+                  )}
+                </span>
+                .
+              </p>
+            )}
+
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
               <p className="text-amber-800 text-sm font-medium">This action cannot be undone.</p>
               <p className="text-amber-700 text-sm mt-1">
@@ -0,0 +1,156 @@
+/**
+ * useDelegations Hook
+ *
+ * Loads the member's vote delegations and exposes actions to delegate
+ * to another member or revoke an existing delegation.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  $delegations,
+  $receivedDelegations,
+  $delegationsLoading,
+  setDelegations,
+  upsertDelegation,
+  removeDelegation,
+  setDelegationsLoading,
+  setDelegationsError,
+  type Delegation,
+  type DelegationScope,
+} from '@/stores';
+import {
+  setDelegation as setDelegationService,
+  revokeDelegation as revokeDelegationService,
+  listDelegations,
+} from '../../../services/governanceCanister';
+
+export interface UseDelegationsOptions {
+  /** Fetch delegations on mount (default: true) */
+  enabled?: boolean;
+}
+
+export interface UseDelegationsResult {
+  delegations: Delegation[];
+  receivedDelegations: Delegation[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  delegate: (
+    delegatePrincipal: string,
+    scope: DelegationScope,
+    delegateName?: string
+  ) => Promise<boolean>;
+  revoke: (scope: DelegationScope) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export function useDelegations({
+  enabled = true,
+}: UseDelegationsOptions = {}): UseDelegationsResult {
+  const delegations = useStore($delegations);
+  const receivedDelegations = useStore($receivedDelegations);
+  const isLoading = useStore($delegationsLoading);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setDelegationsLoading(true);
+    try {
+      const list = await listDelegations();
+      // Keep the persisted delegations when the canister can't be reached
+      if (list) {
+        setDelegations(list);
+        setDelegationsError(null);
+      } else {
+        const errorMessage = 'Failed to load delegations. Showing saved delegations.';
+        setDelegationsError(errorMessage);
+        if (mountedRef.current) setError(errorMessage);
+      }
+    } finally {
+      setDelegationsLoading(false);
+    }
+  }, []);
+
+  // Fetch delegations on mount
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  /**
+   * Delegate to another member for a scope. Replaces any existing
+   * delegation for the same scope. Returns true on success.
+   */
+  const delegate = useCallback(
+    async (delegatePrincipal: string, scope: DelegationScope, delegateName?: string) => {
+      setIsSubmitting(true);
+      setError(null);
+
+      const result = await setDelegationService(delegatePrincipal, scope);
+
+      if (!mountedRef.current) return result.success;
+      setIsSubmitting(false);
+
+      if (result.success && result.delegation) {
+        upsertDelegation({ ...result.delegation, delegateName });
+        setDelegationsError(null);
+        return true;
+      }
+
+      const errorMessage = result.error?.message ?? 'Failed to delegate your vote.';
+      setError(errorMessage);
+      setDelegationsError(errorMessage);
+      return false;
+    },
+    []
+  );
+
+  /**
+   * Revoke the delegation for a scope. Returns true on success.
+   */
+  const revoke = useCallback(async (scope: DelegationScope) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await revokeDelegationService(scope);
+
+    if (!mountedRef.current) return result.success;
+    setIsSubmitting(false);
+
+    if (result.success) {
+      removeDelegation(scope);
+      setDelegationsError(null);
+      return true;
+    }
+
+    const errorMessage = result.error?.message ?? 'Failed to revoke delegation.';
+    setError(errorMessage);
+    setDelegationsError(errorMessage);
+    return false;
+  }, []);
+
+  return {
+    delegations,
+    receivedDelegations,
+    isLoading,
+    isSubmitting,
+    error,
+    delegate,
+    revoke,
+    refresh,
+  };
+}
+
+export default useDelegations;
@@ -0,0 +1,96 @@
+/**
+ * useRankedChoice Hook
+ *
+ * Loads a ranked-choice proposal's options and raw ballots, counts them by
+ * instant runoff, and casts the member's ranked ballot.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { RankedBallots } from '@/stores';
+import {
+  castRankedVote,
+  getRankedBallots,
+  type CastVoteResponse,
+} from '../../../services/governanceCanister';
+import { computeInstantRunoff, type RunoffResult } from '../../../utils/instantRunoff';
+
+export interface UseRankedChoiceOptions {
+  proposalId: string;
+  /** Proposal revision the member is viewing; recorded with the ballot */
+  revision?: number;
+}
+
+export interface UseRankedChoiceResult {
+  /** Options and ballots, or null for yes/no proposals */
+  ballots: RankedBallots | null;
+  /** Instant-runoff count of the current ballots */
+  result: RunoffResult | null;
+  isLoading: boolean;
+  isSubmitting: boolean;
+  /** Cast a ballot ranking option IDs, most preferred first */
+  castBallot: (ranking: string[]) => Promise<CastVoteResponse>;
+  refresh: () => Promise<void>;
+}
+
+export function useRankedChoice({
+  proposalId,
+  revision,
+}: UseRankedChoiceOptions): UseRankedChoiceResult {
+  const [ballots, setBallots] = useState<RankedBallots | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    if (!proposalId) return;
+
+    const data = await getRankedBallots(proposalId);
+    if (mountedRef.current) {
+      setBallots(data);
+      setIsLoading(false);
+    }
+  }, [proposalId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const result = useMemo(
+    () =>
+      ballots
+        ? computeInstantRunoff(ballots.options.map((o) => o.id), ballots.ballots)
+        : null,
+    [ballots]
+  );
+
+  const castBallot = useCallback(
+    async (ranking: string[]): Promise<CastVoteResponse> => {
+      setIsSubmitting(true);
+      try {
+        const response = await castRankedVote(proposalId, ranking, revision);
+        if (response.success) {
+          await refresh();
+        }
+        return response;
+      } finally {
+        if (mountedRef.current) {
+          setIsSubmitting(false);
+        }
+      }
+    },
+    [proposalId, revision, refresh]
+  );
+
+  return { ballots, result, isLoading, isSubmitting, castBallot, refresh };
+}
+
+export default useRankedChoice;
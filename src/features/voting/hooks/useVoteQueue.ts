@@ -0,0 +1,264 @@
+/**
+ * useVoteQueue Hook
+ *
+ * Replays votes that were cast while offline once the connection returns.
+ * Before each replay the vote is re-verified with the canister so a vote
+ * that already landed (from the original attempt or from another tab) is
+ * never cast twice. Tabs claim entries through the shared, persisted queue
+ * so only one tab replays a given vote.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  $voteQueue,
+  $queuedVoteList,
+  setUserVote,
+  updateQueuedVote,
+  removeQueuedVote,
+  pruneExpiredQueuedVotes,
+  setupCrossTabSync,
+  showInfo,
+  showSuccess,
+  showWarning,
+  type QueuedVote,
+  type UserVote,
+} from '@/stores';
+import { useNetworkStatus } from '../../../hooks/useNetworkStatus';
+import { getVoteWeight } from '../../../utils/votingPower';
+import { castVote, verifyVoteStatus } from '../../../services/governanceCanister';
+
+// Identifies this tab when claiming queued votes
+const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+// Time allowed for a competing claim from another tab to arrive before replaying
+const CLAIM_SETTLE_MS = 300;
+
+// A claim older than this belongs to a tab that closed mid-replay
+const CLAIM_EXPIRY_MS = 60000; // 1 minute
+
+// How often to drop entries whose voting period ended while offline
+const PRUNE_INTERVAL_MS = 60000; // 1 minute
+
+export type ReplayOutcome = 'submitted' | 'already-recorded' | 'requeued' | 'failed' | 'skipped';
+
+export interface UseVoteQueueResult {
+  /** Queued votes, oldest first */
+  queue: QueuedVote[];
+  isReplaying: boolean;
+  /** Replay every queued vote now */
+  replay: () => Promise<void>;
+  /** Put a failed vote back in the queue and replay it */
+  retry: (proposalId: string) => Promise<void>;
+  /** Discard a queued vote without casting it */
+  discard: (proposalId: string) => void;
+}
+
+function isClaimable(entry: QueuedVote, now: number): boolean {
+  if (entry.status === 'queued') return true;
+  return (
+    entry.status === 'replaying' &&
+    entry.claimedBy !== TAB_ID &&
+    now - (entry.lastAttemptAt ?? 0) > CLAIM_EXPIRY_MS
+  );
+}
+
+function toUserVote(entry: QueuedVote, transactionId: string): UserVote {
+  const votingMode = entry.votingMode ?? 'simple';
+  return {
+    proposalId: entry.proposalId,
+    vote: entry.vote,
+    votedAt: Date.now(),
+    transactionId,
+    revision: entry.revision,
+    ...(votingMode !== 'simple' && { weight: getVoteWeight(votingMode, entry.allocation) }),
+    ...(votingMode === 'quadratic' && { credits: entry.allocation }),
+  };
+}
+
+/**
+ * Replay a single queued vote, returning what happened to it
+ */
+async function replayQueuedVote(entry: QueuedVote): Promise<ReplayOutcome> {
+  const { proposalId } = entry;
+
+  updateQueuedVote(proposalId, {
+    status: 'replaying',
+    claimedBy: TAB_ID,
+    lastAttemptAt: Date.now(),
+    attempts: entry.attempts + 1,
+    error: undefined,
+  });
+
+  // Give other tabs' claims time to sync; the last claim written wins
+  await new Promise((resolve) => setTimeout(resolve, CLAIM_SETTLE_MS));
+  if ($voteQueue.get()[proposalId]?.claimedBy !== TAB_ID) {
+    return 'skipped';
+  }
+
+  // Re-verify first so a vote that already landed is never cast twice.
+  // A delegate's vote doesn't count: the member's own vote overrides it.
+  let recorded: UserVote | null;
+  try {
+    recorded = await verifyVoteStatus(proposalId);
+  } catch {
+    // Casting without knowing whether the vote landed risks a double vote
+    updateQueuedVote(proposalId, {
+      status: 'queued',
+      claimedBy: undefined,
+      error: 'Could not verify your vote. It will be retried.',
+    });
+    return 'requeued';
+  }
+  if (recorded && !recorded.delegate) {
+    setUserVote(proposalId, recorded);
+    removeQueuedVote(proposalId);
+    return 'already-recorded';
+  }
+
+  const result = await castVote(proposalId, entry.vote, entry.revision, entry.allocation);
+
+  if (result.success && result.transactionId) {
+    setUserVote(proposalId, toUserVote(entry, result.transactionId));
+    removeQueuedVote(proposalId);
+    return 'submitted';
+  }
+
+  if (result.error?.code === 'ALREADY_VOTED') {
+    const existing = await verifyVoteStatus(proposalId).catch(() => null);
+    if (existing) {
+      setUserVote(proposalId, existing);
+    }
+    removeQueuedVote(proposalId);
+    return 'already-recorded';
+  }
+
+  const errorMessage = result.error?.message ?? 'Failed to cast vote. Please try again.';
+
+  // Still unreachable: keep the vote queued for the next reconnect
+  if (result.error?.code === 'NETWORK_ERROR') {
+    updateQueuedVote(proposalId, { status: 'queued', claimedBy: undefined, error: errorMessage });
+    return 'requeued';
+  }
+
+  updateQueuedVote(proposalId, { status: 'failed', claimedBy: undefined, error: errorMessage });
+  return 'failed';
+}
+
+export function useVoteQueue(): UseVoteQueueResult {
+  const queue = useStore($queuedVoteList);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const mountedRef = useRef(true);
+  const replayingRef = useRef(false);
+
+  const dropExpired = useCallback(() => {
+    const expired = pruneExpiredQueuedVotes();
+    for (const entry of expired) {
+      const title = entry.proposalTitle ?? `Proposal #${entry.proposalId.substring(0, 8)}`;
+      showWarning(`Voting ended on "${title}" before your queued vote could be submitted.`);
+    }
+  }, []);
+
+  const replay = useCallback(async () => {
+    if (replayingRef.current || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+      return;
+    }
+
+    dropExpired();
+    const now = Date.now();
+    const pending = Object.values($voteQueue.get()).filter((entry) => isClaimable(entry, now));
+    if (pending.length === 0) return;
+
+    replayingRef.current = true;
+    setIsReplaying(true);
+
+    try {
+      let submitted = 0;
+      for (const entry of pending) {
+        try {
+          const outcome = await replayQueuedVote(entry);
+          if (outcome === 'submitted' || outcome === 'already-recorded') {
+            submitted++;
+          }
+        } catch (err) {
+          updateQueuedVote(entry.proposalId, {
+            status: 'queued',
+            claimedBy: undefined,
+            error: err instanceof Error ? err.message : 'Failed to submit queued vote',
+          });
+        }
+      }
+
+      if (submitted > 0) {
+        showSuccess(
+          submitted === 1
+            ? 'Your queued vote has been recorded.'
+            : `${submitted} queued votes have been recorded.`
+        );
+      }
+    } finally {
+      replayingRef.current = false;
+      if (mountedRef.current) {
+        setIsReplaying(false);
+      }
+    }
+  }, [dropExpired]);
+
+  const retry = useCallback(
+    async (proposalId: string) => {
+      updateQueuedVote(proposalId, { status: 'queued', error: undefined });
+      await replay();
+    },
+    [replay]
+  );
+
+  const discard = useCallback((proposalId: string) => {
+    removeQueuedVote(proposalId);
+    showInfo('Queued vote discarded.');
+  }, []);
+
+  // Replay as soon as the connection returns
+  useNetworkStatus({ onOnline: replay });
+
+  // Replay anything left from a previous session, and keep dropping expired entries
+  useEffect(() => {
+    replay();
+    const interval = setInterval(dropExpired, PRUNE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [replay, dropExpired]);
+
+  // Coordinate with other tabs sharing the queue
+  useEffect(() => {
+    return setupCrossTabSync(
+      (proposalId, vote) => {
+        // Another tab recorded the member's vote for this proposal; nothing left to replay
+        const entry = $voteQueue.get()[proposalId];
+        if (entry && !vote.delegate && entry.claimedBy !== TAB_ID) {
+          removeQueuedVote(proposalId);
+        }
+      },
+      (sharedQueue) => {
+        // Pick up votes another tab queued but hasn't tried yet. Entries handed back
+        // after a failed attempt wait for the next reconnect so tabs don't retry in a loop.
+        const hasFresh = Object.values(sharedQueue).some(
+          (entry) => entry.status === 'queued' && entry.attempts === 0
+        );
+        if (hasFresh) {
+          replay();
+        }
+      }
+    );
+  }, [replay]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  return { queue, isReplaying, replay, retry, discard };
+}
+
+export default useVoteQueue;
@@ -0,0 +1,57 @@
+/**
+ * useVoteReceipt Hook
+ *
+ * Fetches the canister-signed receipt for the member's vote on a proposal.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { VoteReceipt } from '@/stores';
+import { getVoteReceipt } from '../../../services/governanceCanister';
+
+export interface UseVoteReceiptOptions {
+  proposalId: string;
+  /** Only fetch once the member has a recorded vote */
+  enabled?: boolean;
+}
+
+export interface UseVoteReceiptResult {
+  receipt: VoteReceipt | null;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useVoteReceipt({
+  proposalId,
+  enabled = true,
+}: UseVoteReceiptOptions): UseVoteReceiptResult {
+  const [receipt, setReceipt] = useState<VoteReceipt | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    if (!proposalId || !enabled) return;
+
+    setIsLoading(true);
+    const data = await getVoteReceipt(proposalId);
+    if (mountedRef.current) {
+      setReceipt(data);
+      setIsLoading(false);
+    }
+  }, [proposalId, enabled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  return { receipt, isLoading, refresh };
+}
+
+export default useVoteReceipt;
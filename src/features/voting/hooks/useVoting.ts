@@ -3,6 +3,7 @@
  *
  * Manages vote casting logic with confirmation-first UI pattern.
  * Handles SBT verification, pending votes, and cross-tab sync.
+ * Votes cast while offline are queued and replayed on reconnect by useVoteQueue.
  *
  * Story: 9-1-2-voting-interface
  * ACs: 2, 5, 6, 7, 8
@@ -13,13 +14,19 @@ import { useStore } from '@nanostores/react';
 import {
   $userVotes,
   $pendingVotes,
+  $voteQueue,
   setUserVote,
   setPendingVote,
   clearPendingVote,
+  queueVote,
+  removeQueuedVote,
   setupCrossTabSync,
   type VoteChoice,
   type UserVote,
+  type VotingMode,
+  type QueuedVote,
 } from '@/stores';
+import { getVoteWeight } from '../../../utils/votingPower';
 import {
   castVote as castVoteService,
   getUserVote as getUserVoteService,
@@ -29,7 +36,17 @@ import {
 
 export interface UseVotingOptions {
   proposalId: string;
+  /** Proposal revision the member is viewing; recorded with the vote */
+  revision?: number;
+  /** How the proposal counts votes; defaults to one member, one vote */
+  votingMode?: VotingMode;
+  /** Voting deadline; required to queue votes cast while offline */
+  votingEndsAt?: number;
+  /** Shown in the offline vote queue */
+  proposalTitle?: string;
   onVoteSuccess?: (vote: UserVote) => void;
+  /** Called when the member is offline and the vote is queued instead of cast */
+  onVoteQueued?: (vote: QueuedVote) => void;
   onVoteError?: (error: string) => void;
   onQuorumReached?: () => void;
   onCrossTabVote?: (vote: UserVote) => void;
@@ -37,10 +54,15 @@ export interface UseVotingOptions {
 
 export interface UseVotingResult {
   userVote: UserVote | null;
+  /** Vote waiting in the offline queue, if any */
+  queuedVote: QueuedVote | null;
   isSubmitting: boolean;
   error: string | null;
-  castVote: (vote: VoteChoice) => Promise<boolean>;
+  /** Cast a vote; allocation is DOM weight (weighted) or voice credits (quadratic) */
+  castVote: (vote: VoteChoice, allocation?: number) => Promise<boolean>;
   refreshVoteStatus: () => Promise<void>;
+  /** Discard the queued vote without casting it */
+  discardQueuedVote: () => void;
 }
 
 // Timeout for vote submission
@@ -48,13 +70,19 @@ const VOTE_TIMEOUT_MS = 30000; // 30 seconds
 
 export function useVoting({
   proposalId,
+  revision,
+  votingMode = 'simple',
+  votingEndsAt,
+  proposalTitle,
   onVoteSuccess,
+  onVoteQueued,
   onVoteError,
   onQuorumReached: _onQuorumReached,
   onCrossTabVote,
 }: UseVotingOptions): UseVotingResult {
   const userVotes = useStore($userVotes);
   const pendingVotes = useStore($pendingVotes);
+  const voteQueue = useStore($voteQueue);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -65,23 +93,28 @@ export function useVoting({
   // Get current user vote from store
   const userVote = userVotes[proposalId] ?? null;
   const pendingVote = pendingVotes[proposalId] ?? null;
+  const queuedVote = voteQueue[proposalId] ?? null;
 
   // Check for pending votes on mount and verify status
   useEffect(() => {
     if (pendingVote && !userVote) {
       // There's a pending vote but no confirmed vote - verify status
-      verifyVoteStatus(proposalId).then((confirmedVote) => {
-        if (!mountedRef.current) return;
-
-        if (confirmedVote) {
-          // Vote was confirmed on-chain, update local state
-          setUserVote(proposalId, confirmedVote);
-          clearPendingVote(proposalId);
-        } else {
-          // Vote wasn't confirmed - clear pending (something went wrong)
-          clearPendingVote(proposalId);
-        }
-      });
+      verifyVoteStatus(proposalId)
+        .then((confirmedVote) => {
+          if (!mountedRef.current) return;
+
+          if (confirmedVote) {
+            // Vote was confirmed on-chain, update local state
+            setUserVote(proposalId, confirmedVote);
+            clearPendingVote(proposalId);
+          } else {
+            // Vote wasn't confirmed - clear pending (something went wrong)
+            clearPendingVote(proposalId);
+          }
+        })
+        .catch(() => {
+          // Couldn't check - keep the pending vote until it can be verified
+        });
     }
   }, [proposalId, pendingVote, userVote]);
 
@@ -111,12 +144,16 @@ export function useVoting({
   useEffect(() => {
     const handleOnline = () => {
       // Verify vote status on reconnection
-      verifyVoteStatus(proposalId).then((vote) => {
-        if (vote && mountedRef.current) {
-          setUserVote(proposalId, vote);
-          clearPendingVote(proposalId);
-        }
-      });
+      verifyVoteStatus(proposalId)
+        .then((vote) => {
+          if (vote && mountedRef.current) {
+            setUserVote(proposalId, vote);
+            clearPendingVote(proposalId);
+          }
+        })
+        .catch(() => {
+          // Still unreachable - the next reconnect verifies again
+        });
     };
 
     window.addEventListener('online', handleOnline);
@@ -132,16 +169,53 @@ export function useVoting({
     };
   }, []);
 
+  /**
+   * Queue the vote for replay on reconnect if the browser is offline
+   * Returns true if the vote was queued
+   */
+  const queueIfOffline = useCallback(
+    (vote: VoteChoice, allocation?: number): boolean => {
+      if (typeof navigator === 'undefined' || navigator.onLine || !votingEndsAt) {
+        return false;
+      }
+
+      const queued = queueVote({
+        proposalId,
+        proposalTitle,
+        vote,
+        revision,
+        votingMode,
+        allocation,
+        votingEndsAt,
+      });
+      onVoteQueued?.(queued);
+      return true;
+    },
+    [proposalId, proposalTitle, revision, votingMode, votingEndsAt, onVoteQueued]
+  );
+
   /**
    * Cast a vote with confirmation-first UI pattern
-   * Returns true if vote was successful, false otherwise
+   * Returns true if vote was successful, false otherwise (including when
+   * the member is offline and the vote was queued)
    */
   const castVote = useCallback(
-    async (vote: VoteChoice): Promise<boolean> => {
-      if (isSubmitting || userVote) {
+    async (vote: VoteChoice, allocation?: number): Promise<boolean> => {
+      // A vote cast by a delegate can be overridden by the member before the deadline
+      if (isSubmitting || (userVote && !userVote.delegate)) {
         return false;
       }
 
+      // Only a failed queued vote can be replaced by a new one
+      if (queuedVote && queuedVote.status !== 'failed') {
+        return false;
+      }
+
+      if (queueIfOffline(vote, allocation)) {
+        return false;
+      }
+      removeQueuedVote(proposalId);
+
       // Cancel any existing submission
       submissionRef.current?.abort();
       submissionRef.current = new AbortController();
@@ -163,7 +237,10 @@ export function useVoting({
         });
 
         // Race between vote submission and timeout
-        const result = await Promise.race([castVoteService(proposalId, vote), timeoutPromise]);
+        const result = await Promise.race([
+          castVoteService(proposalId, vote, revision, allocation),
+          timeoutPromise,
+        ]);
 
         if (!mountedRef.current) {
           return false;
@@ -176,6 +253,9 @@ export function useVoting({
             vote,
             votedAt: Date.now(),
             transactionId: result.transactionId,
+            revision,
+            ...(votingMode !== 'simple' && { weight: getVoteWeight(votingMode, allocation) }),
+            ...(votingMode === 'quadratic' && { credits: allocation }),
           };
 
           setUserVote(proposalId, confirmedVote);
@@ -191,6 +271,11 @@ export function useVoting({
           // Vote failed
           clearPendingVote(proposalId);
 
+          // Connection dropped mid-submission: queue it for replay instead
+          if (result.error?.code === 'NETWORK_ERROR' && queueIfOffline(vote, allocation)) {
+            return false;
+          }
+
           const errorMessage = result.error?.message ?? 'Failed to cast vote. Please try again.';
           setError(errorMessage);
           onVoteError?.(errorMessage);
@@ -204,6 +289,10 @@ export function useVoting({
 
         clearPendingVote(proposalId);
 
+        if (queueIfOffline(vote, allocation)) {
+          return false;
+        }
+
         const errorMessage =
           err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.';
 
@@ -217,26 +306,42 @@ export function useVoting({
         }
       }
     },
-    [isSubmitting, userVote, proposalId, onVoteSuccess, onVoteError]
+    [
+      isSubmitting,
+      userVote,
+      queuedVote,
+      queueIfOffline,
+      proposalId,
+      revision,
+      votingMode,
+      onVoteSuccess,
+      onVoteError,
+    ]
   );
 
   /**
    * Manually refresh vote status (e.g., after reconnection)
    */
   const refreshVoteStatus = useCallback(async () => {
-    const vote = await verifyVoteStatus(proposalId);
+    const vote = await verifyVoteStatus(proposalId).catch(() => null);
     if (vote && mountedRef.current) {
       setUserVote(proposalId, vote);
       clearPendingVote(proposalId);
     }
   }, [proposalId]);
 
+  const discardQueuedVote = useCallback(() => {
+    removeQueuedVote(proposalId);
+  }, [proposalId]);
+
   return {
     userVote,
+    queuedVote,
     isSubmitting,
     error,
     castVote,
     refreshVoteStatus,
+    discardQueuedVote,
   };
 }
 
@@ -0,0 +1,52 @@
+/**
+ * useVotingPower Hook
+ *
+ * Loads how a proposal counts votes and the member's snapshot balance for
+ * weighted and quadratic proposals.
+ */
+
+import { useState, useEffect } from 'react';
+import type { VotingPower } from '@/stores';
+import { getVotingPower } from '../../../services/governanceCanister';
+
+export interface UseVotingPowerOptions {
+  proposalId: string;
+  /** Fetch on mount (default: true) */
+  enabled?: boolean;
+}
+
+export interface UseVotingPowerResult {
+  votingPower: VotingPower | null;
+  isLoading: boolean;
+}
+
+export function useVotingPower({
+  proposalId,
+  enabled = true,
+}: UseVotingPowerOptions): UseVotingPowerResult {
+  const [votingPower, setVotingPower] = useState<VotingPower | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled || !proposalId) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getVotingPower(proposalId).then((power) => {
+      if (cancelled) return;
+      setVotingPower(power);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [proposalId, enabled]);
+
+  return { votingPower, isLoading };
+}
+
+export default useVotingPower;
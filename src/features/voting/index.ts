@@ -10,6 +10,16 @@
 export { VotingPanel, type VotingPanelProps } from './components/VotingPanel';
 export { VoteTally, VoteTallySkeleton, type VoteTallyProps } from './components/VoteTally';
 export { VotingCountdown, type VotingCountdownProps } from './components/VotingCountdown';
+export { DelegateAction, type DelegateActionProps } from './components/DelegateAction';
+export { VoteAllocation, type VoteAllocationProps } from './components/VoteAllocation';
+export { RankedBallot, type RankedBallotProps } from './components/RankedBallot';
+export { RunoffTally, type RunoffTallyProps } from './components/RunoffTally';
+export { VoteQueueStatus } from './components/VoteQueueStatus';
+export { VoteReceiptCard, type VoteReceiptCardProps } from './components/VoteReceiptCard';
+export {
+  VotingPowerBreakdown,
+  type VotingPowerBreakdownProps,
+} from './components/VotingPowerBreakdown';
 
 // Hooks
 export { useVoting, type UseVotingOptions, type UseVotingResult } from './hooks/useVoting';
@@ -18,3 +28,24 @@ export {
   type UseVoteTallyPollingOptions,
   type UseVoteTallyPollingResult,
 } from './hooks/useVoteTallyPolling';
+export {
+  useDelegations,
+  type UseDelegationsOptions,
+  type UseDelegationsResult,
+} from './hooks/useDelegations';
+export {
+  useVotingPower,
+  type UseVotingPowerOptions,
+  type UseVotingPowerResult,
+} from './hooks/useVotingPower';
+export {
+  useRankedChoice,
+  type UseRankedChoiceOptions,
+  type UseRankedChoiceResult,
+} from './hooks/useRankedChoice';
+export { useVoteQueue, type UseVoteQueueResult, type ReplayOutcome } from './hooks/useVoteQueue';
+export {
+  useVoteReceipt,
+  type UseVoteReceiptOptions,
+  type UseVoteReceiptResult,
+} from './hooks/useVoteReceipt';
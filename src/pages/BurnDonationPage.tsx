@@ -12,6 +12,8 @@ import React from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { ArrowLeft, Home } from 'lucide-react';
 import { BurnDonation } from '@/components/BurnDonation';
+import { BurnPledgesPanel } from '@/components/BurnPledgesPanel';
+import { BurnStatsPanel } from '@/components/BurnStatsPanel';
 import { TokenBalance } from '@/components/TokenBalance';
 import { useMembership } from '@/hooks/useMembership';
 // Intentionally importing state utilities for potential future cleanup operations
@@ -70,6 +72,12 @@ export default function BurnDonationPage() {
         {/* Burn Donation Component */}
         <BurnDonation />
 
+        {/* Recurring Burn Pledges */}
+        <BurnPledgesPanel className="mt-6" />
+
+        {/* Burn Impact Statistics */}
+        <BurnStatsPanel principal={userPrincipal} className="mt-6" />
+
         {/* Footer */}
         <div className="mt-8 text-center text-sm text-gray-500">
           <p>Token burns are final and irreversible.</p>
@@ -76,7 +76,7 @@ export default function Dashboard() {
           <TokenBalance principal={userPrincipal} showBurnLink={true} className="mb-6" />
 
           {/* Treasury View Section - Story 9-2-2 */}
-          <TreasuryView className="mb-6" />
+          <TreasuryView className="mb-6" showHistoryLink />
 
           {/* Membership Upgrade Prompt - BL-011.5 AC3 */}
           {isRegistered && (
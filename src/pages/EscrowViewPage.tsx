@@ -64,7 +64,8 @@ export default function EscrowViewPage() {
           </div>
           <p className="text-gray-600">
             View escrows where you are the recipient, track milestone progress, and monitor fund
-            releases.
+            releases. If you are a release authority, approve milestones and release funds from
+            the Escrows I control tab.
           </p>
         </div>
 
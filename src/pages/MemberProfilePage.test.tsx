@@ -32,6 +32,13 @@ vi.mock('@/services/memberProfileService', () => ({
   fetchGovernanceStats: vi.fn(),
 }));
 
+// Mock voting feature (DelegateAction has its own store/service dependencies)
+vi.mock('@/features/voting', () => ({
+  DelegateAction: ({ delegatePrincipal }: { delegatePrincipal: string }) => (
+    <div data-testid="delegate-action">{delegatePrincipal}</div>
+  ),
+}));
+
 // Mock stores (needed by MemberProfile child component)
 vi.mock('@/stores', () => ({
   formatMemberSince: vi.fn((date: string) => {
@@ -202,6 +209,9 @@ describe('MemberProfilePage', () => {
 
     // isOwnProfile=true → "Edit Profile Settings" link should appear
     expect(screen.getByText('Edit Profile Settings')).toBeInTheDocument();
+
+    // Members can't delegate to themselves
+    expect(screen.queryByTestId('delegate-action')).not.toBeInTheDocument();
   });
 
   it('passes isOwnProfile=false when icPrincipal does not match', async () => {
@@ -230,6 +240,9 @@ describe('MemberProfilePage', () => {
 
     // isOwnProfile=false → "Edit Profile Settings" should NOT appear
     expect(screen.queryByText('Edit Profile Settings')).not.toBeInTheDocument();
+
+    // Delegate action is offered on other members' profiles
+    expect(screen.getByTestId('delegate-action')).toHaveTextContent(VALID_PRINCIPAL);
   });
 
   it('renders error banner with retry button on fetch failure', async () => {
@@ -22,6 +22,7 @@ import {
 } from '@/services/memberProfileService';
 import { useMembership } from '@/hooks/useMembership';
 import { trackEvent } from '@/utils/analytics';
+import { DelegateAction } from '@/features/voting';
 
 // ============================================================================
 // Skeleton
@@ -115,7 +116,7 @@ function ErrorBanner({ error, onRetry, isRetrying }: ErrorBannerProps) {
 
 export default function MemberProfilePage() {
   const { principal: principalParam } = useParams<{ principal: string }>();
-  const { icPrincipal } = useMembership();
+  const { icPrincipal, isActiveMember } = useMembership();
 
   // Validate principal format
   let validatedPrincipal: string | null = null;
@@ -243,6 +244,20 @@ export default function MemberProfilePage() {
             marketingBaseUrl={marketingBaseUrl}
           />
         )}
+
+        {/* Vote delegation: only active members can delegate, and not to themselves */}
+        {!isInvalidPrincipal &&
+          !isProfileLoading &&
+          profile &&
+          !isNotFound &&
+          !profileError &&
+          !isOwnProfile &&
+          isActiveMember && (
+            <DelegateAction
+              delegatePrincipal={profile.principal}
+              delegateName={profile.displayName}
+            />
+          )}
       </div>
     </div>
   );
@@ -15,6 +15,12 @@ import {
   CheckCircle,
   FileText,
   Clock,
+  AtSign,
+  Scale,
+  Flame,
+  RefreshCw,
+  Users,
+  MessageSquare,
   AlertCircle,
   Check,
   Trash2,
@@ -62,6 +68,12 @@ const FILTER_OPTIONS: FilterOption[] = [
   { value: 'new_proposal', label: 'New Proposals' },
   { value: 'voting_ending_24h', label: '24h Deadline' },
   { value: 'voting_ending_1h', label: '1h Deadline' },
+  { value: 'mention', label: 'Mentions' },
+  { value: 'escrow_dispute', label: 'Escrow Disputes' },
+  { value: 'burn_pledge_missed', label: 'Missed Pledges' },
+  { value: 'proposal_status_changed', label: 'Status Changes' },
+  { value: 'quorum_reached', label: 'Quorum Reached' },
+  { value: 'new_comment', label: 'New Comments' },
 ];
 
 // ============================================================================
@@ -88,6 +100,19 @@ function formatTimeAgo(timestamp: number): string {
   return `${days} days ago`;
 }
 
+/**
+ * Get the route a notification links to. Mentions and new comments jump to
+ * the comment, escrow disputes to the escrow, missed burn pledges to the pledge.
+ */
+function getNotificationPath(notification: Notification): string {
+  const { proposalId, commentId, escrowId, pledgeId } = notification.metadata;
+  if (notification.type === 'escrow_dispute') return `/escrow#escrow-${escrowId}`;
+  if (notification.type === 'burn_pledge_missed') return `/burn-donation#pledge-${pledgeId}`;
+  const linksToComment = notification.type === 'mention' || notification.type === 'new_comment';
+  const hash = linksToComment && commentId ? `#comment-${commentId}` : '';
+  return `/proposals/${proposalId}${hash}`;
+}
+
 /**
  * Get icon for notification type
  */
@@ -100,6 +125,18 @@ function getNotificationIcon(type: NotificationType): React.ComponentType<{ clas
     case 'voting_ending_24h':
     case 'voting_ending_1h':
       return Clock;
+    case 'mention':
+      return AtSign;
+    case 'escrow_dispute':
+      return Scale;
+    case 'burn_pledge_missed':
+      return Flame;
+    case 'proposal_status_changed':
+      return RefreshCw;
+    case 'quorum_reached':
+      return Users;
+    case 'new_comment':
+      return MessageSquare;
     default:
       return AlertCircle;
   }
@@ -118,6 +155,18 @@ function getNotificationColor(type: NotificationType): string {
       return 'text-yellow-500';
     case 'voting_ending_1h':
       return 'text-orange-500';
+    case 'mention':
+      return 'text-purple-500';
+    case 'escrow_dispute':
+      return 'text-orange-600';
+    case 'burn_pledge_missed':
+      return 'text-red-500';
+    case 'proposal_status_changed':
+      return 'text-teal-500';
+    case 'quorum_reached':
+      return 'text-green-600';
+    case 'new_comment':
+      return 'text-indigo-500';
     default:
       return 'text-gray-500';
   }
@@ -136,6 +185,18 @@ function getTypeLabel(type: NotificationType): string {
       return '24h Deadline';
     case 'voting_ending_1h':
       return '1h Deadline';
+    case 'mention':
+      return 'Mention';
+    case 'escrow_dispute':
+      return 'Escrow Dispute';
+    case 'burn_pledge_missed':
+      return 'Missed Pledge';
+    case 'proposal_status_changed':
+      return 'Status Change';
+    case 'quorum_reached':
+      return 'Quorum Reached';
+    case 'new_comment':
+      return 'New Comment';
     default:
       return 'Notification';
   }
@@ -274,12 +335,14 @@ export default function NotificationsPage(): React.ReactElement {
               title: 'Proposal Expired',
             });
           } else {
-            navigate(`/proposals/${notification.metadata.proposalId}`);
+            navigate(getNotificationPath(notification));
           }
         } catch {
           // On error, navigate anyway
-          navigate(`/proposals/${notification.metadata.proposalId}`);
+          navigate(getNotificationPath(notification));
         }
+      } else if (notification.metadata.escrowId || notification.metadata.pledgeId) {
+        navigate(getNotificationPath(notification));
       }
     },
     [navigate]
@@ -0,0 +1,81 @@
+/**
+ * Payout Queue Page
+ *
+ * Page wrapper for the treasury payout approval queue.
+ * Requires authenticated user (via ProtectedRoute in App.tsx) with the
+ * admin role; signer checks for individual actions happen in PayoutQueue
+ * and in the treasury canister.
+ */
+
+import React from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Home, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { useAuth } from '@hello-world-co-op/auth';
+import { PayoutQueue } from '@/components/PayoutQueue';
+import { useMembership } from '@/hooks/useMembership';
+
+export default function PayoutQueuePage() {
+  const navigate = useNavigate();
+  const { isAdmin, isLoading } = useAuth();
+  const { icPrincipal } = useMembership();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 to-blue-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Navigation Header */}
+        <div className="mb-6">
+          <div className="flex items-center gap-4 mb-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </button>
+            <Link
+              to="/dashboard"
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <Home className="h-4 w-4" />
+              Dashboard
+            </Link>
+          </div>
+
+          {/* Page Title */}
+          <div className="flex items-center gap-3 mb-2">
+            <ShieldCheck className="h-7 w-7 text-teal-600" />
+            <h1 className="text-2xl font-bold text-gray-900">Payout Approvals</h1>
+          </div>
+          <p className="text-gray-600">
+            Review proposed treasury payouts, approve or reject them, and execute payouts once
+            they have enough signer approvals.
+          </p>
+        </div>
+
+        {isLoading ? null : isAdmin ? (
+          <PayoutQueue userPrincipal={icPrincipal ?? undefined} />
+        ) : (
+          <div className="rounded-lg border border-gray-200 bg-white p-8 text-center">
+            <ShieldAlert className="mx-auto mb-3 h-10 w-10 text-gray-400" aria-hidden="true" />
+            <p className="font-medium text-gray-900">Admin access required</p>
+            <p className="mt-1 text-sm text-gray-600">
+              The payout queue is only available to DAO administrators.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,16 @@
  * Proposal Detail Page
  *
  * Displays a single proposal with full voting interface.
- * Shows proposal content, voting panel, tally, and countdown.
+ * Shows proposal content, voting panel, tally, countdown and discussion.
  *
  * Story: 9-1-1-think-tank-proposal-creation (initial page)
  * Story: 9-1-2-voting-interface (voting enhancements)
+ * Proposal amendments: revision history, diff and amend form while pending
+ * Voting modes: weighted/quadratic allocation against the member's snapshot balance
+ * Ranked choice: drag-to-rank ballot and round-by-round runoff tally for multi-option proposals
+ * Vote receipts: the member's signed receipt once their vote is recorded
+ * Funding: escrows linked to a passed proposal and the "Fund this proposal" flow
+ * Watchlist: watch toggle for status, deadline, quorum and comment notifications
  */
 
 import React, { useEffect, useState, useCallback } from 'react';
@@ -13,8 +19,17 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useStore } from '@nanostores/react';
 import { Button } from '../components/ui/button';
 import { GovernanceCanisterService, type ProposalStatus } from '../services/governanceCanister';
-import { $proposals, type SubmittedProposal, showSuccess, showError } from '@/stores';
+import {
+  $proposals,
+  type SubmittedProposal,
+  showSuccess,
+  showError,
+  showInfo,
+  resolveDelegation,
+} from '@/stores';
 import { CanisterUnavailable } from '../components/CanisterUnavailable';
+import { ProposalFundingPanel } from '../components/ProposalFundingPanel';
+import { useStaking } from '../services/stakingService';
 import { useMembership } from '@/hooks/useMembership';
 import {
   VotingPanel,
@@ -22,7 +37,23 @@ import {
   VotingCountdown,
   useVoting,
   useVoteTallyPolling,
+  useDelegations,
+  useVotingPower,
+  RankedBallot,
+  RunoffTally,
+  useRankedChoice,
+  VoteReceiptCard,
+  useVoteReceipt,
+  VotingPowerBreakdown,
 } from '../features/voting';
+import { CommentThread } from '../features/comments';
+import {
+  AmendProposalForm,
+  RevisionHistory,
+  WatchProposalButton,
+  useProposalRevisions,
+  type AmendProposalValues,
+} from '../features/proposals';
 
 // Status badge configuration
 const STATUS_BADGES: Record<string, { text: string; className: string }> = {
@@ -43,9 +74,46 @@ export function ProposalDetailPage() {
   const [proposal, setProposal] = useState<SubmittedProposal | null>(null);
   const [loading, setLoading] = useState(true);
   const [forceRefreshTally, setForceRefreshTally] = useState(false);
+  const [isAmending, setIsAmending] = useState(false);
 
   // BL-011.5: Get real membership status from session
-  const { isActiveMember } = useMembership();
+  const { isActiveMember, icPrincipal } = useMembership();
+
+  // Vote delegation that applies to this proposal's vertical
+  const { delegations } = useDelegations({ enabled: isActiveMember });
+  const delegation = resolveDelegation(delegations, proposal?.vertical);
+
+  // Revision history; the latest revision is what members vote on
+  const {
+    revisions,
+    currentRevision,
+    isAmending: isPublishingAmendment,
+    amend,
+  } = useProposalRevisions(proposalId ?? '');
+
+  // Voting mode and the member's balance snapshot for weighted/quadratic proposals
+  const { votingPower } = useVotingPower({
+    proposalId: proposalId ?? '',
+    enabled: isActiveMember,
+  });
+  const votingMode = votingPower?.votingMode ?? 'simple';
+
+  // Staked DOM: current voting power and the breakdown behind the member's vote
+  const { state: stakingState, votingPower: stakedVotingPower } = useStaking(
+    isActiveMember ? icPrincipal : null
+  );
+
+  // Options and ballots for ranked-choice proposals (null for yes/no proposals)
+  const {
+    ballots: rankedBallots,
+    result: runoffResult,
+    isLoading: rankedLoading,
+    isSubmitting: isSubmittingRanking,
+    castBallot,
+  } = useRankedChoice({
+    proposalId: proposalId ?? '',
+    revision: currentRevision?.revision,
+  });
 
   // Fetch proposal status and details
   useEffect(() => {
@@ -69,11 +137,20 @@ export function ProposalDetailPage() {
   // Voting hook
   const {
     userVote,
+    queuedVote,
     isSubmitting,
     error: voteError,
     castVote,
+    discardQueuedVote,
   } = useVoting({
     proposalId: proposalId ?? '',
+    revision: currentRevision?.revision,
+    votingMode,
+    votingEndsAt: status?.votingEnds,
+    proposalTitle: currentRevision?.title ?? proposal?.title,
+    onVoteQueued: () => {
+      showInfo("You're offline. Your vote is queued and will be submitted when you reconnect.");
+    },
     onVoteSuccess: (vote) => {
       // Force refresh tally after successful vote
       setForceRefreshTally(true);
@@ -92,6 +169,12 @@ export function ProposalDetailPage() {
     },
   });
 
+  // Signed receipt for the member's own recorded vote
+  const { receipt } = useVoteReceipt({
+    proposalId: proposalId ?? '',
+    enabled: !!userVote?.transactionId && !userVote.delegate,
+  });
+
   // Vote tally polling
   const {
     tally,
@@ -101,18 +184,46 @@ export function ProposalDetailPage() {
     retryPolling,
   } = useVoteTallyPolling({
     proposalId: proposalId ?? '',
-    enabled: !!proposalId && status?.status === 'active',
+    enabled: !!proposalId && status?.status === 'active' && !rankedBallots,
     forceRefresh: forceRefreshTally,
   });
 
   // Handle vote
   const handleVote = useCallback(
-    async (vote: 'yes' | 'no' | 'abstain') => {
-      await castVote(vote);
+    async (vote: 'yes' | 'no' | 'abstain', allocation?: number) => {
+      await castVote(vote, allocation);
     },
     [castVote]
   );
 
+  // Cast a ranked-choice ballot
+  const handleRankedVote = useCallback(
+    async (ranking: string[]) => {
+      const result = await castBallot(ranking);
+      if (!result.success) {
+        showError(result.error?.message ?? 'Failed to cast vote. Please try again.');
+        return;
+      }
+      showSuccess('Your ranking has been recorded.');
+    },
+    [castBallot]
+  );
+
+  // Publish an amendment as a new revision
+  const handleAmend = useCallback(
+    async (values: AmendProposalValues): Promise<boolean> => {
+      const result = await amend(values);
+      if (!result.success) {
+        showError(result.error?.message ?? 'Failed to publish amendment. Please try again.');
+        return false;
+      }
+      setIsAmending(false);
+      showSuccess('Your amendment has been published as a new revision.');
+      return true;
+    },
+    [amend]
+  );
+
   if (loading) {
     return (
       <div className="flex min-h-[400px] items-center justify-center">
@@ -139,6 +250,11 @@ export function ProposalDetailPage() {
 
   const statusBadge = STATUS_BADGES[status.status] ?? STATUS_BADGES.pending;
   const isActive = status.status === 'active';
+  // Only the proposer has the proposal in their local store; amendments close when voting opens
+  const canAmend = !!proposal && status.status === 'pending' && !!currentRevision;
+  const title = currentRevision?.title ?? proposal?.title;
+  const displayTitle = title ?? `Proposal #${proposalId?.substring(0, 8)}`;
+  const content = currentRevision?.thinkTankOutput ?? proposal?.thinkTankOutput;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -163,49 +279,62 @@ export function ProposalDetailPage() {
                 >
                   {statusBadge.text}
                 </span>
-                <h1 className="mt-2 text-2xl font-bold text-gray-900">
-                  {proposal?.title ?? `Proposal #${proposalId?.substring(0, 8)}`}
-                </h1>
+                {revisions.length > 1 && currentRevision && (
+                  <span className="ml-2 inline-flex rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-700">
+                    Revision {currentRevision.revision}
+                  </span>
+                )}
+                <h1 className="mt-2 text-2xl font-bold text-gray-900">{displayTitle}</h1>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                {proposalId && <WatchProposalButton proposalId={proposalId} title={displayTitle} />}
+                {canAmend && !isAmending && (
+                  <Button variant="outline" size="sm" onClick={() => setIsAmending(true)}>
+                    Amend Proposal
+                  </Button>
+                )}
               </div>
             </div>
 
             {/* Proposal Content */}
-            {proposal?.thinkTankOutput ? (
+            {content ? (
               <div className="mt-6 space-y-6">
                 <section>
                   <h2 className="text-lg font-semibold text-gray-900 mb-2">Problem Statement</h2>
-                  <p className="text-gray-700">{proposal.thinkTankOutput.problemStatement}</p>
+                  <p className="text-gray-700">{content.problemStatement}</p>
                 </section>
 
                 <section>
                   <h2 className="text-lg font-semibold text-gray-900 mb-2">Proposed Solution</h2>
-                  <p className="text-gray-700">{proposal.thinkTankOutput.proposedSolution}</p>
+                  <p className="text-gray-700">{content.proposedSolution}</p>
                 </section>
 
-                {proposal.thinkTankOutput.successMetrics.length > 0 && (
+                {content.successMetrics.length > 0 && (
                   <section>
                     <h2 className="text-lg font-semibold text-gray-900 mb-2">Success Metrics</h2>
                     <ul className="list-disc list-inside text-gray-700 space-y-1">
-                      {proposal.thinkTankOutput.successMetrics.map((metric, i) => (
+                      {content.successMetrics.map((metric, i) => (
                         <li key={i}>{metric}</li>
                       ))}
                     </ul>
                   </section>
                 )}
 
-                <section className="flex flex-wrap gap-4 text-sm text-gray-500">
-                  <div>
-                    <span className="font-medium">Scale:</span>{' '}
-                    <span className="capitalize">{proposal.scale}</span>
-                  </div>
-                  <div>
-                    <span className="font-medium">Category:</span> {proposal.vertical}
-                  </div>
-                  <div>
-                    <span className="font-medium">Submitted:</span>{' '}
-                    {new Date(proposal.submittedAt).toLocaleDateString()}
-                  </div>
-                </section>
+                {proposal && (
+                  <section className="flex flex-wrap gap-4 text-sm text-gray-500">
+                    <div>
+                      <span className="font-medium">Scale:</span>{' '}
+                      <span className="capitalize">{proposal.scale}</span>
+                    </div>
+                    <div>
+                      <span className="font-medium">Category:</span> {proposal.vertical}
+                    </div>
+                    <div>
+                      <span className="font-medium">Submitted:</span>{' '}
+                      {new Date(proposal.submittedAt).toLocaleDateString()}
+                    </div>
+                  </section>
+                )}
               </div>
             ) : (
               <div className="mt-6 py-8 text-center text-gray-500">
@@ -214,6 +343,23 @@ export function ProposalDetailPage() {
             )}
           </div>
 
+          {/* Amendment Form */}
+          {isAmending && currentRevision && (
+            <AmendProposalForm
+              revision={currentRevision}
+              isSubmitting={isPublishingAmendment}
+              onSubmit={handleAmend}
+              onCancel={() => setIsAmending(false)}
+            />
+          )}
+
+          {/* Revision History */}
+          <RevisionHistory
+            key={currentRevision?.revision}
+            revisions={revisions}
+            votedRevision={userVote?.revision}
+          />
+
           {/* Vote Error Message */}
           {voteError && (
             <div className="rounded-lg border border-red-200 bg-red-50 p-4">
@@ -221,17 +367,55 @@ export function ProposalDetailPage() {
             </div>
           )}
 
-          {/* Voting Panel */}
-          <VotingPanel
-            proposalId={proposalId ?? ''}
-            proposalTitle={proposal?.title ?? `Proposal #${proposalId?.substring(0, 8)}`}
-            votingEndsAt={status.votingEnds}
-            isActive={isActive}
-            userVote={userVote}
-            isMember={isActiveMember}
-            isSubmitting={isSubmitting}
-            onVote={handleVote}
-          />
+          {/* Voting Panel: ranked ballot for multi-option proposals, yes/no otherwise */}
+          {rankedBallots ? (
+            <RankedBallot
+              proposalTitle={displayTitle}
+              options={rankedBallots.options}
+              votingEndsAt={status.votingEnds}
+              isActive={isActive}
+              isMember={isActiveMember}
+              isSubmitting={isSubmittingRanking}
+              myRanking={rankedBallots.myRanking}
+              onSubmit={handleRankedVote}
+            />
+          ) : (
+            !rankedLoading && (
+              <VotingPanel
+                proposalId={proposalId ?? ''}
+                proposalTitle={displayTitle}
+                votingEndsAt={status.votingEnds}
+                isActive={isActive}
+                userVote={userVote}
+                isMember={isActiveMember}
+                isSubmitting={isSubmitting}
+                delegation={delegation}
+                votingMode={votingMode}
+                votingPower={votingPower?.balance}
+                onVote={handleVote}
+                queuedVote={queuedVote}
+                onDiscardQueued={discardQueuedVote}
+                stakedVotingPower={stakingState.lastUpdated ? stakedVotingPower : null}
+              />
+            )
+          )}
+
+          {/* Vote Receipt */}
+          {receipt && !rankedBallots && <VoteReceiptCard receipt={receipt} proposalTitle={title} />}
+
+          {/* Voting power behind the member's vote */}
+          {userVote && stakingState.lastUpdated && (
+            <VotingPowerBreakdown stakes={stakingState.stakes} asOf={userVote.votedAt} />
+          )}
+
+          {/* Discussion */}
+          {proposalId && (
+            <CommentThread
+              proposalId={proposalId}
+              currentPrincipal={icPrincipal}
+              canComment={isActiveMember}
+            />
+          )}
         </div>
 
         {/* Sidebar - 1 column on large screens */}
@@ -250,11 +434,15 @@ export function ProposalDetailPage() {
           )}
 
           {/* Vote Tally */}
-          <VoteTally
-            tally={tally}
-            isLoading={tallyLoading && !tally}
-            error={tallyError ?? undefined}
-          />
+          {rankedBallots ? (
+            <RunoffTally options={rankedBallots.options} result={runoffResult} isLoading={false} />
+          ) : (
+            <VoteTally
+              tally={tally}
+              isLoading={(tallyLoading && !tally) || rankedLoading}
+              error={tallyError ?? undefined}
+            />
+          )}
 
           {/* Canister unavailable banner if polling paused */}
           {tallyPaused && (
@@ -265,6 +453,17 @@ export function ProposalDetailPage() {
             />
           )}
 
+          {/* Funding: escrows linked to the passed proposal (proposer is the default recipient) */}
+          {status.status === 'passed' && proposalId && (
+            <ProposalFundingPanel
+              proposalId={proposalId}
+              proposalTitle={displayTitle}
+              content={content}
+              canFund={isActiveMember}
+              defaultRecipient={status.proposer}
+            />
+          )}
+
           {/* Additional Info */}
           <div className="rounded-lg border border-gray-200 p-4">
             <h3 className="font-medium text-gray-900 mb-3">Proposal Info</h3>
@@ -7,9 +7,12 @@
  * Story: 9-1-1-think-tank-proposal-creation (drafts)
  * Story: 9-1-3-proposal-listing (proposal list)
  * Story: 9-1-6-draft-proposal-management (drafts list)
+ * Saved views: named filter presets pinned above the filters
+ * Infinite scroll: optional windowed list in place of page numbers
+ * Watchlist: "Watching" filter for proposals the member follows
  */
 
-import React, { useEffect, useMemo, useRef, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useCallback, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useStore } from '@nanostores/react';
 import {
@@ -20,6 +23,9 @@ import {
   $proposalFilters,
   $proposalSort,
   $proposalPage,
+  $proposalListMode,
+  $watchlist,
+  getProposalListKey,
 } from '@/stores';
 import { Button } from '../components/ui/button';
 import { useAuth } from '@hello-world-co-op/auth';
@@ -27,9 +33,12 @@ import { useMembership } from '@/hooks/useMembership';
 import {
   ProposalCard,
   ProposalFilters,
+  SavedViews,
   ProposalSort,
   ProposalSearch,
   Pagination,
+  InfiniteProposalList,
+  ProposalListModeToggle,
   DraftsList,
   useProposalList,
 } from '../features/proposals';
@@ -132,6 +141,36 @@ function EmptyStateNotVoted() {
   );
 }
 
+function EmptyStateNotWatching() {
+  return (
+    <div className="rounded-lg border border-dashed border-gray-300 p-8 text-center">
+      <svg
+        className="mx-auto h-12 w-12 text-gray-400"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={1.5}
+          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+        />
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={1.5}
+          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+        />
+      </svg>
+      <p className="mt-2 text-gray-900 font-medium">You're not watching any proposals</p>
+      <p className="text-sm text-gray-500">
+        Watch a proposal to follow its status, deadline and discussion.
+      </p>
+    </div>
+  );
+}
+
 export function ProposalsPage() {
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -142,12 +181,27 @@ export function ProposalsPage() {
   const filters = useStore($proposalFilters);
   const sort = useStore($proposalSort);
   const page = useStore($proposalPage);
+  const listMode = useStore($proposalListMode);
+  const watchlistCount = useStore($watchlist).length;
 
   const proposalListRef = useRef<HTMLDivElement>(null);
   const isInitializedRef = useRef(false);
+  // Name of a shared view link; the param is dropped once the URL syncs
+  const [sharedViewName] = useState(() => searchParams.get('view'));
 
   // Get proposal list data
-  const { proposals, totalCount, isLoading, error, refetch, isPollingPaused } = useProposalList();
+  const {
+    proposals,
+    totalCount,
+    isLoading,
+    error,
+    refetch,
+    isPollingPaused,
+    searchHighlights,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  } = useProposalList();
 
   // Initialize filters from URL params on mount (synchronously)
   useEffect(() => {
@@ -185,16 +239,24 @@ export function ProposalsPage() {
       filters.status.length > 0 ||
       filters.myProposals ||
       filters.notVoted ||
-      filters.search.length > 0;
+      filters.watching ||
+      filters.search.length > 0 ||
+      filters.verticals.length > 0 ||
+      filters.scales.length > 0 ||
+      filters.budgetMin !== null ||
+      filters.budgetMax !== null;
 
     if (filters.notVoted && totalCount === 0) {
       return <EmptyStateNotVoted />;
     }
+    if (filters.watching && watchlistCount === 0) {
+      return <EmptyStateNotWatching />;
+    }
     if (hasFilters) {
       return <EmptyStateFiltered />;
     }
     return <EmptyStateNoProposals isMember={isActiveMember} />;
-  }, [proposals.length, isLoading, filters, totalCount, isActiveMember]);
+  }, [proposals.length, isLoading, filters, totalCount, watchlistCount, isActiveMember]);
 
   // Result count message for aria-live
   const resultMessage = useMemo(() => {
@@ -240,6 +302,9 @@ export function ProposalsPage() {
         </div>
       )}
 
+      {/* Saved Views */}
+      <SavedViews sharedViewName={sharedViewName} className="mb-6" />
+
       {/* Main Content: Filters + Proposals */}
       <div className="flex flex-col lg:flex-row gap-6">
         {/* Sidebar: Filters */}
@@ -257,6 +322,7 @@ export function ProposalsPage() {
             <div className="sm:w-48">
               <ProposalSort />
             </div>
+            <ProposalListModeToggle className="self-start" />
           </div>
 
           {/* Error State - Show CanisterUnavailable when polling paused */}
@@ -295,12 +361,23 @@ export function ProposalsPage() {
                 <ProposalCardSkeleton />
                 <ProposalCardSkeleton />
               </>
+            ) : proposals.length > 0 && listMode === 'infinite' ? (
+              <InfiniteProposalList
+                proposals={proposals}
+                votedProposalIds={votedProposalIds}
+                highlights={searchHighlights}
+                hasMore={hasMore}
+                isLoadingMore={isLoadingMore}
+                onLoadMore={loadMore}
+                listKey={getProposalListKey(filters, sort)}
+              />
             ) : proposals.length > 0 ? (
               proposals.map((proposal) => (
                 <ProposalCard
                   key={proposal.id}
                   proposal={proposal}
                   hasVoted={votedProposalIds.has(proposal.id)}
+                  highlights={searchHighlights[proposal.id]}
                 />
               ))
             ) : (
@@ -309,7 +386,7 @@ export function ProposalsPage() {
           </div>
 
           {/* Pagination */}
-          {totalCount > 0 && <Pagination onPageChange={handlePageChange} />}
+          {totalCount > 0 && listMode === 'paged' && <Pagination onPageChange={handlePageChange} />}
         </main>
       </div>
     </div>
@@ -0,0 +1,82 @@
+/**
+ * Treasury Analytics Page
+ *
+ * Page wrapper for the treasury analytics charts.
+ * Requires authenticated user (via ProtectedRoute in App.tsx).
+ */
+
+import React from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Home, LineChart, Receipt } from 'lucide-react';
+import { TreasuryAnalytics } from '@/components/TreasuryAnalytics';
+import { useTreasuryBalance } from '@/services/treasuryService';
+
+export default function TreasuryAnalyticsPage() {
+  const navigate = useNavigate();
+
+  // Analytics are anchored to the current balance snapshot
+  useTreasuryBalance({ autoFetch: true, refetchIfStale: true });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 to-blue-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Navigation Header */}
+        <div className="mb-6">
+          <div className="flex items-center gap-4 mb-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </button>
+            <Link
+              to="/dashboard"
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <Home className="h-4 w-4" />
+              Dashboard
+            </Link>
+            <Link
+              to="/treasury/transactions"
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <Receipt className="h-4 w-4" />
+              Transactions
+            </Link>
+          </div>
+
+          {/* Page Title */}
+          <div className="flex items-center gap-3 mb-2">
+            <LineChart className="h-7 w-7 text-teal-600" />
+            <h1 className="text-2xl font-bold text-gray-900">Treasury Analytics</h1>
+          </div>
+          <p className="text-gray-600">
+            How the treasury balance has changed over time, where funds come from and go, and how
+            long current reserves will last.
+          </p>
+        </div>
+
+        <TreasuryAnalytics />
+      </div>
+    </div>
+  );
+}
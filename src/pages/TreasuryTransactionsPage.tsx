@@ -0,0 +1,64 @@
+/**
+ * Treasury Transactions Page
+ *
+ * Page wrapper for the full treasury transaction history.
+ * Requires authenticated user (via ProtectedRoute in App.tsx).
+ */
+
+import React from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Home, Receipt } from 'lucide-react';
+import { TransactionHistory } from '@/components/TransactionHistory';
+
+export default function TreasuryTransactionsPage() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 to-blue-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Navigation Header */}
+        <div className="mb-6">
+          <div className="flex items-center gap-4 mb-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </button>
+            <Link
+              to="/dashboard"
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <Home className="h-4 w-4" />
+              Dashboard
+            </Link>
+          </div>
+
+          {/* Page Title */}
+          <div className="flex items-center gap-3 mb-2">
+            <Receipt className="h-7 w-7 text-teal-600" />
+            <h1 className="text-2xl font-bold text-gray-900">Treasury Transactions</h1>
+          </div>
+          <p className="text-gray-600">
+            The complete treasury ledger. Filter, search and export transactions for reporting.
+          </p>
+        </div>
+
+        <TransactionHistory />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Vote Receipt Verifier Page Tests
+ *
+ * Covers pasting a receipt, the verification outcomes reported by the
+ * governance canister, and malformed input.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import type { VoteReceipt } from '@/stores';
+
+vi.mock('../services/governanceCanister', () => ({
+  verifyVoteReceipt: vi.fn(),
+}));
+
+import VerifyReceiptPage from './VerifyReceiptPage';
+import { verifyVoteReceipt } from '../services/governanceCanister';
+import { buildReceiptDocument, serializeReceiptDocument } from '../utils/voteReceipt';
+
+const RECEIPT: VoteReceipt = {
+  canisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+  proposalId: '42',
+  voter: 'aaaaa-aa',
+  vote: 'abstain',
+  votedAt: Date.now(),
+  votedAtNanos: `${Date.now()}000000`,
+  transactionId: 'tx-42',
+  revision: 1,
+  weight: 1,
+  signature: 'deadbeef',
+};
+
+function pasteAndVerify(text: string) {
+  render(
+    <MemoryRouter>
+      <VerifyReceiptPage />
+    </MemoryRouter>
+  );
+  fireEvent.change(screen.getByLabelText('Vote receipt JSON'), { target: { value: text } });
+  fireEvent.click(screen.getByRole('button', { name: 'Verify Receipt' }));
+}
+
+describe('VerifyReceiptPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('confirms a receipt the canister verifies', async () => {
+    vi.mocked(verifyVoteReceipt).mockResolvedValue({
+      success: true,
+      verification: { status: 'valid', checkedAt: Date.now() },
+    });
+
+    pasteAndVerify(serializeReceiptDocument(buildReceiptDocument(RECEIPT, 'Community Garden')));
+
+    expect(await screen.findByText('Receipt verified')).toBeInTheDocument();
+    expect(verifyVoteReceipt).toHaveBeenCalledWith(RECEIPT);
+    expect(screen.getByText('Community Garden (#42)')).toBeInTheDocument();
+    expect(screen.getByText('Abstain')).toBeInTheDocument();
+  });
+
+  it('lists the fields that no longer match the recorded vote', async () => {
+    vi.mocked(verifyVoteReceipt).mockResolvedValue({
+      success: true,
+      verification: { status: 'mismatch', mismatchedFields: ['vote'], checkedAt: Date.now() },
+    });
+
+    pasteAndVerify(serializeReceiptDocument(buildReceiptDocument(RECEIPT)));
+
+    expect(await screen.findByText('Receipt is out of date')).toBeInTheDocument();
+    expect(screen.getByText('Differs in: vote')).toBeInTheDocument();
+  });
+
+  it('flags receipts with a bad signature', async () => {
+    vi.mocked(verifyVoteReceipt).mockResolvedValue({
+      success: true,
+      verification: { status: 'invalid-signature', checkedAt: Date.now() },
+    });
+
+    pasteAndVerify(serializeReceiptDocument(buildReceiptDocument(RECEIPT)));
+
+    expect(await screen.findByText('Signature does not match')).toBeInTheDocument();
+  });
+
+  it('rejects text that is not a receipt without calling the canister', async () => {
+    pasteAndVerify('{"hello": "world"}');
+
+    await waitFor(() => expect(screen.getByRole('alert')).toBeInTheDocument());
+    expect(screen.getByRole('alert')).toHaveTextContent('This is not a valid vote receipt');
+    expect(verifyVoteReceipt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Vote Receipt Verifier Page
+ *
+ * Public page (no auth required) where anyone can paste or upload a vote
+ * receipt and have it checked against the governance canister: the
+ * canister confirms it signed the receipt and that the vote it describes
+ * is still on record.
+ */
+
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { VoteReceiptCard } from '../features/voting/components/VoteReceiptCard';
+import { verifyVoteReceipt } from '../services/governanceCanister';
+import { parseReceiptDocument, type VoteReceiptDocument } from '../utils/voteReceipt';
+import type { ReceiptVerification, ReceiptVerificationStatus } from '@/stores';
+
+type VerifyState =
+  | { type: 'idle' }
+  | { type: 'verifying' }
+  | { type: 'invalid'; message: string }
+  | { type: 'checked'; document: VoteReceiptDocument; verification: ReceiptVerification };
+
+const OUTCOMES: Record<
+  ReceiptVerificationStatus,
+  { title: string; description: string; className: string }
+> = {
+  valid: {
+    title: 'Receipt verified',
+    description: 'The governance canister signed this receipt and has this vote on record.',
+    className: 'border-green-200 bg-green-50 text-green-800',
+  },
+  'invalid-signature': {
+    title: 'Signature does not match',
+    description:
+      'This receipt was not issued by the governance canister, or it has been edited since.',
+    className: 'border-red-200 bg-red-50 text-red-800',
+  },
+  'not-found': {
+    title: 'No matching vote on record',
+    description: 'The governance canister has no vote from this member on this proposal.',
+    className: 'border-red-200 bg-red-50 text-red-800',
+  },
+  mismatch: {
+    title: 'Receipt is out of date',
+    description: 'The receipt is genuine, but the recorded vote no longer matches it.',
+    className: 'border-amber-200 bg-amber-50 text-amber-800',
+  },
+  'wrong-canister': {
+    title: 'Issued by a different canister',
+    description: 'This receipt was not issued by this DAO’s governance canister.',
+    className: 'border-red-200 bg-red-50 text-red-800',
+  },
+};
+
+export default function VerifyReceiptPage() {
+  const [input, setInput] = useState('');
+  const [state, setState] = useState<VerifyState>({ type: 'idle' });
+
+  const handleVerify = async () => {
+    const parsed = parseReceiptDocument(input);
+    if (!parsed.success) {
+      setState({ type: 'invalid', message: parsed.error });
+      return;
+    }
+
+    setState({ type: 'verifying' });
+    const result = await verifyVoteReceipt(parsed.document.receipt);
+    if (!result.success || !result.verification) {
+      setState({
+        type: 'invalid',
+        message: result.error?.message ?? 'Verification failed. Please try again.',
+      });
+      return;
+    }
+    setState({ type: 'checked', document: parsed.document, verification: result.verification });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    setState({ type: 'idle' });
+  };
+
+  const outcome = state.type === 'checked' ? OUTCOMES[state.verification.status] : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="container mx-auto max-w-2xl px-4">
+        <h1 className="text-3xl font-bold text-gray-900">Verify a Vote Receipt</h1>
+        <p className="mt-2 text-sm text-gray-600">
+          Paste a vote receipt or upload the downloaded file. The receipt is checked against the
+          governance canister; no login is needed.
+        </p>
+
+        <div className="mt-6 rounded-lg bg-white p-6 shadow-md">
+          <label htmlFor="receipt-json" className="block text-sm font-medium text-gray-900">
+            Vote receipt JSON
+          </label>
+          <textarea
+            id="receipt-json"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setState({ type: 'idle' });
+            }}
+            rows={10}
+            spellCheck={false}
+            className="mt-2 w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs focus:border-teal-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+            placeholder='{ "type": "hwdao-vote-receipt", ... }'
+          />
+
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <Button
+              onClick={handleVerify}
+              disabled={!input.trim() || state.type === 'verifying'}
+              className="min-h-[44px] bg-teal-600 hover:bg-teal-700 text-white"
+            >
+              {state.type === 'verifying' ? 'Verifying...' : 'Verify Receipt'}
+            </Button>
+            <label className="inline-flex cursor-pointer items-center gap-1.5 text-sm text-teal-700 hover:underline">
+              <Upload className="h-4 w-4" aria-hidden="true" />
+              Upload receipt file
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFile}
+                className="sr-only"
+              />
+            </label>
+          </div>
+        </div>
+
+        {state.type === 'invalid' && (
+          <div className="mt-6 rounded-lg border border-red-200 bg-red-50 p-4" role="alert">
+            <p className="text-red-700">{state.message}</p>
+          </div>
+        )}
+
+        {state.type === 'checked' && outcome && (
+          <div className="mt-6 space-y-4">
+            <div className={`rounded-lg border p-4 ${outcome.className}`} role="status">
+              <p className="font-medium">{outcome.title}</p>
+              <p className="mt-1 text-sm">{outcome.description}</p>
+              {state.verification.mismatchedFields && (
+                <p className="mt-1 text-sm">
+                  Differs in: {state.verification.mismatchedFields.join(', ')}
+                </p>
+              )}
+            </div>
+            <VoteReceiptCard
+              receipt={state.document.receipt}
+              proposalTitle={state.document.proposalTitle}
+              showActions={false}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Wallet Activity Page
+ *
+ * Page wrapper for the member's own DOM transaction history.
+ * Requires authenticated user (via ProtectedRoute in App.tsx).
+ */
+
+import React from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, History, Home } from 'lucide-react';
+import { WalletActivity } from '@/components/WalletActivity';
+import { useMembership } from '@/hooks/useMembership';
+
+export default function WalletActivityPage() {
+  const navigate = useNavigate();
+  // icPrincipal is null when user hasn't linked Internet Identity
+  const { icPrincipal } = useMembership();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 to-blue-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Navigation Header */}
+        <div className="mb-6">
+          <div className="flex items-center gap-4 mb-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </button>
+            <Link
+              to="/dashboard"
+              className="
+                inline-flex items-center gap-1.5
+                text-sm text-gray-600 hover:text-gray-900
+                font-medium
+                focus:outline-none focus:underline
+                transition-colors duration-150
+              "
+            >
+              <Home className="h-4 w-4" />
+              Dashboard
+            </Link>
+          </div>
+
+          {/* Page Title */}
+          <div className="flex items-center gap-3 mb-2">
+            <History className="h-7 w-7 text-teal-600" />
+            <h1 className="text-2xl font-bold text-gray-900">Wallet Activity</h1>
+          </div>
+          <p className="text-gray-600">
+            Every DOM transfer, mint and burn on your account, as recorded by the ledger.
+          </p>
+        </div>
+
+        <WalletActivity principal={icPrincipal} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * Comment Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  listComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  listMentions,
+  extractMentions,
+  renderMentions,
+  formatMention,
+  CommentApiError,
+} from '@/services/commentService';
+
+// Mock the oracleBridge utility
+vi.mock('@/utils/oracleBridge', () => ({
+  getOracleBridgeUrl: () => 'http://localhost:3000',
+}));
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('commentService', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('mentions', () => {
+    it('extracts unique mentioned principals', () => {
+      const body = 'Thanks @[Alice](aaaaa-aa) and @[Bob](bbbbb-bb), cc @[Alice](aaaaa-aa)';
+
+      expect(extractMentions(body)).toEqual(['aaaaa-aa', 'bbbbb-bb']);
+    });
+
+    it('ignores plain @ text', () => {
+      expect(extractMentions('email me @ home or @alice')).toEqual([]);
+    });
+
+    it('renders mentions as profile links', () => {
+      expect(renderMentions('hi @[Alice](aaaaa-aa)')).toBe('hi [@Alice](/members/aaaaa-aa)');
+    });
+
+    it('strips brackets from display names when formatting', () => {
+      expect(formatMention('Al[ice]', 'aaaaa-aa')).toBe('@[Alice](aaaaa-aa)');
+    });
+  });
+
+  describe('listComments', () => {
+    it('fetches comments with correct URL and credentials', async () => {
+      const mockResponse = { comments: [], total: 0 };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockResponse),
+      });
+
+      const result = await listComments('42');
+
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:3000/api/proposals/42/comments', {
+        credentials: 'include',
+      });
+      expect(result).toEqual(mockResponse);
+    });
+
+    it('throws CommentApiError with server message', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: () => Promise.resolve({ error: 'Unauthorized' }),
+      });
+
+      await expect(listComments('42')).rejects.toMatchObject({
+        name: 'CommentApiError',
+        status: 401,
+        message: 'Unauthorized',
+      });
+    });
+  });
+
+  describe('createComment', () => {
+    it('sends body, parent and extracted mentions', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ id: 'c1' }),
+      });
+
+      await createComment('42', 'Agree with @[Bob](bbbbb-bb)', 'c0');
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://localhost:3000/api/proposals/42/comments');
+      expect(init.method).toBe('POST');
+      expect(init.credentials).toBe('include');
+      expect(JSON.parse(init.body)).toEqual({
+        body: 'Agree with @[Bob](bbbbb-bb)',
+        parent_id: 'c0',
+        mentions: ['bbbbb-bb'],
+      });
+    });
+
+    it('sends a null parent for top-level comments', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ id: 'c1' }),
+      });
+
+      await createComment('42', 'Hello');
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).parent_id).toBeNull();
+    });
+  });
+
+  describe('updateComment', () => {
+    it('patches the comment', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ id: 'c1', edited: true }),
+      });
+
+      const result = await updateComment('c1', 'Edited');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:3000/api/comments/c1');
+      expect(mockFetch.mock.calls[0][1].method).toBe('PATCH');
+      expect(result.edited).toBe(true);
+    });
+
+    it('throws CommentApiError on 403', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        json: () => Promise.reject(new Error('no body')),
+      });
+
+      try {
+        await updateComment('c1', 'Edited');
+        expect.fail('Should have thrown');
+      } catch (e) {
+        expect(e).toBeInstanceOf(CommentApiError);
+        expect((e as CommentApiError).message).toBe('Failed to edit comment: 403');
+      }
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('resolves on 204', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await expect(deleteComment('c1')).resolves.toBeUndefined();
+      expect(mockFetch.mock.calls[0][1]).toEqual({ method: 'DELETE', credentials: 'include' });
+    });
+
+    it('throws CommentApiError on 404', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: () => Promise.resolve({ error: 'Comment not found' }),
+      });
+
+      await expect(deleteComment('c1')).rejects.toBeInstanceOf(CommentApiError);
+    });
+  });
+
+  describe('listMentions', () => {
+    it('passes the since parameter', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ mentions: [] }),
+      });
+
+      await listMentions('2026-03-01T00:00:00Z');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'http://localhost:3000/api/me/mentions?since=2026-03-01T00%3A00%3A00Z'
+      );
+    });
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Allowance Service
+ *
+ * Service for the member's ICRC-2 approvals on the dom-token ledger: reads
+ * the allowance granted to each known spender, and approves or revokes
+ * allowances with the member's Internet Identity.
+ * Provides hooks for React component integration.
+ */
+
+import { useEffect, useCallback, useMemo } from 'react';
+import { useStore } from '@nanostores/react';
+import { HttpAgent, Actor } from '@dfinity/agent';
+import { Principal } from '@dfinity/principal';
+import { IDL } from '@dfinity/candid';
+import {
+  $allowances,
+  $allowanceAction,
+  $outstandingAllowances,
+  $trackedSpenders,
+  $tokenBalance,
+  $transferFee,
+  setAllowancesLoading,
+  setAllowances,
+  setAllowancesError,
+  upsertAllowance,
+  setAllowanceActionPending,
+  setAllowanceActionError,
+  resetAllowanceAction,
+  trackSpender,
+  buildAllowanceSpenders,
+  validateAllowanceSpender,
+  validateAllowanceAmount,
+  validateAllowanceExpiry,
+  DEFAULT_TRANSFER_FEE,
+  type AllowancesState,
+  type AllowanceActionState,
+  type AllowanceSpender,
+  type TokenAllowance,
+} from '@/stores';
+import { fetchTokenBalance, fetchTransferFee } from './tokenService';
+import { trackEvent } from '../utils/analytics';
+import { getAuthenticatedIdentity } from '../utils/icIdentity';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** DOM token canister ID */
+const DOM_TOKEN_CANISTER_ID = import.meta.env.VITE_DOM_TOKEN_CANISTER_ID || '';
+
+/** Treasury canister ID (escrow funding spender) */
+const TREASURY_CANISTER_ID = import.meta.env.VITE_TREASURY_CANISTER_ID || '';
+
+/** Governance canister ID (staking spender) */
+const GOVERNANCE_CANISTER_ID = import.meta.env.VITE_GOVERNANCE_CANISTER_ID || '';
+
+/** Request timeout in milliseconds */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/** Approve (update call) timeout in milliseconds */
+const APPROVE_TIMEOUT_MS = 30000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FetchAllowancesResult {
+  success: boolean;
+  allowances?: TokenAllowance[];
+  error?: string;
+}
+
+export interface ApproveRequest {
+  /** Spender principal */
+  spender: string;
+  /** Allowance in e8s */
+  amount: bigint;
+  /** Expiry as a ms timestamp (null = never expires) */
+  expiresAt: number | null;
+}
+
+export interface AllowanceActionResult {
+  success: boolean;
+  txIndex?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** IC host for agent connections */
+const IC_HOST = import.meta.env.VITE_IC_HOST || 'https://ic0.app';
+
+/**
+ * Check if we're in mock/development mode
+ */
+function isMockMode(): boolean {
+  return !DOM_TOKEN_CANISTER_ID;
+}
+
+const AccountIDL = IDL.Record({ owner: IDL.Principal, subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)) });
+const ApproveErrorIDL = IDL.Variant({
+  BadFee: IDL.Record({ expected_fee: IDL.Nat }),
+  InsufficientFunds: IDL.Record({ balance: IDL.Nat }),
+  AllowanceChanged: IDL.Record({ current_allowance: IDL.Nat }),
+  Expired: IDL.Record({ ledger_time: IDL.Nat64 }),
+  TooOld: IDL.Null,
+  CreatedInFuture: IDL.Record({ ledger_time: IDL.Nat64 }),
+  Duplicate: IDL.Record({ duplicate_of: IDL.Nat }),
+  TemporarilyUnavailable: IDL.Null,
+  GenericError: IDL.Record({ error_code: IDL.Nat, message: IDL.Text }),
+});
+
+/**
+ * Minimal IDL factory for ICRC-2 allowance query and approve.
+ */
+const icrc2Idl = IDL.Service({
+  icrc2_allowance: IDL.Func(
+    [IDL.Record({ account: AccountIDL, spender: AccountIDL })],
+    [IDL.Record({ allowance: IDL.Nat, expires_at: IDL.Opt(IDL.Nat64) })],
+    ['query'],
+  ),
+  icrc2_approve: IDL.Func(
+    [
+      IDL.Record({
+        from_subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)),
+        spender: AccountIDL,
+        amount: IDL.Nat,
+        expected_allowance: IDL.Opt(IDL.Nat),
+        expires_at: IDL.Opt(IDL.Nat64),
+        fee: IDL.Opt(IDL.Nat),
+        memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
+        created_at_time: IDL.Opt(IDL.Nat64),
+      }),
+    ],
+    [IDL.Variant({ Ok: IDL.Nat, Err: ApproveErrorIDL })],
+    [],
+  ),
+});
+
+/**
+ * Create structured log entry
+ */
+function log(level: 'info' | 'warn' | 'error', message: string, data?: Record<string, unknown>) {
+  if (!import.meta.env.VITE_ENABLE_LOGGING && level !== 'error') return;
+
+  const entry = {
+    timestamp: new Date().toISOString(),
+    service: 'AllowanceService',
+    level,
+    message,
+    ...data,
+  };
+
+  if (level === 'error') {
+    console.error(JSON.stringify(entry));
+  } else if (level === 'warn') {
+    console.warn(JSON.stringify(entry));
+  } else {
+    console.log(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Sleep for specified milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Execute with timeout
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
+    ),
+  ]);
+}
+
+/**
+ * DAO canisters that request approvals from members
+ */
+export function getDaoSpenders(): { principal: string; label: string }[] {
+  const spenders: { principal: string; label: string }[] = [];
+  if (TREASURY_CANISTER_ID) {
+    spenders.push({ principal: TREASURY_CANISTER_ID, label: 'Treasury (escrow funding)' });
+  }
+  if (GOVERNANCE_CANISTER_ID) {
+    spenders.push({ principal: GOVERNANCE_CANISTER_ID, label: 'Governance (staking)' });
+  }
+  return spenders;
+}
+
+// ============================================================================
+// Mock Implementation
+// ============================================================================
+
+/** Mock allowances keyed by `${owner}:${spender}` */
+const mockAllowances = new Map<string, TokenAllowance>();
+
+/**
+ * Mock allowance query for development
+ */
+async function mockGetAllowance(owner: string, spender: string): Promise<TokenAllowance> {
+  log('info', 'Mock allowance fetch', { owner, spender });
+
+  // Simulate network delay
+  await sleep(200);
+
+  return (
+    mockAllowances.get(`${owner}:${spender}`) ?? { spender, allowance: BigInt(0), expiresAt: null }
+  );
+}
+
+/**
+ * Mock approve for development
+ */
+async function mockApprove(owner: string, allowance: TokenAllowance): Promise<string> {
+  log('info', 'Mock approve', { owner, spender: allowance.spender });
+
+  // Simulate network delay
+  await sleep(800);
+
+  mockAllowances.set(`${owner}:${allowance.spender}`, allowance);
+  return String(Math.floor(Math.random() * 1_000_000));
+}
+
+// ============================================================================
+// Canister Integration
+// ============================================================================
+
+/**
+ * Query the allowance an account has granted to a spender
+ *
+ * @param owner - Account owner
+ * @param spender - Spender principal
+ * @returns Allowance (zero when none was granted)
+ */
+async function fetchAllowanceFromCanister(
+  owner: string,
+  spender: string
+): Promise<TokenAllowance> {
+  if (isMockMode()) {
+    return mockGetAllowance(owner, spender);
+  }
+
+  // Anonymous agent is safe — icrc2_allowance is a public query method
+  const agent = HttpAgent.createSync({ host: IC_HOST });
+  const actor = Actor.createActor(() => icrc2Idl, {
+    agent,
+    canisterId: DOM_TOKEN_CANISTER_ID,
+  });
+
+  const result = (await actor.icrc2_allowance({
+    account: { owner: Principal.fromText(owner), subaccount: [] },
+    spender: { owner: Principal.fromText(spender), subaccount: [] },
+  })) as { allowance: bigint; expires_at: [] | [bigint] };
+
+  return {
+    spender,
+    allowance: result.allowance,
+    expiresAt: result.expires_at[0] ?? null,
+  };
+}
+
+/**
+ * Set the allowance for a spender on dom-token canister.
+ * Requires an authenticated II delegation in sessionStorage.
+ *
+ * @param owner - Approving account (for mock bookkeeping)
+ * @param allowance - New allowance for the spender
+ * @param fee - Ledger fee to pay
+ * @returns Transaction index
+ */
+async function approveOnCanister(
+  owner: string,
+  allowance: TokenAllowance,
+  fee: bigint
+): Promise<string> {
+  if (isMockMode()) {
+    return mockApprove(owner, allowance);
+  }
+
+  const identity = getAuthenticatedIdentity();
+  if (!identity) {
+    throw new Error('Internet Identity not connected. Please log in with II to manage approvals.');
+  }
+
+  const agent = HttpAgent.createSync({ host: IC_HOST, identity });
+  const actor = Actor.createActor(() => icrc2Idl, {
+    agent,
+    canisterId: DOM_TOKEN_CANISTER_ID,
+  });
+
+  const result = (await actor.icrc2_approve({
+    from_subaccount: [],
+    spender: { owner: Principal.fromText(allowance.spender), subaccount: [] },
+    amount: allowance.allowance,
+    expected_allowance: [],
+    expires_at: allowance.expiresAt === null ? [] : [allowance.expiresAt],
+    fee: [fee],
+    memo: [],
+    created_at_time: [],
+  })) as Record<string, unknown>;
+
+  if ('Err' in result) {
+    // Format the ApproveError variant into a readable message
+    const err = result.Err as Record<string, unknown>;
+    const errKey = Object.keys(err)[0];
+    const errVal = err[errKey];
+    // Nat fields decode to bigint, which JSON.stringify cannot serialize
+    const json = JSON.stringify(errVal, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+    throw new Error(errVal === null ? errKey : `${errKey}: ${json}`);
+  }
+  return String(result.Ok);
+}
+
+// ============================================================================
+// Core Service Functions
+// ============================================================================
+
+/**
+ * Spenders whose allowances are checked: DAO canisters and tracked spenders
+ */
+export function getAllowanceSpenders(): AllowanceSpender[] {
+  return buildAllowanceSpenders(getDaoSpenders(), $trackedSpenders.get());
+}
+
+/**
+ * Fetch the allowance granted to every known spender
+ *
+ * @param principal - Account owner
+ * @returns Result with allowances or error
+ */
+export async function fetchAllowances(principal: string): Promise<FetchAllowancesResult> {
+  const spenders = getAllowanceSpenders();
+  log('info', 'Fetching allowances', { principal, spenderCount: spenders.length });
+
+  setAllowancesLoading(true);
+
+  try {
+    const allowances = await withTimeout(
+      Promise.all(spenders.map((s) => fetchAllowanceFromCanister(principal, s.principal))),
+      REQUEST_TIMEOUT_MS
+    );
+    setAllowances(principal, allowances);
+    return { success: true, allowances };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch approvals';
+    log('error', 'Allowance fetch failed', { error: errorMessage });
+    setAllowancesError(errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Submit an allowance change and update the store on success
+ */
+async function submitAllowance(
+  allowance: TokenAllowance,
+  event: 'allowance_approved' | 'allowance_revoked'
+): Promise<AllowanceActionResult> {
+  const { principal } = $tokenBalance.get();
+  if (!principal) {
+    const error = 'Internet Identity not connected. Please log in with II to manage approvals.';
+    setAllowanceActionError(error);
+    return { success: false, error };
+  }
+
+  setAllowanceActionPending(allowance.spender);
+
+  try {
+    const fee = $transferFee.get() ?? DEFAULT_TRANSFER_FEE;
+    const txIndex = await withTimeout(
+      approveOnCanister(principal, allowance, fee),
+      APPROVE_TIMEOUT_MS
+    );
+
+    upsertAllowance(allowance);
+    resetAllowanceAction();
+    // The approval fee is deducted from the balance
+    fetchTokenBalance(principal);
+
+    log('info', 'Allowance updated', { spender: allowance.spender, txIndex });
+    trackEvent(event, { spender: allowance.spender });
+    return { success: true, txIndex };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update approval';
+    log('error', 'Allowance update failed', { spender: allowance.spender, error: errorMessage });
+    setAllowanceActionError(errorMessage);
+    trackEvent('allowance_error', { error: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Approve a spender to transfer up to `amount` from the member's account
+ *
+ * @param request - Spender, amount and optional expiry
+ * @returns Result with success status and transaction index
+ */
+export async function approveAllowance(request: ApproveRequest): Promise<AllowanceActionResult> {
+  log('info', 'Approving allowance', {
+    spender: request.spender,
+    amount: request.amount.toString(),
+  });
+
+  const { balance, principal } = $tokenBalance.get();
+  const fee = $transferFee.get() ?? DEFAULT_TRANSFER_FEE;
+  const validationError =
+    validateAllowanceSpender(request.spender, principal) ??
+    validateAllowanceAmount(request.amount, balance, fee) ??
+    validateAllowanceExpiry(request.expiresAt);
+  if (validationError) {
+    log('warn', 'Approval validation failed', { error: validationError });
+    setAllowanceActionError(validationError);
+    return { success: false, error: validationError };
+  }
+
+  const spender = request.spender.trim();
+  const result = await submitAllowance(
+    {
+      spender,
+      allowance: request.amount,
+      expiresAt:
+        request.expiresAt === null ? null : BigInt(request.expiresAt) * BigInt(1_000_000),
+    },
+    'allowance_approved'
+  );
+
+  // Remember the spender so its allowance is checked on later visits
+  if (result.success && !getDaoSpenders().some((s) => s.principal === spender)) {
+    trackSpender(spender);
+  }
+  return result;
+}
+
+/**
+ * Revoke a spender's allowance by setting it to zero
+ *
+ * @param spender - Spender principal
+ * @returns Result with success status and transaction index
+ */
+export async function revokeAllowance(spender: string): Promise<AllowanceActionResult> {
+  log('info', 'Revoking allowance', { spender });
+
+  return submitAllowance({ spender, allowance: BigInt(0), expiresAt: null }, 'allowance_revoked');
+}
+
+// ============================================================================
+// React Hook
+// ============================================================================
+
+export interface UseAllowancesResult {
+  /** Allowance list state */
+  state: AllowancesState;
+  /** Non-zero allowances, largest first */
+  allowances: TokenAllowance[];
+  /** Spenders whose allowances are checked */
+  spenders: AllowanceSpender[];
+  /** Approve/revoke state */
+  actionState: AllowanceActionState;
+  /** Ledger fee per approval */
+  fee: bigint;
+  /** Approve a spender */
+  approve: (request: ApproveRequest) => Promise<AllowanceActionResult>;
+  /** Revoke a spender's allowance */
+  revoke: (spender: string) => Promise<AllowanceActionResult>;
+  /** Reload allowances */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the member's ICRC-2 approvals.
+ * Loads allowances and the ledger fee on mount and when the account changes.
+ *
+ * @param principal - Account owner (null when II is not linked)
+ * @returns Allowance state and actions
+ */
+export function useAllowances(principal: string | null): UseAllowancesResult {
+  const state = useStore($allowances);
+  const allowances = useStore($outstandingAllowances);
+  const actionState = useStore($allowanceAction);
+  const tracked = useStore($trackedSpenders);
+  const fee = useStore($transferFee) ?? DEFAULT_TRANSFER_FEE;
+
+  const spenders = useMemo(() => buildAllowanceSpenders(getDaoSpenders(), tracked), [tracked]);
+
+  useEffect(() => {
+    if (!principal) return;
+    trackEvent('allowances_viewed', {});
+    fetchAllowances(principal);
+    if ($transferFee.get() === null) {
+      fetchTransferFee();
+    }
+  }, [principal]);
+
+  const refresh = useCallback(async () => {
+    if (principal) {
+      await fetchAllowances(principal);
+    }
+  }, [principal]);
+
+  return {
+    state,
+    allowances,
+    spenders,
+    actionState,
+    fee,
+    approve: approveAllowance,
+    revoke: revokeAllowance,
+    refresh,
+  };
+}
+
+// ============================================================================
+// Export Service Object
+// ============================================================================
+
+export const AllowanceService = {
+  getSpenders: getAllowanceSpenders,
+  fetchAllowances,
+  approve: approveAllowance,
+  revoke: revokeAllowance,
+};
+
+export default AllowanceService;
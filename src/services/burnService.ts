@@ -8,21 +8,30 @@
  * ACs: 1, 4
  */
 
-import { useEffect, useCallback, useState, useRef } from 'react';
+import { useEffect, useCallback, useMemo, useState, useRef } from 'react';
 import { useStore } from '@nanostores/react';
 import { HttpAgent, Actor } from '@dfinity/agent';
+import { Principal } from '@dfinity/principal';
 import { IDL } from '@dfinity/candid';
-import { DelegationChain, DelegationIdentity, Ed25519KeyIdentity } from '@dfinity/identity';
 import {
   $burnPool,
   $burnExecution,
   $burnHistory,
+  $burnStats,
+  $burnHistorySeries,
+  $burnLeaderboard,
+  $percentSupplyBurned,
+  $userBurnRank,
   $tokenBalance,
+  $burnPledges,
   setBurnPoolLoading,
   setBurnPoolData,
   setBurnPoolError,
   clearBurnPool,
   isBurnPoolStale,
+  setBurnStatsLoading,
+  setBurnStatsData,
+  setBurnStatsError,
   setBurnPending,
   setBurnSuccess,
   setBurnExecutionError,
@@ -32,12 +41,40 @@ import {
   getPendingBurnRecord,
   validateBurnAmount,
   generateBurnId,
+  addBurnPledge,
+  pauseBurnPledge,
+  resumeBurnPledge,
+  cancelBurnPledge,
+  recordBurnPledgeFulfilled,
+  settleMissedBurnPledges,
+  isBurnPledgeDue,
+  generateBurnPledgeId,
+  createBurnPledgeMissedNotification,
+  formatTokenAmount,
+  TOKEN_DECIMALS,
+  BURN_PLEDGE_CADENCE_LABELS,
+  MAX_BURN_PLEDGES,
   BURN_POOL_STALE_THRESHOLD_MS,
+  BURN_STATS_HISTORY_DAYS,
+  BURN_LEADERBOARD_SIZE,
   type BurnState,
   type BurnExecutionState,
   type LocalBurnRecord,
+  type BurnDonor,
+  type BurnDonorProfile,
+  type BurnHistoryPoint,
+  type BurnLeaderboardEntry,
+  type BurnRank,
+  type BurnStats,
+  type BurnStatsState,
+  type BurnPledge,
+  type BurnPledgeCadence,
+  type MissedBurnPledge,
 } from '@/stores';
 import { trackEvent } from '../utils/analytics';
+import { getAuthenticatedIdentity } from '../utils/icIdentity';
+import { reconcileBurnsWithLedger } from './walletActivityService';
+import { fetchMemberProfile } from './memberService';
 
 // ============================================================================
 // Configuration
@@ -58,6 +95,15 @@ const MAX_BACKOFF_MS = 30000;
 /** Maximum retry attempts for queries */
 const MAX_RETRY_ATTEMPTS = 3;
 
+/** How often due pledges are re-evaluated while the pledge hook is mounted (1 minute) */
+const PLEDGE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/** Top burners checked for opted-in profiles (private donors are skipped) */
+const LEADERBOARD_CANDIDATES = BURN_LEADERBOARD_SIZE * 5;
+
+/** Profile lookups run in batches of this size */
+const PROFILE_BATCH_SIZE = BURN_LEADERBOARD_SIZE;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -74,6 +120,25 @@ export interface ExecuteBurnResult {
   error?: string;
 }
 
+export interface FetchBurnStatsResult {
+  success: boolean;
+  stats?: BurnStats;
+  error?: string;
+}
+
+export interface CreateBurnPledgeParams {
+  /** Tokens pledged per period (in e8s) */
+  amount: bigint;
+  /** How often the pledge comes due */
+  cadence: BurnPledgeCadence;
+}
+
+export interface CreateBurnPledgeResult {
+  success: boolean;
+  pledge?: BurnPledge;
+  error?: string;
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -96,6 +161,23 @@ const TransferErrorIDL = IDL.Variant({
 });
 const domTokenIdl = IDL.Service({
   total_burned: IDL.Func([], [IDL.Nat], ['query']),
+  icrc1_total_supply: IDL.Func([], [IDL.Nat], ['query']),
+  // Cumulative total burned at the end of each of the last `days` days
+  burn_totals_history: IDL.Func(
+    [IDL.Nat32],
+    [IDL.Vec(IDL.Record({ timestamp: IDL.Nat64, total_burned: IDL.Nat }))],
+    ['query'],
+  ),
+  top_burners: IDL.Func(
+    [IDL.Nat32],
+    [IDL.Vec(IDL.Record({ account: IDL.Principal, total_burned: IDL.Nat, burn_count: IDL.Nat32 }))],
+    ['query'],
+  ),
+  burner_rank: IDL.Func(
+    [IDL.Principal],
+    [IDL.Opt(IDL.Record({ rank: IDL.Nat32, total_burned: IDL.Nat, burner_count: IDL.Nat32 }))],
+    ['query'],
+  ),
   icrc1_burn: IDL.Func(
     [IDL.Nat],
     [IDL.Variant({ Ok: IDL.Nat, Err: TransferErrorIDL })],
@@ -103,27 +185,6 @@ const domTokenIdl = IDL.Service({
   ),
 });
 
-/** sessionStorage keys written by useIILogin in @hello-world-co-op/auth */
-const II_DELEGATION_CHAIN_KEY = 'ii_delegation_chain';
-const II_SESSION_KEY_KEY = 'ii_session_key';
-
-/**
- * Reconstruct an authenticated DelegationIdentity from sessionStorage.
- * Returns null if II delegation is not available.
- */
-function getAuthenticatedIdentity(): DelegationIdentity | null {
-  const chainJson = sessionStorage.getItem(II_DELEGATION_CHAIN_KEY);
-  const keyJson = sessionStorage.getItem(II_SESSION_KEY_KEY);
-  if (!chainJson || !keyJson) return null;
-  try {
-    const chain = DelegationChain.fromJSON(chainJson);
-    const key = Ed25519KeyIdentity.fromJSON(keyJson);
-    return DelegationIdentity.fromDelegation(key, chain);
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Check if we're in mock/development mode
  */
@@ -202,6 +263,15 @@ let mockTotalBurned = BigInt(0); // Start at 0 until canister integration
 /** Mock transaction counter */
 let mockTxCounter = 1000;
 
+/** Mock cumulative burn totals (one point per mock burn) */
+const mockBurnTotals: BurnHistoryPoint[] = [];
+
+/** Mock totals burned per account */
+const mockBurners = new Map<string, { totalBurned: bigint; burnCount: number }>();
+
+/** Mock circulating supply (1M DOM) */
+const MOCK_TOTAL_SUPPLY = BigInt(100_000_000_000_000);
+
 /**
  * Mock total burned fetch for development
  */
@@ -226,10 +296,46 @@ async function mockExecuteBurn(amount: bigint): Promise<string> {
   // Update mock total
   mockTotalBurned += amount;
   mockTxCounter++;
+  mockBurnTotals.push({ timestamp: Date.now(), totalBurned: mockTotalBurned });
+
+  const { principal } = $tokenBalance.get();
+  if (principal) {
+    const current = mockBurners.get(principal) ?? { totalBurned: BigInt(0), burnCount: 0 };
+    mockBurners.set(principal, {
+      totalBurned: current.totalBurned + amount,
+      burnCount: current.burnCount + 1,
+    });
+  }
 
   return mockTxCounter.toString();
 }
 
+/**
+ * Mock burn statistics fetch for development
+ */
+async function mockGetBurnStats(
+  principal: string | null
+): Promise<Omit<BurnStats, 'donorProfiles'>> {
+  log('info', 'Mock burn stats fetch');
+  await sleep(500);
+
+  const donors: BurnDonor[] = Array.from(mockBurners.entries())
+    .sort(([, a], [, b]) =>
+      b.totalBurned > a.totalBurned ? 1 : b.totalBurned < a.totalBurned ? -1 : 0
+    )
+    .map(([account, totals], i) => ({ rank: i + 1, principal: account, ...totals }));
+  const own = principal ? donors.find((d) => d.principal === principal) : undefined;
+
+  return {
+    history: [...mockBurnTotals],
+    donors,
+    totalSupply: MOCK_TOTAL_SUPPLY - mockTotalBurned,
+    userRank: own
+      ? { rank: own.rank, totalBurned: own.totalBurned, donorCount: donors.length }
+      : null,
+  };
+}
+
 // ============================================================================
 // Canister Integration
 // ============================================================================
@@ -250,6 +356,91 @@ async function fetchTotalBurnedFromCanister(): Promise<bigint> {
   return (await actor.total_burned()) as bigint;
 }
 
+/**
+ * Fetch burn history, top burners, supply and the member's rank from
+ * dom-token canister
+ *
+ * @param principal - Member to rank (null to skip)
+ */
+async function fetchBurnStatsFromCanister(
+  principal: string | null
+): Promise<Omit<BurnStats, 'donorProfiles'>> {
+  if (isMockMode()) {
+    return mockGetBurnStats(principal);
+  }
+
+  // Anonymous agent is safe — these are public query methods
+  const agent = HttpAgent.createSync({ host: IC_HOST });
+  const actor = Actor.createActor(() => domTokenIdl, {
+    agent,
+    canisterId: DOM_TOKEN_CANISTER_ID,
+  });
+
+  const [history, burners, totalSupply, rank] = await Promise.all([
+    actor.burn_totals_history(BURN_STATS_HISTORY_DAYS) as Promise<
+      { timestamp: bigint; total_burned: bigint }[]
+    >,
+    actor.top_burners(LEADERBOARD_CANDIDATES) as Promise<
+      { account: Principal; total_burned: bigint; burn_count: number }[]
+    >,
+    actor.icrc1_total_supply() as Promise<bigint>,
+    principal
+      ? (actor.burner_rank(Principal.fromText(principal)) as Promise<
+          [] | [{ rank: number; total_burned: bigint; burner_count: number }]
+        >)
+      : Promise.resolve([] as []),
+  ]);
+
+  const own = rank[0];
+  return {
+    history: history.map((point) => ({
+      timestamp: Number(point.timestamp / BigInt(1_000_000)),
+      totalBurned: point.total_burned,
+    })),
+    donors: burners.map((burner, i) => ({
+      rank: i + 1,
+      principal: burner.account.toText(),
+      totalBurned: burner.total_burned,
+      burnCount: burner.burn_count,
+    })),
+    totalSupply,
+    userRank: own
+      ? { rank: own.rank, totalBurned: own.total_burned, donorCount: own.burner_count }
+      : null,
+  };
+}
+
+/**
+ * Look up the profiles of donors who can be listed. The member profile
+ * endpoint only returns members whose Visibility setting lets other members
+ * see them, so private donors drop out here.
+ *
+ * @param donors - Ranked donors, highest first
+ * @returns Profiles by principal, up to the leaderboard size
+ */
+async function fetchVisibleDonorProfiles(
+  donors: BurnDonor[]
+): Promise<Record<string, BurnDonorProfile>> {
+  const profiles: Record<string, BurnDonorProfile> = {};
+  let found = 0;
+
+  for (let i = 0; i < donors.length && found < BURN_LEADERBOARD_SIZE; i += PROFILE_BATCH_SIZE) {
+    const batch = donors.slice(i, i + PROFILE_BATCH_SIZE);
+    const results = await Promise.all(batch.map((d) => fetchMemberProfile(d.principal)));
+    results.forEach((result, j) => {
+      if (result.success && result.member && found < BURN_LEADERBOARD_SIZE) {
+        profiles[batch[j].principal] = {
+          displayName: result.member.displayName,
+          avatar: result.member.avatar,
+        };
+        found++;
+      }
+    });
+  }
+
+  return profiles;
+}
+
 /**
  * Execute burn on dom-token canister.
  * Requires an authenticated II delegation in sessionStorage.
@@ -341,10 +532,11 @@ export async function fetchBurnPoolData(): Promise<FetchBurnPoolResult> {
  * Execute a token burn
  *
  * @param amount - Amount to burn in e8s
+ * @param pledgeId - Burn pledge the burn fulfills, if any
  * @returns Result with success status and transaction index
  */
-export async function executeBurn(amount: bigint): Promise<ExecuteBurnResult> {
-  log('info', 'Executing burn', { amount: amount.toString() });
+export async function executeBurn(amount: bigint, pledgeId?: string): Promise<ExecuteBurnResult> {
+  log('info', 'Executing burn', { amount: amount.toString(), pledgeId });
 
   // Validate amount
   const balance = $tokenBalance.get().balance;
@@ -374,6 +566,8 @@ export async function executeBurn(amount: bigint): Promise<ExecuteBurnResult> {
     amount,
     timestamp: Date.now(),
     status: 'pending',
+    principal: $tokenBalance.get().principal ?? undefined,
+    pledgeId,
   };
   addBurnRecord(record);
 
@@ -385,6 +579,9 @@ export async function executeBurn(amount: bigint): Promise<ExecuteBurnResult> {
 
     // Update record with tx index and confirm
     updateBurnRecordStatus(burnId, 'confirmed', txIndex);
+    if (pledgeId) {
+      recordBurnPledgeFulfilled(pledgeId, txIndex);
+    }
     setBurnSuccess(txIndex);
 
     // Refresh burn pool total
@@ -424,6 +621,131 @@ export async function executeBurn(amount: bigint): Promise<ExecuteBurnResult> {
   }
 }
 
+/**
+ * Fetch burn impact statistics: history of total burned, the leaderboard of
+ * opted-in donors, circulating supply and the member's rank
+ *
+ * @param principal - Member to rank (null when II is not linked)
+ */
+export async function fetchBurnStats(principal: string | null): Promise<FetchBurnStatsResult> {
+  log('info', 'Fetching burn stats', { principal });
+
+  setBurnStatsLoading(true);
+
+  try {
+    const stats = await withTimeout(fetchBurnStatsFromCanister(principal), REQUEST_TIMEOUT_MS);
+    const donorProfiles = await fetchVisibleDonorProfiles(stats.donors);
+    const result: BurnStats = { ...stats, donorProfiles };
+
+    setBurnStatsData(result);
+    log('info', 'Burn stats fetched successfully', {
+      historyPoints: stats.history.length,
+      donors: stats.donors.length,
+      listed: Object.keys(donorProfiles).length,
+    });
+
+    return { success: true, stats: result };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch burn stats';
+    log('error', 'Burn stats fetch failed', { error: errorMessage });
+    setBurnStatsError(errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create a recurring burn pledge for the current account.
+ * The first period is due immediately; each pledged amount must be a valid
+ * burn for the current balance.
+ */
+export function createBurnPledge({
+  amount,
+  cadence,
+}: CreateBurnPledgeParams): CreateBurnPledgeResult {
+  const { principal, balance } = $tokenBalance.get();
+  if (!principal) {
+    return { success: false, error: 'Connect your wallet to create a pledge' };
+  }
+
+  const validationError = validateBurnAmount(amount, balance);
+  if (validationError) {
+    log('warn', 'Burn pledge validation failed', { error: validationError });
+    return { success: false, error: validationError };
+  }
+
+  const openPledges = $burnPledges
+    .get()
+    .filter((p) => p.principal === principal && p.status !== 'cancelled');
+  if (openPledges.length >= MAX_BURN_PLEDGES) {
+    return { success: false, error: `You can have at most ${MAX_BURN_PLEDGES} pledges` };
+  }
+
+  const now = Date.now();
+  const pledge: BurnPledge = {
+    id: generateBurnPledgeId(),
+    principal,
+    amount,
+    cadence,
+    status: 'active',
+    startsAt: now,
+    periodIndex: 0,
+    createdAt: now,
+    periods: [],
+  };
+  addBurnPledge(pledge);
+
+  log('info', 'Burn pledge created', { id: pledge.id, cadence });
+  trackEvent('burn_pledge_created', {
+    cadence,
+    amount_bucket: getAmountBucket(amount),
+  });
+
+  return { success: true, pledge };
+}
+
+/**
+ * Burn the pledged amount for a pledge's due period
+ * @param id - Pledge ID
+ */
+export async function fulfillBurnPledge(id: string): Promise<ExecuteBurnResult> {
+  const pledge = $burnPledges.get().find((p) => p.id === id);
+  if (!pledge || !isBurnPledgeDue(pledge)) {
+    return { success: false, error: 'This pledge is not due' };
+  }
+
+  const result = await executeBurn(pledge.amount, pledge.id);
+  if (result.success) {
+    trackEvent('burn_pledge_fulfilled', { cadence: pledge.cadence });
+  }
+  return result;
+}
+
+/**
+ * Record the signed-in member's pledge periods whose grace period passed
+ * without a burn as missed, and notify them about each pledge they missed
+ * @param principal - Account whose pledges to check (defaults to the connected wallet)
+ */
+export function checkMissedBurnPledges(
+  principal: string | null = $tokenBalance.get().principal
+): MissedBurnPledge[] {
+  if (!principal) return [];
+
+  const missed = settleMissedBurnPledges(principal);
+
+  for (const { pledge, missedCount } of missed) {
+    log('warn', 'Burn pledge missed', { id: pledge.id, missedCount });
+    trackEvent('burn_pledge_missed', { cadence: pledge.cadence, missed_count: missedCount });
+    createBurnPledgeMissedNotification(
+      pledge.id,
+      BURN_PLEDGE_CADENCE_LABELS[pledge.cadence],
+      formatTokenAmount(pledge.amount, TOKEN_DECIMALS),
+      missedCount
+    );
+  }
+
+  return missed;
+}
+
 /**
  * Refresh burn pool data (for manual refresh)
  */
@@ -496,6 +818,7 @@ export function useBurnDonation(options: UseBurnDonationOptions = {}): UseBurnDo
   const poolState = useStore($burnPool);
   const executionState = useStore($burnExecution);
   const burnHistory = useStore($burnHistory);
+  const { principal } = useStore($tokenBalance);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const hasFetchedRef = useRef(false);
 
@@ -515,6 +838,13 @@ export function useBurnDonation(options: UseBurnDonationOptions = {}): UseBurnDo
     }
   }, [autoFetch, refetchIfStale]);
 
+  // Settle local burn records against the ledger once the account is known
+  useEffect(() => {
+    if (autoFetch && principal) {
+      reconcileBurnsWithLedger(principal);
+    }
+  }, [autoFetch, principal]);
+
   // Execute burn callback
   const handleExecuteBurn = useCallback(async (amount: bigint) => {
     return executeBurn(amount);
@@ -554,14 +884,128 @@ export function useBurnDonation(options: UseBurnDonationOptions = {}): UseBurnDo
   };
 }
 
+export interface UseBurnStatsResult {
+  /** Burn statistics state */
+  state: BurnStatsState;
+  /** Total burned over time */
+  history: BurnHistoryPoint[];
+  /** Opted-in top donors */
+  leaderboard: BurnLeaderboardEntry[];
+  /** Share of all minted DOM that has been burned (0-100) */
+  percentSupplyBurned: number | null;
+  /** The member's rank (null if they have not burned) */
+  userRank: BurnRank | null;
+  /** Reload statistics */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for burn impact statistics.
+ * Loads statistics on mount, when the account changes and after each
+ * successful burn.
+ *
+ * @param principal - Member to rank (null when II is not linked)
+ */
+export function useBurnStats(principal: string | null): UseBurnStatsResult {
+  const state = useStore($burnStats);
+  const history = useStore($burnHistorySeries);
+  const leaderboard = useStore($burnLeaderboard);
+  const percentSupplyBurned = useStore($percentSupplyBurned);
+  const userRank = useStore($userBurnRank);
+  const { lastTxIndex } = useStore($burnExecution);
+
+  useEffect(() => {
+    fetchBurnStats(principal);
+  }, [principal, lastTxIndex]);
+
+  const refresh = useCallback(async () => {
+    await fetchBurnStats(principal);
+  }, [principal]);
+
+  return { state, history, leaderboard, percentSupplyBurned, userRank, refresh };
+}
+
+export interface UseBurnPledgesResult {
+  /** The account's pledges, newest first */
+  pledges: BurnPledge[];
+  /** Active pledges whose current period awaits a burn */
+  duePledges: BurnPledge[];
+  /** Create a pledge */
+  create: (params: CreateBurnPledgeParams) => CreateBurnPledgeResult;
+  /** Burn the pledged amount for a due pledge */
+  fulfill: (id: string) => Promise<ExecuteBurnResult>;
+  /** Pause a pledge */
+  pause: (id: string) => void;
+  /** Resume a paused pledge */
+  resume: (id: string) => void;
+  /** Cancel a pledge */
+  cancel: (id: string) => void;
+}
+
+/**
+ * React hook for recurring burn pledges.
+ * Settles missed periods on mount and re-checks due dates every minute.
+ *
+ * @param principal - Account whose pledges to show
+ */
+export function useBurnPledges(principal: string | null): UseBurnPledgesResult {
+  const allPledges = useStore($burnPledges);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const check = () => {
+      checkMissedBurnPledges(principal);
+      setNow(Date.now());
+    };
+    check();
+    const interval = setInterval(check, PLEDGE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [principal]);
+
+  const pledges = useMemo(
+    () => allPledges.filter((p) => p.principal === principal),
+    [allPledges, principal]
+  );
+  const duePledges = useMemo(() => pledges.filter((p) => isBurnPledgeDue(p, now)), [pledges, now]);
+
+  const pause = useCallback((id: string) => {
+    pauseBurnPledge(id);
+    trackEvent('burn_pledge_paused', {});
+  }, []);
+
+  const resume = useCallback((id: string) => {
+    resumeBurnPledge(id);
+    trackEvent('burn_pledge_resumed', {});
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    cancelBurnPledge(id);
+    trackEvent('burn_pledge_cancelled', {});
+  }, []);
+
+  return {
+    pledges,
+    duePledges,
+    create: createBurnPledge,
+    fulfill: fulfillBurnPledge,
+    pause,
+    resume,
+    cancel,
+  };
+}
+
 // ============================================================================
 // Export Service Object
 // ============================================================================
 
 export const BurnService = {
   fetchPoolData: fetchBurnPoolData,
+  fetchStats: fetchBurnStats,
   refreshPoolData: refreshBurnPoolData,
   executeBurn,
+  createPledge: createBurnPledge,
+  fulfillPledge: fulfillBurnPledge,
+  checkMissedPledges: checkMissedBurnPledges,
   getPoolState: getBurnPoolState,
   getExecutionState: getBurnExecutionState,
   clear: clearBurnData,
@@ -0,0 +1,250 @@
+/**
+ * Comment Service
+ *
+ * Service for threaded proposal discussion via oracle-bridge.
+ * All calls use cookie-based auth (credentials: 'include').
+ *
+ * Mentions are written inline as `@[Display Name](principal)` and sent
+ * alongside the body so oracle-bridge can fan them out to the mentioned
+ * members' `mentions` notification category.
+ */
+
+import { getOracleBridgeUrl } from '@/utils/oracleBridge';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProposalComment {
+  id: string;
+  proposal_id: string;
+  parent_id: string | null;
+  author_principal: string;
+  author_name: string;
+  body: string; // Markdown; empty when deleted
+  mentions: string[]; // Principals mentioned in the body
+  created_at: string; // ISO string (UTC)
+  updated_at: string; // ISO string (UTC)
+  edited: boolean;
+  deleted: boolean;
+}
+
+export interface CommentsListResponse {
+  comments: ProposalComment[];
+  total: number;
+}
+
+export interface MentionItem {
+  comment_id: string;
+  proposal_id: string;
+  proposal_title: string;
+  author_name: string;
+  created_at: string; // ISO string (UTC)
+}
+
+export interface MentionsListResponse {
+  mentions: MentionItem[];
+}
+
+// ============================================================================
+// Error Class
+// ============================================================================
+
+export class CommentApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body?: unknown
+  ) {
+    super(message);
+    this.name = 'CommentApiError';
+  }
+}
+
+// ============================================================================
+// Mentions
+// ============================================================================
+
+/** Matches `@[Display Name](principal)` */
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([a-z0-9-]+)\)/g;
+
+/**
+ * Extract the unique principals mentioned in a comment body.
+ */
+export function extractMentions(body: string): string[] {
+  const principals = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    principals.add(match[2]);
+  }
+  return [...principals];
+}
+
+/**
+ * Rewrite mention tokens as markdown links to member profiles so they
+ * render through the regular markdown pipeline.
+ */
+export function renderMentions(body: string): string {
+  return body.replace(MENTION_PATTERN, (_, name: string, principal: string) => {
+    return `[@${name}](/members/${principal})`;
+  });
+}
+
+/**
+ * Build the mention token inserted by the composer.
+ */
+export function formatMention(displayName: string, principal: string): string {
+  return `@[${displayName.replace(/[[\]]/g, '')}](${principal})`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function throwApiError(response: Response, fallback: string): Promise<never> {
+  let errorBody: unknown;
+  try {
+    errorBody = await response.json();
+  } catch {
+    errorBody = undefined;
+  }
+  const message =
+    errorBody && typeof errorBody === 'object' && 'error' in errorBody
+      ? String((errorBody as Record<string, unknown>).error)
+      : `${fallback}: ${response.status}`;
+  throw new CommentApiError(message, response.status, errorBody);
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Fetch all comments for a proposal, oldest first.
+ * Deleted comments are returned as tombstones so replies stay threaded.
+ *
+ * @param proposalId - Proposal ID
+ * @throws CommentApiError on non-2xx response
+ */
+export async function listComments(proposalId: string): Promise<CommentsListResponse> {
+  const baseUrl = getOracleBridgeUrl();
+
+  const response = await fetch(
+    `${baseUrl}/api/proposals/${encodeURIComponent(proposalId)}/comments`,
+    { credentials: 'include' }
+  );
+
+  if (!response.ok) {
+    await throwApiError(response, 'Failed to fetch comments');
+  }
+
+  return response.json();
+}
+
+/**
+ * Post a comment or a reply.
+ *
+ * @param proposalId - Proposal ID
+ * @param body - Markdown body, may contain mention tokens
+ * @param parentId - Comment being replied to (omit for a top-level comment)
+ * @throws CommentApiError on non-2xx response
+ */
+export async function createComment(
+  proposalId: string,
+  body: string,
+  parentId?: string
+): Promise<ProposalComment> {
+  const baseUrl = getOracleBridgeUrl();
+
+  const response = await fetch(
+    `${baseUrl}/api/proposals/${encodeURIComponent(proposalId)}/comments`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        body,
+        parent_id: parentId ?? null,
+        mentions: extractMentions(body),
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    await throwApiError(response, 'Failed to post comment');
+  }
+
+  return response.json();
+}
+
+/**
+ * Edit a comment. Only the author may edit.
+ * Newly added mentions are notified; existing ones are not re-sent.
+ *
+ * @param commentId - Comment ID
+ * @param body - Updated markdown body
+ * @throws CommentApiError on non-2xx response (403 if not the author)
+ */
+export async function updateComment(commentId: string, body: string): Promise<ProposalComment> {
+  const baseUrl = getOracleBridgeUrl();
+
+  const response = await fetch(`${baseUrl}/api/comments/${encodeURIComponent(commentId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ body, mentions: extractMentions(body) }),
+  });
+
+  if (!response.ok) {
+    await throwApiError(response, 'Failed to edit comment');
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a comment. Only the author may delete.
+ *
+ * @param commentId - Comment ID
+ * @throws CommentApiError on non-2xx response (404 if already deleted)
+ */
+export async function deleteComment(commentId: string): Promise<void> {
+  const baseUrl = getOracleBridgeUrl();
+
+  const response = await fetch(`${baseUrl}/api/comments/${encodeURIComponent(commentId)}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  if (response.status === 204) {
+    return;
+  }
+
+  if (!response.ok) {
+    await throwApiError(response, 'Failed to delete comment');
+  }
+}
+
+/**
+ * Fetch mentions of the current member.
+ * oracle-bridge only returns mentions while the member's canister
+ * `mentions` notification category is enabled.
+ *
+ * @param since - ISO date string; only mentions after this time are returned
+ * @throws CommentApiError on non-2xx response
+ */
+export async function listMentions(since?: string): Promise<MentionsListResponse> {
+  const baseUrl = getOracleBridgeUrl();
+  const params = new URLSearchParams();
+  if (since) params.set('since', since);
+  const query = params.toString();
+
+  const response = await fetch(`${baseUrl}/api/me/mentions${query ? `?${query}` : ''}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    await throwApiError(response, 'Failed to fetch mentions');
+  }
+
+  return response.json();
+}
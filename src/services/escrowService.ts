@@ -4,33 +4,64 @@
  * Service for querying escrow data from the treasury canister.
  * Provides hooks for React component integration.
  *
+ * Milestone disputes (open, respond, resolve), release authority
+ * actions (approve milestone, release funds) and funding a passed proposal
+ * are signed calls made with the member's Internet Identity.
+ *
  * Story: 9-2-4-escrow-view
  * ACs: 1, 2, 3
  */
 
 import { useEffect, useCallback, useState, useRef } from 'react';
 import { useStore } from '@nanostores/react';
-import { HttpAgent, Actor } from '@dfinity/agent';
+import { HttpAgent, Actor, type Identity } from '@dfinity/agent';
 import { IDL } from '@dfinity/candid';
+import { Principal } from '@dfinity/principal';
 import {
   $escrow,
   $selectedEscrow,
   $escrowStatusFilter,
   $filteredEscrows,
   $escrowStatusCounts,
+  $escrowDisputes,
+  $escrowViewTab,
+  $tabEscrows,
+  $proposalEscrows,
   setEscrowLoading,
   setUserEscrows,
+  applyOptimisticReleaseAction,
+  settleReleaseAction,
+  rollbackReleaseAction,
+  canActAsReleaseAuthority,
+  setProposalEscrows,
+  addProposalEscrow,
+  getProposalEscrowExpiry,
+  validateProposalEscrowDraft,
   setEscrowError,
   clearEscrow,
   setSelectedEscrow,
   setEscrowStatusFilter,
+  setEscrowViewTab,
   isEscrowStale,
+  getDisputeKey,
+  setMilestoneDispute,
+  updateEscrowMilestone,
+  detectDisputeChanges,
+  createEscrowDisputeNotification,
   ESCROW_STALE_THRESHOLD_MS,
+  DISPUTE_OUTCOME_STATUS,
   type Escrow,
   type Milestone,
   type EscrowState,
   type EscrowStatusFilter,
+  type EscrowViewTab,
+  type EscrowReleaseAction,
+  type DisputeEvent,
+  type DisputeOutcome,
+  type MilestoneDispute,
+  type ProposalEscrowDraft,
 } from '@/stores';
+import { getAuthenticatedIdentity } from '../utils/icIdentity';
 import { trackEvent } from '../utils/analytics';
 
 // ============================================================================
@@ -59,9 +90,22 @@ const MAX_RETRY_ATTEMPTS = 3;
 export interface FetchEscrowsResult {
   success: boolean;
   escrows?: Escrow[];
+  controlledEscrows?: Escrow[];
   error?: string;
 }
 
+export interface ReleaseActionResult {
+  success: boolean;
+  escrow?: Escrow;
+  error?: string;
+}
+
+/** Recipient and release-authority views of the escrow list */
+interface UserEscrowLists {
+  escrows: Escrow[];
+  controlledEscrows: Escrow[];
+}
+
 export interface FetchEscrowDetailsResult {
   success: boolean;
   escrow?: Escrow;
@@ -74,6 +118,31 @@ export interface FetchMilestonesResult {
   error?: string;
 }
 
+export interface FetchDisputeResult {
+  success: boolean;
+  /** null when the milestone has never been disputed */
+  dispute?: MilestoneDispute | null;
+  error?: string;
+}
+
+export interface FetchProposalEscrowsResult {
+  success: boolean;
+  escrows?: Escrow[];
+  error?: string;
+}
+
+export interface CreateEscrowResult {
+  success: boolean;
+  escrow?: Escrow;
+  error?: string;
+}
+
+export interface DisputeActionResult {
+  success: boolean;
+  dispute?: MilestoneDispute;
+  error?: string;
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -126,7 +195,47 @@ const EscrowIDL = IDL.Record({
   created_at: IDL.Nat64,
   expiry: IDL.Nat64,
   milestones: IDL.Vec(MilestoneIDL),
+  proposal_id: IDL.Opt(IDL.Text),
+});
+const CreateEscrowArgsIDL = IDL.Record({
+  recipient: IDL.Principal,
+  amount: IDL.Nat,
+  token_type: TokenTypeIDL,
+  conditions: IDL.Text,
+  release_authority: ReleaseAuthorityIDL,
+  expiry: IDL.Nat64,
+  milestones: IDL.Vec(
+    IDL.Record({
+      name: IDL.Text,
+      description: IDL.Text,
+      amount: IDL.Nat,
+      deadline: IDL.Nat64,
+    })
+  ),
+  proposal_id: IDL.Opt(IDL.Text),
 });
+const DisputeStatusIDL = IDL.Variant({ Open: IDL.Null, Resolved: IDL.Null });
+const DisputeOutcomeIDL = IDL.Variant({ Approve: IDL.Null, Cancel: IDL.Null, Reopen: IDL.Null });
+const DisputeEventIDL = IDL.Record({
+  kind: IDL.Variant({ Opened: IDL.Null, Response: IDL.Null, Resolved: IDL.Null }),
+  author: IDL.Principal,
+  message: IDL.Text,
+  links: IDL.Vec(IDL.Text),
+  created_at: IDL.Nat64,
+  outcome: IDL.Opt(DisputeOutcomeIDL),
+});
+const DisputeIDL = IDL.Record({
+  escrow_id: IDL.Nat64,
+  milestone_index: IDL.Nat32,
+  status: DisputeStatusIDL,
+  opened_by: IDL.Principal,
+  opened_at: IDL.Nat64,
+  events: IDL.Vec(DisputeEventIDL),
+  outcome: IDL.Opt(DisputeOutcomeIDL),
+  resolved_at: IDL.Opt(IDL.Nat64),
+});
+const DisputeResultIDL = IDL.Variant({ Ok: DisputeIDL, Err: IDL.Text });
+const EscrowResultIDL = IDL.Variant({ Ok: EscrowIDL, Err: IDL.Text });
 const escrowIdl = IDL.Service({
   list_escrows: IDL.Func(
     [IDL.Opt(EscrowStatusIDL)],
@@ -143,6 +252,35 @@ const escrowIdl = IDL.Service({
     [IDL.Variant({ Ok: IDL.Vec(MilestoneIDL), Err: IDL.Text })],
     ['query'],
   ),
+  list_proposal_escrows: IDL.Func(
+    [IDL.Text],
+    [IDL.Vec(EscrowIDL)],
+    ['query'],
+  ),
+  get_milestone_dispute: IDL.Func(
+    [IDL.Nat64, IDL.Nat32],
+    [IDL.Opt(DisputeIDL)],
+    ['query'],
+  ),
+  open_milestone_dispute: IDL.Func(
+    [IDL.Nat64, IDL.Nat32, IDL.Text, IDL.Vec(IDL.Text)],
+    [DisputeResultIDL],
+    [],
+  ),
+  respond_to_dispute: IDL.Func(
+    [IDL.Nat64, IDL.Nat32, IDL.Text, IDL.Vec(IDL.Text)],
+    [DisputeResultIDL],
+    [],
+  ),
+  resolve_milestone_dispute: IDL.Func(
+    [IDL.Nat64, IDL.Nat32, DisputeOutcomeIDL, IDL.Text],
+    [DisputeResultIDL],
+    [],
+  ),
+  approve_milestone: IDL.Func([IDL.Nat64, IDL.Nat32], [EscrowResultIDL], []),
+  release_milestone: IDL.Func([IDL.Nat64, IDL.Nat32], [EscrowResultIDL], []),
+  release_escrow: IDL.Func([IDL.Nat64], [EscrowResultIDL], []),
+  create_escrow: IDL.Func([CreateEscrowArgsIDL], [EscrowResultIDL], []),
 });
 
 /**
@@ -198,9 +336,48 @@ function mapEscrow(e: Record<string, unknown>): Escrow {
     created_at: e.created_at as bigint,
     expiry: e.expiry as bigint,
     milestones: (e.milestones as Record<string, unknown>[]).map(mapMilestone),
+    proposal_id: ((e.proposal_id as string[] | undefined) ?? [])[0],
+  };
+}
+
+/**
+ * Map a Candid dispute record to the store MilestoneDispute type
+ */
+function mapDispute(d: Record<string, unknown>): MilestoneDispute {
+  const outcome = (d.outcome as Record<string, unknown>[])[0];
+  return {
+    escrow_id: d.escrow_id as bigint,
+    milestone_index: d.milestone_index as number,
+    status: extractVariant(d.status as Record<string, unknown>) as MilestoneDispute['status'],
+    opened_by: (d.opened_by as { toText(): string }).toText(),
+    opened_at: d.opened_at as bigint,
+    events: (d.events as Record<string, unknown>[]).map((e): DisputeEvent => {
+      const eventOutcome = (e.outcome as Record<string, unknown>[])[0];
+      return {
+        kind: extractVariant(e.kind as Record<string, unknown>) as DisputeEvent['kind'],
+        author: (e.author as { toText(): string }).toText(),
+        message: e.message as string,
+        links: e.links as string[],
+        created_at: e.created_at as bigint,
+        outcome: eventOutcome ? (extractVariant(eventOutcome) as DisputeOutcome) : undefined,
+      };
+    }),
+    outcome: outcome ? (extractVariant(outcome) as DisputeOutcome) : undefined,
+    resolved_at: (d.resolved_at as bigint[])[0],
   };
 }
 
+/**
+ * Create a treasury actor, signed when an identity is given
+ */
+function createEscrowActor(identity?: Identity) {
+  const agent = HttpAgent.createSync({ host: IC_HOST, identity });
+  return Actor.createActor(() => escrowIdl, {
+    agent,
+    canisterId: TREASURY_CANISTER_ID,
+  });
+}
+
 /**
  * Check if we're in mock/development mode
  */
@@ -246,6 +423,9 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/** Error message of a request that ran past its timeout */
+const REQUEST_TIMEOUT_ERROR = 'Request timeout';
+
 /**
  * Execute with timeout
  */
@@ -253,7 +433,7 @@ async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T
   return Promise.race([
     promise,
     new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
+      setTimeout(() => reject(new Error(REQUEST_TIMEOUT_ERROR)), timeoutMs)
     ),
   ]);
 }
@@ -268,15 +448,18 @@ const mockEscrows: Escrow[] = [];
 /**
  * Mock list escrows fetch for development
  */
-async function mockListEscrows(userPrincipal: string): Promise<Escrow[]> {
+async function mockListEscrows(userPrincipal: string): Promise<UserEscrowLists> {
   log('info', 'Mock list_escrows fetch', { userPrincipal });
   await sleep(500);
 
   // Filter escrows where user is recipient (in mock, all escrows have test-principal-1)
   // In real implementation, this would filter by actual user principal
-  return mockEscrows.filter(
-    (e) => e.recipient === 'test-principal-1' || e.recipient === userPrincipal
-  );
+  return {
+    escrows: mockEscrows.filter(
+      (e) => e.recipient === 'test-principal-1' || e.recipient === userPrincipal
+    ),
+    controlledEscrows: mockEscrows.filter((e) => canActAsReleaseAuthority(e, userPrincipal)),
+  };
 }
 
 /**
@@ -300,14 +483,39 @@ async function mockGetMilestoneStatus(escrowId: bigint): Promise<Milestone[] | n
   return escrow ? escrow.milestones : null;
 }
 
+/**
+ * Mock get milestone dispute for development
+ */
+async function mockGetMilestoneDispute(
+  escrowId: bigint,
+  milestoneIndex: number
+): Promise<MilestoneDispute | null> {
+  log('info', 'Mock get_milestone_dispute fetch', {
+    escrowId: escrowId.toString(),
+    milestoneIndex,
+  });
+  await sleep(200);
+  return null;
+}
+
+/**
+ * Mock list of escrows linked to a proposal for development
+ */
+async function mockListProposalEscrows(proposalId: string): Promise<Escrow[]> {
+  log('info', 'Mock list_proposal_escrows fetch', { proposalId });
+  await sleep(300);
+  return mockEscrows.filter((e) => e.proposal_id === proposalId);
+}
+
 // ============================================================================
 // Canister Integration
 // ============================================================================
 
 /**
- * Fetch all escrows from treasury canister and filter by recipient
+ * Fetch all escrows from treasury canister and split them into the ones the
+ * user receives and the ones they control as release authority
  */
-async function fetchEscrowsFromCanister(userPrincipal: string): Promise<Escrow[]> {
+async function fetchEscrowsFromCanister(userPrincipal: string): Promise<UserEscrowLists> {
   if (isMockMode()) {
     return mockListEscrows(userPrincipal);
   }
@@ -318,10 +526,13 @@ async function fetchEscrowsFromCanister(userPrincipal: string): Promise<Escrow[]
     canisterId: TREASURY_CANISTER_ID,
   });
 
-  // Fetch all escrows (no status filter), then filter client-side by recipient
+  // Fetch all escrows (no status filter), then filter client-side by role
   const raw = (await actor.list_escrows([])) as Record<string, unknown>[];
   const all = raw.map(mapEscrow);
-  return all.filter((e) => e.recipient === userPrincipal);
+  return {
+    escrows: all.filter((e) => e.recipient === userPrincipal),
+    controlledEscrows: all.filter((e) => canActAsReleaseAuthority(e, userPrincipal)),
+  };
 }
 
 /**
@@ -363,6 +574,39 @@ async function fetchMilestonesFromCanister(escrowId: bigint): Promise<Milestone[
   return (result.Ok as Record<string, unknown>[]).map(mapMilestone);
 }
 
+/**
+ * Fetch escrows linked to a proposal from treasury canister
+ */
+async function fetchProposalEscrowsFromCanister(proposalId: string): Promise<Escrow[]> {
+  if (isMockMode()) {
+    return mockListProposalEscrows(proposalId);
+  }
+
+  const actor = createEscrowActor();
+  const raw = (await actor.list_proposal_escrows(proposalId)) as Record<string, unknown>[];
+  return raw.map(mapEscrow);
+}
+
+/**
+ * Fetch the dispute on a milestone from treasury canister
+ */
+async function fetchDisputeFromCanister(
+  escrowId: bigint,
+  milestoneIndex: number
+): Promise<MilestoneDispute | null> {
+  if (isMockMode()) {
+    return mockGetMilestoneDispute(escrowId, milestoneIndex);
+  }
+
+  const actor = createEscrowActor();
+  const result = (await actor.get_milestone_dispute(escrowId, milestoneIndex)) as Record<
+    string,
+    unknown
+  >[];
+  if (result.length === 0) return null;
+  return mapDispute(result[0]);
+}
+
 // ============================================================================
 // Core Service Functions
 // ============================================================================
@@ -379,19 +623,27 @@ export async function fetchUserEscrows(userPrincipal: string): Promise<FetchEscr
     try {
       setEscrowLoading(true);
 
-      const escrows = await withTimeout(
+      const { escrows, controlledEscrows } = await withTimeout(
         fetchEscrowsFromCanister(userPrincipal),
         REQUEST_TIMEOUT_MS
       );
 
-      setUserEscrows(escrows);
+      // Disputes opened or resolved by the other party since the last fetch.
+      // The user's own changes are already applied locally, so they don't show up here.
+      const previous = $escrow.get();
+      if (previous.lastUpdated !== null) {
+        notifyDisputeChanges(detectDisputeChanges(previous.escrows, escrows));
+      }
+
+      setUserEscrows(escrows, controlledEscrows);
 
       log('info', 'User escrows fetched successfully', {
         count: escrows.length,
+        controlledCount: controlledEscrows.length,
         attempt,
       });
 
-      return { success: true, escrows };
+      return { success: true, escrows, controlledEscrows };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown error');
 
@@ -479,6 +731,445 @@ export async function fetchEscrowMilestones(escrowId: bigint): Promise<FetchMile
   }
 }
 
+/**
+ * Raise notifications for milestone disputes opened or resolved elsewhere
+ */
+function notifyDisputeChanges(changes: ReturnType<typeof detectDisputeChanges>): void {
+  for (const { escrow, milestone, change } of changes) {
+    const notification = createEscrowDisputeNotification(
+      escrow.id.toString(),
+      milestone.name,
+      change
+    );
+    if (notification) {
+      log('info', 'Escrow dispute notification raised', {
+        escrowId: escrow.id.toString(),
+        change,
+      });
+    }
+  }
+}
+
+/**
+ * Fetch the dispute on a milestone.
+ * New timeline entries from other participants raise notifications.
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ * @param userPrincipal - Current user's principal (their own entries don't notify)
+ */
+export async function fetchMilestoneDispute(
+  escrowId: bigint,
+  milestoneIndex: number,
+  userPrincipal?: string
+): Promise<FetchDisputeResult> {
+  log('info', 'Fetching milestone dispute', {
+    escrowId: escrowId.toString(),
+    milestoneIndex,
+  });
+
+  try {
+    const dispute = await withTimeout(
+      fetchDisputeFromCanister(escrowId, milestoneIndex),
+      REQUEST_TIMEOUT_MS
+    );
+
+    if (dispute) {
+      const previous = $escrowDisputes.get()[getDisputeKey(escrowId, milestoneIndex)];
+      if (previous) {
+        const milestoneName =
+          $escrow.get().escrows.find((e) => e.id === escrowId)?.milestones[milestoneIndex]
+            ?.name ?? `Milestone ${milestoneIndex + 1}`;
+        const newEvents = dispute.events
+          .slice(previous.events.length)
+          .filter((e) => e.author !== userPrincipal);
+        for (const event of newEvents) {
+          createEscrowDisputeNotification(
+            escrowId.toString(),
+            milestoneName,
+            event.kind === 'Resolved' ? 'resolved' : event.kind === 'Opened' ? 'opened' : 'response'
+          );
+        }
+      }
+      setMilestoneDispute(dispute);
+    }
+
+    return { success: true, dispute };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    log('error', 'Milestone dispute fetch failed', {
+      escrowId: escrowId.toString(),
+      milestoneIndex,
+      error: errorMessage,
+    });
+
+    return { success: false, error: errorMessage };
+  }
+}
+
+/** Analytics event per dispute action */
+const DISPUTE_ACTION_EVENTS = {
+  open: 'escrow_dispute_opened',
+  respond: 'escrow_dispute_responded',
+  resolve: 'escrow_dispute_resolved',
+} as const;
+
+/**
+ * Run a signed dispute call and apply the updated dispute to the store
+ */
+async function runDisputeAction(
+  action: keyof typeof DISPUTE_ACTION_EVENTS,
+  escrowId: bigint,
+  milestoneIndex: number,
+  call: (actor: ReturnType<typeof createEscrowActor>) => Promise<unknown>
+): Promise<DisputeActionResult> {
+  log('info', `Dispute ${action} requested`, {
+    escrowId: escrowId.toString(),
+    milestoneIndex,
+  });
+
+  if (isMockMode()) {
+    await sleep(400);
+    return { success: false, error: 'Escrow not found' };
+  }
+
+  const identity = getAuthenticatedIdentity();
+  if (!identity) {
+    return {
+      success: false,
+      error: 'Internet Identity not connected. Please log in with II to manage disputes.',
+    };
+  }
+
+  try {
+    const result = (await withTimeout(
+      call(createEscrowActor(identity)),
+      REQUEST_TIMEOUT_MS
+    )) as { Ok: Record<string, unknown> } | { Err: string };
+
+    if ('Err' in result) {
+      log('warn', `Dispute ${action} rejected by canister`, { error: result.Err });
+      return { success: false, error: result.Err };
+    }
+
+    const dispute = mapDispute(result.Ok);
+    setMilestoneDispute(dispute);
+
+    const opening = dispute.events.find((e) => e.kind === 'Opened');
+    if (dispute.status === 'Open') {
+      updateEscrowMilestone(escrowId, milestoneIndex, {
+        status: 'Disputed',
+        dispute_reason: opening?.message,
+      });
+    } else if (dispute.outcome) {
+      updateEscrowMilestone(escrowId, milestoneIndex, {
+        status: DISPUTE_OUTCOME_STATUS[dispute.outcome],
+      });
+    }
+
+    trackEvent(DISPUTE_ACTION_EVENTS[action], {
+      escrow_id: escrowId.toString(),
+      milestone_index: milestoneIndex,
+      ...(dispute.outcome ? { outcome: dispute.outcome } : {}),
+    });
+    return { success: true, dispute };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('error', `Dispute ${action} failed`, { error: message });
+    return { success: false, error: `Failed to ${action} dispute. Please try again.` };
+  }
+}
+
+/**
+ * Open a dispute on a milestone
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ * @param rationale - Written rationale
+ * @param links - Supporting links
+ */
+export async function openMilestoneDispute(
+  escrowId: bigint,
+  milestoneIndex: number,
+  rationale: string,
+  links: string[]
+): Promise<DisputeActionResult> {
+  return runDisputeAction('open', escrowId, milestoneIndex, (actor) =>
+    actor.open_milestone_dispute(escrowId, milestoneIndex, rationale, links)
+  );
+}
+
+/**
+ * Add a response to an open dispute
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ * @param message - Response text
+ * @param links - Supporting links
+ */
+export async function respondToDispute(
+  escrowId: bigint,
+  milestoneIndex: number,
+  message: string,
+  links: string[]
+): Promise<DisputeActionResult> {
+  return runDisputeAction('respond', escrowId, milestoneIndex, (actor) =>
+    actor.respond_to_dispute(escrowId, milestoneIndex, message, links)
+  );
+}
+
+/**
+ * Resolve an open dispute (release authority only)
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ * @param outcome - Resolution outcome
+ * @param note - Explanation recorded on the timeline
+ */
+export async function resolveMilestoneDispute(
+  escrowId: bigint,
+  milestoneIndex: number,
+  outcome: DisputeOutcome,
+  note: string
+): Promise<DisputeActionResult> {
+  return runDisputeAction('resolve', escrowId, milestoneIndex, (actor) =>
+    actor.resolve_milestone_dispute(escrowId, milestoneIndex, { [outcome]: null }, note)
+  );
+}
+
+/**
+ * Fetch the escrows linked to a proposal
+ * @param proposalId - Proposal ID
+ */
+export async function fetchProposalEscrows(
+  proposalId: string
+): Promise<FetchProposalEscrowsResult> {
+  log('info', 'Fetching proposal escrows', { proposalId });
+
+  try {
+    const escrows = await withTimeout(
+      fetchProposalEscrowsFromCanister(proposalId),
+      REQUEST_TIMEOUT_MS
+    );
+    setProposalEscrows(proposalId, escrows);
+    return { success: true, escrows };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log('error', 'Proposal escrows fetch failed', { proposalId, error: errorMessage });
+    return { success: false, error: 'Failed to load proposal funding. Please try again.' };
+  }
+}
+
+/**
+ * Create a governance-released escrow that funds a passed proposal
+ * @param draft - Escrow draft built from the proposal and edited by the user
+ */
+export async function createProposalEscrow(
+  draft: ProposalEscrowDraft
+): Promise<CreateEscrowResult> {
+  log('info', 'Proposal escrow creation requested', {
+    proposalId: draft.proposal_id,
+    milestones: draft.milestones.length,
+  });
+
+  const validationError = validateProposalEscrowDraft(draft);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  let recipient: Principal;
+  try {
+    recipient = Principal.fromText(draft.recipient.trim());
+  } catch {
+    return { success: false, error: 'Recipient is not a valid principal' };
+  }
+
+  if (isMockMode()) {
+    await sleep(400);
+    return { success: false, error: 'Treasury canister is not configured' };
+  }
+
+  const identity = getAuthenticatedIdentity();
+  if (!identity) {
+    return {
+      success: false,
+      error: 'Internet Identity not connected. Please log in with II to fund proposals.',
+    };
+  }
+
+  try {
+    const actor = createEscrowActor(identity);
+    const result = (await withTimeout(
+      actor.create_escrow({
+        recipient,
+        amount: draft.milestones.reduce((sum, m) => sum + m.amount, BigInt(0)),
+        token_type: { [draft.token_type]: null },
+        conditions: draft.conditions,
+        release_authority: { Governance: null },
+        expiry: getProposalEscrowExpiry(draft),
+        milestones: draft.milestones.map(({ name, description, amount, deadline }) => ({
+          name,
+          description,
+          amount,
+          deadline,
+        })),
+        proposal_id: [draft.proposal_id],
+      }),
+      REQUEST_TIMEOUT_MS
+    )) as { Ok: Record<string, unknown> } | { Err: string };
+
+    if ('Err' in result) {
+      log('warn', 'Proposal escrow rejected by canister', { error: result.Err });
+      return { success: false, error: result.Err };
+    }
+
+    const escrow = mapEscrow(result.Ok);
+    addProposalEscrow(escrow);
+    trackEvent('proposal_escrow_created', {
+      proposal_id: draft.proposal_id,
+      escrow_id: escrow.id.toString(),
+      milestone_count: escrow.milestones.length,
+    });
+    return { success: true, escrow };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('error', 'Proposal escrow creation failed', { error: message });
+    return { success: false, error: 'Failed to create escrow. Please try again.' };
+  }
+}
+
+/** Analytics event per release authority action */
+const RELEASE_ACTION_EVENTS = {
+  approve: 'escrow_milestone_approved',
+  release: 'escrow_funds_released',
+} as const;
+
+/**
+ * Whether the canister's escrow shows an approve/release as done
+ */
+function hasReleaseActionLanded(
+  escrow: Escrow,
+  action: EscrowReleaseAction,
+  milestoneIndex: number | null
+): boolean {
+  if (milestoneIndex === null) return escrow.status === 'Released';
+  const status = escrow.milestones[milestoneIndex]?.status;
+  return status === 'Released' || (action === 'approve' && status === 'Approved');
+}
+
+/**
+ * Run a signed approve/release call with optimistic state.
+ * The escrow is updated immediately and the milestone rolled back if the
+ * call fails. A timed-out call may still have landed, so the escrow is
+ * re-fetched from the canister instead.
+ */
+async function runReleaseAction(
+  action: EscrowReleaseAction,
+  escrowId: bigint,
+  milestoneIndex: number | null,
+  call: (actor: ReturnType<typeof createEscrowActor>) => Promise<unknown>
+): Promise<ReleaseActionResult> {
+  log('info', `Escrow ${action} requested`, {
+    escrowId: escrowId.toString(),
+    milestoneIndex,
+  });
+
+  if (isMockMode()) {
+    await sleep(400);
+    return { success: false, error: 'Escrow not found' };
+  }
+
+  const identity = getAuthenticatedIdentity();
+  if (!identity) {
+    return {
+      success: false,
+      error: 'Internet Identity not connected. Please log in with II to release escrow funds.',
+    };
+  }
+
+  const previous = applyOptimisticReleaseAction(escrowId, action, milestoneIndex);
+  if (!previous) {
+    return { success: false, error: 'Escrow not found' };
+  }
+
+  try {
+    const result = (await withTimeout(
+      call(createEscrowActor(identity)),
+      REQUEST_TIMEOUT_MS
+    )) as { Ok: Record<string, unknown> } | { Err: string };
+
+    if ('Err' in result) {
+      log('warn', `Escrow ${action} rejected by canister`, { error: result.Err });
+      rollbackReleaseAction(escrowId, milestoneIndex, previous);
+      return { success: false, error: result.Err };
+    }
+
+    const escrow = mapEscrow(result.Ok);
+    settleReleaseAction(escrowId, milestoneIndex, escrow);
+    trackEvent(RELEASE_ACTION_EVENTS[action], {
+      escrow_id: escrowId.toString(),
+      ...(milestoneIndex !== null ? { milestone_index: milestoneIndex } : {}),
+    });
+    return { success: true, escrow };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('error', `Escrow ${action} failed`, { error: message });
+
+    if (message === REQUEST_TIMEOUT_ERROR) {
+      const latest = await withTimeout(
+        fetchEscrowFromCanister(escrowId),
+        REQUEST_TIMEOUT_MS
+      ).catch(() => null);
+      if (latest) {
+        settleReleaseAction(escrowId, milestoneIndex, latest);
+        if (hasReleaseActionLanded(latest, action, milestoneIndex)) {
+          return { success: true, escrow: latest };
+        }
+      } else {
+        rollbackReleaseAction(escrowId, milestoneIndex, previous);
+      }
+    } else {
+      rollbackReleaseAction(escrowId, milestoneIndex, previous);
+    }
+
+    const failed = action === 'approve' ? 'approve milestone' : 'release funds';
+    return { success: false, error: `Failed to ${failed}. Please try again.` };
+  }
+}
+
+/**
+ * Approve a pending milestone as release authority
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ */
+export async function approveMilestone(
+  escrowId: bigint,
+  milestoneIndex: number
+): Promise<ReleaseActionResult> {
+  return runReleaseAction('approve', escrowId, milestoneIndex, (actor) =>
+    actor.approve_milestone(escrowId, milestoneIndex)
+  );
+}
+
+/**
+ * Release an approved milestone's funds to the recipient
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ */
+export async function releaseMilestone(
+  escrowId: bigint,
+  milestoneIndex: number
+): Promise<ReleaseActionResult> {
+  return runReleaseAction('release', escrowId, milestoneIndex, (actor) =>
+    actor.release_milestone(escrowId, milestoneIndex)
+  );
+}
+
+/**
+ * Release all funds of a simple (milestone-less) escrow to the recipient
+ * @param escrowId - Escrow ID
+ */
+export async function releaseEscrow(escrowId: bigint): Promise<ReleaseActionResult> {
+  return runReleaseAction('release', escrowId, null, (actor) => actor.release_escrow(escrowId));
+}
+
 /**
  * Refresh escrow data (for manual refresh)
  */
@@ -518,7 +1209,9 @@ export interface UseEscrowViewOptions {
 export interface UseEscrowViewResult {
   /** Current escrow state */
   escrowState: EscrowState;
-  /** Filtered escrows based on current filter */
+  /** Escrows on the current tab */
+  tabEscrows: Escrow[];
+  /** Filtered escrows based on current tab and filter */
   filteredEscrows: Escrow[];
   /** Status counts for filter badges */
   statusCounts: Record<EscrowStatusFilter, number>;
@@ -526,6 +1219,8 @@ export interface UseEscrowViewResult {
   selectedEscrow: Escrow | null;
   /** Current status filter */
   statusFilter: EscrowStatusFilter;
+  /** Current tab: escrows the user receives or controls */
+  tab: EscrowViewTab;
   /** Whether escrows are loading */
   isLoading: boolean;
   /** Whether a refresh is in progress */
@@ -536,6 +1231,8 @@ export interface UseEscrowViewResult {
   selectEscrow: (escrow: Escrow | null) => void;
   /** Set status filter */
   setFilter: (filter: EscrowStatusFilter) => void;
+  /** Switch tab */
+  setTab: (tab: EscrowViewTab) => void;
   /** Clear all escrow data */
   clear: () => void;
 }
@@ -555,6 +1252,8 @@ export function useEscrowView(options: UseEscrowViewOptions = {}): UseEscrowView
   const statusCounts = useStore($escrowStatusCounts);
   const selectedEscrow = useStore($selectedEscrow);
   const statusFilter = useStore($escrowStatusFilter);
+  const tab = useStore($escrowViewTab);
+  const tabEscrows = useStore($tabEscrows);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const hasFetchedRef = useRef(false);
 
@@ -588,6 +1287,12 @@ export function useEscrowView(options: UseEscrowViewOptions = {}): UseEscrowView
     trackEvent('escrow_filter_changed', { filter_value: filter });
   }, []);
 
+  // Set tab callback
+  const setTab = useCallback((nextTab: EscrowViewTab) => {
+    setEscrowViewTab(nextTab);
+    trackEvent('escrow_tab_changed', { tab: nextTab });
+  }, []);
+
   // Manual refresh callback
   const refresh = useCallback(async () => {
     if (!userPrincipal) return;
@@ -607,19 +1312,103 @@ export function useEscrowView(options: UseEscrowViewOptions = {}): UseEscrowView
 
   return {
     escrowState,
+    tabEscrows,
     filteredEscrows,
     statusCounts,
     selectedEscrow,
     statusFilter,
+    tab,
     isLoading: escrowState.isLoading,
     isRefreshing,
     refresh,
     selectEscrow,
     setFilter,
+    setTab,
     clear,
   };
 }
 
+export interface UseMilestoneDisputeResult {
+  /** Loaded dispute (undefined until fetched) */
+  dispute: MilestoneDispute | undefined;
+  /** Whether the dispute is loading */
+  isLoading: boolean;
+  /** Fetch error */
+  error: string | null;
+  /** Refetch the dispute */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for a single milestone's dispute thread
+ */
+export function useMilestoneDispute(
+  escrowId: bigint,
+  milestoneIndex: number,
+  userPrincipal?: string
+): UseMilestoneDisputeResult {
+  const disputes = useStore($escrowDisputes);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchMilestoneDispute(escrowId, milestoneIndex, userPrincipal);
+    setError(result.success ? null : (result.error ?? 'Failed to load dispute'));
+    setIsLoading(false);
+  }, [escrowId, milestoneIndex, userPrincipal]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    dispute: disputes[getDisputeKey(escrowId, milestoneIndex)],
+    isLoading,
+    error,
+    refresh,
+  };
+}
+
+export interface UseProposalEscrowsResult {
+  /** Escrows linked to the proposal */
+  escrows: Escrow[];
+  /** Whether the escrows are loading */
+  isLoading: boolean;
+  /** Fetch error */
+  error: string | null;
+  /** Refetch the escrows */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the escrows funding a proposal
+ */
+export function useProposalEscrows(proposalId: string, enabled = true): UseProposalEscrowsResult {
+  const proposalEscrows = useStore($proposalEscrows);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!proposalId) return;
+    setIsLoading(true);
+    const result = await fetchProposalEscrows(proposalId);
+    setError(result.success ? null : (result.error ?? 'Failed to load proposal funding'));
+    setIsLoading(false);
+  }, [proposalId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  return {
+    escrows: proposalEscrows[proposalId] ?? [],
+    isLoading,
+    error,
+    refresh,
+  };
+}
+
 // ============================================================================
 // Export Service Object
 // ============================================================================
@@ -628,6 +1417,15 @@ export const EscrowService = {
   fetchUserEscrows,
   fetchEscrowDetails,
   fetchEscrowMilestones,
+  fetchMilestoneDispute,
+  openMilestoneDispute,
+  respondToDispute,
+  resolveMilestoneDispute,
+  approveMilestone,
+  releaseMilestone,
+  releaseEscrow,
+  fetchProposalEscrows,
+  createProposalEscrow,
   refreshEscrowData,
   getEscrowState,
   clear: clearEscrowData,
@@ -0,0 +1,1136 @@
+/**
+ * Governance Canister Service Tests
+ *
+ * Covers adapter injection, response schema validation and the mapping
+ * from Candid records to store types.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Principal } from '@dfinity/principal';
+
+const mocks = vi.hoisted(() => ({
+  actor: {} as Record<string, ReturnType<typeof vi.fn>>,
+  identity: null as unknown,
+}));
+
+vi.mock('@dfinity/agent', () => ({
+  HttpAgent: { createSync: vi.fn(() => ({})) },
+  Actor: { createActor: vi.fn(() => mocks.actor) },
+}));
+
+vi.mock('../utils/icIdentity', () => ({
+  getAuthenticatedIdentity: () => mocks.identity,
+}));
+
+import {
+  createCanisterGovernanceAdapter,
+  setGovernanceAdapter,
+  getProposals,
+  getProposalStatus,
+  getVoteTally,
+  getTotalProposalCount,
+  castVote,
+  listDelegations,
+  getProposalRevisions,
+  getVotingPower,
+  getRankedBallots,
+  getVoteReceipt,
+  verifyVoteReceipt,
+  SchemaValidationError,
+  type GovernanceAdapter,
+} from './governanceCanister';
+import {
+  createMockGovernanceAdapter,
+  filterAndSortProposals,
+  MOCK_GOVERNANCE_CANISTER_ID,
+} from './governanceMockAdapter';
+import {
+  addProposal,
+  getProposal,
+  updateProposalStatus,
+  clearAllProposals,
+  type ProposalFilters,
+  type ProposalListItem,
+} from '@/stores';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const NO_FILTERS: ProposalFilters = {
+  status: [],
+  search: '',
+  myProposals: false,
+  notVoted: false,
+  watching: false,
+  verticals: [],
+  scales: [],
+  budgetMin: null,
+  budgetMax: null,
+};
+
+const PROPOSER = Principal.fromText('aaaaa-aa');
+
+function makeCandidProposal(overrides: Record<string, unknown> = {}) {
+  return {
+    id: BigInt(42),
+    title: 'Community Garden',
+    proposer: PROPOSER,
+    state: { Active: null },
+    scale: { Small: null },
+    vertical: { Food: null },
+    votes_for: BigInt(7),
+    votes_against: BigInt(2),
+    votes_abstain: BigInt(1),
+    quorum_reached: false,
+    voting_ends_at: BigInt(1_700_000_000_000) * BigInt(1_000_000),
+    created_at: BigInt(1_690_000_000_000) * BigInt(1_000_000),
+    revision: 1,
+    voting_mode: { Simple: null },
+    budget_total: BigInt(12_000),
+    think_tank_output: JSON.stringify({
+      problemStatement: 'No fresh produce nearby.',
+      proposedSolution: 'Plant raised beds.',
+      budgetBreakdown: [{ category: 'Materials', amount: 12_000, description: 'Lumber and soil' }],
+    }),
+    ...overrides,
+  };
+}
+
+function makeAdapter(overrides: Partial<GovernanceAdapter> = {}): GovernanceAdapter {
+  return { ...createMockGovernanceAdapter(), ...overrides };
+}
+
+describe('governanceCanister', () => {
+  beforeEach(() => {
+    mocks.actor = {};
+    mocks.identity = null;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setGovernanceAdapter(null);
+    vi.restoreAllMocks();
+  });
+
+  describe('adapter injection', () => {
+    it('routes service calls through the injected adapter', async () => {
+      const listProposals = vi.fn().mockResolvedValue({
+        items: [],
+        total: 0,
+        page: 2,
+        pageSize: 20,
+      });
+      setGovernanceAdapter(makeAdapter({ listProposals }));
+
+      const controller = new AbortController();
+      const result = await getProposals(NO_FILTERS, 'newest', 2, controller.signal);
+
+      expect(result.page).toBe(2);
+      expect(listProposals).toHaveBeenCalledWith(
+        { filters: NO_FILTERS, sort: 'newest', page: 2, pageSize: 20 },
+        controller.signal
+      );
+    });
+
+    it('falls back to an empty tally when the adapter throws', async () => {
+      setGovernanceAdapter(
+        makeAdapter({ getVoteTally: vi.fn().mockRejectedValue(new Error('boom')) })
+      );
+
+      const tally = await getVoteTally('1');
+
+      expect(tally.totalVotes).toBe(0);
+      expect(tally.quorumMet).toBe(false);
+    });
+  });
+
+  describe('schema validation', () => {
+    it('rejects malformed proposal list responses', async () => {
+      setGovernanceAdapter(
+        makeAdapter({
+          listProposals: vi.fn().mockResolvedValue({
+            items: [{ id: 1, title: 'missing fields' }],
+            total: 1,
+            page: 1,
+            pageSize: 20,
+          }),
+        })
+      );
+
+      await expect(
+        getProposals(NO_FILTERS, 'newest', 1, new AbortController().signal)
+      ).rejects.toBeInstanceOf(SchemaValidationError);
+    });
+
+    it('returns null for a malformed proposal status', async () => {
+      setGovernanceAdapter(
+        makeAdapter({
+          getProposalStatus: vi.fn().mockResolvedValue({ id: '1', status: 'unknown' }),
+        })
+      );
+
+      expect(await getProposalStatus('1')).toBeNull();
+    });
+
+    it('returns an empty tally for a malformed vote tally', async () => {
+      setGovernanceAdapter(
+        makeAdapter({ getVoteTally: vi.fn().mockResolvedValue({ yes: 'lots' }) })
+      );
+
+      const tally = await getVoteTally('1');
+
+      expect(tally.yes).toBe(0);
+    });
+
+    it('returns 0 for a non-numeric proposal count', async () => {
+      setGovernanceAdapter(makeAdapter({ countProposals: vi.fn().mockResolvedValue('5') }));
+
+      expect(await getTotalProposalCount(NO_FILTERS)).toBe(0);
+    });
+
+    it('matches nothing for the Watching filter with an empty watchlist', async () => {
+      const adapter = makeAdapter({
+        listProposals: vi.fn(),
+        countProposals: vi.fn(),
+      });
+      setGovernanceAdapter(adapter);
+      const watching = { ...NO_FILTERS, watching: true };
+
+      const page = await getProposals(watching, 'newest', 1, undefined, null, []);
+
+      expect(page).toMatchObject({ items: [], total: 0, nextCursor: null });
+      expect(await getTotalProposalCount(watching)).toBe(0);
+      expect(adapter.listProposals).not.toHaveBeenCalled();
+      expect(adapter.countProposals).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Candid adapter', () => {
+    it('maps Candid proposals to list items', async () => {
+      mocks.actor.list_proposals = vi.fn().mockResolvedValue({
+        items: [
+          makeCandidProposal(),
+          makeCandidProposal({ id: BigInt(43), state: { Expired: null } }),
+        ],
+        total: BigInt(2),
+      });
+
+      const result = await createCanisterGovernanceAdapter().listProposals({
+        filters: NO_FILTERS,
+        sort: 'newest',
+        page: 1,
+        pageSize: 20,
+      });
+
+      expect(result.total).toBe(2);
+      expect(result.items[0]).toEqual({
+        id: '42',
+        title: 'Community Garden',
+        proposer: 'aaaaa-aa',
+        status: 'Active',
+        votesFor: 7,
+        votesAgainst: 2,
+        votesAbstain: 1,
+        votingEndsAt: 1_700_000_000_000,
+        createdAt: 1_690_000_000_000,
+        revision: 1,
+        votingMode: 'simple',
+        vertical: 'Food',
+        scale: 'small',
+        budgetTotal: 12_000,
+        problemStatement: 'No fresh produce nearby.',
+        proposedSolution: 'Plant raised beds.',
+        budgetDescriptions: ['Materials: Lumber and soil'],
+      });
+      expect(result.items[1].status).toBe('Failed');
+    });
+
+    it('translates filters into list_proposals arguments', async () => {
+      mocks.actor.list_proposals = vi.fn().mockResolvedValue({ items: [], total: BigInt(0) });
+
+      await createCanisterGovernanceAdapter().listProposals({
+        filters: { ...NO_FILTERS, status: ['Failed'], search: 'garden' },
+        sort: 'endingSoon',
+        page: 3,
+        pageSize: 20,
+      });
+
+      const args = mocks.actor.list_proposals.mock.calls[0][0];
+      expect(args.states).toEqual([{ Rejected: null }, { Expired: null }, { Withdrawn: null }]);
+      expect(args.search).toEqual(['garden']);
+      expect(args.proposer).toEqual([]);
+      expect(args.sort).toEqual({ EndingSoon: null });
+      expect(args.offset).toBe(BigInt(40));
+    });
+
+    it('translates vertical, scale and budget filters', async () => {
+      mocks.actor.list_proposals = vi.fn().mockResolvedValue({ items: [], total: BigInt(0) });
+
+      await createCanisterGovernanceAdapter().listProposals({
+        filters: { ...NO_FILTERS, verticals: ['Food'], scales: ['large'], budgetMin: 500 },
+        sort: 'largestBudget',
+        page: 1,
+        pageSize: 20,
+      });
+
+      const args = mocks.actor.list_proposals.mock.calls[0][0];
+      expect(args.verticals).toEqual([{ Food: null }]);
+      expect(args.scales).toEqual([{ Large: null }]);
+      expect(args.min_budget).toEqual([BigInt(500)]);
+      expect(args.max_budget).toEqual([]);
+      expect(args.sort).toEqual({ LargestBudget: null });
+    });
+
+    it('sends the watchlist for the Watching filter', async () => {
+      mocks.actor.list_proposals = vi.fn().mockResolvedValue({ items: [], total: BigInt(0) });
+      const adapter = createCanisterGovernanceAdapter();
+      const query = { sort: 'newest' as const, page: 1, pageSize: 20 };
+      const watchedProposalIds = ['prop-7'];
+
+      await adapter.listProposals({
+        ...query,
+        filters: { ...NO_FILTERS, watching: true },
+        watchedProposalIds,
+      });
+      await adapter.listProposals({ ...query, filters: NO_FILTERS, watchedProposalIds });
+      await adapter.countProposals({ ...NO_FILTERS, watching: true }, watchedProposalIds);
+
+      const calls = mocks.actor.list_proposals.mock.calls;
+      expect(calls[0][0].ids).toEqual([['prop-7']]);
+      expect(calls[1][0].ids).toEqual([]);
+      expect(calls[2][0].ids).toEqual([['prop-7']]);
+    });
+
+    it('pages by cursor and maps the next cursor', async () => {
+      mocks.actor.list_proposals = vi.fn().mockResolvedValue({
+        items: [makeCandidProposal()],
+        total: BigInt(30),
+        next_cursor: ['cursor-2'],
+      });
+      const adapter = createCanisterGovernanceAdapter();
+      const query = { filters: NO_FILTERS, sort: 'newest' as const, page: 3, pageSize: 20 };
+
+      const first = await adapter.listProposals({ ...query, cursor: null });
+      const next = await adapter.listProposals({ ...query, cursor: 'cursor-1' });
+      const paged = await adapter.listProposals(query);
+
+      const calls = mocks.actor.list_proposals.mock.calls;
+      expect(calls[0][0]).toMatchObject({ cursor: [], offset: BigInt(0) });
+      expect(calls[1][0]).toMatchObject({ cursor: ['cursor-1'], offset: BigInt(0) });
+      expect(calls[2][0]).toMatchObject({ cursor: [], offset: BigInt(40) });
+      expect(first.nextCursor).toBe('cursor-2');
+      expect(next.nextCursor).toBe('cursor-2');
+      expect(paged).not.toHaveProperty('nextCursor');
+    });
+
+    it('zero-fills vertical counts missing from the canister response', async () => {
+      mocks.actor.get_vertical_counts = vi.fn().mockResolvedValue([
+        [{ Food: null }, BigInt(4)],
+        [{ Energy: null }, BigInt(2)],
+      ]);
+
+      const counts = await createCanisterGovernanceAdapter().getProposalCountsByVertical();
+
+      expect(counts).toEqual({
+        Housing: 0,
+        Food: 4,
+        Energy: 2,
+        Education: 0,
+        Community: 0,
+        Infrastructure: 0,
+        Other: 0,
+      });
+    });
+
+    it('maps proposal state and nanosecond deadline', async () => {
+      mocks.actor.get_proposal = vi
+        .fn()
+        .mockResolvedValue([makeCandidProposal({ state: { Passed: null }, quorum_reached: true })]);
+
+      const status = await createCanisterGovernanceAdapter().getProposalStatus('42');
+
+      expect(status).toEqual({
+        id: '42',
+        status: 'passed',
+        votesFor: 7,
+        votesAgainst: 2,
+        quorumReached: true,
+        votingEnds: 1_700_000_000_000,
+        proposer: PROPOSER.toText(),
+      });
+    });
+
+    it('treats non-numeric proposal IDs as not found', async () => {
+      mocks.actor.get_proposal = vi.fn();
+
+      const status = await createCanisterGovernanceAdapter().getProposalStatus('prop-abc');
+
+      expect(status).toBeNull();
+      expect(mocks.actor.get_proposal).not.toHaveBeenCalled();
+    });
+
+    it('maps vote tally and derives total votes', async () => {
+      mocks.actor.get_vote_tally = vi.fn().mockResolvedValue({
+        Ok: {
+          yes: BigInt(6),
+          no: BigInt(3),
+          abstain: BigInt(1),
+          quorum_required: BigInt(10),
+          quorum_met: true,
+          passing_threshold: 51,
+          delegated: BigInt(4),
+          voting_mode: { Simple: null },
+          weighted_yes: BigInt(6),
+          weighted_no: BigInt(3),
+          weighted_abstain: BigInt(1),
+        },
+      });
+
+      const tally = await createCanisterGovernanceAdapter().getVoteTally('42');
+
+      expect(tally).toMatchObject({
+        yes: 6,
+        no: 3,
+        abstain: 1,
+        totalVotes: 10,
+        quorumRequired: 10,
+        quorumMet: true,
+        passingThreshold: 51,
+        delegatedVotes: 4,
+      });
+      expect(tally.weighted).toBeUndefined();
+    });
+
+    it('maps weighted totals on quadratic proposals', async () => {
+      mocks.actor.get_vote_tally = vi.fn().mockResolvedValue({
+        Ok: {
+          yes: BigInt(2),
+          no: BigInt(1),
+          abstain: BigInt(0),
+          quorum_required: BigInt(10),
+          quorum_met: false,
+          passing_threshold: 51,
+          delegated: BigInt(0),
+          voting_mode: { Quadratic: null },
+          weighted_yes: BigInt(12),
+          weighted_no: BigInt(5),
+          weighted_abstain: BigInt(0),
+        },
+      });
+
+      const tally = await createCanisterGovernanceAdapter().getVoteTally('42');
+
+      expect(tally.totalVotes).toBe(3);
+      expect(tally.votingMode).toBe('quadratic');
+      expect(tally.weighted).toEqual({ yes: 12, no: 5, abstain: 0 });
+    });
+
+    it('sums rejected, expired and withdrawn into Failed counts', async () => {
+      mocks.actor.get_proposal_counts = vi.fn().mockResolvedValue({
+        pending: BigInt(1),
+        active: BigInt(2),
+        passed: BigInt(3),
+        rejected: BigInt(4),
+        expired: BigInt(5),
+        withdrawn: BigInt(6),
+      });
+
+      const counts = await createCanisterGovernanceAdapter().getProposalCountsByStatus();
+
+      expect(counts).toEqual({ Active: 2, Passed: 3, Failed: 15, Pending: 1 });
+    });
+
+    it('requires an authenticated identity to vote', async () => {
+      mocks.actor.cast_vote = vi.fn();
+
+      const result = await createCanisterGovernanceAdapter().castVote('42', 'yes');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NOT_AUTHENTICATED');
+      expect(mocks.actor.cast_vote).not.toHaveBeenCalled();
+    });
+
+    it('maps Candid vote errors to client error codes', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.cast_vote = vi.fn().mockResolvedValue({ Err: { AlreadyVoted: null } });
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      const result = await castVote('42', 'no');
+
+      expect(mocks.actor.cast_vote).toHaveBeenCalledWith(BigInt(42), { No: null }, [], []);
+      expect(result.error?.code).toBe('ALREADY_VOTED');
+    });
+
+    it('passes the reviewed revision and maps a revision mismatch', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.cast_vote = vi.fn().mockResolvedValue({ Err: { RevisionMismatch: null } });
+
+      const result = await createCanisterGovernanceAdapter().castVote('42', 'yes', 2);
+
+      expect(mocks.actor.cast_vote).toHaveBeenCalledWith(BigInt(42), { Yes: null }, [2], []);
+      expect(result.error?.code).toBe('REVISION_CHANGED');
+    });
+
+    it('passes the vote allocation and maps insufficient voting power', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.cast_vote = vi
+        .fn()
+        .mockResolvedValue({ Err: { InsufficientVotingPower: null } });
+
+      const result = await createCanisterGovernanceAdapter().castVote('42', 'yes', 1, 250);
+
+      expect(mocks.actor.cast_vote).toHaveBeenCalledWith(
+        BigInt(42),
+        { Yes: null },
+        [1],
+        [BigInt(250)]
+      );
+      expect(result.error?.code).toBe('INSUFFICIENT_VOTING_POWER');
+    });
+
+    it('maps the snapshot balance to whole DOM', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.get_voting_power = vi.fn().mockResolvedValue([
+        {
+          voting_mode: { Weighted: null },
+          balance: BigInt(123_456_789_012),
+          snapshot_at: BigInt(1_690_000_000_000) * BigInt(1_000_000),
+        },
+      ]);
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      const power = await getVotingPower('42');
+
+      expect(power).toEqual({
+        proposalId: '42',
+        votingMode: 'weighted',
+        balance: 1234,
+        snapshotAt: 1_690_000_000_000,
+      });
+    });
+
+    it('maps a vote cast by a delegate', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.get_my_vote = vi.fn().mockResolvedValue([
+        {
+          proposal_id: BigInt(42),
+          choice: { Abstain: null },
+          voted_at: BigInt(1_700_000_000_000) * BigInt(1_000_000),
+          tx_id: 'tx-1',
+          cast_by_delegate: [PROPOSER],
+          revision: 3,
+          weight: BigInt(1),
+          credits: [],
+        },
+      ]);
+
+      const vote = await createCanisterGovernanceAdapter().getUserVote('42');
+
+      expect(vote).toEqual({
+        proposalId: '42',
+        vote: 'abstain',
+        votedAt: 1_700_000_000_000,
+        transactionId: 'tx-1',
+        delegate: 'aaaaa-aa',
+        revision: 3,
+        weight: 1,
+      });
+    });
+
+    it('maps global and vertical delegation scopes', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.list_my_delegations = vi.fn().mockResolvedValue({
+        given: [
+          {
+            delegator: PROPOSER,
+            delegate: PROPOSER,
+            scope: { Global: null },
+            created_at: BigInt(0),
+          },
+          {
+            delegator: PROPOSER,
+            delegate: PROPOSER,
+            scope: { Vertical: { Housing: null } },
+            created_at: BigInt(0),
+          },
+        ],
+        received: [],
+      });
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      const list = await listDelegations();
+
+      expect(list?.given.map((d) => d.scope)).toEqual(['global', 'Housing']);
+      expect(list?.received).toEqual([]);
+    });
+
+    it('reports a failed delegation fetch as null', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.list_my_delegations = vi.fn().mockRejectedValue(new Error('Replica unavailable'));
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      expect(await listDelegations()).toBeNull();
+    });
+
+    it('maps Candid delegation errors', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.set_delegation = vi.fn().mockResolvedValue({ Err: { CycleDetected: null } });
+
+      const result = await createCanisterGovernanceAdapter().setDelegation('aaaaa-aa', 'Food');
+
+      expect(mocks.actor.set_delegation).toHaveBeenCalledWith(PROPOSER, {
+        Vertical: { Food: null },
+      });
+      expect(result.error?.code).toBe('DELEGATION_CYCLE');
+    });
+
+    it('maps proposal revisions and decodes their content', async () => {
+      const output = {
+        problemStatement: 'Dry soil',
+        proposedSolution: 'Irrigation',
+        budgetBreakdown: [{ category: 'Pipes', amount: 300, description: 'Drip line' }],
+        timeline: [],
+        successMetrics: [],
+        riskAssessment: [],
+        agentContributions: [],
+      };
+      mocks.actor.get_proposal_revisions = vi.fn().mockResolvedValue([
+        {
+          revision: 2,
+          title: 'Community Garden',
+          think_tank_output: JSON.stringify(output),
+          summary: 'Cheaper pipes',
+          created_at: BigInt(1_700_000_000_000) * BigInt(1_000_000),
+        },
+      ]);
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      const revisions = await getProposalRevisions('42');
+
+      expect(revisions).toEqual([
+        {
+          revision: 2,
+          title: 'Community Garden',
+          thinkTankOutput: output,
+          summary: 'Cheaper pipes',
+          createdAt: 1_700_000_000_000,
+        },
+      ]);
+    });
+
+    it('maps Candid amendment errors', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.amend_proposal = vi.fn().mockResolvedValue({ Err: { NotPending: null } });
+
+      const result = await createCanisterGovernanceAdapter().amendProposal({
+        proposalId: '42',
+        thinkTankOutput: {} as never,
+        summary: 'Update',
+      });
+
+      expect(mocks.actor.amend_proposal.mock.calls[0][1].title).toEqual([]);
+      expect(result.error?.code).toBe('NOT_PENDING');
+    });
+  });
+
+  describe('mock adapter list filters', () => {
+    function makeItem(overrides: Partial<ProposalListItem>): ProposalListItem {
+      return {
+        id: 'p',
+        title: 'Proposal',
+        proposer: 'aaaaa-aa',
+        status: 'Active',
+        votesFor: 0,
+        votesAgainst: 0,
+        votesAbstain: 0,
+        votingEndsAt: 0,
+        createdAt: 0,
+        ...overrides,
+      };
+    }
+
+    const ITEMS = [
+      makeItem({ id: 'garden', vertical: 'Food', scale: 'small', budgetTotal: 800 }),
+      makeItem({ id: 'solar', vertical: 'Energy', scale: 'large', budgetTotal: 50_000 }),
+      makeItem({ id: 'pantry', vertical: 'Food', scale: 'medium', budgetTotal: 5_000 }),
+      makeItem({ id: 'legacy' }),
+    ];
+
+    function ids(items: ProposalListItem[]): string[] {
+      return items.map((item) => item.id);
+    }
+
+    it('filters by vertical and scale', () => {
+      const byVertical = filterAndSortProposals(
+        ITEMS,
+        { ...NO_FILTERS, verticals: ['Food'] },
+        'newest'
+      );
+      const byScale = filterAndSortProposals(
+        ITEMS,
+        { ...NO_FILTERS, scales: ['large', 'small'] },
+        'newest'
+      );
+
+      expect(ids(byVertical)).toEqual(['garden', 'pantry']);
+      expect(ids(byScale)).toEqual(['garden', 'solar']);
+    });
+
+    it('filters by an inclusive budget range, excluding proposals without a budget', () => {
+      const filters = { ...NO_FILTERS, budgetMin: 800, budgetMax: 5_000 };
+
+      expect(ids(filterAndSortProposals(ITEMS, filters, 'newest'))).toEqual(['garden', 'pantry']);
+      expect(
+        ids(filterAndSortProposals(ITEMS, { ...NO_FILTERS, budgetMin: 10_000 }, 'newest'))
+      ).toEqual(['solar']);
+    });
+
+    it('filters to watched proposals', () => {
+      const filters = { ...NO_FILTERS, watching: true };
+      const watched = new Set(['solar']);
+
+      expect(
+        ids(filterAndSortProposals(ITEMS, filters, 'newest', undefined, undefined, watched))
+      ).toEqual(['solar']);
+    });
+
+    it('pages by cursor without shifting when new proposals arrive', async () => {
+      clearAllProposals();
+      vi.useFakeTimers();
+      const seed = ['a', 'b', 'c', 'd', 'e'].map((id, i) => makeItem({ id, createdAt: 100 - i }));
+      const adapter = createMockGovernanceAdapter(seed);
+      const list = async (cursor: string | null) => {
+        const promise = adapter.listProposals({
+          filters: NO_FILTERS,
+          sort: 'newest',
+          page: 1,
+          pageSize: 2,
+          cursor,
+        });
+        await vi.runAllTimersAsync();
+        return promise;
+      };
+
+      try {
+        const first = await list(null);
+        seed.unshift(makeItem({ id: 'new', createdAt: 200 }));
+        const second = await list(first.nextCursor ?? null);
+        const third = await list(second.nextCursor ?? null);
+
+        expect(ids(first.items)).toEqual(['a', 'b']);
+        expect(ids(second.items)).toEqual(['c', 'd']);
+        expect(ids(third.items)).toEqual(['e']);
+        expect(third.nextCursor).toBeNull();
+        expect(third.total).toBe(6);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('sorts by largest budget, with unbudgeted proposals last', () => {
+      expect(ids(filterAndSortProposals(ITEMS, NO_FILTERS, 'largestBudget'))).toEqual([
+        'solar',
+        'pantry',
+        'garden',
+        'legacy',
+      ]);
+    });
+  });
+
+  describe('mock adapter amendments', () => {
+    beforeEach(() => {
+      clearAllProposals();
+      addProposal({
+        id: 'prop-1',
+        title: 'Garden',
+        prompt: 'Build a garden',
+        scale: 'small',
+        vertical: 'Food',
+        thinkTankOutput: {
+          problemStatement: 'No garden',
+          proposedSolution: 'Build one',
+          budgetBreakdown: [],
+          timeline: [],
+          successMetrics: [],
+          riskAssessment: [],
+          agentContributions: [],
+        },
+        thinkTankRequestId: 'req-1',
+      });
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function run<T>(promise: Promise<T>): Promise<T> {
+      await vi.runAllTimersAsync();
+      return promise;
+    }
+
+    it('only amends pending proposals', async () => {
+      const adapter = createMockGovernanceAdapter();
+      const output = { ...getProposal('prop-1')!.thinkTankOutput, proposedSolution: 'Build two' };
+
+      const rejected = await run(
+        adapter.amendProposal({ proposalId: 'prop-1', thinkTankOutput: output, summary: 'x' })
+      );
+      expect(rejected.error?.code).toBe('NOT_PENDING');
+
+      updateProposalStatus('prop-1', 'pending');
+      const accepted = await run(
+        adapter.amendProposal({ proposalId: 'prop-1', thinkTankOutput: output, summary: 'x' })
+      );
+      expect(accepted).toEqual({ success: true, revision: 2 });
+      expect(getProposal('prop-1')?.thinkTankOutput.proposedSolution).toBe('Build two');
+    });
+
+    it('records the revision a vote was cast against', async () => {
+      const adapter = createMockGovernanceAdapter();
+
+      const stale = await run(adapter.castVote('prop-1', 'yes', 2));
+      expect(stale.error?.code).toBe('REVISION_CHANGED');
+
+      await run(adapter.castVote('prop-1', 'yes', 1));
+      const vote = await run(adapter.getUserVote('prop-1'));
+      expect(vote?.revision).toBe(1);
+    });
+  });
+
+  describe('mock adapter voting modes', () => {
+    const OUTPUT = {
+      problemStatement: 'No garden',
+      proposedSolution: 'Build one',
+      budgetBreakdown: [],
+      timeline: [],
+      successMetrics: [],
+      riskAssessment: [],
+      agentContributions: [],
+    };
+
+    beforeEach(() => {
+      clearAllProposals();
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function run<T>(promise: Promise<T>): Promise<T> {
+      await vi.runAllTimersAsync();
+      return promise;
+    }
+
+    async function submit(votingMode: 'weighted' | 'quadratic') {
+      const adapter = createMockGovernanceAdapter();
+      const { proposalId } = await run(
+        adapter.submitProposal({
+          title: 'Garden',
+          prompt: 'Build a garden',
+          scale: 'small',
+          vertical: 'Food',
+          thinkTankOutput: OUTPUT,
+          thinkTankRequestId: 'req-1',
+          votingMode,
+        })
+      );
+      return { adapter, proposalId: proposalId! };
+    }
+
+    it('snapshots the member balance when a weighted proposal is created', async () => {
+      const { adapter, proposalId } = await submit('weighted');
+
+      const power = await run(adapter.getVotingPower(proposalId));
+
+      // Mock ledger balance for the mock user is 1,234.56789012 DOM
+      expect(power).toMatchObject({ votingMode: 'weighted', balance: 1234 });
+    });
+
+    it('counts weighted votes by allocated DOM and rejects over-allocation', async () => {
+      const { adapter, proposalId } = await submit('weighted');
+
+      const tooMuch = await run(adapter.castVote(proposalId, 'yes', undefined, 5000));
+      expect(tooMuch.error?.code).toBe('INSUFFICIENT_VOTING_POWER');
+
+      await run(adapter.castVote(proposalId, 'yes', undefined, 1000));
+      const tally = await run(adapter.getVoteTally(proposalId));
+      expect(tally.totalVotes).toBe(1);
+      expect(tally.weighted).toEqual({ yes: 1000, no: 0, abstain: 0 });
+    });
+
+    it('counts quadratic votes as the square root of credits spent', async () => {
+      const { adapter, proposalId } = await submit('quadratic');
+
+      await run(adapter.castVote(proposalId, 'no', undefined, 100));
+
+      const vote = await run(adapter.getUserVote(proposalId));
+      expect(vote).toMatchObject({ weight: 10, credits: 100 });
+      const tally = await run(adapter.getVoteTally(proposalId));
+      expect(tally.weighted?.no).toBe(10);
+    });
+  });
+
+  describe('ranked choice', () => {
+    const OUTPUT = {
+      problemStatement: 'Housing needs a vendor',
+      proposedSolution: 'Pick one of three vendors',
+      budgetBreakdown: [],
+      timeline: [],
+      successMetrics: [],
+      riskAssessment: [],
+      agentContributions: [],
+    };
+    const OPTIONS = [
+      { id: 'v1', label: 'Vendor One' },
+      { id: 'v2', label: 'Vendor Two', description: 'Local builder' },
+      { id: 'v3', label: 'Vendor Three' },
+    ];
+
+    it('maps Candid ballots and the caller ranking', async () => {
+      mocks.actor.get_ranked_ballots = vi.fn().mockResolvedValue([
+        {
+          options: [
+            { id: 'v1', label: 'Vendor One', description: [] },
+            { id: 'v2', label: 'Vendor Two', description: ['Local builder'] },
+          ],
+          ballots: [['v1', 'v2'], ['v2']],
+          my_ranking: [['v2']],
+        },
+      ]);
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      const ballots = await getRankedBallots('42');
+
+      expect(mocks.actor.get_ranked_ballots).toHaveBeenCalledWith(BigInt(42));
+      expect(ballots).toMatchObject({
+        proposalId: '42',
+        options: OPTIONS.slice(0, 2),
+        ballots: [['v1', 'v2'], ['v2']],
+        myRanking: ['v2'],
+      });
+    });
+
+    it('returns null for yes/no proposals', async () => {
+      mocks.actor.get_ranked_ballots = vi.fn().mockResolvedValue([]);
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      expect(await getRankedBallots('42')).toBeNull();
+    });
+
+    it('maps InvalidRanking from cast_ranked_vote', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.cast_ranked_vote = vi.fn().mockResolvedValue({ Err: { InvalidRanking: null } });
+
+      const result = await createCanisterGovernanceAdapter().castRankedVote('42', ['v1', 'v1'], 1);
+
+      expect(mocks.actor.cast_ranked_vote).toHaveBeenCalledWith(BigInt(42), ['v1', 'v1'], [1]);
+      expect(result.error?.code).toBe('INVALID_RANKING');
+    });
+
+    describe('mock adapter', () => {
+      beforeEach(() => {
+        clearAllProposals();
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      async function run<T>(promise: Promise<T>): Promise<T> {
+        await vi.runAllTimersAsync();
+        return promise;
+      }
+
+      async function submit() {
+        const adapter = createMockGovernanceAdapter();
+        const { proposalId } = await run(
+          adapter.submitProposal({
+            title: 'Housing vendor',
+            prompt: 'Choose a housing vendor',
+            scale: 'medium',
+            vertical: 'Housing',
+            thinkTankOutput: OUTPUT,
+            thinkTankRequestId: 'req-1',
+            ballotOptions: OPTIONS,
+          })
+        );
+        return { adapter, proposalId: proposalId! };
+      }
+
+      it('records a ranked ballot once and returns it with the ballots', async () => {
+        const { adapter, proposalId } = await submit();
+
+        const yesNo = await run(adapter.castVote(proposalId, 'yes'));
+        expect(yesNo.error?.code).toBe('INVALID_PROPOSAL');
+
+        const cast = await run(adapter.castRankedVote(proposalId, ['v2', 'v1'], 1));
+        expect(cast.success).toBe(true);
+
+        const again = await run(adapter.castRankedVote(proposalId, ['v3'], 1));
+        expect(again.error?.code).toBe('ALREADY_VOTED');
+
+        const ballots = await run(adapter.getRankedBallots(proposalId));
+        expect(ballots?.options).toEqual(OPTIONS);
+        expect(ballots?.ballots).toEqual([['v2', 'v1']]);
+        expect(ballots?.myRanking).toEqual(['v2', 'v1']);
+      });
+
+      it('rejects rankings with unknown or repeated options', async () => {
+        const { adapter, proposalId } = await submit();
+
+        const unknown = await run(adapter.castRankedVote(proposalId, ['v9']));
+        expect(unknown.error?.code).toBe('INVALID_RANKING');
+
+        const repeated = await run(adapter.castRankedVote(proposalId, ['v1', 'v1']));
+        expect(repeated.error?.code).toBe('INVALID_RANKING');
+      });
+    });
+  });
+
+  describe('vote receipts', () => {
+    const CANDID_RECEIPT = {
+      proposal_id: BigInt(42),
+      voter: PROPOSER,
+      choice: { Yes: null },
+      voted_at: BigInt('1700000000123456789'),
+      tx_id: 'tx-42',
+      revision: 2,
+      weight: BigInt(1),
+      signature: new Uint8Array([0xde, 0xad, 0xbe, 0xef]),
+    };
+
+    it('maps a Candid receipt without losing timestamp precision', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.get_vote_receipt = vi.fn().mockResolvedValue([CANDID_RECEIPT]);
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      const receipt = await getVoteReceipt('42');
+
+      expect(mocks.actor.get_vote_receipt).toHaveBeenCalledWith(BigInt(42));
+      expect(receipt).toMatchObject({
+        proposalId: '42',
+        voter: 'aaaaa-aa',
+        vote: 'yes',
+        votedAt: 1_700_000_000_123,
+        votedAtNanos: '1700000000123456789',
+        transactionId: 'tx-42',
+        revision: 2,
+        weight: 1,
+        signature: 'deadbeef',
+      });
+    });
+
+    it('sends the receipt back to the canister and maps mismatched fields', async () => {
+      mocks.identity = { getPrincipal: () => PROPOSER };
+      mocks.actor.get_vote_receipt = vi.fn().mockResolvedValue([CANDID_RECEIPT]);
+      mocks.actor.verify_vote_receipt = vi
+        .fn()
+        .mockResolvedValue({ Mismatch: ['choice', 'voted_at'] });
+      setGovernanceAdapter(createCanisterGovernanceAdapter());
+
+      const receipt = await getVoteReceipt('42');
+      const result = await verifyVoteReceipt(receipt!);
+
+      expect(mocks.actor.verify_vote_receipt).toHaveBeenCalledWith({
+        ...CANDID_RECEIPT,
+        signature: new Uint8Array([0xde, 0xad, 0xbe, 0xef]),
+      });
+      expect(result.verification).toMatchObject({
+        status: 'mismatch',
+        mismatchedFields: ['vote', 'votedAt'],
+      });
+    });
+
+    it('reports a network error when the canister is unreachable', async () => {
+      setGovernanceAdapter({
+        verifyVoteReceipt: vi.fn().mockRejectedValue(new Error('offline')),
+      } as unknown as GovernanceAdapter);
+
+      const result = await verifyVoteReceipt({
+        canisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+        proposalId: '42',
+        voter: 'aaaaa-aa',
+        vote: 'yes',
+        votedAt: 0,
+        votedAtNanos: '0',
+        transactionId: 'tx-42',
+        revision: 1,
+        weight: 1,
+        signature: 'deadbeef',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NETWORK_ERROR');
+    });
+
+    describe('mock adapter', () => {
+      beforeEach(() => {
+        clearAllProposals();
+        addProposal({
+          id: 'prop-1',
+          title: 'Garden',
+          prompt: 'Build a garden',
+          scale: 'small',
+          vertical: 'Food',
+          thinkTankOutput: {
+            problemStatement: 'No garden',
+            proposedSolution: 'Build one',
+            budgetBreakdown: [],
+            timeline: [],
+            successMetrics: [],
+            riskAssessment: [],
+            agentContributions: [],
+          },
+          thinkTankRequestId: 'req-1',
+        });
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      async function run<T>(promise: Promise<T>): Promise<T> {
+        await vi.runAllTimersAsync();
+        return promise;
+      }
+
+      it('issues receipts only for recorded votes', async () => {
+        const adapter = createMockGovernanceAdapter();
+
+        expect(await run(adapter.getVoteReceipt('prop-1'))).toBeNull();
+
+        const cast = await run(adapter.castVote('prop-1', 'no', 1));
+        const receipt = await run(adapter.getVoteReceipt('prop-1'));
+
+        expect(receipt).toMatchObject({
+          canisterId: MOCK_GOVERNANCE_CANISTER_ID,
+          proposalId: 'prop-1',
+          vote: 'no',
+          transactionId: cast.transactionId,
+        });
+        expect(receipt?.signature).toMatch(/^[0-9a-f]{16}$/);
+      });
+
+      it('verifies genuine receipts and rejects edited ones', async () => {
+        const adapter = createMockGovernanceAdapter();
+        await run(adapter.castVote('prop-1', 'no', 1));
+        const receipt = (await run(adapter.getVoteReceipt('prop-1')))!;
+
+        const genuine = await run(adapter.verifyVoteReceipt(receipt));
+        expect(genuine.status).toBe('valid');
+
+        const edited = await run(adapter.verifyVoteReceipt({ ...receipt, vote: 'yes' }));
+        expect(edited.status).toBe('invalid-signature');
+
+        const foreign = await run(adapter.verifyVoteReceipt({ ...receipt, canisterId: 'other' }));
+        expect(foreign.status).toBe('wrong-canister');
+      });
+    });
+  });
+});
@@ -4,28 +4,51 @@
  * Client for interacting with the governance canister on ICP.
  * Handles proposal submission, status queries, and voting.
  *
+ * All calls go through a GovernanceAdapter: the Candid-backed canister
+ * adapter when VITE_GOVERNANCE_CANISTER_ID is set, otherwise the mock
+ * adapter. Tests can inject their own via setGovernanceAdapter().
+ *
  * Story: 9-1-1-think-tank-proposal-creation (proposal submission)
  * Story: 9-1-2-voting-interface (voting methods)
+ * Vote delegation: set/revoke/list delegations (liquid democracy)
+ * Proposal amendments: versioned revisions while a proposal is Pending
+ * Voting modes: DOM-weighted and quadratic votes against a balance snapshot
+ * Ranked choice: multi-option proposals with ranked ballots, tallied client-side
+ * Vote receipts: canister-signed vote records that anyone can verify
  */
 
 import { z } from 'zod';
-import {
-  addProposal,
-  addVote as addVoteToStore,
-  getProposal as getProposalFromStore,
-  $proposals,
-  type ThinkTankOutput,
-  type ProposalScale,
-  type ProposalVertical,
-  type VoteChoice,
-  type VoteTally,
-  type UserVote,
-  type ProposalListItem,
-  type ProposalFilters,
-  type ProposalSort,
-  type PaginatedResponse,
-  type ProposalStatusCounts,
+import { HttpAgent, Actor, type Identity } from '@dfinity/agent';
+import { IDL } from '@dfinity/candid';
+import { Principal } from '@dfinity/principal';
+import type {
+  ThinkTankOutput,
+  ProposalScale,
+  ProposalVertical,
+  ProposalRevision,
+  VoteChoice,
+  VoteTally,
+  UserVote,
+  VotingMode,
+  VotingPower,
+  BallotOption,
+  RankedBallots,
+  VoteReceipt,
+  ReceiptVerification,
+  ProposalListItem,
+  ProposalFilters,
+  ProposalSort,
+  PaginatedResponse,
+  ProposalStatusCounts,
+  ProposalVerticalCounts,
+  Delegation,
+  DelegationList,
+  DelegationScope,
 } from '@/stores';
+import { getAuthenticatedIdentity } from '../utils/icIdentity';
+import { toWholeTokens } from '../utils/votingPower';
+import { bytesToHex, hexToBytes } from '../utils/voteReceipt';
+import { createMockGovernanceAdapter, MOCK_USER_PRINCIPAL } from './governanceMockAdapter';
 
 // Types for canister interactions
 export interface SubmitProposalRequest {
@@ -35,6 +58,8 @@ export interface SubmitProposalRequest {
   vertical: ProposalVertical;
   thinkTankOutput: ThinkTankOutput;
   thinkTankRequestId: string;
+  votingMode?: VotingMode; // Defaults to one member, one vote
+  ballotOptions?: BallotOption[]; // Two or more options make this a ranked-choice proposal
 }
 
 export interface SubmitProposalResponse {
@@ -46,6 +71,31 @@ export interface SubmitProposalResponse {
   };
 }
 
+// Amendment error codes
+export type AmendErrorCode =
+  | 'NOT_PROPOSER'
+  | 'NOT_PENDING'
+  | 'NO_CHANGES'
+  | 'INVALID_PROPOSAL'
+  | 'NOT_AUTHENTICATED'
+  | 'NETWORK_ERROR';
+
+export interface AmendProposalRequest {
+  proposalId: string;
+  title?: string; // Omit to keep the current title
+  thinkTankOutput: ThinkTankOutput;
+  summary: string; // What changed and why, shown in the revision history
+}
+
+export interface AmendProposalResponse {
+  success: boolean;
+  revision?: number;
+  error?: {
+    code: AmendErrorCode;
+    message: string;
+  };
+}
+
 export interface ProposalStatus {
   id: string;
   status: 'pending' | 'active' | 'passed' | 'rejected' | 'expired' | 'withdrawn';
@@ -53,6 +103,7 @@ export interface ProposalStatus {
   votesAgainst: number;
   quorumReached: boolean;
   votingEnds: number;
+  proposer?: string; // Principal ID of the proposal creator
 }
 
 // Vote error codes
@@ -64,7 +115,11 @@ export type VoteErrorCode =
   | 'PROPOSAL_CANCELED'
   | 'RATE_LIMITED'
   | 'NETWORK_ERROR'
-  | 'INVALID_PROPOSAL';
+  | 'INVALID_PROPOSAL'
+  | 'REVISION_CHANGED'
+  | 'INSUFFICIENT_VOTING_POWER'
+  | 'INVALID_RANKING'
+  | 'NOT_AUTHENTICATED';
 
 export interface CastVoteResponse {
   success: boolean;
@@ -75,6 +130,91 @@ export interface CastVoteResponse {
   };
 }
 
+// Delegation error codes
+export type DelegationErrorCode =
+  | 'SELF_DELEGATION'
+  | 'DELEGATE_NOT_MEMBER'
+  | 'DELEGATION_CYCLE'
+  | 'NOT_MEMBER'
+  | 'NOT_FOUND'
+  | 'NOT_AUTHENTICATED'
+  | 'NETWORK_ERROR';
+
+export interface DelegationResponse {
+  success: boolean;
+  delegation?: Delegation;
+  error?: {
+    code: DelegationErrorCode;
+    message: string;
+  };
+}
+
+export interface VerifyReceiptResponse {
+  success: boolean;
+  verification?: ReceiptVerification;
+  error?: {
+    code: 'NETWORK_ERROR';
+    message: string;
+  };
+}
+
+/**
+ * Parameters for a proposal list page request
+ */
+export interface ProposalListQuery {
+  filters: ProposalFilters;
+  sort: ProposalSort;
+  page: number; // 1-indexed; ignored when a cursor is given
+  pageSize: number;
+  /**
+   * Continue after this cursor instead of using page numbers; null for the
+   * first page. Cursor pages don't shift when new proposals arrive.
+   */
+  cursor?: string | null;
+  /** Watchlist for the Watching filter; it lives on the client, so it's sent as IDs */
+  watchedProposalIds?: string[];
+}
+
+/**
+ * Backend used by the governance service.
+ *
+ * Adapters return raw results; the exported service functions apply
+ * timeouts, schema validation, logging and error fallbacks on top.
+ */
+export interface GovernanceAdapter {
+  submitProposal(request: SubmitProposalRequest): Promise<SubmitProposalResponse>;
+  getProposalStatus(proposalId: string): Promise<ProposalStatus | null>;
+  castVote(
+    proposalId: string,
+    vote: VoteChoice,
+    revision?: number,
+    allocation?: number
+  ): Promise<CastVoteResponse>;
+  getUserVote(proposalId: string): Promise<UserVote | null>;
+  getVoteTally(proposalId: string): Promise<VoteTally>;
+  listProposals(
+    query: ProposalListQuery,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<ProposalListItem>>;
+  countProposals(filters: ProposalFilters, watchedProposalIds?: string[]): Promise<number>;
+  getProposalCountsByStatus(): Promise<ProposalStatusCounts>;
+  getProposalCountsByVertical(): Promise<ProposalVerticalCounts>;
+  setDelegation(delegate: string, scope: DelegationScope): Promise<DelegationResponse>;
+  revokeDelegation(scope: DelegationScope): Promise<DelegationResponse>;
+  listDelegations(): Promise<DelegationList>;
+  amendProposal(request: AmendProposalRequest): Promise<AmendProposalResponse>;
+  getProposalRevisions(proposalId: string): Promise<ProposalRevision[]>;
+  getVotingPower(proposalId: string): Promise<VotingPower | null>;
+  castRankedVote(
+    proposalId: string,
+    ranking: string[],
+    revision?: number
+  ): Promise<CastVoteResponse>;
+  getRankedBallots(proposalId: string): Promise<RankedBallots | null>;
+  getVoteReceipt(proposalId: string): Promise<VoteReceipt | null>;
+  verifyVoteReceipt(receipt: VoteReceipt): Promise<ReceiptVerification>;
+}
+
 // Timeout configuration
 const CANISTER_CALL_TIMEOUT_MS = 15000; // 15 seconds
 const PROPOSAL_LIST_TIMEOUT_MS = 5000; // 5 seconds for proposal listing (Story 9-1-3)
@@ -91,6 +231,16 @@ const ProposalListItemSchema = z.object({
   votesAbstain: z.number(),
   votingEndsAt: z.number(),
   createdAt: z.number(),
+  revision: z.number().optional(),
+  votingMode: z.enum(['simple', 'weighted', 'quadratic']).optional(),
+  vertical: z
+    .enum(['Housing', 'Food', 'Energy', 'Education', 'Community', 'Infrastructure', 'Other'])
+    .optional(),
+  scale: z.enum(['small', 'medium', 'large']).optional(),
+  budgetTotal: z.number().optional(),
+  problemStatement: z.string().optional(),
+  proposedSolution: z.string().optional(),
+  budgetDescriptions: z.array(z.string()).optional(),
 });
 
 const PaginatedProposalResponseSchema = z.object({
@@ -98,6 +248,7 @@ const PaginatedProposalResponseSchema = z.object({
   total: z.number(),
   page: z.number(),
   pageSize: z.number(),
+  nextCursor: z.string().nullable().optional(),
 });
 
 const ProposalStatusCountsSchema = z.object({
@@ -107,6 +258,142 @@ const ProposalStatusCountsSchema = z.object({
   Pending: z.number(),
 });
 
+const ProposalVerticalCountsSchema = z.object({
+  Housing: z.number(),
+  Food: z.number(),
+  Energy: z.number(),
+  Education: z.number(),
+  Community: z.number(),
+  Infrastructure: z.number(),
+  Other: z.number(),
+});
+
+const ProposalStatusSchema = z.object({
+  id: z.string(),
+  status: z.enum(['pending', 'active', 'passed', 'rejected', 'expired', 'withdrawn']),
+  votesFor: z.number(),
+  votesAgainst: z.number(),
+  quorumReached: z.boolean(),
+  votingEnds: z.number(),
+  proposer: z.string().optional(),
+});
+
+const VoteTallySchema = z.object({
+  yes: z.number(),
+  no: z.number(),
+  abstain: z.number(),
+  totalVotes: z.number(),
+  quorumRequired: z.number(),
+  quorumMet: z.boolean(),
+  passingThreshold: z.number(),
+  lastUpdated: z.number(),
+  delegatedVotes: z.number().optional(),
+  votingMode: z.enum(['simple', 'weighted', 'quadratic']).optional(),
+  weighted: z.object({ yes: z.number(), no: z.number(), abstain: z.number() }).optional(),
+});
+
+const UserVoteSchema = z.object({
+  proposalId: z.string(),
+  vote: z.enum(['yes', 'no', 'abstain']),
+  votedAt: z.number(),
+  transactionId: z.string().optional(),
+  delegate: z.string().optional(),
+  revision: z.number().optional(),
+  weight: z.number().optional(),
+  credits: z.number().optional(),
+});
+
+const VotingPowerSchema = z.object({
+  proposalId: z.string(),
+  votingMode: z.enum(['simple', 'weighted', 'quadratic']),
+  balance: z.number(),
+  snapshotAt: z.number(),
+});
+
+const RankedBallotsSchema = z.object({
+  proposalId: z.string(),
+  options: z.array(
+    z.object({ id: z.string(), label: z.string(), description: z.string().optional() })
+  ),
+  ballots: z.array(z.array(z.string())),
+  myRanking: z.array(z.string()).optional(),
+  lastUpdated: z.number(),
+});
+
+const VoteReceiptSchema = z.object({
+  canisterId: z.string(),
+  proposalId: z.string(),
+  voter: z.string(),
+  vote: z.enum(['yes', 'no', 'abstain']),
+  votedAt: z.number(),
+  votedAtNanos: z.string(),
+  transactionId: z.string(),
+  revision: z.number(),
+  weight: z.number(),
+  signature: z.string(),
+});
+
+const ReceiptVerificationSchema = z.object({
+  status: z.enum(['valid', 'invalid-signature', 'not-found', 'mismatch', 'wrong-canister']),
+  mismatchedFields: z.array(z.string()).optional(),
+  checkedAt: z.number(),
+});
+
+const DelegationSchema = z.object({
+  delegator: z.string(),
+  delegate: z.string(),
+  delegateName: z.string().optional(),
+  scope: z.enum([
+    'global',
+    'Housing',
+    'Food',
+    'Energy',
+    'Education',
+    'Community',
+    'Infrastructure',
+    'Other',
+  ]),
+  createdAt: z.number(),
+});
+
+const DelegationListSchema = z.object({
+  given: z.array(DelegationSchema),
+  received: z.array(DelegationSchema),
+});
+
+const LevelSchema = z.enum(['low', 'medium', 'high']);
+
+const ThinkTankOutputSchema = z.object({
+  problemStatement: z.string(),
+  proposedSolution: z.string(),
+  budgetBreakdown: z.array(
+    z.object({ category: z.string(), amount: z.number(), description: z.string() })
+  ),
+  timeline: z.array(
+    z.object({ phase: z.string(), duration: z.string(), deliverables: z.array(z.string()) })
+  ),
+  successMetrics: z.array(z.string()),
+  riskAssessment: z.array(
+    z.object({
+      risk: z.string(),
+      likelihood: LevelSchema,
+      impact: LevelSchema,
+      mitigation: z.string(),
+    })
+  ),
+  agentContributions: z.array(z.object({ agent: z.string(), contribution: z.string() })),
+});
+
+const ProposalRevisionListSchema = z.array(
+  z.object({
+    revision: z.number(),
+    title: z.string(),
+    thinkTankOutput: ThinkTankOutputSchema,
+    summary: z.string(),
+    createdAt: z.number(),
+  })
+);
+
 // Custom error types
 export class TimeoutError extends Error {
   constructor(message = 'Request timed out') {
@@ -125,6 +412,9 @@ export class SchemaValidationError extends Error {
 // Canister configuration
 const GOVERNANCE_CANISTER_ID = import.meta.env.VITE_GOVERNANCE_CANISTER_ID || '';
 
+/** IC host for agent connections */
+const IC_HOST = import.meta.env.VITE_IC_HOST || 'https://ic0.app';
+
 /**
  * Check if we're in a mock/development environment
  */
@@ -153,391 +443,1163 @@ function log(level: 'info' | 'warn' | 'error', message: string, data?: Record<st
   }
 }
 
+// ============================================================================
+// Candid Interface
+// ============================================================================
+
 /**
- * Mock submission for development
+ * Minimal inline IDL for the governance canister methods we need.
  */
-async function mockSubmitProposal(request: SubmitProposalRequest): Promise<SubmitProposalResponse> {
-  log('info', 'Mock proposal submission', { title: request.title });
+const ProposalStateIDL = IDL.Variant({
+  Pending: IDL.Null,
+  Active: IDL.Null,
+  Passed: IDL.Null,
+  Rejected: IDL.Null,
+  Expired: IDL.Null,
+  Withdrawn: IDL.Null,
+});
+const ProposalScaleIDL = IDL.Variant({ Small: IDL.Null, Medium: IDL.Null, Large: IDL.Null });
+const ProposalVerticalIDL = IDL.Variant({
+  Housing: IDL.Null,
+  Food: IDL.Null,
+  Energy: IDL.Null,
+  Education: IDL.Null,
+  Community: IDL.Null,
+  Infrastructure: IDL.Null,
+  Other: IDL.Null,
+});
+const VoteChoiceIDL = IDL.Variant({ Yes: IDL.Null, No: IDL.Null, Abstain: IDL.Null });
+const VotingModeIDL = IDL.Variant({ Simple: IDL.Null, Weighted: IDL.Null, Quadratic: IDL.Null });
+const VoteErrorIDL = IDL.Variant({
+  AlreadyVoted: IDL.Null,
+  VotingClosed: IDL.Null,
+  NotMember: IDL.Null,
+  MembershipExpired: IDL.Null,
+  ProposalCanceled: IDL.Null,
+  ProposalNotFound: IDL.Null,
+  RateLimited: IDL.Null,
+  RevisionMismatch: IDL.Null,
+  InsufficientVotingPower: IDL.Null,
+  InvalidRanking: IDL.Null,
+});
+const ProposalSortIDL = IDL.Variant({
+  Newest: IDL.Null,
+  Oldest: IDL.Null,
+  MostVotes: IDL.Null,
+  EndingSoon: IDL.Null,
+  LargestBudget: IDL.Null,
+});
+const ProposalIDL = IDL.Record({
+  id: IDL.Nat64,
+  title: IDL.Text,
+  proposer: IDL.Principal,
+  state: ProposalStateIDL,
+  scale: ProposalScaleIDL,
+  vertical: ProposalVerticalIDL,
+  votes_for: IDL.Nat64,
+  votes_against: IDL.Nat64,
+  votes_abstain: IDL.Nat64,
+  quorum_reached: IDL.Bool,
+  voting_ends_at: IDL.Nat64,
+  created_at: IDL.Nat64,
+  revision: IDL.Nat32,
+  voting_mode: VotingModeIDL,
+  budget_total: IDL.Nat64, // Whole DOM
+  think_tank_output: IDL.Text, // JSON-encoded ThinkTankOutput
+});
+const VoteTallyIDL = IDL.Record({
+  yes: IDL.Nat64,
+  no: IDL.Nat64,
+  abstain: IDL.Nat64,
+  quorum_required: IDL.Nat64,
+  quorum_met: IDL.Bool,
+  passing_threshold: IDL.Nat8,
+  delegated: IDL.Nat64,
+  voting_mode: VotingModeIDL,
+  weighted_yes: IDL.Nat64,
+  weighted_no: IDL.Nat64,
+  weighted_abstain: IDL.Nat64,
+});
+const VoteRecordIDL = IDL.Record({
+  proposal_id: IDL.Nat64,
+  choice: VoteChoiceIDL,
+  voted_at: IDL.Nat64,
+  tx_id: IDL.Text,
+  cast_by_delegate: IDL.Opt(IDL.Principal),
+  revision: IDL.Nat32,
+  weight: IDL.Nat64, // 1 on simple proposals
+  credits: IDL.Opt(IDL.Nat64), // Quadratic proposals only
+});
+const VotingPowerIDL = IDL.Record({
+  voting_mode: VotingModeIDL,
+  balance: IDL.Nat, // e8s held at snapshot_at
+  snapshot_at: IDL.Nat64,
+});
+const BallotOptionIDL = IDL.Record({
+  id: IDL.Text,
+  label: IDL.Text,
+  description: IDL.Opt(IDL.Text),
+});
+const RankedBallotsIDL = IDL.Record({
+  options: IDL.Vec(BallotOptionIDL),
+  ballots: IDL.Vec(IDL.Vec(IDL.Text)), // Option IDs, most preferred first
+  my_ranking: IDL.Opt(IDL.Vec(IDL.Text)),
+});
+const VoteReceiptIDL = IDL.Record({
+  proposal_id: IDL.Nat64,
+  voter: IDL.Principal,
+  choice: VoteChoiceIDL,
+  voted_at: IDL.Nat64,
+  tx_id: IDL.Text,
+  revision: IDL.Nat32,
+  weight: IDL.Nat64,
+  signature: IDL.Vec(IDL.Nat8), // Canister signature over the fields above
+});
+const ReceiptVerificationIDL = IDL.Variant({
+  Valid: IDL.Null,
+  InvalidSignature: IDL.Null,
+  VoteNotFound: IDL.Null,
+  Mismatch: IDL.Vec(IDL.Text), // Fields that differ from the recorded vote
+});
+const DelegationScopeIDL = IDL.Variant({ Global: IDL.Null, Vertical: ProposalVerticalIDL });
+const DelegationIDL = IDL.Record({
+  delegator: IDL.Principal,
+  delegate: IDL.Principal,
+  scope: DelegationScopeIDL,
+  created_at: IDL.Nat64,
+});
+const DelegationErrorIDL = IDL.Variant({
+  SelfDelegation: IDL.Null,
+  DelegateNotMember: IDL.Null,
+  CycleDetected: IDL.Null,
+  NotMember: IDL.Null,
+  NotFound: IDL.Null,
+});
+const ListProposalsArgsIDL = IDL.Record({
+  states: IDL.Vec(ProposalStateIDL),
+  search: IDL.Opt(IDL.Text),
+  proposer: IDL.Opt(IDL.Principal),
+  not_voted_by: IDL.Opt(IDL.Principal),
+  ids: IDL.Opt(IDL.Vec(IDL.Text)), // Restrict to these proposals; empty matches none
+  verticals: IDL.Vec(ProposalVerticalIDL),
+  scales: IDL.Vec(ProposalScaleIDL),
+  min_budget: IDL.Opt(IDL.Nat64),
+  max_budget: IDL.Opt(IDL.Nat64),
+  sort: ProposalSortIDL,
+  offset: IDL.Nat64,
+  limit: IDL.Nat64,
+  cursor: IDL.Opt(IDL.Text), // Opaque; replaces offset when set
+});
+const ProposalCountsIDL = IDL.Record({
+  pending: IDL.Nat64,
+  active: IDL.Nat64,
+  passed: IDL.Nat64,
+  rejected: IDL.Nat64,
+  expired: IDL.Nat64,
+  withdrawn: IDL.Nat64,
+});
+const SubmitProposalArgsIDL = IDL.Record({
+  title: IDL.Text,
+  description: IDL.Text,
+  scale: ProposalScaleIDL,
+  vertical: ProposalVerticalIDL,
+  think_tank_output: IDL.Text, // JSON-encoded ThinkTankOutput
+  think_tank_request_id: IDL.Text,
+  voting_mode: IDL.Opt(VotingModeIDL),
+  options: IDL.Opt(IDL.Vec(BallotOptionIDL)), // Ranked-choice proposals only
+});
+const AmendProposalArgsIDL = IDL.Record({
+  title: IDL.Opt(IDL.Text),
+  think_tank_output: IDL.Text, // JSON-encoded ThinkTankOutput
+  summary: IDL.Text,
+});
+const AmendErrorIDL = IDL.Variant({
+  NotProposer: IDL.Null,
+  NotPending: IDL.Null,
+  NoChanges: IDL.Null,
+  ProposalNotFound: IDL.Null,
+});
+const ProposalRevisionIDL = IDL.Record({
+  revision: IDL.Nat32,
+  title: IDL.Text,
+  think_tank_output: IDL.Text, // JSON-encoded ThinkTankOutput
+  summary: IDL.Text,
+  created_at: IDL.Nat64,
+});
+const governanceIdl = IDL.Service({
+  submit_proposal: IDL.Func(
+    [SubmitProposalArgsIDL],
+    [IDL.Variant({ Ok: IDL.Nat64, Err: IDL.Text })],
+    [],
+  ),
+  get_proposal: IDL.Func([IDL.Nat64], [IDL.Opt(ProposalIDL)], ['query']),
+  list_proposals: IDL.Func(
+    [ListProposalsArgsIDL],
+    [
+      IDL.Record({
+        items: IDL.Vec(ProposalIDL),
+        total: IDL.Nat64,
+        next_cursor: IDL.Opt(IDL.Text),
+      }),
+    ],
+    ['query'],
+  ),
+  get_proposal_counts: IDL.Func([], [ProposalCountsIDL], ['query']),
+  get_vertical_counts: IDL.Func(
+    [],
+    [IDL.Vec(IDL.Tuple(ProposalVerticalIDL, IDL.Nat64))],
+    ['query'],
+  ),
+  get_vote_tally: IDL.Func(
+    [IDL.Nat64],
+    [IDL.Variant({ Ok: VoteTallyIDL, Err: IDL.Text })],
+    ['query'],
+  ),
+  cast_vote: IDL.Func(
+    [IDL.Nat64, VoteChoiceIDL, IDL.Opt(IDL.Nat32), IDL.Opt(IDL.Nat64)],
+    [IDL.Variant({ Ok: IDL.Text, Err: VoteErrorIDL })],
+    [],
+  ),
+  get_my_vote: IDL.Func([IDL.Nat64], [IDL.Opt(VoteRecordIDL)], ['query']),
+  set_delegation: IDL.Func(
+    [IDL.Principal, DelegationScopeIDL],
+    [IDL.Variant({ Ok: DelegationIDL, Err: DelegationErrorIDL })],
+    [],
+  ),
+  revoke_delegation: IDL.Func(
+    [DelegationScopeIDL],
+    [IDL.Variant({ Ok: IDL.Null, Err: DelegationErrorIDL })],
+    [],
+  ),
+  list_my_delegations: IDL.Func(
+    [],
+    [IDL.Record({ given: IDL.Vec(DelegationIDL), received: IDL.Vec(DelegationIDL) })],
+    ['query'],
+  ),
+  amend_proposal: IDL.Func(
+    [IDL.Nat64, AmendProposalArgsIDL],
+    [IDL.Variant({ Ok: IDL.Nat32, Err: AmendErrorIDL })],
+    [],
+  ),
+  get_proposal_revisions: IDL.Func([IDL.Nat64], [IDL.Vec(ProposalRevisionIDL)], ['query']),
+  get_voting_power: IDL.Func([IDL.Nat64], [IDL.Opt(VotingPowerIDL)], ['query']),
+  cast_ranked_vote: IDL.Func(
+    [IDL.Nat64, IDL.Vec(IDL.Text), IDL.Opt(IDL.Nat32)],
+    [IDL.Variant({ Ok: IDL.Text, Err: VoteErrorIDL })],
+    [],
+  ),
+  get_ranked_ballots: IDL.Func([IDL.Nat64], [IDL.Opt(RankedBallotsIDL)], ['query']),
+  get_vote_receipt: IDL.Func([IDL.Nat64], [IDL.Opt(VoteReceiptIDL)], ['query']),
+  verify_vote_receipt: IDL.Func([VoteReceiptIDL], [ReceiptVerificationIDL], ['query']),
+});
 
-  // Simulate network delay
-  await new Promise((resolve) => setTimeout(resolve, 1500));
+/** Candid proposal state → detail status */
+const STATE_TO_STATUS: Record<string, ProposalStatus['status']> = {
+  Pending: 'pending',
+  Active: 'active',
+  Passed: 'passed',
+  Rejected: 'rejected',
+  Expired: 'expired',
+  Withdrawn: 'withdrawn',
+};
 
-  // Simulate occasional failures for testing (disabled for now to test flow)
-  // if (Math.random() < 0.1) {
-  //   return {
-  //     success: false,
-  //     error: {
-  //       code: 'MOCK_ERROR',
-  //       message: 'Simulated submission failure for testing',
-  //     },
-  //   };
-  // }
+/** Candid proposal state → list status (rejected/expired/withdrawn all read as Failed) */
+const STATE_TO_LIST_STATUS: Record<string, ProposalListItem['status']> = {
+  Pending: 'Pending',
+  Active: 'Active',
+  Passed: 'Passed',
+  Rejected: 'Failed',
+  Expired: 'Failed',
+  Withdrawn: 'Failed',
+};
 
-  const proposalId = `prop-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+/** List status filter → Candid proposal states */
+const LIST_STATUS_TO_STATES: Record<ProposalListItem['status'], string[]> = {
+  Pending: ['Pending'],
+  Active: ['Active'],
+  Passed: ['Passed'],
+  Failed: ['Rejected', 'Expired', 'Withdrawn'],
+};
 
-  // Store the proposal in the mock store
-  addProposal({
-    id: proposalId,
-    title: request.title,
-    prompt: request.prompt,
-    scale: request.scale,
-    vertical: request.vertical,
-    thinkTankOutput: request.thinkTankOutput,
-    thinkTankRequestId: request.thinkTankRequestId,
-  });
+const SORT_TO_CANDID: Record<ProposalSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  mostVotes: 'MostVotes',
+  endingSoon: 'EndingSoon',
+  largestBudget: 'LargestBudget',
+};
 
-  return {
-    success: true,
-    proposalId,
-  };
-}
+const VOTE_TO_CANDID: Record<VoteChoice, string> = {
+  yes: 'Yes',
+  no: 'No',
+  abstain: 'Abstain',
+};
+
+const CANDID_TO_VOTE: Record<string, VoteChoice> = {
+  Yes: 'yes',
+  No: 'no',
+  Abstain: 'abstain',
+};
+
+const VOTING_MODE_TO_CANDID: Record<VotingMode, string> = {
+  simple: 'Simple',
+  weighted: 'Weighted',
+  quadratic: 'Quadratic',
+};
+
+const CANDID_TO_VOTING_MODE: Record<string, VotingMode> = {
+  Simple: 'simple',
+  Weighted: 'weighted',
+  Quadratic: 'quadratic',
+};
+
+/** Candid VoteError → client error code and user-facing message */
+const VOTE_ERRORS: Record<string, { code: VoteErrorCode; message: string }> = {
+  AlreadyVoted: {
+    code: 'ALREADY_VOTED',
+    message: 'You have already voted on this proposal. Votes are final and cannot be changed.',
+  },
+  VotingClosed: { code: 'VOTING_CLOSED', message: 'Voting has ended for this proposal.' },
+  NotMember: { code: 'NOT_MEMBER', message: 'Membership required to vote on proposals.' },
+  MembershipExpired: {
+    code: 'MEMBERSHIP_EXPIRED',
+    message: 'Your membership has expired. Renew to vote on proposals.',
+  },
+  ProposalCanceled: { code: 'PROPOSAL_CANCELED', message: 'This proposal has been canceled.' },
+  ProposalNotFound: { code: 'INVALID_PROPOSAL', message: 'Proposal not found.' },
+  RateLimited: {
+    code: 'RATE_LIMITED',
+    message: 'Too many requests. Please wait a moment and try again.',
+  },
+  RevisionMismatch: {
+    code: 'REVISION_CHANGED',
+    message:
+      'This proposal was amended after you opened it. Review the latest revision and vote again.',
+  },
+  InsufficientVotingPower: {
+    code: 'INSUFFICIENT_VOTING_POWER',
+    message: 'Your vote allocation exceeds the DOM you held when this proposal was created.',
+  },
+  InvalidRanking: {
+    code: 'INVALID_RANKING',
+    message: 'Rank at least one option, listing each option only once.',
+  },
+};
+
+/** Candid AmendError → client error code and user-facing message */
+const AMEND_ERRORS: Record<string, { code: AmendErrorCode; message: string }> = {
+  NotProposer: { code: 'NOT_PROPOSER', message: 'Only the proposer can amend this proposal.' },
+  NotPending: {
+    code: 'NOT_PENDING',
+    message: 'Proposals can only be amended while they are pending review.',
+  },
+  NoChanges: { code: 'NO_CHANGES', message: 'The amendment does not change the proposal.' },
+  ProposalNotFound: { code: 'INVALID_PROPOSAL', message: 'Proposal not found.' },
+};
+
+/** Candid DelegationError → client error code and user-facing message */
+const DELEGATION_ERRORS: Record<string, { code: DelegationErrorCode; message: string }> = {
+  SelfDelegation: {
+    code: 'SELF_DELEGATION',
+    message: 'You cannot delegate your vote to yourself.',
+  },
+  DelegateNotMember: {
+    code: 'DELEGATE_NOT_MEMBER',
+    message: 'Votes can only be delegated to active members.',
+  },
+  CycleDetected: {
+    code: 'DELEGATION_CYCLE',
+    message: 'This member already delegates to you, so the delegation would form a loop.',
+  },
+  NotMember: { code: 'NOT_MEMBER', message: 'Membership required to delegate your vote.' },
+  NotFound: { code: 'NOT_FOUND', message: 'No delegation found for this scope.' },
+};
 
 /**
- * Submit a proposal to the governance canister
+ * Extract the key from a Candid variant object, e.g. { Active: null } → 'Active'
  */
-export async function submitProposal(
-  request: SubmitProposalRequest
-): Promise<SubmitProposalResponse> {
-  log('info', 'Submitting proposal', { title: request.title, scale: request.scale });
-
-  // Use mock mode in development
-  if (isMockMode()) {
-    return mockSubmitProposal(request);
-  }
+function extractVariant(variant: Record<string, unknown>): string {
+  return Object.keys(variant)[0];
+}
 
-  try {
-    // TODO: Replace with actual IC Agent call when @dfinity/agent is configured
-    // const agent = new HttpAgent({ host: IC_HOST });
-    // const actor = Actor.createActor(idlFactory, {
-    //   agent,
-    //   canisterId: GOVERNANCE_CANISTER_ID,
-    // });
-    // const result = await actor.submit_proposal({
-    //   title: request.title,
-    //   description: request.prompt,
-    //   scale: request.scale,
-    //   vertical: request.vertical,
-    //   think_tank_output: request.thinkTankOutput,
-    //   think_tank_request_id: request.thinkTankRequestId,
-    // });
-
-    // For now, use mock
-    return mockSubmitProposal(request);
-  } catch (error) {
-    log('error', 'Proposal submission failed', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
+/**
+ * Build a Candid variant from its key, e.g. 'Active' → { Active: null }
+ */
+function toVariant(key: string): Record<string, null> {
+  return { [key]: null };
+}
 
-    return {
-      success: false,
-      error: {
-        code: 'SUBMISSION_FAILED',
-        message: error instanceof Error ? error.message : 'Failed to submit proposal',
-      },
-    };
-  }
+/**
+ * Convert IC nanosecond timestamp to milliseconds
+ */
+function nanosToMillis(nanos: bigint): number {
+  return Number(nanos / BigInt(1_000_000));
 }
 
 /**
- * Get proposal status by ID
+ * Parse a client proposal ID into the canister's nat64 ID.
+ * Returns null for IDs that can't exist on-chain (e.g. mock IDs).
  */
-export async function getProposalStatus(proposalId: string): Promise<ProposalStatus | null> {
-  log('info', 'Fetching proposal status', { proposalId });
+function toCanisterProposalId(proposalId: string): bigint | null {
+  if (!/^\d+$/.test(proposalId)) return null;
+  return BigInt(proposalId);
+}
 
-  if (isMockMode()) {
-    // Mock response - return active status to enable voting in demo mode
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    return {
-      id: proposalId,
-      status: 'active',
-      votesFor: 0,
-      votesAgainst: 0,
-      quorumReached: false,
-      votingEnds: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days
-    };
-  }
+/**
+ * Map a Candid Proposal record to the detail ProposalStatus shape
+ */
+function mapProposalStatus(p: Record<string, unknown>): ProposalStatus {
+  return {
+    id: String(p.id),
+    status: STATE_TO_STATUS[extractVariant(p.state as Record<string, unknown>)],
+    votesFor: Number(p.votes_for as bigint),
+    votesAgainst: Number(p.votes_against as bigint),
+    quorumReached: p.quorum_reached as boolean,
+    votingEnds: nanosToMillis(p.voting_ends_at as bigint),
+    proposer: (p.proposer as Principal).toText(),
+  };
+}
 
+/**
+ * Searchable text from a JSON-encoded ThinkTankOutput; empty when unreadable
+ */
+function parseSearchableText(
+  json: string
+): Pick<ProposalListItem, 'problemStatement' | 'proposedSolution' | 'budgetDescriptions'> {
   try {
-    // TODO: Replace with actual canister call
-    // For now, use mock response until canister interface is ready
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    const output = JSON.parse(json) as ThinkTankOutput;
     return {
-      id: proposalId,
-      status: 'active',
-      votesFor: 0,
-      votesAgainst: 0,
-      quorumReached: false,
-      votingEnds: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days
+      problemStatement: output.problemStatement,
+      proposedSolution: output.proposedSolution,
+      budgetDescriptions: output.budgetBreakdown.map(
+        (item) => `${item.category}: ${item.description}`
+      ),
     };
-  } catch (error) {
-    log('error', 'Failed to fetch proposal status', {
-      proposalId,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-    return null;
+  } catch {
+    return {};
   }
 }
 
-// Mock vote storage (in-memory for development)
-const mockUserVotes: Record<string, Record<string, UserVote>> = {};
-
 /**
- * Helper to create timeout promise
+ * Map a Candid Proposal record to a ProposalListItem
  */
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
-    ),
-  ]);
+function mapProposalListItem(p: Record<string, unknown>): ProposalListItem {
+  return {
+    id: String(p.id),
+    title: p.title as string,
+    proposer: (p.proposer as Principal).toText(),
+    status: STATE_TO_LIST_STATUS[extractVariant(p.state as Record<string, unknown>)],
+    votesFor: Number(p.votes_for as bigint),
+    votesAgainst: Number(p.votes_against as bigint),
+    votesAbstain: Number(p.votes_abstain as bigint),
+    votingEndsAt: nanosToMillis(p.voting_ends_at as bigint),
+    createdAt: nanosToMillis(p.created_at as bigint),
+    revision: p.revision as number,
+    votingMode: CANDID_TO_VOTING_MODE[extractVariant(p.voting_mode as Record<string, unknown>)],
+    vertical: extractVariant(p.vertical as Record<string, unknown>) as ProposalVertical,
+    scale: extractVariant(p.scale as Record<string, unknown>).toLowerCase() as ProposalScale,
+    budgetTotal: Number(p.budget_total as bigint),
+    ...parseSearchableText(p.think_tank_output as string),
+  };
 }
 
 /**
- * Validate VoteTally response shape
+ * Map a Candid VoteTally record to the store VoteTally type
  */
-function isValidVoteTally(data: unknown): data is VoteTally {
-  if (!data || typeof data !== 'object') return false;
-  const tally = data as Record<string, unknown>;
-  return (
-    typeof tally.yes === 'number' &&
-    typeof tally.no === 'number' &&
-    typeof tally.abstain === 'number' &&
-    typeof tally.quorumRequired === 'number' &&
-    typeof tally.quorumMet === 'boolean' &&
-    typeof tally.passingThreshold === 'number'
-  );
+function mapVoteTally(t: Record<string, unknown>): VoteTally {
+  const yes = Number(t.yes as bigint);
+  const no = Number(t.no as bigint);
+  const abstain = Number(t.abstain as bigint);
+  const votingMode =
+    CANDID_TO_VOTING_MODE[extractVariant(t.voting_mode as Record<string, unknown>)];
+  return {
+    yes,
+    no,
+    abstain,
+    totalVotes: yes + no + abstain,
+    quorumRequired: Number(t.quorum_required as bigint),
+    quorumMet: t.quorum_met as boolean,
+    passingThreshold: t.passing_threshold as number,
+    lastUpdated: Date.now(),
+    delegatedVotes: Number(t.delegated as bigint),
+    ...(votingMode !== 'simple' && {
+      votingMode,
+      weighted: {
+        yes: Number(t.weighted_yes as bigint),
+        no: Number(t.weighted_no as bigint),
+        abstain: Number(t.weighted_abstain as bigint),
+      },
+    }),
+  };
 }
 
 /**
- * Mock castVote for development
+ * Map a Candid VoteRecord to the store UserVote type
  */
-async function mockCastVote(proposalId: string, vote: VoteChoice): Promise<CastVoteResponse> {
-  log('info', 'Mock vote cast', { proposalId, vote });
+function mapVoteRecord(v: Record<string, unknown>): UserVote {
+  const castBy = v.cast_by_delegate as Principal[];
+  const credits = v.credits as bigint[];
+  return {
+    proposalId: String(v.proposal_id),
+    vote: CANDID_TO_VOTE[extractVariant(v.choice as Record<string, unknown>)],
+    votedAt: nanosToMillis(v.voted_at as bigint),
+    transactionId: v.tx_id as string,
+    ...(castBy.length > 0 && { delegate: castBy[0].toText() }),
+    revision: v.revision as number,
+    weight: Number(v.weight as bigint),
+    ...(credits.length > 0 && { credits: Number(credits[0]) }),
+  };
+}
 
-  // Simulate network delay
-  await new Promise((resolve) => setTimeout(resolve, 1500));
+/**
+ * Map a Candid VotingPower record to the store type
+ */
+function mapVotingPower(proposalId: string, p: Record<string, unknown>): VotingPower {
+  return {
+    proposalId,
+    votingMode: CANDID_TO_VOTING_MODE[extractVariant(p.voting_mode as Record<string, unknown>)],
+    balance: toWholeTokens(p.balance as bigint),
+    snapshotAt: nanosToMillis(p.snapshot_at as bigint),
+  };
+}
 
-  // Check if proposal exists in mock store
-  const proposal = getProposalFromStore(proposalId);
-  if (!proposal) {
-    return {
-      success: false,
-      error: {
-        code: 'INVALID_PROPOSAL',
-        message: 'Proposal not found.',
-      },
-    };
-  }
+/**
+ * Map a Candid RankedBallots record to the store type
+ */
+function mapRankedBallots(proposalId: string, r: Record<string, unknown>): RankedBallots {
+  const options = r.options as Record<string, unknown>[];
+  const myRanking = r.my_ranking as string[][];
+  return {
+    proposalId,
+    options: options.map((o) => {
+      const description = o.description as string[];
+      return {
+        id: o.id as string,
+        label: o.label as string,
+        ...(description.length > 0 && { description: description[0] }),
+      };
+    }),
+    ballots: r.ballots as string[][],
+    ...(myRanking.length > 0 && { myRanking: myRanking[0] }),
+    lastUpdated: Date.now(),
+  };
+}
 
-  // Check if already voted
-  const userId = 'mock-user'; // In real app, would use principal
-  if (mockUserVotes[userId]?.[proposalId]) {
-    return {
-      success: false,
-      error: {
-        code: 'ALREADY_VOTED',
-        message: 'You have already voted on this proposal. Votes are final and cannot be changed.',
-      },
-    };
-  }
+/** Candid VoteReceipt field → receipt field, for reporting mismatches */
+const RECEIPT_FIELDS: Record<string, keyof VoteReceipt> = {
+  proposal_id: 'proposalId',
+  voter: 'voter',
+  choice: 'vote',
+  voted_at: 'votedAt',
+  tx_id: 'transactionId',
+  revision: 'revision',
+  weight: 'weight',
+};
 
-  // Check if voting is still open (mock: always open for active proposals)
-  if (proposal.status !== 'active') {
-    return {
-      success: false,
-      error: {
-        code: 'VOTING_CLOSED',
-        message: 'Voting has ended for this proposal.',
-      },
-    };
-  }
+/**
+ * Map a Candid VoteReceipt record to the store type
+ */
+function mapVoteReceipt(r: Record<string, unknown>): VoteReceipt {
+  const votedAt = r.voted_at as bigint;
+  return {
+    canisterId: GOVERNANCE_CANISTER_ID,
+    proposalId: String(r.proposal_id),
+    voter: (r.voter as Principal).toText(),
+    vote: CANDID_TO_VOTE[extractVariant(r.choice as Record<string, unknown>)],
+    votedAt: nanosToMillis(votedAt),
+    votedAtNanos: votedAt.toString(),
+    transactionId: r.tx_id as string,
+    revision: r.revision as number,
+    weight: Number(r.weight as bigint),
+    signature: bytesToHex(Uint8Array.from(r.signature as ArrayLike<number>)),
+  };
+}
 
-  // Store the vote
-  if (!mockUserVotes[userId]) {
-    mockUserVotes[userId] = {};
+/**
+ * Map a Candid ReceiptVerification variant to the store type
+ */
+function mapReceiptVerification(v: Record<string, unknown>): ReceiptVerification {
+  const key = extractVariant(v);
+  const checkedAt = Date.now();
+  switch (key) {
+    case 'Valid':
+      return { status: 'valid', checkedAt };
+    case 'InvalidSignature':
+      return { status: 'invalid-signature', checkedAt };
+    case 'Mismatch':
+      return {
+        status: 'mismatch',
+        mismatchedFields: (v.Mismatch as string[]).map((field) => RECEIPT_FIELDS[field] ?? field),
+        checkedAt,
+      };
+    default:
+      return { status: 'not-found', checkedAt };
   }
+}
 
-  const transactionId = `vote-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-  const userVote: UserVote = {
-    proposalId,
-    vote,
-    votedAt: Date.now(),
-    transactionId,
+/**
+ * Map a Candid ProposalRevision record to the store type
+ */
+function mapProposalRevision(r: Record<string, unknown>): ProposalRevision {
+  return {
+    revision: r.revision as number,
+    title: r.title as string,
+    thinkTankOutput: JSON.parse(r.think_tank_output as string) as ThinkTankOutput,
+    summary: r.summary as string,
+    createdAt: nanosToMillis(r.created_at as bigint),
   };
-  mockUserVotes[userId][proposalId] = userVote;
+}
 
-  // Update proposal votes in store
-  addVoteToStore(proposalId, vote === 'yes');
+/**
+ * Build a Candid DelegationScope from a client scope
+ */
+function toDelegationScope(scope: DelegationScope) {
+  return scope === 'global' ? { Global: null } : { Vertical: toVariant(scope) };
+}
 
+/**
+ * Map a Candid Delegation record to the store Delegation type
+ */
+function mapDelegation(d: Record<string, unknown>): Delegation {
+  const scope = d.scope as { Global?: null; Vertical?: Record<string, null> };
   return {
-    success: true,
-    transactionId,
+    delegator: (d.delegator as Principal).toText(),
+    delegate: (d.delegate as Principal).toText(),
+    scope: scope.Vertical ? (extractVariant(scope.Vertical) as ProposalVertical) : 'global',
+    createdAt: nanosToMillis(d.created_at as bigint),
   };
 }
 
 /**
- * Cast a vote on a proposal
- *
- * @param proposalId - ID of the proposal to vote on
- * @param vote - Vote choice: 'yes', 'no', or 'abstain'
- * @returns Promise resolving to the vote result
+ * Map a Candid ProposalCounts record to list status counts
  */
-export async function castVote(proposalId: string, vote: VoteChoice): Promise<CastVoteResponse> {
-  log('info', 'Casting vote', { proposalId, vote });
-
-  if (isMockMode()) {
-    return withTimeout(mockCastVote(proposalId, vote), CANISTER_CALL_TIMEOUT_MS);
-  }
-
-  try {
-    // TODO: Replace with actual IC Agent call
-    return await withTimeout(mockCastVote(proposalId, vote), CANISTER_CALL_TIMEOUT_MS);
-  } catch (error) {
-    log('error', 'Vote cast failed', {
-      proposalId,
-      vote,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
+function mapProposalCounts(c: Record<string, bigint>): ProposalStatusCounts {
+  return {
+    Active: Number(c.active),
+    Passed: Number(c.passed),
+    Failed: Number(c.rejected + c.expired + c.withdrawn),
+    Pending: Number(c.pending),
+  };
+}
 
-    return {
-      success: false,
-      error: {
-        code: 'NETWORK_ERROR',
-        message:
-          error instanceof Error && error.message === 'Request timeout'
-            ? 'Vote request timed out. Please check your connection and try again.'
-            : 'Failed to cast vote. Please try again.',
-      },
-    };
+/**
+ * Map Candid (vertical, count) pairs to vertical counts, zero-filling missing verticals
+ */
+function mapVerticalCounts(pairs: [Record<string, null>, bigint][]): ProposalVerticalCounts {
+  const counts: ProposalVerticalCounts = {
+    Housing: 0,
+    Food: 0,
+    Energy: 0,
+    Education: 0,
+    Community: 0,
+    Infrastructure: 0,
+    Other: 0,
+  };
+  for (const [vertical, count] of pairs) {
+    counts[extractVariant(vertical) as ProposalVertical] = Number(count);
   }
+  return counts;
 }
 
 /**
- * Get user's vote on a proposal
- *
- * @param proposalId - ID of the proposal
- * @returns Promise resolving to the user's vote or null if not voted
+ * Create a governance actor. Queries use an anonymous agent; pass the
+ * member's identity for update calls and caller-scoped queries.
  */
-export async function getUserVote(proposalId: string): Promise<UserVote | null> {
-  log('info', 'Fetching user vote', { proposalId });
-
-  if (isMockMode()) {
-    await new Promise((resolve) => setTimeout(resolve, 300));
-    const userId = 'mock-user';
-    const vote = mockUserVotes[userId]?.[proposalId] ?? null;
-    return vote;
-  }
+function createGovernanceActor(identity?: Identity) {
+  const agent = HttpAgent.createSync({ host: IC_HOST, identity });
+  return Actor.createActor(() => governanceIdl, {
+    agent,
+    canisterId: GOVERNANCE_CANISTER_ID,
+  });
+}
 
-  try {
-    // TODO: Replace with actual canister call
-    await new Promise((resolve) => setTimeout(resolve, 300));
-    const userId = 'mock-user';
-    return mockUserVotes[userId]?.[proposalId] ?? null;
-  } catch (error) {
-    log('error', 'Failed to fetch user vote', {
-      proposalId,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-    return null;
-  }
+/**
+ * Build list_proposals arguments from client filters
+ */
+function buildListArgs(
+  filters: ProposalFilters,
+  sort: ProposalSort,
+  offset: number,
+  limit: number,
+  caller: Principal | null,
+  cursor: string | null = null,
+  watchedProposalIds?: string[]
+) {
+  return {
+    states: filters.status.flatMap((s) => LIST_STATUS_TO_STATES[s]).map(toVariant),
+    search: filters.search && filters.search.length >= 2 ? [filters.search] : [],
+    proposer: filters.myProposals && caller ? [caller] : [],
+    not_voted_by: filters.notVoted && caller ? [caller] : [],
+    ids: filters.watching ? [watchedProposalIds ?? []] : [],
+    verticals: filters.verticals.map(toVariant),
+    scales: filters.scales.map((s) => toVariant(s.charAt(0).toUpperCase() + s.slice(1))),
+    min_budget: filters.budgetMin !== null ? [BigInt(filters.budgetMin)] : [],
+    max_budget: filters.budgetMax !== null ? [BigInt(filters.budgetMax)] : [],
+    sort: toVariant(SORT_TO_CANDID[sort]),
+    offset: BigInt(offset),
+    limit: BigInt(limit),
+    cursor: cursor ? [cursor] : [],
+  };
 }
 
 /**
- * Get vote tally for a proposal
- *
- * @param proposalId - ID of the proposal
- * @returns Promise resolving to the vote tally
+ * Create the Candid-backed governance adapter
  */
-export async function getVoteTally(proposalId: string): Promise<VoteTally> {
-  log('info', 'Fetching vote tally', { proposalId });
+export function createCanisterGovernanceAdapter(): GovernanceAdapter {
+  return {
+    async submitProposal(request) {
+      const identity = getAuthenticatedIdentity();
+      if (!identity) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_AUTHENTICATED',
+            message: 'Internet Identity not connected. Please log in with II to submit proposals.',
+          },
+        };
+      }
 
-  if (isMockMode()) {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    // Get proposal from store to calculate tally
-    const proposal = getProposalFromStore(proposalId);
-    const votesFor = proposal?.votesFor ?? 0;
-    const votesAgainst = proposal?.votesAgainst ?? 0;
-    const abstain = 0; // Mock: no abstain tracking in current proposal store
-
-    const tally: VoteTally = {
-      yes: votesFor,
-      no: votesAgainst,
-      abstain,
-      totalVotes: votesFor + votesAgainst + abstain,
-      quorumRequired: 10, // Mock: 10 votes needed for quorum
-      quorumMet: votesFor + votesAgainst + abstain >= 10,
-      passingThreshold: 51, // 51% needed to pass
-      lastUpdated: Date.now(),
-    };
+      const actor = createGovernanceActor(identity);
+      const result = (await actor.submit_proposal({
+        title: request.title,
+        description: request.prompt,
+        scale: toVariant(request.scale.charAt(0).toUpperCase() + request.scale.slice(1)),
+        vertical: toVariant(request.vertical),
+        think_tank_output: JSON.stringify(request.thinkTankOutput),
+        think_tank_request_id: request.thinkTankRequestId,
+        voting_mode: request.votingMode
+          ? [toVariant(VOTING_MODE_TO_CANDID[request.votingMode])]
+          : [],
+        options: request.ballotOptions
+          ? [
+              request.ballotOptions.map((o) => ({
+                id: o.id,
+                label: o.label,
+                description: o.description ? [o.description] : [],
+              })),
+            ]
+          : [],
+      })) as Record<string, unknown>;
+
+      if ('Err' in result) {
+        return {
+          success: false,
+          error: { code: 'SUBMISSION_FAILED', message: String(result.Err) },
+        };
+      }
+      return { success: true, proposalId: String(result.Ok) };
+    },
+
+    async getProposalStatus(proposalId) {
+      const id = toCanisterProposalId(proposalId);
+      if (id === null) return null;
+
+      // Candid opt returns [] (none) or [value] (some)
+      const result = (await createGovernanceActor().get_proposal(id)) as Record<string, unknown>[];
+      if (result.length === 0) return null;
+      return mapProposalStatus(result[0]);
+    },
+
+    async castVote(proposalId, vote, revision, allocation) {
+      const id = toCanisterProposalId(proposalId);
+      if (id === null) {
+        return { success: false, error: VOTE_ERRORS.ProposalNotFound };
+      }
 
-    return tally;
-  }
+      const identity = getAuthenticatedIdentity();
+      if (!identity) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_AUTHENTICATED',
+            message: 'Internet Identity not connected. Please log in with II to vote.',
+          },
+        };
+      }
 
-  try {
-    // TODO: Replace with actual canister call
-    const response = await withTimeout(
-      (async () => {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-        const proposal = getProposalFromStore(proposalId);
-        const votesFor = proposal?.votesFor ?? 0;
-        const votesAgainst = proposal?.votesAgainst ?? 0;
-        const abstain = 0;
+      const actor = createGovernanceActor(identity);
+      const result = (await actor.cast_vote(
+        id,
+        toVariant(VOTE_TO_CANDID[vote]),
+        revision === undefined ? [] : [revision],
+        allocation === undefined ? [] : [BigInt(allocation)]
+      )) as Record<string, unknown>;
+
+      if ('Err' in result) {
+        const errKey = extractVariant(result.Err as Record<string, unknown>);
         return {
-          yes: votesFor,
-          no: votesAgainst,
-          abstain,
-          totalVotes: votesFor + votesAgainst + abstain,
-          quorumRequired: 10,
-          quorumMet: votesFor + votesAgainst + abstain >= 10,
-          passingThreshold: 51,
-          lastUpdated: Date.now(),
+          success: false,
+          error: VOTE_ERRORS[errKey] ?? {
+            code: 'NETWORK_ERROR',
+            message: 'Failed to cast vote. Please try again.',
+          },
         };
-      })(),
-      CANISTER_CALL_TIMEOUT_MS
-    );
+      }
+      return { success: true, transactionId: result.Ok as string };
+    },
+
+    async getUserVote(proposalId) {
+      const id = toCanisterProposalId(proposalId);
+      const identity = getAuthenticatedIdentity();
+      if (id === null || !identity) return null;
+
+      const result = (await createGovernanceActor(identity).get_my_vote(id)) as Record<
+        string,
+        unknown
+      >[];
+      if (result.length === 0) return null;
+      return mapVoteRecord(result[0]);
+    },
+
+    async getVoteTally(proposalId) {
+      const id = toCanisterProposalId(proposalId);
+      if (id === null) throw new Error(`Unknown proposal: ${proposalId}`);
+
+      const result = (await createGovernanceActor().get_vote_tally(id)) as Record<string, unknown>;
+      if ('Err' in result) throw new Error(String(result.Err));
+      return mapVoteTally(result.Ok as Record<string, unknown>);
+    },
+
+    async listProposals(query) {
+      const identity = getAuthenticatedIdentity();
+      const caller = identity ? identity.getPrincipal() : null;
+      const isCursorPaged = query.cursor !== undefined;
+      const offset = isCursorPaged ? 0 : (query.page - 1) * query.pageSize;
+
+      const result = (await createGovernanceActor(identity ?? undefined).list_proposals(
+        buildListArgs(
+          query.filters,
+          query.sort,
+          offset,
+          query.pageSize,
+          caller,
+          query.cursor,
+          query.watchedProposalIds
+        )
+      )) as { items: Record<string, unknown>[]; total: bigint; next_cursor: [] | [string] };
+
+      return {
+        items: result.items.map(mapProposalListItem),
+        total: Number(result.total),
+        page: query.page,
+        pageSize: query.pageSize,
+        ...(isCursorPaged && { nextCursor: result.next_cursor[0] ?? null }),
+      };
+    },
+
+    async countProposals(filters, watchedProposalIds) {
+      const identity = getAuthenticatedIdentity();
+      const caller = identity ? identity.getPrincipal() : null;
+
+      // A zero-length page still reports the total match count
+      const result = (await createGovernanceActor(identity ?? undefined).list_proposals(
+        buildListArgs(filters, 'newest', 0, 0, caller, null, watchedProposalIds)
+      )) as { total: bigint };
+      return Number(result.total);
+    },
+
+    async getProposalCountsByStatus() {
+      const result = (await createGovernanceActor().get_proposal_counts()) as Record<
+        string,
+        bigint
+      >;
+      return mapProposalCounts(result);
+    },
+
+    async getProposalCountsByVertical() {
+      const result = (await createGovernanceActor().get_vertical_counts()) as [
+        Record<string, null>,
+        bigint,
+      ][];
+      return mapVerticalCounts(result);
+    },
+
+    async setDelegation(delegate, scope) {
+      const identity = getAuthenticatedIdentity();
+      if (!identity) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_AUTHENTICATED',
+            message: 'Internet Identity not connected. Please log in with II to delegate.',
+          },
+        };
+      }
 
-    if (!isValidVoteTally(response)) {
-      throw new Error('Invalid vote tally response structure');
-    }
+      const actor = createGovernanceActor(identity);
+      const result = (await actor.set_delegation(
+        Principal.fromText(delegate),
+        toDelegationScope(scope)
+      )) as Record<string, unknown>;
 
-    return response;
-  } catch (error) {
-    log('error', 'Failed to fetch vote tally', {
-      proposalId,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-    // Return empty tally on error
-    return {
-      yes: 0,
-      no: 0,
-      abstain: 0,
-      totalVotes: 0,
-      quorumRequired: 10,
-      quorumMet: false,
-      passingThreshold: 51,
-      lastUpdated: Date.now(),
-    };
+      if ('Err' in result) {
+        const errKey = extractVariant(result.Err as Record<string, unknown>);
+        return { success: false, error: DELEGATION_ERRORS[errKey] };
+      }
+      return { success: true, delegation: mapDelegation(result.Ok as Record<string, unknown>) };
+    },
+
+    async revokeDelegation(scope) {
+      const identity = getAuthenticatedIdentity();
+      if (!identity) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_AUTHENTICATED',
+            message: 'Internet Identity not connected. Please log in with II to delegate.',
+          },
+        };
+      }
+
+      const actor = createGovernanceActor(identity);
+      const result = (await actor.revoke_delegation(toDelegationScope(scope))) as Record<
+        string,
+        unknown
+      >;
+
+      if ('Err' in result) {
+        const errKey = extractVariant(result.Err as Record<string, unknown>);
+        return { success: false, error: DELEGATION_ERRORS[errKey] };
+      }
+      return { success: true };
+    },
+
+    async listDelegations() {
+      const identity = getAuthenticatedIdentity();
+      if (!identity) return { given: [], received: [] };
+
+      const result = (await createGovernanceActor(identity).list_my_delegations()) as {
+        given: Record<string, unknown>[];
+        received: Record<string, unknown>[];
+      };
+      return {
+        given: result.given.map(mapDelegation),
+        received: result.received.map(mapDelegation),
+      };
+    },
+
+    async amendProposal(request) {
+      const id = toCanisterProposalId(request.proposalId);
+      if (id === null) {
+        return { success: false, error: AMEND_ERRORS.ProposalNotFound };
+      }
+
+      const identity = getAuthenticatedIdentity();
+      if (!identity) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_AUTHENTICATED',
+            message: 'Internet Identity not connected. Please log in with II to amend proposals.',
+          },
+        };
+      }
+
+      const actor = createGovernanceActor(identity);
+      const result = (await actor.amend_proposal(id, {
+        title: request.title === undefined ? [] : [request.title],
+        think_tank_output: JSON.stringify(request.thinkTankOutput),
+        summary: request.summary,
+      })) as Record<string, unknown>;
+
+      if ('Err' in result) {
+        const errKey = extractVariant(result.Err as Record<string, unknown>);
+        return { success: false, error: AMEND_ERRORS[errKey] };
+      }
+      return { success: true, revision: result.Ok as number };
+    },
+
+    async getProposalRevisions(proposalId) {
+      const id = toCanisterProposalId(proposalId);
+      if (id === null) return [];
+
+      const result = (await createGovernanceActor().get_proposal_revisions(id)) as Record<
+        string,
+        unknown
+      >[];
+      return result.map(mapProposalRevision);
+    },
+
+    async getVotingPower(proposalId) {
+      const id = toCanisterProposalId(proposalId);
+      const identity = getAuthenticatedIdentity();
+      if (id === null || !identity) return null;
+
+      // The canister snapshots member balances when the proposal is created
+      const result = (await createGovernanceActor(identity).get_voting_power(id)) as Record<
+        string,
+        unknown
+      >[];
+      if (result.length === 0) return null;
+      return mapVotingPower(proposalId, result[0]);
+    },
+
+    async castRankedVote(proposalId, ranking, revision) {
+      const id = toCanisterProposalId(proposalId);
+      if (id === null) {
+        return { success: false, error: VOTE_ERRORS.ProposalNotFound };
+      }
+
+      const identity = getAuthenticatedIdentity();
+      if (!identity) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_AUTHENTICATED',
+            message: 'Internet Identity not connected. Please log in with II to vote.',
+          },
+        };
+      }
+
+      const actor = createGovernanceActor(identity);
+      const result = (await actor.cast_ranked_vote(
+        id,
+        ranking,
+        revision === undefined ? [] : [revision]
+      )) as Record<string, unknown>;
+
+      if ('Err' in result) {
+        const errKey = extractVariant(result.Err as Record<string, unknown>);
+        return {
+          success: false,
+          error: VOTE_ERRORS[errKey] ?? {
+            code: 'NETWORK_ERROR',
+            message: 'Failed to cast vote. Please try again.',
+          },
+        };
+      }
+      return { success: true, transactionId: result.Ok as string };
+    },
+
+    async getRankedBallots(proposalId) {
+      const id = toCanisterProposalId(proposalId);
+      if (id === null) return null;
+
+      // my_ranking is resolved from the caller, so query with the member's identity if signed in
+      const identity = getAuthenticatedIdentity() ?? undefined;
+      const result = (await createGovernanceActor(identity).get_ranked_ballots(id)) as Record<
+        string,
+        unknown
+      >[];
+      if (result.length === 0) return null;
+      return mapRankedBallots(proposalId, result[0]);
+    },
+
+    async getVoteReceipt(proposalId) {
+      const id = toCanisterProposalId(proposalId);
+      const identity = getAuthenticatedIdentity();
+      if (id === null || !identity) return null;
+
+      const result = (await createGovernanceActor(identity).get_vote_receipt(id)) as Record<
+        string,
+        unknown
+      >[];
+      if (result.length === 0) return null;
+      return mapVoteReceipt(result[0]);
+    },
+
+    async verifyVoteReceipt(receipt) {
+      if (receipt.canisterId !== GOVERNANCE_CANISTER_ID) {
+        return { status: 'wrong-canister', checkedAt: Date.now() };
+      }
+      const id = toCanisterProposalId(receipt.proposalId);
+      let voter: Principal;
+      try {
+        voter = Principal.fromText(receipt.voter);
+      } catch {
+        voter = Principal.anonymous();
+      }
+      if (id === null || voter.isAnonymous()) {
+        return { status: 'not-found', checkedAt: Date.now() };
+      }
+
+      // Verification is public: anyone holding a receipt can check it anonymously
+      const result = (await createGovernanceActor().verify_vote_receipt({
+        proposal_id: id,
+        voter,
+        choice: toVariant(VOTE_TO_CANDID[receipt.vote]),
+        voted_at: BigInt(receipt.votedAtNanos),
+        tx_id: receipt.transactionId,
+        revision: receipt.revision,
+        weight: BigInt(receipt.weight),
+        signature: hexToBytes(receipt.signature),
+      })) as Record<string, unknown>;
+      return mapReceiptVerification(result);
+    },
+  };
+}
+
+// ============================================================================
+// Adapter Selection
+// ============================================================================
+
+let activeAdapter: GovernanceAdapter | null = null;
+
+/**
+ * Get the active governance adapter, creating the default on first use
+ */
+export function getGovernanceAdapter(): GovernanceAdapter {
+  if (!activeAdapter) {
+    activeAdapter = isMockMode()
+      ? createMockGovernanceAdapter()
+      : createCanisterGovernanceAdapter();
   }
+  return activeAdapter;
 }
 
 /**
- * Verify vote status (used after reconnection to ensure consistency)
- *
- * @param proposalId - ID of the proposal
- * @returns Promise resolving to the user's vote or null
+ * Replace the active governance adapter (e.g. in tests).
+ * Pass null to fall back to the default for the current environment.
  */
-export async function verifyVoteStatus(proposalId: string): Promise<UserVote | null> {
-  log('info', 'Verifying vote status', { proposalId });
+export function setGovernanceAdapter(adapter: GovernanceAdapter | null): void {
+  activeAdapter = adapter;
+}
 
-  // This is a verification call - always check actual state
-  // In production, this would bypass any caching
-  return getUserVote(proposalId);
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Helper to create timeout promise
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
+    ),
+  ]);
 }
 
-// Mock proposal list data for development (Story 9-1-3) — empty until canister integration
-const mockProposalList: ProposalListItem[] = [];
+/**
+ * Reject with an AbortError as soon as the signal fires.
+ * Agent calls can't be cancelled, so the result is simply dropped.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      if (signal.aborted) {
+        reject(new DOMException('Request aborted', 'AbortError'));
+        return;
+      }
+      signal.addEventListener('abort', () =>
+        reject(new DOMException('Request aborted', 'AbortError'))
+      );
+    }),
+  ]);
+}
+
+/**
+ * Validate a response against a schema, throwing SchemaValidationError on mismatch
+ */
+function validateResponse<T>(schema: z.ZodType<T>, data: unknown, label: string): T {
+  const parseResult = schema.safeParse(data);
+  if (!parseResult.success) {
+    throw new SchemaValidationError(`Invalid ${label} schema: ${parseResult.error.message}`);
+  }
+  return parseResult.data;
+}
 
 /**
  * Helper to create AbortController with timeout
@@ -573,106 +1635,181 @@ async function withAbortTimeout<T>(
   }
 }
 
+// ============================================================================
+// Service Functions
+// ============================================================================
+
 /**
- * Get user-created proposals from localStorage and convert to ProposalListItem format
+ * Submit a proposal to the governance canister
  */
-function getUserCreatedProposals(): ProposalListItem[] {
-  const storedProposals = $proposals.get();
-  return Object.values(storedProposals).map((proposal) => {
-    // Map internal status to list status format
-    const statusMap: Record<string, 'Active' | 'Passed' | 'Failed' | 'Pending'> = {
-      active: 'Active',
-      passed: 'Passed',
-      rejected: 'Failed',
-      expired: 'Failed',
-      pending: 'Pending',
-    };
+export async function submitProposal(
+  request: SubmitProposalRequest
+): Promise<SubmitProposalResponse> {
+  log('info', 'Submitting proposal', { title: request.title, scale: request.scale });
+
+  try {
+    return await getGovernanceAdapter().submitProposal(request);
+  } catch (error) {
+    log('error', 'Proposal submission failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
 
     return {
-      id: proposal.id,
-      title: proposal.title,
-      proposer: 'mock-user', // Current user created this proposal
-      status: statusMap[proposal.status] || 'Active',
-      votesFor: proposal.votesFor,
-      votesAgainst: proposal.votesAgainst,
-      votesAbstain: 0,
-      votingEndsAt: proposal.votingEnds,
-      createdAt: proposal.submittedAt,
+      success: false,
+      error: {
+        code: 'SUBMISSION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to submit proposal',
+      },
     };
-  });
+  }
 }
 
 /**
- * Get all proposals (mock + user-created)
+ * Get proposal status by ID
  */
-function getAllProposals(): ProposalListItem[] {
-  const userProposals = getUserCreatedProposals();
-  // Combine user-created proposals with mock data, user proposals first
-  // Filter out any mock proposals that might have the same ID
-  const userProposalIds = new Set(userProposals.map((p) => p.id));
-  const filteredMockProposals = mockProposalList.filter((p) => !userProposalIds.has(p.id));
-  return [...userProposals, ...filteredMockProposals];
+export async function getProposalStatus(proposalId: string): Promise<ProposalStatus | null> {
+  log('info', 'Fetching proposal status', { proposalId });
+
+  try {
+    const status = await withTimeout(
+      getGovernanceAdapter().getProposalStatus(proposalId),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    if (status === null) return null;
+    return validateResponse(ProposalStatusSchema, status, 'proposal status');
+  } catch (error) {
+    log('error', 'Failed to fetch proposal status', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
 }
 
 /**
- * Filter and sort mock proposals based on filters and sort options
+ * Cast a vote on a proposal
+ *
+ * @param proposalId - ID of the proposal to vote on
+ * @param vote - Vote choice: 'yes', 'no', or 'abstain'
+ * @param revision - Revision the voter reviewed; the vote is rejected if the
+ *   proposal has been amended since
+ * @param allocation - DOM weight (weighted proposals) or voice credits
+ *   (quadratic proposals); ignored for one-member-one-vote proposals
+ * @returns Promise resolving to the vote result
  */
-function filterAndSortProposals(
-  proposals: ProposalListItem[],
-  filters: ProposalFilters,
-  sort: ProposalSort,
-  currentUserPrincipal?: string,
-  votedProposalIds?: Set<string>
-): ProposalListItem[] {
-  let filtered = [...proposals];
-
-  // Filter by status
-  if (filters.status.length > 0) {
-    filtered = filtered.filter((p) => filters.status.includes(p.status));
-  }
+export async function castVote(
+  proposalId: string,
+  vote: VoteChoice,
+  revision?: number,
+  allocation?: number
+): Promise<CastVoteResponse> {
+  log('info', 'Casting vote', { proposalId, vote, revision, allocation });
 
-  // Filter by search text (title)
-  if (filters.search && filters.search.length >= 2) {
-    const searchLower = filters.search.toLowerCase();
-    filtered = filtered.filter((p) => p.title.toLowerCase().includes(searchLower));
-  }
+  try {
+    return await withTimeout(
+      getGovernanceAdapter().castVote(proposalId, vote, revision, allocation),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+  } catch (error) {
+    log('error', 'Vote cast failed', {
+      proposalId,
+      vote,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
 
-  // Filter by "My Proposals"
-  if (filters.myProposals && currentUserPrincipal) {
-    filtered = filtered.filter((p) => p.proposer === currentUserPrincipal);
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR',
+        message:
+          error instanceof Error && error.message === 'Request timeout'
+            ? 'Vote request timed out. Please check your connection and try again.'
+            : 'Failed to cast vote. Please try again.',
+      },
+    };
   }
+}
 
-  // Filter by "Not Voted"
-  if (filters.notVoted && votedProposalIds) {
-    filtered = filtered.filter((p) => !votedProposalIds.has(p.id));
+/**
+ * Get user's vote on a proposal
+ *
+ * @param proposalId - ID of the proposal
+ * @returns Promise resolving to the user's vote or null if not voted
+ */
+export async function getUserVote(proposalId: string): Promise<UserVote | null> {
+  log('info', 'Fetching user vote', { proposalId });
+
+  try {
+    const vote = await withTimeout(
+      getGovernanceAdapter().getUserVote(proposalId),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    if (vote === null) return null;
+    return validateResponse(UserVoteSchema, vote, 'user vote');
+  } catch (error) {
+    log('error', 'Failed to fetch user vote', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
   }
+}
 
-  // Sort
-  switch (sort) {
-    case 'newest':
-      filtered.sort((a, b) => b.createdAt - a.createdAt);
-      break;
-    case 'oldest':
-      filtered.sort((a, b) => a.createdAt - b.createdAt);
-      break;
-    case 'mostVotes':
-      filtered.sort((a, b) => {
-        const totalA = a.votesFor + a.votesAgainst + a.votesAbstain;
-        const totalB = b.votesFor + b.votesAgainst + b.votesAbstain;
-        return totalB - totalA;
-      });
-      break;
-    case 'endingSoon':
-      // Active proposals first, sorted by soonest deadline
-      filtered.sort((a, b) => {
-        if (a.status === 'Active' && b.status !== 'Active') return -1;
-        if (a.status !== 'Active' && b.status === 'Active') return 1;
-        return a.votingEndsAt - b.votingEndsAt;
-      });
-      break;
+/**
+ * Get vote tally for a proposal
+ *
+ * @param proposalId - ID of the proposal
+ * @returns Promise resolving to the vote tally
+ */
+export async function getVoteTally(proposalId: string): Promise<VoteTally> {
+  log('info', 'Fetching vote tally', { proposalId });
+
+  try {
+    const tally = await withTimeout(
+      getGovernanceAdapter().getVoteTally(proposalId),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    return validateResponse(VoteTallySchema, tally, 'vote tally');
+  } catch (error) {
+    log('error', 'Failed to fetch vote tally', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    // Return empty tally on error
+    return {
+      yes: 0,
+      no: 0,
+      abstain: 0,
+      totalVotes: 0,
+      quorumRequired: 10,
+      quorumMet: false,
+      passingThreshold: 51,
+      lastUpdated: Date.now(),
+    };
   }
+}
+
+/**
+ * Verify vote status (used after reconnection to ensure consistency)
+ *
+ * Unlike getUserVote, a failed lookup throws instead of resolving to null,
+ * so callers can tell "no vote recorded" apart from "couldn't check".
+ *
+ * @param proposalId - ID of the proposal
+ * @returns Promise resolving to the user's vote or null if none is recorded
+ * @throws If the canister can't be reached or returns an invalid response
+ */
+export async function verifyVoteStatus(proposalId: string): Promise<UserVote | null> {
+  log('info', 'Verifying vote status', { proposalId });
 
-  return filtered;
+  // This is a verification call - always check actual state
+  // In production, this would bypass any caching
+  const vote = await withTimeout(
+    getGovernanceAdapter().getUserVote(proposalId),
+    CANISTER_CALL_TIMEOUT_MS
+  );
+  if (vote === null) return null;
+  return validateResponse(UserVoteSchema, vote, 'user vote');
 }
 
 /**
@@ -680,64 +1817,50 @@ function filterAndSortProposals(
  *
  * Story: 9-1-3 (AC-1, AC-2, AC-3, AC-4, AC-5, AC-8, AC-9)
  *
- * @param filters - Filter criteria (status, search, myProposals, notVoted)
- * @param sort - Sort option (newest, oldest, mostVotes, endingSoon)
- * @param page - Page number (1-indexed)
+ * @param filters - Filter criteria (status, search, member, vertical, scale and budget filters)
+ * @param sort - Sort option (newest, oldest, mostVotes, endingSoon, largestBudget)
+ * @param page - Page number (1-indexed); ignored when a cursor is given
  * @param signal - Optional AbortSignal for cancellation
+ * @param cursor - For infinite scroll: null for the first page, then the
+ *   previous response's nextCursor. Omit to fetch by page number.
+ * @param watchedProposalIds - The member's watchlist, for the Watching filter
  * @returns Promise resolving to paginated proposal list
  */
 export async function getProposals(
   filters: ProposalFilters,
   sort: ProposalSort,
   page: number,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  cursor?: string | null,
+  watchedProposalIds?: string[]
 ): Promise<PaginatedResponse<ProposalListItem>> {
-  log('info', 'Fetching proposals', { filters, sort, page });
+  log('info', 'Fetching proposals', { filters, sort, page, cursor });
+
+  const emptyPage = {
+    items: [],
+    total: 0,
+    page,
+    pageSize: PAGE_SIZE,
+    ...(cursor !== undefined && { nextCursor: null }),
+  };
+
+  // Nothing is watched, so the Watching filter matches nothing
+  if (filters.watching && !watchedProposalIds?.length) {
+    return emptyPage;
+  }
 
   const fetchProposals = async (
     abortSignal: AbortSignal
   ): Promise<PaginatedResponse<ProposalListItem>> => {
-    // Simulate network delay
-    await new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(resolve, 500);
-      abortSignal.addEventListener('abort', () => {
-        clearTimeout(timeoutId);
-        reject(new DOMException('Request aborted', 'AbortError'));
-      });
-    });
-
-    // Get all proposals (user-created + mock)
-    const allProposals = getAllProposals();
-    const currentUserPrincipal = 'mock-user';
-    const votedProposalIds = new Set(Object.keys(mockUserVotes[currentUserPrincipal] || {}));
-
-    const filtered = filterAndSortProposals(
-      allProposals,
-      filters,
-      sort,
-      currentUserPrincipal,
-      votedProposalIds
+    const response = await raceAbort(
+      getGovernanceAdapter().listProposals(
+        { filters, sort, page, pageSize: PAGE_SIZE, cursor, watchedProposalIds },
+        abortSignal
+      ),
+      abortSignal
     );
 
-    // Paginate
-    const startIndex = (page - 1) * PAGE_SIZE;
-    const endIndex = startIndex + PAGE_SIZE;
-    const paginatedItems = filtered.slice(startIndex, endIndex);
-
-    const response: PaginatedResponse<ProposalListItem> = {
-      items: paginatedItems,
-      total: filtered.length,
-      page,
-      pageSize: PAGE_SIZE,
-    };
-
-    // Validate response schema
-    const parseResult = PaginatedProposalResponseSchema.safeParse(response);
-    if (!parseResult.success) {
-      throw new SchemaValidationError(`Invalid response schema: ${parseResult.error.message}`);
-    }
-
-    return response;
+    return validateResponse(PaginatedProposalResponseSchema, response, 'response');
   };
 
   try {
@@ -756,12 +1879,7 @@ export async function getProposals(
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     // Return empty result on error (graceful degradation)
-    return {
-      items: [],
-      total: 0,
-      page,
-      pageSize: PAGE_SIZE,
-    };
+    return emptyPage;
   }
 }
 
@@ -769,26 +1887,32 @@ export async function getProposals(
  * Get total count of proposals matching filters
  *
  * Story: 9-1-3 (AC-5)
+ *
+ * @param filters - Filter criteria
+ * @param watchedProposalIds - The member's watchlist, for the Watching filter
  */
-export async function getTotalProposalCount(filters: ProposalFilters): Promise<number> {
+export async function getTotalProposalCount(
+  filters: ProposalFilters,
+  watchedProposalIds?: string[]
+): Promise<number> {
   log('info', 'Fetching proposal count', { filters });
 
-  if (isMockMode()) {
-    await new Promise((resolve) => setTimeout(resolve, 200));
-    const currentUserPrincipal = 'mock-user';
-    const votedProposalIds = new Set(Object.keys(mockUserVotes[currentUserPrincipal] || {}));
-    const filtered = filterAndSortProposals(
-      mockProposalList,
-      filters,
-      'newest',
-      currentUserPrincipal,
-      votedProposalIds
-    );
-    return filtered.length;
+  if (filters.watching && !watchedProposalIds?.length) {
+    return 0;
   }
 
-  // TODO: Replace with actual canister call
-  return 0;
+  try {
+    const count = await withTimeout(
+      getGovernanceAdapter().countProposals(filters, watchedProposalIds),
+      PROPOSAL_LIST_TIMEOUT_MS
+    );
+    return validateResponse(z.number(), count, 'proposal count');
+  } catch (error) {
+    log('error', 'Failed to fetch proposal count', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return 0;
+  }
 }
 
 /**
@@ -800,34 +1924,12 @@ export async function getProposalCountsByStatus(): Promise<ProposalStatusCounts>
   log('info', 'Fetching proposal counts by status');
 
   try {
-    return await withAbortTimeout(async () => {
-      if (isMockMode()) {
-        await new Promise((resolve) => setTimeout(resolve, 300));
-
-        const counts: ProposalStatusCounts = {
-          Active: 0,
-          Passed: 0,
-          Failed: 0,
-          Pending: 0,
-        };
-
-        for (const proposal of mockProposalList) {
-          counts[proposal.status]++;
-        }
-
-        // Validate response schema
-        const parseResult = ProposalStatusCountsSchema.safeParse(counts);
-        if (!parseResult.success) {
-          throw new SchemaValidationError(
-            `Invalid status counts schema: ${parseResult.error.message}`
-          );
-        }
-
-        return counts;
-      }
-
-      // TODO: Replace with actual canister call
-      return { Active: 0, Passed: 0, Failed: 0, Pending: 0 };
+    return await withAbortTimeout(async (abortSignal) => {
+      const counts = await raceAbort(
+        getGovernanceAdapter().getProposalCountsByStatus(),
+        abortSignal
+      );
+      return validateResponse(ProposalStatusCountsSchema, counts, 'status counts');
     }, PROPOSAL_LIST_TIMEOUT_MS);
   } catch (error) {
     log('error', 'Failed to fetch proposal counts', {
@@ -838,6 +1940,340 @@ export async function getProposalCountsByStatus(): Promise<ProposalStatusCounts>
   }
 }
 
+/**
+ * Get counts of proposals by vertical (for filter badges)
+ */
+export async function getProposalCountsByVertical(): Promise<ProposalVerticalCounts> {
+  log('info', 'Fetching proposal counts by vertical');
+
+  try {
+    return await withAbortTimeout(async (abortSignal) => {
+      const counts = await raceAbort(
+        getGovernanceAdapter().getProposalCountsByVertical(),
+        abortSignal
+      );
+      return validateResponse(ProposalVerticalCountsSchema, counts, 'vertical counts');
+    }, PROPOSAL_LIST_TIMEOUT_MS);
+  } catch (error) {
+    log('error', 'Failed to fetch vertical counts', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    // Return zero counts on error
+    return {
+      Housing: 0,
+      Food: 0,
+      Energy: 0,
+      Education: 0,
+      Community: 0,
+      Infrastructure: 0,
+      Other: 0,
+    };
+  }
+}
+
+/**
+ * Principal of the signed-in member as it appears on proposals, for
+ * filtering "My Proposals" on the client. Null when not signed in.
+ */
+export function getCurrentProposerPrincipal(): string | null {
+  if (isMockMode()) {
+    return MOCK_USER_PRINCIPAL;
+  }
+  return getAuthenticatedIdentity()?.getPrincipal().toText() ?? null;
+}
+
+/**
+ * Delegate the member's vote to another member
+ *
+ * @param delegate - Principal ID of the member to delegate to
+ * @param scope - 'global' for all proposals, or a single proposal vertical
+ * @returns Promise resolving to the created delegation
+ */
+export async function setDelegation(
+  delegate: string,
+  scope: DelegationScope
+): Promise<DelegationResponse> {
+  log('info', 'Setting delegation', { delegate, scope });
+
+  try {
+    const result = await withTimeout(
+      getGovernanceAdapter().setDelegation(delegate, scope),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    if (result.delegation) {
+      validateResponse(DelegationSchema, result.delegation, 'delegation');
+    }
+    return result;
+  } catch (error) {
+    log('error', 'Failed to set delegation', {
+      delegate,
+      scope,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return {
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Failed to delegate your vote. Please try again.' },
+    };
+  }
+}
+
+/**
+ * Revoke the member's delegation for a scope
+ *
+ * @param scope - Scope of the delegation to revoke
+ */
+export async function revokeDelegation(scope: DelegationScope): Promise<DelegationResponse> {
+  log('info', 'Revoking delegation', { scope });
+
+  try {
+    return await withTimeout(
+      getGovernanceAdapter().revokeDelegation(scope),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+  } catch (error) {
+    log('error', 'Failed to revoke delegation', {
+      scope,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return {
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Failed to revoke delegation. Please try again.' },
+    };
+  }
+}
+
+/**
+ * List delegations the member has made and received
+ *
+ * @returns The delegations, or null if they couldn't be fetched
+ */
+export async function listDelegations(): Promise<DelegationList | null> {
+  log('info', 'Fetching delegations');
+
+  try {
+    const list = await withTimeout(
+      getGovernanceAdapter().listDelegations(),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    return validateResponse(DelegationListSchema, list, 'delegation list');
+  } catch (error) {
+    log('error', 'Failed to fetch delegations', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Publish an amendment to a pending proposal as a new revision
+ *
+ * @param request - Amended content and a summary of the changes
+ */
+export async function amendProposal(request: AmendProposalRequest): Promise<AmendProposalResponse> {
+  log('info', 'Amending proposal', { proposalId: request.proposalId });
+
+  try {
+    return await withTimeout(
+      getGovernanceAdapter().amendProposal(request),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+  } catch (error) {
+    log('error', 'Proposal amendment failed', {
+      proposalId: request.proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return {
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Failed to publish amendment. Please try again.' },
+    };
+  }
+}
+
+/**
+ * Get a proposal's revision history, oldest first
+ *
+ * @param proposalId - ID of the proposal
+ * @returns Promise resolving to the revisions, or an empty list on error
+ */
+export async function getProposalRevisions(proposalId: string): Promise<ProposalRevision[]> {
+  log('info', 'Fetching proposal revisions', { proposalId });
+
+  try {
+    const revisions = await withTimeout(
+      getGovernanceAdapter().getProposalRevisions(proposalId),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    return validateResponse(ProposalRevisionListSchema, revisions, 'proposal revisions');
+  } catch (error) {
+    log('error', 'Failed to fetch proposal revisions', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return [];
+  }
+}
+
+/**
+ * Get the member's voting power on a proposal
+ *
+ * @param proposalId - ID of the proposal
+ * @returns Promise resolving to the voting mode and snapshot balance, or null
+ *   when it can't be determined (not signed in, unknown proposal, error)
+ */
+export async function getVotingPower(proposalId: string): Promise<VotingPower | null> {
+  log('info', 'Fetching voting power', { proposalId });
+
+  try {
+    const power = await withTimeout(
+      getGovernanceAdapter().getVotingPower(proposalId),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    if (power === null) return null;
+    return validateResponse(VotingPowerSchema, power, 'voting power');
+  } catch (error) {
+    log('error', 'Failed to fetch voting power', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Cast a ranked-choice ballot on a multi-option proposal
+ *
+ * @param proposalId - ID of the proposal to vote on
+ * @param ranking - Option IDs, most preferred first; options left out are unranked
+ * @param revision - Revision the voter reviewed; the ballot is rejected if the
+ *   proposal has been amended since
+ * @returns Promise resolving to the vote result
+ */
+export async function castRankedVote(
+  proposalId: string,
+  ranking: string[],
+  revision?: number
+): Promise<CastVoteResponse> {
+  log('info', 'Casting ranked vote', { proposalId, ranked: ranking.length, revision });
+
+  try {
+    return await withTimeout(
+      getGovernanceAdapter().castRankedVote(proposalId, ranking, revision),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+  } catch (error) {
+    log('error', 'Ranked vote cast failed', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR',
+        message:
+          error instanceof Error && error.message === 'Request timeout'
+            ? 'Vote request timed out. Please check your connection and try again.'
+            : 'Failed to cast vote. Please try again.',
+      },
+    };
+  }
+}
+
+/**
+ * Get the options and raw ballots of a ranked-choice proposal
+ *
+ * Ballots are returned uncounted; instant-runoff rounds are computed
+ * client-side so members can see how each round played out.
+ *
+ * @param proposalId - ID of the proposal
+ * @returns Promise resolving to the ballots, or null for yes/no proposals and on error
+ */
+export async function getRankedBallots(proposalId: string): Promise<RankedBallots | null> {
+  log('info', 'Fetching ranked ballots', { proposalId });
+
+  try {
+    const ballots = await withTimeout(
+      getGovernanceAdapter().getRankedBallots(proposalId),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    if (ballots === null) return null;
+    return validateResponse(RankedBallotsSchema, ballots, 'ranked ballots');
+  } catch (error) {
+    log('error', 'Failed to fetch ranked ballots', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Get the canister-signed receipt for the member's vote on a proposal
+ *
+ * @param proposalId - ID of the proposal
+ * @returns Promise resolving to the receipt, or null if not voted and on error
+ */
+export async function getVoteReceipt(proposalId: string): Promise<VoteReceipt | null> {
+  log('info', 'Fetching vote receipt', { proposalId });
+
+  try {
+    const receipt = await withTimeout(
+      getGovernanceAdapter().getVoteReceipt(proposalId),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    if (receipt === null) return null;
+    return validateResponse(VoteReceiptSchema, receipt, 'vote receipt');
+  } catch (error) {
+    log('error', 'Failed to fetch vote receipt', {
+      proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Check a vote receipt against the governance canister
+ *
+ * The canister verifies its signature and compares the receipt with the
+ * vote it has on record. Anyone can verify a receipt; no login is needed.
+ *
+ * @param receipt - Receipt to verify
+ * @returns Promise resolving to the verification outcome
+ */
+export async function verifyVoteReceipt(receipt: VoteReceipt): Promise<VerifyReceiptResponse> {
+  log('info', 'Verifying vote receipt', {
+    proposalId: receipt.proposalId,
+    transactionId: receipt.transactionId,
+  });
+
+  try {
+    const verification = await withTimeout(
+      getGovernanceAdapter().verifyVoteReceipt(receipt),
+      CANISTER_CALL_TIMEOUT_MS
+    );
+    return {
+      success: true,
+      verification: validateResponse(ReceiptVerificationSchema, verification, 'verification'),
+    };
+  } catch (error) {
+    log('error', 'Receipt verification failed', {
+      proposalId: receipt.proposalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR',
+        message: 'Could not reach the governance canister to verify this receipt. Try again.',
+      },
+    };
+  }
+}
+
 /**
  * Service object for convenient access
  */
@@ -852,6 +2288,23 @@ export const GovernanceCanisterService = {
   getProposals,
   getTotalProposalCount,
   getProposalCountsByStatus,
+  getProposalCountsByVertical,
+  getCurrentProposerPrincipal,
+  // Vote delegation
+  setDelegation,
+  revokeDelegation,
+  listDelegations,
+  // Proposal amendments
+  amendProposal,
+  getProposalRevisions,
+  // Voting modes
+  getVotingPower,
+  // Ranked choice
+  castRankedVote,
+  getRankedBallots,
+  // Vote receipts
+  getVoteReceipt,
+  verifyVoteReceipt,
 };
 
 export default GovernanceCanisterService;
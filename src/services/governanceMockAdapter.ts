@@ -0,0 +1,741 @@
+/**
+ * Governance Mock Adapter
+ *
+ * In-browser implementation of the governance canister used in development
+ * and tests. Proposals live in the local $proposals store; votes are kept
+ * in memory per adapter instance.
+ *
+ * Story: 9-1-1-think-tank-proposal-creation (proposal submission)
+ * Story: 9-1-2-voting-interface (voting methods)
+ * Story: 9-1-3-proposal-listing (proposal listing)
+ * Proposal amendments: revisions are stored on the local proposal
+ * Voting modes: the member's DOM balance is snapshotted on submission
+ * Ranked choice: ballots are stored on the local proposal by voter
+ * Vote receipts: signed with a fixed mock key; not cryptographically secure
+ */
+
+import {
+  addProposal,
+  addVote as addVoteToStore,
+  getProposal as getProposalFromStore,
+  getProposalRevisions,
+  amendProposal as amendProposalInStore,
+  addRankedBallot,
+  $proposals,
+  type VoteChoice,
+  type VoteTally,
+  type UserVote,
+  type VotingPower,
+  type RankedBallots,
+  type VoteReceipt,
+  type ReceiptVerification,
+  type ProposalListItem,
+  type ProposalFilters,
+  type ProposalStatusCounts,
+  type ProposalVerticalCounts,
+  type Delegation,
+  type DelegationScope,
+} from '@/stores';
+import type {
+  GovernanceAdapter,
+  ProposalListQuery,
+  SubmitProposalRequest,
+  SubmitProposalResponse,
+  CastVoteResponse,
+  DelegationResponse,
+  AmendProposalRequest,
+  AmendProposalResponse,
+  ProposalStatus,
+} from './governanceCanister';
+import { fetchTokenBalance } from './tokenService';
+import { getVoteWeight, toWholeTokens, validateAllocation } from '../utils/votingPower';
+import { getReceiptSigningPayload } from '../utils/voteReceipt';
+import { filterAndSortProposals } from '../utils/proposalListFilters';
+
+export { filterAndSortProposals };
+
+/** Principal used for the signed-in member in mock mode */
+export const MOCK_USER_PRINCIPAL = 'mock-user';
+
+/** Canister ID written into receipts issued in mock mode */
+export const MOCK_GOVERNANCE_CANISTER_ID = 'mock-governance';
+
+/** Mock quorum: 10 votes needed */
+const MOCK_QUORUM_REQUIRED = 10;
+
+/** Mock passing threshold: 51% needed to pass */
+const MOCK_PASSING_THRESHOLD = 51;
+
+/** Key mixed into mock receipt signatures */
+const MOCK_SIGNING_KEY = 'hwdao-mock-receipt-key';
+
+/**
+ * Stand-in for the canister's signature: a keyed FNV-1a hash of the payload,
+ * enough to detect edited receipts in development
+ */
+function mockSign(payload: string): string {
+  const input = `${MOCK_SIGNING_KEY}|${payload}`;
+  return [0x811c9dc5, 0x050c5d1f]
+    .map((seed) => {
+      let hash = seed;
+      for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+      }
+      return (hash >>> 0).toString(16).padStart(8, '0');
+    })
+    .join('');
+}
+
+/**
+ * Sleep for specified milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sleep that rejects with an AbortError when the signal fires
+ */
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Request aborted', 'AbortError'));
+    });
+  });
+}
+
+/**
+ * Get user-created proposals from localStorage and convert to ProposalListItem format
+ */
+function getUserCreatedProposals(): ProposalListItem[] {
+  const storedProposals = $proposals.get();
+  return Object.values(storedProposals).map((proposal) => {
+    // Map internal status to list status format
+    const statusMap: Record<string, 'Active' | 'Passed' | 'Failed' | 'Pending'> = {
+      active: 'Active',
+      passed: 'Passed',
+      rejected: 'Failed',
+      expired: 'Failed',
+      pending: 'Pending',
+    };
+
+    return {
+      id: proposal.id,
+      title: proposal.title,
+      proposer: MOCK_USER_PRINCIPAL, // Current user created this proposal
+      status: statusMap[proposal.status] || 'Active',
+      votesFor: proposal.votesFor,
+      votesAgainst: proposal.votesAgainst,
+      votesAbstain: 0,
+      votingEndsAt: proposal.votingEnds,
+      createdAt: proposal.submittedAt,
+      revision: getProposalRevisions(proposal).length,
+      votingMode: proposal.votingMode ?? 'simple',
+      vertical: proposal.vertical,
+      scale: proposal.scale,
+      budgetTotal: proposal.thinkTankOutput.budgetBreakdown.reduce(
+        (sum, item) => sum + item.amount,
+        0
+      ),
+      problemStatement: proposal.thinkTankOutput.problemStatement,
+      proposedSolution: proposal.thinkTankOutput.proposedSolution,
+      budgetDescriptions: proposal.thinkTankOutput.budgetBreakdown.map(
+        (item) => `${item.category}: ${item.description}`
+      ),
+    };
+  });
+}
+
+/**
+ * List cursor: the position after a page and the ID of its last proposal
+ */
+function encodeCursor(index: number, lastId: string): string {
+  return `${index}:${lastId}`;
+}
+
+/**
+ * Index to continue from for a cursor. Continues after the cursor's proposal
+ * wherever it now sits, so proposals added since don't shift the list; falls
+ * back to the recorded position if that proposal is gone.
+ */
+function findCursorIndex(proposals: ProposalListItem[], cursor: string): number {
+  const separator = cursor.indexOf(':');
+  const lastId = cursor.slice(separator + 1);
+  const position = proposals.findIndex((p) => p.id === lastId);
+  if (position >= 0) {
+    return position + 1;
+  }
+  const index = Number(cursor.slice(0, separator));
+  return Number.isInteger(index) && index >= 0 ? index : 0;
+}
+
+/**
+ * Create a mock governance adapter.
+ *
+ * Each instance keeps its own vote records, so tests can start from a
+ * clean slate by injecting a fresh adapter.
+ *
+ * @param seedProposals - Extra proposals listed alongside user-created ones
+ */
+export function createMockGovernanceAdapter(
+  seedProposals: ProposalListItem[] = []
+): GovernanceAdapter {
+  // Votes by user principal, then proposal ID
+  const userVotes: Record<string, Record<string, UserVote>> = {};
+  // The signed-in member's delegations by scope
+  const delegations: Partial<Record<DelegationScope, Delegation>> = {};
+
+  /**
+   * Get all proposals (seed + user-created), user proposals first
+   */
+  function getAllProposals(): ProposalListItem[] {
+    const userProposals = getUserCreatedProposals();
+    // Filter out any seed proposals that have the same ID as a user proposal
+    const userProposalIds = new Set(userProposals.map((p) => p.id));
+    const filteredSeed = seedProposals.filter((p) => !userProposalIds.has(p.id));
+    return [...userProposals, ...filteredSeed];
+  }
+
+  function getVotedProposalIds(): Set<string> {
+    return new Set(Object.keys(userVotes[MOCK_USER_PRINCIPAL] || {}));
+  }
+
+  /**
+   * The receipt the canister would issue for a recorded vote, without its signature
+   */
+  function buildUnsignedReceipt(voter: string, vote: UserVote): Omit<VoteReceipt, 'signature'> {
+    return {
+      canisterId: MOCK_GOVERNANCE_CANISTER_ID,
+      proposalId: vote.proposalId,
+      voter,
+      vote: vote.vote,
+      votedAt: vote.votedAt,
+      votedAtNanos: (BigInt(vote.votedAt) * BigInt(1_000_000)).toString(),
+      transactionId: vote.transactionId ?? '',
+      revision: vote.revision ?? 1,
+      weight: vote.weight ?? 1,
+    };
+  }
+
+  return {
+    async submitProposal(request: SubmitProposalRequest): Promise<SubmitProposalResponse> {
+      // Simulate network delay
+      await sleep(1500);
+
+      const proposalId = `prop-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      const ballotOptions = request.ballotOptions;
+      if (ballotOptions && ballotOptions.length < 2) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_OPTIONS',
+            message: 'Ranked-choice proposals need at least two options.',
+          },
+        };
+      }
+
+      // Ranked ballots are one member, one ballot
+      const votingMode = ballotOptions ? 'simple' : (request.votingMode ?? 'simple');
+
+      // Weighted and quadratic votes count DOM held at creation, so snapshot it now
+      let balanceSnapshot: Record<string, number> | undefined;
+      if (votingMode !== 'simple') {
+        const balance = await fetchTokenBalance(MOCK_USER_PRINCIPAL);
+        if (!balance.success || balance.balance === undefined) {
+          return {
+            success: false,
+            error: {
+              code: 'SNAPSHOT_FAILED',
+              message: 'Could not snapshot DOM balances for this proposal. Please try again.',
+            },
+          };
+        }
+        balanceSnapshot = { [MOCK_USER_PRINCIPAL]: toWholeTokens(balance.balance) };
+      }
+
+      // Store the proposal in the mock store
+      addProposal({
+        id: proposalId,
+        title: request.title,
+        prompt: request.prompt,
+        scale: request.scale,
+        vertical: request.vertical,
+        thinkTankOutput: request.thinkTankOutput,
+        thinkTankRequestId: request.thinkTankRequestId,
+        ...(balanceSnapshot && {
+          votingMode,
+          balanceSnapshot,
+          balanceSnapshotAt: Date.now(),
+        }),
+        ...(ballotOptions && { ballotOptions }),
+      });
+
+      return { success: true, proposalId };
+    },
+
+    async getProposalStatus(proposalId: string): Promise<ProposalStatus | null> {
+      // Return active status to enable voting in demo mode
+      await sleep(500);
+      return {
+        id: proposalId,
+        status: 'active',
+        votesFor: 0,
+        votesAgainst: 0,
+        quorumReached: false,
+        votingEnds: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days
+        proposer: MOCK_USER_PRINCIPAL,
+      };
+    },
+
+    async castVote(
+      proposalId: string,
+      vote: VoteChoice,
+      revision?: number,
+      allocation?: number
+    ): Promise<CastVoteResponse> {
+      // Simulate network delay
+      await sleep(1500);
+
+      // Check if proposal exists in mock store
+      const proposal = getProposalFromStore(proposalId);
+      if (!proposal) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_PROPOSAL',
+            message: 'Proposal not found.',
+          },
+        };
+      }
+
+      if (proposal.ballotOptions) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_PROPOSAL',
+            message: 'This proposal uses a ranked ballot. Rank the options to vote.',
+          },
+        };
+      }
+
+      // Check if already voted (a vote cast by a delegate can still be overridden)
+      const existingVote = userVotes[MOCK_USER_PRINCIPAL]?.[proposalId];
+      if (existingVote && !existingVote.delegate) {
+        return {
+          success: false,
+          error: {
+            code: 'ALREADY_VOTED',
+            message: 'You have already voted on this proposal. Votes are final and cannot be changed.',
+          },
+        };
+      }
+
+      // Check if voting is still open (mock: always open for active proposals)
+      if (proposal.status !== 'active') {
+        return {
+          success: false,
+          error: {
+            code: 'VOTING_CLOSED',
+            message: 'Voting has ended for this proposal.',
+          },
+        };
+      }
+
+      // Reject votes cast against an outdated revision
+      const currentRevision = getProposalRevisions(proposal).length;
+      if (revision !== undefined && revision !== currentRevision) {
+        return {
+          success: false,
+          error: {
+            code: 'REVISION_CHANGED',
+            message:
+              'This proposal was amended after you opened it. Review the latest revision and vote again.',
+          },
+        };
+      }
+
+      // Weighted and quadratic allocations are capped by the creation-time snapshot
+      const votingMode = proposal.votingMode ?? 'simple';
+      const allocationError = validateAllocation(
+        votingMode,
+        allocation,
+        proposal.balanceSnapshot?.[MOCK_USER_PRINCIPAL] ?? 0
+      );
+      if (allocationError) {
+        return {
+          success: false,
+          error: { code: 'INSUFFICIENT_VOTING_POWER', message: allocationError },
+        };
+      }
+      const weight = getVoteWeight(votingMode, allocation);
+
+      if (!userVotes[MOCK_USER_PRINCIPAL]) {
+        userVotes[MOCK_USER_PRINCIPAL] = {};
+      }
+
+      const transactionId = `vote-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      userVotes[MOCK_USER_PRINCIPAL][proposalId] = {
+        proposalId,
+        vote,
+        votedAt: Date.now(),
+        transactionId,
+        revision: currentRevision,
+        ...(votingMode !== 'simple' && { weight }),
+        ...(votingMode === 'quadratic' && { credits: allocation }),
+      };
+
+      // Update proposal votes in store (an override replaces the delegate's vote, so
+      // the mock store's running totals are only bumped for first votes)
+      if (!existingVote) {
+        addVoteToStore(proposalId, vote === 'yes', weight);
+      }
+
+      return { success: true, transactionId };
+    },
+
+    async getUserVote(proposalId: string): Promise<UserVote | null> {
+      await sleep(300);
+      return userVotes[MOCK_USER_PRINCIPAL]?.[proposalId] ?? null;
+    },
+
+    async getVoteTally(proposalId: string): Promise<VoteTally> {
+      await sleep(500);
+
+      // Get proposal from store to calculate tally
+      const proposal = getProposalFromStore(proposalId);
+      const votesFor = proposal?.votesFor ?? 0;
+      const votesAgainst = proposal?.votesAgainst ?? 0;
+      const abstain = 0; // No abstain tracking in the mock proposal store
+      const totalVotes = votesFor + votesAgainst + abstain;
+      const votingMode = proposal?.votingMode ?? 'simple';
+
+      return {
+        yes: votesFor,
+        no: votesAgainst,
+        abstain,
+        totalVotes,
+        quorumRequired: MOCK_QUORUM_REQUIRED,
+        quorumMet: totalVotes >= MOCK_QUORUM_REQUIRED,
+        passingThreshold: MOCK_PASSING_THRESHOLD,
+        lastUpdated: Date.now(),
+        delegatedVotes: 0,
+        ...(votingMode !== 'simple' && {
+          votingMode,
+          weighted: {
+            yes: proposal?.weightFor ?? 0,
+            no: proposal?.weightAgainst ?? 0,
+            abstain: 0,
+          },
+        }),
+      };
+    },
+
+    async listProposals(query: ProposalListQuery, signal?: AbortSignal) {
+      // Simulate network delay
+      await abortableSleep(500, signal);
+
+      const filtered = filterAndSortProposals(
+        getAllProposals(),
+        query.filters,
+        query.sort,
+        MOCK_USER_PRINCIPAL,
+        getVotedProposalIds(),
+        new Set(query.watchedProposalIds ?? [])
+      );
+
+      if (query.cursor !== undefined) {
+        const startIndex = query.cursor ? findCursorIndex(filtered, query.cursor) : 0;
+        const items = filtered.slice(startIndex, startIndex + query.pageSize);
+        const endIndex = startIndex + items.length;
+        return {
+          items,
+          total: filtered.length,
+          page: query.page,
+          pageSize: query.pageSize,
+          nextCursor:
+            endIndex < filtered.length ? encodeCursor(endIndex, items[items.length - 1].id) : null,
+        };
+      }
+
+      const startIndex = (query.page - 1) * query.pageSize;
+      return {
+        items: filtered.slice(startIndex, startIndex + query.pageSize),
+        total: filtered.length,
+        page: query.page,
+        pageSize: query.pageSize,
+      };
+    },
+
+    async countProposals(filters: ProposalFilters, watchedProposalIds?: string[]): Promise<number> {
+      await sleep(200);
+      return filterAndSortProposals(
+        getAllProposals(),
+        filters,
+        'newest',
+        MOCK_USER_PRINCIPAL,
+        getVotedProposalIds(),
+        new Set(watchedProposalIds ?? [])
+      ).length;
+    },
+
+    async getProposalCountsByStatus(): Promise<ProposalStatusCounts> {
+      await sleep(300);
+
+      const counts: ProposalStatusCounts = {
+        Active: 0,
+        Passed: 0,
+        Failed: 0,
+        Pending: 0,
+      };
+
+      for (const proposal of getAllProposals()) {
+        counts[proposal.status]++;
+      }
+
+      return counts;
+    },
+
+    async getProposalCountsByVertical(): Promise<ProposalVerticalCounts> {
+      await sleep(300);
+
+      const counts: ProposalVerticalCounts = {
+        Housing: 0,
+        Food: 0,
+        Energy: 0,
+        Education: 0,
+        Community: 0,
+        Infrastructure: 0,
+        Other: 0,
+      };
+
+      for (const proposal of getAllProposals()) {
+        if (proposal.vertical) {
+          counts[proposal.vertical]++;
+        }
+      }
+
+      return counts;
+    },
+
+    async setDelegation(delegate: string, scope: DelegationScope): Promise<DelegationResponse> {
+      await sleep(800);
+
+      if (delegate === MOCK_USER_PRINCIPAL) {
+        return {
+          success: false,
+          error: { code: 'SELF_DELEGATION', message: 'You cannot delegate your vote to yourself.' },
+        };
+      }
+
+      const delegation: Delegation = {
+        delegator: MOCK_USER_PRINCIPAL,
+        delegate,
+        scope,
+        createdAt: Date.now(),
+      };
+      delegations[scope] = delegation;
+
+      return { success: true, delegation };
+    },
+
+    async revokeDelegation(scope: DelegationScope): Promise<DelegationResponse> {
+      await sleep(500);
+
+      if (!delegations[scope]) {
+        return {
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'No delegation found for this scope.' },
+        };
+      }
+
+      delete delegations[scope];
+      return { success: true };
+    },
+
+    async listDelegations() {
+      await sleep(300);
+      return {
+        given: Object.values(delegations).filter((d): d is Delegation => !!d),
+        received: [],
+      };
+    },
+
+    async amendProposal(request: AmendProposalRequest): Promise<AmendProposalResponse> {
+      await sleep(1000);
+
+      const proposal = getProposalFromStore(request.proposalId);
+      if (!proposal) {
+        return {
+          success: false,
+          error: { code: 'INVALID_PROPOSAL', message: 'Proposal not found.' },
+        };
+      }
+
+      if (proposal.status !== 'pending') {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_PENDING',
+            message: 'Proposals can only be amended while they are pending review.',
+          },
+        };
+      }
+
+      const title = request.title ?? proposal.title;
+      if (
+        title === proposal.title &&
+        JSON.stringify(request.thinkTankOutput) === JSON.stringify(proposal.thinkTankOutput)
+      ) {
+        return {
+          success: false,
+          error: { code: 'NO_CHANGES', message: 'The amendment does not change the proposal.' },
+        };
+      }
+
+      const revision = amendProposalInStore(request.proposalId, {
+        title,
+        thinkTankOutput: request.thinkTankOutput,
+        summary: request.summary,
+      });
+
+      return { success: true, revision: revision?.revision };
+    },
+
+    async getProposalRevisions(proposalId: string) {
+      await sleep(300);
+      const proposal = getProposalFromStore(proposalId);
+      return proposal ? getProposalRevisions(proposal) : [];
+    },
+
+    async getVotingPower(proposalId: string): Promise<VotingPower | null> {
+      await sleep(300);
+      const proposal = getProposalFromStore(proposalId);
+      if (!proposal) return null;
+
+      return {
+        proposalId,
+        votingMode: proposal.votingMode ?? 'simple',
+        balance: proposal.balanceSnapshot?.[MOCK_USER_PRINCIPAL] ?? 0,
+        snapshotAt: proposal.balanceSnapshotAt ?? proposal.submittedAt,
+      };
+    },
+
+    async castRankedVote(
+      proposalId: string,
+      ranking: string[],
+      revision?: number
+    ): Promise<CastVoteResponse> {
+      await sleep(1500);
+
+      const proposal = getProposalFromStore(proposalId);
+      if (!proposal?.ballotOptions) {
+        return {
+          success: false,
+          error: { code: 'INVALID_PROPOSAL', message: 'Proposal not found.' },
+        };
+      }
+
+      if (proposal.rankedBallots?.[MOCK_USER_PRINCIPAL]) {
+        return {
+          success: false,
+          error: {
+            code: 'ALREADY_VOTED',
+            message: 'You have already voted on this proposal. Votes are final and cannot be changed.',
+          },
+        };
+      }
+
+      if (proposal.status !== 'active') {
+        return {
+          success: false,
+          error: { code: 'VOTING_CLOSED', message: 'Voting has ended for this proposal.' },
+        };
+      }
+
+      if (revision !== undefined && revision !== getProposalRevisions(proposal).length) {
+        return {
+          success: false,
+          error: {
+            code: 'REVISION_CHANGED',
+            message:
+              'This proposal was amended after you opened it. Review the latest revision and vote again.',
+          },
+        };
+      }
+
+      const optionIds = new Set(proposal.ballotOptions.map((o) => o.id));
+      if (
+        ranking.length === 0 ||
+        new Set(ranking).size !== ranking.length ||
+        ranking.some((id) => !optionIds.has(id))
+      ) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_RANKING',
+            message: 'Rank at least one option, listing each option only once.',
+          },
+        };
+      }
+
+      addRankedBallot(proposalId, MOCK_USER_PRINCIPAL, ranking);
+      const transactionId = `vote-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      return { success: true, transactionId };
+    },
+
+    async getRankedBallots(proposalId: string): Promise<RankedBallots | null> {
+      await sleep(300);
+      const proposal = getProposalFromStore(proposalId);
+      if (!proposal?.ballotOptions) return null;
+
+      const myRanking = proposal.rankedBallots?.[MOCK_USER_PRINCIPAL];
+      return {
+        proposalId,
+        options: proposal.ballotOptions,
+        ballots: Object.values(proposal.rankedBallots ?? {}),
+        ...(myRanking && { myRanking }),
+        lastUpdated: Date.now(),
+      };
+    },
+
+    async getVoteReceipt(proposalId: string): Promise<VoteReceipt | null> {
+      await sleep(300);
+      const vote = userVotes[MOCK_USER_PRINCIPAL]?.[proposalId];
+      if (!vote) return null;
+
+      const receipt = buildUnsignedReceipt(MOCK_USER_PRINCIPAL, vote);
+      return { ...receipt, signature: mockSign(getReceiptSigningPayload(receipt)) };
+    },
+
+    async verifyVoteReceipt(receipt: VoteReceipt): Promise<ReceiptVerification> {
+      await sleep(300);
+      const checkedAt = Date.now();
+
+      if (receipt.canisterId !== MOCK_GOVERNANCE_CANISTER_ID) {
+        return { status: 'wrong-canister', checkedAt };
+      }
+      if (mockSign(getReceiptSigningPayload(receipt)) !== receipt.signature.toLowerCase()) {
+        return { status: 'invalid-signature', checkedAt };
+      }
+
+      const vote = userVotes[receipt.voter]?.[receipt.proposalId];
+      if (!vote) {
+        return { status: 'not-found', checkedAt };
+      }
+
+      // A genuine receipt can still be stale, e.g. if a delegate's vote was overridden since
+      const recorded = buildUnsignedReceipt(receipt.voter, vote);
+      const fields = ['vote', 'votedAtNanos', 'transactionId', 'revision', 'weight'] as const;
+      const mismatchedFields = fields
+        .filter((field) => recorded[field] !== receipt[field])
+        .map((field) => (field === 'votedAtNanos' ? 'votedAt' : field));
+
+      return mismatchedFields.length > 0
+        ? { status: 'mismatch', mismatchedFields, checkedAt }
+        : { status: 'valid', checkedAt };
+    },
+  };
+}
@@ -12,10 +12,12 @@ import {
   addVotedProposalToCache,
   forcePoll,
 } from '@/services/notificationPoller';
+import { getProposalStatus } from '@/services/governanceCanister';
 import {
   $notifications,
   $notificationPreferences,
   $lastSeenProposalId,
+  $watchlist,
   DEFAULT_PREFERENCES,
 } from '@/stores';
 
@@ -59,6 +61,17 @@ vi.mock('@/services/governanceCanister', () => ({
     pageSize: 20,
   }),
   getProposalStatus: vi.fn().mockResolvedValue({ status: 'active' }),
+  getCurrentProposerPrincipal: vi.fn(() => 'member-1'),
+}));
+
+// Mock comment service (mentions, watched proposal comments)
+const { mockListMentions, mockListComments } = vi.hoisted(() => ({
+  mockListMentions: vi.fn(),
+  mockListComments: vi.fn(),
+}));
+vi.mock('@/services/commentService', () => ({
+  listMentions: mockListMentions,
+  listComments: mockListComments,
 }));
 
 describe('Notification Poller Service', () => {
@@ -67,6 +80,7 @@ describe('Notification Poller Service', () => {
     $notifications.set([]);
     $notificationPreferences.set({ ...DEFAULT_PREFERENCES });
     $lastSeenProposalId.set('');
+    $watchlist.set([]);
     $pollerState.set({
       isPolling: false,
       lastPollAt: null,
@@ -220,6 +234,247 @@ describe('Notification Poller Service', () => {
     });
   });
 
+  describe('Mention checks', () => {
+    const mention = {
+      comment_id: 'c-1',
+      proposal_id: 'prop-1',
+      proposal_title: 'Test Proposal 1',
+      author_name: 'Alice',
+      created_at: '2026-03-01T00:00:00Z',
+    };
+
+    it('should only record a checkpoint on the first poll', async () => {
+      mockListMentions.mockResolvedValue({ mentions: [mention] });
+
+      await forcePoll();
+
+      expect(mockListMentions).not.toHaveBeenCalled();
+      expect(localStorageMock.getItem('hwdao:last-mention-check')).not.toBeNull();
+    });
+
+    it('should notify for mentions since the last check', async () => {
+      localStorageMock.setItem('hwdao:last-mention-check', '2026-03-01T00:00:00Z');
+      mockListMentions.mockResolvedValue({ mentions: [mention] });
+
+      await forcePoll();
+
+      expect(mockListMentions).toHaveBeenCalledWith('2026-03-01T00:00:00Z');
+      const created = $notifications.get().find((n) => n.type === 'mention');
+      expect(created?.metadata.commentId).toBe('c-1');
+      expect(created?.message).toBe('Alice mentioned you on "Test Proposal 1"');
+    });
+
+    it('should skip mentions when the preference is off', async () => {
+      localStorageMock.setItem('hwdao:last-mention-check', '2026-03-01T00:00:00Z');
+      $notificationPreferences.set({ ...DEFAULT_PREFERENCES, mentions: false });
+
+      await forcePoll();
+
+      expect(mockListMentions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Watched proposal checks', () => {
+    const SNAPSHOTS_KEY = 'hwdao:watched-proposal-snapshots';
+
+    function makeComment(id: string, createdAt: string, author = 'member-2') {
+      return {
+        id,
+        proposal_id: 'prop-9',
+        parent_id: null,
+        author_principal: author,
+        author_name: 'Member',
+        body: 'Comment',
+        mentions: [],
+        created_at: createdAt,
+        updated_at: createdAt,
+        edited: false,
+        deleted: false,
+      };
+    }
+
+    function mockStatus(overrides: Record<string, unknown> = {}) {
+      vi.mocked(getProposalStatus).mockResolvedValue({
+        id: 'prop-9',
+        status: 'active',
+        votesFor: 3,
+        votesAgainst: 1,
+        quorumReached: false,
+        votingEnds: Date.now() + 3 * 24 * 60 * 60 * 1000,
+        ...overrides,
+      });
+    }
+
+    const watchedNotifications = () =>
+      $notifications.get().filter((n) => n.metadata.proposalId === 'prop-9');
+
+    beforeEach(() => {
+      $watchlist.set([{ proposalId: 'prop-9', title: 'Garden', watchedAt: 0 }]);
+      mockListMentions.mockResolvedValue({ mentions: [] });
+      mockListComments.mockResolvedValue({ comments: [], total: 0 });
+      mockStatus();
+    });
+
+    it('should only record a snapshot on the first poll', async () => {
+      mockListComments.mockResolvedValue({
+        comments: [makeComment('c-1', '2026-03-01T00:00:00Z')],
+        total: 1,
+      });
+
+      await forcePoll();
+
+      expect(watchedNotifications()).toHaveLength(0);
+      expect(JSON.parse(localStorageMock.getItem(SNAPSHOTS_KEY) ?? '{}')).toEqual({
+        'prop-9': {
+          status: 'active',
+          quorumReached: false,
+          lastCommentAt: '2026-03-01T00:00:00Z',
+          commentsCheckedAt: expect.any(Number),
+        },
+      });
+    });
+
+    it('should notify on status changes, quorum and new comments', async () => {
+      localStorageMock.setItem(
+        SNAPSHOTS_KEY,
+        JSON.stringify({
+          'prop-9': {
+            status: 'pending',
+            quorumReached: false,
+            lastCommentAt: '2026-03-01T00:00:00Z',
+          },
+        })
+      );
+      mockStatus({ quorumReached: true });
+      mockListComments.mockResolvedValue({
+        comments: [
+          makeComment('c-1', '2026-03-01T00:00:00Z'),
+          makeComment('c-2', '2026-03-02T00:00:00Z'),
+          makeComment('c-3', '2026-03-03T00:00:00Z', 'member-1'),
+        ],
+        total: 3,
+      });
+
+      await forcePoll();
+
+      const byType = Object.fromEntries(watchedNotifications().map((n) => [n.type, n]));
+      expect(byType.proposal_status_changed.message).toBe(
+        'Watched proposal "Garden" is now open for voting'
+      );
+      expect(byType.quorum_reached.message).toBe('Watched proposal "Garden" has reached quorum');
+      // The member's own comment isn't counted
+      expect(byType.new_comment.message).toBe('New comment on "Garden"');
+      expect(byType.new_comment.metadata.commentId).toBe('c-2');
+      expect(JSON.parse(localStorageMock.getItem(SNAPSHOTS_KEY) ?? '{}')['prop-9']).toEqual({
+        status: 'active',
+        quorumReached: true,
+        lastCommentAt: '2026-03-03T00:00:00Z',
+        commentsCheckedAt: expect.any(Number),
+      });
+    });
+
+    it('should list comments again only after the comment interval', async () => {
+      localStorageMock.setItem(
+        SNAPSHOTS_KEY,
+        JSON.stringify({
+          'prop-9': {
+            status: 'active',
+            quorumReached: false,
+            lastCommentAt: null,
+            commentsCheckedAt: Date.now() - 60 * 1000,
+          },
+          'prop-10': {
+            status: 'active',
+            quorumReached: false,
+            lastCommentAt: null,
+            commentsCheckedAt: Date.now() - 10 * 60 * 1000,
+          },
+        })
+      );
+      $watchlist.set([
+        { proposalId: 'prop-9', title: 'Garden', watchedAt: 0 },
+        { proposalId: 'prop-10', title: 'Solar', watchedAt: 0 },
+      ]);
+
+      await forcePoll();
+
+      expect(mockListComments).toHaveBeenCalledTimes(1);
+      expect(mockListComments).toHaveBeenCalledWith('prop-10');
+    });
+
+    it('should check a few watched proposals at a time', async () => {
+      $watchlist.set(
+        Array.from({ length: 12 }, (_, i) => ({
+          proposalId: `prop-${i}`,
+          title: `Proposal ${i}`,
+          watchedAt: 0,
+        }))
+      );
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.mocked(getProposalStatus).mockImplementation(async (id) => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Promise.resolve();
+        inFlight -= 1;
+        return {
+          id,
+          status: 'active',
+          votesFor: 0,
+          votesAgainst: 0,
+          quorumReached: false,
+          votingEnds: Date.now() + 3 * 24 * 60 * 60 * 1000,
+        };
+      });
+
+      await forcePoll();
+
+      expect(vi.mocked(getProposalStatus).mock.calls.map(([id]) => id)).toContain('prop-11');
+      expect(maxInFlight).toBeLessThanOrEqual(5);
+    });
+
+    it('should warn before voting ends on a watched proposal', async () => {
+      mockStatus({ votingEnds: Date.now() + 60 * 60 * 1000 - 1000 });
+
+      await forcePoll();
+
+      expect(watchedNotifications().map((n) => n.type)).toEqual(['voting_ending_1h']);
+    });
+
+    it('should keep snapshots current without notifying when the preference is off', async () => {
+      $notificationPreferences.set({ ...DEFAULT_PREFERENCES, watchlist: false });
+      localStorageMock.setItem(
+        SNAPSHOTS_KEY,
+        JSON.stringify({
+          'prop-9': { status: 'active', quorumReached: false, lastCommentAt: null },
+        })
+      );
+      mockStatus({ status: 'passed' });
+
+      await forcePoll();
+
+      expect(watchedNotifications()).toHaveLength(0);
+      expect(JSON.parse(localStorageMock.getItem(SNAPSHOTS_KEY) ?? '{}')['prop-9'].status).toBe(
+        'passed'
+      );
+    });
+
+    it('should drop snapshots of proposals no longer watched', async () => {
+      localStorageMock.setItem(
+        SNAPSHOTS_KEY,
+        JSON.stringify({
+          'prop-8': { status: 'active', quorumReached: false, lastCommentAt: null },
+        })
+      );
+
+      await forcePoll();
+
+      expect(Object.keys(JSON.parse(localStorageMock.getItem(SNAPSHOTS_KEY) ?? '{}'))).toEqual([
+        'prop-9',
+      ]);
+    });
+  });
+
   describe('Deadline notification records', () => {
     it('should track sent deadline notifications in localStorage', () => {
       // Simulate marking a deadline notification as sent
@@ -5,6 +5,10 @@
  * - New proposals
  * - Vote results on proposals user voted on
  * - Voting deadline warnings (24h, 1h)
+ * - Mentions in proposal discussions (via oracle-bridge)
+ * - Missed recurring burn pledges
+ * - Watched proposals: status changes, deadline warnings, quorum reached
+ *   and new comments
  *
  * Story: 9-1-7-governance-notifications
  * ACs: 1, 2, 3
@@ -18,9 +22,22 @@ import {
   createVoteResultNotification,
   createNewProposalNotification,
   createVotingDeadlineNotification,
+  createMentionNotification,
+  createProposalStatusChangedNotification,
+  createQuorumReachedNotification,
+  createNewCommentNotification,
+  $watchlist,
   type NotificationPreferences,
+  type WatchedProposal,
 } from '@/stores';
-import { getProposals } from './governanceCanister';
+import {
+  getProposals,
+  getProposalStatus,
+  getCurrentProposerPrincipal,
+  type ProposalStatus,
+} from './governanceCanister';
+import { listComments, listMentions } from './commentService';
+import { checkMissedBurnPledges } from './burnService';
 import type { ProposalFilters, ProposalSort } from '@/stores';
 import { trackNotificationReceived } from '../utils/analytics';
 
@@ -46,9 +63,27 @@ const HOURS_24_MS = 24 * 60 * 60 * 1000;
 /** 1 hour in milliseconds */
 const HOURS_1_MS = 60 * 60 * 1000;
 
+/** Watched proposals checked at once */
+const WATCHED_CHECK_CONCURRENCY = 5;
+
+/** How often a watched proposal's comments are listed (5 minutes) */
+const WATCHED_COMMENTS_INTERVAL_MS = 5 * 60 * 1000;
+
 /** Storage keys */
 const VOTED_PROPOSALS_CACHE_KEY = 'hwdao:voted-proposal-ids-cache';
 const DEADLINE_NOTIFICATIONS_KEY = 'hwdao:deadline-notifications-sent';
+const LAST_MENTION_CHECK_KEY = 'hwdao:last-mention-check';
+const WATCHED_SNAPSHOTS_KEY = 'hwdao:watched-proposal-snapshots';
+
+/** How a watched proposal's new status reads in a notification */
+const WATCHED_STATUS_LABELS: Record<ProposalStatus['status'], string> = {
+  pending: 'pending review',
+  active: 'open for voting',
+  passed: 'passed',
+  rejected: 'failed',
+  expired: 'expired',
+  withdrawn: 'withdrawn',
+};
 
 // ============================================================================
 // Types
@@ -69,6 +104,20 @@ interface DeadlineNotificationRecord {
   };
 }
 
+/** Last seen state of a watched proposal, compared on each poll */
+interface WatchedProposalSnapshot {
+  status: ProposalStatus['status'];
+  quorumReached: boolean;
+  /** created_at of the newest comment seen, null before the first comment */
+  lastCommentAt: string | null;
+  /** Unix ms timestamp comments were last listed, unset if they never were */
+  commentsCheckedAt?: number;
+}
+
+interface WatchedSnapshotRecord {
+  [proposalId: string]: WatchedProposalSnapshot;
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -158,6 +207,30 @@ function cleanupDeadlineRecords(activeProposalIds: Set<string>): void {
   }
 }
 
+/**
+ * Get watched proposal snapshots from localStorage
+ */
+function getWatchedSnapshots(): WatchedSnapshotRecord {
+  try {
+    const raw = localStorage.getItem(WATCHED_SNAPSHOTS_KEY);
+    if (!raw) return {};
+    return JSON.parse(raw) as WatchedSnapshotRecord;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save watched proposal snapshots to localStorage
+ */
+function saveWatchedSnapshots(snapshots: WatchedSnapshotRecord): void {
+  try {
+    localStorage.setItem(WATCHED_SNAPSHOTS_KEY, JSON.stringify(snapshots));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
 // ============================================================================
 // Polling State
 // ============================================================================
@@ -197,6 +270,11 @@ async function checkNewProposals(preferences: NotificationPreferences): Promise<
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     };
     const sort: ProposalSort = 'newest';
 
@@ -254,6 +332,11 @@ async function checkVoteResults(
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     };
 
     const response = await getProposals(filters, 'newest', 1);
@@ -274,6 +357,46 @@ async function checkVoteResults(
   }
 }
 
+/**
+ * Send the 24h and 1h voting deadline warnings for a proposal when due
+ */
+function notifyVotingDeadline(
+  proposalId: string,
+  title: string,
+  votingEndsAt: number,
+  now: number
+): void {
+  const timeUntilEnd = votingEndsAt - now;
+
+  // Check 24h warning (between 23h and 24h remaining)
+  if (
+    timeUntilEnd > 0 &&
+    timeUntilEnd <= HOURS_24_MS &&
+    timeUntilEnd > HOURS_24_MS - POLLING_INTERVAL_MS * 2 &&
+    !wasDeadlineNotificationSent(proposalId, '24h')
+  ) {
+    const notification = createVotingDeadlineNotification(proposalId, title, 24);
+    if (notification) {
+      trackNotificationReceived('voting_ending_24h', proposalId);
+    }
+    markDeadlineNotificationSent(proposalId, '24h');
+  }
+
+  // Check 1h warning (between 0 and 1h remaining)
+  if (
+    timeUntilEnd > 0 &&
+    timeUntilEnd <= HOURS_1_MS &&
+    timeUntilEnd > HOURS_1_MS - POLLING_INTERVAL_MS * 2 &&
+    !wasDeadlineNotificationSent(proposalId, '1h')
+  ) {
+    const notification = createVotingDeadlineNotification(proposalId, title, 1);
+    if (notification) {
+      trackNotificationReceived('voting_ending_1h', proposalId);
+    }
+    markDeadlineNotificationSent(proposalId, '1h');
+  }
+}
+
 /**
  * Check for voting deadlines and generate warnings
  */
@@ -286,6 +409,11 @@ async function checkVotingDeadlines(preferences: NotificationPreferences): Promi
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     };
 
     const response = await getProposals(filters, 'endingSoon', 1);
@@ -294,42 +422,186 @@ async function checkVotingDeadlines(preferences: NotificationPreferences): Promi
     const now = Date.now();
     const activeIds = new Set(activeProposals.map((p) => p.id));
 
-    // Cleanup old deadline records
+    // Cleanup old deadline records; watched proposals off this page keep theirs
+    for (const entry of $watchlist.get()) {
+      activeIds.add(entry.proposalId);
+    }
     cleanupDeadlineRecords(activeIds);
 
     for (const proposal of activeProposals) {
-      const timeUntilEnd = proposal.votingEndsAt - now;
+      notifyVotingDeadline(proposal.id, proposal.title, proposal.votingEndsAt, now);
+    }
+  } catch (error) {
+    console.error('Error checking voting deadlines:', error);
+  }
+}
 
-      // Check 24h warning (between 23h and 24h remaining)
-      if (
-        timeUntilEnd > 0 &&
-        timeUntilEnd <= HOURS_24_MS &&
-        timeUntilEnd > HOURS_24_MS - POLLING_INTERVAL_MS * 2 &&
-        !wasDeadlineNotificationSent(proposal.id, '24h')
-      ) {
-        const notification = createVotingDeadlineNotification(proposal.id, proposal.title, 24);
-        if (notification) {
-          trackNotificationReceived('voting_ending_24h', proposal.id);
-        }
-        markDeadlineNotificationSent(proposal.id, '24h');
-      }
+/**
+ * Check for new mentions in proposal discussions.
+ * oracle-bridge only returns mentions while the member's canister
+ * `mentions` category is enabled; the local toggle is checked here.
+ */
+async function checkMentions(preferences: NotificationPreferences): Promise<void> {
+  if (!preferences.enabled || !preferences.mentions) return;
 
-      // Check 1h warning (between 0 and 1h remaining)
-      if (
-        timeUntilEnd > 0 &&
-        timeUntilEnd <= HOURS_1_MS &&
-        timeUntilEnd > HOURS_1_MS - POLLING_INTERVAL_MS * 2 &&
-        !wasDeadlineNotificationSent(proposal.id, '1h')
-      ) {
-        const notification = createVotingDeadlineNotification(proposal.id, proposal.title, 1);
+  try {
+    const since = localStorage.getItem(LAST_MENTION_CHECK_KEY);
+    const checkedAt = new Date().toISOString();
+
+    // First run only records the checkpoint so old mentions aren't replayed
+    if (since) {
+      const { mentions } = await listMentions(since);
+      for (const mention of mentions) {
+        const notification = createMentionNotification(
+          mention.proposal_id,
+          mention.proposal_title,
+          mention.author_name,
+          mention.comment_id
+        );
         if (notification) {
-          trackNotificationReceived('voting_ending_1h', proposal.id);
+          trackNotificationReceived('mention', mention.proposal_id);
         }
-        markDeadlineNotificationSent(proposal.id, '1h');
       }
     }
+
+    localStorage.setItem(LAST_MENTION_CHECK_KEY, checkedAt);
   } catch (error) {
-    console.error('Error checking voting deadlines:', error);
+    console.error('Error checking mentions:', error);
+  }
+}
+
+/**
+ * Compare a watched proposal with its last snapshot and notify on changes
+ * @returns The new snapshot, or null if the proposal couldn't be fetched
+ */
+async function checkWatchedProposal(
+  preferences: NotificationPreferences,
+  entry: WatchedProposal,
+  previous: WatchedProposalSnapshot | undefined,
+  currentPrincipal: string | null
+): Promise<WatchedProposalSnapshot | null> {
+  const { proposalId, title } = entry;
+  const now = Date.now();
+  // Comment lists aren't paged, so they're fetched less often than statuses
+  const checkComments =
+    previous?.commentsCheckedAt === undefined ||
+    now - previous.commentsCheckedAt >= WATCHED_COMMENTS_INTERVAL_MS;
+  const [status, commentList] = await Promise.all([
+    getProposalStatus(proposalId),
+    checkComments ? listComments(proposalId) : null,
+  ]);
+  if (!status) return null;
+
+  const visibleComments = (commentList?.comments ?? []).filter((comment) => !comment.deleted);
+  const snapshot: WatchedProposalSnapshot = {
+    status: status.status,
+    quorumReached: status.quorumReached,
+    lastCommentAt: visibleComments.reduce<string | null>(
+      (latest, comment) => (latest && latest > comment.created_at ? latest : comment.created_at),
+      previous?.lastCommentAt ?? null
+    ),
+    commentsCheckedAt: commentList ? now : previous?.commentsCheckedAt,
+  };
+
+  if (preferences.voting_ending && status.status === 'active') {
+    notifyVotingDeadline(proposalId, title, status.votingEnds, now);
+  }
+
+  // First poll after watching only records the snapshot
+  if (!previous || !preferences.watchlist) return snapshot;
+
+  if (status.status !== previous.status) {
+    const notification = createProposalStatusChangedNotification(
+      proposalId,
+      title,
+      status.status,
+      WATCHED_STATUS_LABELS[status.status]
+    );
+    if (notification) {
+      trackNotificationReceived('proposal_status_changed', proposalId);
+    }
+  }
+
+  if (status.quorumReached && !previous.quorumReached) {
+    const notification = createQuorumReachedNotification(proposalId, title);
+    if (notification) {
+      trackNotificationReceived('quorum_reached', proposalId);
+    }
+  }
+
+  // The member's own comments aren't news to them
+  const newComments = visibleComments.filter(
+    (comment) =>
+      (previous.lastCommentAt === null || comment.created_at > previous.lastCommentAt) &&
+      comment.author_principal !== currentPrincipal
+  );
+  if (newComments.length > 0) {
+    const latest = newComments[newComments.length - 1];
+    const notification = createNewCommentNotification(
+      proposalId,
+      title,
+      latest.id,
+      newComments.length
+    );
+    if (notification) {
+      trackNotificationReceived('new_comment', proposalId);
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Check watched proposals for status changes, deadlines, quorum and new
+ * comments. Each proposal's state is snapshotted so changes are reported
+ * once; snapshots of unwatched proposals are dropped. Proposals are checked
+ * a few at a time so a long watchlist doesn't flood the canister.
+ */
+async function checkWatchedProposals(preferences: NotificationPreferences): Promise<void> {
+  if (!preferences.enabled || (!preferences.watchlist && !preferences.voting_ending)) return;
+
+  const watchlist = $watchlist.get();
+  const previous = getWatchedSnapshots();
+  const currentPrincipal = getCurrentProposerPrincipal();
+  const snapshots: WatchedSnapshotRecord = {};
+
+  for (let start = 0; start < watchlist.length; start += WATCHED_CHECK_CONCURRENCY) {
+    await Promise.all(
+      watchlist.slice(start, start + WATCHED_CHECK_CONCURRENCY).map(async (entry) => {
+        try {
+          const snapshot = await checkWatchedProposal(
+            preferences,
+            entry,
+            previous[entry.proposalId],
+            currentPrincipal
+          );
+          const next = snapshot ?? previous[entry.proposalId];
+          if (next) {
+            snapshots[entry.proposalId] = next;
+          }
+        } catch (error) {
+          console.error('Error checking watched proposal:', entry.proposalId, error);
+          if (previous[entry.proposalId]) {
+            snapshots[entry.proposalId] = previous[entry.proposalId];
+          }
+        }
+      })
+    );
+  }
+
+  saveWatchedSnapshots(snapshots);
+}
+
+/**
+ * Settle the signed-in member's burn pledges whose grace period passed without a burn.
+ * Missed periods are recorded even with the toggle off so adherence stays
+ * accurate; the notification itself honours the burn_pledges preference.
+ */
+async function checkBurnPledges(): Promise<void> {
+  try {
+    checkMissedBurnPledges();
+  } catch (error) {
+    console.error('Error checking burn pledges:', error);
   }
 }
 
@@ -348,6 +620,9 @@ async function pollForNotifications(
       checkNewProposals(preferences),
       checkVoteResults(preferences, votedProposalIds),
       checkVotingDeadlines(preferences),
+      checkMentions(preferences),
+      checkWatchedProposals(preferences),
+      checkBurnPledges(),
     ]);
 
     updatePollerState({
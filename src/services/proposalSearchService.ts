@@ -0,0 +1,258 @@
+/**
+ * Proposal Search Service
+ *
+ * Client-side full-text search over proposals. Loaded proposal pages are
+ * added to an index kept in a Web Worker (persisted to IndexedDB), so
+ * searches cover title, problem statement, proposed solution and budget
+ * descriptions with prefix and typo tolerance. Falls back to running the
+ * index on the main thread where workers aren't available.
+ */
+
+import type {
+  PaginatedResponse,
+  ProposalFilters,
+  ProposalListItem,
+  ProposalSort,
+} from '@/stores';
+import type { ProposalSearchHighlight, ProposalSearchHit } from '@/utils/proposalSearch';
+import { filterAndSortProposals } from '@/utils/proposalListFilters';
+import {
+  createProposalSearchHost,
+  type ProposalSearchHost,
+  type ProposalSearchRequest,
+  type ProposalSearchResponse,
+} from '@/utils/proposalSearchHost';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A request without its requestId, which the service assigns */
+type ProposalSearchCommand<R = ProposalSearchRequest> = R extends ProposalSearchRequest
+  ? Omit<R, 'requestId'>
+  : never;
+
+/**
+ * A page of search results, with highlights keyed by proposal ID
+ */
+export interface ProposalSearchPage extends PaginatedResponse<ProposalListItem> {
+  highlights: Record<string, ProposalSearchHighlight[]>;
+}
+
+/** Who is searching, for the "My Proposals", "Not Voted" and "Watching" filters */
+export interface ProposalSearchContext {
+  currentUserPrincipal?: string;
+  votedProposalIds?: Set<string>;
+  watchedProposalIds?: Set<string>;
+}
+
+interface SearchBackend {
+  send(request: ProposalSearchRequest): Promise<ProposalSearchResponse>;
+  terminate(): void;
+}
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+/**
+ * Create structured log entry
+ */
+function log(level: 'info' | 'warn' | 'error', message: string, data?: Record<string, unknown>) {
+  if (!import.meta.env.VITE_ENABLE_LOGGING && level !== 'error') return;
+
+  const entry = {
+    timestamp: new Date().toISOString(),
+    service: 'ProposalSearchService',
+    level,
+    message,
+    ...data,
+  };
+
+  if (level === 'error') {
+    console.error(JSON.stringify(entry));
+  } else if (level === 'warn') {
+    console.warn(JSON.stringify(entry));
+  } else {
+    console.log(JSON.stringify(entry));
+  }
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+function createInlineBackend(): SearchBackend {
+  const host: ProposalSearchHost = createProposalSearchHost();
+  return {
+    send: (request) => host.handle(request),
+    terminate: () => {},
+  };
+}
+
+/**
+ * Backend running the index in a worker. If the worker fails, pending and
+ * later requests are answered by onFailure's replacement backend.
+ */
+function createWorkerBackend(onFailure: () => SearchBackend): SearchBackend {
+  const worker = new Worker(new URL('../workers/proposalSearch.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+  const pending = new Map<
+    number,
+    { request: ProposalSearchRequest; resolve: (response: ProposalSearchResponse) => void }
+  >();
+  let fallback: SearchBackend | null = null;
+
+  worker.addEventListener('message', (event: MessageEvent<ProposalSearchResponse>) => {
+    const entry = pending.get(event.data.requestId);
+    if (entry) {
+      pending.delete(event.data.requestId);
+      entry.resolve(event.data);
+    }
+  });
+
+  worker.addEventListener('error', (event) => {
+    log('warn', 'Search worker failed, searching on the main thread', {
+      error: event.message,
+    });
+    worker.terminate();
+    fallback = onFailure();
+    for (const { request, resolve } of pending.values()) {
+      void fallback.send(request).then(resolve);
+    }
+    pending.clear();
+  });
+
+  return {
+    send(request) {
+      if (fallback) {
+        return fallback.send(request);
+      }
+      return new Promise((resolve) => {
+        pending.set(request.requestId, { request, resolve });
+        worker.postMessage(request);
+      });
+    },
+    terminate() {
+      worker.terminate();
+      pending.clear();
+    },
+  };
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+let backend: SearchBackend | null = null;
+let nextRequestId = 1;
+
+function getBackend(): SearchBackend {
+  if (!backend) {
+    if (typeof Worker === 'undefined') {
+      backend = createInlineBackend();
+    } else {
+      try {
+        backend = createWorkerBackend(createInlineBackend);
+      } catch (error) {
+        log('warn', 'Search worker unavailable, searching on the main thread', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        backend = createInlineBackend();
+      }
+    }
+  }
+  return backend;
+}
+
+function send(command: ProposalSearchCommand): Promise<ProposalSearchResponse> {
+  return getBackend().send({ ...command, requestId: nextRequestId++ } as ProposalSearchRequest);
+}
+
+/**
+ * Add or refresh proposals in the search index. The index keeps (and
+ * persists) each proposal as last loaded, so pass every loaded page.
+ *
+ * @returns Number of proposals now indexed
+ */
+export async function indexProposals(items: ProposalListItem[]): Promise<number> {
+  if (items.length === 0) return 0;
+
+  const response = await send({ type: 'index', items });
+  return response.type === 'indexed' ? response.size : 0;
+}
+
+/**
+ * Search indexed proposals, best match first
+ */
+export async function searchProposals(query: string, limit?: number): Promise<ProposalSearchHit[]> {
+  const response = await send({ type: 'search', query, limit });
+  return response.type === 'results' ? response.hits : [];
+}
+
+/**
+ * Search indexed proposals for filters.search, applying the other list
+ * filters to the matches. The default "newest" sort ranks by relevance
+ * instead; other sorts are applied as chosen. Proposals are returned as
+ * last loaded, which for pages not loaded since a reload is the copy
+ * persisted with the index.
+ */
+export async function searchProposalPage(
+  filters: ProposalFilters,
+  sort: ProposalSort,
+  page: number,
+  pageSize: number,
+  context: ProposalSearchContext = {}
+): Promise<ProposalSearchPage> {
+  const hits = await searchProposals(filters.search);
+  const rank = new Map(hits.map((hit, position) => [hit.id, position]));
+
+  const matches = filterAndSortProposals(
+    hits.map((hit) => hit.item),
+    { ...filters, search: '' },
+    sort,
+    context.currentUserPrincipal,
+    context.votedProposalIds,
+    context.watchedProposalIds
+  );
+  if (sort === 'newest') {
+    matches.sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+  }
+
+  const items = matches.slice((page - 1) * pageSize, page * pageSize);
+  const highlights: Record<string, ProposalSearchHighlight[]> = {};
+  for (const hit of hits) {
+    if (items.some((item) => item.id === hit.id)) {
+      highlights[hit.id] = hit.highlights;
+    }
+  }
+
+  log('info', 'Searched proposals', { query: filters.search, matches: matches.length });
+  return { items, total: matches.length, page, pageSize, highlights };
+}
+
+/**
+ * Empty the search index, including its persisted copy
+ */
+export async function clearProposalSearchIndex(): Promise<void> {
+  await send({ type: 'clear' });
+}
+
+/**
+ * Drop the search backend (for testing)
+ */
+export function resetProposalSearchService(): void {
+  backend?.terminate();
+  backend = null;
+  nextRequestId = 1;
+}
+
+export const ProposalSearchService = {
+  indexProposals,
+  searchProposals,
+  searchProposalPage,
+  clearProposalSearchIndex,
+};
+
+export default ProposalSearchService;
@@ -0,0 +1,662 @@
+/**
+ * Staking Service
+ *
+ * Service for locking DOM in the governance canister in exchange for boosted
+ * voting power. Staking approves the governance canister (ICRC-2) for the
+ * stake and then asks it to pull the tokens; unstaking starts the dissolve
+ * timer, and dissolved stakes are withdrawn back to the member's account.
+ * Provides hooks for React component integration.
+ */
+
+import { useEffect, useCallback } from 'react';
+import { useStore } from '@nanostores/react';
+import { HttpAgent, Actor } from '@dfinity/agent';
+import { Principal } from '@dfinity/principal';
+import { IDL } from '@dfinity/candid';
+import {
+  $staking,
+  $stakingAction,
+  $stakedVotingPower,
+  $totalStaked,
+  $tokenBalance,
+  $transferFee,
+  setStakingLoading,
+  setStakes,
+  setStakingError,
+  upsertStake,
+  removeStake,
+  setStakingActionPending,
+  setStakingActionError,
+  resetStakingAction,
+  getStakeStatus,
+  validateStakeAmount,
+  validateDissolveDelay,
+  DEFAULT_TRANSFER_FEE,
+  type Stake,
+  type StakingState,
+  type StakingActionState,
+  type StakingActionType,
+} from '@/stores';
+import { approveAllowance } from './allowanceService';
+import { fetchTokenBalance, fetchTransferFee } from './tokenService';
+import { trackEvent } from '../utils/analytics';
+import { getAuthenticatedIdentity } from '../utils/icIdentity';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Governance canister ID (holds stakes) */
+const GOVERNANCE_CANISTER_ID = import.meta.env.VITE_GOVERNANCE_CANISTER_ID || '';
+
+/** Request timeout in milliseconds */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/** Update call timeout in milliseconds */
+const UPDATE_TIMEOUT_MS = 30000;
+
+/** How long the staking approval stays valid */
+const STAKE_APPROVAL_TTL_MS = 10 * 60 * 1000;
+
+/** Seconds per day */
+const DAY_SECONDS = 24 * 60 * 60;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FetchStakesResult {
+  success: boolean;
+  stakes?: Stake[];
+  error?: string;
+}
+
+export interface StakeRequest {
+  /** Tokens to lock (in e8s) */
+  amount: bigint;
+  /** Dissolve delay in days */
+  dissolveDelayDays: number;
+}
+
+export interface StakingActionResult {
+  success: boolean;
+  stake?: Stake;
+  error?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** IC host for agent connections */
+const IC_HOST = import.meta.env.VITE_IC_HOST || 'https://ic0.app';
+
+/**
+ * Check if we're in mock/development mode
+ */
+function isMockMode(): boolean {
+  return !GOVERNANCE_CANISTER_ID;
+}
+
+const StakeIDL = IDL.Record({
+  id: IDL.Nat64,
+  amount: IDL.Nat,
+  dissolve_delay_seconds: IDL.Nat64,
+  dissolve_started_at: IDL.Opt(IDL.Nat64),
+  aging_since: IDL.Nat64,
+  created_at: IDL.Nat64,
+});
+
+const StakeErrorIDL = IDL.Variant({
+  NotFound: IDL.Null,
+  NotAuthorized: IDL.Null,
+  InvalidDissolveDelay: IDL.Record({ min_seconds: IDL.Nat64, max_seconds: IDL.Nat64 }),
+  InsufficientStake: IDL.Record({ minimum: IDL.Nat }),
+  AlreadyDissolving: IDL.Null,
+  NotDissolved: IDL.Null,
+  TransferFailed: IDL.Text,
+});
+
+const StakeResultIDL = IDL.Variant({ Ok: StakeIDL, Err: StakeErrorIDL });
+
+/**
+ * Minimal IDL factory for the governance canister's staking methods.
+ */
+const stakingIdl = IDL.Service({
+  list_stakes: IDL.Func([IDL.Principal], [IDL.Vec(StakeIDL)], ['query']),
+  stake: IDL.Func(
+    [IDL.Record({ amount: IDL.Nat, dissolve_delay_seconds: IDL.Nat64 })],
+    [StakeResultIDL],
+    [],
+  ),
+  start_dissolving: IDL.Func([IDL.Nat64], [StakeResultIDL], []),
+  increase_dissolve_delay: IDL.Func([IDL.Nat64, IDL.Nat64], [StakeResultIDL], []),
+  disburse_stake: IDL.Func(
+    [IDL.Nat64],
+    [IDL.Variant({ Ok: IDL.Nat, Err: StakeErrorIDL })],
+    [],
+  ),
+});
+
+interface CanisterStake {
+  id: bigint;
+  amount: bigint;
+  dissolve_delay_seconds: bigint;
+  dissolve_started_at: [] | [bigint];
+  aging_since: bigint;
+  created_at: bigint;
+}
+
+/**
+ * Convert a nanosecond timestamp to milliseconds
+ */
+function nsToMs(ns: bigint): number {
+  return Number(ns / BigInt(1_000_000));
+}
+
+/**
+ * Map a canister stake to the store shape
+ */
+function mapCanisterStake(raw: CanisterStake): Stake {
+  return {
+    id: raw.id.toString(),
+    amount: raw.amount,
+    dissolveDelayDays: Number(raw.dissolve_delay_seconds) / DAY_SECONDS,
+    dissolveStartedAt: raw.dissolve_started_at[0] ? nsToMs(raw.dissolve_started_at[0]) : null,
+    agingSince: nsToMs(raw.aging_since),
+    createdAt: nsToMs(raw.created_at),
+  };
+}
+
+/**
+ * Unwrap a Result variant, formatting the StakeError into a readable message
+ */
+function unwrapResult<T>(result: Record<string, unknown>): T {
+  if ('Err' in result) {
+    const err = result.Err as Record<string, unknown>;
+    const errKey = Object.keys(err)[0];
+    const errVal = err[errKey];
+    // Nat fields decode to bigint, which JSON.stringify cannot serialize
+    const json = JSON.stringify(errVal, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+    throw new Error(errVal === null ? errKey : `${errKey}: ${json}`);
+  }
+  return result.Ok as T;
+}
+
+/**
+ * Create structured log entry
+ */
+function log(level: 'info' | 'warn' | 'error', message: string, data?: Record<string, unknown>) {
+  if (!import.meta.env.VITE_ENABLE_LOGGING && level !== 'error') return;
+
+  const entry = {
+    timestamp: new Date().toISOString(),
+    service: 'StakingService',
+    level,
+    message,
+    ...data,
+  };
+
+  if (level === 'error') {
+    console.error(JSON.stringify(entry));
+  } else if (level === 'warn') {
+    console.warn(JSON.stringify(entry));
+  } else {
+    console.log(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Sleep for specified milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Execute with timeout
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
+    ),
+  ]);
+}
+
+/**
+ * Create a governance actor signed with the member's Internet Identity
+ */
+function createSignedActor() {
+  const identity = getAuthenticatedIdentity();
+  if (!identity) {
+    throw new Error('Internet Identity not connected. Please log in with II to manage stakes.');
+  }
+
+  const agent = HttpAgent.createSync({ host: IC_HOST, identity });
+  return Actor.createActor(() => stakingIdl, {
+    agent,
+    canisterId: GOVERNANCE_CANISTER_ID,
+  });
+}
+
+// ============================================================================
+// Mock Implementation
+// ============================================================================
+
+/** Mock stakes keyed by owner principal */
+const mockStakes = new Map<string, Stake[]>();
+
+/**
+ * Find a mock stake, throwing like the canister would when it is missing
+ */
+function findMockStake(owner: string, stakeId: string): Stake {
+  const stake = mockStakes.get(owner)?.find((s) => s.id === stakeId);
+  if (!stake) throw new Error('NotFound');
+  return stake;
+}
+
+/**
+ * Replace a mock stake
+ */
+function saveMockStake(owner: string, stake: Stake): Stake {
+  const stakes = (mockStakes.get(owner) ?? []).filter((s) => s.id !== stake.id);
+  mockStakes.set(owner, [...stakes, stake]);
+  return stake;
+}
+
+/**
+ * Mock stake list for development
+ */
+async function mockListStakes(owner: string): Promise<Stake[]> {
+  log('info', 'Mock stake list fetch', { owner });
+
+  // Simulate network delay
+  await sleep(200);
+
+  return mockStakes.get(owner) ?? [];
+}
+
+/**
+ * Mock staking actions for development
+ */
+async function mockStakingCall(
+  owner: string,
+  action: StakingActionType,
+  args: { stakeId?: string; amount?: bigint; dissolveDelayDays?: number }
+): Promise<Stake> {
+  log('info', 'Mock staking call', { owner, action });
+
+  // Simulate network delay
+  await sleep(800);
+
+  const now = Date.now();
+  if (action === 'stake') {
+    return saveMockStake(owner, {
+      id: String(now),
+      amount: args.amount ?? BigInt(0),
+      dissolveDelayDays: args.dissolveDelayDays ?? 0,
+      dissolveStartedAt: null,
+      agingSince: now,
+      createdAt: now,
+    });
+  }
+
+  const stake = findMockStake(owner, args.stakeId ?? '');
+  if (action === 'dissolve') {
+    return saveMockStake(owner, { ...stake, dissolveStartedAt: now, agingSince: now });
+  }
+  if (action === 'extend') {
+    return saveMockStake(owner, { ...stake, dissolveDelayDays: args.dissolveDelayDays ?? 0 });
+  }
+
+  mockStakes.set(owner, (mockStakes.get(owner) ?? []).filter((s) => s.id !== stake.id));
+  return stake;
+}
+
+// ============================================================================
+// Canister Integration
+// ============================================================================
+
+/**
+ * Query a member's stakes
+ *
+ * @param owner - Stake owner
+ * @returns The member's stakes
+ */
+async function listStakesFromCanister(owner: string): Promise<Stake[]> {
+  if (isMockMode()) {
+    return mockListStakes(owner);
+  }
+
+  // Anonymous agent is safe — list_stakes is a public query method
+  const agent = HttpAgent.createSync({ host: IC_HOST });
+  const actor = Actor.createActor(() => stakingIdl, {
+    agent,
+    canisterId: GOVERNANCE_CANISTER_ID,
+  });
+
+  const result = (await actor.list_stakes(Principal.fromText(owner))) as CanisterStake[];
+  return result.map(mapCanisterStake);
+}
+
+/**
+ * Create a stake. The governance canister pulls `amount` with the approval
+ * granted beforehand.
+ */
+async function stakeOnCanister(owner: string, request: StakeRequest): Promise<Stake> {
+  if (isMockMode()) {
+    return mockStakingCall(owner, 'stake', request);
+  }
+
+  const actor = createSignedActor();
+  const result = (await actor.stake({
+    amount: request.amount,
+    dissolve_delay_seconds: BigInt(request.dissolveDelayDays * DAY_SECONDS),
+  })) as Record<string, unknown>;
+  return mapCanisterStake(unwrapResult<CanisterStake>(result));
+}
+
+/**
+ * Start dissolving a stake
+ */
+async function startDissolvingOnCanister(owner: string, stakeId: string): Promise<Stake> {
+  if (isMockMode()) {
+    return mockStakingCall(owner, 'dissolve', { stakeId });
+  }
+
+  const actor = createSignedActor();
+  const result = (await actor.start_dissolving(BigInt(stakeId))) as Record<string, unknown>;
+  return mapCanisterStake(unwrapResult<CanisterStake>(result));
+}
+
+/**
+ * Increase a stake's dissolve delay
+ */
+async function increaseDissolveDelayOnCanister(
+  owner: string,
+  stakeId: string,
+  dissolveDelayDays: number
+): Promise<Stake> {
+  if (isMockMode()) {
+    return mockStakingCall(owner, 'extend', { stakeId, dissolveDelayDays });
+  }
+
+  const actor = createSignedActor();
+  const result = (await actor.increase_dissolve_delay(
+    BigInt(stakeId),
+    BigInt(dissolveDelayDays * DAY_SECONDS)
+  )) as Record<string, unknown>;
+  return mapCanisterStake(unwrapResult<CanisterStake>(result));
+}
+
+/**
+ * Withdraw a dissolved stake to the member's account
+ */
+async function disburseOnCanister(owner: string, stakeId: string): Promise<void> {
+  if (isMockMode()) {
+    await mockStakingCall(owner, 'withdraw', { stakeId });
+    return;
+  }
+
+  const actor = createSignedActor();
+  const result = (await actor.disburse_stake(BigInt(stakeId))) as Record<string, unknown>;
+  unwrapResult<bigint>(result);
+}
+
+// ============================================================================
+// Core Service Functions
+// ============================================================================
+
+/**
+ * Fetch the member's stakes
+ *
+ * @param principal - Stake owner
+ * @returns Result with stakes or error
+ */
+export async function fetchStakes(principal: string): Promise<FetchStakesResult> {
+  log('info', 'Fetching stakes', { principal });
+
+  setStakingLoading(true);
+
+  try {
+    const stakes = await withTimeout(listStakesFromCanister(principal), REQUEST_TIMEOUT_MS);
+    setStakes(principal, stakes);
+    return { success: true, stakes };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch stakes';
+    log('error', 'Stake fetch failed', { error: errorMessage });
+    setStakingError(errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Run a staking action and update the store on success
+ */
+async function runStakingAction(
+  action: StakingActionType,
+  stakeId: string | null,
+  call: (principal: string) => Promise<Stake | null>
+): Promise<StakingActionResult> {
+  const { principal } = $tokenBalance.get();
+  if (!principal) {
+    const error = 'Internet Identity not connected. Please log in with II to manage stakes.';
+    setStakingActionError(error);
+    return { success: false, error };
+  }
+
+  setStakingActionPending(action, stakeId);
+
+  try {
+    const stake = await withTimeout(call(principal), UPDATE_TIMEOUT_MS);
+
+    if (stake) {
+      upsertStake(stake);
+    } else if (stakeId) {
+      removeStake(stakeId);
+    }
+    resetStakingAction();
+    // Staking and withdrawing move DOM in or out of the account
+    if (action === 'stake' || action === 'withdraw') {
+      fetchTokenBalance(principal);
+    }
+
+    log('info', 'Staking action complete', { action, stakeId: stake?.id ?? stakeId });
+    trackEvent(`stake_${action}`, { stakeId: stake?.id ?? stakeId });
+    return { success: true, stake: stake ?? undefined };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Staking action failed';
+    log('error', 'Staking action failed', { action, stakeId, error: errorMessage });
+    setStakingActionError(errorMessage);
+    trackEvent('stake_error', { action, error: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Lock DOM with a dissolve delay
+ *
+ * @param request - Amount and dissolve delay
+ * @returns Result with the new stake
+ */
+export async function createStake(request: StakeRequest): Promise<StakingActionResult> {
+  log('info', 'Creating stake', {
+    amount: request.amount.toString(),
+    dissolveDelayDays: request.dissolveDelayDays,
+  });
+
+  const { balance } = $tokenBalance.get();
+  const fee = $transferFee.get() ?? DEFAULT_TRANSFER_FEE;
+  const validationError =
+    validateStakeAmount(request.amount, balance, fee) ??
+    validateDissolveDelay(request.dissolveDelayDays);
+  if (validationError) {
+    log('warn', 'Stake validation failed', { error: validationError });
+    setStakingActionError(validationError);
+    return { success: false, error: validationError };
+  }
+
+  return runStakingAction('stake', null, async (principal) => {
+    if (!isMockMode()) {
+      // The governance canister pulls the stake plus its transfer fee
+      const approval = await approveAllowance({
+        spender: GOVERNANCE_CANISTER_ID,
+        amount: request.amount + fee,
+        expiresAt: Date.now() + STAKE_APPROVAL_TTL_MS,
+      });
+      if (!approval.success) {
+        throw new Error(approval.error ?? 'Failed to approve the stake transfer');
+      }
+    }
+    return stakeOnCanister(principal, request);
+  });
+}
+
+/**
+ * Start dissolving a stake. Its voting power drops once the remaining delay
+ * falls below the minimum.
+ *
+ * @param stakeId - Stake ID
+ * @returns Result with the updated stake
+ */
+export async function startDissolving(stakeId: string): Promise<StakingActionResult> {
+  log('info', 'Starting dissolve', { stakeId });
+
+  return runStakingAction('dissolve', stakeId, (principal) =>
+    startDissolvingOnCanister(principal, stakeId)
+  );
+}
+
+/**
+ * Increase a stake's dissolve delay
+ *
+ * @param stakeId - Stake ID
+ * @param dissolveDelayDays - New dissolve delay in days
+ * @returns Result with the updated stake
+ */
+export async function increaseDissolveDelay(
+  stakeId: string,
+  dissolveDelayDays: number
+): Promise<StakingActionResult> {
+  log('info', 'Increasing dissolve delay', { stakeId, dissolveDelayDays });
+
+  const stake = $staking.get().stakes.find((s) => s.id === stakeId);
+  const validationError = stake
+    ? validateDissolveDelay(dissolveDelayDays, stake.dissolveDelayDays)
+    : 'Stake not found';
+  if (validationError) {
+    setStakingActionError(validationError);
+    return { success: false, error: validationError };
+  }
+
+  return runStakingAction('extend', stakeId, (principal) =>
+    increaseDissolveDelayOnCanister(principal, stakeId, dissolveDelayDays)
+  );
+}
+
+/**
+ * Withdraw a dissolved stake back to the member's account
+ *
+ * @param stakeId - Stake ID
+ * @returns Result with success status
+ */
+export async function withdrawStake(stakeId: string): Promise<StakingActionResult> {
+  log('info', 'Withdrawing stake', { stakeId });
+
+  const stake = $staking.get().stakes.find((s) => s.id === stakeId);
+  if (!stake || getStakeStatus(stake) !== 'dissolved') {
+    const error = 'Only fully dissolved stakes can be withdrawn';
+    setStakingActionError(error);
+    return { success: false, error };
+  }
+
+  return runStakingAction('withdraw', stakeId, async (principal) => {
+    await disburseOnCanister(principal, stakeId);
+    return null;
+  });
+}
+
+// ============================================================================
+// React Hook
+// ============================================================================
+
+export interface UseStakingResult {
+  /** Staking state */
+  state: StakingState;
+  /** Stake/dissolve/extend/withdraw state */
+  actionState: StakingActionState;
+  /** Total DOM locked (in e8s) */
+  totalStaked: bigint;
+  /** Current voting power from stakes (in e8s) */
+  votingPower: bigint;
+  /** Ledger fee per transfer */
+  fee: bigint;
+  /** Lock DOM */
+  stake: (request: StakeRequest) => Promise<StakingActionResult>;
+  /** Start dissolving a stake */
+  dissolve: (stakeId: string) => Promise<StakingActionResult>;
+  /** Increase a stake's dissolve delay */
+  extend: (stakeId: string, dissolveDelayDays: number) => Promise<StakingActionResult>;
+  /** Withdraw a dissolved stake */
+  withdraw: (stakeId: string) => Promise<StakingActionResult>;
+  /** Reload stakes */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the member's stakes.
+ * Loads stakes and the ledger fee on mount and when the account changes.
+ *
+ * @param principal - Stake owner (null when II is not linked)
+ * @returns Staking state and actions
+ */
+export function useStaking(principal: string | null): UseStakingResult {
+  const state = useStore($staking);
+  const actionState = useStore($stakingAction);
+  const totalStaked = useStore($totalStaked);
+  const votingPower = useStore($stakedVotingPower);
+  const fee = useStore($transferFee) ?? DEFAULT_TRANSFER_FEE;
+
+  useEffect(() => {
+    if (!principal) return;
+    fetchStakes(principal);
+    if ($transferFee.get() === null) {
+      fetchTransferFee();
+    }
+  }, [principal]);
+
+  const refresh = useCallback(async () => {
+    if (principal) {
+      await fetchStakes(principal);
+    }
+  }, [principal]);
+
+  return {
+    state,
+    actionState,
+    totalStaked,
+    votingPower,
+    fee,
+    stake: createStake,
+    dissolve: startDissolving,
+    extend: increaseDissolveDelay,
+    withdraw: withdrawStake,
+    refresh,
+  };
+}
+
+// ============================================================================
+// Export Service Object
+// ============================================================================
+
+export const StakingService = {
+  fetchStakes,
+  stake: createStake,
+  startDissolving,
+  increaseDissolveDelay,
+  withdraw: withdrawStake,
+};
+
+export default StakingService;
@@ -1,14 +1,15 @@
 /**
  * Token Balance Service
  *
- * Service for fetching DOM token balances from the dom-token canister.
+ * Service for fetching DOM token balances from the dom-token canister and
+ * sending DOM to other members with icrc1_transfer.
  * Provides hooks for React component integration.
  *
  * Story: 9-2-1-token-balance-display
  * ACs: 1, 2, 3
  */
 
-import { useEffect, useCallback, useState, useRef } from 'react';
+import { useEffect, useCallback, useMemo, useState, useRef } from 'react';
 import { useStore } from '@nanostores/react';
 import { HttpAgent, Actor } from '@dfinity/agent';
 import { Principal } from '@dfinity/principal';
@@ -16,14 +17,36 @@ import { IDL } from '@dfinity/candid';
 import {
   $tokenBalance,
   $tokenBalanceLoading,
+  $transferExecution,
+  $transferFee,
+  $transferHistory,
+  $pendingTransfers,
   setTokenBalanceLoading,
   setTokenBalance,
   setTokenBalanceError,
   clearTokenBalance,
   isBalanceStale,
+  setTransferPending,
+  setTransferSuccess,
+  setTransferExecutionError,
+  resetTransferExecution,
+  setTransferFee,
+  addTransferRecord,
+  updateTransferRecordStatus,
+  getPendingTransferRecord,
+  subaccountFromHex,
+  validateTransferRecipient,
+  validateTransferAmount,
+  validateTransferMemo,
+  generateTransferId,
+  DEFAULT_TRANSFER_FEE,
   type TokenBalanceState,
+  type TransferExecutionState,
+  type LocalTransferRecord,
 } from '@/stores';
+import { findLedgerTransfers, type FindLedgerTransfersResult } from './walletActivityService';
 import { trackEvent } from '../utils/analytics';
+import { getAuthenticatedIdentity } from '../utils/icIdentity';
 
 // ============================================================================
 // Configuration
@@ -35,6 +58,9 @@ const DOM_TOKEN_CANISTER_ID = import.meta.env.VITE_DOM_TOKEN_CANISTER_ID || '';
 /** Request timeout in milliseconds */
 const REQUEST_TIMEOUT_MS = 15000;
 
+/** Transfer (update call) timeout in milliseconds */
+const TRANSFER_TIMEOUT_MS = 30000;
+
 /** Initial backoff delay for retries (1 second) */
 const INITIAL_BACKOFF_MS = 1000;
 
@@ -47,6 +73,16 @@ const MAX_RETRY_ATTEMPTS = 3;
 /** Stale threshold for balance (2 minutes) */
 const STALE_THRESHOLD_MS = 2 * 60 * 1000;
 
+/**
+ * Age after which a transfer missing from the ledger never arrived: update
+ * calls expire within 5 minutes, plus a minute for clock drift and index lag
+ */
+const TRANSFER_SETTLE_WINDOW_MS = 6 * 60 * 1000;
+
+/** Failure reason recorded when the member dismisses a pending transfer */
+const TRANSFER_DISMISSED_ERROR =
+  'Dismissed before it was confirmed. Check your wallet activity before sending it again.';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -57,6 +93,36 @@ export interface FetchBalanceResult {
   error?: string;
 }
 
+export interface FetchTransferFeeResult {
+  success: boolean;
+  fee?: bigint;
+  error?: string;
+}
+
+export interface TransferRequest {
+  /** Recipient principal */
+  to: string;
+  /** Recipient subaccount (64 hex characters) */
+  toSubaccount?: string;
+  /** Amount in e8s */
+  amount: bigint;
+  /** Memo text */
+  memo?: string;
+}
+
+export interface ExecuteTransferResult {
+  success: boolean;
+  txIndex?: string;
+  error?: string;
+}
+
+export interface ReconcileTransfersResult {
+  success: boolean;
+  confirmed: number;
+  failed: number;
+  error?: string;
+}
+
 export interface TokenServiceState {
   isRefreshing: boolean;
   retryCount: number;
@@ -89,6 +155,46 @@ const icrc1BalanceOfIdl = IDL.Service({
   ),
 });
 
+const AccountIDL = IDL.Record({ owner: IDL.Principal, subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)) });
+const TransferErrorIDL = IDL.Variant({
+  BadFee: IDL.Record({ expected_fee: IDL.Nat }),
+  BadBurn: IDL.Record({ min_burn_amount: IDL.Nat }),
+  InsufficientFunds: IDL.Record({ balance: IDL.Nat }),
+  TooOld: IDL.Null,
+  CreatedInFuture: IDL.Record({ ledger_time: IDL.Nat64 }),
+  Duplicate: IDL.Record({ duplicate_of: IDL.Nat }),
+  TemporarilyUnavailable: IDL.Null,
+  GenericError: IDL.Record({ error_code: IDL.Nat, message: IDL.Text }),
+});
+
+/**
+ * Minimal IDL factory for ICRC-1 fee query and transfer.
+ */
+const icrc1TransferIdl = IDL.Service({
+  icrc1_fee: IDL.Func([], [IDL.Nat], ['query']),
+  icrc1_transfer: IDL.Func(
+    [
+      IDL.Record({
+        from_subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)),
+        to: AccountIDL,
+        amount: IDL.Nat,
+        fee: IDL.Opt(IDL.Nat),
+        memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
+        created_at_time: IDL.Opt(IDL.Nat64),
+      }),
+    ],
+    [IDL.Variant({ Ok: IDL.Nat, Err: TransferErrorIDL })],
+    [],
+  ),
+});
+
+/**
+ * Ledger answer to an icrc1_transfer call
+ */
+type TransferCallResult =
+  | { ok: true; txIndex: string }
+  | { ok: false; errKey: string; error: string; duplicateOf?: string };
+
 /**
  * Create structured log entry
  */
@@ -164,6 +270,47 @@ async function mockGetBalance(principal: string): Promise<bigint> {
   return mockBalances[principal] ?? BigInt(500000000000); // 5,000 DOM
 }
 
+/** Mock ledger transactions keyed by transfer record ID (for deduplication) */
+const mockTransfers = new Map<string, string>();
+
+/** Mock transaction counter */
+let mockTxCounter = 5000;
+
+/**
+ * Mock transfer for development. Resubmitting a record returns Duplicate,
+ * like the ledger's deduplication.
+ */
+async function mockSubmitTransfer(record: LocalTransferRecord): Promise<TransferCallResult> {
+  log('info', 'Mock icrc1_transfer execution', { id: record.id, to: record.to });
+  await sleep(1200);
+
+  const existing = mockTransfers.get(record.id);
+  if (existing) {
+    return {
+      ok: false,
+      errKey: 'Duplicate',
+      error: `Duplicate: {"duplicate_of":"${existing}"}`,
+      duplicateOf: existing,
+    };
+  }
+
+  mockTxCounter++;
+  mockTransfers.set(record.id, mockTxCounter.toString());
+  return { ok: true, txIndex: mockTxCounter.toString() };
+}
+
+/**
+ * Mock ledger lookup for development: finds transfers this session submitted
+ */
+function mockFindTransfers(records: LocalTransferRecord[]): FindLedgerTransfersResult {
+  const found: Record<string, string> = {};
+  for (const record of records) {
+    const txIndex = mockTransfers.get(record.id);
+    if (txIndex) found[record.id] = txIndex;
+  }
+  return { success: true, found, complete: true };
+}
+
 // ============================================================================
 // Canister Integration
 // ============================================================================
@@ -200,6 +347,76 @@ async function fetchBalanceFromCanister(principal: string): Promise<bigint> {
   return balance;
 }
 
+/**
+ * Fetch the transfer fee from dom-token canister
+ */
+async function fetchFeeFromCanister(): Promise<bigint> {
+  if (isMockMode()) {
+    return DEFAULT_TRANSFER_FEE;
+  }
+
+  const agent = HttpAgent.createSync({ host: IC_HOST });
+  const actor = Actor.createActor(() => icrc1TransferIdl, {
+    agent,
+    canisterId: DOM_TOKEN_CANISTER_ID,
+  });
+  return (await actor.icrc1_fee()) as bigint;
+}
+
+/**
+ * Submit a transfer record to dom-token canister.
+ * The record's created_at_time, fee and memo are sent as-is, so the transfer
+ * can be found in the sender's ledger history if the call times out.
+ * Requires an authenticated II delegation in sessionStorage.
+ *
+ * @param record - Transfer record to submit
+ * @returns Ledger result (throws when the outcome is unknown)
+ */
+async function submitTransferToCanister(record: LocalTransferRecord): Promise<TransferCallResult> {
+  if (isMockMode()) {
+    return mockSubmitTransfer(record);
+  }
+
+  const identity = getAuthenticatedIdentity();
+  if (!identity) {
+    throw new Error('Internet Identity not connected. Please log in with II to send tokens.');
+  }
+
+  const agent = HttpAgent.createSync({ host: IC_HOST, identity });
+  const actor = Actor.createActor(() => icrc1TransferIdl, {
+    agent,
+    canisterId: DOM_TOKEN_CANISTER_ID,
+  });
+
+  const result = (await actor.icrc1_transfer({
+    from_subaccount: [],
+    to: {
+      owner: Principal.fromText(record.to),
+      subaccount: record.toSubaccount ? [subaccountFromHex(record.toSubaccount)] : [],
+    },
+    amount: record.amount,
+    fee: [record.fee],
+    memo: record.memo ? [new TextEncoder().encode(record.memo)] : [],
+    created_at_time: [record.createdAtTime],
+  })) as Record<string, unknown>;
+
+  if ('Err' in result) {
+    // Format the TransferError variant into a readable message
+    const err = result.Err as Record<string, unknown>;
+    const errKey = Object.keys(err)[0];
+    const errVal = err[errKey];
+    // Nat fields decode to bigint, which JSON.stringify cannot serialize
+    const json = JSON.stringify(errVal, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+    const detail = errVal === null ? '' : `: ${json}`;
+    const duplicateOf =
+      errKey === 'Duplicate'
+        ? String((errVal as { duplicate_of: bigint }).duplicate_of)
+        : undefined;
+    return { ok: false, errKey, error: `${errKey}${detail}`, duplicateOf };
+  }
+  return { ok: true, txIndex: String(result.Ok) };
+}
+
 // ============================================================================
 // Core Service Functions
 // ============================================================================
@@ -290,6 +507,218 @@ export function clearBalance(): void {
   clearTokenBalance();
 }
 
+/**
+ * Fetch the ledger transfer fee
+ */
+export async function fetchTransferFee(): Promise<FetchTransferFeeResult> {
+  log('info', 'Fetching transfer fee');
+
+  try {
+    const fee = await withTimeout(fetchFeeFromCanister(), REQUEST_TIMEOUT_MS);
+    setTransferFee(fee);
+    return { success: true, fee };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch transfer fee';
+    log('error', 'Transfer fee fetch failed', { error: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Refresh the sender's balance after a transfer settles
+ */
+function refreshSenderBalance(): void {
+  const principal = $tokenBalance.get().principal;
+  if (principal) {
+    fetchTokenBalance(principal);
+  }
+}
+
+/**
+ * Send DOM to another account
+ *
+ * @param request - Recipient, amount and memo
+ * @returns Result with success status and transaction index
+ */
+export async function executeTransfer(request: TransferRequest): Promise<ExecuteTransferResult> {
+  log('info', 'Executing transfer', { to: request.to, amount: request.amount.toString() });
+
+  const { balance, principal } = $tokenBalance.get();
+  const fee = $transferFee.get() ?? DEFAULT_TRANSFER_FEE;
+  const validationError =
+    validateTransferRecipient(request.to, request.toSubaccount, principal) ??
+    validateTransferMemo(request.memo ?? '') ??
+    validateTransferAmount(request.amount, balance, fee);
+  if (validationError) {
+    log('warn', 'Transfer validation failed', { error: validationError });
+
+    trackEvent('token_transfer_failed', {
+      error_type: 'validation',
+      error_message: validationError,
+    });
+
+    return { success: false, error: validationError };
+  }
+
+  if (!isMockMode() && !getAuthenticatedIdentity()) {
+    return {
+      success: false,
+      error: 'Internet Identity not connected. Please log in with II to send tokens.',
+    };
+  }
+
+  if (!principal) {
+    return { success: false, error: 'Sender account not loaded' };
+  }
+
+  // Check for pending transfer (idempotency)
+  const pendingRecord = getPendingTransferRecord(principal);
+  if (pendingRecord) {
+    log('warn', 'Transfer already pending', { id: pendingRecord.id });
+    return { success: false, error: 'A transfer is already in progress' };
+  }
+
+  // Create local record in pending state
+  const record: LocalTransferRecord = {
+    id: generateTransferId(),
+    principal,
+    to: request.to.trim(),
+    toSubaccount: request.toSubaccount?.trim() || undefined,
+    amount: request.amount,
+    fee,
+    memo: request.memo || undefined,
+    createdAtTime: BigInt(Date.now()) * BigInt(1_000_000),
+    timestamp: Date.now(),
+    status: 'pending',
+  };
+  addTransferRecord(record);
+  setTransferPending();
+
+  let result: TransferCallResult;
+  try {
+    result = await withTimeout(submitTransferToCanister(record), TRANSFER_TIMEOUT_MS);
+  } catch (error) {
+    // The call may still have reached the ledger: keep the record pending
+    // so reconciliation can settle it
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    setTransferExecutionError(
+      `${errorMessage}. Use "Check status" under Recent transfers to see if it went through, ` +
+        'or dismiss it there to send again.'
+    );
+
+    log('error', 'Transfer outcome unknown', { id: record.id, error: errorMessage });
+
+    trackEvent('token_transfer_failed', {
+      error_type: 'unknown_outcome',
+      error_message: errorMessage,
+    });
+
+    return { success: false, error: errorMessage };
+  }
+
+  const txIndex = result.ok ? result.txIndex : result.duplicateOf;
+  if (txIndex) {
+    updateTransferRecordStatus(record.id, 'confirmed', txIndex);
+    setTransferSuccess(txIndex);
+    refreshSenderBalance();
+
+    log('info', 'Transfer executed successfully', { id: record.id, txIndex });
+
+    trackEvent('token_transfer_executed', {
+      tx_index: txIndex,
+      has_memo: Boolean(record.memo),
+      has_subaccount: Boolean(record.toSubaccount),
+    });
+
+    return { success: true, txIndex };
+  }
+
+  const errorMessage = result.ok ? 'Unknown error' : result.error;
+  updateTransferRecordStatus(record.id, 'failed', undefined, errorMessage);
+  setTransferExecutionError(errorMessage);
+
+  log('error', 'Transfer execution failed', { id: record.id, error: errorMessage });
+
+  trackEvent('token_transfer_failed', {
+    error_type: 'execution',
+    error_message: errorMessage,
+  });
+
+  return { success: false, error: errorMessage };
+}
+
+/**
+ * Settle the sender's pending transfers by looking them up on the ledger
+ * (through the index canister). Transfers are never resubmitted: one found
+ * on the ledger is confirmed, and one still missing after
+ * TRANSFER_SETTLE_WINDOW_MS never arrived and is marked failed. Anything else
+ * stays pending until the member dismisses it.
+ */
+export async function reconcilePendingTransfers(): Promise<ReconcileTransfersResult> {
+  const principal = $tokenBalance.get().principal;
+  if (!principal) {
+    return { success: false, confirmed: 0, failed: 0, error: 'Sender account not loaded' };
+  }
+
+  const pending = $pendingTransfers.get().filter((record) => record.principal === principal);
+  if (pending.length === 0) {
+    return { success: true, confirmed: 0, failed: 0 };
+  }
+
+  log('info', 'Reconciling pending transfers', { count: pending.length });
+
+  const lookup = isMockMode()
+    ? mockFindTransfers(pending)
+    : await findLedgerTransfers(principal, pending);
+  if (!lookup.success) {
+    log('warn', 'Transfer reconciliation lookup failed', { error: lookup.error });
+    return { success: false, confirmed: 0, failed: 0, error: lookup.error };
+  }
+
+  const settledBefore = BigInt(Date.now() - TRANSFER_SETTLE_WINDOW_MS) * BigInt(1_000_000);
+  let confirmed = 0;
+  let failed = 0;
+
+  for (const record of pending) {
+    const txIndex = lookup.found[record.id];
+    if (txIndex) {
+      updateTransferRecordStatus(record.id, 'confirmed', txIndex);
+      confirmed++;
+    } else if (lookup.complete && record.createdAtTime < settledBefore) {
+      updateTransferRecordStatus(
+        record.id,
+        'failed',
+        undefined,
+        'The transfer never reached the ledger. No tokens were sent.'
+      );
+      failed++;
+    }
+  }
+
+  if (confirmed > 0 || failed > 0) {
+    refreshSenderBalance();
+  }
+
+  log('info', 'Transfer reconciliation finished', { confirmed, failed });
+
+  return { success: true, confirmed, failed };
+}
+
+/**
+ * Stop waiting on a pending transfer the ledger lookup can't settle (for
+ * example without an index canister), so the member can send again.
+ * The record is marked failed, although the tokens may have been sent.
+ *
+ * @param id - Transfer record ID
+ */
+export function dismissPendingTransfer(id: string): void {
+  const record = $pendingTransfers.get().find((r) => r.id === id);
+  if (!record) return;
+
+  updateTransferRecordStatus(id, 'failed', undefined, TRANSFER_DISMISSED_ERROR);
+  log('info', 'Pending transfer dismissed', { id });
+}
+
 // ============================================================================
 // React Hook
 // ============================================================================
@@ -381,6 +810,95 @@ export function useTokenBalance(options: UseTokenBalanceOptions): UseTokenBalanc
   };
 }
 
+export interface UseTokenTransferOptions {
+  /** Whether to fetch the fee on mount */
+  autoFetch?: boolean;
+}
+
+export interface UseTokenTransferResult {
+  /** Ledger transfer fee (default fee until fetched) */
+  fee: bigint;
+  /** Current transfer execution state */
+  executionState: TransferExecutionState;
+  /** User's transfer history from localStorage */
+  transferHistory: LocalTransferRecord[];
+  /** Transfers awaiting reconciliation */
+  pendingTransfers: LocalTransferRecord[];
+  /** Whether a reconciliation is in progress */
+  isReconciling: boolean;
+  /** Execute a transfer */
+  executeTransfer: (request: TransferRequest) => Promise<ExecuteTransferResult>;
+  /** Reconcile pending transfers with the ledger */
+  reconcile: () => Promise<ReconcileTransfersResult>;
+  /** Give up on a pending transfer */
+  dismiss: (id: string) => void;
+  /** Reset execution state (e.g., to allow a new transfer) */
+  resetExecution: () => void;
+}
+
+/**
+ * React hook for sending DOM tokens.
+ * Transfer history is limited to the connected account.
+ */
+export function useTokenTransfer(options: UseTokenTransferOptions = {}): UseTokenTransferResult {
+  const { autoFetch = true } = options;
+
+  const fee = useStore($transferFee);
+  const executionState = useStore($transferExecution);
+  const { principal } = useStore($tokenBalance);
+  const allTransfers = useStore($transferHistory);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  const transferHistory = useMemo(
+    () => allTransfers.filter((record) => record.principal === principal),
+    [allTransfers, principal]
+  );
+  const pendingTransfers = useMemo(
+    () => transferHistory.filter((record) => record.status === 'pending'),
+    [transferHistory]
+  );
+  const hasFetchedRef = useRef(false);
+
+  const reconcile = useCallback(async () => {
+    setIsReconciling(true);
+    try {
+      return await reconcilePendingTransfers();
+    } finally {
+      setIsReconciling(false);
+    }
+  }, []);
+
+  // Fetch the fee; pending transfers are only checked when the member asks
+  useEffect(() => {
+    if (!autoFetch || hasFetchedRef.current) return;
+    hasFetchedRef.current = true;
+
+    if ($transferFee.get() === null) {
+      fetchTransferFee();
+    }
+  }, [autoFetch]);
+
+  const handleExecuteTransfer = useCallback(async (request: TransferRequest) => {
+    return executeTransfer(request);
+  }, []);
+
+  const handleResetExecution = useCallback(() => {
+    resetTransferExecution();
+  }, []);
+
+  return {
+    fee: fee ?? DEFAULT_TRANSFER_FEE,
+    executionState,
+    transferHistory,
+    pendingTransfers,
+    isReconciling,
+    executeTransfer: handleExecuteTransfer,
+    reconcile,
+    dismiss: dismissPendingTransfer,
+    resetExecution: handleResetExecution,
+  };
+}
+
 // ============================================================================
 // Export Service Object
 // ============================================================================
@@ -391,6 +909,10 @@ export const TokenService = {
   getState: getBalanceState,
   clear: clearBalance,
   isStale: isBalanceStale,
+  fetchTransferFee,
+  executeTransfer,
+  reconcilePendingTransfers,
+  dismissPendingTransfer,
 };
 
 export default TokenService;
@@ -4,13 +4,20 @@
  * Service for fetching DAO treasury balances and transactions from the treasury canister.
  * Provides hooks for React component integration.
  *
+ * Features:
+ * - Balance and recent transactions (list_payouts)
+ * - Full transaction history with cursor paging and filters (list_transactions)
+ * - CSV/JSON export of the filtered history
+ * - Full ledger for treasury analytics
+ * - Payout approval queue for treasury signers (approve/reject/execute)
+ *
  * Story: 9-2-2-treasury-view
  * ACs: 1, 2, 3
  */
 
 import { useEffect, useCallback, useState, useRef } from 'react';
 import { useStore } from '@nanostores/react';
-import { HttpAgent, Actor } from '@dfinity/agent';
+import { HttpAgent, Actor, type Identity } from '@dfinity/agent';
 import { IDL } from '@dfinity/candid';
 import {
   $treasury,
@@ -18,14 +25,49 @@ import {
   setTreasuryLoading,
   setTreasuryData,
   setTreasuryError,
+  $transactionHistory,
+  $transactionFilters,
+  $hasMoreTransactions,
   clearTreasury,
   isTreasuryStale,
+  setTransactionFilters,
+  resetTransactionFilters,
+  setTransactionHistoryLoading,
+  setTransactionHistoryPage,
+  setTransactionHistoryError,
+  formatTransactionsCsv,
+  formatTransactionsJson,
+  $treasuryLedger,
+  $treasuryAnalytics,
+  setTreasuryLedgerLoading,
+  setTreasuryLedger,
+  setTreasuryLedgerError,
+  clearTreasuryLedger,
+  DEFAULT_TRANSACTION_FILTERS,
   TREASURY_STALE_THRESHOLD_MS,
   type TreasuryState,
   type TreasuryBalance,
   type Transaction,
+  type TransactionType,
+  type TransactionFilters,
+  type TransactionHistoryState,
+  type TreasuryLedgerState,
+  type TreasuryToken,
+  type TokenAnalytics,
+  $payouts,
+  $proposedPayouts,
+  $approvedPayouts,
+  setPayoutsLoading,
+  setPayoutsData,
+  setPayoutsError,
+  updatePayout,
+  type Payout,
+  type PayoutStatus,
+  type PayoutApprovalConfig,
+  type PayoutsState,
 } from '@/stores';
 import { trackEvent } from '../utils/analytics';
+import { getAuthenticatedIdentity } from '../utils/icIdentity';
 
 // ============================================================================
 // Configuration
@@ -49,6 +91,15 @@ const MAX_RETRY_ATTEMPTS = 3;
 /** Default number of transactions to fetch */
 const DEFAULT_TRANSACTION_LIMIT = 10;
 
+/** Transactions per history page */
+const TRANSACTION_PAGE_SIZE = 25;
+
+/** Transactions per request when walking the full history (export, analytics) */
+const FULL_HISTORY_PAGE_SIZE = 500;
+
+/** Maximum number of transactions read when walking the full history */
+const MAX_FULL_HISTORY_TRANSACTIONS = 10000;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -60,6 +111,41 @@ export interface FetchTreasuryResult {
   error?: string;
 }
 
+export interface FetchTransactionPageResult {
+  success: boolean;
+  transactions?: Transaction[];
+  /** Cursor for the next page (null when this is the last page) */
+  nextCursor?: string | null;
+  error?: string;
+}
+
+export interface FetchPayoutsResult {
+  success: boolean;
+  payouts?: Payout[];
+  config?: PayoutApprovalConfig;
+  error?: string;
+}
+
+export interface PayoutActionResult {
+  success: boolean;
+  /** Updated payout from the canister */
+  payout?: Payout;
+  error?: string;
+}
+
+export type TransactionExportFormat = 'csv' | 'json';
+
+export interface ExportTransactionsResult {
+  success: boolean;
+  content?: string;
+  filename?: string;
+  mimeType?: string;
+  count?: number;
+  /** True when the export stopped at MAX_FULL_HISTORY_TRANSACTIONS */
+  truncated?: boolean;
+  error?: string;
+}
+
 export interface TreasuryServiceState {
   isRefreshing: boolean;
   retryCount: number;
@@ -82,6 +168,7 @@ const PayoutStatusIDL = IDL.Variant({
   Approved: IDL.Null,
   Executed: IDL.Null,
   Failed: IDL.Null,
+  Rejected: IDL.Null,
 });
 const TreasuryBalanceIDL = IDL.Record({
   icp_balance: IDL.Nat,
@@ -103,6 +190,42 @@ const PayoutIDL = IDL.Record({
   executed_at: IDL.Opt(IDL.Nat64),
   tx_id: IDL.Opt(IDL.Text),
 });
+const TransactionTypeIDL = IDL.Variant({
+  Deposit: IDL.Null,
+  Withdrawal: IDL.Null,
+  Transfer: IDL.Null,
+  Burn: IDL.Null,
+  Payout: IDL.Null,
+  EscrowRelease: IDL.Null,
+});
+const TransactionIDL = IDL.Record({
+  id: IDL.Nat64,
+  tx_type: TransactionTypeIDL,
+  amount: IDL.Nat,
+  timestamp: IDL.Nat64,
+  description: IDL.Opt(IDL.Text),
+  token_type: TokenTypeIDL,
+});
+const TransactionQueryIDL = IDL.Record({
+  cursor: IDL.Opt(IDL.Text),
+  limit: IDL.Nat32,
+  types: IDL.Vec(TransactionTypeIDL),
+  token_type: IDL.Opt(TokenTypeIDL),
+  from: IDL.Opt(IDL.Nat64),
+  to: IDL.Opt(IDL.Nat64),
+  min_amount: IDL.Opt(IDL.Nat),
+  max_amount: IDL.Opt(IDL.Nat),
+  search: IDL.Opt(IDL.Text),
+});
+const TransactionPageIDL = IDL.Record({
+  transactions: IDL.Vec(TransactionIDL),
+  next_cursor: IDL.Opt(IDL.Text),
+});
+const PayoutConfigIDL = IDL.Record({
+  required_approvals: IDL.Nat32,
+  signers: IDL.Vec(IDL.Principal),
+});
+const PayoutResultIDL = IDL.Variant({ Ok: PayoutIDL, Err: IDL.Text });
 const treasuryIdl = IDL.Service({
   // get_treasury_balance is NOT a query in the .did — it's an update call
   get_treasury_balance: IDL.Func(
@@ -115,8 +238,23 @@ const treasuryIdl = IDL.Service({
     [IDL.Vec(PayoutIDL)],
     ['query'],
   ),
+  list_transactions: IDL.Func([TransactionQueryIDL], [TransactionPageIDL], ['query']),
+  get_payout_config: IDL.Func([], [PayoutConfigIDL], ['query']),
+  approve_payout: IDL.Func([IDL.Nat64], [PayoutResultIDL], []),
+  reject_payout: IDL.Func([IDL.Nat64, IDL.Text], [PayoutResultIDL], []),
+  execute_payout: IDL.Func([IDL.Nat64], [PayoutResultIDL], []),
 });
 
+/** Candid TransactionType variant keys */
+const TRANSACTION_TYPE_VARIANTS: Record<TransactionType, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  transfer: 'Transfer',
+  burn: 'Burn',
+  payout: 'Payout',
+  escrow_release: 'EscrowRelease',
+};
+
 /**
  * Extract the key from a Candid variant object, e.g. { ICP: null } → 'ICP'
  */
@@ -124,6 +262,37 @@ function extractVariant(variant: Record<string, unknown>): string {
   return Object.keys(variant)[0];
 }
 
+/**
+ * Create a treasury actor. Pass the member's identity for signed update calls.
+ */
+function createTreasuryActor(identity?: Identity) {
+  const agent = HttpAgent.createSync({ host: IC_HOST, identity });
+  return Actor.createActor(() => treasuryIdl, {
+    agent,
+    canisterId: TREASURY_CANISTER_ID,
+  });
+}
+
+/**
+ * Map a Candid Payout record to the store shape
+ */
+function mapPayout(p: Record<string, unknown>): Payout {
+  const executedAt = (p.executed_at as bigint[])[0];
+  const txId = (p.tx_id as string[])[0];
+  return {
+    id: p.id as bigint,
+    to: String(p.to),
+    amount: p.amount as bigint,
+    reason: p.reason as string,
+    tokenType: extractVariant(p.token_type as Record<string, unknown>) as Payout['tokenType'],
+    status: extractVariant(p.status as Record<string, unknown>) as PayoutStatus,
+    approvedBy: (p.approved_by as unknown[]).map(String),
+    proposedAt: p.proposed_at as bigint,
+    ...(executedAt !== undefined && { executedAt }),
+    ...(txId !== undefined && { txId }),
+  };
+}
+
 /**
  * Check if we're in mock/development mode
  */
@@ -218,6 +387,36 @@ async function mockGetTransactions(limit: number): Promise<Transaction[]> {
   return [];
 }
 
+/**
+ * Mock transaction history page fetch for development
+ */
+async function mockGetTransactionPage(
+  filters: TransactionFilters,
+  cursor: string | null,
+  limit: number
+): Promise<{ transactions: Transaction[]; nextCursor: string | null }> {
+  log('info', 'Mock transaction history fetch', { cursor, limit, search: filters.search });
+
+  // Simulate network delay
+  await sleep(400);
+
+  // Return an empty history — no mock data until canister integration
+  return { transactions: [], nextCursor: null };
+}
+
+/**
+ * Mock payout queue fetch for development
+ */
+async function mockGetPayouts(): Promise<{ payouts: Payout[]; config: PayoutApprovalConfig }> {
+  log('info', 'Mock payouts fetch');
+
+  // Simulate network delay
+  await sleep(400);
+
+  // Return an empty queue — no mock data until canister integration
+  return { payouts: [], config: { requiredApprovals: 2, signers: [] } };
+}
+
 // ============================================================================
 // Canister Integration
 // ============================================================================
@@ -287,6 +486,91 @@ async function fetchTransactionsFromCanister(limit: number): Promise<Transaction
     .slice(0, limit);
 }
 
+/**
+ * Fetch one page of transaction history from canister via list_transactions.
+ * Filtering and search run in the canister so every page is complete.
+ *
+ * @param filters - History filters
+ * @param cursor - Cursor from the previous page (null for the first page)
+ * @param limit - Page size
+ * @returns Transactions (newest first) and the cursor for the next page
+ */
+async function fetchTransactionPageFromCanister(
+  filters: TransactionFilters,
+  cursor: string | null,
+  limit: number
+): Promise<{ transactions: Transaction[]; nextCursor: string | null }> {
+  if (isMockMode()) {
+    return mockGetTransactionPage(filters, cursor, limit);
+  }
+
+  const agent = HttpAgent.createSync({ host: IC_HOST });
+  const actor = Actor.createActor(() => treasuryIdl, {
+    agent,
+    canisterId: TREASURY_CANISTER_ID,
+  });
+
+  const toNanos = (ms: number | null): [] | [bigint] =>
+    ms === null ? [] : [BigInt(ms) * BigInt(1_000_000)];
+  const search = filters.search.trim();
+
+  const page = (await actor.list_transactions({
+    cursor: cursor ? [cursor] : [],
+    limit,
+    types: filters.types.map((type) => ({ [TRANSACTION_TYPE_VARIANTS[type]]: null })),
+    token_type: filters.tokenType === 'all' ? [] : [{ [filters.tokenType]: null }],
+    from: toNanos(filters.dateFrom),
+    to: toNanos(filters.dateTo),
+    min_amount: filters.minAmount === null ? [] : [filters.minAmount],
+    max_amount: filters.maxAmount === null ? [] : [filters.maxAmount],
+    search: search ? [search] : [],
+  })) as { transactions: Record<string, unknown>[]; next_cursor: [] | [string] };
+
+  const typeByVariant = Object.fromEntries(
+    Object.entries(TRANSACTION_TYPE_VARIANTS).map(([type, variant]) => [variant, type])
+  ) as Record<string, TransactionType>;
+
+  return {
+    transactions: page.transactions.map((t) => ({
+      id: String(t.id),
+      type: typeByVariant[extractVariant(t.tx_type as Record<string, unknown>)],
+      amount: t.amount as bigint,
+      timestamp: t.timestamp as bigint,
+      description: (t.description as [] | [string])[0],
+      tokenType: extractVariant(t.token_type as Record<string, unknown>) as 'DOM' | 'ICP',
+    })),
+    nextCursor: page.next_cursor[0] ?? null,
+  };
+}
+
+/**
+ * Fetch every payout and the approval policy from canister
+ *
+ * @returns Payouts and approval config
+ */
+async function fetchPayoutsFromCanister(): Promise<{
+  payouts: Payout[];
+  config: PayoutApprovalConfig;
+}> {
+  if (isMockMode()) {
+    return mockGetPayouts();
+  }
+
+  const actor = createTreasuryActor();
+  const [payouts, config] = (await Promise.all([
+    actor.list_payouts([]),
+    actor.get_payout_config(),
+  ])) as [Record<string, unknown>[], { required_approvals: number; signers: unknown[] }];
+
+  return {
+    payouts: payouts.map(mapPayout),
+    config: {
+      requiredApprovals: config.required_approvals,
+      signers: config.signers.map(String),
+    },
+  };
+}
+
 // ============================================================================
 // Core Service Functions
 // ============================================================================
@@ -373,12 +657,284 @@ export function getTreasuryState(): TreasuryState {
   return $treasury.get();
 }
 
+/**
+ * Fetch one page of transaction history (does not touch the store)
+ *
+ * @param filters - History filters
+ * @param cursor - Cursor from the previous page (null for the first page)
+ * @param limit - Page size
+ * @returns Result with the page or error
+ */
+export async function fetchTransactionHistoryPage(
+  filters: TransactionFilters,
+  cursor: string | null = null,
+  limit: number = TRANSACTION_PAGE_SIZE
+): Promise<FetchTransactionPageResult> {
+  try {
+    const page = await withTimeout(
+      fetchTransactionPageFromCanister(filters, cursor, limit),
+      REQUEST_TIMEOUT_MS
+    );
+    return { success: true, ...page };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('error', 'Transaction history fetch failed', { error: message, cursor });
+    return { success: false, error: message || 'Failed to fetch transaction history' };
+  }
+}
+
+/** Incremented per history load so responses for outdated filters are dropped */
+let historyRequestId = 0;
+
+/**
+ * Load the first page of transaction history for the current filters
+ *
+ * @returns Result with success status
+ */
+export async function loadTransactionHistory(): Promise<FetchTransactionPageResult> {
+  const requestId = ++historyRequestId;
+  const filters = $transactionFilters.get();
+
+  log('info', 'Loading transaction history', { requestId });
+  setTransactionHistoryLoading(true);
+
+  const result = await fetchTransactionHistoryPage(filters, null);
+  if (requestId !== historyRequestId) return result;
+
+  if (result.success) {
+    setTransactionHistoryPage(result.transactions ?? [], result.nextCursor ?? null, false);
+  } else {
+    setTransactionHistoryError(result.error ?? 'Failed to fetch transaction history');
+  }
+  return result;
+}
+
+/**
+ * Load the next page of transaction history
+ *
+ * @returns Result with success status
+ */
+export async function loadMoreTransactions(): Promise<FetchTransactionPageResult> {
+  const { nextCursor, isLoading } = $transactionHistory.get();
+  if (!nextCursor || isLoading) {
+    return { success: true, transactions: [], nextCursor };
+  }
+
+  const requestId = historyRequestId;
+  setTransactionHistoryLoading(true);
+
+  const result = await fetchTransactionHistoryPage($transactionFilters.get(), nextCursor);
+  if (requestId !== historyRequestId) return result;
+
+  if (result.success) {
+    setTransactionHistoryPage(result.transactions ?? [], result.nextCursor ?? null, true);
+  } else {
+    setTransactionHistoryError(result.error ?? 'Failed to fetch transaction history');
+  }
+  return result;
+}
+
+/**
+ * Walk every page of the filtered history, up to MAX_FULL_HISTORY_TRANSACTIONS
+ *
+ * @param filters - History filters
+ * @returns Result with all matching transactions and whether the walk was cut off
+ */
+async function fetchFullTransactionHistory(filters: TransactionFilters): Promise<{
+  success: boolean;
+  transactions: Transaction[];
+  truncated: boolean;
+  error?: string;
+}> {
+  const transactions: Transaction[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetchTransactionHistoryPage(filters, cursor, FULL_HISTORY_PAGE_SIZE);
+    if (!page.success) {
+      return { success: false, transactions: [], truncated: false, error: page.error };
+    }
+    transactions.push(...(page.transactions ?? []));
+    cursor = page.nextCursor ?? null;
+  } while (cursor && transactions.length < MAX_FULL_HISTORY_TRANSACTIONS);
+
+  return {
+    success: true,
+    transactions: transactions.slice(0, MAX_FULL_HISTORY_TRANSACTIONS),
+    truncated: cursor !== null,
+  };
+}
+
+/**
+ * Export the full filtered transaction history, walking every page
+ *
+ * @param format - Export format
+ * @returns Result with file content and filename or error
+ */
+export async function exportTransactionHistory(
+  format: TransactionExportFormat
+): Promise<ExportTransactionsResult> {
+  log('info', 'Exporting transaction history', { format });
+
+  const history = await fetchFullTransactionHistory($transactionFilters.get());
+  if (!history.success) {
+    trackEvent('treasury_transactions_export_error', { error: history.error ?? 'Unknown error' });
+    return { success: false, error: 'Failed to export transactions. Please try again.' };
+  }
+
+  const { transactions, truncated } = history;
+  const date = new Date().toISOString().split('T')[0];
+
+  trackEvent('treasury_transactions_exported', {
+    format,
+    count: transactions.length,
+    truncated,
+  });
+
+  return {
+    success: true,
+    content:
+      format === 'csv' ? formatTransactionsCsv(transactions) : formatTransactionsJson(transactions),
+    filename: `treasury-transactions-${date}.${format}`,
+    mimeType: format === 'csv' ? 'text/csv;charset=utf-8;' : 'application/json;charset=utf-8;',
+    count: transactions.length,
+    truncated,
+  };
+}
+
+/**
+ * Load the full, unfiltered ledger for treasury analytics
+ *
+ * @returns Result with success status
+ */
+export async function loadTreasuryLedger(): Promise<{ success: boolean; error?: string }> {
+  log('info', 'Loading treasury ledger for analytics');
+  setTreasuryLedgerLoading(true);
+
+  const history = await fetchFullTransactionHistory(DEFAULT_TRANSACTION_FILTERS);
+  if (!history.success) {
+    const error = history.error ?? 'Failed to fetch transaction history';
+    setTreasuryLedgerError(error);
+    return { success: false, error };
+  }
+
+  setTreasuryLedger(history.transactions, history.truncated);
+  log('info', 'Treasury ledger loaded', {
+    transactionCount: history.transactions.length,
+    truncated: history.truncated,
+  });
+  return { success: true };
+}
+
+/**
+ * Fetch the payout queue and approval policy into the store
+ *
+ * @returns Result with payouts and config or error
+ */
+export async function fetchPayouts(): Promise<FetchPayoutsResult> {
+  log('info', 'Fetching payouts');
+  setPayoutsLoading(true);
+
+  try {
+    const { payouts, config } = await withTimeout(fetchPayoutsFromCanister(), REQUEST_TIMEOUT_MS);
+    setPayoutsData(payouts, config);
+    return { success: true, payouts, config };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch payouts';
+    log('error', 'Payout fetch failed', { error: message });
+    setPayoutsError(message);
+    return { success: false, error: message };
+  }
+}
+
+/** Analytics event per payout action */
+const PAYOUT_ACTION_EVENTS = {
+  approve: 'treasury_payout_approved',
+  reject: 'treasury_payout_rejected',
+  execute: 'treasury_payout_executed',
+} as const;
+
+/**
+ * Run a signed payout call and store the updated payout
+ *
+ * @param action - Action name for logging and analytics
+ * @param payoutId - Payout ID
+ * @param call - Canister call returning the Candid result
+ * @returns Result with the updated payout or error
+ */
+async function runPayoutAction(
+  action: keyof typeof PAYOUT_ACTION_EVENTS,
+  payoutId: bigint,
+  call: (actor: ReturnType<typeof createTreasuryActor>) => Promise<unknown>
+): Promise<PayoutActionResult> {
+  log('info', `Payout ${action} requested`, { payoutId: payoutId.toString() });
+
+  if (isMockMode()) {
+    await sleep(400);
+    return { success: false, error: 'Payout not found' };
+  }
+
+  const identity = getAuthenticatedIdentity();
+  if (!identity) {
+    return {
+      success: false,
+      error: 'Internet Identity not connected. Please log in with II to manage payouts.',
+    };
+  }
+
+  try {
+    const result = (await withTimeout(
+      call(createTreasuryActor(identity)),
+      REQUEST_TIMEOUT_MS
+    )) as { Ok: Record<string, unknown> } | { Err: string };
+
+    if ('Err' in result) {
+      log('warn', `Payout ${action} rejected by canister`, { error: result.Err });
+      return { success: false, error: result.Err };
+    }
+
+    const payout = mapPayout(result.Ok);
+    updatePayout(payout);
+    trackEvent(PAYOUT_ACTION_EVENTS[action], {
+      payout_id: payout.id.toString(),
+      status: payout.status,
+    });
+    return { success: true, payout };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('error', `Payout ${action} failed`, { error: message });
+    return { success: false, error: `Failed to ${action} payout. Please try again.` };
+  }
+}
+
+/**
+ * Approve a proposed payout as the current signer
+ */
+export async function approvePayout(payoutId: bigint): Promise<PayoutActionResult> {
+  return runPayoutAction('approve', payoutId, (actor) => actor.approve_payout(payoutId));
+}
+
+/**
+ * Reject a proposed payout as the current signer
+ */
+export async function rejectPayout(payoutId: bigint, reason: string): Promise<PayoutActionResult> {
+  return runPayoutAction('reject', payoutId, (actor) => actor.reject_payout(payoutId, reason));
+}
+
+/**
+ * Execute a fully approved payout (transfers the funds)
+ */
+export async function executePayout(payoutId: bigint): Promise<PayoutActionResult> {
+  return runPayoutAction('execute', payoutId, (actor) => actor.execute_payout(payoutId));
+}
+
 /**
  * Clear treasury data (e.g., on logout)
  */
 export function clearTreasuryData(): void {
   log('info', 'Clearing treasury data');
   clearTreasury();
+  clearTreasuryLedger();
 }
 
 // ============================================================================
@@ -462,6 +1018,124 @@ export function useTreasuryBalance(
   };
 }
 
+export interface UseTransactionHistoryResult {
+  /** Transaction history state */
+  state: TransactionHistoryState;
+  /** Active filters */
+  filters: TransactionFilters;
+  /** Whether more pages can be loaded */
+  hasMore: boolean;
+  /** Update filters (reloads from the first page) */
+  setFilters: (filters: Partial<TransactionFilters>) => void;
+  /** Reset filters to the defaults */
+  resetFilters: () => void;
+  /** Load the next page */
+  loadMore: () => Promise<void>;
+  /** Reload from the first page */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the full transaction history.
+ * Loads the first page on mount and again whenever the filters change.
+ *
+ * @returns Transaction history state and actions
+ */
+export function useTransactionHistory(): UseTransactionHistoryResult {
+  const state = useStore($transactionHistory);
+  const filters = useStore($transactionFilters);
+  const hasMore = useStore($hasMoreTransactions);
+
+  useEffect(() => {
+    loadTransactionHistory();
+  }, [filters]);
+
+  const loadMore = useCallback(async () => {
+    await loadMoreTransactions();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    await loadTransactionHistory();
+  }, []);
+
+  return {
+    state,
+    filters,
+    hasMore,
+    setFilters: setTransactionFilters,
+    resetFilters: resetTransactionFilters,
+    loadMore,
+    refresh,
+  };
+}
+
+export interface UseTreasuryAnalyticsResult {
+  /** Ledger state backing the analytics */
+  ledger: TreasuryLedgerState;
+  /** Analytics for each token */
+  analytics: Record<TreasuryToken, TokenAnalytics>;
+  /** Reload the ledger */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for treasury analytics.
+ * Loads the ledger on mount unless it was fetched recently.
+ *
+ * @returns Ledger state, per-token analytics and a refresh action
+ */
+export function useTreasuryAnalytics(): UseTreasuryAnalyticsResult {
+  const ledger = useStore($treasuryLedger);
+  const analytics = useStore($treasuryAnalytics);
+
+  useEffect(() => {
+    const { lastUpdated } = $treasuryLedger.get();
+    if (!lastUpdated || Date.now() - lastUpdated > TREASURY_STALE_THRESHOLD_MS) {
+      trackEvent('treasury_analytics_viewed', {});
+      loadTreasuryLedger();
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    await loadTreasuryLedger();
+  }, []);
+
+  return { ledger, analytics, refresh };
+}
+
+export interface UsePayoutQueueResult {
+  /** Payout queue state */
+  state: PayoutsState;
+  /** Proposed payouts awaiting approval */
+  proposed: Payout[];
+  /** Approved payouts awaiting execution */
+  approved: Payout[];
+  /** Reload the queue */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the payout approval queue. Loads the queue on mount.
+ *
+ * @returns Queue state and a refresh action
+ */
+export function usePayoutQueue(): UsePayoutQueueResult {
+  const state = useStore($payouts);
+  const proposed = useStore($proposedPayouts);
+  const approved = useStore($approvedPayouts);
+
+  useEffect(() => {
+    trackEvent('treasury_payout_queue_viewed', {});
+    fetchPayouts();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    await fetchPayouts();
+  }, []);
+
+  return { state, proposed, approved, refresh };
+}
+
 // ============================================================================
 // Export Service Object
 // ============================================================================
@@ -472,6 +1146,15 @@ export const TreasuryService = {
   getState: getTreasuryState,
   clear: clearTreasuryData,
   isStale: isTreasuryStale,
+  fetchTransactionPage: fetchTransactionHistoryPage,
+  loadHistory: loadTransactionHistory,
+  loadMoreHistory: loadMoreTransactions,
+  exportHistory: exportTransactionHistory,
+  loadLedger: loadTreasuryLedger,
+  fetchPayouts,
+  approvePayout,
+  rejectPayout,
+  executePayout,
 };
 
 export default TreasuryService;
@@ -0,0 +1,755 @@
+/**
+ * Wallet Activity Service
+ *
+ * Service for reading the member's own DOM transactions (transfers, mints,
+ * burns and approvals) from the dom-token ICRC index canister, and for
+ * reconciling locally recorded burns against them.
+ * Provides hooks for React component integration.
+ */
+
+import { useEffect, useCallback } from 'react';
+import { useStore } from '@nanostores/react';
+import { HttpAgent, Actor } from '@dfinity/agent';
+import { Principal } from '@dfinity/principal';
+import { IDL } from '@dfinity/candid';
+import {
+  $walletActivity,
+  $walletActivityFilters,
+  $filteredWalletActivity,
+  $hasMoreWalletActivity,
+  $burnHistory,
+  setWalletActivityLoading,
+  setWalletActivityPage,
+  setWalletActivityError,
+  setWalletActivityFilters,
+  resetWalletActivityFilters,
+  matchesWalletActivityFilters,
+  formatWalletActivityCsv,
+  reconcileBurnHistory,
+  WALLET_ACTIVITY_PAGE_SIZE,
+  type WalletActivityState,
+  type WalletActivityFilters,
+  type WalletTransaction,
+  type LedgerBurn,
+  type LocalTransferRecord,
+} from '@/stores';
+import { trackEvent } from '../utils/analytics';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** DOM token index canister ID */
+const DOM_INDEX_CANISTER_ID = import.meta.env.VITE_DOM_INDEX_CANISTER_ID || '';
+
+/** Request timeout in milliseconds */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/** Page size when walking the full history (export, burn reconciliation) */
+const FULL_HISTORY_PAGE_SIZE = 100;
+
+/** Upper bound on transactions walked for an export */
+const MAX_FULL_HISTORY_TRANSACTIONS = 2000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FetchWalletActivityPageResult {
+  success: boolean;
+  transactions?: WalletTransaction[];
+  nextCursor?: string | null;
+  error?: string;
+}
+
+export interface FindLedgerTransfersResult {
+  success: boolean;
+  /** Ledger transaction index by local record ID, for the transfers found */
+  found: Record<string, string>;
+  /** Whether the history searched reaches back past every transfer */
+  complete: boolean;
+  error?: string;
+}
+
+export interface ExportWalletActivityResult {
+  success: boolean;
+  content?: string;
+  filename?: string;
+  count?: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** IC host for agent connections */
+const IC_HOST = import.meta.env.VITE_IC_HOST || 'https://ic0.app';
+
+/**
+ * Minimal inline IDL for the ICRC index canister's get_account_transactions.
+ */
+const AccountIDL = IDL.Record({ owner: IDL.Principal, subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)) });
+const IndexTransactionIDL = IDL.Record({
+  kind: IDL.Text,
+  mint: IDL.Opt(
+    IDL.Record({
+      to: AccountIDL,
+      amount: IDL.Nat,
+      created_at_time: IDL.Opt(IDL.Nat64),
+      memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
+    })
+  ),
+  burn: IDL.Opt(
+    IDL.Record({
+      from: AccountIDL,
+      amount: IDL.Nat,
+      spender: IDL.Opt(AccountIDL),
+      created_at_time: IDL.Opt(IDL.Nat64),
+      memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
+    })
+  ),
+  transfer: IDL.Opt(
+    IDL.Record({
+      from: AccountIDL,
+      to: AccountIDL,
+      amount: IDL.Nat,
+      fee: IDL.Opt(IDL.Nat),
+      spender: IDL.Opt(AccountIDL),
+      created_at_time: IDL.Opt(IDL.Nat64),
+      memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
+    })
+  ),
+  approve: IDL.Opt(
+    IDL.Record({
+      from: AccountIDL,
+      spender: AccountIDL,
+      amount: IDL.Nat,
+      expected_allowance: IDL.Opt(IDL.Nat),
+      expires_at: IDL.Opt(IDL.Nat64),
+      fee: IDL.Opt(IDL.Nat),
+      created_at_time: IDL.Opt(IDL.Nat64),
+      memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
+    })
+  ),
+  timestamp: IDL.Nat64,
+});
+const domIndexIdl = IDL.Service({
+  get_account_transactions: IDL.Func(
+    [
+      IDL.Record({
+        account: AccountIDL,
+        start: IDL.Opt(IDL.Nat),
+        max_results: IDL.Nat,
+      }),
+    ],
+    [
+      IDL.Variant({
+        Ok: IDL.Record({
+          balance: IDL.Nat,
+          transactions: IDL.Vec(IDL.Record({ id: IDL.Nat, transaction: IndexTransactionIDL })),
+          oldest_tx_id: IDL.Opt(IDL.Nat),
+        }),
+        Err: IDL.Record({ message: IDL.Text }),
+      }),
+    ],
+    ['query'],
+  ),
+});
+
+interface IndexAccount {
+  owner: Principal;
+  subaccount: [] | [Uint8Array | number[]];
+}
+
+interface IndexOperation {
+  from?: IndexAccount;
+  to?: IndexAccount;
+  spender?: IndexAccount | [] | [IndexAccount];
+  amount: bigint;
+  fee?: [] | [bigint];
+  memo?: [] | [Uint8Array | number[]];
+  created_at_time?: [] | [bigint];
+}
+
+interface IndexTransaction {
+  kind: string;
+  mint: [] | [IndexOperation];
+  burn: [] | [IndexOperation];
+  transfer: [] | [IndexOperation];
+  approve: [] | [IndexOperation];
+  timestamp: bigint;
+}
+
+/**
+ * Check if we're in mock/development mode
+ */
+function isMockMode(): boolean {
+  return !DOM_INDEX_CANISTER_ID;
+}
+
+/**
+ * Create structured log entry
+ */
+function log(level: 'info' | 'warn' | 'error', message: string, data?: Record<string, unknown>) {
+  if (!import.meta.env.VITE_ENABLE_LOGGING && level !== 'error') return;
+
+  const entry = {
+    timestamp: new Date().toISOString(),
+    service: 'WalletActivityService',
+    level,
+    message,
+    ...data,
+  };
+
+  if (level === 'error') {
+    console.error(JSON.stringify(entry));
+  } else if (level === 'warn') {
+    console.warn(JSON.stringify(entry));
+  } else {
+    console.log(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Sleep for specified milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Execute with timeout
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
+    ),
+  ]);
+}
+
+/**
+ * Whether an index account is the member's default account
+ */
+function isOwnAccount(account: IndexAccount | undefined, principal: string): boolean {
+  if (!account || account.owner.toText() !== principal) return false;
+  const subaccount = account.subaccount[0];
+  return !subaccount || Array.from(subaccount).every((byte) => byte === 0);
+}
+
+/**
+ * Decode a memo as UTF-8 text, falling back to hex for binary memos
+ */
+function decodeMemo(memo: [] | [Uint8Array | number[]] | undefined): string | undefined {
+  const bytes = memo?.[0];
+  if (!bytes || bytes.length === 0) return undefined;
+
+  const array = Uint8Array.from(bytes);
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(array);
+    // eslint-disable-next-line no-control-regex -- control characters mean a binary memo
+    if (!/[\u0000-\u001f]/.test(text)) return text;
+  } catch {
+    // Not valid UTF-8
+  }
+  return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Map an index transaction to a wallet transaction from the member's view
+ */
+function mapIndexTransaction(
+  id: bigint,
+  tx: IndexTransaction,
+  principal: string
+): WalletTransaction | null {
+  const base = { id: id.toString(), timestamp: tx.timestamp };
+  const mint = tx.mint[0];
+  const burn = tx.burn[0];
+  const transfer = tx.transfer[0];
+  const approve = tx.approve[0];
+
+  if (mint) {
+    return {
+      ...base,
+      type: 'mint',
+      direction: 'incoming',
+      amount: mint.amount,
+      memo: decodeMemo(mint.memo),
+    };
+  }
+
+  if (burn) {
+    return {
+      ...base,
+      type: 'burn',
+      direction: 'outgoing',
+      amount: burn.amount,
+      memo: decodeMemo(burn.memo),
+    };
+  }
+
+  if (transfer) {
+    const fromSelf = isOwnAccount(transfer.from, principal);
+    const toSelf = isOwnAccount(transfer.to, principal);
+    const direction = fromSelf && toSelf ? 'self' : fromSelf ? 'outgoing' : 'incoming';
+    return {
+      ...base,
+      type: 'transfer',
+      direction,
+      amount: transfer.amount,
+      // The sender pays the fee
+      fee: direction === 'incoming' ? undefined : transfer.fee?.[0],
+      counterparty: (direction === 'incoming' ? transfer.from : transfer.to)?.owner.toText(),
+      memo: decodeMemo(transfer.memo),
+      createdAtTime: transfer.created_at_time?.[0],
+    };
+  }
+
+  if (approve) {
+    const spender = approve.spender as IndexAccount;
+    return {
+      ...base,
+      type: 'approve',
+      direction: 'outgoing',
+      amount: approve.amount,
+      fee: approve.fee?.[0],
+      counterparty: spender.owner.toText(),
+      memo: decodeMemo(approve.memo),
+    };
+  }
+
+  log('warn', 'Unknown index transaction kind', { id: base.id, kind: tx.kind });
+  return null;
+}
+
+// ============================================================================
+// Mock Implementation
+// ============================================================================
+
+/**
+ * Mock account transaction fetch for development
+ */
+async function mockGetAccountTransactions(
+  principal: string,
+  cursor: string | null,
+  limit: number
+): Promise<{ transactions: WalletTransaction[]; nextCursor: string | null }> {
+  log('info', 'Mock account transactions fetch', { principal, cursor, limit });
+
+  // Simulate network delay
+  await sleep(400);
+
+  // Return an empty history — no mock data until index canister integration
+  return { transactions: [], nextCursor: null };
+}
+
+// ============================================================================
+// Canister Integration
+// ============================================================================
+
+/**
+ * Fetch one page of the account's transactions from the index canister
+ *
+ * @param principal - Account owner
+ * @param cursor - Last transaction ID of the previous page (null for the newest)
+ * @param limit - Page size
+ * @returns Transactions (newest first) and the cursor for the next page
+ */
+async function fetchAccountTransactionsFromCanister(
+  principal: string,
+  cursor: string | null,
+  limit: number
+): Promise<{ transactions: WalletTransaction[]; nextCursor: string | null }> {
+  if (isMockMode()) {
+    return mockGetAccountTransactions(principal, cursor, limit);
+  }
+
+  // Anonymous agent is safe — get_account_transactions is a public query
+  const agent = HttpAgent.createSync({ host: IC_HOST });
+  const actor = Actor.createActor(() => domIndexIdl, {
+    agent,
+    canisterId: DOM_INDEX_CANISTER_ID,
+  });
+
+  // start is exclusive: the page begins after the last transaction seen
+  const result = (await actor.get_account_transactions({
+    account: { owner: Principal.fromText(principal), subaccount: [] },
+    start: cursor ? [BigInt(cursor)] : [],
+    max_results: BigInt(limit),
+  })) as Record<string, unknown>;
+
+  if ('Err' in result) {
+    throw new Error((result.Err as { message: string }).message);
+  }
+
+  const page = result.Ok as {
+    transactions: { id: bigint; transaction: IndexTransaction }[];
+    oldest_tx_id: [] | [bigint];
+  };
+  const last = page.transactions[page.transactions.length - 1];
+  const oldest = page.oldest_tx_id[0];
+  const isLastPage = !last || page.transactions.length < limit || last.id === oldest;
+
+  return {
+    transactions: page.transactions
+      .map(({ id, transaction }) => mapIndexTransaction(id, transaction, principal))
+      .filter((tx): tx is WalletTransaction => tx !== null),
+    nextCursor: isLastPage ? null : last.id.toString(),
+  };
+}
+
+// ============================================================================
+// Core Service Functions
+// ============================================================================
+
+/**
+ * Fetch one page of wallet activity (does not touch the store)
+ *
+ * @param principal - Account owner
+ * @param cursor - Cursor from the previous page (null for the first page)
+ * @param limit - Page size
+ * @returns Result with the page or error
+ */
+export async function fetchWalletActivityPage(
+  principal: string,
+  cursor: string | null = null,
+  limit: number = WALLET_ACTIVITY_PAGE_SIZE
+): Promise<FetchWalletActivityPageResult> {
+  try {
+    const page = await withTimeout(
+      fetchAccountTransactionsFromCanister(principal, cursor, limit),
+      REQUEST_TIMEOUT_MS
+    );
+    return { success: true, ...page };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('error', 'Wallet activity fetch failed', { error: message, cursor });
+    return { success: false, error: message || 'Failed to fetch wallet activity' };
+  }
+}
+
+/**
+ * Reconcile local burn records with the burns in the given ledger transactions
+ *
+ * @param principal - Account owner
+ * @param transactions - Ledger transactions, newest first
+ * @param complete - Whether the transactions are the account's full history
+ */
+function reconcileBurnsFromTransactions(
+  principal: string,
+  transactions: WalletTransaction[],
+  complete: boolean
+): void {
+  // The mock index has no history; reconciling against it would fail every record
+  if (isMockMode()) return;
+
+  const toMs = (ns: bigint) => Number(ns / BigInt(1_000_000));
+  const burns: LedgerBurn[] = transactions
+    .filter((tx) => tx.type === 'burn')
+    .map((tx) => ({ txIndex: tx.id, amount: tx.amount, timestamp: toMs(tx.timestamp) }));
+  const oldest = transactions[transactions.length - 1];
+
+  reconcileBurnHistory(
+    principal,
+    burns,
+    complete || !oldest ? null : toMs(oldest.timestamp)
+  );
+}
+
+/** Incremented per activity load so responses for another account are dropped */
+let activityRequestId = 0;
+
+/**
+ * Load the newest page of wallet activity for an account
+ *
+ * @param principal - Account owner
+ * @returns Result with success status
+ */
+export async function loadWalletActivity(
+  principal: string
+): Promise<FetchWalletActivityPageResult> {
+  const requestId = ++activityRequestId;
+
+  log('info', 'Loading wallet activity', { principal, requestId });
+  setWalletActivityLoading(true);
+
+  const result = await fetchWalletActivityPage(principal, null);
+  if (requestId !== activityRequestId) return result;
+
+  if (result.success) {
+    const transactions = result.transactions ?? [];
+    const nextCursor = result.nextCursor ?? null;
+    setWalletActivityPage(principal, transactions, nextCursor, false);
+    reconcileBurnsFromTransactions(principal, transactions, nextCursor === null);
+  } else {
+    setWalletActivityError(result.error ?? 'Failed to fetch wallet activity');
+  }
+  return result;
+}
+
+/**
+ * Load the next (older) page of wallet activity
+ *
+ * @returns Result with success status
+ */
+export async function loadMoreWalletActivity(): Promise<FetchWalletActivityPageResult> {
+  const { principal, nextCursor, isLoading } = $walletActivity.get();
+  if (!principal || !nextCursor || isLoading) {
+    return { success: true, transactions: [], nextCursor };
+  }
+
+  const requestId = activityRequestId;
+  setWalletActivityLoading(true);
+
+  const result = await fetchWalletActivityPage(principal, nextCursor);
+  if (requestId !== activityRequestId) return result;
+
+  if (result.success) {
+    setWalletActivityPage(principal, result.transactions ?? [], result.nextCursor ?? null, true);
+    const state = $walletActivity.get();
+    reconcileBurnsFromTransactions(principal, state.transactions, state.nextCursor === null);
+  } else {
+    setWalletActivityError(result.error ?? 'Failed to fetch wallet activity');
+  }
+  return result;
+}
+
+/**
+ * Walk the account's history, newest first, until `until` returns true or
+ * MAX_FULL_HISTORY_TRANSACTIONS is reached
+ *
+ * @param principal - Account owner
+ * @param until - Stop condition, checked after every page
+ * @returns Result with the transactions and whether the walk stopped early
+ */
+async function walkWalletActivity(
+  principal: string,
+  until: (transactions: WalletTransaction[]) => boolean = () => false
+): Promise<{
+  success: boolean;
+  transactions: WalletTransaction[];
+  truncated: boolean;
+  error?: string;
+}> {
+  const transactions: WalletTransaction[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetchWalletActivityPage(principal, cursor, FULL_HISTORY_PAGE_SIZE);
+    if (!page.success) {
+      return { success: false, transactions: [], truncated: false, error: page.error };
+    }
+    transactions.push(...(page.transactions ?? []));
+    cursor = page.nextCursor ?? null;
+  } while (cursor && transactions.length < MAX_FULL_HISTORY_TRANSACTIONS && !until(transactions));
+
+  return { success: true, transactions, truncated: cursor !== null };
+}
+
+/**
+ * Export the account's filtered wallet activity as CSV, walking every page
+ *
+ * @param principal - Account owner
+ * @returns Result with file content and filename or error
+ */
+export async function exportWalletActivity(
+  principal: string
+): Promise<ExportWalletActivityResult> {
+  log('info', 'Exporting wallet activity', { principal });
+
+  const history = await walkWalletActivity(principal);
+  if (!history.success) {
+    trackEvent('wallet_activity_export_error', { error: history.error ?? 'Unknown error' });
+    return { success: false, error: 'Failed to export wallet activity. Please try again.' };
+  }
+
+  const filters = $walletActivityFilters.get();
+  const transactions = history.transactions.filter((tx) =>
+    matchesWalletActivityFilters(tx, filters)
+  );
+  const date = new Date().toISOString().split('T')[0];
+
+  trackEvent('wallet_activity_exported', {
+    count: transactions.length,
+    truncated: history.truncated,
+  });
+
+  return {
+    success: true,
+    content: formatWalletActivityCsv(transactions),
+    filename: `wallet-activity-${date}.csv`,
+    count: transactions.length,
+    truncated: history.truncated,
+  };
+}
+
+/**
+ * Reconcile the local burn history with the ledger, walking back far enough
+ * to cover the oldest local burn of the account
+ *
+ * @param principal - Account owner
+ * @returns Result with success status
+ */
+export async function reconcileBurnsWithLedger(
+  principal: string
+): Promise<{ success: boolean; error?: string }> {
+  if (isMockMode()) {
+    return { success: true };
+  }
+
+  const ownRecords = $burnHistory
+    .get()
+    .filter((r) => r.principal === undefined || r.principal === principal);
+  const oldestLocalMs = Math.min(...ownRecords.map((r) => r.timestamp), Date.now());
+  const oldestLocalNs = BigInt(oldestLocalMs) * BigInt(1_000_000);
+
+  const history = await walkWalletActivity(principal, (transactions) => {
+    const oldest = transactions[transactions.length - 1];
+    return !!oldest && oldest.timestamp < oldestLocalNs;
+  });
+  if (!history.success) {
+    return { success: false, error: history.error };
+  }
+
+  reconcileBurnsFromTransactions(principal, history.transactions, !history.truncated);
+  log('info', 'Burn history reconciled with ledger', {
+    transactionCount: history.transactions.length,
+  });
+  return { success: true };
+}
+
+/**
+ * Look up the account's outgoing transfers in the ledger by created_at_time,
+ * walking back far enough to cover the oldest one. Nothing is submitted.
+ *
+ * @param principal - Sender account
+ * @param records - Local transfer records to look up
+ * @returns Result with the transaction index of each transfer found
+ */
+export async function findLedgerTransfers(
+  principal: string,
+  records: LocalTransferRecord[]
+): Promise<FindLedgerTransfersResult> {
+  // The mock index has no history, so it can neither confirm nor rule out a transfer
+  if (isMockMode() || records.length === 0) {
+    return { success: true, found: {}, complete: false };
+  }
+
+  const oldestCreatedAt = records.reduce(
+    (oldest, r) => (r.createdAtTime < oldest ? r.createdAtTime : oldest),
+    records[0].createdAtTime
+  );
+  const reachesOldest = (transactions: WalletTransaction[]) => {
+    const oldest = transactions[transactions.length - 1];
+    return !!oldest && oldest.timestamp < oldestCreatedAt;
+  };
+
+  const history = await walkWalletActivity(principal, reachesOldest);
+  if (!history.success) {
+    return { success: false, found: {}, complete: false, error: history.error };
+  }
+
+  const found: Record<string, string> = {};
+  for (const record of records) {
+    const match = history.transactions.find(
+      (tx) =>
+        tx.type === 'transfer' &&
+        tx.direction !== 'incoming' &&
+        tx.createdAtTime === record.createdAtTime &&
+        tx.amount === record.amount &&
+        tx.counterparty === record.to
+    );
+    if (match) {
+      found[record.id] = match.id;
+    }
+  }
+
+  return {
+    success: true,
+    found,
+    complete: !history.truncated || reachesOldest(history.transactions),
+  };
+}
+
+// ============================================================================
+// React Hook
+// ============================================================================
+
+export interface UseWalletActivityResult {
+  /** Wallet activity state */
+  state: WalletActivityState;
+  /** Loaded transactions matching the filters */
+  transactions: WalletTransaction[];
+  /** Active filters */
+  filters: WalletActivityFilters;
+  /** Whether older pages can be loaded */
+  hasMore: boolean;
+  /** Update filters */
+  setFilters: (filters: Partial<WalletActivityFilters>) => void;
+  /** Reset filters to the defaults */
+  resetFilters: () => void;
+  /** Load the next (older) page */
+  loadMore: () => Promise<void>;
+  /** Reload from the newest page */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the member's wallet activity.
+ * Loads the newest page on mount and whenever the account changes.
+ *
+ * @param principal - Account owner (null when II is not linked)
+ * @returns Wallet activity state and actions
+ */
+export function useWalletActivity(principal: string | null): UseWalletActivityResult {
+  const state = useStore($walletActivity);
+  const transactions = useStore($filteredWalletActivity);
+  const filters = useStore($walletActivityFilters);
+  const hasMore = useStore($hasMoreWalletActivity);
+
+  useEffect(() => {
+    if (!principal) return;
+    trackEvent('wallet_activity_viewed', {});
+    loadWalletActivity(principal);
+  }, [principal]);
+
+  const loadMore = useCallback(async () => {
+    await loadMoreWalletActivity();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (principal) {
+      await loadWalletActivity(principal);
+    }
+  }, [principal]);
+
+  return {
+    state,
+    transactions,
+    filters,
+    hasMore,
+    setFilters: setWalletActivityFilters,
+    resetFilters: resetWalletActivityFilters,
+    loadMore,
+    refresh,
+  };
+}
+
+// ============================================================================
+// Export Service Object
+// ============================================================================
+
+export const WalletActivityService = {
+  fetchPage: fetchWalletActivityPage,
+  load: loadWalletActivity,
+  loadMore: loadMoreWalletActivity,
+  export: exportWalletActivity,
+  reconcileBurns: reconcileBurnsWithLedger,
+  findTransfers: findLedgerTransfers,
+};
+
+export default WalletActivityService;
@@ -0,0 +1,156 @@
+/**
+ * Allowance State Tests
+ *
+ * Tests for the ICRC-2 allowance list, tracked spenders and approval
+ * validation.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $allowances,
+  $allowanceAction,
+  $trackedSpenders,
+  $outstandingAllowances,
+  buildAllowanceSpenders,
+  isAllowanceExpired,
+  validateAllowanceSpender,
+  validateAllowanceAmount,
+  validateAllowanceExpiry,
+  setAllowancesLoading,
+  setAllowances,
+  setAllowancesError,
+  upsertAllowance,
+  setAllowanceActionPending,
+  setAllowanceActionError,
+  trackSpender,
+  untrackSpender,
+  clearAllowances,
+  type TokenAllowance,
+} from '@/stores';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const TREASURY = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+const OTHER = 'ryjl3-tyaaa-aaaaa-aaaba-cai';
+const FEE = BigInt(10_000);
+
+function createAllowance(overrides: Partial<TokenAllowance> = {}): TokenAllowance {
+  return {
+    spender: TREASURY,
+    allowance: BigInt(500_000_000), // 5 DOM
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+describe('Allowance State', () => {
+  beforeEach(() => {
+    clearAllowances();
+    $trackedSpenders.set([]);
+  });
+
+  describe('Allowance list', () => {
+    it('should store fetched allowances and list outstanding ones largest first', () => {
+      setAllowancesLoading(true);
+      expect($allowances.get().isLoading).toBe(true);
+
+      setAllowances(SELF, [
+        createAllowance({ spender: TREASURY, allowance: BigInt(100) }),
+        createAllowance({ spender: OTHER, allowance: BigInt(0) }),
+        createAllowance({ spender: SELF, allowance: BigInt(900) }),
+      ]);
+
+      expect($allowances.get()).toMatchObject({ principal: SELF, isLoading: false });
+      expect($outstandingAllowances.get().map((a) => a.spender)).toEqual([SELF, TREASURY]);
+    });
+
+    it('should replace a spender allowance after approve or revoke', () => {
+      setAllowances(SELF, [createAllowance()]);
+
+      upsertAllowance(createAllowance({ allowance: BigInt(0) }));
+
+      expect($allowances.get().allowances).toHaveLength(1);
+      expect($outstandingAllowances.get()).toHaveLength(0);
+    });
+
+    it('should keep allowances on error and clear everything', () => {
+      setAllowances(SELF, [createAllowance()]);
+      setAllowancesError('Ledger unavailable');
+      expect($allowances.get().allowances).toHaveLength(1);
+
+      setAllowanceActionPending(TREASURY);
+      clearAllowances();
+
+      expect($allowances.get()).toMatchObject({ principal: null, allowances: [], error: null });
+      expect($allowanceAction.get().pendingSpender).toBeNull();
+    });
+
+    it('should clear the pending spender on action error', () => {
+      setAllowanceActionPending(TREASURY);
+      setAllowanceActionError('InsufficientFunds');
+
+      expect($allowanceAction.get()).toEqual({ pendingSpender: null, error: 'InsufficientFunds' });
+    });
+  });
+
+  describe('Tracked spenders', () => {
+    it('should track each spender once and untrack it', () => {
+      trackSpender(OTHER);
+      trackSpender(OTHER);
+      expect($trackedSpenders.get()).toEqual([OTHER]);
+
+      untrackSpender(OTHER);
+      expect($trackedSpenders.get()).toEqual([]);
+    });
+
+    it('should list DAO spenders first without duplicates', () => {
+      const spenders = buildAllowanceSpenders(
+        [{ principal: TREASURY, label: 'Treasury' }],
+        [OTHER, TREASURY]
+      );
+
+      expect(spenders).toEqual([
+        { principal: TREASURY, label: 'Treasury', source: 'dao' },
+        { principal: OTHER, label: OTHER, source: 'tracked' },
+      ]);
+    });
+  });
+
+  describe('Validation utilities', () => {
+    it('should validate the spender principal', () => {
+      expect(validateAllowanceSpender('')).toBe('Enter the spender principal');
+      expect(validateAllowanceSpender('not-a-principal')).toBe('Invalid principal');
+      expect(validateAllowanceSpender(SELF, SELF)).toBe('You cannot approve your own account');
+      expect(validateAllowanceSpender(TREASURY, SELF)).toBeNull();
+    });
+
+    it('should allow amounts above the balance but require the fee', () => {
+      expect(validateAllowanceAmount(BigInt(0), BigInt(100_000_000), FEE)).toBe(
+        'Amount must be greater than 0'
+      );
+      expect(validateAllowanceAmount(BigInt(900_000_000), BigInt(100_000_000), FEE)).toBeNull();
+      expect(validateAllowanceAmount(BigInt(1), BigInt(5_000), FEE)).toBe(
+        'Insufficient balance to cover the approval fee'
+      );
+    });
+
+    it('should require expiries in the future', () => {
+      const now = Date.now();
+      expect(validateAllowanceExpiry(null, now)).toBeNull();
+      expect(validateAllowanceExpiry(now + 60_000, now)).toBeNull();
+      expect(validateAllowanceExpiry(now - 1, now)).toBe('Expiry must be in the future');
+    });
+
+    it('should detect expired allowances', () => {
+      const now = Date.now();
+      const nanos = (ms: number) => BigInt(ms) * BigInt(1_000_000);
+
+      expect(isAllowanceExpired(createAllowance(), now)).toBe(false);
+      expect(isAllowanceExpired(createAllowance({ expiresAt: nanos(now + 1000) }), now)).toBe(
+        false
+      );
+      expect(isAllowanceExpired(createAllowance({ expiresAt: nanos(now - 1000) }), now)).toBe(
+        true
+      );
+    });
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Token Allowance State Management
+ *
+ * Manages the member's ICRC-2 approvals (allowances granted to spenders on
+ * the DOM ledger) using nanostores. The ledger can only be asked about one
+ * spender at a time, so spenders the member has approved are remembered in
+ * localStorage alongside the DAO's own canisters.
+ */
+
+import { atom, computed } from 'nanostores';
+import { persistentAtom } from '@nanostores/persistent';
+import { Principal } from '@dfinity/principal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Allowance granted by the member's account to a spender
+ */
+export interface TokenAllowance {
+  /** Spender principal */
+  spender: string;
+  /** Remaining allowance in e8s */
+  allowance: bigint;
+  /** Expiry in nanoseconds (null = never expires) */
+  expiresAt: bigint | null;
+}
+
+/**
+ * Where a spender in the allowance list comes from
+ */
+export type AllowanceSpenderSource = 'dao' | 'tracked';
+
+/**
+ * Spender whose allowance is checked
+ */
+export interface AllowanceSpender {
+  /** Spender principal */
+  principal: string;
+  /** Display label */
+  label: string;
+  /** DAO canister or a spender the member approved */
+  source: AllowanceSpenderSource;
+}
+
+/**
+ * Allowance list state
+ */
+export interface AllowancesState {
+  /** Account the allowances belong to */
+  principal: string | null;
+  /** Allowances per spender */
+  allowances: TokenAllowance[];
+  /** Last successful fetch timestamp */
+  lastUpdated: number | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
+/**
+ * Approve/revoke action state
+ */
+export interface AllowanceActionState {
+  /** Spender with an approve or revoke in flight */
+  pendingSpender: string | null;
+  /** Error from the last action */
+  error: string | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** LocalStorage key for spenders the member has approved */
+export const TRACKED_SPENDERS_STORAGE_KEY = 'hwdao-tracked-spenders';
+
+/** Initial allowance list state */
+const INITIAL_STATE: AllowancesState = {
+  principal: null,
+  allowances: [],
+  lastUpdated: null,
+  isLoading: false,
+  error: null,
+};
+
+/** Initial action state */
+const INITIAL_ACTION_STATE: AllowanceActionState = {
+  pendingSpender: null,
+  error: null,
+};
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Allowance list store
+ */
+export const $allowances = atom<AllowancesState>({ ...INITIAL_STATE });
+
+/**
+ * Approve/revoke action store
+ */
+export const $allowanceAction = atom<AllowanceActionState>({ ...INITIAL_ACTION_STATE });
+
+/**
+ * Spenders the member has approved (persisted)
+ */
+export const $trackedSpenders = persistentAtom<string[]>(TRACKED_SPENDERS_STORAGE_KEY, [], {
+  encode: JSON.stringify,
+  decode: (str) => {
+    try {
+      return JSON.parse(str) as string[];
+    } catch {
+      return [];
+    }
+  },
+});
+
+// ============================================================================
+// Computed Atoms
+// ============================================================================
+
+/**
+ * Outstanding (non-zero) allowances, largest first
+ */
+export const $outstandingAllowances = computed($allowances, (state) =>
+  state.allowances
+    .filter((a) => a.allowance > BigInt(0))
+    .sort((a, b) => (b.allowance > a.allowance ? 1 : b.allowance < a.allowance ? -1 : 0))
+);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build the spender list: DAO canisters first, then tracked spenders
+ * @param daoSpenders - DAO canisters that may request approvals
+ * @param tracked - Spenders the member has approved
+ */
+export function buildAllowanceSpenders(
+  daoSpenders: { principal: string; label: string }[],
+  tracked: string[]
+): AllowanceSpender[] {
+  const spenders = new Map<string, AllowanceSpender>();
+
+  for (const { principal, label } of daoSpenders) {
+    spenders.set(principal, { principal, label, source: 'dao' });
+  }
+  for (const principal of tracked) {
+    if (!spenders.has(principal)) {
+      spenders.set(principal, { principal, label: principal, source: 'tracked' });
+    }
+  }
+
+  return Array.from(spenders.values());
+}
+
+/**
+ * Whether an allowance has passed its expiry
+ * @param allowance - Allowance to check
+ * @param now - Current ms timestamp
+ */
+export function isAllowanceExpired(allowance: TokenAllowance, now: number = Date.now()): boolean {
+  return allowance.expiresAt !== null && allowance.expiresAt <= BigInt(now) * BigInt(1_000_000);
+}
+
+/**
+ * Validate an approval spender
+ * @param spender - Spender principal text
+ * @param self - The member's own principal
+ * @returns Error message or null if valid
+ */
+export function validateAllowanceSpender(
+  spender: string,
+  self: string | null = null
+): string | null {
+  const trimmed = spender.trim();
+  if (!trimmed) {
+    return 'Enter the spender principal';
+  }
+
+  try {
+    Principal.fromText(trimmed);
+  } catch {
+    return 'Invalid principal';
+  }
+
+  if (self && trimmed === self) {
+    return 'You cannot approve your own account';
+  }
+  return null;
+}
+
+/**
+ * Validate an approval amount. Allowances may exceed the balance, but the
+ * approval itself costs the ledger fee.
+ * @param amount - Amount to approve in e8s
+ * @param balance - Current balance in e8s
+ * @param fee - Ledger fee in e8s
+ * @returns Error message or null if valid
+ */
+export function validateAllowanceAmount(
+  amount: bigint,
+  balance: bigint,
+  fee: bigint
+): string | null {
+  if (amount <= BigInt(0)) {
+    return 'Amount must be greater than 0';
+  }
+  if (balance < fee) {
+    return 'Insufficient balance to cover the approval fee';
+  }
+  return null;
+}
+
+/**
+ * Validate an approval expiry
+ * @param expiresAt - Expiry as a ms timestamp (null = never expires)
+ * @param now - Current ms timestamp
+ * @returns Error message or null if valid
+ */
+export function validateAllowanceExpiry(
+  expiresAt: number | null,
+  now: number = Date.now()
+): string | null {
+  if (expiresAt !== null && expiresAt <= now) {
+    return 'Expiry must be in the future';
+  }
+  return null;
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Set allowance list loading state
+ */
+export function setAllowancesLoading(isLoading: boolean): void {
+  const current = $allowances.get();
+  $allowances.set({
+    ...current,
+    isLoading,
+    error: isLoading ? null : current.error,
+  });
+}
+
+/**
+ * Set fetched allowances
+ * @param principal - Account the allowances belong to
+ * @param allowances - Allowances per spender
+ */
+export function setAllowances(principal: string, allowances: TokenAllowance[]): void {
+  $allowances.set({
+    principal,
+    allowances,
+    lastUpdated: Date.now(),
+    isLoading: false,
+    error: null,
+  });
+}
+
+/**
+ * Set allowance list error state
+ * @param error - Error message
+ */
+export function setAllowancesError(error: string): void {
+  const current = $allowances.get();
+  $allowances.set({
+    ...current,
+    isLoading: false,
+    error,
+  });
+}
+
+/**
+ * Insert or replace the allowance for a spender (after approve or revoke)
+ * @param allowance - Updated allowance
+ */
+export function upsertAllowance(allowance: TokenAllowance): void {
+  const current = $allowances.get();
+  const others = current.allowances.filter((a) => a.spender !== allowance.spender);
+  $allowances.set({
+    ...current,
+    allowances: [...others, allowance],
+  });
+}
+
+/**
+ * Mark an approve or revoke as in flight
+ * @param spender - Spender being updated
+ */
+export function setAllowanceActionPending(spender: string): void {
+  $allowanceAction.set({ pendingSpender: spender, error: null });
+}
+
+/**
+ * Set approve/revoke error
+ * @param error - Error message
+ */
+export function setAllowanceActionError(error: string): void {
+  $allowanceAction.set({ pendingSpender: null, error });
+}
+
+/**
+ * Reset approve/revoke state
+ */
+export function resetAllowanceAction(): void {
+  $allowanceAction.set({ ...INITIAL_ACTION_STATE });
+}
+
+/**
+ * Remember a spender so its allowance is checked on later visits
+ * @param spender - Spender principal
+ */
+export function trackSpender(spender: string): void {
+  const tracked = $trackedSpenders.get();
+  if (!tracked.includes(spender)) {
+    $trackedSpenders.set([...tracked, spender]);
+  }
+}
+
+/**
+ * Stop checking a spender's allowance
+ * @param spender - Spender principal
+ */
+export function untrackSpender(spender: string): void {
+  $trackedSpenders.set($trackedSpenders.get().filter((s) => s !== spender));
+}
+
+/**
+ * Clear allowance state (e.g., on logout). Tracked spenders are kept.
+ */
+export function clearAllowances(): void {
+  $allowances.set({ ...INITIAL_STATE });
+  resetAllowanceAction();
+}
+
+// ============================================================================
+// Export Actions Object
+// ============================================================================
+
+export const allowanceActions = {
+  setLoading: setAllowancesLoading,
+  setAllowances,
+  setError: setAllowancesError,
+  upsert: upsertAllowance,
+  setActionPending: setAllowanceActionPending,
+  setActionError: setAllowanceActionError,
+  resetAction: resetAllowanceAction,
+  trackSpender,
+  untrackSpender,
+  clear: clearAllowances,
+};
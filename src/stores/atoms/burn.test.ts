@@ -20,11 +20,19 @@ import {
   $userTotalBurned,
   $formattedUserTotalBurned,
   $burnCount,
+  $burnStats,
+  $burnHistorySeries,
+  $percentSupplyBurned,
+  $burnLeaderboard,
+  $userBurnRank,
   setBurnPoolLoading,
   setBurnPoolData,
   setBurnPoolError,
   clearBurnPool,
   isBurnPoolStale,
+  setBurnStatsLoading,
+  setBurnStatsData,
+  setBurnStatsError,
   setBurnPending,
   setBurnSuccess,
   setBurnExecutionError,
@@ -34,6 +42,7 @@ import {
   removeBurnRecord,
   clearBurnHistory,
   getPendingBurnRecord,
+  reconcileBurnHistory,
   exportBurnHistoryCSV,
   validateBurnAmount,
   getMaxBurnAmount,
@@ -41,9 +50,24 @@ import {
   BURN_POOL_STALE_THRESHOLD_MS,
   MIN_BURN_AMOUNT,
   BURN_TX_FEE_RESERVE,
+  BURN_LEADERBOARD_SIZE,
   type LocalBurnRecord,
+  type BurnDonor,
+  type BurnStats,
 } from '@/stores';
 
+// Helper to create burn statistics
+function createMockBurnStats(overrides: Partial<BurnStats> = {}): BurnStats {
+  return {
+    history: [],
+    donors: [],
+    donorProfiles: {},
+    totalSupply: BigInt(0),
+    userRank: null,
+    ...overrides,
+  };
+}
+
 // Helper to create a mock burn record
 function createMockBurnRecord(overrides: Partial<LocalBurnRecord> = {}): LocalBurnRecord {
   return {
@@ -351,6 +375,102 @@ describe('Burn State', () => {
         expect(pending?.status).toBe('pending');
       });
     });
+
+    describe('reconcileBurnHistory', () => {
+      const OWNER = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+      const OTHER = 'ryjl3-tyaaa-aaaaa-aaaba-cai';
+      const HOUR = 60 * 60 * 1000;
+
+      it('should confirm records matched by tx index or by amount and time', () => {
+        const now = Date.now();
+        addBurnRecord(createMockBurnRecord({ id: 'b1', txIndex: '10', status: 'pending' }));
+        addBurnRecord(
+          createMockBurnRecord({
+            id: 'b2',
+            timestamp: now - HOUR,
+            status: 'pending',
+            principal: OWNER,
+          })
+        );
+
+        reconcileBurnHistory(
+          OWNER,
+          [
+            { txIndex: '10', amount: BigInt(100_000_000), timestamp: now },
+            { txIndex: '7', amount: BigInt(100_000_000), timestamp: now - HOUR + 5_000 },
+          ],
+          null
+        );
+
+        const history = $burnHistory.get();
+        expect(history.find((r) => r.id === 'b1')).toMatchObject({
+          status: 'confirmed',
+          principal: OWNER,
+        });
+        expect(history.find((r) => r.id === 'b2')).toMatchObject({
+          status: 'confirmed',
+          txIndex: '7',
+        });
+        expect(history).toHaveLength(2);
+      });
+
+      it('should fail covered records missing from the ledger after the match window', () => {
+        const now = Date.now();
+        const own = { principal: OWNER };
+        addBurnRecord(createMockBurnRecord({ id: 'old', timestamp: now - 3 * HOUR, ...own }));
+        addBurnRecord(createMockBurnRecord({ id: 'stale', timestamp: now - HOUR, ...own }));
+        addBurnRecord(
+          createMockBurnRecord({ id: 'fresh', timestamp: now, status: 'pending', ...own })
+        );
+
+        reconcileBurnHistory(OWNER, [], now - 2 * HOUR);
+
+        const status = (id: string) => $burnHistory.get().find((r) => r.id === id)?.status;
+        expect(status('stale')).toBe('failed');
+        expect(status('fresh')).toBe('pending'); // still inside the match window
+        expect(status('old')).toBe('confirmed'); // older than the covered range
+      });
+
+      it('should not fail records whose account is unknown', () => {
+        const now = Date.now();
+        addBurnRecord(
+          createMockBurnRecord({ id: 'legacy', timestamp: now - HOUR, status: 'pending' })
+        );
+
+        reconcileBurnHistory(
+          OWNER,
+          [{ txIndex: '9', amount: BigInt(100_000_000), timestamp: now - HOUR }],
+          null
+        );
+
+        const history = $burnHistory.get();
+        expect(history.find((r) => r.id === 'legacy')).toMatchObject({ status: 'pending' });
+        expect(history.find((r) => r.id === 'legacy')?.principal).toBeUndefined();
+        expect(history.find((r) => r.id === 'burn-ledger-9')).toBeDefined();
+      });
+
+      it('should add ledger burns made elsewhere and leave other accounts alone', () => {
+        const now = Date.now();
+        addBurnRecord(
+          createMockBurnRecord({ id: 'theirs', timestamp: now - HOUR, principal: OTHER })
+        );
+
+        reconcileBurnHistory(
+          OWNER,
+          [{ txIndex: '42', amount: BigInt(300_000_000), timestamp: now }],
+          null
+        );
+
+        const history = $burnHistory.get();
+        expect(history[0]).toMatchObject({
+          id: 'burn-ledger-42',
+          amount: BigInt(300_000_000),
+          status: 'confirmed',
+          principal: OWNER,
+        });
+        expect(history[1]).toMatchObject({ id: 'theirs', status: 'confirmed' });
+      });
+    });
   });
 
   describe('Computed atoms', () => {
@@ -503,4 +623,103 @@ describe('Burn State', () => {
       expect(csv).toContain('confirmed');
     });
   });
+
+  describe('Burn statistics', () => {
+    const DOM = BigInt(100_000_000);
+
+    it('should track loading, data and error state', () => {
+      setBurnStatsLoading(true);
+      expect($burnStats.get().isLoading).toBe(true);
+
+      setBurnStatsData(createMockBurnStats());
+      expect($burnStats.get().isLoading).toBe(false);
+      expect($burnStats.get().lastUpdated).not.toBeNull();
+
+      setBurnStatsError('Request timeout');
+      expect($burnStats.get().error).toBe('Request timeout');
+      expect($burnStats.get().stats).not.toBeNull();
+    });
+
+    it('should extend the history series with the latest pool total', () => {
+      setBurnStatsData(
+        createMockBurnStats({
+          history: [
+            { timestamp: 2000, totalBurned: DOM * BigInt(5) },
+            { timestamp: 1000, totalBurned: DOM },
+          ],
+        })
+      );
+      setBurnPoolData(DOM * BigInt(8));
+
+      const series = $burnHistorySeries.get();
+      expect(series.map((p) => p.totalBurned)).toEqual([DOM, DOM * BigInt(5), DOM * BigInt(8)]);
+    });
+
+    it('should not add a point when the pool total has not moved', () => {
+      setBurnStatsData(
+        createMockBurnStats({ history: [{ timestamp: 1000, totalBurned: DOM * BigInt(5) }] })
+      );
+      setBurnPoolData(DOM * BigInt(5));
+
+      expect($burnHistorySeries.get()).toHaveLength(1);
+    });
+
+    it('should compute the share of minted supply that has been burned', () => {
+      expect($percentSupplyBurned.get()).toBeNull();
+
+      setBurnStatsData(createMockBurnStats({ totalSupply: DOM * BigInt(750) }));
+      setBurnPoolData(DOM * BigInt(250));
+
+      expect($percentSupplyBurned.get()).toBe(25);
+    });
+
+    it('should list only donors with visible profiles, keeping their overall rank', () => {
+      const donors: BurnDonor[] = [
+        { rank: 1, principal: 'aaaaa-aa', totalBurned: DOM * BigInt(30), burnCount: 3 },
+        { rank: 2, principal: 'private-donor', totalBurned: DOM * BigInt(20), burnCount: 1 },
+        { rank: 3, principal: 'bbbbb-bb', totalBurned: DOM * BigInt(10), burnCount: 2 },
+      ];
+      setBurnStatsData(
+        createMockBurnStats({
+          donors,
+          donorProfiles: {
+            'aaaaa-aa': { displayName: 'Alice' },
+            'bbbbb-bb': { displayName: 'Bob' },
+          },
+        })
+      );
+
+      const leaderboard = $burnLeaderboard.get();
+      expect(leaderboard.map((e) => [e.rank, e.displayName])).toEqual([
+        [1, 'Alice'],
+        [3, 'Bob'],
+      ]);
+    });
+
+    it('should cap the leaderboard size', () => {
+      const donors: BurnDonor[] = Array.from({ length: BURN_LEADERBOARD_SIZE + 5 }, (_, i) => ({
+        rank: i + 1,
+        principal: `donor-${i}`,
+        totalBurned: DOM,
+        burnCount: 1,
+      }));
+      const donorProfiles = Object.fromEntries(
+        donors.map((d) => [d.principal, { displayName: d.principal }])
+      );
+      setBurnStatsData(createMockBurnStats({ donors, donorProfiles }));
+
+      expect($burnLeaderboard.get()).toHaveLength(BURN_LEADERBOARD_SIZE);
+    });
+
+    it('should expose the member rank and clear it with the pool', () => {
+      setBurnStatsData(
+        createMockBurnStats({ userRank: { rank: 4, totalBurned: DOM, donorCount: 12 } })
+      );
+      expect($userBurnRank.get()).toEqual({ rank: 4, totalBurned: DOM, donorCount: 12 });
+
+      clearBurnPool();
+      expect($userBurnRank.get()).toBeNull();
+      expect($burnStats.get().stats).toBeNull();
+    });
+  });
 });
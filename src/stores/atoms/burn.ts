@@ -36,6 +36,22 @@ export interface LocalBurnRecord {
   txIndex?: string;
   /** Burn status */
   status: BurnRecordStatus;
+  /** Principal of the burning account */
+  principal?: string;
+  /** Burn pledge this burn fulfilled */
+  pledgeId?: string;
+}
+
+/**
+ * Burn of the user's account as recorded by the ledger
+ */
+export interface LedgerBurn {
+  /** Ledger transaction index */
+  txIndex: string;
+  /** Tokens burned (in e8s) */
+  amount: bigint;
+  /** Unix ms timestamp */
+  timestamp: number;
 }
 
 /**
@@ -46,6 +62,87 @@ export interface BurnPool {
   totalBurned: bigint;
 }
 
+/**
+ * Cumulative total burned at a point in time
+ */
+export interface BurnHistoryPoint {
+  /** Unix ms timestamp */
+  timestamp: number;
+  /** Total tokens burned up to this time (in e8s) */
+  totalBurned: bigint;
+}
+
+/**
+ * Account ranked by total burned
+ */
+export interface BurnDonor {
+  /** 1-based rank across all burning accounts */
+  rank: number;
+  /** Account principal */
+  principal: string;
+  /** Tokens burned by the account (in e8s) */
+  totalBurned: bigint;
+  /** Number of burns */
+  burnCount: number;
+}
+
+/**
+ * Public profile of a donor whose visibility allows listing them
+ */
+export interface BurnDonorProfile {
+  /** Display name */
+  displayName: string;
+  /** Avatar URL */
+  avatar?: string;
+}
+
+/**
+ * Leaderboard row: a ranked donor with their profile
+ */
+export interface BurnLeaderboardEntry extends BurnDonor, BurnDonorProfile {}
+
+/**
+ * The member's position among burning accounts
+ */
+export interface BurnRank {
+  /** 1-based rank */
+  rank: number;
+  /** Tokens burned by the member (in e8s) */
+  totalBurned: bigint;
+  /** Number of accounts that have burned */
+  donorCount: number;
+}
+
+/**
+ * Burn impact statistics from canister
+ */
+export interface BurnStats {
+  /** Cumulative total burned over time, oldest first */
+  history: BurnHistoryPoint[];
+  /** Top burning accounts, highest first */
+  donors: BurnDonor[];
+  /** Profiles of donors who opted in to being listed, by principal */
+  donorProfiles: Record<string, BurnDonorProfile>;
+  /** Current circulating supply (in e8s, burned tokens excluded) */
+  totalSupply: bigint;
+  /** The member's rank (null if they have not burned) */
+  userRank: BurnRank | null;
+}
+
+/**
+ * Burn statistics state with loading/error handling
+ */
+export interface BurnStatsState {
+  /** Burn impact statistics */
+  stats: BurnStats | null;
+  /** Last successful fetch timestamp */
+  lastUpdated: number | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
 /**
  * Burn state with loading/error handling
  */
@@ -85,6 +182,8 @@ interface SerializedBurnRecord {
   timestamp: number;
   txIndex?: string;
   status: BurnRecordStatus;
+  principal?: string;
+  pledgeId?: string;
 }
 
 // ============================================================================
@@ -106,6 +205,15 @@ export const MAX_BURN_HISTORY_RECORDS = 100;
 /** LocalStorage key for burn history */
 export const BURN_HISTORY_STORAGE_KEY = 'hwdao-burn-history';
 
+/** Max clock difference when matching a local burn to a ledger burn (10 minutes) */
+export const BURN_LEDGER_MATCH_WINDOW_MS = 10 * 60 * 1000;
+
+/** Days of burn history shown in the stats panel */
+export const BURN_STATS_HISTORY_DAYS = 90;
+
+/** Number of donors shown on the leaderboard */
+export const BURN_LEADERBOARD_SIZE = 10;
+
 /** Initial burn pool state */
 const INITIAL_POOL_STATE: BurnState = {
   pool: null,
@@ -114,6 +222,14 @@ const INITIAL_POOL_STATE: BurnState = {
   error: null,
 };
 
+/** Initial burn statistics state */
+const INITIAL_STATS_STATE: BurnStatsState = {
+  stats: null,
+  lastUpdated: null,
+  isLoading: false,
+  error: null,
+};
+
 /** Initial burn execution state */
 const INITIAL_EXECUTION_STATE: BurnExecutionState = {
   isPending: false,
@@ -132,6 +248,11 @@ const INITIAL_EXECUTION_STATE: BurnExecutionState = {
  */
 export const $burnPool = atom<BurnState>({ ...INITIAL_POOL_STATE });
 
+/**
+ * Burn statistics store (history, leaderboard, supply and rank)
+ */
+export const $burnStats = atom<BurnStatsState>({ ...INITIAL_STATS_STATE });
+
 /**
  * Burn execution state store
  */
@@ -183,6 +304,60 @@ export const $formattedTotalBurned = computed($burnPool, (state) => {
   return formatTokenAmount(state.pool.totalBurned, TOKEN_DECIMALS);
 });
 
+/**
+ * Total burned over time, ending with the latest pool total
+ */
+export const $burnHistorySeries = computed(
+  [$burnStats, $burnPool],
+  (statsState, poolState): BurnHistoryPoint[] => {
+    const history = [...(statsState.stats?.history ?? [])].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+    const last = history[history.length - 1];
+    const pool = poolState.pool;
+    // Extend the series to now when the pool total has moved past the last point
+    if (
+      pool &&
+      poolState.lastUpdated &&
+      (!last || (poolState.lastUpdated > last.timestamp && pool.totalBurned > last.totalBurned))
+    ) {
+      history.push({ timestamp: poolState.lastUpdated, totalBurned: pool.totalBurned });
+    }
+    return history;
+  }
+);
+
+/**
+ * Share of all DOM ever minted that has been burned (0-100), or null before
+ * both totals are known
+ */
+export const $percentSupplyBurned = computed([$burnStats, $burnPool], (statsState, poolState) => {
+  const stats = statsState.stats;
+  if (!stats || !poolState.pool) return null;
+  const minted = stats.totalSupply + poolState.pool.totalBurned;
+  if (minted === BigInt(0)) return 0;
+  // Basis points keep the bigint division precise to 0.01%
+  return Number((poolState.pool.totalBurned * BigInt(10_000)) / minted) / 100;
+});
+
+/**
+ * Top donors who opted in to being listed, highest first
+ */
+export const $burnLeaderboard = computed($burnStats, (state): BurnLeaderboardEntry[] => {
+  const stats = state.stats;
+  if (!stats) return [];
+  return stats.donors
+    .filter((donor) => stats.donorProfiles[donor.principal])
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, BURN_LEADERBOARD_SIZE)
+    .map((donor) => ({ ...donor, ...stats.donorProfiles[donor.principal] }));
+});
+
+/**
+ * The member's rank among burning accounts (null if they have not burned)
+ */
+export const $userBurnRank = computed($burnStats, (state) => state.stats?.userRank ?? null);
+
 /**
  * Burn execution pending state
  */
@@ -277,10 +452,11 @@ export function setBurnPoolError(error: string): void {
 }
 
 /**
- * Clear burn pool state
+ * Clear burn pool state and statistics
  */
 export function clearBurnPool(): void {
   $burnPool.set({ ...INITIAL_POOL_STATE });
+  $burnStats.set({ ...INITIAL_STATS_STATE });
 }
 
 /**
@@ -293,6 +469,48 @@ export function isBurnPoolStale(thresholdMs: number = BURN_POOL_STALE_THRESHOLD_
   return Date.now() - state.lastUpdated > thresholdMs;
 }
 
+// ============================================================================
+// Actions - Burn Statistics
+// ============================================================================
+
+/**
+ * Set loading state for burn statistics fetch
+ */
+export function setBurnStatsLoading(isLoading: boolean): void {
+  const current = $burnStats.get();
+  $burnStats.set({
+    ...current,
+    isLoading,
+    error: isLoading ? null : current.error,
+  });
+}
+
+/**
+ * Set burn statistics after successful fetch
+ * @param stats - Burn impact statistics
+ */
+export function setBurnStatsData(stats: BurnStats): void {
+  $burnStats.set({
+    stats,
+    lastUpdated: Date.now(),
+    isLoading: false,
+    error: null,
+  });
+}
+
+/**
+ * Set error state after failed burn statistics fetch
+ * @param error - Error message
+ */
+export function setBurnStatsError(error: string): void {
+  const current = $burnStats.get();
+  $burnStats.set({
+    ...current,
+    isLoading: false,
+    error,
+  });
+}
+
 // ============================================================================
 // Actions - Burn Execution
 // ============================================================================
@@ -409,6 +627,87 @@ export function getPendingBurnRecord(): LocalBurnRecord | null {
   return pending ?? null;
 }
 
+/**
+ * Reconcile the local burn history with the account's burns on the ledger,
+ * so burn status no longer depends on what this browser saw:
+ * - records whose burn is on the ledger become confirmed (matched by tx
+ *   index, or by amount and time for records without one)
+ * - pending or confirmed records missing from the covered ledger range
+ *   become failed once the match window has passed
+ * - ledger burns made elsewhere are added as confirmed records
+ *
+ * Records of other accounts are left untouched, as are records saved before
+ * burns recorded their account, unless their tx index is on this account's
+ * ledger.
+ *
+ * @param principal - Account the ledger burns belong to
+ * @param ledgerBurns - The account's ledger burns
+ * @param coveredSince - Earliest ms timestamp the ledger burns cover (null = full history)
+ */
+export function reconcileBurnHistory(
+  principal: string,
+  ledgerBurns: LedgerBurn[],
+  coveredSince: number | null
+): void {
+  const byIndex = new Map(ledgerBurns.map((burn) => [burn.txIndex, burn]));
+  const claimed = new Set<string>();
+  const now = Date.now();
+
+  const isOwn = (record: SerializedBurnRecord) => record.principal === principal;
+  // Records without an account can only be claimed by an exact tx index match
+  const isClaimable = (record: SerializedBurnRecord) =>
+    isOwn(record) || record.principal === undefined;
+
+  // Exact tx index matches first, so time-based matching cannot steal them
+  for (const record of $userBurnHistory.get()) {
+    if (isClaimable(record) && record.txIndex && byIndex.has(record.txIndex)) {
+      claimed.add(record.txIndex);
+    }
+  }
+
+  const reconciled = $userBurnHistory.get().map((record): SerializedBurnRecord => {
+    if (isClaimable(record) && record.txIndex && claimed.has(record.txIndex)) {
+      return { ...record, status: 'confirmed', principal };
+    }
+
+    if (!isOwn(record)) return record;
+
+    const match = ledgerBurns.find(
+      (burn) =>
+        !claimed.has(burn.txIndex) &&
+        burn.amount.toString() === record.amount &&
+        Math.abs(burn.timestamp - record.timestamp) <= BURN_LEDGER_MATCH_WINDOW_MS
+    );
+    if (match) {
+      claimed.add(match.txIndex);
+      return { ...record, status: 'confirmed', txIndex: match.txIndex, principal };
+    }
+
+    const isCovered = coveredSince === null || record.timestamp >= coveredSince;
+    const windowPassed = now - record.timestamp > BURN_LEDGER_MATCH_WINDOW_MS;
+    if (record.status !== 'failed' && isCovered && windowPassed) {
+      return { ...record, status: 'failed' };
+    }
+    return record;
+  });
+
+  const missing: SerializedBurnRecord[] = ledgerBurns
+    .filter((burn) => !claimed.has(burn.txIndex))
+    .map((burn) => ({
+      id: `burn-ledger-${burn.txIndex}`,
+      amount: burn.amount.toString(),
+      timestamp: burn.timestamp,
+      txIndex: burn.txIndex,
+      status: 'confirmed',
+      principal,
+    }));
+
+  const updated = [...reconciled, ...missing]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_BURN_HISTORY_RECORDS);
+  $userBurnHistory.set(updated);
+}
+
 /**
  * Export burn history as CSV
  */
@@ -484,6 +783,11 @@ export const burnActions = {
   clearPool: clearBurnPool,
   isPoolStale: isBurnPoolStale,
 
+  // Statistics actions
+  setStatsLoading: setBurnStatsLoading,
+  setStatsData: setBurnStatsData,
+  setStatsError: setBurnStatsError,
+
   // Execution actions
   setPending: setBurnPending,
   setSuccess: setBurnSuccess,
@@ -496,6 +800,7 @@ export const burnActions = {
   removeRecord: removeBurnRecord,
   clearHistory: clearBurnHistory,
   getPendingRecord: getPendingBurnRecord,
+  reconcileHistory: reconcileBurnHistory,
   exportCSV: exportBurnHistoryCSV,
 
   // Validation
@@ -0,0 +1,163 @@
+/**
+ * Burn Pledge State Tests
+ *
+ * Tests for pledge due dates, pausing, resuming and cancelling, fulfilled
+ * and missed periods, and adherence.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $burnPledges,
+  $openBurnPledges,
+  addBurnPledge,
+  pauseBurnPledge,
+  resumeBurnPledge,
+  cancelBurnPledge,
+  recordBurnPledgeFulfilled,
+  settleMissedBurnPledges,
+  clearBurnPledges,
+  getBurnPledgeDueAt,
+  getBurnPledgeNextDueAt,
+  isBurnPledgeDue,
+  getBurnPledgeAdherence,
+  BURN_PLEDGE_GRACE_PERIOD_MS,
+  type BurnPledge,
+} from '@/stores';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 31);
+
+function createPledge(overrides: Partial<BurnPledge> = {}): BurnPledge {
+  return {
+    id: 'pledge-1',
+    principal: SELF,
+    amount: BigInt(500_000_000),
+    cadence: 'monthly',
+    status: 'active',
+    startsAt: START,
+    periodIndex: 0,
+    createdAt: START,
+    periods: [],
+    ...overrides,
+  };
+}
+
+function getPledge(id = 'pledge-1'): BurnPledge {
+  const pledge = $burnPledges.get().find((p) => p.id === id);
+  if (!pledge) throw new Error(`Pledge ${id} not found`);
+  return pledge;
+}
+
+describe('Burn pledges', () => {
+  beforeEach(() => {
+    clearBurnPledges();
+  });
+
+  describe('due dates', () => {
+    it('should clamp month-end due dates without drifting', () => {
+      expect(getBurnPledgeDueAt(START, 'monthly', 1)).toBe(Date.UTC(2026, 1, 28));
+      expect(getBurnPledgeDueAt(START, 'monthly', 2)).toBe(Date.UTC(2026, 2, 31));
+      expect(getBurnPledgeDueAt(START, 'quarterly', 1)).toBe(Date.UTC(2026, 3, 30));
+      expect(getBurnPledgeDueAt(START, 'weekly', 2)).toBe(START + 14 * DAY_MS);
+    });
+
+    it('should only be due while active and past the due date', () => {
+      const pledge = createPledge();
+
+      expect(isBurnPledgeDue(pledge, START - 1)).toBe(false);
+      expect(isBurnPledgeDue(pledge, START)).toBe(true);
+      expect(isBurnPledgeDue({ ...pledge, status: 'paused' }, START)).toBe(false);
+    });
+  });
+
+  describe('actions', () => {
+    it('should persist pledges with BigInt amounts', () => {
+      addBurnPledge(createPledge());
+
+      expect(getPledge().amount).toBe(BigInt(500_000_000));
+    });
+
+    it('should record a fulfilled period and advance to the next one', () => {
+      addBurnPledge(createPledge());
+
+      recordBurnPledgeFulfilled('pledge-1', '42', START + DAY_MS);
+
+      const pledge = getPledge();
+      expect(pledge.periods).toEqual([
+        { dueAt: START, outcome: 'fulfilled', resolvedAt: START + DAY_MS, txIndex: '42' },
+      ]);
+      expect(getBurnPledgeNextDueAt(pledge)).toBe(Date.UTC(2026, 1, 28));
+    });
+
+    it('should skip periods that came due while paused when resuming', () => {
+      addBurnPledge(createPledge());
+      pauseBurnPledge('pledge-1');
+
+      expect(getPledge().status).toBe('paused');
+      expect(settleMissedBurnPledges(SELF, Date.UTC(2026, 3, 15))).toEqual([]);
+
+      resumeBurnPledge('pledge-1', Date.UTC(2026, 3, 15));
+
+      const pledge = getPledge();
+      expect(pledge.status).toBe('active');
+      expect(pledge.periods).toEqual([]);
+      expect(getBurnPledgeNextDueAt(pledge)).toBe(Date.UTC(2026, 3, 30));
+    });
+
+    it('should keep cancelled pledges for history but not as open pledges', () => {
+      addBurnPledge(createPledge());
+
+      cancelBurnPledge('pledge-1');
+
+      expect(getPledge().status).toBe('cancelled');
+      expect($openBurnPledges.get()).toEqual([]);
+      expect(settleMissedBurnPledges(SELF, Date.UTC(2026, 5, 1))).toEqual([]);
+    });
+  });
+
+  describe('settleMissedBurnPledges', () => {
+    it('should not mark a period missed within the grace period', () => {
+      addBurnPledge(createPledge());
+
+      expect(settleMissedBurnPledges(SELF, START + BURN_PLEDGE_GRACE_PERIOD_MS)).toEqual([]);
+      expect(getPledge().periodIndex).toBe(0);
+    });
+
+    it('should mark every overdue period missed', () => {
+      addBurnPledge(createPledge());
+      const now = Date.UTC(2026, 2, 10);
+
+      const missed = settleMissedBurnPledges(SELF, now);
+
+      expect(missed).toHaveLength(1);
+      expect(missed[0].missedCount).toBe(2);
+      const pledge = getPledge();
+      expect(pledge.periods.map((p) => p.dueAt)).toEqual([Date.UTC(2026, 1, 28), START]);
+      expect(pledge.periods.every((p) => p.outcome === 'missed')).toBe(true);
+      expect(settleMissedBurnPledges(SELF, now)).toEqual([]);
+    });
+
+    it("should leave other accounts' pledges alone", () => {
+      addBurnPledge(createPledge({ principal: 'aaaaa-aa' }));
+
+      expect(settleMissedBurnPledges(SELF, Date.UTC(2026, 2, 10))).toEqual([]);
+      expect(getPledge().periodIndex).toBe(0);
+    });
+  });
+
+  describe('getBurnPledgeAdherence', () => {
+    it('should report fulfilled and missed periods', () => {
+      const pledge = createPledge({
+        periods: [
+          { dueAt: 3, outcome: 'fulfilled', resolvedAt: 3 },
+          { dueAt: 2, outcome: 'missed', resolvedAt: 2 },
+          { dueAt: 1, outcome: 'fulfilled', resolvedAt: 1 },
+        ],
+      });
+
+      expect(getBurnPledgeAdherence(pledge)).toEqual({ fulfilled: 2, missed: 1, rate: 67 });
+      expect(getBurnPledgeAdherence(createPledge()).rate).toBeNull();
+    });
+  });
+});
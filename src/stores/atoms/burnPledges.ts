@@ -0,0 +1,393 @@
+/**
+ * Burn Pledge State Management
+ *
+ * Recurring burn pledges: a member commits to burning a fixed DOM amount on
+ * a cadence. Pledges are tracked locally like burn history; each due period
+ * is either fulfilled with a burn or recorded as missed once its grace
+ * period has passed.
+ */
+
+import { computed } from 'nanostores';
+import { persistentAtom } from '@nanostores/persistent';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How often a pledge comes due
+ */
+export type BurnPledgeCadence = 'weekly' | 'monthly' | 'quarterly';
+
+/**
+ * Pledge lifecycle status
+ */
+export type BurnPledgeStatus = 'active' | 'paused' | 'cancelled';
+
+/**
+ * Outcome of a due period
+ */
+export type BurnPledgeOutcome = 'fulfilled' | 'missed';
+
+/**
+ * A settled due period of a pledge
+ */
+export interface BurnPledgePeriod {
+  /** Unix ms timestamp the period came due */
+  dueAt: number;
+  /** Whether the pledged burn was made */
+  outcome: BurnPledgeOutcome;
+  /** Unix ms timestamp the period was settled */
+  resolvedAt: number;
+  /** Transaction index of the burn (fulfilled periods) */
+  txIndex?: string;
+}
+
+/**
+ * Recurring burn pledge
+ */
+export interface BurnPledge {
+  /** ID generated client-side */
+  id: string;
+  /** Principal of the pledging account */
+  principal: string;
+  /** Tokens pledged per period (in e8s) */
+  amount: bigint;
+  /** How often the pledge comes due */
+  cadence: BurnPledgeCadence;
+  /** Pledge status */
+  status: BurnPledgeStatus;
+  /** Unix ms timestamp of the first due date; later due dates follow the cadence */
+  startsAt: number;
+  /** Index of the next unsettled period */
+  periodIndex: number;
+  /** Unix ms timestamp the pledge was created */
+  createdAt: number;
+  /** Settled periods, newest first */
+  periods: BurnPledgePeriod[];
+}
+
+/**
+ * Pledge adherence summary
+ */
+export interface BurnPledgeAdherence {
+  fulfilled: number;
+  missed: number;
+  /** Share of settled periods fulfilled (0-100, null before the first period settles) */
+  rate: number | null;
+}
+
+/**
+ * Pledge missed periods found while settling
+ */
+export interface MissedBurnPledge {
+  pledge: BurnPledge;
+  missedCount: number;
+}
+
+/**
+ * Serializable format for localStorage persistence
+ */
+interface SerializedBurnPledge extends Omit<BurnPledge, 'amount'> {
+  amount: string; // BigInt as string
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Pledge cadences with their labels */
+export const BURN_PLEDGE_CADENCE_LABELS: Record<BurnPledgeCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+};
+
+/** Time after a due date before the period counts as missed (3 days) */
+export const BURN_PLEDGE_GRACE_PERIOD_MS = 3 * 24 * 60 * 60 * 1000;
+
+/** Maximum pledges (active or paused) per account */
+export const MAX_BURN_PLEDGES = 5;
+
+/** Maximum settled periods kept per pledge */
+export const MAX_BURN_PLEDGE_PERIODS = 24;
+
+/** LocalStorage key for burn pledges */
+export const BURN_PLEDGES_STORAGE_KEY = 'hwdao-burn-pledges';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Burn pledges stored in localStorage
+ */
+export const $userBurnPledges = persistentAtom<SerializedBurnPledge[]>(
+  BURN_PLEDGES_STORAGE_KEY,
+  [],
+  {
+    encode: JSON.stringify,
+    decode: (str) => {
+      try {
+        return JSON.parse(str) as SerializedBurnPledge[];
+      } catch {
+        return [];
+      }
+    },
+  }
+);
+
+// ============================================================================
+// Computed Atoms
+// ============================================================================
+
+/**
+ * Burn pledges with BigInt amounts, newest first
+ */
+export const $burnPledges = computed($userBurnPledges, (pledges): BurnPledge[] =>
+  pledges
+    .map((pledge) => ({ ...pledge, amount: BigInt(pledge.amount) }))
+    .sort((a, b) => b.createdAt - a.createdAt)
+);
+
+/**
+ * Pledges that still come due (active or paused)
+ */
+export const $openBurnPledges = computed($burnPledges, (pledges) =>
+  pledges.filter((pledge) => pledge.status !== 'cancelled')
+);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Add calendar months in UTC, clamping to the last day of shorter months
+ */
+function addMonths(timestamp: number, months: number): number {
+  const date = new Date(timestamp);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const daysInMonth = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, daysInMonth));
+  return date.getTime();
+}
+
+/**
+ * Due date of a pledge period.
+ * Dates are counted from the first due date so month-end pledges don't drift.
+ * @param startsAt - First due date
+ * @param cadence - Pledge cadence
+ * @param index - Period index (0 = first due date)
+ */
+export function getBurnPledgeDueAt(
+  startsAt: number,
+  cadence: BurnPledgeCadence,
+  index: number
+): number {
+  switch (cadence) {
+    case 'weekly':
+      return startsAt + index * WEEK_MS;
+    case 'monthly':
+      return addMonths(startsAt, index);
+    case 'quarterly':
+      return addMonths(startsAt, index * 3);
+  }
+}
+
+/**
+ * Due date of the next unsettled period
+ */
+export function getBurnPledgeNextDueAt(pledge: BurnPledge): number {
+  return getBurnPledgeDueAt(pledge.startsAt, pledge.cadence, pledge.periodIndex);
+}
+
+/**
+ * Whether the pledge's current period is due and awaiting a burn
+ */
+export function isBurnPledgeDue(pledge: BurnPledge, now: number = Date.now()): boolean {
+  return pledge.status === 'active' && now >= getBurnPledgeNextDueAt(pledge);
+}
+
+/**
+ * Summarize how many settled periods were fulfilled
+ */
+export function getBurnPledgeAdherence(pledge: BurnPledge): BurnPledgeAdherence {
+  const fulfilled = pledge.periods.filter((p) => p.outcome === 'fulfilled').length;
+  const missed = pledge.periods.length - fulfilled;
+  const total = fulfilled + missed;
+  return {
+    fulfilled,
+    missed,
+    rate: total === 0 ? null : Math.round((fulfilled / total) * 100),
+  };
+}
+
+/**
+ * Generate a unique ID for burn pledges
+ */
+export function generateBurnPledgeId(): string {
+  return `pledge-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function serializePledge(pledge: BurnPledge): SerializedBurnPledge {
+  return { ...pledge, amount: pledge.amount.toString() };
+}
+
+/**
+ * Apply an update to one stored pledge
+ */
+function updatePledge(id: string, update: (pledge: BurnPledge) => BurnPledge): void {
+  $userBurnPledges.set(
+    $userBurnPledges
+      .get()
+      .map((pledge) =>
+        pledge.id === id
+          ? serializePledge(update({ ...pledge, amount: BigInt(pledge.amount) }))
+          : pledge
+      )
+  );
+}
+
+/**
+ * Record a settled period and move on to the next one
+ */
+function settlePeriod(pledge: BurnPledge, period: BurnPledgePeriod): BurnPledge {
+  return {
+    ...pledge,
+    periodIndex: pledge.periodIndex + 1,
+    periods: [period, ...pledge.periods].slice(0, MAX_BURN_PLEDGE_PERIODS),
+  };
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Add a burn pledge
+ * @param pledge - Pledge to add
+ */
+export function addBurnPledge(pledge: BurnPledge): void {
+  $userBurnPledges.set([serializePledge(pledge), ...$userBurnPledges.get()]);
+}
+
+/**
+ * Pause a pledge; paused pledges don't come due
+ * @param id - Pledge ID
+ */
+export function pauseBurnPledge(id: string): void {
+  updatePledge(id, (pledge) =>
+    pledge.status === 'active' ? { ...pledge, status: 'paused' } : pledge
+  );
+}
+
+/**
+ * Resume a paused pledge.
+ * Periods that came due while paused are skipped rather than missed.
+ * @param id - Pledge ID
+ * @param now - Current time
+ */
+export function resumeBurnPledge(id: string, now: number = Date.now()): void {
+  updatePledge(id, (pledge) => {
+    if (pledge.status !== 'paused') return pledge;
+    let periodIndex = pledge.periodIndex;
+    while (getBurnPledgeDueAt(pledge.startsAt, pledge.cadence, periodIndex) < now) {
+      periodIndex += 1;
+    }
+    return { ...pledge, status: 'active', periodIndex };
+  });
+}
+
+/**
+ * Cancel a pledge. Its settled periods are kept for adherence history.
+ * @param id - Pledge ID
+ */
+export function cancelBurnPledge(id: string): void {
+  updatePledge(id, (pledge) => ({ ...pledge, status: 'cancelled' }));
+}
+
+/**
+ * Record the pledged burn for the current due period
+ * @param id - Pledge ID
+ * @param txIndex - Transaction index of the burn
+ * @param now - Current time
+ */
+export function recordBurnPledgeFulfilled(
+  id: string,
+  txIndex: string,
+  now: number = Date.now()
+): void {
+  updatePledge(id, (pledge) =>
+    settlePeriod(pledge, {
+      dueAt: getBurnPledgeNextDueAt(pledge),
+      outcome: 'fulfilled',
+      resolvedAt: now,
+      txIndex,
+    })
+  );
+}
+
+/**
+ * Record every active pledge period of an account whose grace period has
+ * passed as missed. Other accounts' pledges are left for when they sign in.
+ * @param principal - Account whose pledges to settle
+ * @param now - Current time
+ * @returns Pledges with newly missed periods
+ */
+export function settleMissedBurnPledges(
+  principal: string,
+  now: number = Date.now()
+): MissedBurnPledge[] {
+  const missed: MissedBurnPledge[] = [];
+
+  const updated = $burnPledges.get().map((pledge) => {
+    if (pledge.principal !== principal || pledge.status !== 'active') return pledge;
+
+    let settled = pledge;
+    let missedCount = 0;
+    while (getBurnPledgeNextDueAt(settled) + BURN_PLEDGE_GRACE_PERIOD_MS < now) {
+      settled = settlePeriod(settled, {
+        dueAt: getBurnPledgeNextDueAt(settled),
+        outcome: 'missed',
+        resolvedAt: now,
+      });
+      missedCount += 1;
+    }
+
+    if (missedCount > 0) missed.push({ pledge: settled, missedCount });
+    return settled;
+  });
+
+  if (missed.length > 0) {
+    $userBurnPledges.set(updated.map(serializePledge));
+  }
+  return missed;
+}
+
+/**
+ * Remove all burn pledges from localStorage
+ */
+export function clearBurnPledges(): void {
+  $userBurnPledges.set([]);
+}
+
+// ============================================================================
+// Export Actions Object
+// ============================================================================
+
+export const burnPledgeActions = {
+  add: addBurnPledge,
+  pause: pauseBurnPledge,
+  resume: resumeBurnPledge,
+  cancel: cancelBurnPledge,
+  recordFulfilled: recordBurnPledgeFulfilled,
+  settleMissed: settleMissedBurnPledges,
+  clear: clearBurnPledges,
+  generateId: generateBurnPledgeId,
+};
@@ -0,0 +1,134 @@
+/**
+ * Vote Delegation Atoms Tests
+ *
+ * Tests for delegation state, scope resolution and name carry-over.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $delegations,
+  $receivedDelegations,
+  $globalDelegation,
+  $receivedDelegationCount,
+  setDelegations,
+  upsertDelegation,
+  removeDelegation,
+  getDelegationForScope,
+  resolveDelegation,
+  getDelegationsToMember,
+  getDelegationScopeLabel,
+  clearDelegations,
+  type Delegation,
+} from '@/stores';
+
+function makeDelegation(overrides: Partial<Delegation> = {}): Delegation {
+  return {
+    delegator: 'member-1',
+    delegate: 'delegate-a',
+    scope: 'global',
+    createdAt: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+describe('Vote Delegation Atoms', () => {
+  beforeEach(() => {
+    clearDelegations();
+  });
+
+  describe('upsertDelegation', () => {
+    it('should add a delegation', () => {
+      upsertDelegation(makeDelegation());
+
+      expect($delegations.get()).toHaveLength(1);
+      expect($globalDelegation.get()?.delegate).toBe('delegate-a');
+    });
+
+    it('should replace the existing delegation for the same scope', () => {
+      upsertDelegation(makeDelegation());
+      upsertDelegation(makeDelegation({ delegate: 'delegate-b' }));
+
+      expect($delegations.get()).toHaveLength(1);
+      expect(getDelegationForScope('global')?.delegate).toBe('delegate-b');
+    });
+
+    it('should keep delegations for different scopes side by side', () => {
+      upsertDelegation(makeDelegation());
+      upsertDelegation(makeDelegation({ scope: 'Housing', delegate: 'delegate-b' }));
+
+      expect($delegations.get()).toHaveLength(2);
+    });
+  });
+
+  describe('removeDelegation', () => {
+    it('should remove only the given scope', () => {
+      upsertDelegation(makeDelegation());
+      upsertDelegation(makeDelegation({ scope: 'Food' }));
+
+      removeDelegation('global');
+
+      expect($globalDelegation.get()).toBeNull();
+      expect(getDelegationForScope('Food')).not.toBeNull();
+    });
+  });
+
+  describe('resolveDelegation', () => {
+    const global = makeDelegation();
+    const housing = makeDelegation({ scope: 'Housing', delegate: 'housing-expert' });
+
+    it('should prefer a vertical delegation over the global one', () => {
+      expect(resolveDelegation([global, housing], 'Housing')).toBe(housing);
+    });
+
+    it('should fall back to the global delegation', () => {
+      expect(resolveDelegation([global, housing], 'Energy')).toBe(global);
+      expect(resolveDelegation([global, housing])).toBe(global);
+    });
+
+    it('should return null when nothing applies', () => {
+      expect(resolveDelegation([housing], 'Energy')).toBeNull();
+    });
+  });
+
+  describe('setDelegations', () => {
+    it('should carry over client-side delegate names', () => {
+      upsertDelegation(makeDelegation({ delegateName: 'Alice' }));
+
+      setDelegations({
+        given: [makeDelegation({ scope: 'Food' })],
+        received: [],
+      });
+
+      expect(getDelegationForScope('Food')?.delegateName).toBe('Alice');
+      expect(getDelegationForScope('global')).toBeNull();
+    });
+
+    it('should count distinct members delegating to the user', () => {
+      setDelegations({
+        given: [],
+        received: [
+          makeDelegation({ delegator: 'm1', delegate: 'me' }),
+          makeDelegation({ delegator: 'm1', delegate: 'me', scope: 'Food' }),
+          makeDelegation({ delegator: 'm2', delegate: 'me' }),
+        ],
+      });
+
+      expect($receivedDelegations.get()).toHaveLength(3);
+      expect($receivedDelegationCount.get()).toBe(2);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should list delegations to a given member', () => {
+      upsertDelegation(makeDelegation());
+      upsertDelegation(makeDelegation({ scope: 'Food', delegate: 'delegate-b' }));
+
+      expect(getDelegationsToMember('delegate-a')).toHaveLength(1);
+    });
+
+    it('should label scopes', () => {
+      expect(getDelegationScopeLabel('global')).toBe('All proposals');
+      expect(getDelegationScopeLabel('Housing')).toBe('Housing');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Vote Delegation State Management
+ *
+ * Nanostores atoms for liquid-democracy delegations. A member can delegate
+ * their vote globally or per proposal vertical; a vertical delegation takes
+ * precedence over the global one for proposals in that vertical.
+ *
+ * Delegations the member has made are persisted so the voting panel can
+ * show them offline; the canister remains the source of truth.
+ */
+
+import { atom, computed } from 'nanostores';
+import { persistentAtom } from '@nanostores/persistent';
+import type { Delegation, DelegationList, DelegationScope, ProposalVertical } from '../types';
+
+// Re-export types for convenience
+export type { Delegation, DelegationList, DelegationScope } from '../types';
+
+// Storage keys
+const DELEGATIONS_KEY = 'hwdao:delegations';
+
+/**
+ * Delegations made by the current member (persisted for offline access)
+ */
+export const $delegations = persistentAtom<Delegation[]>(DELEGATIONS_KEY, [], {
+  encode: JSON.stringify,
+  decode: JSON.parse,
+});
+
+/**
+ * Delegations other members have made to the current member
+ */
+export const $receivedDelegations = atom<Delegation[]>([]);
+
+/**
+ * Loading state while delegations are fetched or updated
+ */
+export const $delegationsLoading = atom<boolean>(false);
+
+/**
+ * Error message from the last failed delegation request
+ */
+export const $delegationsError = atom<string | null>(null);
+
+/**
+ * The member's global delegation, if any
+ */
+export const $globalDelegation = computed(
+  $delegations,
+  (delegations) => delegations.find((d) => d.scope === 'global') ?? null
+);
+
+/**
+ * Number of members currently delegating to the current member
+ */
+export const $receivedDelegationCount = computed(
+  $receivedDelegations,
+  (delegations) => new Set(delegations.map((d) => d.delegator)).size
+);
+
+/**
+ * Replace delegations with a fresh list from the canister.
+ * Display names picked up client-side are carried over.
+ */
+export function setDelegations(list: DelegationList): void {
+  const names = new Map(
+    $delegations
+      .get()
+      .filter((d) => d.delegateName)
+      .map((d) => [d.delegate, d.delegateName])
+  );
+
+  $delegations.set(
+    list.given.map((d) => ({
+      ...d,
+      delegateName: d.delegateName ?? names.get(d.delegate),
+    }))
+  );
+  $receivedDelegations.set(list.received);
+}
+
+/**
+ * Add or replace the delegation for a scope
+ */
+export function upsertDelegation(delegation: Delegation): void {
+  const rest = $delegations.get().filter((d) => d.scope !== delegation.scope);
+  $delegations.set([...rest, delegation]);
+}
+
+/**
+ * Remove the delegation for a scope
+ */
+export function removeDelegation(scope: DelegationScope): void {
+  $delegations.set($delegations.get().filter((d) => d.scope !== scope));
+}
+
+/**
+ * Get the delegation for an exact scope
+ */
+export function getDelegationForScope(scope: DelegationScope): Delegation | null {
+  return $delegations.get().find((d) => d.scope === scope) ?? null;
+}
+
+/**
+ * Resolve which delegation applies to a proposal.
+ * A vertical-specific delegation wins over the global one.
+ */
+export function resolveDelegation(
+  delegations: Delegation[],
+  vertical?: ProposalVertical
+): Delegation | null {
+  if (vertical) {
+    const verticalDelegation = delegations.find((d) => d.scope === vertical);
+    if (verticalDelegation) return verticalDelegation;
+  }
+  return delegations.find((d) => d.scope === 'global') ?? null;
+}
+
+/**
+ * Get all delegations the member has made to a given delegate
+ */
+export function getDelegationsToMember(principal: string): Delegation[] {
+  return $delegations.get().filter((d) => d.delegate === principal);
+}
+
+/**
+ * Human-readable label for a delegation scope
+ */
+export function getDelegationScopeLabel(scope: DelegationScope): string {
+  return scope === 'global' ? 'All proposals' : scope;
+}
+
+/**
+ * Set loading state
+ */
+export function setDelegationsLoading(loading: boolean): void {
+  $delegationsLoading.set(loading);
+}
+
+/**
+ * Set error state
+ */
+export function setDelegationsError(error: string | null): void {
+  $delegationsError.set(error);
+}
+
+/**
+ * Clear all delegation state (e.g., on logout)
+ */
+export function clearDelegations(): void {
+  $delegations.set([]);
+  $receivedDelegations.set([]);
+  $delegationsLoading.set(false);
+  $delegationsError.set(null);
+}
+
+/**
+ * Actions object for convenient access
+ */
+export const delegationActions = {
+  setDelegations,
+  upsertDelegation,
+  removeDelegation,
+  getDelegationForScope,
+  resolveDelegation,
+  getDelegationsToMember,
+  getDelegationScopeLabel,
+  setDelegationsLoading,
+  setDelegationsError,
+  clearDelegations,
+};
@@ -75,6 +75,7 @@ function migrateDraftSchema(draft: Partial<ProposalDraft>, id: string): Proposal
     updatedAt: draft.updatedAt ?? Date.now(),
     status: draft.status ?? 'drafting',
     editedSections: draft.editedSections ?? [],
+    ballotOptions: draft.ballotOptions,
     // New fields with defaults
     currentStep: draft.currentStep ?? 0,
     userPrincipal: draft.userPrincipal ?? '',
@@ -0,0 +1,425 @@
+/**
+ * Escrow Store Tests - Milestone Disputes, Release Actions and Proposal Funding
+ *
+ * Tests for dispute helpers, milestone patching, dispute change detection,
+ * the "Escrows I control" tab, optimistic approve/release actions and
+ * escrow drafts built from passed proposals.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $escrow,
+  $escrowDisputes,
+  $selectedEscrow,
+  $tabEscrows,
+  $escrowsByStatus,
+  $pendingEscrowActions,
+  clearEscrow,
+  setEscrowViewTab,
+  setUserEscrows,
+  setSelectedEscrow,
+  setMilestoneDispute,
+  updateEscrowMilestone,
+  getDisputeKey,
+  isEscrowReleaseAuthority,
+  isEscrowParticipant,
+  canDisputeMilestone,
+  validateDisputeLinks,
+  detectDisputeChanges,
+  canActAsReleaseAuthority,
+  applyReleaseAction,
+  applyOptimisticReleaseAction,
+  settleReleaseAction,
+  rollbackReleaseAction,
+  getReleaseActionKey,
+  $proposalEscrows,
+  addProposalEscrow,
+  parseTimelineDurationDays,
+  buildProposalEscrowDraft,
+  getProposalEscrowExpiry,
+  validateProposalEscrowDraft,
+  getProposalFundingProgress,
+  type Escrow,
+  type Milestone,
+  type MilestoneDispute,
+} from './escrow';
+
+const RECIPIENT = 'recipient-principal';
+const AUTHORITY = 'authority-principal';
+
+function createMockMilestone(overrides: Partial<Milestone> = {}): Milestone {
+  return {
+    name: 'Design',
+    description: 'Design mockups',
+    amount: BigInt(10000000000),
+    deadline: BigInt(Date.now() * 1_000_000),
+    status: 'Pending',
+    ...overrides,
+  };
+}
+
+function createMockEscrow(overrides: Partial<Escrow> = {}): Escrow {
+  return {
+    id: BigInt(1),
+    recipient: RECIPIENT,
+    amount: BigInt(20000000000),
+    released_amount: BigInt(0),
+    token_type: 'DOM',
+    conditions: 'Website redesign',
+    release_authority: { SpecificPrincipal: AUTHORITY },
+    status: 'Active',
+    created_at: BigInt(Date.now() * 1_000_000),
+    expiry: BigInt((Date.now() + 30 * 24 * 60 * 60 * 1000) * 1_000_000),
+    milestones: [createMockMilestone(), createMockMilestone({ name: 'Build' })],
+    ...overrides,
+  };
+}
+
+describe('Escrow Store - Disputes', () => {
+  beforeEach(() => {
+    clearEscrow();
+  });
+
+  describe('participants', () => {
+    it('should recognise the named release authority', () => {
+      const escrow = createMockEscrow();
+      expect(isEscrowReleaseAuthority(escrow, AUTHORITY)).toBe(true);
+      expect(isEscrowReleaseAuthority(escrow, RECIPIENT)).toBe(false);
+      const governed = createMockEscrow({ release_authority: { Governance: null } });
+      expect(isEscrowReleaseAuthority(governed, AUTHORITY)).toBe(false);
+    });
+
+    it('should treat the recipient and release authority as participants', () => {
+      const escrow = createMockEscrow();
+      expect(isEscrowParticipant(escrow, RECIPIENT)).toBe(true);
+      expect(isEscrowParticipant(escrow, AUTHORITY)).toBe(true);
+      expect(isEscrowParticipant(escrow, 'someone-else')).toBe(false);
+      expect(isEscrowParticipant(escrow, undefined)).toBe(false);
+    });
+  });
+
+  describe('canDisputeMilestone', () => {
+    it('should allow disputes on pending and approved milestones of active escrows', () => {
+      const escrow = createMockEscrow();
+      expect(canDisputeMilestone(escrow, createMockMilestone())).toBe(true);
+      expect(canDisputeMilestone(escrow, createMockMilestone({ status: 'Approved' }))).toBe(true);
+      expect(canDisputeMilestone(escrow, createMockMilestone({ status: 'Released' }))).toBe(false);
+      expect(canDisputeMilestone(escrow, createMockMilestone({ status: 'Disputed' }))).toBe(false);
+      expect(
+        canDisputeMilestone(createMockEscrow({ status: 'Expired' }), createMockMilestone())
+      ).toBe(false);
+    });
+  });
+
+  describe('validateDisputeLinks', () => {
+    it('should accept http(s) links', () => {
+      expect(validateDisputeLinks([])).toBeNull();
+      expect(validateDisputeLinks(['https://example.com/pr/1', 'http://example.org'])).toBeNull();
+    });
+
+    it('should reject invalid links, other protocols and too many links', () => {
+      expect(validateDisputeLinks(['not a url'])).toBe('Invalid link: not a url');
+      expect(validateDisputeLinks(['javascript:alert(1)'])).toContain('http:// or https://');
+      expect(validateDisputeLinks(Array(6).fill('https://example.com'))).toBe(
+        'Add at most 5 links'
+      );
+    });
+  });
+
+  describe('updateEscrowMilestone', () => {
+    it('should patch one milestone in the list and the selected escrow', () => {
+      const escrow = createMockEscrow();
+      setUserEscrows([escrow]);
+      setSelectedEscrow(escrow);
+
+      updateEscrowMilestone(BigInt(1), 1, { status: 'Disputed', dispute_reason: 'Incomplete' });
+
+      const milestones = $escrow.get().escrows[0].milestones;
+      expect(milestones[0].status).toBe('Pending');
+      expect(milestones[1].status).toBe('Disputed');
+      expect(milestones[1].dispute_reason).toBe('Incomplete');
+      expect($selectedEscrow.get()?.milestones[1].status).toBe('Disputed');
+    });
+  });
+
+  describe('setMilestoneDispute', () => {
+    it('should store disputes by escrow and milestone, and clear with the escrow state', () => {
+      const dispute: MilestoneDispute = {
+        escrow_id: BigInt(1),
+        milestone_index: 1,
+        status: 'Open',
+        opened_by: RECIPIENT,
+        opened_at: BigInt(1),
+        events: [],
+      };
+
+      setMilestoneDispute(dispute);
+      expect($escrowDisputes.get()[getDisputeKey(BigInt(1), 1)]).toEqual(dispute);
+
+      clearEscrow();
+      expect($escrowDisputes.get()).toEqual({});
+    });
+  });
+
+  describe('detectDisputeChanges', () => {
+    it('should report milestones that became disputed or were resolved', () => {
+      const before = [
+        createMockEscrow(),
+        createMockEscrow({
+          id: BigInt(2),
+          milestones: [createMockMilestone({ status: 'Disputed' })],
+        }),
+      ];
+      const after = [
+        createMockEscrow({
+          milestones: [createMockMilestone(), createMockMilestone({ status: 'Disputed' })],
+        }),
+        createMockEscrow({
+          id: BigInt(2),
+          milestones: [createMockMilestone({ status: 'Approved' })],
+        }),
+        createMockEscrow({
+          id: BigInt(3),
+          milestones: [createMockMilestone({ status: 'Disputed' })],
+        }),
+      ];
+
+      const changes = detectDisputeChanges(before, after);
+
+      expect(changes.map((c) => [c.escrow.id, c.milestoneIndex, c.change])).toEqual([
+        [BigInt(1), 1, 'opened'],
+        [BigInt(2), 0, 'resolved'],
+      ]);
+    });
+  });
+});
+
+describe('Escrow Store - Release Actions', () => {
+  beforeEach(() => {
+    clearEscrow();
+  });
+
+  describe('canActAsReleaseAuthority', () => {
+    it('should allow the named principal, or any member for governance escrows', () => {
+      const escrow = createMockEscrow();
+      expect(canActAsReleaseAuthority(escrow, AUTHORITY)).toBe(true);
+      expect(canActAsReleaseAuthority(escrow, RECIPIENT)).toBe(false);
+
+      const governed = createMockEscrow({ release_authority: { Governance: null } });
+      expect(canActAsReleaseAuthority(governed, RECIPIENT)).toBe(true);
+      expect(canActAsReleaseAuthority(governed, undefined)).toBe(false);
+
+      const controlled = createMockEscrow({ release_authority: { Controller: null } });
+      expect(canActAsReleaseAuthority(controlled, AUTHORITY)).toBe(false);
+    });
+  });
+
+  describe('tabs', () => {
+    it('should switch between received and controlled escrows and reset the filter', () => {
+      setUserEscrows(
+        [createMockEscrow()],
+        [
+          createMockEscrow({ id: BigInt(2) }),
+          createMockEscrow({ id: BigInt(3), status: 'Released' }),
+        ]
+      );
+      expect($tabEscrows.get().map((e) => e.id)).toEqual([BigInt(1)]);
+
+      setEscrowViewTab('controlled');
+
+      expect($tabEscrows.get().map((e) => e.id)).toEqual([BigInt(2), BigInt(3)]);
+      expect($escrowsByStatus.get().Released).toHaveLength(1);
+    });
+  });
+
+  describe('applyReleaseAction', () => {
+    const now = BigInt(5);
+
+    it('should approve a pending milestone without moving funds', () => {
+      const result = applyReleaseAction(createMockEscrow(), 'approve', 0, now);
+
+      expect(result.milestones[0].status).toBe('Approved');
+      expect(result.milestones[0].approved_at).toBe(now);
+      expect(result.released_amount).toBe(BigInt(0));
+    });
+
+    it('should release a milestone and close the escrow once all are released', () => {
+      const partly = applyReleaseAction(createMockEscrow(), 'release', 0, now);
+      expect(partly.released_amount).toBe(BigInt(10000000000));
+      expect(partly.status).toBe('Active');
+
+      const done = applyReleaseAction(partly, 'release', 1, now);
+      expect(done.released_amount).toBe(BigInt(20000000000));
+      expect(done.status).toBe('Released');
+    });
+
+    it('should release a simple escrow in full', () => {
+      const result = applyReleaseAction(createMockEscrow({ milestones: [] }), 'release', null);
+
+      expect(result.released_amount).toBe(BigInt(20000000000));
+      expect(result.status).toBe('Released');
+    });
+  });
+
+  describe('optimistic actions', () => {
+    it('should apply immediately, track the pending action and roll back', () => {
+      const escrow = createMockEscrow();
+      setUserEscrows([], [escrow]);
+      const key = getReleaseActionKey(BigInt(1), 0);
+
+      const previous = applyOptimisticReleaseAction(BigInt(1), 'approve', 0);
+
+      expect(previous).toEqual(escrow);
+      expect($escrow.get().controlledEscrows[0].milestones[0].status).toBe('Approved');
+      expect($pendingEscrowActions.get()[key]).toBe('approve');
+
+      rollbackReleaseAction(BigInt(1), 0, previous as Escrow);
+
+      expect($escrow.get().controlledEscrows[0].milestones[0].status).toBe('Pending');
+      expect($pendingEscrowActions.get()[key]).toBeUndefined();
+    });
+
+    it('should roll back only the affected milestone', () => {
+      const original = createMockEscrow();
+      setUserEscrows([], [original]);
+      const approved = applyOptimisticReleaseAction(BigInt(1), 'approve', 0) as Escrow;
+      const released = applyOptimisticReleaseAction(BigInt(1), 'release', 1) as Escrow;
+
+      rollbackReleaseAction(BigInt(1), 0, approved);
+
+      const escrow = $escrow.get().controlledEscrows[0];
+      expect(escrow.milestones[0].status).toBe('Pending');
+      expect(escrow.milestones[1].status).toBe('Released');
+      expect(escrow.released_amount).toBe(released.released_amount + released.milestones[1].amount);
+
+      rollbackReleaseAction(BigInt(1), 1, released);
+
+      expect($escrow.get().controlledEscrows[0]).toEqual(original);
+      expect($pendingEscrowActions.get()).toEqual({});
+    });
+
+    it('should settle with the canister copy', () => {
+      const original = createMockEscrow();
+      setUserEscrows([], [original]);
+      applyOptimisticReleaseAction(BigInt(1), 'approve', 0);
+      const fromCanister = applyReleaseAction(original, 'approve', 0, BigInt(5));
+
+      settleReleaseAction(BigInt(1), 0, fromCanister);
+
+      expect($escrow.get().controlledEscrows[0]).toEqual(fromCanister);
+      expect($pendingEscrowActions.get()).toEqual({});
+    });
+
+    it('should return null for unknown escrows', () => {
+      expect(applyOptimisticReleaseAction(BigInt(99), 'release', null)).toBeNull();
+      expect($pendingEscrowActions.get()).toEqual({});
+    });
+  });
+});
+
+describe('Escrow Store - Proposal Funding', () => {
+  const DAY_NANOS = BigInt(24 * 60 * 60 * 1000) * BigInt(1_000_000);
+  const START_MS = Date.UTC(2026, 0, 1);
+  const START_NANOS = BigInt(START_MS) * BigInt(1_000_000);
+
+  const output = {
+    budgetBreakdown: [
+      { category: 'Research', amount: 1500, description: 'Interviews' },
+      { category: 'Build', amount: 3500, description: 'Implementation' },
+    ],
+    timeline: [
+      { phase: 'Discovery', duration: '2 weeks', deliverables: ['Requirements'] },
+      { phase: 'Development', duration: '1-2 months', deliverables: ['App', 'Docs'] },
+    ],
+  };
+
+  beforeEach(() => {
+    clearEscrow();
+  });
+
+  describe('parseTimelineDurationDays', () => {
+    it('should convert durations to days, using the upper bound of ranges', () => {
+      expect(parseTimelineDurationDays('2 weeks')).toBe(14);
+      expect(parseTimelineDurationDays('3-4 months')).toBe(120);
+      expect(parseTimelineDurationDays('10 days')).toBe(10);
+      expect(parseTimelineDurationDays('Ongoing')).toBe(30);
+    });
+  });
+
+  describe('buildProposalEscrowDraft', () => {
+    it('should create one milestone per phase with matched budget amounts', () => {
+      const draft = buildProposalEscrowDraft('p-1', 'Clinic', output, RECIPIENT, START_MS);
+
+      expect(draft.release_authority).toEqual({ Governance: null });
+      expect(draft.proposal_id).toBe('p-1');
+      expect(draft.milestones.map((m) => m.name)).toEqual(['Discovery', 'Development']);
+      expect(draft.milestones.map((m) => m.amount)).toEqual([
+        BigInt('150000000000'),
+        BigInt('350000000000'),
+      ]);
+      expect(draft.milestones[0].description).toBe('Research: Requirements');
+      expect(draft.milestones[0].deadline).toBe(START_NANOS + DAY_NANOS * BigInt(14));
+      expect(draft.milestones[1].deadline).toBe(START_NANOS + DAY_NANOS * BigInt(74));
+      expect(getProposalEscrowExpiry(draft)).toBe(START_NANOS + DAY_NANOS * BigInt(104));
+    });
+
+    it('should split the total budget evenly when counts differ', () => {
+      const draft = buildProposalEscrowDraft(
+        'p-1',
+        'Clinic',
+        { ...output, budgetBreakdown: [{ category: 'All', amount: 1001, description: '' }] },
+        RECIPIENT,
+        START_MS
+      );
+
+      expect(draft.milestones.map((m) => m.amount)).toEqual([
+        BigInt('50000000000'),
+        BigInt('50100000000'),
+      ]);
+      expect(draft.milestones[1].description).toBe('App, Docs');
+    });
+  });
+
+  describe('validateProposalEscrowDraft', () => {
+    it('should require a recipient, amounts and ordered future deadlines', () => {
+      const draft = buildProposalEscrowDraft('p-1', 'Clinic', output, RECIPIENT, START_MS);
+      expect(validateProposalEscrowDraft(draft, START_MS)).toBeNull();
+
+      expect(validateProposalEscrowDraft({ ...draft, recipient: ' ' }, START_MS)).toBe(
+        'Enter the recipient principal'
+      );
+      expect(validateProposalEscrowDraft(draft, START_MS + 20 * 24 * 60 * 60 * 1000)).toBe(
+        'Discovery deadline must be in the future'
+      );
+      const reversed = { ...draft, milestones: [...draft.milestones].reverse() };
+      expect(validateProposalEscrowDraft(reversed, START_MS)).toContain('previous milestone');
+    });
+  });
+
+  describe('linked escrows', () => {
+    it('should track escrows by proposal and sum their progress', () => {
+      addProposalEscrow(
+        createMockEscrow({
+          proposal_id: 'p-1',
+          released_amount: BigInt(10000000000),
+          milestones: [createMockMilestone({ status: 'Released' }), createMockMilestone()],
+        })
+      );
+      addProposalEscrow(
+        createMockEscrow({ id: BigInt(2), proposal_id: 'p-1', status: 'Cancelled' })
+      );
+      addProposalEscrow(createMockEscrow({ id: BigInt(3) }));
+
+      const linked = $proposalEscrows.get()['p-1'];
+      expect(linked.map((e) => e.id)).toEqual([BigInt(1), BigInt(2)]);
+
+      expect(getProposalFundingProgress(linked)).toEqual({
+        funded: BigInt(20000000000),
+        released: BigInt(10000000000),
+        milestonesReleased: 1,
+        milestonesTotal: 2,
+        percentage: 50,
+      });
+    });
+  });
+});
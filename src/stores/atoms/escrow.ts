@@ -6,10 +6,23 @@
  *
  * Story: 9-2-4-escrow-view
  * ACs: 1, 2, 3, 4
+ *
+ * Milestone disputes: recipients and release authorities can dispute a
+ * milestone, respond to each other and resolve it. Each dispute keeps a
+ * timeline of every step.
+ *
+ * Release authorities see the escrows they control and can approve
+ * milestones and release funds. Those actions are applied optimistically
+ * and rolled back if the canister call fails.
+ *
+ * Proposal funding: a passed proposal's timeline and budget are turned into
+ * a governance-released escrow draft, and escrows linked to a proposal are
+ * tracked by proposal ID.
  */
 
 import { atom, computed } from 'nanostores';
 import { formatTokenAmount, TOKEN_DECIMALS } from './tokenBalance';
+import type { ThinkTankOutput } from '../types';
 
 // ============================================================================
 // Types
@@ -88,6 +101,56 @@ export interface Escrow {
   expiry: bigint;
   /** Milestones (empty for simple escrows) */
   milestones: Milestone[];
+  /** Proposal this escrow funds, if any */
+  proposal_id?: string;
+}
+
+/**
+ * Milestone of an escrow that has not been created yet
+ */
+export interface EscrowMilestoneDraft {
+  /** Milestone name/title */
+  name: string;
+  /** Milestone description */
+  description: string;
+  /** Amount for this milestone (in e8s) */
+  amount: bigint;
+  /** Deadline timestamp in nanoseconds */
+  deadline: bigint;
+}
+
+/**
+ * Escrow pre-filled from a passed proposal, edited before creation
+ */
+export interface ProposalEscrowDraft {
+  /** Proposal the escrow funds */
+  proposal_id: string;
+  /** Recipient principal */
+  recipient: string;
+  /** Token type (ICP or DOM) */
+  token_type: TokenType;
+  /** Escrow conditions/description */
+  conditions: string;
+  /** Release authority (always governance for proposal funding) */
+  release_authority: ReleaseAuthority;
+  /** One milestone per proposal timeline phase */
+  milestones: EscrowMilestoneDraft[];
+}
+
+/**
+ * Funding progress across the escrows linked to a proposal
+ */
+export interface ProposalFundingProgress {
+  /** Total amount escrowed (in e8s) */
+  funded: bigint;
+  /** Amount released to recipients (in e8s) */
+  released: bigint;
+  /** Released milestones */
+  milestonesReleased: number;
+  /** Total milestones */
+  milestonesTotal: number;
+  /** Released share of the funded amount, 0-100 */
+  percentage: number;
 }
 
 /**
@@ -96,6 +159,8 @@ export interface Escrow {
 export interface EscrowState {
   /** User's escrows list */
   escrows: Escrow[];
+  /** Escrows the user can approve and release as release authority */
+  controlledEscrows: Escrow[];
   /** Last successful fetch timestamp */
   lastUpdated: number | null;
   /** Loading state */
@@ -109,6 +174,90 @@ export interface EscrowState {
  */
 export type EscrowStatusFilter = EscrowStatus | 'All';
 
+/**
+ * Escrow list tab: escrows the user receives, or escrows they control
+ */
+export type EscrowViewTab = 'mine' | 'controlled';
+
+/**
+ * Release authority action on an escrow
+ * - approve: approve a pending milestone
+ * - release: release an approved milestone, or the whole of a simple escrow
+ */
+export type EscrowReleaseAction = 'approve' | 'release';
+
+/**
+ * Dispute status (from treasury canister)
+ */
+export type DisputeStatus = 'Open' | 'Resolved';
+
+/**
+ * How a dispute was resolved (from treasury canister)
+ * - Approve: milestone is approved for release
+ * - Cancel: milestone is cancelled and its funds stay in the treasury
+ * - Reopen: milestone goes back to pending for rework
+ */
+export type DisputeOutcome = 'Approve' | 'Cancel' | 'Reopen';
+
+/**
+ * Kind of entry on a dispute timeline
+ */
+export type DisputeEventKind = 'Opened' | 'Response' | 'Resolved';
+
+/**
+ * Dispute timeline entry (from treasury canister)
+ */
+export interface DisputeEvent {
+  /** Entry kind */
+  kind: DisputeEventKind;
+  /** Principal of the author */
+  author: string;
+  /** Written rationale or response */
+  message: string;
+  /** Supporting links */
+  links: string[];
+  /** Timestamp in nanoseconds */
+  created_at: bigint;
+  /** Outcome for Resolved entries */
+  outcome?: DisputeOutcome;
+}
+
+/**
+ * Dispute on an escrow milestone (from treasury canister)
+ */
+export interface MilestoneDispute {
+  /** Escrow ID */
+  escrow_id: bigint;
+  /** Index of the disputed milestone */
+  milestone_index: number;
+  /** Dispute status */
+  status: DisputeStatus;
+  /** Principal who opened the dispute */
+  opened_by: string;
+  /** Opened timestamp in nanoseconds */
+  opened_at: bigint;
+  /** Timeline, oldest first */
+  events: DisputeEvent[];
+  /** Outcome once resolved */
+  outcome?: DisputeOutcome;
+  /** Resolved timestamp in nanoseconds */
+  resolved_at?: bigint;
+}
+
+/**
+ * Milestone dispute change seen between two escrow fetches
+ */
+export interface DisputeChange {
+  /** Escrow the milestone belongs to */
+  escrow: Escrow;
+  /** Milestone index */
+  milestoneIndex: number;
+  /** Milestone after the change */
+  milestone: Milestone;
+  /** Whether the dispute was opened or resolved */
+  change: 'opened' | 'resolved';
+}
+
 // ============================================================================
 // Configuration
 // ============================================================================
@@ -116,9 +265,38 @@ export type EscrowStatusFilter = EscrowStatus | 'All';
 /** Stale threshold for escrow data (2 minutes) */
 export const ESCROW_STALE_THRESHOLD_MS = 2 * 60 * 1000;
 
+/** Maximum supporting links per dispute entry */
+export const MAX_DISPUTE_LINKS = 5;
+
+/** Maximum length of a dispute rationale or response */
+export const MAX_DISPUTE_MESSAGE_LENGTH = 2000;
+
+/** Milestone status after each dispute outcome */
+export const DISPUTE_OUTCOME_STATUS: Record<DisputeOutcome, MilestoneStatus> = {
+  Approve: 'Approved',
+  Cancel: 'Cancelled',
+  Reopen: 'Pending',
+};
+
+/** Deadline used for timeline phases whose duration can't be parsed */
+export const DEFAULT_PHASE_DURATION_DAYS = 30;
+
+/** Time after the last milestone deadline before a proposal escrow expires */
+export const PROPOSAL_ESCROW_EXPIRY_GRACE_DAYS = 30;
+
+/** Days per unit in timeline durations such as "2 weeks" or "3-4 months" */
+const DURATION_UNIT_DAYS: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  quarter: 91,
+  year: 365,
+};
+
 /** Initial escrow state */
 const INITIAL_ESCROW_STATE: EscrowState = {
   escrows: [],
+  controlledEscrows: [],
   lastUpdated: null,
   isLoading: false,
   error: null,
@@ -143,6 +321,26 @@ export const $selectedEscrow = atom<Escrow | null>(null);
  */
 export const $escrowStatusFilter = atom<EscrowStatusFilter>('All');
 
+/**
+ * Loaded milestone disputes, keyed by getDisputeKey()
+ */
+export const $escrowDisputes = atom<Record<string, MilestoneDispute>>({});
+
+/**
+ * Current escrow list tab
+ */
+export const $escrowViewTab = atom<EscrowViewTab>('mine');
+
+/**
+ * In-flight release authority actions, keyed by getReleaseActionKey()
+ */
+export const $pendingEscrowActions = atom<Record<string, EscrowReleaseAction>>({});
+
+/**
+ * Escrows linked to each proposal, keyed by proposal ID
+ */
+export const $proposalEscrows = atom<Record<string, Escrow[]>>({});
+
 // ============================================================================
 // Computed Atoms
 // ============================================================================
@@ -219,30 +417,42 @@ export const $formattedTotalReleased = computed($totalReleasedAmount, (total) =>
   formatTokenAmount(total, TOKEN_DECIMALS)
 );
 
+/**
+ * Escrows the user controls as release authority
+ */
+export const $controlledEscrows = computed($escrow, (state) => state.controlledEscrows);
+
+/**
+ * Escrows on the current tab
+ */
+export const $tabEscrows = computed([$escrow, $escrowViewTab], (state, tab) =>
+  tab === 'controlled' ? state.controlledEscrows : state.escrows
+);
+
 /**
  * Filtered escrows based on status filter
  */
 export const $filteredEscrows = computed(
-  [$escrow, $escrowStatusFilter],
-  (state, filter) => {
+  [$tabEscrows, $escrowStatusFilter],
+  (escrows, filter) => {
     if (filter === 'All') {
-      return state.escrows;
+      return escrows;
     }
-    return state.escrows.filter((e: Escrow) => e.status === filter);
+    return escrows.filter((e: Escrow) => e.status === filter);
   }
 );
 
 /**
- * Escrows grouped by status for summary
+ * Escrows on the current tab grouped by status for summary
  */
-export const $escrowsByStatus = computed($escrow, (state) => {
+export const $escrowsByStatus = computed($tabEscrows, (escrows) => {
   const grouped: Record<EscrowStatus, Escrow[]> = {
     Active: [],
     Released: [],
     Cancelled: [],
     Expired: [],
   };
-  state.escrows.forEach((e) => {
+  escrows.forEach((e) => {
     grouped[e.status].push(e);
   });
   return grouped;
@@ -278,10 +488,12 @@ export function setEscrowLoading(isLoading: boolean): void {
 /**
  * Set user's escrows after successful fetch
  * @param escrows - Escrows where user is recipient
+ * @param controlledEscrows - Escrows the user controls as release authority
  */
-export function setUserEscrows(escrows: Escrow[]): void {
+export function setUserEscrows(escrows: Escrow[], controlledEscrows: Escrow[] = []): void {
   $escrow.set({
     escrows,
+    controlledEscrows,
     lastUpdated: Date.now(),
     isLoading: false,
     error: null,
@@ -308,6 +520,10 @@ export function clearEscrow(): void {
   $escrow.set({ ...INITIAL_ESCROW_STATE });
   $selectedEscrow.set(null);
   $escrowStatusFilter.set('All');
+  $escrowDisputes.set({});
+  $escrowViewTab.set('mine');
+  $pendingEscrowActions.set({});
+  $proposalEscrows.set({});
 }
 
 /**
@@ -326,6 +542,15 @@ export function setEscrowStatusFilter(filter: EscrowStatusFilter): void {
   $escrowStatusFilter.set(filter);
 }
 
+/**
+ * Switch the escrow list tab (resets the status filter)
+ * @param tab - Tab to show
+ */
+export function setEscrowViewTab(tab: EscrowViewTab): void {
+  $escrowViewTab.set(tab);
+  $escrowStatusFilter.set('All');
+}
+
 /**
  * Check if escrow data is stale
  * @param thresholdMs - Stale threshold in milliseconds
@@ -336,6 +561,254 @@ export function isEscrowStale(thresholdMs: number = ESCROW_STALE_THRESHOLD_MS):
   return Date.now() - state.lastUpdated > thresholdMs;
 }
 
+// ============================================================================
+// Actions - Disputes
+// ============================================================================
+
+/**
+ * Store key for a milestone dispute
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ */
+export function getDisputeKey(escrowId: bigint, milestoneIndex: number): string {
+  return `${escrowId.toString()}:${milestoneIndex}`;
+}
+
+/**
+ * Store a loaded or updated dispute
+ * @param dispute - Dispute from the canister
+ */
+export function setMilestoneDispute(dispute: MilestoneDispute): void {
+  $escrowDisputes.set({
+    ...$escrowDisputes.get(),
+    [getDisputeKey(dispute.escrow_id, dispute.milestone_index)]: dispute,
+  });
+}
+
+/**
+ * Patch one milestone of an escrow (e.g., after a dispute is opened or resolved)
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index
+ * @param patch - Fields to update
+ */
+export function updateEscrowMilestone(
+  escrowId: bigint,
+  milestoneIndex: number,
+  patch: Partial<Milestone>
+): void {
+  mapEscrowById(escrowId, (escrow) => ({
+    ...escrow,
+    milestones: escrow.milestones.map((m, i) => (i === milestoneIndex ? { ...m, ...patch } : m)),
+  }));
+}
+
+// ============================================================================
+// Actions - Release Authority
+// ============================================================================
+
+/**
+ * Apply an update to one escrow in both lists and the selection
+ */
+function mapEscrowById(escrowId: bigint, update: (escrow: Escrow) => Escrow): void {
+  const apply = (escrow: Escrow): Escrow => (escrow.id === escrowId ? update(escrow) : escrow);
+
+  const current = $escrow.get();
+  $escrow.set({
+    ...current,
+    escrows: current.escrows.map(apply),
+    controlledEscrows: current.controlledEscrows.map(apply),
+  });
+
+  const selected = $selectedEscrow.get();
+  if (selected) {
+    $selectedEscrow.set(apply(selected));
+  }
+}
+
+/**
+ * Find an escrow in either list
+ * @param escrowId - Escrow ID
+ */
+export function findEscrow(escrowId: bigint): Escrow | undefined {
+  const state = $escrow.get();
+  return (
+    state.escrows.find((e) => e.id === escrowId) ??
+    state.controlledEscrows.find((e) => e.id === escrowId)
+  );
+}
+
+/**
+ * Replace an escrow with the canister's copy
+ * @param escrow - Escrow to store
+ */
+export function replaceEscrow(escrow: Escrow): void {
+  mapEscrowById(escrow.id, () => escrow);
+}
+
+/**
+ * Store key for a release authority action
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index, or null for a simple escrow
+ */
+export function getReleaseActionKey(escrowId: bigint, milestoneIndex: number | null): string {
+  return `${escrowId.toString()}:${milestoneIndex ?? 'all'}`;
+}
+
+/**
+ * Escrow as it will look once an approve/release succeeds
+ * @param escrow - Escrow before the action
+ * @param action - Action being taken
+ * @param milestoneIndex - Milestone index, or null for a simple escrow
+ * @param nowNanos - Action timestamp in nanoseconds
+ */
+export function applyReleaseAction(
+  escrow: Escrow,
+  action: EscrowReleaseAction,
+  milestoneIndex: number | null,
+  nowNanos: bigint = BigInt(Date.now()) * BigInt(1_000_000)
+): Escrow {
+  if (milestoneIndex === null) {
+    return action === 'release'
+      ? { ...escrow, released_amount: escrow.amount, status: 'Released' }
+      : escrow;
+  }
+
+  const milestone = escrow.milestones[milestoneIndex];
+  if (!milestone) return escrow;
+
+  if (action === 'approve') {
+    const milestones = escrow.milestones.map((m, i) =>
+      i === milestoneIndex ? { ...m, status: 'Approved' as const, approved_at: nowNanos } : m
+    );
+    return { ...escrow, milestones };
+  }
+
+  const milestones = escrow.milestones.map((m, i) =>
+    i === milestoneIndex ? { ...m, status: 'Released' as const, released_at: nowNanos } : m
+  );
+  const allSettled = milestones.every((m) => m.status === 'Released' || m.status === 'Cancelled');
+  return {
+    ...escrow,
+    milestones,
+    released_amount: escrow.released_amount + milestone.amount,
+    status: allSettled ? 'Released' : escrow.status,
+  };
+}
+
+/**
+ * Undo an optimistic approve/release on the current escrow, restoring only
+ * the affected milestone (and the amounts it changed) from the snapshot
+ * @param escrow - Current escrow, possibly updated since the action started
+ * @param previous - Snapshot taken before the action
+ * @param milestoneIndex - Milestone index, or null for a simple escrow
+ */
+export function revertReleaseAction(
+  escrow: Escrow,
+  previous: Escrow,
+  milestoneIndex: number | null
+): Escrow {
+  if (milestoneIndex === null) {
+    return { ...escrow, released_amount: previous.released_amount, status: previous.status };
+  }
+
+  const before = previous.milestones[milestoneIndex];
+  const current = escrow.milestones[milestoneIndex];
+  if (!before || !current) return escrow;
+
+  const undoRelease = current.status === 'Released' && before.status !== 'Released';
+  return {
+    ...escrow,
+    milestones: escrow.milestones.map((m, i) => (i === milestoneIndex ? before : m)),
+    released_amount: undoRelease ? escrow.released_amount - before.amount : escrow.released_amount,
+    status: undoRelease && escrow.status === 'Released' ? previous.status : escrow.status,
+  };
+}
+
+/**
+ * Optimistically apply an approve/release action
+ * @param escrowId - Escrow ID
+ * @param action - Action being taken
+ * @param milestoneIndex - Milestone index, or null for a simple escrow
+ * @returns Snapshot of the escrow before the change, for rollback (null if not found)
+ */
+export function applyOptimisticReleaseAction(
+  escrowId: bigint,
+  action: EscrowReleaseAction,
+  milestoneIndex: number | null
+): Escrow | null {
+  const previous = findEscrow(escrowId);
+  if (!previous) return null;
+
+  replaceEscrow(applyReleaseAction(previous, action, milestoneIndex));
+  $pendingEscrowActions.set({
+    ...$pendingEscrowActions.get(),
+    [getReleaseActionKey(escrowId, milestoneIndex)]: action,
+  });
+  return previous;
+}
+
+/**
+ * Stop tracking a pending approve/release action
+ */
+function clearPendingReleaseAction(escrowId: bigint, milestoneIndex: number | null): void {
+  const { [getReleaseActionKey(escrowId, milestoneIndex)]: _settled, ...rest } =
+    $pendingEscrowActions.get();
+  $pendingEscrowActions.set(rest);
+}
+
+/**
+ * Finish an optimistic action with the canister's copy of the escrow
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index, or null for a simple escrow
+ * @param escrow - Canister's escrow
+ */
+export function settleReleaseAction(
+  escrowId: bigint,
+  milestoneIndex: number | null,
+  escrow: Escrow
+): void {
+  replaceEscrow(escrow);
+  clearPendingReleaseAction(escrowId, milestoneIndex);
+}
+
+/**
+ * Roll back a failed optimistic action. Only the affected milestone is
+ * restored, so other changes made to the escrow meanwhile are kept.
+ * @param escrowId - Escrow ID
+ * @param milestoneIndex - Milestone index, or null for a simple escrow
+ * @param previous - Snapshot returned by applyOptimisticReleaseAction
+ */
+export function rollbackReleaseAction(
+  escrowId: bigint,
+  milestoneIndex: number | null,
+  previous: Escrow
+): void {
+  mapEscrowById(escrowId, (escrow) => revertReleaseAction(escrow, previous, milestoneIndex));
+  clearPendingReleaseAction(escrowId, milestoneIndex);
+}
+
+/**
+ * Set the escrows linked to a proposal
+ * @param proposalId - Proposal ID
+ * @param escrows - Linked escrows
+ */
+export function setProposalEscrows(proposalId: string, escrows: Escrow[]): void {
+  $proposalEscrows.set({ ...$proposalEscrows.get(), [proposalId]: escrows });
+}
+
+/**
+ * Add a newly created escrow to its proposal's linked escrows
+ * @param escrow - Escrow with proposal_id set
+ */
+export function addProposalEscrow(escrow: Escrow): void {
+  if (!escrow.proposal_id) return;
+  const linked = $proposalEscrows.get()[escrow.proposal_id] ?? [];
+  setProposalEscrows(escrow.proposal_id, [
+    ...linked.filter((e) => e.id !== escrow.id),
+    escrow,
+  ]);
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -380,6 +853,137 @@ export function getRemainingAmount(escrow: Escrow): bigint {
   return escrow.amount - escrow.released_amount;
 }
 
+/**
+ * Convert a proposal timeline duration to days, e.g. "2 weeks" → 14.
+ * Ranges use the upper bound ("3-4 months" → 120).
+ * @param duration - Duration text from a TimelineItem
+ * @returns Days, or DEFAULT_PHASE_DURATION_DAYS if the text can't be parsed
+ */
+export function parseTimelineDurationDays(duration: string): number {
+  const match = duration
+    .toLowerCase()
+    .match(/(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*(day|week|month|quarter|year)s?/);
+  if (!match) return DEFAULT_PHASE_DURATION_DAYS;
+
+  const count = Number(match[2] ?? match[1]);
+  return Math.max(1, Math.ceil(count * DURATION_UNIT_DAYS[match[3]]));
+}
+
+/**
+ * Build an escrow draft from a passed proposal: one milestone per timeline
+ * phase with cumulative deadlines. Budget items are matched to phases by
+ * position when the counts line up; otherwise the total budget is split
+ * evenly across phases. Budget amounts are whole tokens.
+ * @param proposalId - Proposal ID
+ * @param title - Proposal title, used as the escrow conditions
+ * @param output - Proposal content
+ * @param recipient - Recipient principal (may be empty for the user to fill in)
+ * @param startMs - Start of the first phase in milliseconds
+ */
+export function buildProposalEscrowDraft(
+  proposalId: string,
+  title: string,
+  output: Pick<ThinkTankOutput, 'budgetBreakdown' | 'timeline'>,
+  recipient: string,
+  startMs: number = Date.now()
+): ProposalEscrowDraft {
+  const unit = BigInt(10 ** TOKEN_DECIMALS);
+  const phases = output.timeline;
+  const budget = output.budgetBreakdown;
+  const matched = budget.length === phases.length;
+  const total = budget.reduce((sum, item) => sum + BigInt(Math.round(item.amount)), BigInt(0));
+  const share = phases.length > 0 ? total / BigInt(phases.length) : BigInt(0);
+
+  let elapsedDays = 0;
+  const milestones = phases.map((phase, i): EscrowMilestoneDraft => {
+    elapsedDays += parseTimelineDurationDays(phase.duration);
+    const deadlineMs = startMs + elapsedDays * 24 * 60 * 60 * 1000;
+    const isLast = i === phases.length - 1;
+    const wholeTokens = matched
+      ? BigInt(Math.round(budget[i].amount))
+      : isLast
+        ? total - share * BigInt(phases.length - 1)
+        : share;
+    const deliverables = phase.deliverables.join(', ');
+
+    return {
+      name: phase.phase,
+      description: matched ? `${budget[i].category}: ${deliverables}` : deliverables,
+      amount: wholeTokens * unit,
+      deadline: BigInt(deadlineMs) * BigInt(1_000_000),
+    };
+  });
+
+  return {
+    proposal_id: proposalId,
+    recipient,
+    token_type: 'DOM',
+    conditions: title,
+    release_authority: { Governance: null },
+    milestones,
+  };
+}
+
+/**
+ * Escrow expiry for a draft: the last milestone deadline plus a grace period
+ * @param draft - Escrow draft
+ * @returns Expiry timestamp in nanoseconds
+ */
+export function getProposalEscrowExpiry(draft: ProposalEscrowDraft): bigint {
+  const lastDeadline = draft.milestones.reduce(
+    (latest, m) => (m.deadline > latest ? m.deadline : latest),
+    BigInt(0)
+  );
+  const grace = BigInt(PROPOSAL_ESCROW_EXPIRY_GRACE_DAYS * 24 * 60 * 60 * 1000) * BigInt(1_000_000);
+  return lastDeadline + grace;
+}
+
+/**
+ * Validate an escrow draft before creation
+ * @param draft - Escrow draft
+ * @param nowMs - Current time in milliseconds
+ * @returns Error message, or null when valid
+ */
+export function validateProposalEscrowDraft(
+  draft: ProposalEscrowDraft,
+  nowMs: number = Date.now()
+): string | null {
+  if (!draft.recipient.trim()) return 'Enter the recipient principal';
+  if (draft.milestones.length === 0) return 'The proposal has no timeline to build milestones from';
+
+  const now = BigInt(nowMs) * BigInt(1_000_000);
+  for (const milestone of draft.milestones) {
+    if (milestone.amount <= BigInt(0)) return `${milestone.name} needs an amount`;
+    if (milestone.deadline <= now) return `${milestone.name} deadline must be in the future`;
+  }
+  for (let i = 1; i < draft.milestones.length; i++) {
+    if (draft.milestones[i].deadline < draft.milestones[i - 1].deadline) {
+      return `${draft.milestones[i].name} deadline must not be before the previous milestone`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Sum funding and milestone progress across a proposal's escrows.
+ * Cancelled and expired escrows are excluded.
+ * @param escrows - Escrows linked to the proposal
+ */
+export function getProposalFundingProgress(escrows: Escrow[]): ProposalFundingProgress {
+  const live = escrows.filter((e) => e.status === 'Active' || e.status === 'Released');
+  const funded = live.reduce((sum, e) => sum + e.amount, BigInt(0));
+  const released = live.reduce((sum, e) => sum + e.released_amount, BigInt(0));
+  const milestones = live.flatMap((e) => e.milestones);
+
+  return {
+    funded,
+    released,
+    milestonesReleased: milestones.filter((m) => m.status === 'Released').length,
+    milestonesTotal: milestones.length,
+    percentage: funded > BigInt(0) ? Number((released * BigInt(100)) / funded) : 0,
+  };
+}
+
 /**
  * Format escrow amount with token type
  * @param amount - Amount in e8s
@@ -468,6 +1072,114 @@ export function getMilestoneStatusColor(status: MilestoneStatus): string {
   }
 }
 
+/**
+ * Check whether a principal is the escrow's named release authority.
+ * Controller and Governance authorities are enforced by the canister.
+ * @param escrow - Escrow to check
+ * @param principal - Principal to check
+ */
+export function isEscrowReleaseAuthority(
+  escrow: Escrow,
+  principal: string | null | undefined
+): boolean {
+  return (
+    !!principal &&
+    'SpecificPrincipal' in escrow.release_authority &&
+    escrow.release_authority.SpecificPrincipal === principal
+  );
+}
+
+/**
+ * Check whether a principal can approve milestones and release funds:
+ * the named release authority, or any member for governance-controlled
+ * escrows (the canister checks governance approval)
+ * @param escrow - Escrow to check
+ * @param principal - Principal to check
+ */
+export function canActAsReleaseAuthority(
+  escrow: Escrow,
+  principal: string | null | undefined
+): boolean {
+  if (!principal) return false;
+  return 'Governance' in escrow.release_authority || isEscrowReleaseAuthority(escrow, principal);
+}
+
+/**
+ * Check whether a principal can take part in disputes on an escrow
+ * (the recipient or the named release authority)
+ * @param escrow - Escrow to check
+ * @param principal - Principal to check
+ */
+export function isEscrowParticipant(
+  escrow: Escrow,
+  principal: string | null | undefined
+): boolean {
+  return (
+    (!!principal && escrow.recipient === principal) || isEscrowReleaseAuthority(escrow, principal)
+  );
+}
+
+/**
+ * Check whether a milestone can be disputed
+ * @param escrow - Escrow the milestone belongs to
+ * @param milestone - Milestone to check
+ */
+export function canDisputeMilestone(escrow: Escrow, milestone: Milestone): boolean {
+  return (
+    escrow.status === 'Active' &&
+    (milestone.status === 'Pending' || milestone.status === 'Approved')
+  );
+}
+
+/**
+ * Validate supporting links for a dispute entry
+ * @param links - Links entered by the user
+ * @returns Error message or null if valid
+ */
+export function validateDisputeLinks(links: string[]): string | null {
+  if (links.length > MAX_DISPUTE_LINKS) {
+    return `Add at most ${MAX_DISPUTE_LINKS} links`;
+  }
+  for (const link of links) {
+    try {
+      const url = new URL(link);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return `Links must start with http:// or https:// (${link})`;
+      }
+    } catch {
+      return `Invalid link: ${link}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find milestones whose dispute was opened or resolved between two fetches
+ * @param previous - Escrows before the fetch
+ * @param next - Escrows after the fetch
+ */
+export function detectDisputeChanges(previous: Escrow[], next: Escrow[]): DisputeChange[] {
+  const previousById = new Map(previous.map((e) => [e.id, e]));
+  const changes: DisputeChange[] = [];
+
+  for (const escrow of next) {
+    const before = previousById.get(escrow.id);
+    if (!before) continue;
+
+    escrow.milestones.forEach((milestone, index) => {
+      const wasDisputed = before.milestones[index]?.status === 'Disputed';
+      const isDisputed = milestone.status === 'Disputed';
+      if (!wasDisputed && isDisputed) {
+        changes.push({ escrow, milestoneIndex: index, milestone, change: 'opened' });
+      } else if (wasDisputed && !isDisputed) {
+        changes.push({ escrow, milestoneIndex: index, milestone, change: 'resolved' });
+      }
+    });
+  }
+
+  return changes;
+}
+
 // ============================================================================
 // Export Actions Object
 // ============================================================================
@@ -480,4 +1192,13 @@ export const escrowActions = {
   setSelected: setSelectedEscrow,
   setFilter: setEscrowStatusFilter,
   isStale: isEscrowStale,
+  setDispute: setMilestoneDispute,
+  updateMilestone: updateEscrowMilestone,
+  setTab: setEscrowViewTab,
+  replace: replaceEscrow,
+  applyOptimisticRelease: applyOptimisticReleaseAction,
+  settleRelease: settleReleaseAction,
+  rollbackRelease: rollbackReleaseAction,
+  setProposalEscrows,
+  addProposalEscrow,
 };
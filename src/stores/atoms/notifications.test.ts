@@ -23,6 +23,12 @@ import {
   createVoteResultNotification,
   createNewProposalNotification,
   createVotingDeadlineNotification,
+  createMentionNotification,
+  createEscrowDisputeNotification,
+  createBurnPledgeMissedNotification,
+  createProposalStatusChangedNotification,
+  createQuorumReachedNotification,
+  createNewCommentNotification,
   DEFAULT_PREFERENCES,
   MAX_NOTIFICATIONS,
   MAX_NOTIFICATIONS_PER_TYPE_PER_HOUR,
@@ -256,6 +262,100 @@ describe('Notifications State', () => {
       expect(notification?.message).toContain('1 hour');
       expect(notification?.metadata.proposalId).toBe('prop-4');
     });
+
+    it('createMentionNotification should create correct notification', () => {
+      const notification = createMentionNotification('prop-5', 'Garden', 'Alice', 'c-1');
+
+      expect(notification?.type).toBe('mention');
+      expect(notification?.message).toBe('Alice mentioned you on "Garden"');
+      expect(notification?.metadata.commentId).toBe('c-1');
+    });
+
+    it('createMentionNotification should allow separate comments on one proposal', () => {
+      createMentionNotification('prop-5', 'Garden', 'Alice', 'c-1');
+      const second = createMentionNotification('prop-5', 'Garden', 'Bob', 'c-2');
+
+      expect(second).not.toBeNull();
+    });
+
+    it('createMentionNotification should respect the mentions preference', () => {
+      updateNotificationPreferences({ mentions: false });
+
+      expect(createMentionNotification('prop-5', 'Garden', 'Alice', 'c-1')).toBeNull();
+    });
+
+    it('createEscrowDisputeNotification should create one notification per dispute step', () => {
+      const opened = createEscrowDisputeNotification('7', 'Design', 'opened');
+      const resolved = createEscrowDisputeNotification('7', 'Design', 'resolved');
+
+      expect(opened?.type).toBe('escrow_dispute');
+      expect(opened?.message).toBe('Dispute opened on milestone "Design" (escrow #7)');
+      expect(opened?.metadata.escrowId).toBe('7');
+      expect(resolved).not.toBeNull();
+      expect(createEscrowDisputeNotification('7', 'Design', 'opened')).toBeNull();
+    });
+
+    it('createEscrowDisputeNotification should respect the escrow disputes preference', () => {
+      updateNotificationPreferences({ escrow_disputes: false });
+
+      expect(createEscrowDisputeNotification('7', 'Design', 'opened')).toBeNull();
+    });
+
+    it('createBurnPledgeMissedNotification should name the pledge and missed periods', () => {
+      const notification = createBurnPledgeMissedNotification('pledge-1', 'Monthly', '5.00', 2);
+
+      expect(notification?.type).toBe('burn_pledge_missed');
+      expect(notification?.message).toBe(
+        'You missed your monthly burn pledge of 5.00 DOM (2 periods)'
+      );
+      expect(notification?.metadata.pledgeId).toBe('pledge-1');
+    });
+
+    it('createBurnPledgeMissedNotification should respect the burn pledges preference', () => {
+      updateNotificationPreferences({ burn_pledges: false });
+
+      expect(createBurnPledgeMissedNotification('pledge-1', 'Monthly', '5.00', 1)).toBeNull();
+    });
+
+    it('createProposalStatusChangedNotification should create one notification per status', () => {
+      const active = createProposalStatusChangedNotification(
+        'prop-1',
+        'Garden',
+        'active',
+        'open for voting'
+      );
+
+      expect(active?.type).toBe('proposal_status_changed');
+      expect(active?.message).toBe('Watched proposal "Garden" is now open for voting');
+      expect(active?.metadata.proposalStatus).toBe('active');
+      expect(createProposalStatusChangedNotification('prop-1', 'Garden', 'passed', 'passed')).not
+        .toBeNull();
+      expect(
+        createProposalStatusChangedNotification('prop-1', 'Garden', 'active', 'open for voting')
+      ).toBeNull();
+    });
+
+    it('createQuorumReachedNotification should create correct notification', () => {
+      const notification = createQuorumReachedNotification('prop-1', 'Garden');
+
+      expect(notification?.type).toBe('quorum_reached');
+      expect(notification?.message).toBe('Watched proposal "Garden" has reached quorum');
+    });
+
+    it('createNewCommentNotification should count new comments and link the latest', () => {
+      const notification = createNewCommentNotification('prop-1', 'Garden', 'c-3', 2);
+
+      expect(notification?.type).toBe('new_comment');
+      expect(notification?.message).toBe('2 new comments on "Garden"');
+      expect(notification?.metadata.commentId).toBe('c-3');
+    });
+
+    it('watched proposal notifications should respect the watchlist preference', () => {
+      updateNotificationPreferences({ watchlist: false });
+
+      expect(createQuorumReachedNotification('prop-1', 'Garden')).toBeNull();
+      expect(createNewCommentNotification('prop-1', 'Garden', 'c-1', 1)).toBeNull();
+    });
   });
 
   describe('localStorage persistence', () => {
@@ -23,7 +23,13 @@ export type NotificationType =
   | 'vote_result'
   | 'new_proposal'
   | 'voting_ending_24h'
-  | 'voting_ending_1h';
+  | 'voting_ending_1h'
+  | 'mention'
+  | 'escrow_dispute'
+  | 'burn_pledge_missed'
+  | 'proposal_status_changed'
+  | 'quorum_reached'
+  | 'new_comment';
 
 /**
  * Notification metadata for navigation and display
@@ -35,6 +41,20 @@ export interface NotificationMetadata {
   proposalTitle?: string;
   /** Result for vote_result type */
   result?: 'passed' | 'failed';
+  /** Comment ID for mention type */
+  commentId?: string;
+  /** Display name of the member who mentioned the user */
+  mentionedBy?: string;
+  /** Escrow ID for escrow_dispute type */
+  escrowId?: string;
+  /** Disputed milestone name for escrow_dispute type */
+  milestoneName?: string;
+  /** Dispute step for escrow_dispute type */
+  disputeEvent?: 'opened' | 'response' | 'resolved';
+  /** Burn pledge ID for burn_pledge_missed type */
+  pledgeId?: string;
+  /** New status for proposal_status_changed type (governance status, e.g. 'active') */
+  proposalStatus?: string;
 }
 
 /**
@@ -67,6 +87,14 @@ export interface NotificationPreferences {
   new_proposal: boolean;
   /** Notify on voting deadlines (24h and 1h) */
   voting_ending: boolean;
+  /** Notify when mentioned in a proposal discussion */
+  mentions: boolean;
+  /** Notify on disputes on your escrow milestones */
+  escrow_disputes: boolean;
+  /** Notify when a recurring burn pledge is missed */
+  burn_pledges: boolean;
+  /** Notify on status changes, quorum and new comments on watched proposals */
+  watchlist: boolean;
   /** Hide proposal titles in notifications for privacy */
   hideProposalTitles: boolean;
   /** Schema version for migration */
@@ -98,6 +126,10 @@ export const DEFAULT_PREFERENCES: NotificationPreferences = {
   vote_result: true,
   new_proposal: true,
   voting_ending: true,
+  mentions: true,
+  escrow_disputes: true,
+  burn_pledges: true,
+  watchlist: true,
   hideProposalTitles: false,
   schemaVersion: PREFERENCES_SCHEMA_VERSION,
 };
@@ -197,6 +229,10 @@ function migratePreferencesSchema(
     vote_result: prefs.vote_result ?? DEFAULT_PREFERENCES.vote_result,
     new_proposal: prefs.new_proposal ?? DEFAULT_PREFERENCES.new_proposal,
     voting_ending: prefs.voting_ending ?? DEFAULT_PREFERENCES.voting_ending,
+    mentions: prefs.mentions ?? DEFAULT_PREFERENCES.mentions,
+    escrow_disputes: prefs.escrow_disputes ?? DEFAULT_PREFERENCES.escrow_disputes,
+    burn_pledges: prefs.burn_pledges ?? DEFAULT_PREFERENCES.burn_pledges,
+    watchlist: prefs.watchlist ?? DEFAULT_PREFERENCES.watchlist,
     hideProposalTitles: prefs.hideProposalTitles ?? DEFAULT_PREFERENCES.hideProposalTitles,
     schemaVersion: PREFERENCES_SCHEMA_VERSION,
   };
@@ -324,6 +360,15 @@ export function addNotification(
   if ((type === 'voting_ending_24h' || type === 'voting_ending_1h') && !prefs.voting_ending) {
     return null;
   }
+  if (type === 'mention' && !prefs.mentions) return null;
+  if (type === 'escrow_dispute' && !prefs.escrow_disputes) return null;
+  if (type === 'burn_pledge_missed' && !prefs.burn_pledges) return null;
+  if (
+    (type === 'proposal_status_changed' || type === 'quorum_reached' || type === 'new_comment') &&
+    !prefs.watchlist
+  ) {
+    return null;
+  }
 
   // Check rate limit
   if (isRateLimited(type)) {
@@ -348,12 +393,20 @@ export function addNotification(
 
   let notifications = $notifications.get();
 
-  // Check for duplicates (same proposal + type within last hour)
+  // Check for duplicates (same proposal + type within last hour).
+  // Mentions and new comments are distinct per comment, disputes per
+  // milestone and step, missed pledges per pledge, status changes per status.
   const oneHourAgo = Date.now() - 60 * 60 * 1000;
   const isDuplicate = notifications.some(
     (n) =>
       n.type === type &&
       n.metadata.proposalId === metadata.proposalId &&
+      n.metadata.commentId === metadata.commentId &&
+      n.metadata.escrowId === metadata.escrowId &&
+      n.metadata.milestoneName === metadata.milestoneName &&
+      n.metadata.disputeEvent === metadata.disputeEvent &&
+      n.metadata.pledgeId === metadata.pledgeId &&
+      n.metadata.proposalStatus === metadata.proposalStatus &&
       n.createdAt > oneHourAgo
   );
 
@@ -555,6 +608,114 @@ export function createVotingDeadlineNotification(
   });
 }
 
+/**
+ * Create a mention notification
+ */
+export function createMentionNotification(
+  proposalId: string,
+  proposalTitle: string,
+  mentionedBy: string,
+  commentId: string
+): Notification | null {
+  const message = `${mentionedBy} mentioned you on "${proposalTitle}"`;
+  return addNotification('mention', message, {
+    proposalId,
+    proposalTitle,
+    commentId,
+    mentionedBy,
+  });
+}
+
+/**
+ * Create an escrow milestone dispute notification
+ */
+export function createEscrowDisputeNotification(
+  escrowId: string,
+  milestoneName: string,
+  disputeEvent: 'opened' | 'response' | 'resolved'
+): Notification | null {
+  const message =
+    disputeEvent === 'opened'
+      ? `Dispute opened on milestone "${milestoneName}" (escrow #${escrowId})`
+      : disputeEvent === 'response'
+        ? `New response in the dispute on "${milestoneName}" (escrow #${escrowId})`
+        : `Dispute resolved on milestone "${milestoneName}" (escrow #${escrowId})`;
+  return addNotification('escrow_dispute', message, {
+    escrowId,
+    milestoneName,
+    disputeEvent,
+  });
+}
+
+/**
+ * Create a missed burn pledge notification
+ */
+export function createBurnPledgeMissedNotification(
+  pledgeId: string,
+  cadenceLabel: string,
+  amount: string,
+  missedCount: number
+): Notification | null {
+  const periods = missedCount === 1 ? '' : ` (${missedCount} periods)`;
+  const message = `You missed your ${cadenceLabel.toLowerCase()} burn pledge of ${amount} DOM`;
+  return addNotification('burn_pledge_missed', message + periods, {
+    pledgeId,
+  });
+}
+
+/**
+ * Create a watched proposal status change notification
+ * @param statusLabel - Readable new status, e.g. "open for voting"
+ */
+export function createProposalStatusChangedNotification(
+  proposalId: string,
+  proposalTitle: string,
+  proposalStatus: string,
+  statusLabel: string
+): Notification | null {
+  const message = `Watched proposal "${proposalTitle}" is now ${statusLabel}`;
+  return addNotification('proposal_status_changed', message, {
+    proposalId,
+    proposalTitle,
+    proposalStatus,
+  });
+}
+
+/**
+ * Create a watched proposal quorum notification
+ */
+export function createQuorumReachedNotification(
+  proposalId: string,
+  proposalTitle: string
+): Notification | null {
+  const message = `Watched proposal "${proposalTitle}" has reached quorum`;
+  return addNotification('quorum_reached', message, {
+    proposalId,
+    proposalTitle,
+  });
+}
+
+/**
+ * Create a new comment notification for a watched proposal
+ * @param commentId - Latest new comment, linked from the notification
+ */
+export function createNewCommentNotification(
+  proposalId: string,
+  proposalTitle: string,
+  commentId: string,
+  newCount: number
+): Notification | null {
+  const message =
+    newCount === 1
+      ? `New comment on "${proposalTitle}"`
+      : `${newCount} new comments on "${proposalTitle}"`;
+  return addNotification('new_comment', message, {
+    proposalId,
+    proposalTitle,
+    commentId,
+  });
+}
+
 // ============================================================================
 // Export Actions Object
 // ============================================================================
@@ -573,4 +734,10 @@ export const notificationActions = {
   createVoteResult: createVoteResultNotification,
   createNewProposal: createNewProposalNotification,
   createVotingDeadline: createVotingDeadlineNotification,
+  createMention: createMentionNotification,
+  createEscrowDispute: createEscrowDisputeNotification,
+  createBurnPledgeMissed: createBurnPledgeMissedNotification,
+  createProposalStatusChanged: createProposalStatusChangedNotification,
+  createQuorumReached: createQuorumReachedNotification,
+  createNewComment: createNewCommentNotification,
 };
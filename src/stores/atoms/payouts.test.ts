@@ -0,0 +1,121 @@
+/**
+ * Payout Approval Store Tests
+ *
+ * Tests for the payout queue atoms, approval helpers and actions.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $payouts,
+  $proposedPayouts,
+  $approvedPayouts,
+  getRemainingApprovals,
+  hasApprovedPayout,
+  isPayoutSigner,
+  setPayoutsLoading,
+  setPayoutsData,
+  setPayoutsError,
+  updatePayout,
+  clearPayouts,
+  type Payout,
+  type PayoutApprovalConfig,
+} from './payouts';
+
+const SIGNER_A = 'aaaaa-aa';
+const SIGNER_B = 'bbbbb-bb';
+
+const CONFIG: PayoutApprovalConfig = { requiredApprovals: 2, signers: [SIGNER_A, SIGNER_B] };
+
+function createMockPayout(overrides: Partial<Payout> = {}): Payout {
+  return {
+    id: BigInt(1),
+    to: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+    amount: BigInt(10000000000),
+    reason: 'Contributor grant',
+    tokenType: 'DOM',
+    status: 'Proposed',
+    approvedBy: [],
+    proposedAt: BigInt(1_000_000_000),
+    ...overrides,
+  };
+}
+
+describe('Payout Approval Store', () => {
+  beforeEach(() => {
+    clearPayouts();
+  });
+
+  describe('queues', () => {
+    it('should split payouts into proposed and approved queues, oldest first', () => {
+      setPayoutsData(
+        [
+          createMockPayout({ id: BigInt(1), proposedAt: BigInt(3_000) }),
+          createMockPayout({ id: BigInt(2), proposedAt: BigInt(1_000) }),
+          createMockPayout({ id: BigInt(3), status: 'Approved' }),
+          createMockPayout({ id: BigInt(4), status: 'Executed' }),
+          createMockPayout({ id: BigInt(5), status: 'Rejected' }),
+        ],
+        CONFIG
+      );
+
+      expect($proposedPayouts.get().map((p) => p.id)).toEqual([BigInt(2), BigInt(1)]);
+      expect($approvedPayouts.get().map((p) => p.id)).toEqual([BigInt(3)]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should count remaining approvals without going negative', () => {
+      expect(getRemainingApprovals(createMockPayout(), 2)).toBe(2);
+      expect(getRemainingApprovals(createMockPayout({ approvedBy: [SIGNER_A] }), 2)).toBe(1);
+      expect(
+        getRemainingApprovals(createMockPayout({ approvedBy: [SIGNER_A, SIGNER_B] }), 1)
+      ).toBe(0);
+    });
+
+    it('should detect whether a principal has approved', () => {
+      const payout = createMockPayout({ approvedBy: [SIGNER_A] });
+      expect(hasApprovedPayout(payout, SIGNER_A)).toBe(true);
+      expect(hasApprovedPayout(payout, SIGNER_B)).toBe(false);
+      expect(hasApprovedPayout(payout, null)).toBe(false);
+    });
+
+    it('should detect payout signers', () => {
+      expect(isPayoutSigner(CONFIG, SIGNER_A)).toBe(true);
+      expect(isPayoutSigner(CONFIG, 'ccccc-cc')).toBe(false);
+      expect(isPayoutSigner(CONFIG, undefined)).toBe(false);
+    });
+  });
+
+  describe('actions', () => {
+    it('should replace an updated payout', () => {
+      setPayoutsData([createMockPayout(), createMockPayout({ id: BigInt(2) })], CONFIG);
+
+      updatePayout(createMockPayout({ status: 'Approved', approvedBy: [SIGNER_A, SIGNER_B] }));
+
+      expect($proposedPayouts.get().map((p) => p.id)).toEqual([BigInt(2)]);
+      expect($approvedPayouts.get()[0].approvedBy).toEqual([SIGNER_A, SIGNER_B]);
+    });
+
+    it('should track loading and error state', () => {
+      setPayoutsLoading(true);
+      expect($payouts.get().isLoading).toBe(true);
+
+      setPayoutsError('Network error');
+      expect($payouts.get().isLoading).toBe(false);
+      expect($payouts.get().error).toBe('Network error');
+
+      setPayoutsLoading(true);
+      expect($payouts.get().error).toBeNull();
+    });
+
+    it('should reset to the initial state on clear', () => {
+      setPayoutsData([createMockPayout()], CONFIG);
+
+      clearPayouts();
+
+      expect($payouts.get().payouts).toEqual([]);
+      expect($payouts.get().config.signers).toEqual([]);
+      expect($payouts.get().lastUpdated).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Payout Approval State Management
+ *
+ * Manages the treasury payout queue for signers using nanostores.
+ * Follows the treasury.ts and escrow.ts patterns for state management.
+ */
+
+import { atom, computed } from 'nanostores';
+import type { TokenType } from './escrow';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Payout status (from treasury canister)
+ */
+export type PayoutStatus = 'Proposed' | 'Approved' | 'Executed' | 'Failed' | 'Rejected';
+
+/**
+ * Payout (from treasury canister)
+ */
+export interface Payout {
+  /** Payout ID */
+  id: bigint;
+  /** Recipient principal */
+  to: string;
+  /** Amount in e8s */
+  amount: bigint;
+  /** Reason given when the payout was proposed */
+  reason: string;
+  /** Token type */
+  tokenType: TokenType;
+  /** Payout status */
+  status: PayoutStatus;
+  /** Principals of signers who have approved */
+  approvedBy: string[];
+  /** Proposal timestamp in nanoseconds */
+  proposedAt: bigint;
+  /** Execution timestamp in nanoseconds */
+  executedAt?: bigint;
+  /** Ledger transaction ID once executed */
+  txId?: string;
+}
+
+/**
+ * Approval policy for payouts (from treasury canister)
+ */
+export interface PayoutApprovalConfig {
+  /** Approvals needed before a payout can be executed */
+  requiredApprovals: number;
+  /** Principals allowed to approve, reject and execute payouts */
+  signers: string[];
+}
+
+/**
+ * Payout queue state with loading/error handling
+ */
+export interface PayoutsState {
+  /** All payouts known to the treasury */
+  payouts: Payout[];
+  /** Approval policy */
+  config: PayoutApprovalConfig;
+  /** Last successful fetch timestamp */
+  lastUpdated: number | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Initial payout queue state */
+const INITIAL_STATE: PayoutsState = {
+  payouts: [],
+  config: { requiredApprovals: 0, signers: [] },
+  lastUpdated: null,
+  isLoading: false,
+  error: null,
+};
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Main payout queue store
+ */
+export const $payouts = atom<PayoutsState>({ ...INITIAL_STATE });
+
+/**
+ * Loading state convenience atom
+ */
+export const $payoutsLoading = computed($payouts, (state) => state.isLoading);
+
+/**
+ * Error state convenience atom
+ */
+export const $payoutsError = computed($payouts, (state) => state.error);
+
+/**
+ * Proposed payouts awaiting approval, oldest first
+ */
+export const $proposedPayouts = computed($payouts, (state) =>
+  state.payouts
+    .filter((p) => p.status === 'Proposed')
+    .sort((a, b) => (a.proposedAt < b.proposedAt ? -1 : a.proposedAt > b.proposedAt ? 1 : 0))
+);
+
+/**
+ * Fully approved payouts awaiting execution, oldest first
+ */
+export const $approvedPayouts = computed($payouts, (state) =>
+  state.payouts
+    .filter((p) => p.status === 'Approved')
+    .sort((a, b) => (a.proposedAt < b.proposedAt ? -1 : a.proposedAt > b.proposedAt ? 1 : 0))
+);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Number of approvals a payout still needs
+ * @param payout - Payout to check
+ * @param requiredApprovals - Approvals required by policy
+ * @returns Remaining approvals (never negative)
+ */
+export function getRemainingApprovals(payout: Payout, requiredApprovals: number): number {
+  return Math.max(0, requiredApprovals - payout.approvedBy.length);
+}
+
+/**
+ * Check whether a principal has already approved a payout
+ */
+export function hasApprovedPayout(payout: Payout, principal: string | null | undefined): boolean {
+  return !!principal && payout.approvedBy.includes(principal);
+}
+
+/**
+ * Check whether a principal is a payout signer
+ */
+export function isPayoutSigner(
+  config: PayoutApprovalConfig,
+  principal: string | null | undefined
+): boolean {
+  return !!principal && config.signers.includes(principal);
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Set loading state
+ */
+export function setPayoutsLoading(isLoading: boolean): void {
+  const current = $payouts.get();
+  $payouts.set({
+    ...current,
+    isLoading,
+    error: isLoading ? null : current.error,
+  });
+}
+
+/**
+ * Set payout queue after successful fetch
+ * @param payouts - All payouts
+ * @param config - Approval policy
+ */
+export function setPayoutsData(payouts: Payout[], config: PayoutApprovalConfig): void {
+  $payouts.set({
+    payouts,
+    config,
+    lastUpdated: Date.now(),
+    isLoading: false,
+    error: null,
+  });
+}
+
+/**
+ * Replace one payout after an approve/reject/execute call
+ * @param payout - Updated payout from the canister
+ */
+export function updatePayout(payout: Payout): void {
+  const current = $payouts.get();
+  $payouts.set({
+    ...current,
+    payouts: current.payouts.map((p) => (p.id === payout.id ? payout : p)),
+  });
+}
+
+/**
+ * Set error state after failed fetch
+ * @param error - Error message
+ */
+export function setPayoutsError(error: string): void {
+  const current = $payouts.get();
+  $payouts.set({
+    ...current,
+    isLoading: false,
+    error,
+  });
+}
+
+/**
+ * Clear payout state (e.g., on logout)
+ */
+export function clearPayouts(): void {
+  $payouts.set({ ...INITIAL_STATE });
+}
+
+// ============================================================================
+// Export Actions Object
+// ============================================================================
+
+export const payoutActions = {
+  setLoading: setPayoutsLoading,
+  setData: setPayoutsData,
+  update: updatePayout,
+  setError: setPayoutsError,
+  clear: clearPayouts,
+  getRemainingApprovals,
+  hasApprovedPayout,
+  isPayoutSigner,
+};
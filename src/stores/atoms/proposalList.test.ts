@@ -17,10 +17,21 @@ import {
   $proposalListLoading,
   $proposalListError,
   $proposalStatusCounts,
+  $proposalListMode,
+  $proposalListCursor,
+  $proposalListScroll,
   setProposalList,
+  appendProposalList,
+  setProposalListCursor,
+  setProposalListMode,
+  saveProposalListScroll,
+  takeProposalListScroll,
   setProposalFilters,
   updateFilters,
   toggleStatusFilter,
+  toggleVerticalFilter,
+  toggleScaleFilter,
+  setBudgetRange,
   clearAllFilters,
   clearSearch,
   setProposalSort,
@@ -45,6 +56,11 @@ describe('Proposal List State Atoms', () => {
       search: '',
       myProposals: false,
       notVoted: false,
+      watching: false,
+      verticals: [],
+      scales: [],
+      budgetMin: null,
+      budgetMax: null,
     });
     $proposalSort.set('newest');
     $proposalPage.set(1);
@@ -57,6 +73,9 @@ describe('Proposal List State Atoms', () => {
       Failed: 0,
       Pending: 0,
     });
+    $proposalListMode.set('paged');
+    $proposalListCursor.set(null);
+    $proposalListScroll.set(null);
   });
 
   describe('$proposalList', () => {
@@ -97,6 +116,52 @@ describe('Proposal List State Atoms', () => {
 
       expect($proposalList.get()).toHaveLength(1);
     });
+
+    it('should append a page, skipping proposals already listed', () => {
+      setProposalList([mockProposals[0]]);
+      appendProposalList(mockProposals);
+
+      expect($proposalList.get().map((p) => p.id)).toEqual(['prop-1', 'prop-2']);
+    });
+  });
+
+  describe('$proposalListMode', () => {
+    it('should default to paged', () => {
+      expect($proposalListMode.get()).toBe('paged');
+    });
+
+    it('should restart the list when switching modes', () => {
+      $proposalPage.set(3);
+      setProposalListCursor({ listKey: 'key', nextCursor: 'next' });
+      saveProposalListScroll('key', 1200);
+
+      setProposalListMode('infinite');
+
+      expect($proposalListMode.get()).toBe('infinite');
+      expect($proposalPage.get()).toBe(1);
+      expect($proposalListCursor.get()).toBeNull();
+      expect($proposalListScroll.get()).toBeNull();
+    });
+
+    it('should leave state alone when the mode is unchanged', () => {
+      $proposalPage.set(3);
+
+      setProposalListMode('paged');
+
+      expect($proposalPage.get()).toBe(3);
+    });
+  });
+
+  describe('$proposalListScroll', () => {
+    it('should return a saved position once, for the same list only', () => {
+      saveProposalListScroll('key', 1200);
+
+      expect(takeProposalListScroll('key')).toBe(1200);
+      expect(takeProposalListScroll('key')).toBeNull();
+
+      saveProposalListScroll('key', 1200);
+      expect(takeProposalListScroll('other')).toBeNull();
+    });
   });
 
   describe('$proposalFilters', () => {
@@ -106,6 +171,11 @@ describe('Proposal List State Atoms', () => {
         search: 'test',
         myProposals: true,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       const filters = $proposalFilters.get();
@@ -133,6 +203,11 @@ describe('Proposal List State Atoms', () => {
         search: '',
         myProposals: false,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       toggleStatusFilter('Active');
@@ -147,6 +222,11 @@ describe('Proposal List State Atoms', () => {
         search: 'test',
         myProposals: true,
         notVoted: true,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       clearAllFilters();
@@ -158,12 +238,35 @@ describe('Proposal List State Atoms', () => {
       expect(filters.notVoted).toBe(false);
     });
 
+    it('should toggle vertical and scale filters and set a budget range', () => {
+      $proposalPage.set(4);
+
+      toggleVerticalFilter('Food');
+      toggleVerticalFilter('Housing');
+      toggleVerticalFilter('Food');
+      toggleScaleFilter('medium');
+      setBudgetRange(250.7, null);
+
+      expect($proposalFilters.get()).toMatchObject({
+        verticals: ['Housing'],
+        scales: ['medium'],
+        budgetMin: 250,
+        budgetMax: null,
+      });
+      expect($proposalPage.get()).toBe(1);
+    });
+
     it('should clear search only', () => {
       $proposalFilters.set({
         status: ['Active'],
         search: 'test',
         myProposals: true,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
 
       clearSearch();
@@ -313,6 +416,11 @@ describe('Proposal List State Atoms', () => {
         search: 'query',
         myProposals: true,
         notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
       });
       $proposalSort.set('mostVotes');
       $proposalPage.set(3);
@@ -363,5 +471,78 @@ describe('Proposal List State Atoms', () => {
 
       expect($proposalSort.get()).toBe('endingSoon');
     });
+
+    it('should round-trip vertical, scale and budget filters', () => {
+      $proposalFilters.set({
+        ...$proposalFilters.get(),
+        verticals: ['Housing', 'Energy'],
+        scales: ['large'],
+        budgetMin: 1000,
+        budgetMax: 25000,
+      });
+      $proposalSort.set('largestBudget');
+
+      const params = getUrlParams();
+      expect(params.toString()).toBe(
+        'verticals=Housing%2CEnergy&scales=large&budgetMin=1000&budgetMax=25000&sort=largestBudget'
+      );
+
+      clearAllFilters();
+      initFromUrlParams(params);
+
+      expect($proposalFilters.get()).toMatchObject({
+        verticals: ['Housing', 'Energy'],
+        scales: ['large'],
+        budgetMin: 1000,
+        budgetMax: 25000,
+      });
+      expect($proposalSort.get()).toBe('largestBudget');
+    });
+
+    it('should round-trip the Watching filter through URL params', () => {
+      updateFilters({ watching: true });
+
+      const params = getUrlParams();
+      expect(params.get('watching')).toBe('true');
+
+      clearAllFilters();
+      initFromUrlParams(params);
+      expect($proposalFilters.get().watching).toBe(true);
+    });
+
+    it('should ignore invalid budget params', () => {
+      initFromUrlParams(new URLSearchParams('budgetMin=-5&budgetMax=lots'));
+
+      expect($proposalFilters.get().budgetMin).toBeNull();
+      expect($proposalFilters.get().budgetMax).toBeNull();
+    });
+
+    it('should apply shared view links exactly, replacing persisted filters', () => {
+      $proposalFilters.set({
+        status: ['Failed'],
+        search: '',
+        myProposals: true,
+        notVoted: true,
+        watching: false,
+        verticals: ['Food'],
+        scales: [],
+        budgetMin: 500,
+        budgetMax: null,
+      });
+
+      initFromUrlParams(new URLSearchParams('status=Active&view=Open'));
+
+      expect($proposalFilters.get()).toEqual({
+        status: ['Active'],
+        search: '',
+        myProposals: false,
+        notVoted: false,
+        watching: false,
+        verticals: [],
+        scales: [],
+        budgetMin: null,
+        budgetMax: null,
+      });
+    });
   });
 });
@@ -6,6 +6,8 @@
  *
  * Story: 9-1-3-proposal-listing
  * ACs: 1, 2, 3, 4, 5, 7, 8, 9
+ * Vertical, scale and budget-range filters narrow the list for working groups
+ * Infinite scroll: cursor-paged list mode with scroll restoration
  */
 
 import { atom, computed } from 'nanostores';
@@ -14,15 +16,44 @@ import type {
   ProposalListItem,
   ProposalFilters,
   ProposalSort,
+  ProposalListMode,
   ProposalStatusCounts,
+  ProposalVerticalCounts,
 } from '../types';
 import { $userVotes } from './votes';
+import { $watchedProposalIds } from './watchlist';
 
 // Re-export types for convenience
-export type { ProposalListItem, ProposalFilters, ProposalSort, ProposalStatusCounts } from '../types';
+export type {
+  ProposalListItem,
+  ProposalFilters,
+  ProposalSort,
+  ProposalListMode,
+  ProposalStatusCounts,
+  ProposalVerticalCounts,
+} from '../types';
+
+/**
+ * Where an infinite-scroll list has loaded up to
+ */
+export interface ProposalListCursor {
+  /** Filters and sort the list was loaded for */
+  listKey: string;
+  /** Cursor for the next page, or null when everything is loaded */
+  nextCursor: string | null;
+}
+
+/**
+ * Scroll position saved when leaving an infinite-scroll list
+ */
+export interface ProposalListScroll {
+  listKey: string;
+  offset: number;
+}
 
 // Storage keys
 const PROPOSAL_FILTERS_KEY = 'hwdao:proposal-filters';
+const PROPOSAL_LIST_MODE_KEY = 'hwdao:proposal-list-mode';
 
 // Default filter state
 const DEFAULT_FILTERS: ProposalFilters = {
@@ -30,8 +61,56 @@ const DEFAULT_FILTERS: ProposalFilters = {
   search: '',
   myProposals: false,
   notVoted: false,
+  watching: false,
+  verticals: [],
+  scales: [],
+  budgetMin: null,
+  budgetMax: null,
+};
+
+const EMPTY_VERTICAL_COUNTS: ProposalVerticalCounts = {
+  Housing: 0,
+  Food: 0,
+  Energy: 0,
+  Education: 0,
+  Community: 0,
+  Infrastructure: 0,
+  Other: 0,
 };
 
+/**
+ * Coerce a budget bound into a non-negative whole DOM amount, or null
+ */
+function normalizeBudgetBound(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? Math.floor(value)
+    : null;
+}
+
+/**
+ * Parse a budget bound from a URL param
+ */
+function parseBudgetParam(value: string | null): number | null {
+  return value ? normalizeBudgetBound(Number(value)) : null;
+}
+
+/**
+ * Coerce a parsed filter object into a valid filter state
+ */
+export function normalizeProposalFilters(parsed: Partial<ProposalFilters>): ProposalFilters {
+  return {
+    status: Array.isArray(parsed.status) ? parsed.status : [],
+    search: typeof parsed.search === 'string' ? parsed.search : '',
+    myProposals: typeof parsed.myProposals === 'boolean' ? parsed.myProposals : false,
+    notVoted: typeof parsed.notVoted === 'boolean' ? parsed.notVoted : false,
+    watching: typeof parsed.watching === 'boolean' ? parsed.watching : false,
+    verticals: Array.isArray(parsed.verticals) ? parsed.verticals : [],
+    scales: Array.isArray(parsed.scales) ? parsed.scales : [],
+    budgetMin: normalizeBudgetBound(parsed.budgetMin),
+    budgetMax: normalizeBudgetBound(parsed.budgetMax),
+  };
+}
+
 /**
  * Current list of proposals (not persisted - fetched from canister)
  */
@@ -47,14 +126,8 @@ export const $proposalFilters = persistentAtom<ProposalFilters>(
     encode: JSON.stringify,
     decode: (value) => {
       try {
-        const parsed = JSON.parse(value);
         // Validate parsed filters have expected shape
-        return {
-          status: Array.isArray(parsed.status) ? parsed.status : [],
-          search: typeof parsed.search === 'string' ? parsed.search : '',
-          myProposals: typeof parsed.myProposals === 'boolean' ? parsed.myProposals : false,
-          notVoted: typeof parsed.notVoted === 'boolean' ? parsed.notVoted : false,
-        };
+        return normalizeProposalFilters(JSON.parse(value));
       } catch {
         return DEFAULT_FILTERS;
       }
@@ -62,6 +135,28 @@ export const $proposalFilters = persistentAtom<ProposalFilters>(
   }
 );
 
+/**
+ * Paged or infinite-scroll list (persisted preference)
+ */
+export const $proposalListMode = persistentAtom<ProposalListMode>(
+  PROPOSAL_LIST_MODE_KEY,
+  'paged',
+  {
+    encode: (value) => value,
+    decode: (value) => (value === 'infinite' ? 'infinite' : 'paged'),
+  }
+);
+
+/**
+ * Infinite-scroll progress for the loaded list (null in paged mode)
+ */
+export const $proposalListCursor = atom<ProposalListCursor | null>(null);
+
+/**
+ * Scroll position to restore when returning to the infinite-scroll list
+ */
+export const $proposalListScroll = atom<ProposalListScroll | null>(null);
+
 /**
  * Current sort selection (not persisted - defaults to newest)
  */
@@ -97,6 +192,11 @@ export const $proposalStatusCounts = atom<ProposalStatusCounts>({
   Pending: 0,
 });
 
+/**
+ * Proposal counts by vertical (for filter badges)
+ */
+export const $proposalVerticalCounts = atom<ProposalVerticalCounts>(EMPTY_VERTICAL_COUNTS);
+
 /**
  * Derived atom: Set of proposal IDs the user has voted on
  * Used for "You voted ✓" indicators on ProposalCard
@@ -123,6 +223,58 @@ export function setProposalList(proposals: ProposalListItem[]): void {
   $proposalList.set(proposals);
 }
 
+/**
+ * Add the next infinite-scroll page to the list, skipping proposals already shown
+ */
+export function appendProposalList(proposals: ProposalListItem[]): void {
+  const current = $proposalList.get();
+  const shown = new Set(current.map((p) => p.id));
+  $proposalList.set([...current, ...proposals.filter((p) => !shown.has(p.id))]);
+}
+
+/**
+ * Set infinite-scroll progress
+ */
+export function setProposalListCursor(cursor: ProposalListCursor | null): void {
+  $proposalListCursor.set(cursor);
+}
+
+/**
+ * Key identifying an infinite-scroll list by its filters and sort
+ */
+export function getProposalListKey(filters: ProposalFilters, sort: ProposalSort): string {
+  // Watching or unwatching a proposal changes the "Watching" list
+  const watched = filters.watching ? [...$watchedProposalIds.get()].sort() : undefined;
+  return JSON.stringify({ filters, sort, watched });
+}
+
+/**
+ * Switch between paged and infinite-scroll lists, starting from the top
+ */
+export function setProposalListMode(mode: ProposalListMode): void {
+  if ($proposalListMode.get() === mode) return;
+  $proposalListMode.set(mode);
+  $proposalPage.set(1);
+  $proposalListCursor.set(null);
+  $proposalListScroll.set(null);
+}
+
+/**
+ * Remember the scroll position of an infinite-scroll list
+ */
+export function saveProposalListScroll(listKey: string, offset: number): void {
+  $proposalListScroll.set({ listKey, offset });
+}
+
+/**
+ * Take the saved scroll position for a list, if it was saved for that list
+ */
+export function takeProposalListScroll(listKey: string): number | null {
+  const saved = $proposalListScroll.get();
+  $proposalListScroll.set(null);
+  return saved?.listKey === listKey ? saved.offset : null;
+}
+
 /**
  * Set total proposal count
  */
@@ -151,6 +303,13 @@ export function setProposalStatusCounts(counts: ProposalStatusCounts): void {
   $proposalStatusCounts.set(counts);
 }
 
+/**
+ * Set proposal vertical counts
+ */
+export function setProposalVerticalCounts(counts: ProposalVerticalCounts): void {
+  $proposalVerticalCounts.set(counts);
+}
+
 /**
  * Set complete filter state
  */
@@ -178,6 +337,38 @@ export function toggleStatusFilter(status: ProposalFilters['status'][number]): v
   updateFilters({ status: statusList });
 }
 
+/**
+ * Toggle a vertical filter
+ */
+export function toggleVerticalFilter(vertical: ProposalFilters['verticals'][number]): void {
+  const current = $proposalFilters.get();
+  const verticals = current.verticals.includes(vertical)
+    ? current.verticals.filter((v) => v !== vertical)
+    : [...current.verticals, vertical];
+  updateFilters({ verticals });
+}
+
+/**
+ * Toggle a scale filter
+ */
+export function toggleScaleFilter(scale: ProposalFilters['scales'][number]): void {
+  const current = $proposalFilters.get();
+  const scales = current.scales.includes(scale)
+    ? current.scales.filter((s) => s !== scale)
+    : [...current.scales, scale];
+  updateFilters({ scales });
+}
+
+/**
+ * Set the budget range in whole DOM (null for an open bound)
+ */
+export function setBudgetRange(budgetMin: number | null, budgetMax: number | null): void {
+  updateFilters({
+    budgetMin: normalizeBudgetBound(budgetMin),
+    budgetMax: normalizeBudgetBound(budgetMax),
+  });
+}
+
 /**
  * Clear all filters
  */
@@ -235,23 +426,39 @@ export function previousPage(): void {
 }
 
 /**
- * Initialize filters from URL query params
+ * Initialize filters from URL query params.
+ * Shared saved-view links (with a `view` param) replace the filters outright
+ * so the recipient sees exactly the shared view.
  */
 export function initFromUrlParams(params: URLSearchParams): void {
   const status = params.get('status')?.split(',').filter(Boolean) as ProposalFilters['status'] | undefined;
   const search = params.get('search') || '';
   const myProposals = params.get('myProposals') === 'true';
   const notVoted = params.get('notVoted') === 'true';
+  const watching = params.get('watching') === 'true';
+  const verticals = params.get('verticals')?.split(',').filter(Boolean) as
+    | ProposalFilters['verticals']
+    | undefined;
+  const scales = params.get('scales')?.split(',').filter(Boolean) as
+    | ProposalFilters['scales']
+    | undefined;
+  const budgetMin = parseBudgetParam(params.get('budgetMin'));
+  const budgetMax = parseBudgetParam(params.get('budgetMax'));
   const sort = params.get('sort') as ProposalSort | null;
   const page = parseInt(params.get('page') || '1', 10);
 
   // Set filters without triggering page reset (we'll set page explicitly)
-  const currentFilters = $proposalFilters.get();
+  const currentFilters = params.has('view') ? DEFAULT_FILTERS : $proposalFilters.get();
   $proposalFilters.set({
     status: status && status.length > 0 ? status : currentFilters.status,
     search: search || currentFilters.search,
     myProposals: myProposals !== undefined ? myProposals : currentFilters.myProposals,
     notVoted: notVoted !== undefined ? notVoted : currentFilters.notVoted,
+    watching: watching !== undefined ? watching : currentFilters.watching,
+    verticals: verticals && verticals.length > 0 ? verticals : currentFilters.verticals,
+    scales: scales && scales.length > 0 ? scales : currentFilters.scales,
+    budgetMin: budgetMin ?? currentFilters.budgetMin,
+    budgetMax: budgetMax ?? currentFilters.budgetMax,
   });
 
   if (sort) {
@@ -267,9 +474,17 @@ export function initFromUrlParams(params: URLSearchParams): void {
  * Get URL query params from current state
  */
 export function getUrlParams(): URLSearchParams {
-  const filters = $proposalFilters.get();
-  const sort = $proposalSort.get();
-  const page = $proposalPage.get();
+  return buildProposalUrlParams($proposalFilters.get(), $proposalSort.get(), $proposalPage.get());
+}
+
+/**
+ * Build URL query params for a filter, sort and page combination
+ */
+export function buildProposalUrlParams(
+  filters: ProposalFilters,
+  sort: ProposalSort,
+  page: number = 1
+): URLSearchParams {
   const params = new URLSearchParams();
 
   if (filters.status.length > 0) {
@@ -284,6 +499,21 @@ export function getUrlParams(): URLSearchParams {
   if (filters.notVoted) {
     params.set('notVoted', 'true');
   }
+  if (filters.watching) {
+    params.set('watching', 'true');
+  }
+  if (filters.verticals.length > 0) {
+    params.set('verticals', filters.verticals.join(','));
+  }
+  if (filters.scales.length > 0) {
+    params.set('scales', filters.scales.join(','));
+  }
+  if (filters.budgetMin !== null) {
+    params.set('budgetMin', String(filters.budgetMin));
+  }
+  if (filters.budgetMax !== null) {
+    params.set('budgetMax', String(filters.budgetMax));
+  }
   if (sort !== 'newest') {
     params.set('sort', sort);
   }
@@ -330,12 +560,22 @@ export function setupProposalListCrossTabSync(
  */
 export const proposalListActions = {
   setProposalList,
+  appendProposalList,
+  setProposalListCursor,
+  getProposalListKey,
+  setProposalListMode,
+  saveProposalListScroll,
+  takeProposalListScroll,
   setProposalTotalCount,
   setProposalListLoading,
   setProposalListError,
   setProposalStatusCounts,
+  setProposalVerticalCounts,
   updateFilters,
   toggleStatusFilter,
+  toggleVerticalFilter,
+  toggleScaleFilter,
+  setBudgetRange,
   clearAllFilters,
   clearSearch,
   setProposalSort,
@@ -344,6 +584,8 @@ export const proposalListActions = {
   previousPage,
   initFromUrlParams,
   getUrlParams,
+  buildProposalUrlParams,
+  normalizeProposalFilters,
   setupProposalListCrossTabSync,
   hasUserVoted,
 };
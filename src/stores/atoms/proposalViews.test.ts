@@ -0,0 +1,156 @@
+/**
+ * Saved Proposal Views State Tests
+ *
+ * Tests for saving, validating, renaming, reordering, deleting, applying
+ * and sharing proposal views, and cross-tab sync.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  $savedProposalViews,
+  $activeSavedProposalViewId,
+  $proposalFilters,
+  $proposalSort,
+  $proposalPage,
+  validateSavedProposalViewName,
+  createSavedProposalView,
+  renameSavedProposalView,
+  moveSavedProposalView,
+  deleteSavedProposalView,
+  applySavedProposalView,
+  getSavedProposalViewParams,
+  setupSavedProposalViewsCrossTabSync,
+  MAX_SAVED_PROPOSAL_VIEWS,
+  type ProposalFilters,
+} from '@/stores';
+
+const DEFAULT_FILTERS: ProposalFilters = {
+  status: [],
+  search: '',
+  myProposals: false,
+  notVoted: false,
+  watching: false,
+  verticals: [],
+  scales: [],
+  budgetMin: null,
+  budgetMax: null,
+};
+
+function getNames(): string[] {
+  return $savedProposalViews.get().map((view) => view.name);
+}
+
+describe('Saved proposal views', () => {
+  beforeEach(() => {
+    $savedProposalViews.set([]);
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: [] });
+    $proposalSort.set('newest');
+    $proposalPage.set(1);
+  });
+
+  it('should save the current filters, search and sort', () => {
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: ['Active'], search: ' budget ' });
+    $proposalSort.set('endingSoon');
+
+    const view = createSavedProposalView('  Closing soon ');
+
+    expect(view).toMatchObject({
+      name: 'Closing soon',
+      filters: { ...DEFAULT_FILTERS, status: ['Active'], search: 'budget' },
+      sort: 'endingSoon',
+    });
+    expect($activeSavedProposalViewId.get()).toBe(view?.id);
+  });
+
+  it('should not save more than the view limit', () => {
+    for (let i = 0; i < MAX_SAVED_PROPOSAL_VIEWS; i++) {
+      createSavedProposalView(`View ${i}`);
+    }
+
+    expect(createSavedProposalView('One more')).toBeNull();
+    expect($savedProposalViews.get()).toHaveLength(MAX_SAVED_PROPOSAL_VIEWS);
+  });
+
+  it('should validate names', () => {
+    const view = createSavedProposalView('Mine');
+
+    expect(validateSavedProposalViewName('   ')).toBe('Name is required');
+    expect(validateSavedProposalViewName('x'.repeat(41))).toBe(
+      'Name must be 40 characters or fewer'
+    );
+    expect(validateSavedProposalViewName('mine')).toBe('A view with this name already exists');
+    expect(validateSavedProposalViewName('MINE', view?.id)).toBeNull();
+  });
+
+  it('should rename, reorder and delete views', () => {
+    const a = createSavedProposalView('A');
+    createSavedProposalView('B');
+    const c = createSavedProposalView('C');
+
+    renameSavedProposalView(a!.id, ' First ');
+    moveSavedProposalView(c!.id, 0);
+    expect(getNames()).toEqual(['C', 'First', 'B']);
+
+    moveSavedProposalView(c!.id, 99);
+    expect(getNames()).toEqual(['First', 'B', 'C']);
+
+    deleteSavedProposalView(a!.id);
+    expect(getNames()).toEqual(['B', 'C']);
+  });
+
+  it('should apply a view from page 1 and mark it active', () => {
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: ['Passed', 'Failed'] });
+    $proposalSort.set('mostVotes');
+    const view = createSavedProposalView('Closed');
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: [] });
+    $proposalPage.set(3);
+    expect($activeSavedProposalViewId.get()).toBeNull();
+
+    applySavedProposalView(view!.id);
+
+    expect($proposalFilters.get().status).toEqual(['Passed', 'Failed']);
+    expect($proposalSort.get()).toBe('mostVotes');
+    expect($proposalPage.get()).toBe(1);
+
+    // Status order doesn't matter for matching
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: ['Failed', 'Passed'] });
+    expect($activeSavedProposalViewId.get()).toBe(view!.id);
+  });
+
+  it('should build share params carrying the view name', () => {
+    $proposalFilters.set({ ...DEFAULT_FILTERS, status: ['Active'], notVoted: true });
+    const view = createSavedProposalView('To vote');
+
+    const params = getSavedProposalViewParams(view!);
+
+    expect(params.get('status')).toBe('Active');
+    expect(params.get('notVoted')).toBe('true');
+    expect(params.get('view')).toBe('To vote');
+    expect(params.get('page')).toBeNull();
+  });
+
+  it('should sync views changed in other tabs', () => {
+    const onViewsChange = vi.fn();
+    const cleanup = setupSavedProposalViewsCrossTabSync(onViewsChange);
+    const newValue = JSON.stringify([
+      { id: 'view-1', name: 'From other tab', filters: { status: ['Active'] }, sort: 'nope' },
+      { name: 'Missing id' },
+    ]);
+
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'hwdao:saved-proposal-views', newValue })
+    );
+
+    expect($savedProposalViews.get()).toEqual([
+      {
+        id: 'view-1',
+        name: 'From other tab',
+        filters: { ...DEFAULT_FILTERS, status: ['Active'] },
+        sort: 'newest',
+        createdAt: 0,
+      },
+    ]);
+    expect(onViewsChange).toHaveBeenCalledTimes(1);
+    cleanup();
+  });
+});
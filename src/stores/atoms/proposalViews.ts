@@ -0,0 +1,290 @@
+/**
+ * Saved Proposal Views State Management
+ *
+ * Named combinations of proposal filters, sort and search, pinned as chips
+ * above the proposal filters. Views are persisted, kept in the member's
+ * chosen order, shareable as links and synced across tabs.
+ */
+
+import { computed } from 'nanostores';
+import { persistentAtom } from '@nanostores/persistent';
+import type { ProposalFilters, ProposalSort } from '../types';
+import {
+  $proposalFilters,
+  $proposalSort,
+  $proposalPage,
+  buildProposalUrlParams,
+  normalizeProposalFilters,
+} from './proposalList';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Named proposal list view
+ */
+export interface SavedProposalView {
+  /** ID generated client-side */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Filters, including the search text */
+  filters: ProposalFilters;
+  /** Sort order */
+  sort: ProposalSort;
+  /** Unix ms timestamp */
+  createdAt: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Maximum number of saved views */
+export const MAX_SAVED_PROPOSAL_VIEWS = 12;
+
+/** Maximum view name length */
+export const MAX_SAVED_VIEW_NAME_LENGTH = 40;
+
+/** Storage key */
+const SAVED_VIEWS_KEY = 'hwdao:saved-proposal-views';
+
+const PROPOSAL_SORTS: ProposalSort[] = [
+  'newest',
+  'oldest',
+  'mostVotes',
+  'endingSoon',
+  'largestBudget',
+];
+
+/**
+ * Coerce parsed storage into valid views, dropping malformed entries
+ */
+function decodeSavedViews(value: string): SavedProposalView[] {
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((view) => typeof view?.id === 'string' && typeof view?.name === 'string')
+      .map((view) => ({
+        id: view.id,
+        name: view.name,
+        filters: normalizeProposalFilters(view.filters ?? {}),
+        sort: PROPOSAL_SORTS.includes(view.sort) ? view.sort : 'newest',
+        createdAt: typeof view.createdAt === 'number' ? view.createdAt : 0,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Saved views in display order (persisted)
+ */
+export const $savedProposalViews = persistentAtom<SavedProposalView[]>(SAVED_VIEWS_KEY, [], {
+  encode: JSON.stringify,
+  decode: decodeSavedViews,
+});
+
+/**
+ * ID of the saved view matching the current filters and sort, if any
+ */
+export const $activeSavedProposalViewId = computed(
+  [$savedProposalViews, $proposalFilters, $proposalSort],
+  (views, filters, sort) =>
+    views.find((view) => view.sort === sort && isSameFilters(view.filters, filters))?.id ?? null
+);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isSameSet<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every((value) => b.includes(value));
+}
+
+function isSameFilters(a: ProposalFilters, b: ProposalFilters): boolean {
+  return (
+    a.search.trim() === b.search.trim() &&
+    a.myProposals === b.myProposals &&
+    a.notVoted === b.notVoted &&
+    a.watching === b.watching &&
+    a.budgetMin === b.budgetMin &&
+    a.budgetMax === b.budgetMax &&
+    isSameSet(a.status, b.status) &&
+    isSameSet(a.verticals, b.verticals) &&
+    isSameSet(a.scales, b.scales)
+  );
+}
+
+function generateViewId(): string {
+  return `view-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Validate a view name
+ * @param name - Proposed name
+ * @param excludeId - View being renamed (its current name doesn't conflict)
+ * @returns Error message or null if valid
+ */
+export function validateSavedProposalViewName(name: string, excludeId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Name is required';
+  }
+  if (trimmed.length > MAX_SAVED_VIEW_NAME_LENGTH) {
+    return `Name must be ${MAX_SAVED_VIEW_NAME_LENGTH} characters or fewer`;
+  }
+  const taken = $savedProposalViews
+    .get()
+    .some((view) => view.id !== excludeId && view.name.toLowerCase() === trimmed.toLowerCase());
+  if (taken) {
+    return 'A view with this name already exists';
+  }
+  return null;
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Save the current filters, search and sort as a named view
+ * @param name - View name (validate with validateSavedProposalViewName first)
+ * @returns The new view, or null when the view limit is reached
+ */
+export function createSavedProposalView(name: string): SavedProposalView | null {
+  const views = $savedProposalViews.get();
+  if (views.length >= MAX_SAVED_PROPOSAL_VIEWS) return null;
+
+  const filters = $proposalFilters.get();
+  const view: SavedProposalView = {
+    id: generateViewId(),
+    name: name.trim(),
+    filters: {
+      ...filters,
+      status: [...filters.status],
+      verticals: [...filters.verticals],
+      scales: [...filters.scales],
+      search: filters.search.trim(),
+    },
+    sort: $proposalSort.get(),
+    createdAt: Date.now(),
+  };
+  $savedProposalViews.set([...views, view]);
+  return view;
+}
+
+/**
+ * Rename a saved view
+ */
+export function renameSavedProposalView(id: string, name: string): void {
+  $savedProposalViews.set(
+    $savedProposalViews
+      .get()
+      .map((view) => (view.id === id ? { ...view, name: name.trim() } : view))
+  );
+}
+
+/**
+ * Move a saved view to a new position
+ * @param id - View ID
+ * @param toIndex - Target index (clamped to the list)
+ */
+export function moveSavedProposalView(id: string, toIndex: number): void {
+  const views = [...$savedProposalViews.get()];
+  const fromIndex = views.findIndex((view) => view.id === id);
+  if (fromIndex === -1) return;
+
+  const target = Math.max(0, Math.min(toIndex, views.length - 1));
+  if (target === fromIndex) return;
+
+  const [view] = views.splice(fromIndex, 1);
+  views.splice(target, 0, view);
+  $savedProposalViews.set(views);
+}
+
+/**
+ * Delete a saved view
+ */
+export function deleteSavedProposalView(id: string): void {
+  $savedProposalViews.set($savedProposalViews.get().filter((view) => view.id !== id));
+}
+
+/**
+ * Apply a saved view's filters, search and sort, starting from page 1
+ */
+export function applySavedProposalView(id: string): void {
+  const view = $savedProposalViews.get().find((v) => v.id === id);
+  if (!view) return;
+
+  $proposalFilters.set({
+    ...view.filters,
+    status: [...view.filters.status],
+    verticals: [...view.filters.verticals],
+    scales: [...view.filters.scales],
+  });
+  $proposalSort.set(view.sort);
+  $proposalPage.set(1);
+}
+
+/**
+ * URL query params for sharing a view.
+ * The `view` param carries the name so recipients can save it.
+ */
+export function getSavedProposalViewParams(view: SavedProposalView): URLSearchParams {
+  const params = buildProposalUrlParams(view.filters, view.sort);
+  params.set('view', view.name);
+  return params;
+}
+
+// ============================================================================
+// Cross-Tab Sync
+// ============================================================================
+
+/**
+ * Cross-tab synchronization for saved views
+ * Listens for views created, renamed, reordered or deleted in other tabs
+ */
+export function setupSavedProposalViewsCrossTabSync(
+  onViewsChange?: (views: SavedProposalView[]) => void
+): () => void {
+  const handleStorageChange = (event: StorageEvent) => {
+    if (event.key === SAVED_VIEWS_KEY) {
+      const views = event.newValue ? decodeSavedViews(event.newValue) : [];
+      $savedProposalViews.set(views);
+      if (onViewsChange) {
+        onViewsChange(views);
+      }
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorageChange);
+  }
+
+  return () => {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', handleStorageChange);
+    }
+  };
+}
+
+/**
+ * Actions object for convenient access
+ */
+export const savedProposalViewActions = {
+  validateName: validateSavedProposalViewName,
+  create: createSavedProposalView,
+  rename: renameSavedProposalView,
+  move: moveSavedProposalView,
+  delete: deleteSavedProposalView,
+  apply: applySavedProposalView,
+  getShareParams: getSavedProposalViewParams,
+  setupCrossTabSync: setupSavedProposalViewsCrossTabSync,
+};
@@ -9,7 +9,14 @@
 
 import { persistentAtom } from '@nanostores/persistent';
 import { computed } from 'nanostores';
-import type { ThinkTankOutput, ProposalScale, ProposalVertical } from '../types';
+import type {
+  ThinkTankOutput,
+  ProposalScale,
+  ProposalVertical,
+  ProposalRevision,
+  VotingMode,
+  BallotOption,
+} from '../types';
 
 // Storage keys
 const PROPOSALS_STORAGE_KEY = 'hwdao:proposals-v2';
@@ -32,6 +39,21 @@ export interface SubmittedProposal {
   quorumReached: boolean;
   submittedAt: number;
   votingEnds: number;
+  revisions?: ProposalRevision[]; // Oldest first; absent on proposals stored before amendments
+  votingMode?: VotingMode; // Absent means one member, one vote
+  balanceSnapshot?: Record<string, number>; // Whole DOM by principal when the proposal was created
+  balanceSnapshotAt?: number;
+  weightFor?: number; // Weighted/quadratic totals, tracked alongside the vote counts
+  weightAgainst?: number;
+  ballotOptions?: BallotOption[]; // Ranked-choice options; absent for yes/no proposals
+  rankedBallots?: Record<string, string[]>; // Ranked-choice ballots by voter principal
+}
+
+// Fields a proposer can change in an amendment
+export interface ProposalAmendment {
+  title?: string;
+  thinkTankOutput: ThinkTankOutput;
+  summary: string;
 }
 
 // Use persistentAtom with JSON encoding for complex objects
@@ -64,7 +86,7 @@ export const $pastProposals = computed($proposalsList, (proposals) => {
 /**
  * Add a new proposal to the store
  */
-export function addProposal(proposal: Omit<SubmittedProposal, 'submittedAt' | 'votesFor' | 'votesAgainst' | 'quorumReached' | 'votingEnds' | 'status'>): SubmittedProposal {
+export function addProposal(proposal: Omit<SubmittedProposal, 'submittedAt' | 'votesFor' | 'votesAgainst' | 'quorumReached' | 'votingEnds' | 'status' | 'revisions' | 'rankedBallots'>): SubmittedProposal {
   const now = Date.now();
   const fullProposal: SubmittedProposal = {
     ...proposal,
@@ -74,6 +96,15 @@ export function addProposal(proposal: Omit<SubmittedProposal, 'submittedAt' | 'v
     quorumReached: false,
     submittedAt: now,
     votingEnds: now + 7 * 24 * 60 * 60 * 1000, // 7 days from now
+    revisions: [
+      {
+        revision: 1,
+        title: proposal.title,
+        thinkTankOutput: proposal.thinkTankOutput,
+        summary: '',
+        createdAt: now,
+      },
+    ],
   };
 
   const currentProposals = $proposals.get();
@@ -90,6 +121,56 @@ export function getProposal(id: string): SubmittedProposal | null {
   return proposals[id] ?? null;
 }
 
+/**
+ * Get a proposal's revision history, oldest first.
+ * Proposals stored before amendments existed read as a single original revision.
+ */
+export function getProposalRevisions(proposal: SubmittedProposal): ProposalRevision[] {
+  if (proposal.revisions && proposal.revisions.length > 0) {
+    return proposal.revisions;
+  }
+  return [
+    {
+      revision: 1,
+      title: proposal.title,
+      thinkTankOutput: proposal.thinkTankOutput,
+      summary: '',
+      createdAt: proposal.submittedAt,
+    },
+  ];
+}
+
+/**
+ * Publish an amendment as a new revision (mock).
+ * The latest revision becomes the proposal's current content.
+ */
+export function amendProposal(id: string, amendment: ProposalAmendment): ProposalRevision | null {
+  const proposals = $proposals.get();
+  const proposal = proposals[id];
+  if (!proposal) return null;
+
+  const revisions = getProposalRevisions(proposal);
+  const revision: ProposalRevision = {
+    revision: revisions[revisions.length - 1].revision + 1,
+    title: amendment.title ?? proposal.title,
+    thinkTankOutput: amendment.thinkTankOutput,
+    summary: amendment.summary,
+    createdAt: Date.now(),
+  };
+
+  $proposals.set({
+    ...proposals,
+    [id]: {
+      ...proposal,
+      title: revision.title,
+      thinkTankOutput: revision.thinkTankOutput,
+      revisions: [...revisions, revision],
+    },
+  });
+
+  return revision;
+}
+
 /**
  * Update proposal status
  */
@@ -103,22 +184,45 @@ export function updateProposalStatus(id: string, status: ProposalStatusType): bo
 
 /**
  * Add a vote to a proposal (mock)
+ *
+ * @param weight - Weight the vote counts for on weighted/quadratic proposals
  */
-export function addVote(id: string, voteFor: boolean): boolean {
+export function addVote(id: string, voteFor: boolean, weight = 1): boolean {
   const proposals = $proposals.get();
   if (!proposals[id]) return false;
 
   const proposal = proposals[id];
-  const updated = {
+  const updated: SubmittedProposal = {
     ...proposal,
     votesFor: voteFor ? proposal.votesFor + 1 : proposal.votesFor,
     votesAgainst: voteFor ? proposal.votesAgainst : proposal.votesAgainst + 1,
   };
+  if (proposal.votingMode && proposal.votingMode !== 'simple') {
+    updated.weightFor = (proposal.weightFor ?? 0) + (voteFor ? weight : 0);
+    updated.weightAgainst = (proposal.weightAgainst ?? 0) + (voteFor ? 0 : weight);
+  }
 
   $proposals.set({ ...proposals, [id]: updated });
   return true;
 }
 
+/**
+ * Record a ranked-choice ballot on a proposal (mock)
+ *
+ * @param ranking - Option IDs, most preferred first
+ */
+export function addRankedBallot(id: string, voter: string, ranking: string[]): boolean {
+  const proposals = $proposals.get();
+  if (!proposals[id]) return false;
+
+  const proposal = proposals[id];
+  $proposals.set({
+    ...proposals,
+    [id]: { ...proposal, rankedBallots: { ...proposal.rankedBallots, [voter]: ranking } },
+  });
+  return true;
+}
+
 /**
  * Clear all proposals (for testing)
  */
@@ -0,0 +1,202 @@
+/**
+ * Staking State Tests
+ *
+ * Tests for stake lifecycle, voting power computation and stake validation.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $staking,
+  $stakingAction,
+  $totalStaked,
+  $stakedVotingPower,
+  getStakeStatus,
+  computeStakeVotingPower,
+  computeVotingPowerBreakdown,
+  projectVotingPower,
+  sumVotingPower,
+  formatDissolveDelay,
+  validateStakeAmount,
+  validateDissolveDelay,
+  setStakingLoading,
+  setStakes,
+  setStakingError,
+  upsertStake,
+  removeStake,
+  setStakingActionPending,
+  setStakingActionError,
+  clearStaking,
+  MAX_DISSOLVE_DELAY_DAYS,
+  MIN_DISSOLVE_DELAY_DAYS,
+  type Stake,
+} from '@/stores';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+const DOM = BigInt(100_000_000);
+const FEE = BigInt(10_000);
+
+function createStake(overrides: Partial<Stake> = {}): Stake {
+  return {
+    id: '1',
+    amount: DOM * BigInt(100),
+    dissolveDelayDays: MAX_DISSOLVE_DELAY_DAYS,
+    dissolveStartedAt: null,
+    agingSince: NOW,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('Staking State', () => {
+  beforeEach(() => {
+    clearStaking();
+  });
+
+  describe('Stake lifecycle', () => {
+    it('should report locked, dissolving and dissolved stakes', () => {
+      expect(getStakeStatus(createStake(), NOW)).toBe('locked');
+
+      const dissolving = createStake({ dissolveDelayDays: 200, dissolveStartedAt: NOW });
+      expect(getStakeStatus(dissolving, NOW + 100 * DAY_MS)).toBe('dissolving');
+      expect(getStakeStatus(dissolving, NOW + 200 * DAY_MS)).toBe('dissolved');
+    });
+  });
+
+  describe('Voting power', () => {
+    it('should double voting power at the maximum dissolve delay', () => {
+      const power = computeStakeVotingPower(createStake(), NOW);
+
+      expect(power.delayMultiplier).toBe(2);
+      expect(power.ageMultiplier).toBe(1);
+      expect(power.eligible).toBe(true);
+      expect(power.votingPower).toBe(DOM * BigInt(200));
+    });
+
+    it('should add the age bonus for locked stakes', () => {
+      const stake = createStake({ agingSince: NOW - MAX_DISSOLVE_DELAY_DAYS * DAY_MS });
+
+      const power = computeStakeVotingPower(stake, NOW);
+
+      expect(power.ageMultiplier).toBe(1.25);
+      expect(power.votingPower).toBe(DOM * BigInt(250));
+    });
+
+    it('should drop age and voting power while dissolving below the minimum', () => {
+      const stake = createStake({
+        dissolveDelayDays: MIN_DISSOLVE_DELAY_DAYS + 10,
+        dissolveStartedAt: NOW,
+        agingSince: NOW - 365 * DAY_MS,
+      });
+
+      const early = computeStakeVotingPower(stake, NOW + 5 * DAY_MS);
+      expect(early.eligible).toBe(true);
+      expect(early.ageDays).toBe(0);
+      expect(early.dissolveDelayDays).toBe(MIN_DISSOLVE_DELAY_DAYS + 5);
+
+      const late = computeStakeVotingPower(stake, NOW + 20 * DAY_MS);
+      expect(late.eligible).toBe(false);
+      expect(late.votingPower).toBe(BigInt(0));
+    });
+
+    it('should project voting power for a new stake', () => {
+      expect(projectVotingPower(DOM * BigInt(10), MAX_DISSOLVE_DELAY_DAYS)).toBe(
+        DOM * BigInt(20)
+      );
+      expect(projectVotingPower(DOM * BigInt(10), MIN_DISSOLVE_DELAY_DAYS - 1)).toBe(BigInt(0));
+    });
+
+    it('should only count stakes that existed at the time of the vote', () => {
+      const stakes = [
+        createStake({ id: '1', createdAt: NOW - DAY_MS }),
+        createStake({ id: '2', createdAt: NOW + DAY_MS }),
+      ];
+
+      const breakdown = computeVotingPowerBreakdown(stakes, NOW);
+
+      expect(breakdown.map((s) => s.stakeId)).toEqual(['1']);
+      expect(sumVotingPower(breakdown)).toBe(DOM * BigInt(200));
+    });
+  });
+
+  describe('Validation', () => {
+    it('should validate the stake amount against the minimum and the balance', () => {
+      expect(validateStakeAmount(DOM / BigInt(2), DOM * BigInt(10), FEE)).toBe(
+        'Minimum stake is 1.00 DOM'
+      );
+      expect(validateStakeAmount(DOM * BigInt(10), DOM * BigInt(10), FEE)).toContain(
+        'Maximum stake is'
+      );
+      expect(validateStakeAmount(DOM * BigInt(5), DOM * BigInt(10), FEE)).toBeNull();
+    });
+
+    it('should validate the dissolve delay', () => {
+      expect(validateDissolveDelay(MIN_DISSOLVE_DELAY_DAYS - 1)).toBe(
+        'Dissolve delay must be at least 182 days'
+      );
+      expect(validateDissolveDelay(MAX_DISSOLVE_DELAY_DAYS + 1)).toBe(
+        'Dissolve delay cannot exceed 4 years 1 day'
+      );
+      expect(validateDissolveDelay(300, 300)).toBe(
+        'New dissolve delay must be longer than the current one'
+      );
+      expect(validateDissolveDelay(400, 300)).toBeNull();
+    });
+
+    it('should format dissolve delays', () => {
+      expect(formatDissolveDelay(182)).toBe('182 days');
+      expect(formatDissolveDelay(365)).toBe('1 year');
+      expect(formatDissolveDelay(731)).toBe('2 years 1 day');
+    });
+  });
+
+  describe('Actions', () => {
+    it('should store stakes and compute totals', () => {
+      setStakingLoading(true);
+      expect($staking.get().isLoading).toBe(true);
+
+      setStakes(SELF, [
+        createStake({ id: '1', agingSince: Date.now(), createdAt: Date.now() }),
+        createStake({
+          id: '2',
+          amount: DOM,
+          dissolveDelayDays: 10,
+          dissolveStartedAt: Date.now(),
+        }),
+      ]);
+
+      expect($staking.get().isLoading).toBe(false);
+      expect($totalStaked.get()).toBe(DOM * BigInt(101));
+      // The dissolving stake is below the minimum delay and adds nothing
+      expect($stakedVotingPower.get()).toBe(DOM * BigInt(200));
+    });
+
+    it('should upsert and remove stakes', () => {
+      setStakes(SELF, [createStake({ id: '1' })]);
+
+      upsertStake(createStake({ id: '1', dissolveStartedAt: NOW }));
+      upsertStake(createStake({ id: '2' }));
+      expect($staking.get().stakes).toHaveLength(2);
+      expect($staking.get().stakes[0].dissolveStartedAt).toBe(NOW);
+
+      removeStake('1');
+      expect($staking.get().stakes.map((s) => s.id)).toEqual(['2']);
+    });
+
+    it('should track action and fetch errors and clear everything', () => {
+      setStakingActionPending('extend', '1');
+      expect($stakingAction.get()).toEqual({ pendingAction: 'extend', stakeId: '1', error: null });
+
+      setStakingActionError('NotFound');
+      expect($stakingAction.get().error).toBe('NotFound');
+
+      setStakingError('Request timeout');
+      expect($staking.get().error).toBe('Request timeout');
+
+      clearStaking();
+      expect($staking.get().error).toBeNull();
+      expect($stakingAction.get().error).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Staking State Management
+ *
+ * Manages DOM stakes (voting-power locks) using nanostores.
+ * Modelled on NNS neurons: a member locks DOM with a dissolve delay, and a
+ * stake's voting power grows with its dissolve delay and its age. Unstaking
+ * starts the dissolve timer; the DOM can be withdrawn once it reaches zero.
+ */
+
+import { atom, computed } from 'nanostores';
+import { formatTokenAmount, TOKEN_DECIMALS } from './tokenBalance';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Stake lifecycle state
+ */
+export type StakeStatus = 'locked' | 'dissolving' | 'dissolved';
+
+/**
+ * DOM locked for voting power
+ */
+export interface Stake {
+  /** Stake ID */
+  id: string;
+  /** Tokens locked (in e8s) */
+  amount: bigint;
+  /** Dissolve delay in days (counts down once dissolving) */
+  dissolveDelayDays: number;
+  /** Unix ms timestamp when dissolving started (null while locked) */
+  dissolveStartedAt: number | null;
+  /** Unix ms timestamp age is counted from (reset when dissolving starts) */
+  agingSince: number;
+  /** Unix ms timestamp the stake was created */
+  createdAt: number;
+}
+
+/**
+ * How a stake's voting power is computed at a point in time
+ */
+export interface StakeVotingPower {
+  /** Stake ID */
+  stakeId: string;
+  /** Tokens locked (in e8s) */
+  amount: bigint;
+  /** Remaining dissolve delay in days */
+  dissolveDelayDays: number;
+  /** Stake age in days */
+  ageDays: number;
+  /** Dissolve delay bonus (1 = no bonus) */
+  delayMultiplier: number;
+  /** Age bonus (1 = no bonus) */
+  ageMultiplier: number;
+  /** Whether the remaining delay meets the minimum for voting power */
+  eligible: boolean;
+  /** Resulting voting power (in e8s) */
+  votingPower: bigint;
+}
+
+/**
+ * Staking state
+ */
+export interface StakingState {
+  /** Account the stakes belong to */
+  principal: string | null;
+  /** The member's stakes */
+  stakes: Stake[];
+  /** Last successful fetch timestamp */
+  lastUpdated: number | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
+/**
+ * Staking action kind
+ */
+export type StakingActionType = 'stake' | 'dissolve' | 'extend' | 'withdraw';
+
+/**
+ * Staking action state
+ */
+export interface StakingActionState {
+  /** Action in flight */
+  pendingAction: StakingActionType | null;
+  /** Stake the action applies to (null for new stakes) */
+  stakeId: string | null;
+  /** Error from the last action */
+  error: string | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Minimum stake (1 DOM) */
+export const MIN_STAKE_AMOUNT = BigInt(100_000_000);
+
+/** Minimum dissolve delay for voting power (6 months) */
+export const MIN_DISSOLVE_DELAY_DAYS = 182;
+
+/** Maximum dissolve delay (4 years) */
+export const MAX_DISSOLVE_DELAY_DAYS = 1461;
+
+/** Age at which the age bonus is maxed out (4 years) */
+export const MAX_STAKE_AGE_DAYS = 1461;
+
+/** Voting power bonus at the maximum dissolve delay (+100%) */
+export const MAX_DELAY_BONUS = 1;
+
+/** Voting power bonus at the maximum age (+25%) */
+export const MAX_AGE_BONUS = 0.25;
+
+/** Milliseconds per day */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Multipliers are applied in basis points to keep e8s math in bigint */
+const BASIS_POINTS = 10_000;
+
+/** Initial staking state */
+const INITIAL_STATE: StakingState = {
+  principal: null,
+  stakes: [],
+  lastUpdated: null,
+  isLoading: false,
+  error: null,
+};
+
+/** Initial action state */
+const INITIAL_ACTION_STATE: StakingActionState = {
+  pendingAction: null,
+  stakeId: null,
+  error: null,
+};
+
+// ============================================================================
+// Voting Power
+// ============================================================================
+
+/**
+ * Dissolve delay bonus: linear from 1x at no delay to 2x at the maximum
+ * @param delayDays - Remaining dissolve delay in days
+ */
+export function getDelayMultiplier(delayDays: number): number {
+  const capped = Math.min(Math.max(delayDays, 0), MAX_DISSOLVE_DELAY_DAYS);
+  return 1 + (MAX_DELAY_BONUS * capped) / MAX_DISSOLVE_DELAY_DAYS;
+}
+
+/**
+ * Age bonus: linear from 1x for a new stake to 1.25x at the maximum age
+ * @param ageDays - Stake age in days
+ */
+export function getAgeMultiplier(ageDays: number): number {
+  const capped = Math.min(Math.max(ageDays, 0), MAX_STAKE_AGE_DAYS);
+  return 1 + (MAX_AGE_BONUS * capped) / MAX_STAKE_AGE_DAYS;
+}
+
+/**
+ * Remaining dissolve delay of a stake in days
+ * @param stake - Stake
+ * @param at - Unix ms timestamp
+ */
+export function getRemainingDissolveDelayDays(stake: Stake, at: number = Date.now()): number {
+  if (stake.dissolveStartedAt === null) return stake.dissolveDelayDays;
+  const elapsedDays = (at - stake.dissolveStartedAt) / DAY_MS;
+  return Math.max(0, stake.dissolveDelayDays - elapsedDays);
+}
+
+/**
+ * Lifecycle state of a stake
+ * @param stake - Stake
+ * @param at - Unix ms timestamp
+ */
+export function getStakeStatus(stake: Stake, at: number = Date.now()): StakeStatus {
+  if (stake.dissolveStartedAt === null) return 'locked';
+  return getRemainingDissolveDelayDays(stake, at) > 0 ? 'dissolving' : 'dissolved';
+}
+
+/**
+ * Apply multipliers to an e8s amount
+ */
+function applyMultipliers(amount: bigint, delayMultiplier: number, ageMultiplier: number): bigint {
+  const delayBps = BigInt(Math.round(delayMultiplier * BASIS_POINTS));
+  const ageBps = BigInt(Math.round(ageMultiplier * BASIS_POINTS));
+  return (amount * delayBps * ageBps) / BigInt(BASIS_POINTS * BASIS_POINTS);
+}
+
+/**
+ * Compute a stake's voting power at a point in time:
+ * amount × dissolve delay bonus × age bonus, or zero when the remaining
+ * dissolve delay is below the minimum. Dissolving stakes do not age.
+ * @param stake - Stake
+ * @param at - Unix ms timestamp
+ */
+export function computeStakeVotingPower(stake: Stake, at: number = Date.now()): StakeVotingPower {
+  const dissolveDelayDays = getRemainingDissolveDelayDays(stake, at);
+  const ageDays =
+    stake.dissolveStartedAt === null ? Math.max(0, (at - stake.agingSince) / DAY_MS) : 0;
+  const delayMultiplier = getDelayMultiplier(dissolveDelayDays);
+  const ageMultiplier = getAgeMultiplier(ageDays);
+  const eligible = dissolveDelayDays >= MIN_DISSOLVE_DELAY_DAYS;
+
+  return {
+    stakeId: stake.id,
+    amount: stake.amount,
+    dissolveDelayDays,
+    ageDays,
+    delayMultiplier,
+    ageMultiplier,
+    eligible,
+    votingPower: eligible
+      ? applyMultipliers(stake.amount, delayMultiplier, ageMultiplier)
+      : BigInt(0),
+  };
+}
+
+/**
+ * Voting power a new stake would start with
+ * @param amount - Tokens to lock (in e8s)
+ * @param delayDays - Dissolve delay in days
+ */
+export function projectVotingPower(amount: bigint, delayDays: number): bigint {
+  if (delayDays < MIN_DISSOLVE_DELAY_DAYS) return BigInt(0);
+  return applyMultipliers(amount, getDelayMultiplier(delayDays), 1);
+}
+
+/**
+ * Voting power breakdown of stakes that existed at a point in time
+ * @param stakes - The member's stakes
+ * @param at - Unix ms timestamp (e.g., a proposal's snapshot time)
+ */
+export function computeVotingPowerBreakdown(stakes: Stake[], at: number): StakeVotingPower[] {
+  return stakes
+    .filter((stake) => stake.createdAt <= at)
+    .map((stake) => computeStakeVotingPower(stake, at));
+}
+
+/**
+ * Sum the voting power of a breakdown
+ * @param breakdown - Per-stake voting power
+ */
+export function sumVotingPower(breakdown: StakeVotingPower[]): bigint {
+  return breakdown.reduce((sum, s) => sum + s.votingPower, BigInt(0));
+}
+
+/**
+ * Format a multiplier for display, e.g. "1.50x"
+ * @param multiplier - Multiplier
+ */
+export function formatMultiplier(multiplier: number): string {
+  return `${multiplier.toFixed(2)}x`;
+}
+
+/**
+ * Format a duration in days for display, e.g. "2 years 30 days"
+ * @param days - Duration in days
+ */
+export function formatDissolveDelay(days: number): string {
+  const whole = Math.ceil(days);
+  const years = Math.floor(whole / 365);
+  const rest = whole % 365;
+  const parts: string[] = [];
+  if (years > 0) parts.push(`${years} ${years === 1 ? 'year' : 'years'}`);
+  if (rest > 0 || years === 0) parts.push(`${rest} ${rest === 1 ? 'day' : 'days'}`);
+  return parts.join(' ');
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a stake amount. Staking pays two ledger fees: one for the
+ * approval and one for the transfer into the stake.
+ * @param amount - Tokens to lock (in e8s)
+ * @param balance - Current balance (in e8s)
+ * @param fee - Ledger fee (in e8s)
+ * @returns Error message or null if valid
+ */
+export function validateStakeAmount(amount: bigint, balance: bigint, fee: bigint): string | null {
+  if (amount < MIN_STAKE_AMOUNT) {
+    return `Minimum stake is ${formatTokenAmount(MIN_STAKE_AMOUNT, TOKEN_DECIMALS)} DOM`;
+  }
+  const fees = fee * BigInt(2);
+  if (amount + fees > balance) {
+    const max = balance > fees ? balance - fees : BigInt(0);
+    return `Maximum stake is ${formatTokenAmount(max, TOKEN_DECIMALS)} DOM (fees reserved)`;
+  }
+  return null;
+}
+
+/**
+ * Validate a dissolve delay
+ * @param days - Dissolve delay in days
+ * @param currentDays - Current delay when extending (new delay must be longer)
+ * @returns Error message or null if valid
+ */
+export function validateDissolveDelay(days: number, currentDays: number = 0): string | null {
+  if (!Number.isInteger(days) || days < MIN_DISSOLVE_DELAY_DAYS) {
+    return `Dissolve delay must be at least ${formatDissolveDelay(MIN_DISSOLVE_DELAY_DAYS)}`;
+  }
+  if (days > MAX_DISSOLVE_DELAY_DAYS) {
+    return `Dissolve delay cannot exceed ${formatDissolveDelay(MAX_DISSOLVE_DELAY_DAYS)}`;
+  }
+  if (days <= currentDays) {
+    return 'New dissolve delay must be longer than the current one';
+  }
+  return null;
+}
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Staking store
+ */
+export const $staking = atom<StakingState>({ ...INITIAL_STATE });
+
+/**
+ * Staking action store
+ */
+export const $stakingAction = atom<StakingActionState>({ ...INITIAL_ACTION_STATE });
+
+// ============================================================================
+// Computed Atoms
+// ============================================================================
+
+/**
+ * Total DOM locked in stakes (in e8s)
+ */
+export const $totalStaked = computed($staking, (state) =>
+  state.stakes.reduce((sum, stake) => sum + stake.amount, BigInt(0))
+);
+
+/**
+ * The member's current voting power from stakes (in e8s)
+ */
+export const $stakedVotingPower = computed($staking, (state) =>
+  sumVotingPower(state.stakes.map((stake) => computeStakeVotingPower(stake)))
+);
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Set staking loading state
+ */
+export function setStakingLoading(isLoading: boolean): void {
+  const current = $staking.get();
+  $staking.set({
+    ...current,
+    isLoading,
+    error: isLoading ? null : current.error,
+  });
+}
+
+/**
+ * Set fetched stakes
+ * @param principal - Account the stakes belong to
+ * @param stakes - The member's stakes
+ */
+export function setStakes(principal: string, stakes: Stake[]): void {
+  $staking.set({
+    principal,
+    stakes,
+    lastUpdated: Date.now(),
+    isLoading: false,
+    error: null,
+  });
+}
+
+/**
+ * Set staking error state
+ * @param error - Error message
+ */
+export function setStakingError(error: string): void {
+  const current = $staking.get();
+  $staking.set({
+    ...current,
+    isLoading: false,
+    error,
+  });
+}
+
+/**
+ * Insert or replace a stake (after stake, dissolve or extend)
+ * @param stake - Updated stake
+ */
+export function upsertStake(stake: Stake): void {
+  const current = $staking.get();
+  const exists = current.stakes.some((s) => s.id === stake.id);
+  $staking.set({
+    ...current,
+    stakes: exists
+      ? current.stakes.map((s) => (s.id === stake.id ? stake : s))
+      : [...current.stakes, stake],
+  });
+}
+
+/**
+ * Remove a stake (after withdrawal)
+ * @param stakeId - Stake ID
+ */
+export function removeStake(stakeId: string): void {
+  const current = $staking.get();
+  $staking.set({
+    ...current,
+    stakes: current.stakes.filter((s) => s.id !== stakeId),
+  });
+}
+
+/**
+ * Mark a staking action as in flight
+ * @param action - Action kind
+ * @param stakeId - Stake the action applies to (null for new stakes)
+ */
+export function setStakingActionPending(action: StakingActionType, stakeId: string | null): void {
+  $stakingAction.set({ pendingAction: action, stakeId, error: null });
+}
+
+/**
+ * Set staking action error
+ * @param error - Error message
+ */
+export function setStakingActionError(error: string): void {
+  $stakingAction.set({ pendingAction: null, stakeId: null, error });
+}
+
+/**
+ * Reset staking action state
+ */
+export function resetStakingAction(): void {
+  $stakingAction.set({ ...INITIAL_ACTION_STATE });
+}
+
+/**
+ * Clear staking state (e.g., on logout)
+ */
+export function clearStaking(): void {
+  $staking.set({ ...INITIAL_STATE });
+  resetStakingAction();
+}
+
+// ============================================================================
+// Export Actions Object
+// ============================================================================
+
+export const stakingActions = {
+  setLoading: setStakingLoading,
+  setStakes,
+  setError: setStakingError,
+  upsert: upsertStake,
+  remove: removeStake,
+  setActionPending: setStakingActionPending,
+  setActionError: setStakingActionError,
+  resetAction: resetStakingAction,
+  clear: clearStaking,
+};
@@ -0,0 +1,252 @@
+/**
+ * Transfer State Tests
+ *
+ * Tests for the persisted transfer history, recipient picker list and
+ * transfer validation.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $userTransferHistory,
+  $transferHistory,
+  $pendingTransfers,
+  $transferExecution,
+  addTransferRecord,
+  updateTransferRecordStatus,
+  clearTransferHistory,
+  getPendingTransferRecord,
+  setTransferPending,
+  setTransferSuccess,
+  setTransferExecutionError,
+  resetTransferExecution,
+  buildTransferRecipients,
+  subaccountFromHex,
+  validateTransferRecipient,
+  validateTransferAmount,
+  validateTransferMemo,
+  getMaxTransferAmount,
+  formatExactTokenAmount,
+  generateTransferId,
+  MAX_TRANSFER_HISTORY_RECORDS,
+  type LocalTransferRecord,
+  type ContactRequest,
+  type MemberProfile,
+} from '@/stores';
+
+const ALICE = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+const BOB = 'ryjl3-tyaaa-aaaaa-aaaba-cai';
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const FEE = BigInt(10_000);
+
+function createMockTransferRecord(
+  overrides: Partial<LocalTransferRecord> = {}
+): LocalTransferRecord {
+  return {
+    id: `transfer-${Date.now()}-test`,
+    principal: SELF,
+    to: ALICE,
+    amount: BigInt(100_000_000), // 1 DOM
+    fee: FEE,
+    createdAtTime: BigInt(1_700_000_000_000_000_000),
+    timestamp: Date.now(),
+    status: 'confirmed',
+    ...overrides,
+  };
+}
+
+function createContact(to: string): ContactRequest {
+  return {
+    id: `contact-${to}`,
+    from: SELF,
+    to,
+    message: 'Hi',
+    status: 'approved',
+    createdAt: BigInt(0),
+  };
+}
+
+function createMember(principal: string, displayName: string): MemberProfile {
+  return {
+    principal,
+    displayName,
+    joinDate: '2025-01-01',
+    archetype: 'Builder',
+    isActive: true,
+  };
+}
+
+describe('Transfer State', () => {
+  beforeEach(() => {
+    clearTransferHistory();
+    resetTransferExecution();
+  });
+
+  describe('Transfer History (localStorage)', () => {
+    it('should persist bigint fields as strings and restore them', () => {
+      addTransferRecord(createMockTransferRecord({ id: 't1', memo: 'Thanks' }));
+
+      const stored = $userTransferHistory.get()[0];
+      expect(stored.amount).toBe('100000000');
+      expect(stored.createdAtTime).toBe('1700000000000000000');
+
+      const record = $transferHistory.get()[0];
+      expect(record.amount).toBe(BigInt(100_000_000));
+      expect(record.fee).toBe(FEE);
+      expect(record.createdAtTime).toBe(BigInt(1_700_000_000_000_000_000));
+      expect(record.memo).toBe('Thanks');
+    });
+
+    it('should add newest records first and cap the history', () => {
+      for (let i = 0; i < MAX_TRANSFER_HISTORY_RECORDS + 5; i++) {
+        addTransferRecord(createMockTransferRecord({ id: `t${i}` }));
+      }
+
+      const history = $transferHistory.get();
+      expect(history).toHaveLength(MAX_TRANSFER_HISTORY_RECORDS);
+      expect(history[0].id).toBe(`t${MAX_TRANSFER_HISTORY_RECORDS + 4}`);
+    });
+
+    it('should confirm a pending record with its tx index', () => {
+      addTransferRecord(createMockTransferRecord({ id: 't1', status: 'pending' }));
+      expect(getPendingTransferRecord(SELF)?.id).toBe('t1');
+
+      updateTransferRecordStatus('t1', 'confirmed', '42');
+
+      expect($transferHistory.get()[0]).toMatchObject({ status: 'confirmed', txIndex: '42' });
+      expect($pendingTransfers.get()).toHaveLength(0);
+      expect(getPendingTransferRecord(SELF)).toBeNull();
+    });
+
+    it("should not report another account's pending transfer", () => {
+      addTransferRecord(createMockTransferRecord({ id: 't1', principal: BOB, status: 'pending' }));
+
+      expect(getPendingTransferRecord(SELF)).toBeNull();
+      expect(getPendingTransferRecord(BOB)?.id).toBe('t1');
+    });
+
+    it('should record the failure reason', () => {
+      addTransferRecord(createMockTransferRecord({ id: 't1', status: 'pending' }));
+
+      updateTransferRecordStatus('t1', 'failed', undefined, 'InsufficientFunds');
+
+      expect($transferHistory.get()[0]).toMatchObject({
+        status: 'failed',
+        error: 'InsufficientFunds',
+      });
+    });
+  });
+
+  describe('Transfer Execution State', () => {
+    it('should track pending, success and error', () => {
+      setTransferPending();
+      expect($transferExecution.get().isPending).toBe(true);
+
+      setTransferSuccess('7');
+      expect($transferExecution.get()).toMatchObject({ isPending: false, lastTxIndex: '7' });
+
+      setTransferExecutionError('BadFee');
+      expect($transferExecution.get()).toMatchObject({ isSuccess: false, error: 'BadFee' });
+    });
+  });
+
+  describe('buildTransferRecipients', () => {
+    it('should list contacts first, deduplicated and without the sender', () => {
+      const recipients = buildTransferRecipients(
+        [createContact(BOB)],
+        [createMember(ALICE, 'Alice'), createMember(BOB, 'Bob'), createMember(SELF, 'Me')],
+        SELF
+      );
+
+      expect(recipients).toEqual([
+        { principal: BOB, displayName: 'Bob', source: 'contact' },
+        { principal: ALICE, displayName: 'Alice', source: 'member' },
+      ]);
+    });
+
+    it('should fall back to the principal for contacts not in the directory', () => {
+      const recipients = buildTransferRecipients([createContact(ALICE)], [], SELF);
+
+      expect(recipients[0].displayName).toBe(ALICE);
+    });
+  });
+
+  describe('Validation utilities', () => {
+    describe('validateTransferRecipient', () => {
+      it('should accept a valid principal', () => {
+        expect(validateTransferRecipient(ALICE, '', SELF)).toBeNull();
+      });
+
+      it('should reject empty and malformed principals', () => {
+        expect(validateTransferRecipient('  ')).toBe('Enter the recipient principal');
+        expect(validateTransferRecipient('not-a-principal')).toBe('Invalid principal');
+      });
+
+      it('should validate the subaccount format', () => {
+        expect(validateTransferRecipient(ALICE, 'abc')).toBe(
+          'Subaccount must be 64 hexadecimal characters'
+        );
+        expect(validateTransferRecipient(ALICE, 'ab'.repeat(32))).toBeNull();
+      });
+
+      it('should reject sending to own default account only', () => {
+        expect(validateTransferRecipient(SELF, '', SELF)).toBe(
+          'You cannot send tokens to yourself'
+        );
+        expect(validateTransferRecipient(SELF, '0'.repeat(64), SELF)).toBe(
+          'You cannot send tokens to yourself'
+        );
+        expect(validateTransferRecipient(SELF, '01'.repeat(32), SELF)).toBeNull();
+      });
+    });
+
+    describe('validateTransferAmount', () => {
+      it('should reject zero amounts', () => {
+        expect(validateTransferAmount(BigInt(0), BigInt(1_000_000_000), FEE)).toBe(
+          'Amount must be greater than 0'
+        );
+      });
+
+      it('should reserve the fee', () => {
+        const balance = BigInt(100_000_000); // 1 DOM
+        expect(validateTransferAmount(balance - FEE, balance, FEE)).toBeNull();
+        expect(validateTransferAmount(balance, balance, FEE)).toBe(
+          'Maximum transfer is 0.99 DOM (fee reserved)'
+        );
+      });
+
+      it('should reject balances below the fee', () => {
+        expect(validateTransferAmount(BigInt(1), BigInt(5_000), FEE)).toBe(
+          'Insufficient balance to cover the transfer fee'
+        );
+      });
+    });
+
+    it('should limit memos to 32 bytes', () => {
+      expect(validateTransferMemo('a'.repeat(32))).toBeNull();
+      expect(validateTransferMemo('é'.repeat(17))).toBe('Memo must be at most 32 bytes');
+    });
+
+    it('should compute the maximum transferable amount', () => {
+      expect(getMaxTransferAmount(BigInt(100_000_000), FEE)).toBe(BigInt(99_990_000));
+      expect(getMaxTransferAmount(BigInt(5_000), FEE)).toBe(BigInt(0));
+    });
+
+    it('should decode hex subaccounts', () => {
+      const bytes = subaccountFromHex('ff'.padStart(64, '0'));
+      expect(bytes).toHaveLength(32);
+      expect(bytes[31]).toBe(255);
+      expect(bytes[0]).toBe(0);
+    });
+
+    it('should format fees without rounding them away', () => {
+      expect(formatExactTokenAmount(FEE)).toBe('0.0001');
+      expect(formatExactTokenAmount(BigInt(150_000_000_000))).toBe('1,500.00');
+      expect(formatExactTokenAmount(BigInt(100_010_000))).toBe('1.0001');
+    });
+
+    it('should generate unique transfer IDs', () => {
+      expect(generateTransferId()).toMatch(/^transfer-\d+-[a-z0-9]+$/);
+      expect(generateTransferId()).not.toBe(generateTransferId());
+    });
+  });
+});
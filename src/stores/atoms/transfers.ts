@@ -0,0 +1,484 @@
+/**
+ * Token Transfer State Management
+ *
+ * Manages DOM token transfers between members using nanostores.
+ * Follows the burn.ts pattern: the user's transfers are tracked locally
+ * and pending records are reconciled against the ledger.
+ */
+
+import { atom, computed } from 'nanostores';
+import { persistentAtom } from '@nanostores/persistent';
+import { Principal } from '@dfinity/principal';
+import { formatTokenAmount, TOKEN_DECIMALS } from './tokenBalance';
+import type { ContactRequest, MemberProfile } from './members';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Transfer record status
+ */
+export type TransferRecordStatus = 'pending' | 'confirmed' | 'failed';
+
+/**
+ * Local transfer record stored in localStorage.
+ * The ledger arguments (created_at_time, fee, memo) are kept so a pending
+ * transfer can be matched against the sender's ledger history.
+ */
+export interface LocalTransferRecord {
+  /** ID generated client-side */
+  id: string;
+  /** Sender principal; each account only sees its own transfers */
+  principal: string;
+  /** Recipient principal */
+  to: string;
+  /** Recipient subaccount (64 hex characters) */
+  toSubaccount?: string;
+  /** Tokens sent (in e8s) */
+  amount: bigint;
+  /** Ledger fee paid (in e8s) */
+  fee: bigint;
+  /** Memo text */
+  memo?: string;
+  /** created_at_time sent to the ledger (nanoseconds) */
+  createdAtTime: bigint;
+  /** Unix ms timestamp */
+  timestamp: number;
+  /** Transaction index from icrc1_transfer result */
+  txIndex?: string;
+  /** Transfer status */
+  status: TransferRecordStatus;
+  /** Failure reason */
+  error?: string;
+}
+
+/**
+ * Transfer execution state
+ */
+export interface TransferExecutionState {
+  /** Currently executing transfer */
+  isPending: boolean;
+  /** Success state after transfer */
+  isSuccess: boolean;
+  /** Last successful transfer tx index */
+  lastTxIndex: string | null;
+  /** Error message if transfer failed */
+  error: string | null;
+}
+
+/**
+ * Recipient offered by the transfer recipient picker
+ */
+export interface TransferRecipient {
+  principal: string;
+  displayName: string;
+  source: 'contact' | 'member';
+}
+
+/**
+ * Serializable format for localStorage persistence
+ */
+interface SerializedTransferRecord {
+  id: string;
+  principal: string;
+  to: string;
+  toSubaccount?: string;
+  amount: string; // BigInt as string
+  fee: string; // BigInt as string
+  memo?: string;
+  createdAtTime: string; // BigInt as string
+  timestamp: number;
+  txIndex?: string;
+  status: TransferRecordStatus;
+  error?: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Default ICRC-1 transfer fee until icrc1_fee has been fetched (0.0001 DOM) */
+export const DEFAULT_TRANSFER_FEE = BigInt(10_000);
+
+/** Maximum memo length in bytes (ICRC-1 ledgers accept up to 32) */
+export const MAX_TRANSFER_MEMO_BYTES = 32;
+
+/** Maximum transfer history records to keep in localStorage */
+export const MAX_TRANSFER_HISTORY_RECORDS = 100;
+
+/** LocalStorage key for transfer history */
+export const TRANSFER_HISTORY_STORAGE_KEY = 'hwdao-transfer-history';
+
+/** Initial transfer execution state */
+const INITIAL_EXECUTION_STATE: TransferExecutionState = {
+  isPending: false,
+  isSuccess: false,
+  lastTxIndex: null,
+  error: null,
+};
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Transfer execution state store
+ */
+export const $transferExecution = atom<TransferExecutionState>({ ...INITIAL_EXECUTION_STATE });
+
+/**
+ * Ledger transfer fee (null until fetched)
+ */
+export const $transferFee = atom<bigint | null>(null);
+
+/**
+ * User's transfer history stored in localStorage
+ */
+export const $userTransferHistory = persistentAtom<SerializedTransferRecord[]>(
+  TRANSFER_HISTORY_STORAGE_KEY,
+  [],
+  {
+    encode: JSON.stringify,
+    decode: (str) => {
+      try {
+        return JSON.parse(str) as SerializedTransferRecord[];
+      } catch {
+        return [];
+      }
+    },
+  }
+);
+
+// ============================================================================
+// Computed Atoms
+// ============================================================================
+
+/**
+ * Transfer execution pending state
+ */
+export const $isTransferPending = computed($transferExecution, (state) => state.isPending);
+
+/**
+ * Deserialized transfer history (converts BigInt strings back)
+ */
+export const $transferHistory = computed(
+  $userTransferHistory,
+  (records): LocalTransferRecord[] =>
+    records.map((record) => ({
+      ...record,
+      amount: BigInt(record.amount),
+      fee: BigInt(record.fee),
+      createdAtTime: BigInt(record.createdAtTime),
+    }))
+);
+
+/**
+ * Transfers not yet confirmed or failed by the ledger
+ */
+export const $pendingTransfers = computed($transferHistory, (records) =>
+  records.filter((r) => r.status === 'pending')
+);
+
+// ============================================================================
+// Actions - Transfer Execution
+// ============================================================================
+
+/**
+ * Set transfer execution to pending state
+ */
+export function setTransferPending(): void {
+  $transferExecution.set({ ...INITIAL_EXECUTION_STATE, isPending: true });
+}
+
+/**
+ * Set transfer execution success
+ * @param txIndex - Transaction index from canister
+ */
+export function setTransferSuccess(txIndex: string): void {
+  $transferExecution.set({
+    isPending: false,
+    isSuccess: true,
+    lastTxIndex: txIndex,
+    error: null,
+  });
+}
+
+/**
+ * Set transfer execution error
+ * @param error - Error message
+ */
+export function setTransferExecutionError(error: string): void {
+  $transferExecution.set({
+    ...$transferExecution.get(),
+    isPending: false,
+    isSuccess: false,
+    error,
+  });
+}
+
+/**
+ * Reset transfer execution state (e.g., to allow a new transfer)
+ */
+export function resetTransferExecution(): void {
+  $transferExecution.set({ ...INITIAL_EXECUTION_STATE });
+}
+
+/**
+ * Set the ledger transfer fee
+ * @param fee - Fee in e8s
+ */
+export function setTransferFee(fee: bigint): void {
+  $transferFee.set(fee);
+}
+
+// ============================================================================
+// Actions - Transfer History (localStorage)
+// ============================================================================
+
+/**
+ * Add a transfer record to localStorage history
+ * @param record - Transfer record to add
+ */
+export function addTransferRecord(record: LocalTransferRecord): void {
+  const serialized: SerializedTransferRecord = {
+    ...record,
+    amount: record.amount.toString(),
+    fee: record.fee.toString(),
+    createdAtTime: record.createdAtTime.toString(),
+  };
+
+  const current = $userTransferHistory.get();
+  const updated = [serialized, ...current].slice(0, MAX_TRANSFER_HISTORY_RECORDS);
+  $userTransferHistory.set(updated);
+}
+
+/**
+ * Update a transfer record status (e.g., pending -> confirmed)
+ * @param id - Record ID
+ * @param status - New status
+ * @param txIndex - Transaction index (if confirming)
+ * @param error - Failure reason (if failing)
+ */
+export function updateTransferRecordStatus(
+  id: string,
+  status: TransferRecordStatus,
+  txIndex?: string,
+  error?: string
+): void {
+  const current = $userTransferHistory.get();
+  const updated = current.map((record) =>
+    record.id === id
+      ? { ...record, status, txIndex: txIndex ?? record.txIndex, error: error ?? record.error }
+      : record
+  );
+  $userTransferHistory.set(updated);
+}
+
+/**
+ * Clear all transfer history from localStorage
+ */
+export function clearTransferHistory(): void {
+  $userTransferHistory.set([]);
+}
+
+/**
+ * Get an account's pending transfer record (if any)
+ * @param principal - Sender principal
+ */
+export function getPendingTransferRecord(principal: string): LocalTransferRecord | null {
+  return $pendingTransfers.get().find((record) => record.principal === principal) ?? null;
+}
+
+// ============================================================================
+// Recipients
+// ============================================================================
+
+/**
+ * Recipients for the transfer picker: approved contacts first, then directory
+ * members. Deduplicated by principal, excluding the sender.
+ *
+ * @param contacts - Approved contact requests sent by the user
+ * @param members - Member directory entries
+ * @param selfPrincipal - The sender's principal
+ */
+export function buildTransferRecipients(
+  contacts: ContactRequest[],
+  members: MemberProfile[],
+  selfPrincipal: string | null
+): TransferRecipient[] {
+  const names = new Map(members.map((m) => [m.principal, m.displayName]));
+  const seen = new Set<string>(selfPrincipal ? [selfPrincipal] : []);
+  const recipients: TransferRecipient[] = [];
+
+  for (const contact of contacts) {
+    if (seen.has(contact.to)) continue;
+    seen.add(contact.to);
+    recipients.push({
+      principal: contact.to,
+      displayName: names.get(contact.to) ?? contact.to,
+      source: 'contact',
+    });
+  }
+
+  for (const member of members) {
+    if (seen.has(member.principal)) continue;
+    seen.add(member.principal);
+    recipients.push({
+      principal: member.principal,
+      displayName: member.displayName,
+      source: 'member',
+    });
+  }
+
+  return recipients;
+}
+
+// ============================================================================
+// Validation Utilities
+// ============================================================================
+
+/**
+ * Convert a 64 character hex subaccount to bytes
+ * @param hex - Subaccount as hex
+ */
+export function subaccountFromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Validate a transfer recipient
+ * @param principal - Recipient principal text
+ * @param subaccount - Optional recipient subaccount (hex)
+ * @param selfPrincipal - The sender's principal
+ * @returns Error message or null if valid
+ */
+export function validateTransferRecipient(
+  principal: string,
+  subaccount: string = '',
+  selfPrincipal: string | null = null
+): string | null {
+  const to = principal.trim();
+  if (!to) {
+    return 'Enter the recipient principal';
+  }
+
+  try {
+    Principal.fromText(to);
+  } catch {
+    return 'Invalid principal';
+  }
+
+  const sub = subaccount.trim();
+  if (sub && !/^[0-9a-fA-F]{64}$/.test(sub)) {
+    return 'Subaccount must be 64 hexadecimal characters';
+  }
+
+  const isDefaultSubaccount = !sub || /^0+$/.test(sub);
+  if (to === selfPrincipal && isDefaultSubaccount) {
+    return 'You cannot send tokens to yourself';
+  }
+
+  return null;
+}
+
+/**
+ * Validate transfer amount
+ * @param amount - Amount in e8s
+ * @param balance - User's current balance in e8s
+ * @param fee - Ledger fee in e8s
+ * @returns Error message or null if valid
+ */
+export function validateTransferAmount(
+  amount: bigint,
+  balance: bigint,
+  fee: bigint
+): string | null {
+  if (amount <= BigInt(0)) {
+    return 'Amount must be greater than 0';
+  }
+
+  const maxTransfer = getMaxTransferAmount(balance, fee);
+  if (amount > maxTransfer) {
+    if (maxTransfer <= BigInt(0)) {
+      return 'Insufficient balance to cover the transfer fee';
+    }
+    const formattedMax = formatTokenAmount(maxTransfer, TOKEN_DECIMALS);
+    return `Maximum transfer is ${formattedMax} DOM (fee reserved)`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate transfer memo
+ * @param memo - Memo text
+ * @returns Error message or null if valid
+ */
+export function validateTransferMemo(memo: string): string | null {
+  if (new TextEncoder().encode(memo).length > MAX_TRANSFER_MEMO_BYTES) {
+    return `Memo must be at most ${MAX_TRANSFER_MEMO_BYTES} bytes`;
+  }
+  return null;
+}
+
+/**
+ * Calculate maximum transferable amount (balance minus fee)
+ * @param balance - User's current balance in e8s
+ * @param fee - Ledger fee in e8s
+ */
+export function getMaxTransferAmount(balance: bigint, fee: bigint): bigint {
+  const max = balance - fee;
+  return max > BigInt(0) ? max : BigInt(0);
+}
+
+/**
+ * Format an e8s amount with all significant decimals (at least 2), so
+ * fees such as 0.0001 DOM are not rounded away
+ * @param e8s - Amount in e8s
+ */
+export function formatExactTokenAmount(e8s: bigint): string {
+  const divisor = BigInt(10 ** TOKEN_DECIMALS);
+  const whole = (e8s / divisor).toLocaleString('en-US');
+  const fractional = (e8s % divisor).toString().padStart(TOKEN_DECIMALS, '0');
+  const trimmed = fractional.replace(/0+$/, '').padEnd(2, '0');
+  return `${whole}.${trimmed}`;
+}
+
+/**
+ * Generate a unique ID for transfer records
+ */
+export function generateTransferId(): string {
+  return `transfer-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// ============================================================================
+// Export Actions Object
+// ============================================================================
+
+export const transferActions = {
+  // Execution actions
+  setPending: setTransferPending,
+  setSuccess: setTransferSuccess,
+  setExecutionError: setTransferExecutionError,
+  resetExecution: resetTransferExecution,
+  setFee: setTransferFee,
+
+  // History actions
+  addRecord: addTransferRecord,
+  updateRecordStatus: updateTransferRecordStatus,
+  clearHistory: clearTransferHistory,
+  getPendingRecord: getPendingTransferRecord,
+
+  // Validation
+  validateRecipient: validateTransferRecipient,
+  validateAmount: validateTransferAmount,
+  validateMemo: validateTransferMemo,
+  getMaxAmount: getMaxTransferAmount,
+  formatExactAmount: formatExactTokenAmount,
+  generateId: generateTransferId,
+};
@@ -28,6 +28,18 @@ import {
   clearTreasury,
   isTreasuryStale,
   getTreasuryBalance,
+  $transactionHistory,
+  $transactionFilters,
+  $hasMoreTransactions,
+  $hasActiveTransactionFilters,
+  setTransactionFilters,
+  resetTransactionFilters,
+  setTransactionHistoryPage,
+  setTransactionHistoryError,
+  matchesTransactionFilters,
+  formatTransactionsCsv,
+  formatTransactionsJson,
+  DEFAULT_TRANSACTION_FILTERS,
   TREASURY_STALE_THRESHOLD_MS,
   type TreasuryBalance,
   type Transaction,
@@ -421,4 +433,142 @@ describe('Treasury State', () => {
       });
     });
   });
+  describe('Transaction history', () => {
+    const timestamp = BigInt(Date.UTC(2026, 2, 15, 12) * 1_000_000);
+
+    describe('paging', () => {
+      it('should append pages and track the next cursor', () => {
+        setTransactionHistoryPage([createMockTransaction({ id: 'tx-1' })], 'cursor-1', false);
+        expect($hasMoreTransactions.get()).toBe(true);
+
+        setTransactionHistoryPage([createMockTransaction({ id: 'tx-2' })], null, true);
+
+        const state = $transactionHistory.get();
+        expect(state.transactions.map((tx) => tx.id)).toEqual(['tx-1', 'tx-2']);
+        expect(state.nextCursor).toBeNull();
+        expect($hasMoreTransactions.get()).toBe(false);
+      });
+
+      it('should reset loaded pages when filters change', () => {
+        setTransactionHistoryPage([createMockTransaction()], 'cursor-1', false);
+
+        setTransactionFilters({ tokenType: 'ICP' });
+
+        expect($transactionHistory.get().transactions).toEqual([]);
+        expect($transactionHistory.get().nextCursor).toBeNull();
+        expect($transactionFilters.get().tokenType).toBe('ICP');
+        expect($hasActiveTransactionFilters.get()).toBe(true);
+      });
+
+      it('should keep loaded pages on error', () => {
+        setTransactionHistoryPage([createMockTransaction()], 'cursor-1', false);
+        setTransactionHistoryError('Request timeout');
+
+        expect($transactionHistory.get().transactions).toHaveLength(1);
+        expect($transactionHistory.get().error).toBe('Request timeout');
+      });
+
+      it('should reset history and filters on clearTreasury', () => {
+        setTransactionFilters({ search: 'grant' });
+        setTransactionHistoryPage([createMockTransaction()], null, false);
+
+        clearTreasury();
+
+        expect($transactionFilters.get()).toEqual(DEFAULT_TRANSACTION_FILTERS);
+        expect($transactionHistory.get().transactions).toEqual([]);
+      });
+
+      it('should reset filters to defaults', () => {
+        setTransactionFilters({ types: ['burn'], minAmount: BigInt(100) });
+        resetTransactionFilters();
+
+        expect($transactionFilters.get()).toEqual(DEFAULT_TRANSACTION_FILTERS);
+        expect($hasActiveTransactionFilters.get()).toBe(false);
+      });
+    });
+
+    describe('matchesTransactionFilters', () => {
+      const tx = createMockTransaction({
+        type: 'payout',
+        amount: BigInt(500_000_000),
+        timestamp,
+        description: 'Community Grant payout',
+        tokenType: 'DOM',
+      });
+      const match = (filters: Partial<typeof DEFAULT_TRANSACTION_FILTERS>) =>
+        matchesTransactionFilters(tx, { ...DEFAULT_TRANSACTION_FILTERS, ...filters });
+
+      it('should match everything with default filters', () => {
+        expect(match({})).toBe(true);
+      });
+
+      it('should filter by type and token', () => {
+        expect(match({ types: ['payout', 'burn'] })).toBe(true);
+        expect(match({ types: ['deposit'] })).toBe(false);
+        expect(match({ tokenType: 'ICP' })).toBe(false);
+      });
+
+      it('should filter by inclusive date range', () => {
+        const ms = Date.UTC(2026, 2, 15, 12);
+        expect(match({ dateFrom: ms, dateTo: ms })).toBe(true);
+        expect(match({ dateFrom: ms + 1 })).toBe(false);
+        expect(match({ dateTo: ms - 1 })).toBe(false);
+      });
+
+      it('should filter by inclusive amount range', () => {
+        expect(match({ minAmount: BigInt(500_000_000), maxAmount: BigInt(500_000_000) })).toBe(
+          true
+        );
+        expect(match({ minAmount: BigInt(500_000_001) })).toBe(false);
+        expect(match({ maxAmount: BigInt(499_999_999) })).toBe(false);
+      });
+
+      it('should search descriptions case-insensitively', () => {
+        expect(match({ search: 'grant' })).toBe(true);
+        expect(match({ search: '  GRANT ' })).toBe(true);
+        expect(match({ search: 'refund' })).toBe(false);
+      });
+    });
+
+    describe('export formatting', () => {
+      const transactions = [
+        createMockTransaction({
+          id: '42',
+          type: 'escrow_release',
+          amount: BigInt(123_450_000_000),
+          timestamp,
+          description: 'Milestone 2, "beta" release',
+          tokenType: 'ICP',
+        }),
+      ];
+
+      it('should format CSV with exact amounts and escaped fields', () => {
+        const csv = formatTransactionsCsv(transactions);
+        const [header, row] = csv.split('\n');
+
+        expect(header).toBe('Date,Type,Amount,Token,Amount (e8s),Description,Transaction ID');
+        expect(row).toBe(
+          '"2026-03-15T12:00:00.000Z","Escrow Release","1234.50000000","ICP",' +
+            '"123450000000","Milestone 2, ""beta"" release","42"'
+        );
+      });
+
+      it('should format JSON with bigints as strings', () => {
+        const parsed = JSON.parse(formatTransactionsJson(transactions));
+
+        expect(parsed).toEqual([
+          {
+            id: '42',
+            type: 'escrow_release',
+            date: '2026-03-15T12:00:00.000Z',
+            timestamp: timestamp.toString(),
+            amount: '1234.50000000',
+            amountE8s: '123450000000',
+            tokenType: 'ICP',
+            description: 'Milestone 2, "beta" release',
+          },
+        ]);
+      });
+    });
+  });
 });
@@ -73,6 +73,47 @@ export interface TreasuryState {
   error: string | null;
 }
 
+/**
+ * Token filter for transaction history
+ */
+export type TransactionTokenFilter = 'all' | 'DOM' | 'ICP';
+
+/**
+ * Transaction history filters
+ */
+export interface TransactionFilters {
+  /** Transaction types to include (empty = all types) */
+  types: TransactionType[];
+  /** Token type to include */
+  tokenType: TransactionTokenFilter;
+  /** Earliest transaction date, inclusive (ms since epoch) */
+  dateFrom: number | null;
+  /** Latest transaction date, inclusive (ms since epoch) */
+  dateTo: number | null;
+  /** Minimum amount in e8s */
+  minAmount: bigint | null;
+  /** Maximum amount in e8s */
+  maxAmount: bigint | null;
+  /** Text search over transaction descriptions */
+  search: string;
+}
+
+/**
+ * Full transaction history state (cursor-paged)
+ */
+export interface TransactionHistoryState {
+  /** Transactions loaded so far, newest first */
+  transactions: Transaction[];
+  /** Cursor for the next page (null when no more pages) */
+  nextCursor: string | null;
+  /** Last successful fetch timestamp */
+  lastUpdated: number | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
 /**
  * Fund allocation category for display
  */
@@ -113,6 +154,26 @@ const INITIAL_STATE: TreasuryState = {
   error: null,
 };
 
+/** Default transaction history filters (everything) */
+export const DEFAULT_TRANSACTION_FILTERS: TransactionFilters = {
+  types: [],
+  tokenType: 'all',
+  dateFrom: null,
+  dateTo: null,
+  minAmount: null,
+  maxAmount: null,
+  search: '',
+};
+
+/** Initial transaction history state */
+const INITIAL_HISTORY_STATE: TransactionHistoryState = {
+  transactions: [],
+  nextCursor: null,
+  lastUpdated: null,
+  isLoading: false,
+  error: null,
+};
+
 // ============================================================================
 // State Atoms
 // ============================================================================
@@ -147,6 +208,39 @@ export const $treasuryBalance = computed($treasury, (state) => state.balance ??
  */
 export const $treasuryTransactions = computed($treasury, (state) => state.transactions);
 
+/**
+ * Full transaction history store
+ */
+export const $transactionHistory = atom<TransactionHistoryState>({ ...INITIAL_HISTORY_STATE });
+
+/**
+ * Active transaction history filters
+ */
+export const $transactionFilters = atom<TransactionFilters>({ ...DEFAULT_TRANSACTION_FILTERS });
+
+/**
+ * Whether more history pages can be loaded
+ */
+export const $hasMoreTransactions = computed(
+  $transactionHistory,
+  (state) => state.nextCursor !== null
+);
+
+/**
+ * Whether any transaction history filter differs from the default
+ */
+export const $hasActiveTransactionFilters = computed(
+  $transactionFilters,
+  (filters) =>
+    filters.types.length > 0 ||
+    filters.tokenType !== 'all' ||
+    filters.dateFrom !== null ||
+    filters.dateTo !== null ||
+    filters.minAmount !== null ||
+    filters.maxAmount !== null ||
+    filters.search.trim() !== ''
+);
+
 /**
  * Total DOM balance (available + pending + escrow)
  */
@@ -327,6 +421,99 @@ export function getTransactionTypeColor(type: TransactionType): string {
   return colors[type] || 'text-gray-600';
 }
 
+/**
+ * Check whether a transaction matches the history filters
+ * @param transaction - Transaction to check
+ * @param filters - Active filters
+ * @returns true if the transaction should be shown
+ */
+export function matchesTransactionFilters(
+  transaction: Transaction,
+  filters: TransactionFilters
+): boolean {
+  if (filters.types.length > 0 && !filters.types.includes(transaction.type)) return false;
+  if (filters.tokenType !== 'all' && transaction.tokenType !== filters.tokenType) return false;
+
+  const ms = Number(transaction.timestamp / BigInt(1_000_000));
+  if (filters.dateFrom !== null && ms < filters.dateFrom) return false;
+  if (filters.dateTo !== null && ms > filters.dateTo) return false;
+
+  if (filters.minAmount !== null && transaction.amount < filters.minAmount) return false;
+  if (filters.maxAmount !== null && transaction.amount > filters.maxAmount) return false;
+
+  const search = filters.search.trim().toLowerCase();
+  if (search && !(transaction.description ?? '').toLowerCase().includes(search)) return false;
+
+  return true;
+}
+
+/**
+ * Format an exact token amount from e8s (all decimals, no separators)
+ * @param e8s - Amount in e8s
+ * @returns Decimal string, e.g. "1234.50000000"
+ */
+function formatExactAmount(e8s: bigint): string {
+  const divisor = BigInt(10 ** TOKEN_DECIMALS);
+  return `${e8s / divisor}.${(e8s % divisor).toString().padStart(TOKEN_DECIMALS, '0')}`;
+}
+
+/**
+ * Convert a nanosecond timestamp to an ISO date string
+ */
+function toIsoDate(timestamp: bigint): string {
+  return new Date(Number(timestamp / BigInt(1_000_000))).toISOString();
+}
+
+/**
+ * Format transactions as CSV for export
+ * @param transactions - Transactions to export
+ * @returns CSV content with header row
+ */
+export function formatTransactionsCsv(transactions: Transaction[]): string {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  const csvHeader = 'Date,Type,Amount,Token,Amount (e8s),Description,Transaction ID\n';
+  const csvRows = transactions
+    .map((tx) =>
+      [
+        toIsoDate(tx.timestamp),
+        getTransactionTypeLabel(tx.type),
+        formatExactAmount(tx.amount),
+        tx.tokenType,
+        tx.amount.toString(),
+        tx.description ?? '',
+        tx.id,
+      ]
+        .map(escape)
+        .join(',')
+    )
+    .join('\n');
+
+  return csvHeader + csvRows;
+}
+
+/**
+ * Format transactions as JSON for export (bigints as strings)
+ * @param transactions - Transactions to export
+ * @returns Pretty-printed JSON array
+ */
+export function formatTransactionsJson(transactions: Transaction[]): string {
+  return JSON.stringify(
+    transactions.map((tx) => ({
+      id: tx.id,
+      type: tx.type,
+      date: toIsoDate(tx.timestamp),
+      timestamp: tx.timestamp.toString(),
+      amount: formatExactAmount(tx.amount),
+      amountE8s: tx.amount.toString(),
+      tokenType: tx.tokenType,
+      description: tx.description ?? null,
+    })),
+    null,
+    2
+  );
+}
+
 // ============================================================================
 // Actions
 // ============================================================================
@@ -376,6 +563,71 @@ export function setTreasuryError(error: string): void {
  */
 export function clearTreasury(): void {
   $treasury.set({ ...INITIAL_STATE });
+  $transactionHistory.set({ ...INITIAL_HISTORY_STATE });
+  $transactionFilters.set({ ...DEFAULT_TRANSACTION_FILTERS });
+}
+
+/**
+ * Update transaction history filters. Loaded pages no longer apply, so the
+ * history is reset to the first page.
+ * @param filters - Filter changes to merge
+ */
+export function setTransactionFilters(filters: Partial<TransactionFilters>): void {
+  $transactionFilters.set({ ...$transactionFilters.get(), ...filters });
+  $transactionHistory.set({ ...INITIAL_HISTORY_STATE });
+}
+
+/**
+ * Reset transaction history filters to the defaults
+ */
+export function resetTransactionFilters(): void {
+  setTransactionFilters({ ...DEFAULT_TRANSACTION_FILTERS });
+}
+
+/**
+ * Set transaction history loading state
+ */
+export function setTransactionHistoryLoading(isLoading: boolean): void {
+  const current = $transactionHistory.get();
+  $transactionHistory.set({
+    ...current,
+    isLoading,
+    error: isLoading ? null : current.error,
+  });
+}
+
+/**
+ * Store a fetched page of transaction history
+ * @param transactions - Transactions in the page
+ * @param nextCursor - Cursor for the following page (null if last page)
+ * @param append - Append to loaded pages (false replaces them)
+ */
+export function setTransactionHistoryPage(
+  transactions: Transaction[],
+  nextCursor: string | null,
+  append: boolean
+): void {
+  const current = $transactionHistory.get();
+  $transactionHistory.set({
+    transactions: append ? [...current.transactions, ...transactions] : transactions,
+    nextCursor,
+    lastUpdated: Date.now(),
+    isLoading: false,
+    error: null,
+  });
+}
+
+/**
+ * Set transaction history error state
+ * @param error - Error message
+ */
+export function setTransactionHistoryError(error: string): void {
+  const current = $transactionHistory.get();
+  $transactionHistory.set({
+    ...current,
+    isLoading: false,
+    error,
+  });
 }
 
 /**
@@ -411,4 +663,12 @@ export const treasuryActions = {
   formatTimestamp,
   getTransactionTypeLabel,
   getTransactionTypeColor,
+  setTransactionFilters,
+  resetTransactionFilters,
+  setHistoryLoading: setTransactionHistoryLoading,
+  setHistoryPage: setTransactionHistoryPage,
+  setHistoryError: setTransactionHistoryError,
+  matchesTransactionFilters,
+  formatTransactionsCsv,
+  formatTransactionsJson,
 };
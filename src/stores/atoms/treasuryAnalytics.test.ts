@@ -0,0 +1,172 @@
+/**
+ * Treasury Analytics State Tests
+ *
+ * Tests for reconstructing balance history, monthly flows, burn rate,
+ * runway and type breakdowns from the treasury ledger.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $treasuryAnalytics,
+  $treasuryLedger,
+  $hasTreasuryLedger,
+  computeTokenAnalytics,
+  setTreasuryData,
+  setTreasuryLedger,
+  setTreasuryLedgerError,
+  clearTreasury,
+  clearTreasuryLedger,
+  type Transaction,
+} from '@/stores';
+
+const DOM = BigInt(100_000_000);
+const NOW = Date.UTC(2026, 5, 15); // mid June 2026
+
+function tx(
+  id: string,
+  type: Transaction['type'],
+  dom: number,
+  month: number,
+  tokenType: Transaction['tokenType'] = 'DOM'
+): Transaction {
+  return {
+    id,
+    type,
+    amount: BigInt(dom) * DOM,
+    timestamp: BigInt(Date.UTC(2026, month, 10)) * BigInt(1_000_000),
+    tokenType,
+  };
+}
+
+describe('Treasury Analytics State', () => {
+  beforeEach(() => {
+    clearTreasury();
+    clearTreasuryLedger();
+  });
+
+  describe('computeTokenAnalytics', () => {
+    const ledger = [
+      tx('1', 'deposit', 1000, 2), // March
+      tx('2', 'payout', 200, 3), // April
+      tx('3', 'deposit', 50, 3),
+      tx('4', 'burn', 300, 4), // May
+      tx('5', 'payout', 100, 5), // June (current month)
+      tx('6', 'deposit', 999, 4, 'ICP'),
+    ];
+
+    it('should reconstruct month-end balances back from the current balance', () => {
+      const analytics = computeTokenAnalytics(ledger, BigInt(450) * DOM, 'DOM', NOW);
+
+      expect(analytics.monthly.map((m) => m.month)).toEqual([
+        '2026-03',
+        '2026-04',
+        '2026-05',
+        '2026-06',
+      ]);
+      expect(analytics.monthly.map((m) => m.closingBalance / DOM)).toEqual([
+        BigInt(1000),
+        BigInt(850),
+        BigInt(550),
+        BigInt(450),
+      ]);
+      expect(analytics.monthly[1]).toEqual(
+        expect.objectContaining({ inflow: BigInt(50) * DOM, outflow: BigInt(200) * DOM })
+      );
+    });
+
+    it('should fill months without activity', () => {
+      const analytics = computeTokenAnalytics(
+        [tx('1', 'deposit', 100, 1)],
+        BigInt(100) * DOM,
+        'DOM',
+        NOW
+      );
+
+      expect(analytics.monthly).toHaveLength(5);
+      expect(analytics.monthly[2]).toEqual(
+        expect.objectContaining({
+          month: '2026-04',
+          net: BigInt(0),
+          closingBalance: BigInt(100) * DOM,
+        })
+      );
+    });
+
+    it('should average burn over complete months and project runway', () => {
+      const analytics = computeTokenAnalytics(ledger, BigInt(450) * DOM, 'DOM', NOW);
+
+      // Mar +1000, Apr -150, May -300: net +550 over three months, so not burning
+      expect(analytics.burnRate).toBe(BigInt(0));
+      expect(analytics.runwayMonths).toBeNull();
+
+      const spending = [tx('1', 'payout', 300, 3), tx('2', 'payout', 150, 4)];
+      const burning = computeTokenAnalytics(spending, BigInt(900) * DOM, 'DOM', NOW);
+
+      // Apr -300, May -150: average burn 225/month, 900 / 225 = 4 months
+      expect(burning.burnRate).toBe(BigInt(225) * DOM);
+      expect(burning.runwayMonths).toBe(4);
+    });
+
+    it('should break down volume by type, largest first', () => {
+      const analytics = computeTokenAnalytics(ledger, BigInt(450) * DOM, 'DOM', NOW);
+
+      expect(analytics.breakdown.map((b) => [b.type, b.count])).toEqual([
+        ['deposit', 2],
+        ['payout', 2],
+        ['burn', 1],
+      ]);
+      expect(analytics.breakdown[0].percentage).toBeCloseTo(63.63, 1);
+    });
+
+    it('should only include the requested token', () => {
+      const analytics = computeTokenAnalytics(ledger, BigInt(999) * DOM, 'ICP', NOW);
+
+      expect(analytics.breakdown).toEqual([
+        expect.objectContaining({ type: 'deposit', count: 1, percentage: 100 }),
+      ]);
+      expect(analytics.monthly[0]).toEqual(
+        expect.objectContaining({ month: '2026-05', closingBalance: BigInt(999) * DOM })
+      );
+    });
+
+    it('should return a single empty month for an empty ledger', () => {
+      const analytics = computeTokenAnalytics([], BigInt(0), 'DOM', NOW);
+
+      expect(analytics.monthly).toHaveLength(1);
+      expect(analytics.breakdown).toEqual([]);
+      expect(analytics.runwayMonths).toBeNull();
+    });
+  });
+
+  describe('$treasuryAnalytics', () => {
+    it('should anchor analytics to the total treasury balance', () => {
+      setTreasuryData(
+        {
+          icpBalance: BigInt(0),
+          domBalance: BigInt(300) * DOM,
+          pendingPayoutsIcp: BigInt(0),
+          pendingPayoutsDom: BigInt(100) * DOM,
+          activeEscrowsIcp: BigInt(0),
+          activeEscrowsDom: BigInt(50) * DOM,
+        },
+        []
+      );
+      setTreasuryLedger([tx('1', 'deposit', 450, 5)], false);
+
+      const { DOM: dom, ICP: icp } = $treasuryAnalytics.get();
+      expect(dom.currentBalance).toBe(BigInt(450) * DOM);
+      expect(icp.breakdown).toEqual([]);
+      expect($hasTreasuryLedger.get()).toBe(true);
+    });
+
+    it('should keep the loaded ledger on error', () => {
+      setTreasuryLedger([tx('1', 'deposit', 10, 5)], true);
+      setTreasuryLedgerError('Request timeout');
+
+      expect($treasuryLedger.get()).toEqual(
+        expect.objectContaining({ truncated: true, error: 'Request timeout' })
+      );
+      expect($treasuryLedger.get().transactions).toHaveLength(1);
+    });
+  });
+});
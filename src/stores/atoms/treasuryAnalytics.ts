@@ -0,0 +1,313 @@
+/**
+ * Treasury Analytics State Management
+ *
+ * Reconstructs treasury history from the transaction ledger: balance over
+ * time, monthly inflow/outflow, burn rate and runway, and totals by
+ * transaction type. The ledger is walked backwards from the current
+ * balance, so the newest point always matches the balance snapshot.
+ */
+
+import { atom, computed } from 'nanostores';
+import {
+  $treasuryBalance,
+  type Transaction,
+  type TransactionType,
+  type TreasuryBalance,
+} from './treasury';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Token tracked by the treasury
+ */
+export type TreasuryToken = Transaction['tokenType'];
+
+/**
+ * Inflow/outflow for one calendar month (UTC)
+ */
+export interface MonthlyTreasuryFlow {
+  /** Month key, e.g. "2026-03" */
+  month: string;
+  /** Total inflow in e8s */
+  inflow: bigint;
+  /** Total outflow in e8s */
+  outflow: bigint;
+  /** Inflow minus outflow in e8s */
+  net: bigint;
+  /** Balance at the end of the month in e8s */
+  closingBalance: bigint;
+}
+
+/**
+ * Totals for one transaction type
+ */
+export interface TransactionTypeBreakdown {
+  /** Transaction type */
+  type: TransactionType;
+  /** Number of transactions */
+  count: number;
+  /** Total amount in e8s */
+  amount: bigint;
+  /** Percentage of all transaction volume (0-100) */
+  percentage: number;
+}
+
+/**
+ * Analytics for one token
+ */
+export interface TokenAnalytics {
+  /** Token type */
+  tokenType: TreasuryToken;
+  /** Current total balance in e8s */
+  currentBalance: bigint;
+  /** Monthly flows, oldest first (at most ANALYTICS_MONTHS) */
+  monthly: MonthlyTreasuryFlow[];
+  /** Average monthly net outflow in e8s (0 when the treasury is growing) */
+  burnRate: bigint;
+  /** Months until the balance runs out at the burn rate (null when not burning) */
+  runwayMonths: number | null;
+  /** Totals by transaction type, largest first */
+  breakdown: TransactionTypeBreakdown[];
+}
+
+/**
+ * Ledger state backing the analytics
+ */
+export interface TreasuryLedgerState {
+  /** Every transaction in the ledger, newest first */
+  transactions: Transaction[];
+  /** Whether the ledger was cut off at the fetch limit */
+  truncated: boolean;
+  /** Last successful fetch timestamp */
+  lastUpdated: number | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Number of months shown in the analytics charts */
+export const ANALYTICS_MONTHS = 12;
+
+/** Number of complete months averaged for the burn rate */
+export const BURN_RATE_WINDOW_MONTHS = 3;
+
+/** Transaction types that add funds to the treasury (everything else removes funds) */
+export const INFLOW_TRANSACTION_TYPES: TransactionType[] = ['deposit'];
+
+/** Initial ledger state */
+const INITIAL_LEDGER_STATE: TreasuryLedgerState = {
+  transactions: [],
+  truncated: false,
+  lastUpdated: null,
+  isLoading: false,
+  error: null,
+};
+
+// ============================================================================
+// Analytics Computation
+// ============================================================================
+
+/**
+ * Month key (UTC) for a nanosecond timestamp
+ */
+function toMonthKey(timestamp: bigint | number): string {
+  const ms = typeof timestamp === 'bigint' ? Number(timestamp / BigInt(1_000_000)) : timestamp;
+  return new Date(ms).toISOString().slice(0, 7);
+}
+
+/**
+ * Month key for the month before the given one
+ */
+function previousMonthKey(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m - 2, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Signed amount of a transaction from the treasury's point of view
+ */
+function signedAmount(transaction: Transaction): bigint {
+  return INFLOW_TRANSACTION_TYPES.includes(transaction.type)
+    ? transaction.amount
+    : -transaction.amount;
+}
+
+/**
+ * Compute analytics for one token from the ledger
+ * @param transactions - Ledger transactions (any order, any token)
+ * @param currentBalance - Current total balance for the token in e8s
+ * @param tokenType - Token to analyse
+ * @param now - Current time in ms (for the current month)
+ * @returns Monthly flows, burn rate, runway and type breakdown
+ */
+export function computeTokenAnalytics(
+  transactions: Transaction[],
+  currentBalance: bigint,
+  tokenType: TreasuryToken,
+  now: number = Date.now()
+): TokenAnalytics {
+  const zero = BigInt(0);
+  const tokenTransactions = transactions.filter((tx) => tx.tokenType === tokenType);
+
+  // Bucket flows by month
+  const flows = new Map<string, { inflow: bigint; outflow: bigint }>();
+  for (const tx of tokenTransactions) {
+    const key = toMonthKey(tx.timestamp);
+    const flow = flows.get(key) ?? { inflow: zero, outflow: zero };
+    if (signedAmount(tx) > zero) flow.inflow += tx.amount;
+    else flow.outflow += tx.amount;
+    flows.set(key, flow);
+  }
+
+  // Walk back from the current month, reconstructing each closing balance
+  const currentMonth = toMonthKey(now);
+  const earliestMonth = [...flows.keys()].sort()[0] ?? currentMonth;
+  const monthly: MonthlyTreasuryFlow[] = [];
+  let closingBalance = currentBalance;
+  for (let month = currentMonth; month >= earliestMonth; month = previousMonthKey(month)) {
+    const flow = flows.get(month) ?? { inflow: zero, outflow: zero };
+    const net = flow.inflow - flow.outflow;
+    monthly.unshift({ month, ...flow, net, closingBalance });
+    closingBalance -= net;
+  }
+
+  // Burn rate: average net outflow over the most recent complete months
+  const completeMonths = monthly.slice(0, -1).slice(-BURN_RATE_WINDOW_MONTHS);
+  const totalNet = completeMonths.reduce((sum, m) => sum + m.net, zero);
+  const burnRate =
+    completeMonths.length > 0 && totalNet < zero
+      ? -totalNet / BigInt(completeMonths.length)
+      : zero;
+  const runwayMonths =
+    burnRate > zero ? Number((currentBalance * BigInt(10)) / burnRate) / 10 : null;
+
+  // Totals by type
+  const totalVolume = tokenTransactions.reduce((sum, tx) => sum + tx.amount, zero);
+  const byType = new Map<TransactionType, { count: number; amount: bigint }>();
+  for (const tx of tokenTransactions) {
+    const entry = byType.get(tx.type) ?? { count: 0, amount: zero };
+    byType.set(tx.type, { count: entry.count + 1, amount: entry.amount + tx.amount });
+  }
+  const breakdown = [...byType.entries()]
+    .map(([type, { count, amount }]) => ({
+      type,
+      count,
+      amount,
+      percentage:
+        totalVolume === zero ? 0 : Number((amount * BigInt(10000)) / totalVolume) / 100,
+    }))
+    .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
+
+  return {
+    tokenType,
+    currentBalance,
+    monthly: monthly.slice(-ANALYTICS_MONTHS),
+    burnRate,
+    runwayMonths,
+    breakdown,
+  };
+}
+
+/**
+ * Current total balance (available + pending + escrow) for a token
+ */
+function getTotalBalance(balance: TreasuryBalance, tokenType: TreasuryToken): bigint {
+  return tokenType === 'DOM'
+    ? balance.domBalance + balance.pendingPayoutsDom + balance.activeEscrowsDom
+    : balance.icpBalance + balance.pendingPayoutsIcp + balance.activeEscrowsIcp;
+}
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Full treasury ledger used for analytics
+ */
+export const $treasuryLedger = atom<TreasuryLedgerState>({ ...INITIAL_LEDGER_STATE });
+
+/**
+ * Has the ledger been fetched
+ */
+export const $hasTreasuryLedger = computed($treasuryLedger, (state) => state.lastUpdated !== null);
+
+/**
+ * Analytics for each token, derived from the ledger and current balance
+ */
+export const $treasuryAnalytics = computed(
+  [$treasuryLedger, $treasuryBalance],
+  (ledger, balance): Record<TreasuryToken, TokenAnalytics> => ({
+    DOM: computeTokenAnalytics(ledger.transactions, getTotalBalance(balance, 'DOM'), 'DOM'),
+    ICP: computeTokenAnalytics(ledger.transactions, getTotalBalance(balance, 'ICP'), 'ICP'),
+  })
+);
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Set ledger loading state
+ */
+export function setTreasuryLedgerLoading(isLoading: boolean): void {
+  const current = $treasuryLedger.get();
+  $treasuryLedger.set({
+    ...current,
+    isLoading,
+    error: isLoading ? null : current.error,
+  });
+}
+
+/**
+ * Set the ledger after a successful fetch
+ * @param transactions - Every ledger transaction
+ * @param truncated - Whether the fetch stopped at its limit
+ */
+export function setTreasuryLedger(transactions: Transaction[], truncated: boolean): void {
+  $treasuryLedger.set({
+    transactions,
+    truncated,
+    lastUpdated: Date.now(),
+    isLoading: false,
+    error: null,
+  });
+}
+
+/**
+ * Set ledger error state after failed fetch
+ * @param error - Error message
+ */
+export function setTreasuryLedgerError(error: string): void {
+  const current = $treasuryLedger.get();
+  $treasuryLedger.set({
+    ...current,
+    isLoading: false,
+    error,
+  });
+}
+
+/**
+ * Clear the ledger (e.g., on logout)
+ */
+export function clearTreasuryLedger(): void {
+  $treasuryLedger.set({ ...INITIAL_LEDGER_STATE });
+}
+
+// ============================================================================
+// Export Actions Object
+// ============================================================================
+
+export const treasuryAnalyticsActions = {
+  setLoading: setTreasuryLedgerLoading,
+  setLedger: setTreasuryLedger,
+  setError: setTreasuryLedgerError,
+  clear: clearTreasuryLedger,
+  computeTokenAnalytics,
+};
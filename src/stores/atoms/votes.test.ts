@@ -1,7 +1,7 @@
 /**
  * Vote State Atoms Tests
  *
- * Tests for vote tally, user vote, and pending vote state management.
+ * Tests for vote tally, user vote, pending vote and offline vote queue state management.
  *
  * Story: 9-1-2-voting-interface
  * AC: 3, 7
@@ -23,6 +23,13 @@ import {
   clearPendingVote,
   hasPendingVote,
   clearAllPendingVotes,
+  $voteQueue,
+  $queuedVoteList,
+  queueVote,
+  getQueuedVote,
+  updateQueuedVote,
+  removeQueuedVote,
+  pruneExpiredQueuedVotes,
   setupCrossTabSync,
   type VoteTally,
   type UserVote,
@@ -34,6 +41,7 @@ describe('Vote State Atoms', () => {
     $voteTallies.set({});
     $userVotes.set({});
     $pendingVotes.set({});
+    $voteQueue.set({});
   });
 
   describe('$voteTallies', () => {
@@ -169,6 +177,71 @@ describe('Vote State Atoms', () => {
     });
   });
 
+  describe('$voteQueue', () => {
+    const inOneDay = () => Date.now() + 24 * 60 * 60 * 1000;
+
+    it('should queue a vote awaiting replay', () => {
+      queueVote({ proposalId: 'prop-1', vote: 'yes', revision: 2, votingEndsAt: inOneDay() });
+
+      const queued = getQueuedVote('prop-1');
+      expect(queued?.vote).toBe('yes');
+      expect(queued?.revision).toBe(2);
+      expect(queued?.status).toBe('queued');
+      expect(queued?.attempts).toBe(0);
+    });
+
+    it('should replace an earlier queued vote for the same proposal', () => {
+      queueVote({ proposalId: 'prop-1', vote: 'yes', votingEndsAt: inOneDay() });
+      queueVote({ proposalId: 'prop-1', vote: 'no', votingEndsAt: inOneDay() });
+
+      expect(Object.keys($voteQueue.get())).toEqual(['prop-1']);
+      expect(getQueuedVote('prop-1')?.vote).toBe('no');
+    });
+
+    it('should update and remove queued votes', () => {
+      queueVote({ proposalId: 'prop-1', vote: 'abstain', votingEndsAt: inOneDay() });
+
+      updateQueuedVote('prop-1', { status: 'failed', error: 'Voting is closed' });
+      expect(getQueuedVote('prop-1')?.status).toBe('failed');
+      expect(getQueuedVote('prop-1')?.error).toBe('Voting is closed');
+
+      removeQueuedVote('prop-1');
+      expect(getQueuedVote('prop-1')).toBeNull();
+    });
+
+    it('should ignore updates for votes that are not queued', () => {
+      updateQueuedVote('prop-1', { status: 'replaying' });
+
+      expect($voteQueue.get()).toEqual({});
+    });
+
+    it('should drop queued votes whose voting period has ended', () => {
+      const now = Date.now();
+      queueVote({ proposalId: 'prop-1', vote: 'yes', votingEndsAt: now - 1000 });
+      queueVote({ proposalId: 'prop-2', vote: 'no', votingEndsAt: now + 1000 });
+
+      const dropped = pruneExpiredQueuedVotes(now);
+
+      expect(dropped.map((entry) => entry.proposalId)).toEqual(['prop-1']);
+      expect(getQueuedVote('prop-1')).toBeNull();
+      expect(getQueuedVote('prop-2')).not.toBeNull();
+    });
+
+    it('should list queued votes oldest first', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+      queueVote({ proposalId: 'prop-2', vote: 'no', votingEndsAt: inOneDay() });
+      vi.setSystemTime(2_000_000);
+      queueVote({ proposalId: 'prop-1', vote: 'yes', votingEndsAt: inOneDay() });
+      vi.useRealTimers();
+
+      expect($queuedVoteList.get().map((entry) => entry.proposalId)).toEqual([
+        'prop-2',
+        'prop-1',
+      ]);
+    });
+  });
+
   describe('Cross-tab sync', () => {
     it('should return cleanup function', () => {
       const cleanup = setupCrossTabSync();
@@ -223,6 +296,22 @@ describe('Vote State Atoms', () => {
       cleanup();
     });
 
+    it('should report vote queue changes from other tabs', () => {
+      const onQueueChange = vi.fn();
+      const cleanup = setupCrossTabSync(undefined, onQueueChange);
+
+      const queue = {
+        'prop-1': { proposalId: 'prop-1', vote: 'yes', status: 'replaying', claimedBy: 'tab-2' },
+      };
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'hwdao:vote-queue', newValue: JSON.stringify(queue) })
+      );
+
+      expect(onQueueChange).toHaveBeenCalledWith(queue);
+
+      cleanup();
+    });
+
     it('should ignore other storage keys', () => {
       const callback = vi.fn();
       const cleanup = setupCrossTabSync(callback);
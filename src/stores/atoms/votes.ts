@@ -2,22 +2,24 @@
  * Vote State Management
  *
  * Nanostores atoms for managing vote state with localStorage persistence
- * and cross-tab synchronization.
+ * and cross-tab synchronization. Votes cast while offline wait in a
+ * persisted queue until they can be replayed.
  *
  * Story: 9-1-2-voting-interface
  * ACs: 3, 7
  */
 
-import { atom } from 'nanostores';
+import { atom, computed } from 'nanostores';
 import { persistentAtom } from '@nanostores/persistent';
-import type { VoteTally, UserVote, VoteChoice, PendingVote } from '../types';
+import type { VoteTally, UserVote, VoteChoice, PendingVote, QueuedVote } from '../types';
 
 // Re-export types for convenience
-export type { VoteTally, UserVote, PendingVote, VoteChoice } from '../types';
+export type { VoteTally, UserVote, PendingVote, QueuedVote, VoteChoice } from '../types';
 
 // Storage keys
 const USER_VOTES_KEY = 'hwdao:user-votes';
 const PENDING_VOTES_KEY = 'hwdao:pending-votes';
+const VOTE_QUEUE_KEY = 'hwdao:vote-queue';
 
 /**
  * Vote tallies by proposal ID (not persisted - fetched from canister)
@@ -49,6 +51,26 @@ export const $pendingVotes = persistentAtom<Record<string, PendingVote>>(
   }
 );
 
+/**
+ * Votes cast while offline, waiting to be replayed on reconnect
+ * Persisted so queued votes survive a reload
+ */
+export const $voteQueue = persistentAtom<Record<string, QueuedVote>>(
+  VOTE_QUEUE_KEY,
+  {},
+  {
+    encode: JSON.stringify,
+    decode: JSON.parse,
+  }
+);
+
+/**
+ * Queued votes, oldest first
+ */
+export const $queuedVoteList = computed($voteQueue, (queue) =>
+  Object.values(queue).sort((a, b) => a.queuedAt - b.queuedAt)
+);
+
 /**
  * Set vote tally for a proposal
  */
@@ -140,14 +162,95 @@ export function clearAllPendingVotes(): void {
   $pendingVotes.set({});
 }
 
+/**
+ * Queue a vote cast while offline (replaces any earlier queued vote for the proposal)
+ */
+export function queueVote(
+  entry: Omit<QueuedVote, 'queuedAt' | 'status' | 'attempts'>
+): QueuedVote {
+  const queuedVote: QueuedVote = {
+    ...entry,
+    queuedAt: Date.now(),
+    status: 'queued',
+    attempts: 0,
+  };
+  const current = $voteQueue.get();
+  $voteQueue.set({ ...current, [entry.proposalId]: queuedVote });
+  return queuedVote;
+}
+
+/**
+ * Get the queued vote for a proposal
+ */
+export function getQueuedVote(proposalId: string): QueuedVote | null {
+  return $voteQueue.get()[proposalId] ?? null;
+}
+
+/**
+ * Update a queued vote's replay status
+ */
+export function updateQueuedVote(
+  proposalId: string,
+  updates: Partial<Omit<QueuedVote, 'proposalId'>>
+): void {
+  const current = $voteQueue.get();
+  const existing = current[proposalId];
+  if (!existing) return;
+  $voteQueue.set({ ...current, [proposalId]: { ...existing, ...updates } });
+}
+
+/**
+ * Remove a queued vote (after it is recorded or discarded)
+ */
+export function removeQueuedVote(proposalId: string): void {
+  const current = $voteQueue.get();
+  if (!current[proposalId]) return;
+  const { [proposalId]: _, ...rest } = current;
+  $voteQueue.set(rest);
+}
+
+/**
+ * Drop queued votes whose voting period has ended
+ * Returns the dropped entries so the caller can tell the member
+ */
+export function pruneExpiredQueuedVotes(now: number = Date.now()): QueuedVote[] {
+  const current = $voteQueue.get();
+  const expired = Object.values(current).filter((entry) => entry.votingEndsAt <= now);
+  if (expired.length === 0) return [];
+
+  const rest = { ...current };
+  for (const entry of expired) {
+    delete rest[entry.proposalId];
+  }
+  $voteQueue.set(rest);
+  return expired;
+}
+
+/**
+ * Clear the offline vote queue (e.g., on logout)
+ */
+export function clearVoteQueue(): void {
+  $voteQueue.set({});
+}
+
 /**
  * Cross-tab synchronization listener
- * Detects when votes are cast in other tabs
+ * Detects when votes are cast in other tabs, and when another tab
+ * changes the offline vote queue (queues, claims or replays a vote)
  */
 export function setupCrossTabSync(
-  onVoteChange?: (proposalId: string, vote: UserVote) => void
+  onVoteChange?: (proposalId: string, vote: UserVote) => void,
+  onQueueChange?: (queue: Record<string, QueuedVote>) => void
 ): () => void {
   const handleStorageChange = (event: StorageEvent) => {
+    if (event.key === VOTE_QUEUE_KEY) {
+      try {
+        onQueueChange?.(event.newValue ? JSON.parse(event.newValue) : {});
+      } catch {
+        // Ignore parse errors
+      }
+      return;
+    }
     // Check if the change is for user votes
     if (event.key === USER_VOTES_KEY && event.newValue) {
       try {
@@ -197,5 +300,11 @@ export const voteActions = {
   clearPendingVote,
   hasPendingVote,
   clearAllPendingVotes,
+  queueVote,
+  getQueuedVote,
+  updateQueuedVote,
+  removeQueuedVote,
+  pruneExpiredQueuedVotes,
+  clearVoteQueue,
   setupCrossTabSync,
 };
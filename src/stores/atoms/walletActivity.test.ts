@@ -0,0 +1,134 @@
+/**
+ * Wallet Activity State Tests
+ *
+ * Tests for the cursor-paged wallet activity store, filters and CSV export.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $walletActivity,
+  $walletActivityFilters,
+  $filteredWalletActivity,
+  $hasMoreWalletActivity,
+  $hasActiveWalletActivityFilters,
+  setWalletActivityLoading,
+  setWalletActivityPage,
+  setWalletActivityError,
+  setWalletActivityFilters,
+  clearWalletActivity,
+  getWalletBalanceChange,
+  formatWalletActivityCsv,
+  type WalletTransaction,
+} from '@/stores';
+
+const SELF = 'r7inp-6aaaa-aaaaa-aaabq-cai';
+const ALICE = 'rrkah-fqaaa-aaaaa-aaaaq-cai';
+const FEE = BigInt(10_000);
+
+function createTransaction(overrides: Partial<WalletTransaction> = {}): WalletTransaction {
+  return {
+    id: '1',
+    type: 'transfer',
+    direction: 'outgoing',
+    amount: BigInt(100_000_000), // 1 DOM
+    fee: FEE,
+    counterparty: ALICE,
+    timestamp: BigInt(1_700_000_000_000_000_000),
+    ...overrides,
+  };
+}
+
+describe('Wallet Activity State', () => {
+  beforeEach(() => {
+    clearWalletActivity();
+  });
+
+  describe('Paging', () => {
+    it('should replace and append pages and track the cursor', () => {
+      setWalletActivityLoading(true);
+      expect($walletActivity.get().isLoading).toBe(true);
+
+      setWalletActivityPage(SELF, [createTransaction({ id: '9' })], '9', false);
+      expect($hasMoreWalletActivity.get()).toBe(true);
+
+      setWalletActivityPage(SELF, [createTransaction({ id: '4' })], null, true);
+
+      const state = $walletActivity.get();
+      expect(state.principal).toBe(SELF);
+      expect(state.transactions.map((tx) => tx.id)).toEqual(['9', '4']);
+      expect(state.isLoading).toBe(false);
+      expect($hasMoreWalletActivity.get()).toBe(false);
+    });
+
+    it('should keep loaded transactions on error', () => {
+      setWalletActivityPage(SELF, [createTransaction()], null, false);
+      setWalletActivityError('Index unavailable');
+
+      expect($walletActivity.get()).toMatchObject({ error: 'Index unavailable', isLoading: false });
+      expect($walletActivity.get().transactions).toHaveLength(1);
+    });
+
+    it('should clear transactions and filters', () => {
+      setWalletActivityPage(SELF, [createTransaction()], '1', false);
+      setWalletActivityFilters({ direction: 'incoming' });
+
+      clearWalletActivity();
+
+      expect($walletActivity.get()).toMatchObject({ principal: null, transactions: [] });
+      expect($walletActivityFilters.get().direction).toBe('all');
+    });
+  });
+
+  describe('Filters', () => {
+    beforeEach(() => {
+      setWalletActivityPage(
+        SELF,
+        [
+          createTransaction({ id: '3' }),
+          createTransaction({ id: '2', direction: 'incoming', fee: undefined }),
+          createTransaction({ id: '1', type: 'mint', direction: 'incoming', fee: undefined }),
+        ],
+        null,
+        false
+      );
+    });
+
+    it('should filter by direction and type', () => {
+      setWalletActivityFilters({ direction: 'incoming' });
+      expect($filteredWalletActivity.get().map((tx) => tx.id)).toEqual(['2', '1']);
+
+      setWalletActivityFilters({ types: ['mint'] });
+      expect($filteredWalletActivity.get().map((tx) => tx.id)).toEqual(['1']);
+      expect($hasActiveWalletActivityFilters.get()).toBe(true);
+    });
+
+    it('should show everything with the default filters', () => {
+      expect($filteredWalletActivity.get()).toHaveLength(3);
+      expect($hasActiveWalletActivityFilters.get()).toBe(false);
+    });
+  });
+
+  describe('getWalletBalanceChange', () => {
+    it('should sign amounts by direction and charge fees to the sender', () => {
+      expect(getWalletBalanceChange(createTransaction())).toBe(BigInt(-100_010_000));
+      expect(
+        getWalletBalanceChange(createTransaction({ direction: 'incoming', fee: undefined }))
+      ).toBe(BigInt(100_000_000));
+      expect(getWalletBalanceChange(createTransaction({ direction: 'self' }))).toBe(-FEE);
+      expect(getWalletBalanceChange(createTransaction({ type: 'approve' }))).toBe(-FEE);
+    });
+  });
+
+  describe('formatWalletActivityCsv', () => {
+    it('should export exact amounts and escape fields', () => {
+      const csv = formatWalletActivityCsv([createTransaction({ id: '12', memo: 'Say "hi"' })]);
+      const [header, row] = csv.split('\n');
+
+      expect(header).toBe(
+        'Date,Type,Direction,Amount (DOM),Fee (DOM),Counterparty,Memo,Block Index'
+      );
+      expect(row).toContain('"Transfer","outgoing","1.00000000","0.00010000"');
+      expect(row).toContain(`"${ALICE}","Say ""hi""","12"`);
+    });
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Wallet Activity State Management
+ *
+ * Manages the member's own DOM transaction history, read from the ledger's
+ * ICRC index canister, using nanostores.
+ * Follows the treasury.ts transaction history pattern.
+ */
+
+import { atom, computed } from 'nanostores';
+import { TOKEN_DECIMALS } from './tokenBalance';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Ledger operation kind
+ */
+export type WalletActivityType = 'transfer' | 'mint' | 'burn' | 'approve';
+
+/**
+ * Direction of a transaction relative to the member's account
+ */
+export type WalletActivityDirection = 'incoming' | 'outgoing' | 'self';
+
+/**
+ * Direction filter for wallet activity
+ */
+export type WalletDirectionFilter = 'all' | 'incoming' | 'outgoing';
+
+/**
+ * Ledger transaction involving the member's account
+ */
+export interface WalletTransaction {
+  /** Ledger transaction (block) index */
+  id: string;
+  /** Operation kind */
+  type: WalletActivityType;
+  /** Direction relative to the member's account */
+  direction: WalletActivityDirection;
+  /** Amount in e8s */
+  amount: bigint;
+  /** Fee paid in e8s (transfers and approvals) */
+  fee?: bigint;
+  /** Other party's principal (sender, recipient or spender) */
+  counterparty?: string;
+  /** Memo, decoded as UTF-8 when printable */
+  memo?: string;
+  /** Ledger timestamp in nanoseconds */
+  timestamp: bigint;
+  /** created_at_time set by the sender (nanoseconds), used to match local records */
+  createdAtTime?: bigint;
+}
+
+/**
+ * Wallet activity filters
+ */
+export interface WalletActivityFilters {
+  /** Direction to include */
+  direction: WalletDirectionFilter;
+  /** Operation kinds to include (empty = all kinds) */
+  types: WalletActivityType[];
+}
+
+/**
+ * Wallet activity state (cursor-paged, newest first)
+ */
+export interface WalletActivityState {
+  /** Account the activity belongs to */
+  principal: string | null;
+  /** Transactions loaded so far, newest first */
+  transactions: WalletTransaction[];
+  /** Cursor for the next (older) page (null when no more pages) */
+  nextCursor: string | null;
+  /** Last successful fetch timestamp */
+  lastUpdated: number | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Transactions per index page */
+export const WALLET_ACTIVITY_PAGE_SIZE = 25;
+
+/** Default wallet activity filters (everything) */
+export const DEFAULT_WALLET_ACTIVITY_FILTERS: WalletActivityFilters = {
+  direction: 'all',
+  types: [],
+};
+
+/** Initial wallet activity state */
+const INITIAL_STATE: WalletActivityState = {
+  principal: null,
+  transactions: [],
+  nextCursor: null,
+  lastUpdated: null,
+  isLoading: false,
+  error: null,
+};
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Wallet activity store
+ */
+export const $walletActivity = atom<WalletActivityState>({ ...INITIAL_STATE });
+
+/**
+ * Wallet activity filters
+ */
+export const $walletActivityFilters = atom<WalletActivityFilters>({
+  ...DEFAULT_WALLET_ACTIVITY_FILTERS,
+});
+
+// ============================================================================
+// Computed Atoms
+// ============================================================================
+
+/**
+ * Loaded transactions matching the filters
+ */
+export const $filteredWalletActivity = computed(
+  [$walletActivity, $walletActivityFilters],
+  (state, filters) => state.transactions.filter((tx) => matchesWalletActivityFilters(tx, filters))
+);
+
+/**
+ * Whether older pages can be loaded
+ */
+export const $hasMoreWalletActivity = computed(
+  $walletActivity,
+  (state) => state.nextCursor !== null
+);
+
+/**
+ * Whether any filter differs from the defaults
+ */
+export const $hasActiveWalletActivityFilters = computed(
+  $walletActivityFilters,
+  (filters) => filters.direction !== 'all' || filters.types.length > 0
+);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get display label for an operation kind
+ * @param type - Operation kind
+ */
+export function getWalletActivityTypeLabel(type: WalletActivityType): string {
+  const labels: Record<WalletActivityType, string> = {
+    transfer: 'Transfer',
+    mint: 'Mint',
+    burn: 'Burn',
+    approve: 'Approval',
+  };
+  return labels[type];
+}
+
+/**
+ * Check whether a transaction matches the filters
+ * @param transaction - Transaction to check
+ * @param filters - Active filters
+ */
+export function matchesWalletActivityFilters(
+  transaction: WalletTransaction,
+  filters: WalletActivityFilters
+): boolean {
+  if (filters.types.length > 0 && !filters.types.includes(transaction.type)) return false;
+  if (filters.direction !== 'all' && transaction.direction !== filters.direction) return false;
+  return true;
+}
+
+/**
+ * Signed balance change of a transaction for the member's account
+ * @param transaction - Transaction
+ */
+export function getWalletBalanceChange(transaction: WalletTransaction): bigint {
+  const fee = transaction.fee ?? BigInt(0);
+  if (transaction.type === 'approve') return -fee;
+  if (transaction.direction === 'incoming') return transaction.amount;
+  if (transaction.direction === 'self') return -fee;
+  return -(transaction.amount + fee);
+}
+
+/**
+ * Format wallet activity as CSV for export
+ * @param transactions - Transactions to export
+ * @returns CSV content with header row
+ */
+export function formatWalletActivityCsv(transactions: WalletTransaction[]): string {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const divisor = BigInt(10 ** TOKEN_DECIMALS);
+  const exact = (e8s: bigint) =>
+    `${e8s / divisor}.${(e8s % divisor).toString().padStart(TOKEN_DECIMALS, '0')}`;
+
+  const csvHeader = 'Date,Type,Direction,Amount (DOM),Fee (DOM),Counterparty,Memo,Block Index\n';
+  const csvRows = transactions
+    .map((tx) =>
+      [
+        new Date(Number(tx.timestamp / BigInt(1_000_000))).toISOString(),
+        getWalletActivityTypeLabel(tx.type),
+        tx.direction,
+        exact(tx.amount),
+        tx.fee === undefined ? '' : exact(tx.fee),
+        tx.counterparty ?? '',
+        tx.memo ?? '',
+        tx.id,
+      ]
+        .map(escape)
+        .join(',')
+    )
+    .join('\n');
+
+  return csvHeader + csvRows;
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Set wallet activity loading state
+ */
+export function setWalletActivityLoading(isLoading: boolean): void {
+  const current = $walletActivity.get();
+  $walletActivity.set({
+    ...current,
+    isLoading,
+    error: isLoading ? null : current.error,
+  });
+}
+
+/**
+ * Store a fetched page of wallet activity
+ * @param principal - Account the page belongs to
+ * @param transactions - Transactions in the page
+ * @param nextCursor - Cursor for the following page (null if last page)
+ * @param append - Append to loaded pages (false replaces them)
+ */
+export function setWalletActivityPage(
+  principal: string,
+  transactions: WalletTransaction[],
+  nextCursor: string | null,
+  append: boolean
+): void {
+  const current = $walletActivity.get();
+  $walletActivity.set({
+    principal,
+    transactions: append ? [...current.transactions, ...transactions] : transactions,
+    nextCursor,
+    lastUpdated: Date.now(),
+    isLoading: false,
+    error: null,
+  });
+}
+
+/**
+ * Set wallet activity error state
+ * @param error - Error message
+ */
+export function setWalletActivityError(error: string): void {
+  const current = $walletActivity.get();
+  $walletActivity.set({
+    ...current,
+    isLoading: false,
+    error,
+  });
+}
+
+/**
+ * Update wallet activity filters
+ * @param filters - Filter changes to merge
+ */
+export function setWalletActivityFilters(filters: Partial<WalletActivityFilters>): void {
+  $walletActivityFilters.set({ ...$walletActivityFilters.get(), ...filters });
+}
+
+/**
+ * Reset wallet activity filters to the defaults
+ */
+export function resetWalletActivityFilters(): void {
+  $walletActivityFilters.set({ ...DEFAULT_WALLET_ACTIVITY_FILTERS });
+}
+
+/**
+ * Clear wallet activity (e.g., on logout)
+ */
+export function clearWalletActivity(): void {
+  $walletActivity.set({ ...INITIAL_STATE });
+  resetWalletActivityFilters();
+}
+
+// ============================================================================
+// Export Actions Object
+// ============================================================================
+
+export const walletActivityActions = {
+  setLoading: setWalletActivityLoading,
+  setPage: setWalletActivityPage,
+  setError: setWalletActivityError,
+  setFilters: setWalletActivityFilters,
+  resetFilters: resetWalletActivityFilters,
+  clear: clearWalletActivity,
+  getTypeLabel: getWalletActivityTypeLabel,
+  getBalanceChange: getWalletBalanceChange,
+  formatCsv: formatWalletActivityCsv,
+};
@@ -0,0 +1,82 @@
+/**
+ * Proposal Watchlist State Tests
+ *
+ * Tests for watching and unwatching proposals, the watchlist limit and the
+ * list key of the "Watching" filter.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  $watchlist,
+  $watchedProposalIds,
+  $proposalFilters,
+  isWatchingProposal,
+  watchProposal,
+  unwatchProposal,
+  toggleWatchProposal,
+  clearWatchlist,
+  clearAllFilters,
+  getProposalListKey,
+  MAX_WATCHED_PROPOSALS,
+} from '@/stores';
+
+describe('Proposal Watchlist State', () => {
+  beforeEach(() => {
+    clearWatchlist();
+    clearAllFilters();
+  });
+
+  it('should watch a proposal once, newest first', () => {
+    watchProposal('prop-1', 'Garden');
+    watchProposal('prop-2', 'Solar');
+    watchProposal('prop-1', 'Garden');
+
+    expect($watchlist.get().map((entry) => entry.proposalId)).toEqual(['prop-2', 'prop-1']);
+    expect($watchlist.get()[1].title).toBe('Garden');
+    expect($watchedProposalIds.get()).toEqual(new Set(['prop-1', 'prop-2']));
+  });
+
+  it('should unwatch a proposal', () => {
+    watchProposal('prop-1', 'Garden');
+
+    unwatchProposal('prop-1');
+
+    expect(isWatchingProposal('prop-1')).toBe(false);
+    expect($watchlist.get()).toEqual([]);
+  });
+
+  it('should toggle watching', () => {
+    expect(toggleWatchProposal('prop-1', 'Garden')).toBe(true);
+    expect(isWatchingProposal('prop-1')).toBe(true);
+
+    expect(toggleWatchProposal('prop-1', 'Garden')).toBe(false);
+    expect(isWatchingProposal('prop-1')).toBe(false);
+  });
+
+  it('should refuse to watch more than the limit', () => {
+    for (let i = 0; i < MAX_WATCHED_PROPOSALS; i++) {
+      watchProposal(`prop-${i}`, `Proposal ${i}`);
+    }
+
+    expect(watchProposal('prop-extra', 'Extra')).toBe(false);
+    expect(toggleWatchProposal('prop-extra', 'Extra')).toBe(false);
+    expect($watchlist.get()).toHaveLength(MAX_WATCHED_PROPOSALS);
+  });
+
+  it('should re-key the "Watching" list when the watchlist changes', () => {
+    $proposalFilters.set({ ...$proposalFilters.get(), watching: true });
+    const before = getProposalListKey($proposalFilters.get(), 'newest');
+
+    watchProposal('prop-1', 'Garden');
+
+    expect(getProposalListKey($proposalFilters.get(), 'newest')).not.toBe(before);
+  });
+
+  it('should keep other list keys when the watchlist changes', () => {
+    const before = getProposalListKey($proposalFilters.get(), 'newest');
+
+    watchProposal('prop-1', 'Garden');
+
+    expect(getProposalListKey($proposalFilters.get(), 'newest')).toBe(before);
+  });
+});
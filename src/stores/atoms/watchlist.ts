@@ -0,0 +1,136 @@
+/**
+ * Proposal Watchlist State Management
+ *
+ * Proposals a member follows without having voted on them. Watched
+ * proposals can be filtered in the proposal list, and the notification
+ * poller reports their status changes, deadlines, quorum and new comments.
+ */
+
+import { computed } from 'nanostores';
+import { persistentAtom } from '@nanostores/persistent';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Watched proposal
+ */
+export interface WatchedProposal {
+  /** Proposal ID */
+  proposalId: string;
+  /** Title when watched, used in notifications */
+  title: string;
+  /** Unix ms timestamp the member started watching */
+  watchedAt: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Maximum number of watched proposals */
+export const MAX_WATCHED_PROPOSALS = 50;
+
+/** Storage key */
+export const WATCHLIST_STORAGE_KEY = 'hwdao:proposal-watchlist';
+
+/**
+ * Coerce parsed storage into valid entries, dropping malformed ones
+ */
+function decodeWatchlist(value: string): WatchedProposal[] {
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((entry) => typeof entry?.proposalId === 'string')
+      .map((entry) => ({
+        proposalId: entry.proposalId,
+        title: typeof entry.title === 'string' ? entry.title : '',
+        watchedAt: typeof entry.watchedAt === 'number' ? entry.watchedAt : 0,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// State Atoms
+// ============================================================================
+
+/**
+ * Watched proposals, newest first (persisted)
+ */
+export const $watchlist = persistentAtom<WatchedProposal[]>(WATCHLIST_STORAGE_KEY, [], {
+  encode: JSON.stringify,
+  decode: decodeWatchlist,
+});
+
+/**
+ * IDs of watched proposals
+ */
+export const $watchedProposalIds = computed(
+  $watchlist,
+  (watchlist) => new Set(watchlist.map((entry) => entry.proposalId))
+);
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Check whether a proposal is watched
+ */
+export function isWatchingProposal(proposalId: string): boolean {
+  return $watchlist.get().some((entry) => entry.proposalId === proposalId);
+}
+
+/**
+ * Start watching a proposal
+ * @returns false when the watchlist is full, true otherwise
+ */
+export function watchProposal(proposalId: string, title: string): boolean {
+  const watchlist = $watchlist.get();
+  if (watchlist.some((entry) => entry.proposalId === proposalId)) return true;
+  if (watchlist.length >= MAX_WATCHED_PROPOSALS) return false;
+
+  $watchlist.set([{ proposalId, title, watchedAt: Date.now() }, ...watchlist]);
+  return true;
+}
+
+/**
+ * Stop watching a proposal
+ */
+export function unwatchProposal(proposalId: string): void {
+  $watchlist.set($watchlist.get().filter((entry) => entry.proposalId !== proposalId));
+}
+
+/**
+ * Watch or unwatch a proposal
+ * @returns Whether the proposal is watched afterwards
+ */
+export function toggleWatchProposal(proposalId: string, title: string): boolean {
+  if (isWatchingProposal(proposalId)) {
+    unwatchProposal(proposalId);
+    return false;
+  }
+  return watchProposal(proposalId, title);
+}
+
+/**
+ * Clear the watchlist
+ */
+export function clearWatchlist(): void {
+  $watchlist.set([]);
+}
+
+/**
+ * Actions object for convenient access
+ */
+export const watchlistActions = {
+  isWatching: isWatchingProposal,
+  watch: watchProposal,
+  unwatch: unwatchProposal,
+  toggle: toggleWatchProposal,
+  clear: clearWatchlist,
+};
@@ -55,8 +55,12 @@ export {
   updateProposalStatus,
   addVote,
   clearAllProposals,
+  getProposalRevisions,
+  amendProposal,
+  addRankedBallot,
   type SubmittedProposal,
   type ProposalStatusType,
+  type ProposalAmendment,
 } from './atoms/proposals';
 
 // Vote atoms and actions
@@ -75,10 +79,39 @@ export {
   clearPendingVote,
   hasPendingVote,
   clearAllPendingVotes,
+  $voteQueue,
+  $queuedVoteList,
+  queueVote,
+  getQueuedVote,
+  updateQueuedVote,
+  removeQueuedVote,
+  pruneExpiredQueuedVotes,
+  clearVoteQueue,
   setupCrossTabSync,
   voteActions,
 } from './atoms/votes';
 
+// Vote delegation atoms and actions
+export {
+  $delegations,
+  $receivedDelegations,
+  $delegationsLoading,
+  $delegationsError,
+  $globalDelegation,
+  $receivedDelegationCount,
+  setDelegations,
+  upsertDelegation,
+  removeDelegation,
+  getDelegationForScope,
+  resolveDelegation,
+  getDelegationsToMember,
+  getDelegationScopeLabel,
+  setDelegationsLoading,
+  setDelegationsError,
+  clearDelegations,
+  delegationActions,
+} from './atoms/delegations';
+
 // Proposal list atoms and actions (Story 9-1-3)
 export {
   $proposalList,
@@ -89,16 +122,30 @@ export {
   $proposalListLoading,
   $proposalListError,
   $proposalStatusCounts,
+  $proposalVerticalCounts,
+  $proposalListMode,
+  $proposalListCursor,
+  $proposalListScroll,
   $userVotedProposalIds,
   hasUserVoted,
   setProposalList,
+  appendProposalList,
+  setProposalListCursor,
+  getProposalListKey,
+  setProposalListMode,
+  saveProposalListScroll,
+  takeProposalListScroll,
   setProposalFilters,
   setProposalTotalCount,
   setProposalListLoading,
   setProposalListError,
   setProposalStatusCounts,
+  setProposalVerticalCounts,
   updateFilters,
   toggleStatusFilter,
+  toggleVerticalFilter,
+  toggleScaleFilter,
+  setBudgetRange,
   clearAllFilters,
   clearSearch,
   setProposalSort,
@@ -107,10 +154,47 @@ export {
   previousPage,
   initFromUrlParams,
   getUrlParams,
+  buildProposalUrlParams,
+  normalizeProposalFilters,
   setupProposalListCrossTabSync,
   proposalListActions,
+  type ProposalListCursor,
+  type ProposalListScroll,
 } from './atoms/proposalList';
 
+// Saved proposal views atoms and actions
+export {
+  $savedProposalViews,
+  $activeSavedProposalViewId,
+  validateSavedProposalViewName,
+  createSavedProposalView,
+  renameSavedProposalView,
+  moveSavedProposalView,
+  deleteSavedProposalView,
+  applySavedProposalView,
+  getSavedProposalViewParams,
+  setupSavedProposalViewsCrossTabSync,
+  savedProposalViewActions,
+  MAX_SAVED_PROPOSAL_VIEWS,
+  MAX_SAVED_VIEW_NAME_LENGTH,
+  type SavedProposalView,
+} from './atoms/proposalViews';
+
+// Proposal watchlist atoms and actions
+export {
+  $watchlist,
+  $watchedProposalIds,
+  isWatchingProposal,
+  watchProposal,
+  unwatchProposal,
+  toggleWatchProposal,
+  clearWatchlist,
+  watchlistActions,
+  MAX_WATCHED_PROPOSALS,
+  WATCHLIST_STORAGE_KEY,
+  type WatchedProposal,
+} from './atoms/watchlist';
+
 // Toast atoms and actions (Story 9-1-5)
 export {
   $toasts,
@@ -155,6 +239,12 @@ export {
   createVoteResultNotification,
   createNewProposalNotification,
   createVotingDeadlineNotification,
+  createMentionNotification,
+  createEscrowDisputeNotification,
+  createBurnPledgeMissedNotification,
+  createProposalStatusChangedNotification,
+  createQuorumReachedNotification,
+  createNewCommentNotification,
   notificationActions,
   DEFAULT_PREFERENCES,
   PREFERENCES_SCHEMA_VERSION,
@@ -206,24 +296,83 @@ export {
   $formattedIcpBalance,
   $domFundAllocations,
   $icpFundAllocations,
+  $transactionHistory,
+  $transactionFilters,
+  $hasMoreTransactions,
+  $hasActiveTransactionFilters,
   formatTimestamp,
   getTransactionTypeLabel,
   getTransactionTypeColor,
+  matchesTransactionFilters,
+  formatTransactionsCsv,
+  formatTransactionsJson,
   setTreasuryLoading,
   setTreasuryData,
   setTreasuryError,
   clearTreasury,
   isTreasuryStale,
   getTreasuryBalance,
+  setTransactionFilters,
+  resetTransactionFilters,
+  setTransactionHistoryLoading,
+  setTransactionHistoryPage,
+  setTransactionHistoryError,
   treasuryActions,
   TREASURY_STALE_THRESHOLD_MS,
+  DEFAULT_TRANSACTION_FILTERS,
   type TreasuryState,
   type TreasuryBalance,
   type Transaction,
   type TransactionType,
+  type TransactionTokenFilter,
+  type TransactionFilters,
+  type TransactionHistoryState,
   type FundAllocation,
 } from './atoms/treasury';
 
+// Treasury analytics atoms and actions
+export {
+  $treasuryLedger,
+  $hasTreasuryLedger,
+  $treasuryAnalytics,
+  computeTokenAnalytics,
+  setTreasuryLedgerLoading,
+  setTreasuryLedger,
+  setTreasuryLedgerError,
+  clearTreasuryLedger,
+  treasuryAnalyticsActions,
+  ANALYTICS_MONTHS,
+  BURN_RATE_WINDOW_MONTHS,
+  INFLOW_TRANSACTION_TYPES,
+  type TreasuryToken,
+  type MonthlyTreasuryFlow,
+  type TransactionTypeBreakdown,
+  type TokenAnalytics,
+  type TreasuryLedgerState,
+} from './atoms/treasuryAnalytics';
+
+// Payout approval atoms and actions
+export {
+  $payouts,
+  $payoutsLoading,
+  $payoutsError,
+  $proposedPayouts,
+  $approvedPayouts,
+  getRemainingApprovals,
+  hasApprovedPayout,
+  isPayoutSigner,
+  setPayoutsLoading,
+  setPayoutsData,
+  updatePayout,
+  setPayoutsError,
+  clearPayouts,
+  payoutActions,
+  type Payout,
+  type PayoutStatus,
+  type PayoutApprovalConfig,
+  type PayoutsState,
+} from './atoms/payouts';
+
 // Burn donation atoms and actions (Story 9-2-3)
 export {
   $burnPool,
@@ -241,11 +390,19 @@ export {
   $userTotalBurned,
   $formattedUserTotalBurned,
   $burnCount,
+  $burnStats,
+  $burnHistorySeries,
+  $percentSupplyBurned,
+  $burnLeaderboard,
+  $userBurnRank,
   setBurnPoolLoading,
   setBurnPoolData,
   setBurnPoolError,
   clearBurnPool,
   isBurnPoolStale,
+  setBurnStatsLoading,
+  setBurnStatsData,
+  setBurnStatsError,
   setBurnPending,
   setBurnSuccess,
   setBurnExecutionError,
@@ -255,6 +412,7 @@ export {
   removeBurnRecord,
   clearBurnHistory,
   getPendingBurnRecord,
+  reconcileBurnHistory,
   exportBurnHistoryCSV,
   validateBurnAmount,
   getMaxBurnAmount,
@@ -265,18 +423,203 @@ export {
   BURN_TX_FEE_RESERVE,
   MAX_BURN_HISTORY_RECORDS,
   BURN_HISTORY_STORAGE_KEY,
+  BURN_LEDGER_MATCH_WINDOW_MS,
+  BURN_STATS_HISTORY_DAYS,
+  BURN_LEADERBOARD_SIZE,
   type LocalBurnRecord,
+  type LedgerBurn,
   type BurnRecordStatus,
   type BurnPool,
   type BurnState,
   type BurnExecutionState,
+  type BurnHistoryPoint,
+  type BurnDonor,
+  type BurnDonorProfile,
+  type BurnLeaderboardEntry,
+  type BurnRank,
+  type BurnStats,
+  type BurnStatsState,
 } from './atoms/burn';
 
+// Burn pledge atoms and actions
+export {
+  $userBurnPledges,
+  $burnPledges,
+  $openBurnPledges,
+  getBurnPledgeDueAt,
+  getBurnPledgeNextDueAt,
+  isBurnPledgeDue,
+  getBurnPledgeAdherence,
+  generateBurnPledgeId,
+  addBurnPledge,
+  pauseBurnPledge,
+  resumeBurnPledge,
+  cancelBurnPledge,
+  recordBurnPledgeFulfilled,
+  settleMissedBurnPledges,
+  clearBurnPledges,
+  burnPledgeActions,
+  BURN_PLEDGE_CADENCE_LABELS,
+  BURN_PLEDGE_GRACE_PERIOD_MS,
+  MAX_BURN_PLEDGES,
+  MAX_BURN_PLEDGE_PERIODS,
+  BURN_PLEDGES_STORAGE_KEY,
+  type BurnPledge,
+  type BurnPledgeCadence,
+  type BurnPledgeStatus,
+  type BurnPledgeOutcome,
+  type BurnPledgePeriod,
+  type BurnPledgeAdherence,
+  type MissedBurnPledge,
+} from './atoms/burnPledges';
+
+// Token transfer atoms and actions
+export {
+  $transferExecution,
+  $transferFee,
+  $userTransferHistory,
+  $isTransferPending,
+  $transferHistory,
+  $pendingTransfers,
+  setTransferPending,
+  setTransferSuccess,
+  setTransferExecutionError,
+  resetTransferExecution,
+  setTransferFee,
+  addTransferRecord,
+  updateTransferRecordStatus,
+  clearTransferHistory,
+  getPendingTransferRecord,
+  buildTransferRecipients,
+  subaccountFromHex,
+  validateTransferRecipient,
+  validateTransferAmount,
+  validateTransferMemo,
+  getMaxTransferAmount,
+  formatExactTokenAmount,
+  generateTransferId,
+  transferActions,
+  DEFAULT_TRANSFER_FEE,
+  MAX_TRANSFER_MEMO_BYTES,
+  MAX_TRANSFER_HISTORY_RECORDS,
+  TRANSFER_HISTORY_STORAGE_KEY,
+  type LocalTransferRecord,
+  type TransferRecordStatus,
+  type TransferExecutionState,
+  type TransferRecipient,
+} from './atoms/transfers';
+
+// Wallet activity atoms and actions
+export {
+  $walletActivity,
+  $walletActivityFilters,
+  $filteredWalletActivity,
+  $hasMoreWalletActivity,
+  $hasActiveWalletActivityFilters,
+  getWalletActivityTypeLabel,
+  matchesWalletActivityFilters,
+  getWalletBalanceChange,
+  formatWalletActivityCsv,
+  setWalletActivityLoading,
+  setWalletActivityPage,
+  setWalletActivityError,
+  setWalletActivityFilters,
+  resetWalletActivityFilters,
+  clearWalletActivity,
+  walletActivityActions,
+  WALLET_ACTIVITY_PAGE_SIZE,
+  DEFAULT_WALLET_ACTIVITY_FILTERS,
+  type WalletActivityType,
+  type WalletActivityDirection,
+  type WalletDirectionFilter,
+  type WalletTransaction,
+  type WalletActivityFilters,
+  type WalletActivityState,
+} from './atoms/walletActivity';
+
+// Token allowance (ICRC-2 approval) atoms and actions
+export {
+  $allowances,
+  $allowanceAction,
+  $trackedSpenders,
+  $outstandingAllowances,
+  buildAllowanceSpenders,
+  isAllowanceExpired,
+  validateAllowanceSpender,
+  validateAllowanceAmount,
+  validateAllowanceExpiry,
+  setAllowancesLoading,
+  setAllowances,
+  setAllowancesError,
+  upsertAllowance,
+  setAllowanceActionPending,
+  setAllowanceActionError,
+  resetAllowanceAction,
+  trackSpender,
+  untrackSpender,
+  clearAllowances,
+  allowanceActions,
+  TRACKED_SPENDERS_STORAGE_KEY,
+  type TokenAllowance,
+  type AllowanceSpender,
+  type AllowanceSpenderSource,
+  type AllowancesState,
+  type AllowanceActionState,
+} from './atoms/allowances';
+
+// Staking (voting-power lock) atoms and actions
+export {
+  $staking,
+  $stakingAction,
+  $totalStaked,
+  $stakedVotingPower,
+  getDelayMultiplier,
+  getAgeMultiplier,
+  getRemainingDissolveDelayDays,
+  getStakeStatus,
+  computeStakeVotingPower,
+  computeVotingPowerBreakdown,
+  projectVotingPower,
+  sumVotingPower,
+  formatMultiplier,
+  formatDissolveDelay,
+  validateStakeAmount,
+  validateDissolveDelay,
+  setStakingLoading,
+  setStakes,
+  setStakingError,
+  upsertStake,
+  removeStake,
+  setStakingActionPending,
+  setStakingActionError,
+  resetStakingAction,
+  clearStaking,
+  stakingActions,
+  MIN_STAKE_AMOUNT,
+  MIN_DISSOLVE_DELAY_DAYS,
+  MAX_DISSOLVE_DELAY_DAYS,
+  MAX_STAKE_AGE_DAYS,
+  MAX_DELAY_BONUS,
+  MAX_AGE_BONUS,
+  type Stake,
+  type StakeStatus,
+  type StakeVotingPower,
+  type StakingState,
+  type StakingActionType,
+  type StakingActionState,
+} from './atoms/staking';
+
 // Escrow view atoms and actions (Story 9-2-4)
 export {
   $escrow,
   $selectedEscrow,
   $escrowStatusFilter,
+  $escrowDisputes,
+  $escrowViewTab,
+  $pendingEscrowActions,
+  $proposalEscrows,
+  $controlledEscrows,
+  $tabEscrows,
   $escrowLoading,
   $escrowError,
   $hasEscrowData,
@@ -298,7 +641,26 @@ export {
   clearEscrow,
   setSelectedEscrow,
   setEscrowStatusFilter,
+  setEscrowViewTab,
   isEscrowStale,
+  findEscrow,
+  replaceEscrow,
+  getReleaseActionKey,
+  applyReleaseAction,
+  revertReleaseAction,
+  applyOptimisticReleaseAction,
+  settleReleaseAction,
+  rollbackReleaseAction,
+  setProposalEscrows,
+  addProposalEscrow,
+  parseTimelineDurationDays,
+  buildProposalEscrowDraft,
+  getProposalEscrowExpiry,
+  validateProposalEscrowDraft,
+  getProposalFundingProgress,
+  getDisputeKey,
+  setMilestoneDispute,
+  updateEscrowMilestone,
   getMilestoneProgress,
   getRemainingAmount,
   formatEscrowAmount,
@@ -307,8 +669,19 @@ export {
   isExpiringSoon,
   getEscrowStatusColor,
   getMilestoneStatusColor,
+  isEscrowReleaseAuthority,
+  canActAsReleaseAuthority,
+  isEscrowParticipant,
+  canDisputeMilestone,
+  validateDisputeLinks,
+  detectDisputeChanges,
   escrowActions,
   ESCROW_STALE_THRESHOLD_MS,
+  MAX_DISPUTE_LINKS,
+  MAX_DISPUTE_MESSAGE_LENGTH,
+  DISPUTE_OUTCOME_STATUS,
+  DEFAULT_PHASE_DURATION_DAYS,
+  PROPOSAL_ESCROW_EXPIRY_GRACE_DAYS,
   type Escrow,
   type Milestone,
   type EscrowStatus,
@@ -317,6 +690,17 @@ export {
   type ReleaseAuthority,
   type EscrowState,
   type EscrowStatusFilter,
+  type EscrowViewTab,
+  type EscrowReleaseAction,
+  type DisputeStatus,
+  type DisputeOutcome,
+  type DisputeEventKind,
+  type DisputeEvent,
+  type MilestoneDispute,
+  type DisputeChange,
+  type EscrowMilestoneDraft,
+  type ProposalEscrowDraft,
+  type ProposalFundingProgress,
 } from './atoms/escrow';
 
 // Member directory atoms and actions (Story 9-3-1)
@@ -50,9 +50,34 @@ export interface ThinkTankOutput {
   agentContributions: AgentContribution[];
 }
 
+// Proposal revision types
+export interface ProposalRevision {
+  revision: number; // 1 = original submission, incremented per amendment
+  title: string;
+  thinkTankOutput: ThinkTankOutput;
+  summary: string; // Proposer's note on what changed (empty for the original)
+  createdAt: number;
+}
+
 // Vote types
 export type VoteChoice = 'yes' | 'no' | 'abstain';
 
+// How votes on a proposal are counted: one member one vote, DOM-weighted, or quadratic
+export type VotingMode = 'simple' | 'weighted' | 'quadratic';
+
+export interface VotingPower {
+  proposalId: string;
+  votingMode: VotingMode;
+  balance: number; // Whole DOM held when the proposal was created (quadratic: voice credits)
+  snapshotAt: number; // When the balance snapshot was taken
+}
+
+export interface WeightedTotals {
+  yes: number;
+  no: number;
+  abstain: number;
+}
+
 export interface VoteTally {
   yes: number;
   no: number;
@@ -62,6 +87,9 @@ export interface VoteTally {
   quorumMet: boolean;
   passingThreshold: number; // Percentage needed to pass (e.g., 51)
   lastUpdated: number; // Timestamp for "Last updated X ago"
+  delegatedVotes?: number; // Portion of totalVotes cast by delegates on members' behalf
+  votingMode?: VotingMode; // Absent for one-member-one-vote proposals
+  weighted?: WeightedTotals; // DOM weight or quadratic votes per choice
 }
 
 export interface UserVote {
@@ -69,6 +97,25 @@ export interface UserVote {
   vote: VoteChoice;
   votedAt: number;
   transactionId?: string; // On-chain proof for vote receipt
+  delegate?: string; // Principal of the delegate who cast this vote on the member's behalf
+  revision?: number; // Proposal revision the vote was cast against
+  weight?: number; // Counted weight on weighted/quadratic proposals (DOM or votes)
+  credits?: number; // Voice credits spent on a quadratic proposal
+}
+
+// Ranked-choice types
+export interface BallotOption {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+export interface RankedBallots {
+  proposalId: string;
+  options: BallotOption[];
+  ballots: string[][]; // Every ballot cast, each ranking option IDs from most to least preferred
+  myRanking?: string[]; // The signed-in member's ballot, once they have voted
+  lastUpdated: number;
 }
 
 export interface PendingVote {
@@ -77,9 +124,72 @@ export interface PendingVote {
   startedAt: number; // When submission started
 }
 
+// Offline vote queue types
+export type QueuedVoteStatus = 'queued' | 'replaying' | 'failed';
+
+export interface QueuedVote {
+  proposalId: string;
+  proposalTitle?: string;
+  vote: VoteChoice;
+  revision?: number; // Proposal revision the member was viewing when they voted
+  votingMode?: VotingMode;
+  allocation?: number; // DOM weight (weighted) or voice credits (quadratic)
+  votingEndsAt: number; // Entries are dropped once voting has ended
+  queuedAt: number;
+  status: QueuedVoteStatus;
+  attempts: number; // Replay attempts so far
+  lastAttemptAt?: number;
+  claimedBy?: string; // Tab currently replaying the vote
+  error?: string; // Why the last replay attempt failed
+}
+
+// Vote receipt types
+export interface VoteReceipt {
+  canisterId: string; // Governance canister that issued the receipt
+  proposalId: string;
+  voter: string; // Principal of the member who voted
+  vote: VoteChoice;
+  votedAt: number; // Milliseconds, for display
+  votedAtNanos: string; // Exact on-chain timestamp covered by the signature
+  transactionId: string;
+  revision: number;
+  weight: number; // 1 on one-member-one-vote proposals
+  signature: string; // Hex-encoded canister signature over the fields above
+}
+
+export type ReceiptVerificationStatus =
+  | 'valid'
+  | 'invalid-signature'
+  | 'not-found'
+  | 'mismatch'
+  | 'wrong-canister';
+
+export interface ReceiptVerification {
+  status: ReceiptVerificationStatus;
+  mismatchedFields?: string[]; // Receipt fields that differ from the on-chain vote
+  checkedAt: number;
+}
+
+// Vote delegation types
+export type DelegationScope = 'global' | ProposalVertical;
+
+export interface Delegation {
+  delegator: string; // Principal ID of the member delegating
+  delegate: string; // Principal ID of the member voting on their behalf
+  delegateName?: string; // Display name, kept client-side for the UI
+  scope: DelegationScope;
+  createdAt: number;
+}
+
+export interface DelegationList {
+  given: Delegation[]; // Delegations the member has made
+  received: Delegation[]; // Delegations other members have made to them
+}
+
 // Proposal List types (Story 9-1-3)
 export type ProposalStatus = 'Active' | 'Passed' | 'Failed' | 'Pending';
-export type ProposalSort = 'newest' | 'oldest' | 'mostVotes' | 'endingSoon';
+export type ProposalSort = 'newest' | 'oldest' | 'mostVotes' | 'endingSoon' | 'largestBudget';
+export type ProposalListMode = 'paged' | 'infinite'; // Page numbers or infinite scroll
 
 export interface ProposalListItem {
   id: string;
@@ -91,6 +201,15 @@ export interface ProposalListItem {
   votesAbstain: number;
   votingEndsAt: number;
   createdAt: number;
+  revision?: number; // Current revision number (1 until amended)
+  votingMode?: VotingMode;
+  vertical?: ProposalVertical;
+  scale?: ProposalScale;
+  budgetTotal?: number; // Sum of the budget breakdown, in whole DOM
+  // Searchable proposal text (Think Tank output); absent when the backend omits it
+  problemStatement?: string;
+  proposedSolution?: string;
+  budgetDescriptions?: string[];
 }
 
 export interface ProposalFilters {
@@ -98,6 +217,11 @@ export interface ProposalFilters {
   search: string;
   myProposals: boolean; // Filter to proposals created by current user
   notVoted: boolean; // Filter to proposals user hasn't voted on
+  watching: boolean; // Filter to proposals on the member's watchlist
+  verticals: ProposalVertical[];
+  scales: ProposalScale[];
+  budgetMin: number | null; // Whole DOM, inclusive; null for no lower bound
+  budgetMax: number | null; // Whole DOM, inclusive; null for no upper bound
 }
 
 export interface PaginatedResponse<T> {
@@ -105,6 +229,7 @@ export interface PaginatedResponse<T> {
   total: number;
   page: number;
   pageSize: number;
+  nextCursor?: string | null; // Cursor-paged requests only; null after the last page
 }
 
 export interface ProposalStatusCounts {
@@ -114,6 +239,8 @@ export interface ProposalStatusCounts {
   Pending: number;
 }
 
+export type ProposalVerticalCounts = Record<ProposalVertical, number>;
+
 // Draft status
 export type DraftStatus = 'drafting' | 'ai-processing' | 'ready-for-review';
 
@@ -139,6 +266,7 @@ export interface ProposalDraft {
   updatedAt: number;
   status: DraftStatus;
   editedSections: (keyof ThinkTankOutput)[];
+  ballotOptions?: BallotOption[]; // Ranked-choice options; absent for yes/no proposals
   // Story 9-1-6: New fields for draft management
   currentStep: number;       // Wizard step for resume (0-indexed)
   userPrincipal: string;     // User scoping for privacy
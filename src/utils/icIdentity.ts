@@ -0,0 +1,32 @@
+/**
+ * Internet Identity Session Utility
+ *
+ * Reconstructs the member's authenticated DelegationIdentity from the
+ * sessionStorage entries written by useIILogin in @hello-world-co-op/auth.
+ * Used by services that make signed canister calls (burns, votes).
+ *
+ * Extracted from burnService so the governance client can share it.
+ */
+
+import { DelegationChain, DelegationIdentity, Ed25519KeyIdentity } from '@dfinity/identity';
+
+/** sessionStorage keys written by useIILogin in @hello-world-co-op/auth */
+const II_DELEGATION_CHAIN_KEY = 'ii_delegation_chain';
+const II_SESSION_KEY_KEY = 'ii_session_key';
+
+/**
+ * Reconstruct an authenticated DelegationIdentity from sessionStorage.
+ * Returns null if II delegation is not available.
+ */
+export function getAuthenticatedIdentity(): DelegationIdentity | null {
+  const chainJson = sessionStorage.getItem(II_DELEGATION_CHAIN_KEY);
+  const keyJson = sessionStorage.getItem(II_SESSION_KEY_KEY);
+  if (!chainJson || !keyJson) return null;
+  try {
+    const chain = DelegationChain.fromJSON(chainJson);
+    const key = Ed25519KeyIdentity.fromJSON(keyJson);
+    return DelegationIdentity.fromDelegation(key, chain);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { computeInstantRunoff } from './instantRunoff';
+
+const OPTIONS = ['a', 'b', 'c'];
+
+describe('computeInstantRunoff', () => {
+  it('elects a first-round majority without elimination', () => {
+    const result = computeInstantRunoff(OPTIONS, [['a'], ['a', 'b'], ['b'], ['a', 'c']]);
+
+    expect(result.winner).toBe('a');
+    expect(result.rounds).toHaveLength(1);
+    expect(result.rounds[0].counts).toEqual({ a: 3, b: 1, c: 0 });
+  });
+
+  it('transfers eliminated ballots to their next preference', () => {
+    const result = computeInstantRunoff(OPTIONS, [['a'], ['a'], ['b'], ['b'], ['c', 'b']]);
+
+    expect(result.rounds[0].eliminated).toEqual(['c']);
+    expect(result.rounds[1].counts).toEqual({ a: 2, b: 3 });
+    expect(result.winner).toBe('b');
+  });
+
+  it('counts ballots with no continuing option as exhausted', () => {
+    const result = computeInstantRunoff(OPTIONS, [['a'], ['a'], ['b'], ['b'], ['c']]);
+
+    expect(result.rounds[1].exhausted).toBe(1);
+    // With one ballot exhausted, a majority of the 4 still in play is needed and neither has it
+    expect(result.winner).toBeNull();
+    expect(result.tied).toEqual(['a', 'b']);
+  });
+
+  it('breaks a last-place tie using the previous round', () => {
+    const result = computeInstantRunoff(
+      ['a', 'b', 'c', 'd'],
+      [
+        ...Array.from({ length: 5 }, () => ['a']),
+        ...Array.from({ length: 3 }, () => ['b']),
+        ['c', 'b'],
+        ['c', 'b'],
+        ['d', 'c', 'b'],
+      ]
+    );
+
+    // b and c tie on 3 in round 2; c had fewer first choices in round 1
+    expect(result.rounds[0].eliminated).toEqual(['d']);
+    expect(result.rounds[1].counts).toEqual({ a: 5, b: 3, c: 3 });
+    expect(result.rounds[1].eliminated).toEqual(['c']);
+    expect(result.rounds[2].counts).toEqual({ a: 5, b: 6 });
+    expect(result.winner).toBe('b');
+  });
+
+  it('ignores unknown and repeated options on a ballot', () => {
+    const result = computeInstantRunoff(OPTIONS, [['x', 'b', 'b'], ['b'], ['a']]);
+
+    expect(result.rounds[0].counts).toEqual({ a: 1, b: 2, c: 0 });
+    expect(result.winner).toBe('b');
+  });
+
+  it('returns no winner when there are no ballots', () => {
+    const result = computeInstantRunoff(OPTIONS, []);
+
+    expect(result.winner).toBeNull();
+    expect(result.totalBallots).toBe(0);
+    expect(result.rounds).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Instant-runoff tallying
+ *
+ * Counts ranked-choice ballots client-side. Each round every ballot counts
+ * for its highest-ranked option still in the race. An option with more than
+ * half of the ballots still in play wins; otherwise the last-placed option
+ * is eliminated and its ballots move to their next preference.
+ *
+ * Ties for last place are broken by the earlier round in which the tied
+ * options differed most recently. Options still tied after that are
+ * eliminated together, unless that would eliminate every remaining option,
+ * in which case the result is a tie.
+ */
+
+export interface RunoffRound {
+  round: number; // 1-indexed
+  counts: Record<string, number>; // Ballots counting for each continuing option
+  exhausted: number; // Ballots with no continuing option left
+  eliminated: string[]; // Options knocked out at the end of this round
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[];
+  winner: string | null;
+  tied: string[]; // Options left tied when no winner could be decided
+  totalBallots: number;
+}
+
+/**
+ * Drop unknown and repeated options from a ballot, keeping its order
+ */
+function normalizeBallot(ballot: string[], known: Set<string>): string[] {
+  const seen = new Set<string>();
+  return ballot.filter((id) => {
+    if (!known.has(id) || seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/**
+ * Narrow last-place candidates using earlier rounds, most recent first
+ */
+function breakLastPlaceTie(candidates: string[], rounds: RunoffRound[]): string[] {
+  let remaining = candidates;
+  for (let i = rounds.length - 1; i >= 0 && remaining.length > 1; i--) {
+    const { counts } = rounds[i];
+    const lowest = Math.min(...remaining.map((id) => counts[id] ?? 0));
+    remaining = remaining.filter((id) => (counts[id] ?? 0) === lowest);
+  }
+  return remaining;
+}
+
+/**
+ * Run an instant-runoff count
+ *
+ * @param optionIds - Options on the ballot
+ * @param ballots - Rankings of option IDs, most preferred first; partial rankings are allowed
+ */
+export function computeInstantRunoff(optionIds: string[], ballots: string[][]): RunoffResult {
+  const known = new Set(optionIds);
+  const normalized = ballots.map((ballot) => normalizeBallot(ballot, known));
+  const continuing = new Set(optionIds);
+  const rounds: RunoffRound[] = [];
+
+  while (continuing.size > 0) {
+    const counts: Record<string, number> = {};
+    for (const id of continuing) counts[id] = 0;
+
+    let exhausted = 0;
+    for (const ballot of normalized) {
+      const choice = ballot.find((id) => continuing.has(id));
+      if (choice) {
+        counts[choice]++;
+      } else {
+        exhausted++;
+      }
+    }
+
+    const round: RunoffRound = { round: rounds.length + 1, counts, exhausted, eliminated: [] };
+    const active = normalized.length - exhausted;
+
+    if (active === 0) {
+      rounds.push(round);
+      return { rounds, winner: null, tied: [], totalBallots: normalized.length };
+    }
+
+    const ids = [...continuing];
+    const leader = ids.reduce((best, id) => (counts[id] > counts[best] ? id : best));
+    if (counts[leader] * 2 > active) {
+      rounds.push(round);
+      return { rounds, winner: leader, tied: [], totalBallots: normalized.length };
+    }
+
+    const lowest = Math.min(...ids.map((id) => counts[id]));
+    const lastPlace = breakLastPlaceTie(
+      ids.filter((id) => counts[id] === lowest),
+      rounds
+    );
+
+    if (lastPlace.length === continuing.size) {
+      rounds.push(round);
+      return { rounds, winner: null, tied: lastPlace, totalBallots: normalized.length };
+    }
+
+    round.eliminated = lastPlace;
+    for (const id of lastPlace) continuing.delete(id);
+    rounds.push(round);
+  }
+
+  return { rounds, winner: null, tied: [], totalBallots: normalized.length };
+}
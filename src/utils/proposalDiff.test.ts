@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { diffSequences, diffText, diffRevisions, getBudgetDelta } from './proposalDiff';
+import type { ProposalRevision, ThinkTankOutput } from '@/stores';
+
+const OUTPUT: ThinkTankOutput = {
+  problemStatement: 'The garden lacks water.',
+  proposedSolution: 'Install a rain barrel.',
+  budgetBreakdown: [
+    { category: 'Materials', amount: 500, description: 'Barrels' },
+    { category: 'Labor', amount: 200, description: 'Install' },
+  ],
+  timeline: [{ phase: 'Build', duration: '2 weeks', deliverables: ['Barrels installed'] }],
+  successMetrics: ['Garden watered weekly'],
+  riskAssessment: [],
+  agentContributions: [{ agent: 'Planner', contribution: 'Timeline' }],
+};
+
+function makeRevision(revision: number, overrides: Partial<ThinkTankOutput> = {}): ProposalRevision {
+  return {
+    revision,
+    title: 'Garden Water',
+    thinkTankOutput: { ...OUTPUT, ...overrides },
+    summary: '',
+    createdAt: 0,
+  };
+}
+
+describe('proposalDiff', () => {
+  describe('diffSequences', () => {
+    it('marks kept, removed and added items', () => {
+      expect(diffSequences(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+        { change: 'same', text: 'a' },
+        { change: 'removed', text: 'b' },
+        { change: 'same', text: 'c' },
+        { change: 'added', text: 'd' },
+      ]);
+    });
+  });
+
+  describe('diffText', () => {
+    it('diffs word by word and merges runs', () => {
+      expect(diffText('Install a rain barrel.', 'Install two rain barrels.')).toEqual([
+        { change: 'same', text: 'Install ' },
+        { change: 'removed', text: 'a' },
+        { change: 'added', text: 'two' },
+        { change: 'same', text: ' rain ' },
+        { change: 'removed', text: 'barrel.' },
+        { change: 'added', text: 'barrels.' },
+      ]);
+    });
+  });
+
+  describe('diffRevisions', () => {
+    it('reports unchanged sections as unchanged', () => {
+      const diffs = diffRevisions(makeRevision(1), makeRevision(2));
+
+      expect(diffs.every((d) => !d.changed)).toBe(true);
+      expect(diffs.map((d) => d.key)).toEqual([
+        'title',
+        'problemStatement',
+        'proposedSolution',
+        'budgetBreakdown',
+        'timeline',
+        'successMetrics',
+        'riskAssessment',
+        'agentContributions',
+      ]);
+    });
+
+    it('diffs budget items as whole lines', () => {
+      const after = makeRevision(2, {
+        budgetBreakdown: [
+          { category: 'Materials', amount: 650, description: 'Barrels' },
+          { category: 'Labor', amount: 200, description: 'Install' },
+        ],
+      });
+
+      const budget = diffRevisions(makeRevision(1), after).find(
+        (d) => d.key === 'budgetBreakdown'
+      )!;
+
+      expect(budget.changed).toBe(true);
+      expect(budget.segments.map((s) => s.change)).toEqual(['removed', 'added', 'same']);
+      expect(budget.segments[1].text).toContain('650');
+    });
+
+    it('detects a changed timeline', () => {
+      const after = makeRevision(2, {
+        timeline: [{ phase: 'Build', duration: '3 weeks', deliverables: ['Barrels installed'] }],
+      });
+
+      const timeline = diffRevisions(makeRevision(1), after).find((d) => d.key === 'timeline')!;
+
+      expect(timeline.changed).toBe(true);
+    });
+  });
+
+  describe('getBudgetDelta', () => {
+    it('returns the change in total budget', () => {
+      const after = makeRevision(2, {
+        budgetBreakdown: [{ category: 'Materials', amount: 900, description: 'Barrels' }],
+      });
+
+      expect(getBudgetDelta(makeRevision(1), after)).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Proposal revision diffing
+ *
+ * Compares two revisions of a proposal section by section. Prose sections
+ * are diffed word by word; list sections (budget, timeline, metrics,
+ * risks) are diffed item by item.
+ */
+
+import type { ProposalRevision, ThinkTankOutput } from '@/stores';
+
+export type DiffChange = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  change: DiffChange;
+  text: string;
+}
+
+export interface SectionDiff {
+  key: 'title' | keyof ThinkTankOutput;
+  label: string;
+  kind: 'text' | 'list';
+  changed: boolean;
+  segments: DiffSegment[];
+}
+
+/** Above this many token comparisons, a changed text section is shown as a full replacement */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Longest-common-subsequence diff of two token sequences
+ */
+export function diffSequences(before: string[], after: string[]): DiffSegment[] {
+  const n = before.length;
+  const m = after.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...before.map((text) => ({ change: 'removed' as const, text })),
+      ...after.map((text) => ({ change: 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      segments.push({ change: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      segments.push({ change: 'removed', text: before[i++] });
+    } else {
+      segments.push({ change: 'added', text: after[j++] });
+    }
+  }
+  while (i < n) segments.push({ change: 'removed', text: before[i++] });
+  while (j < m) segments.push({ change: 'added', text: after[j++] });
+
+  return segments;
+}
+
+/**
+ * Merge adjacent segments with the same change so words render as runs
+ */
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.change === segment.change) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Word-level diff of two strings. Whitespace is kept as its own token.
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  return mergeSegments(diffSequences(tokenize(before), tokenize(after)));
+}
+
+function formatAmount(amount: number): string {
+  return `${amount.toLocaleString()} DOM`;
+}
+
+/** One-line renderings of list items, compared as whole items */
+const LIST_FORMATTERS: {
+  [K in keyof ThinkTankOutput]?: (output: ThinkTankOutput) => string[];
+} = {
+  budgetBreakdown: (o) =>
+    o.budgetBreakdown.map((b) => `${b.category}: ${formatAmount(b.amount)} (${b.description})`),
+  timeline: (o) =>
+    o.timeline.map((t) => `${t.phase} (${t.duration}): ${t.deliverables.join(', ')}`),
+  successMetrics: (o) => o.successMetrics,
+  riskAssessment: (o) =>
+    o.riskAssessment.map(
+      (r) => `${r.risk} (likelihood ${r.likelihood}, impact ${r.impact}): ${r.mitigation}`
+    ),
+  agentContributions: (o) => o.agentContributions.map((a) => `${a.agent}: ${a.contribution}`),
+};
+
+const SECTION_LABELS: Record<SectionDiff['key'], string> = {
+  title: 'Title',
+  problemStatement: 'Problem Statement',
+  proposedSolution: 'Proposed Solution',
+  budgetBreakdown: 'Budget Breakdown',
+  timeline: 'Timeline',
+  successMetrics: 'Success Metrics',
+  riskAssessment: 'Risk Assessment',
+  agentContributions: 'Agent Contributions',
+};
+
+function textSection(key: SectionDiff['key'], before: string, after: string): SectionDiff {
+  return {
+    key,
+    label: SECTION_LABELS[key],
+    kind: 'text',
+    changed: before !== after,
+    segments: diffText(before, after),
+  };
+}
+
+function listSection(
+  key: keyof ThinkTankOutput,
+  before: ThinkTankOutput,
+  after: ThinkTankOutput
+): SectionDiff {
+  const format = LIST_FORMATTERS[key]!;
+  const segments = diffSequences(format(before), format(after));
+  return {
+    key,
+    label: SECTION_LABELS[key],
+    kind: 'list',
+    changed: segments.some((s) => s.change !== 'same'),
+    segments,
+  };
+}
+
+/**
+ * Diff every section of two proposal revisions, in display order
+ */
+export function diffRevisions(before: ProposalRevision, after: ProposalRevision): SectionDiff[] {
+  const a = before.thinkTankOutput;
+  const b = after.thinkTankOutput;
+  return [
+    textSection('title', before.title, after.title),
+    textSection('problemStatement', a.problemStatement, b.problemStatement),
+    textSection('proposedSolution', a.proposedSolution, b.proposedSolution),
+    listSection('budgetBreakdown', a, b),
+    listSection('timeline', a, b),
+    listSection('successMetrics', a, b),
+    listSection('riskAssessment', a, b),
+    listSection('agentContributions', a, b),
+  ];
+}
+
+/**
+ * Change in total budget between two revisions (positive = increase)
+ */
+export function getBudgetDelta(before: ProposalRevision, after: ProposalRevision): number {
+  const total = (r: ProposalRevision) =>
+    r.thinkTankOutput.budgetBreakdown.reduce((sum, item) => sum + item.amount, 0);
+  return total(after) - total(before);
+}
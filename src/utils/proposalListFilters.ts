@@ -0,0 +1,97 @@
+/**
+ * Proposal list filtering
+ *
+ * Applies proposal list filters and sorting to proposals held on the client:
+ * the mock governance adapter's whole list, or full-text search results.
+ */
+
+import type { ProposalFilters, ProposalListItem, ProposalSort } from '@/stores';
+
+/**
+ * Filter and sort proposals based on filters and sort options
+ */
+export function filterAndSortProposals(
+  proposals: ProposalListItem[],
+  filters: ProposalFilters,
+  sort: ProposalSort,
+  currentUserPrincipal?: string,
+  votedProposalIds?: Set<string>,
+  watchedProposalIds?: Set<string>
+): ProposalListItem[] {
+  let filtered = [...proposals];
+
+  // Filter by status
+  if (filters.status.length > 0) {
+    filtered = filtered.filter((p) => filters.status.includes(p.status));
+  }
+
+  // Filter by search text (title)
+  if (filters.search && filters.search.length >= 2) {
+    const searchLower = filters.search.toLowerCase();
+    filtered = filtered.filter((p) => p.title.toLowerCase().includes(searchLower));
+  }
+
+  // Filter by "My Proposals"
+  if (filters.myProposals && currentUserPrincipal) {
+    filtered = filtered.filter((p) => p.proposer === currentUserPrincipal);
+  }
+
+  // Filter by "Not Voted"
+  if (filters.notVoted && votedProposalIds) {
+    filtered = filtered.filter((p) => !votedProposalIds.has(p.id));
+  }
+
+  // Filter by "Watching"
+  if (filters.watching && watchedProposalIds) {
+    filtered = filtered.filter((p) => watchedProposalIds.has(p.id));
+  }
+
+  // Filter by vertical and scale
+  if (filters.verticals.length > 0) {
+    filtered = filtered.filter((p) => !!p.vertical && filters.verticals.includes(p.vertical));
+  }
+  if (filters.scales.length > 0) {
+    filtered = filtered.filter((p) => !!p.scale && filters.scales.includes(p.scale));
+  }
+
+  // Filter by budget range (proposals without a budget never match a range)
+  const { budgetMin, budgetMax } = filters;
+  if (budgetMin !== null || budgetMax !== null) {
+    filtered = filtered.filter(
+      (p) =>
+        p.budgetTotal !== undefined &&
+        (budgetMin === null || p.budgetTotal >= budgetMin) &&
+        (budgetMax === null || p.budgetTotal <= budgetMax)
+    );
+  }
+
+  // Sort
+  switch (sort) {
+    case 'newest':
+      filtered.sort((a, b) => b.createdAt - a.createdAt);
+      break;
+    case 'oldest':
+      filtered.sort((a, b) => a.createdAt - b.createdAt);
+      break;
+    case 'mostVotes':
+      filtered.sort((a, b) => {
+        const totalA = a.votesFor + a.votesAgainst + a.votesAbstain;
+        const totalB = b.votesFor + b.votesAgainst + b.votesAbstain;
+        return totalB - totalA;
+      });
+      break;
+    case 'endingSoon':
+      // Active proposals first, sorted by soonest deadline
+      filtered.sort((a, b) => {
+        if (a.status === 'Active' && b.status !== 'Active') return -1;
+        if (a.status !== 'Active' && b.status === 'Active') return 1;
+        return a.votingEndsAt - b.votingEndsAt;
+      });
+      break;
+    case 'largestBudget':
+      filtered.sort((a, b) => (b.budgetTotal ?? 0) - (a.budgetTotal ?? 0));
+      break;
+  }
+
+  return filtered;
+}
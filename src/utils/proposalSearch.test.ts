@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addToSearchIndex,
+  createSearchIndex,
+  editDistance,
+  searchIndex,
+  tokenize,
+} from './proposalSearch';
+import type { ProposalListItem } from '@/stores';
+
+function makeItem(id: string, overrides: Partial<ProposalListItem> = {}): ProposalListItem {
+  return {
+    id,
+    title: `Proposal ${id}`,
+    proposer: 'member',
+    status: 'Active',
+    votesFor: 0,
+    votesAgainst: 0,
+    votesAbstain: 0,
+    votingEndsAt: 0,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+const ITEMS = [
+  makeItem('solar', {
+    title: 'Rooftop solar array',
+    problemStatement: 'Electricity costs for the community hall keep rising.',
+    budgetDescriptions: ['Equipment: Solar panels and inverters'],
+  }),
+  makeItem('garden', {
+    title: 'Community garden',
+    proposedSolution: 'Build raised beds and a rain barrel by the hall.',
+  }),
+  makeItem('library', {
+    title: 'Tool library',
+    problemStatement: 'Members buy tools they use once a year.',
+  }),
+];
+
+function buildIndex(items = ITEMS) {
+  const index = createSearchIndex();
+  addToSearchIndex(index, items);
+  return index;
+}
+
+const ids = (hits: { id: string }[]) => hits.map((hit) => hit.id);
+
+describe('proposalSearch', () => {
+  describe('tokenize', () => {
+    it('lowercases, strips accents and drops one-letter words', () => {
+      expect(tokenize('Café & a Co-op!')).toEqual(['cafe', 'co', 'op']);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('counts substitutions, insertions and transpositions', () => {
+      expect(editDistance('garden', 'garden', 2)).toBe(0);
+      expect(editDistance('garden', 'gardne', 2)).toBe(1);
+      expect(editDistance('garden', 'gardens', 2)).toBe(1);
+      expect(editDistance('garden', 'warden', 2)).toBe(1);
+    });
+
+    it('gives up above the maximum distance', () => {
+      expect(editDistance('garden', 'library', 1)).toBe(2);
+    });
+  });
+
+  describe('searchIndex', () => {
+    it('matches whole words in every searchable field', () => {
+      const index = buildIndex();
+
+      expect(ids(searchIndex(index, 'electricity'))).toEqual(['solar']);
+      expect(ids(searchIndex(index, 'barrel'))).toEqual(['garden']);
+      expect(ids(searchIndex(index, 'inverters'))).toEqual(['solar']);
+    });
+
+    it('matches word prefixes', () => {
+      expect(ids(searchIndex(buildIndex(), 'libr'))).toEqual(['library']);
+    });
+
+    it('tolerates typos in longer words', () => {
+      const index = buildIndex();
+
+      expect(ids(searchIndex(index, 'gardne'))).toEqual(['garden']);
+      expect(ids(searchIndex(index, 'electrcity'))).toEqual(['solar']);
+      // Too short to guess at
+      expect(ids(searchIndex(index, 'tol'))).toEqual([]);
+    });
+
+    it('requires every query word to match', () => {
+      const index = buildIndex();
+
+      expect(ids(searchIndex(index, 'community hall'))).toEqual(['garden', 'solar']);
+      expect(ids(searchIndex(index, 'community tools'))).toEqual([]);
+    });
+
+    it('ranks title matches above body matches', () => {
+      expect(ids(searchIndex(buildIndex(), 'community'))).toEqual(['garden', 'solar']);
+    });
+
+    it('applies the limit', () => {
+      expect(searchIndex(buildIndex(), 'community', 1)).toHaveLength(1);
+    });
+
+    it('replaces a proposal when it is indexed again', () => {
+      const index = buildIndex();
+      addToSearchIndex(index, [makeItem('garden', { title: 'Orchard' })]);
+
+      expect(ids(searchIndex(index, 'barrel'))).toEqual([]);
+      expect(ids(searchIndex(index, 'orchard'))).toEqual(['garden']);
+      expect(searchIndex(index, 'orchard')[0].item.title).toBe('Orchard');
+    });
+  });
+
+  describe('highlights', () => {
+    it('marks matched title words', () => {
+      const [hit] = searchIndex(buildIndex(), 'rooftop');
+
+      expect(hit.highlights).toEqual([
+        { field: 'title', text: 'Rooftop solar array', ranges: [[0, 7]] },
+      ]);
+    });
+
+    it('adds a snippet from the best-matching body field', () => {
+      const [hit] = searchIndex(buildIndex(), 'hall');
+
+      expect(hit.highlights).toEqual([
+        {
+          field: 'problemStatement',
+          text: 'Electricity costs for the community hall keep rising.',
+          ranges: [[36, 40]],
+        },
+      ]);
+    });
+
+    it('trims long text around the first match', () => {
+      const filler = 'word '.repeat(40);
+      const index = buildIndex([
+        makeItem('long', { proposedSolution: `${filler}compost bins ${filler}` }),
+      ]);
+      const [snippet] = searchIndex(index, 'compost')[0].highlights;
+
+      expect(snippet.text.startsWith('…')).toBe(true);
+      expect(snippet.text.endsWith('…')).toBe(true);
+      const [[start, end]] = snippet.ranges;
+      expect(snippet.text.slice(start, end)).toBe('compost');
+    });
+  });
+});
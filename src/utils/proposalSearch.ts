@@ -0,0 +1,327 @@
+/**
+ * Proposal full-text search
+ *
+ * An inverted index over proposal titles, problem statements, proposed
+ * solutions and budget descriptions. Queries match whole words, word
+ * prefixes and near-misses (one typo, two for long words); results are
+ * ranked by TF-IDF weighted by field and match quality. The index is plain
+ * JSON so it can cross a worker boundary and be persisted to IndexedDB.
+ */
+
+import type { ProposalListItem } from '@/stores';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProposalSearchField = 'title' | 'problemStatement' | 'proposedSolution' | 'budget';
+
+/**
+ * Matched text within one field, with [start, end) character ranges to highlight
+ */
+export interface ProposalSearchHighlight {
+  field: ProposalSearchField;
+  text: string;
+  ranges: [number, number][];
+}
+
+export interface ProposalSearchHit {
+  id: string;
+  score: number;
+  /** Proposal as last indexed */
+  item: ProposalListItem;
+  /** Title first (when matched), then the best-matching body field */
+  highlights: ProposalSearchHighlight[];
+}
+
+export interface ProposalSearchIndex {
+  version: number;
+  /** Proposals by ID, as last indexed */
+  items: Record<string, ProposalListItem>;
+  /** Term → proposal ID → field-weighted term frequency */
+  postings: Record<string, Record<string, number>>;
+  /** Proposal ID → its distinct terms, for replacing a proposal on re-index */
+  docTerms: Record<string, string[]>;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Bump when the index layout or tokenizer changes; stale persisted indexes are dropped */
+export const PROPOSAL_SEARCH_INDEX_VERSION = 1;
+
+/** Shortest query that runs a search, matching the search input's minimum */
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+const FIELD_WEIGHTS: Record<ProposalSearchField, number> = {
+  title: 3,
+  problemStatement: 1.5,
+  proposedSolution: 1,
+  budget: 0.5,
+};
+
+const FIELD_ORDER: ProposalSearchField[] = [
+  'title',
+  'problemStatement',
+  'proposedSolution',
+  'budget',
+];
+
+/** Score multipliers by how a query token matched an indexed term */
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const TYPO_MATCH = 0.5;
+
+/** Characters of context kept either side of the first match in a snippet */
+const SNIPPET_CONTEXT = 60;
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+/**
+ * Lowercase, strip diacritics and split into word tokens of 2+ characters
+ */
+export function tokenize(text: string): string[] {
+  return normalize(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= 2);
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Searchable text of each field of a proposal
+ */
+function getFieldText(item: ProposalListItem): Record<ProposalSearchField, string> {
+  return {
+    title: item.title ?? '',
+    problemStatement: item.problemStatement ?? '',
+    proposedSolution: item.proposedSolution ?? '',
+    budget: (item.budgetDescriptions ?? []).join(' · '),
+  };
+}
+
+/**
+ * Edit distance (Levenshtein with adjacent transpositions), giving up above maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, twoRowsBack[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+  return row[b.length];
+}
+
+/**
+ * Typos tolerated for a query token: none for short words, one from 4
+ * characters, two from 8
+ */
+function getMaxTypos(token: string): number {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+export function createSearchIndex(): ProposalSearchIndex {
+  return { version: PROPOSAL_SEARCH_INDEX_VERSION, items: {}, postings: {}, docTerms: {} };
+}
+
+function removeFromIndex(index: ProposalSearchIndex, id: string): void {
+  for (const term of index.docTerms[id] ?? []) {
+    const posting = index.postings[term];
+    if (!posting) continue;
+    delete posting[id];
+    if (Object.keys(posting).length === 0) {
+      delete index.postings[term];
+    }
+  }
+  delete index.docTerms[id];
+  delete index.items[id];
+}
+
+/**
+ * Add proposals to the index, replacing any earlier copy of the same proposal
+ */
+export function addToSearchIndex(index: ProposalSearchIndex, items: ProposalListItem[]): void {
+  for (const item of items) {
+    removeFromIndex(index, item.id);
+
+    const frequencies: Record<string, number> = {};
+    const fields = getFieldText(item);
+    for (const field of FIELD_ORDER) {
+      for (const token of tokenize(fields[field])) {
+        frequencies[token] = (frequencies[token] ?? 0) + FIELD_WEIGHTS[field];
+      }
+    }
+
+    for (const [term, frequency] of Object.entries(frequencies)) {
+      (index.postings[term] ??= {})[item.id] = frequency;
+    }
+    index.docTerms[item.id] = Object.keys(frequencies);
+    index.items[item.id] = item;
+  }
+}
+
+/**
+ * Indexed terms a query token matches, with the quality of each match
+ */
+function matchTerms(index: ProposalSearchIndex, token: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  const maxTypos = getMaxTypos(token);
+
+  for (const term of Object.keys(index.postings)) {
+    if (term === token) {
+      matches.set(term, EXACT_MATCH);
+    } else if (term.startsWith(token)) {
+      matches.set(term, PREFIX_MATCH);
+    } else if (maxTypos > 0) {
+      const distance = editDistance(token, term, maxTypos);
+      if (distance <= maxTypos) {
+        matches.set(term, TYPO_MATCH / distance);
+      }
+    }
+  }
+  return matches;
+}
+
+// ============================================================================
+// Highlighting
+// ============================================================================
+
+/**
+ * Ranges of words in text whose normalized form is one of the matched terms
+ */
+function findRanges(text: string, terms: Set<string>): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (terms.has(normalize(match[0]))) {
+      const start = match.index ?? 0;
+      ranges.push([start, start + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Trim long text to a window around its first match, shifting the ranges to suit
+ */
+function toSnippet(
+  text: string,
+  ranges: [number, number][]
+): Pick<ProposalSearchHighlight, 'text' | 'ranges'> {
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(([, rangeEnd]) => rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]): [number, number] => [rangeStart + offset, rangeEnd + offset]),
+  };
+}
+
+function getHighlights(item: ProposalListItem, terms: Set<string>): ProposalSearchHighlight[] {
+  const fields = getFieldText(item);
+  const highlights: ProposalSearchHighlight[] = [];
+
+  const titleRanges = findRanges(fields.title, terms);
+  if (titleRanges.length > 0) {
+    highlights.push({ field: 'title', text: fields.title, ranges: titleRanges });
+  }
+
+  // The body field with the most matched words
+  let best: { field: ProposalSearchField; ranges: [number, number][] } | null = null;
+  for (const field of FIELD_ORDER.slice(1)) {
+    const ranges = findRanges(fields[field], terms);
+    if (ranges.length > (best?.ranges.length ?? 0)) {
+      best = { field, ranges };
+    }
+  }
+  if (best) {
+    highlights.push({ field: best.field, ...toSnippet(fields[best.field], best.ranges) });
+  }
+
+  return highlights;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Search the index. Every query word must match (exactly, as a prefix or
+ * with a typo); results are ranked best first.
+ */
+export function searchIndex(
+  index: ProposalSearchIndex,
+  query: string,
+  limit = Infinity
+): ProposalSearchHit[] {
+  const tokens = [...new Set(tokenize(query))];
+  if (tokens.length === 0) return [];
+
+  const documentCount = Object.keys(index.items).length;
+  const scores = new Map<string, number>();
+  const matchedTerms = new Set<string>();
+
+  for (const [position, token] of tokens.entries()) {
+    const tokenScores = new Map<string, number>();
+
+    for (const [term, quality] of matchTerms(index, token)) {
+      const posting = index.postings[term];
+      const idf = Math.log(1 + documentCount / Object.keys(posting).length);
+      for (const [id, frequency] of Object.entries(posting)) {
+        const score = frequency * idf * quality;
+        // Best matching term per proposal, so a prefix matching many words doesn't dominate
+        tokenScores.set(id, Math.max(tokenScores.get(id) ?? 0, score));
+      }
+      matchedTerms.add(term);
+    }
+
+    // Keep only proposals matching every token so far
+    for (const id of position === 0 ? tokenScores.keys() : [...scores.keys()]) {
+      const tokenScore = tokenScores.get(id);
+      if (tokenScore === undefined) {
+        scores.delete(id);
+      } else {
+        scores.set(id, (scores.get(id) ?? 0) + tokenScore);
+      }
+    }
+    if (scores.size === 0) return [];
+  }
+
+  return [...scores.entries()]
+    .sort(([idA, a], [idB, b]) => b - a || idA.localeCompare(idB))
+    .slice(0, limit)
+    .map(([id, score]) => {
+      const item = index.items[id];
+      return { id, score, item, highlights: getHighlights(item, matchedTerms) };
+    });
+}
@@ -0,0 +1,91 @@
+/**
+ * Proposal search host
+ *
+ * Owns a proposal search index and answers index/search/clear requests.
+ * Runs inside the search Web Worker, or on the main thread where workers
+ * aren't available. The index is restored from IndexedDB on start and
+ * saved shortly after each update.
+ */
+
+import type { ProposalListItem } from '@/stores';
+import {
+  addToSearchIndex,
+  createSearchIndex,
+  searchIndex,
+  type ProposalSearchHit,
+  type ProposalSearchIndex,
+} from './proposalSearch';
+import { clearSearchIndex, loadSearchIndex, saveSearchIndex } from './proposalSearchStorage';
+
+export type ProposalSearchRequest =
+  | { type: 'index'; requestId: number; items: ProposalListItem[] }
+  | { type: 'search'; requestId: number; query: string; limit?: number }
+  | { type: 'clear'; requestId: number };
+
+export type ProposalSearchResponse =
+  | { type: 'indexed'; requestId: number; size: number }
+  | { type: 'results'; requestId: number; hits: ProposalSearchHit[] }
+  | { type: 'cleared'; requestId: number };
+
+/** Delay before saving, so a burst of page loads is written once */
+const PERSIST_DELAY_MS = 1000;
+
+export interface ProposalSearchHost {
+  handle(request: ProposalSearchRequest): Promise<ProposalSearchResponse>;
+}
+
+export function createProposalSearchHost(): ProposalSearchHost {
+  let index: ProposalSearchIndex = createSearchIndex();
+  let persistTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const ready = loadSearchIndex()
+    .then((stored) => {
+      if (stored) {
+        index = stored;
+      }
+    })
+    .catch(() => {
+      // Start with an empty index
+    });
+
+  function schedulePersist() {
+    if (persistTimeout) {
+      clearTimeout(persistTimeout);
+    }
+    persistTimeout = setTimeout(() => {
+      persistTimeout = null;
+      void saveSearchIndex(index);
+    }, PERSIST_DELAY_MS);
+  }
+
+  return {
+    async handle(request) {
+      await ready;
+
+      switch (request.type) {
+        case 'index':
+          addToSearchIndex(index, request.items);
+          schedulePersist();
+          return {
+            type: 'indexed',
+            requestId: request.requestId,
+            size: Object.keys(index.items).length,
+          };
+        case 'search':
+          return {
+            type: 'results',
+            requestId: request.requestId,
+            hits: searchIndex(index, request.query, request.limit),
+          };
+        case 'clear':
+          if (persistTimeout) {
+            clearTimeout(persistTimeout);
+            persistTimeout = null;
+          }
+          index = createSearchIndex();
+          await clearSearchIndex();
+          return { type: 'cleared', requestId: request.requestId };
+      }
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Proposal search index persistence
+ *
+ * Stores the proposal search index in IndexedDB so repeat visits can search
+ * straight away. Storage is best-effort: without IndexedDB (private mode,
+ * tests) loads return null and saves do nothing.
+ */
+
+import { PROPOSAL_SEARCH_INDEX_VERSION, type ProposalSearchIndex } from './proposalSearch';
+
+const DB_NAME = 'hwdao-search';
+const DB_VERSION = 1;
+const STORE_NAME = 'indexes';
+const INDEX_KEY = 'proposals';
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+    request.onblocked = () => resolve(null);
+  });
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  return openDatabase().then(
+    (db) =>
+      new Promise((resolve) => {
+        if (!db) {
+          resolve(null);
+          return;
+        }
+        try {
+          const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => resolve(null);
+        } catch {
+          resolve(null);
+        } finally {
+          db.close();
+        }
+      })
+  );
+}
+
+/**
+ * Load the persisted index, or null if none is stored or it's from an older version
+ */
+export async function loadSearchIndex(): Promise<ProposalSearchIndex | null> {
+  const stored = await runRequest<ProposalSearchIndex | undefined>('readonly', (store) =>
+    store.get(INDEX_KEY)
+  );
+  return stored?.version === PROPOSAL_SEARCH_INDEX_VERSION ? stored : null;
+}
+
+/**
+ * Persist the index
+ */
+export async function saveSearchIndex(index: ProposalSearchIndex): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(index, INDEX_KEY));
+}
+
+/**
+ * Remove the persisted index
+ */
+export async function clearSearchIndex(): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(INDEX_KEY));
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import type { VoteReceipt } from '@/stores';
+import {
+  buildReceiptDocument,
+  serializeReceiptDocument,
+  parseReceiptDocument,
+  getReceiptFilename,
+  getReceiptSigningPayload,
+  bytesToHex,
+  hexToBytes,
+} from './voteReceipt';
+
+const RECEIPT: VoteReceipt = {
+  canisterId: 'rrkah-fqaaa-aaaaa-aaaaq-cai',
+  proposalId: '42',
+  voter: 'aaaaa-aa',
+  vote: 'yes',
+  votedAt: Date.UTC(2026, 0, 31, 12),
+  votedAtNanos: `${Date.UTC(2026, 0, 31, 12)}000123`,
+  transactionId: 'tx-42',
+  revision: 2,
+  weight: 1,
+  signature: 'deadbeef',
+};
+
+describe('vote receipt documents', () => {
+  it('round-trips a receipt through the downloaded JSON', () => {
+    const json = serializeReceiptDocument(buildReceiptDocument(RECEIPT, 'Community Garden'));
+
+    const parsed = parseReceiptDocument(json);
+
+    expect(parsed).toEqual({
+      success: true,
+      document: expect.objectContaining({ proposalTitle: 'Community Garden', receipt: RECEIPT }),
+    });
+  });
+
+  it('rejects text that is not JSON', () => {
+    const parsed = parseReceiptDocument('not a receipt');
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('rejects JSON that is not a vote receipt', () => {
+    const missingSignature = { ...buildReceiptDocument(RECEIPT), receipt: { ...RECEIPT } };
+    delete (missingSignature.receipt as Partial<VoteReceipt>).signature;
+
+    expect(parseReceiptDocument(JSON.stringify({ type: 'invoice' })).success).toBe(false);
+    expect(parseReceiptDocument(JSON.stringify(missingSignature))).toEqual({
+      success: false,
+      error: expect.stringContaining('receipt.signature'),
+    });
+  });
+
+  it('rejects a fractional weight', () => {
+    const document = buildReceiptDocument({ ...RECEIPT, weight: 1.5 });
+
+    expect(parseReceiptDocument(JSON.stringify(document))).toEqual({
+      success: false,
+      error: expect.stringContaining('receipt.weight'),
+    });
+  });
+
+  it('rejects a signature with an odd number of hex digits', () => {
+    const document = buildReceiptDocument({ ...RECEIPT, signature: 'deadbee' });
+
+    expect(parseReceiptDocument(JSON.stringify(document))).toEqual({
+      success: false,
+      error: expect.stringContaining('receipt.signature'),
+    });
+  });
+
+  it('names downloads after the proposal and vote date', () => {
+    expect(getReceiptFilename(RECEIPT)).toBe('vote-receipt-42-2026-01-31.json');
+  });
+
+  it('signs every receipt field except the display timestamp', () => {
+    const payload = getReceiptSigningPayload(RECEIPT);
+
+    expect(payload.split('|')).toEqual([
+      'hwdao-vote-receipt',
+      'rrkah-fqaaa-aaaaa-aaaaq-cai',
+      '42',
+      'aaaaa-aa',
+      'yes',
+      RECEIPT.votedAtNanos,
+      'tx-42',
+      '2',
+      '1',
+    ]);
+  });
+
+  it('converts signatures between bytes and hex', () => {
+    expect(bytesToHex(new Uint8Array([0, 15, 255]))).toBe('000fff');
+    expect(Array.from(hexToBytes('000fff'))).toEqual([0, 15, 255]);
+  });
+});
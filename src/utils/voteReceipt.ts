@@ -0,0 +1,137 @@
+/**
+ * Vote receipt documents
+ *
+ * A vote receipt is the governance canister's signed record of a member's
+ * vote. Receipts are downloaded as a JSON document that anyone can paste
+ * into the verifier page, which checks the signature and the vote record
+ * with the canister.
+ */
+
+import { z } from 'zod';
+import type { VoteReceipt } from '@/stores';
+
+/** Identifies the document type so unrelated JSON is rejected early */
+export const VOTE_RECEIPT_DOCUMENT_TYPE = 'hwdao-vote-receipt';
+
+/** Bump when the document shape changes */
+export const VOTE_RECEIPT_DOCUMENT_VERSION = 1;
+
+export interface VoteReceiptDocument {
+  type: typeof VOTE_RECEIPT_DOCUMENT_TYPE;
+  version: typeof VOTE_RECEIPT_DOCUMENT_VERSION;
+  /** Display only: not covered by the signature */
+  proposalTitle?: string;
+  receipt: VoteReceipt;
+}
+
+export type ParseReceiptResult =
+  | { success: true; document: VoteReceiptDocument }
+  | { success: false; error: string };
+
+const VoteReceiptSchema = z.object({
+  canisterId: z.string().min(1),
+  proposalId: z.string().min(1),
+  voter: z.string().min(1),
+  vote: z.enum(['yes', 'no', 'abstain']),
+  votedAt: z.number(),
+  votedAtNanos: z.string().regex(/^\d+$/, 'votedAtNanos must be a whole number'),
+  transactionId: z.string().min(1),
+  revision: z.number().int().nonnegative(),
+  weight: z.number().int().nonnegative(),
+  signature: z.string().regex(/^(?:[0-9a-f]{2})+$/i, 'signature must be hex-encoded bytes'),
+});
+
+const VoteReceiptDocumentSchema = z.object({
+  type: z.literal(VOTE_RECEIPT_DOCUMENT_TYPE),
+  version: z.literal(VOTE_RECEIPT_DOCUMENT_VERSION),
+  proposalTitle: z.string().optional(),
+  receipt: VoteReceiptSchema,
+});
+
+/**
+ * Wrap a receipt in a downloadable document
+ */
+export function buildReceiptDocument(
+  receipt: VoteReceipt,
+  proposalTitle?: string
+): VoteReceiptDocument {
+  return {
+    type: VOTE_RECEIPT_DOCUMENT_TYPE,
+    version: VOTE_RECEIPT_DOCUMENT_VERSION,
+    ...(proposalTitle && { proposalTitle }),
+    receipt,
+  };
+}
+
+/**
+ * Serialize a receipt document as pretty-printed JSON
+ */
+export function serializeReceiptDocument(document: VoteReceiptDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Parse and validate a pasted or uploaded receipt document
+ */
+export function parseReceiptDocument(text: string): ParseReceiptResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'This is not valid JSON. Paste the full receipt file.' };
+  }
+
+  const result = VoteReceiptDocumentSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    return {
+      success: false,
+      error: `This is not a valid vote receipt (${path ? `${path}: ` : ''}${issue.message}).`,
+    };
+  }
+  return { success: true, document: result.data as VoteReceiptDocument };
+}
+
+/**
+ * Filename for a downloaded receipt, e.g. vote-receipt-42-2026-01-31.json
+ */
+export function getReceiptFilename(receipt: VoteReceipt): string {
+  const date = new Date(receipt.votedAt).toISOString().split('T')[0];
+  return `vote-receipt-${receipt.proposalId}-${date}.json`;
+}
+
+/**
+ * The exact string the canister signs: every signed field in a fixed order
+ */
+export function getReceiptSigningPayload(receipt: Omit<VoteReceipt, 'signature'>): string {
+  return [
+    VOTE_RECEIPT_DOCUMENT_TYPE,
+    receipt.canisterId,
+    receipt.proposalId,
+    receipt.voter,
+    receipt.vote,
+    receipt.votedAtNanos,
+    receipt.transactionId,
+    receipt.revision,
+    receipt.weight,
+  ].join('|');
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decode a hex string into bytes
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(Math.floor(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
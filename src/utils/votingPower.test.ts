@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toWholeTokens,
+  getQuadraticCost,
+  getMaxQuadraticVotes,
+  getVoteWeight,
+  validateAllocation,
+} from './votingPower';
+
+describe('votingPower', () => {
+  it('converts e8s to whole DOM, rounding down', () => {
+    expect(toWholeTokens(BigInt(123_456_789_012))).toBe(1234);
+    expect(toWholeTokens(BigInt(99_999_999))).toBe(0);
+  });
+
+  it('prices quadratic votes as the square of the vote count', () => {
+    expect(getQuadraticCost(1)).toBe(1);
+    expect(getQuadraticCost(7)).toBe(49);
+    expect(getMaxQuadraticVotes(50)).toBe(7);
+    expect(getMaxQuadraticVotes(-4)).toBe(0);
+  });
+
+  it('weights votes by voting mode', () => {
+    expect(getVoteWeight('simple', 500)).toBe(1);
+    expect(getVoteWeight('weighted', 500)).toBe(500);
+    expect(getVoteWeight('quadratic', 500)).toBe(22);
+  });
+
+  describe('validateAllocation', () => {
+    it('ignores allocations on simple proposals', () => {
+      expect(validateAllocation('simple', undefined, 0)).toBeNull();
+    });
+
+    it('requires a positive whole allocation', () => {
+      expect(validateAllocation('weighted', undefined, 100)).toMatch(/at least 1 DOM/);
+      expect(validateAllocation('quadratic', 0.5, 100)).toMatch(/at least 1 credit/);
+    });
+
+    it('caps the allocation at the snapshot balance', () => {
+      expect(validateAllocation('weighted', 100, 100)).toBeNull();
+      expect(validateAllocation('weighted', 101, 100)).toMatch(/more DOM than you held/);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Voting power helpers
+ *
+ * Vote weighting for weighted and quadratic proposals. In weighted mode a
+ * member allocates up to the DOM they held when the proposal was created.
+ * In quadratic mode that balance is a budget of voice credits, and casting
+ * n votes costs n² credits.
+ */
+
+import { TOKEN_DECIMALS, type VotingMode } from '@/stores';
+
+export const VOTING_MODE_LABELS: Record<VotingMode, string> = {
+  simple: 'One member, one vote',
+  weighted: 'DOM-weighted',
+  quadratic: 'Quadratic',
+};
+
+/**
+ * Whole DOM in an e8s balance, rounded down
+ */
+export function toWholeTokens(e8s: bigint): number {
+  return Number(e8s / BigInt(10 ** TOKEN_DECIMALS));
+}
+
+/**
+ * Credits needed to cast the given number of quadratic votes
+ */
+export function getQuadraticCost(votes: number): number {
+  return votes * votes;
+}
+
+/**
+ * Most quadratic votes a credit budget can buy
+ */
+export function getMaxQuadraticVotes(credits: number): number {
+  return Math.floor(Math.sqrt(Math.max(0, credits)));
+}
+
+/**
+ * Weight a vote counts for.
+ *
+ * @param mode - The proposal's voting mode
+ * @param allocation - DOM weight (weighted) or credits spent (quadratic); ignored for simple
+ */
+export function getVoteWeight(mode: VotingMode, allocation?: number): number {
+  switch (mode) {
+    case 'weighted':
+      return allocation ?? 0;
+    case 'quadratic':
+      return getMaxQuadraticVotes(allocation ?? 0);
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Check an allocation against the member's snapshot balance
+ *
+ * @returns An error message, or null if the allocation is valid
+ */
+export function validateAllocation(
+  mode: VotingMode,
+  allocation: number | undefined,
+  balance: number
+): string | null {
+  if (mode === 'simple') return null;
+
+  if (allocation === undefined || !Number.isInteger(allocation) || allocation < 1) {
+    return mode === 'weighted'
+      ? 'Allocate at least 1 DOM to your vote.'
+      : 'Spend at least 1 credit on your vote.';
+  }
+  if (allocation > balance) {
+    return mode === 'weighted'
+      ? 'You cannot allocate more DOM than you held when this proposal was created.'
+      : 'You do not have enough voice credits for that many votes.';
+  }
+  return null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Proposal search worker
+ *
+ * Keeps the proposal search index off the main thread. Requests and
+ * responses are the search host's messages, matched up by requestId.
+ */
+
+import {
+  createProposalSearchHost,
+  type ProposalSearchRequest,
+} from '../utils/proposalSearchHost';
+
+const host = createProposalSearchHost();
+
+self.addEventListener('message', (event: MessageEvent<ProposalSearchRequest>) => {
+  void host.handle(event.data).then((response) => self.postMessage(response));
+});